@@ -0,0 +1,246 @@
+/**
+ * Attachments - Turns Telegram photos, documents and voice notes into Claude input
+ *
+ * Files are downloaded into a per-run scratch directory, either inside the project
+ * (.claude-bridge/attachments/<id>, git-ignored) or under the OS temp dir, and listed
+ * in the prompt by absolute path so Claude can read them. Voice notes are transcribed
+ * through a pluggable Transcriber and become part of the prompt text instead.
+ * The scratch directory is removed when the run finishes.
+ */
+
+import { execFile } from "node:child_process";
+import { createWriteStream, existsSync } from "node:fs";
+import { mkdir, rm, stat, unlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { promisify } from "node:util";
+import type TelegramBot from "node-telegram-bot-api";
+import type { Message } from "node-telegram-bot-api";
+import type { BridgeConfig } from "./types.js";
+import { generateId } from "./utils.js";
+
+const execFileAsync = promisify(execFile);
+
+const PROJECT_SCRATCH_DIR = join(".claude-bridge", "attachments");
+const TEMP_SCRATCH_DIR = join(tmpdir(), "claude-bridge-attachments");
+const TRANSCRIBE_TIMEOUT_MS = 5 * 60_000;
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/ogg": ".ogg",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/flac": ".flac",
+};
+
+/**
+ * Speech-to-text for voice notes
+ */
+export interface Transcriber {
+  readonly name: string;
+  transcribe(filePath: string): Promise<string>;
+}
+
+/**
+ * Transcribes by running a local command (e.g. whisper.cpp); `{file}` is replaced
+ * with the audio path and stdout is the transcript
+ */
+export class CommandTranscriber implements Transcriber {
+  readonly name: string;
+  private command: string;
+  private args: string[];
+
+  constructor(commandLine: string) {
+    const [command, ...args] = commandLine.trim().split(/\s+/);
+    this.command = command;
+    this.args = args;
+    this.name = basename(command);
+  }
+
+  async transcribe(filePath: string): Promise<string> {
+    const args = this.args.includes("{file}")
+      ? this.args.map((arg) => (arg === "{file}" ? filePath : arg))
+      : [...this.args, filePath];
+
+    const { stdout } = await execFileAsync(this.command, args, {
+      timeout: TRANSCRIBE_TIMEOUT_MS,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return stdout.trim();
+  }
+}
+
+/**
+ * A file downloaded for a run
+ */
+export interface DownloadedAttachment {
+  path: string;
+  kind: "photo" | "document";
+  mimeType?: string;
+  size: number;
+}
+
+/**
+ * Everything collected from one message
+ */
+export interface CollectedAttachments {
+  dir: string | null;  // Scratch directory, null when nothing was kept
+  files: DownloadedAttachment[];
+  transcript?: string;
+  rejected: string[];  // Why attachments were skipped, for the user
+}
+
+/**
+ * Attachment Manager class
+ */
+export class AttachmentManager {
+  private config: BridgeConfig;
+  private transcriber: Transcriber | null;
+
+  constructor(config: BridgeConfig) {
+    this.config = config;
+    this.transcriber = config.transcriberCommand ? new CommandTranscriber(config.transcriberCommand) : null;
+  }
+
+  /**
+   * Replace the voice note transcriber (null disables voice notes)
+   */
+  setTranscriber(transcriber: Transcriber | null): void {
+    this.transcriber = transcriber;
+  }
+
+  /**
+   * Whether a message carries anything this manager handles
+   */
+  hasAttachments(msg: Message): boolean {
+    return Boolean(msg.photo?.length || msg.document || msg.voice || msg.audio);
+  }
+
+  /**
+   * Download a message's attachments for a run in the given project
+   */
+  async collect(bot: TelegramBot, msg: Message, projectPath: string): Promise<CollectedAttachments> {
+    const result: CollectedAttachments = { dir: null, files: [], rejected: [] };
+    const dir = await this.createScratchDir(projectPath);
+
+    try {
+      // Telegram sends several sizes of a photo, largest last
+      const photo = msg.photo?.[msg.photo.length - 1];
+      if (photo) {
+        const file = await this.download(bot, photo.file_id, photo.file_size, `photo-${photo.file_unique_id}.jpg`, dir, result);
+        if (file) result.files.push({ ...file, kind: "photo", mimeType: "image/jpeg" });
+      }
+
+      if (msg.document) {
+        const name = msg.document.file_name ?? `document-${msg.document.file_unique_id}`;
+        const file = await this.download(bot, msg.document.file_id, msg.document.file_size, name, dir, result);
+        if (file) result.files.push({ ...file, kind: "document", mimeType: msg.document.mime_type });
+      }
+
+      const audio = msg.voice ?? msg.audio;
+      if (audio) {
+        if (!this.transcriber) {
+          result.rejected.push("voice notes need a transcriber (set TRANSCRIBER_COMMAND)");
+        } else {
+          const extension = msg.voice ? ".ogg" : AUDIO_EXTENSIONS[audio.mime_type ?? ""] ?? ".mp3";
+          const file = await this.download(bot, audio.file_id, audio.file_size, `voice-${audio.file_unique_id}${extension}`, dir, result);
+          if (file) {
+            try {
+              result.transcript = await this.transcriber.transcribe(file.path);
+            } catch (error) {
+              result.rejected.push(`transcription failed (${error instanceof Error ? error.message : String(error)})`);
+            } finally {
+              await unlink(file.path).catch(() => undefined);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      await this.cleanup(dir);
+      throw error;
+    }
+
+    if (result.files.length > 0) {
+      result.dir = dir;
+    } else {
+      await this.cleanup(dir);
+    }
+    return result;
+  }
+
+  /**
+   * Describe downloaded files for the prompt
+   */
+  formatForPrompt(files: DownloadedAttachment[]): string {
+    const lines = files.map((file) => {
+      const details = [file.mimeType, formatBytes(file.size)].filter(Boolean).join(", ");
+      return `- ${file.path} (${details})`;
+    });
+    return `Attached files (read them as needed):\n${lines.join("\n")}`;
+  }
+
+  /**
+   * Remove a run's scratch directory
+   */
+  async cleanup(dir: string): Promise<void> {
+    // Only ever delete directories this manager created
+    if (!dir.includes(PROJECT_SCRATCH_DIR) && !dir.startsWith(TEMP_SCRATCH_DIR)) return;
+    await rm(dir, { recursive: true, force: true }).catch(() => undefined);
+  }
+
+  private async createScratchDir(projectPath: string): Promise<string> {
+    const id = generateId();
+
+    if (this.config.attachmentLocation === "temp") {
+      const dir = join(TEMP_SCRATCH_DIR, id);
+      await mkdir(dir, { recursive: true });
+      return dir;
+    }
+
+    // Keep the scratch area out of git status
+    const root = join(projectPath, ".claude-bridge");
+    const dir = join(projectPath, PROJECT_SCRATCH_DIR, id);
+    await mkdir(dir, { recursive: true });
+    if (!existsSync(join(root, ".gitignore"))) {
+      await writeFile(join(root, ".gitignore"), "*\n").catch(() => undefined);
+    }
+    return dir;
+  }
+
+  private async download(
+    bot: TelegramBot,
+    fileId: string,
+    reportedSize: number | undefined,
+    fileName: string,
+    dir: string,
+    result: CollectedAttachments
+  ): Promise<{ path: string; size: number } | null> {
+    const limit = this.config.attachmentMaxBytes;
+    const safeName = basename(fileName).replace(/[^\w.-]/g, "_") || "attachment";
+
+    if (reportedSize !== undefined && reportedSize > limit) {
+      result.rejected.push(`${safeName} is ${formatBytes(reportedSize)} (limit ${formatBytes(limit)})`);
+      return null;
+    }
+
+    const path = join(dir, safeName);
+    await pipeline(bot.getFileStream(fileId), createWriteStream(path));
+
+    // Telegram doesn't always report sizes up front
+    const { size } = await stat(path);
+    if (size > limit) {
+      await unlink(path).catch(() => undefined);
+      result.rejected.push(`${safeName} is ${formatBytes(size)} (limit ${formatBytes(limit)})`);
+      return null;
+    }
+
+    return { path, size };
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
@@ -14,10 +14,12 @@
 
 import { getMemoryStore } from '../memory/memory-store.js';
 import { getContextIndexer } from '../context/context-indexer.js';
+import { getWorktreeManager, type ClaudeWorktree } from '../git/worktree-manager.js';
+import { getUsageTracker } from '../usage/usage-tracker.js';
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
 import { readFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { basename, join } from 'node:path';
 import { existsSync } from 'node:fs';
 import type {
   Agent,
@@ -361,6 +363,10 @@ export class AgentOrchestrator {
       return { error: `Project path does not exist: ${projectPath}` };
     }
 
+    const worktreeManager = getWorktreeManager();
+    let worktree: ClaudeWorktree | null = null;
+    let worktreeFinished = false;
+
     try {
       // Import ClaudeSpawner dynamically to avoid circular dependency
       const { ClaudeSpawner } = await import('../../claude-spawner-class.js');
@@ -369,22 +375,50 @@ export class AgentOrchestrator {
 
       const spawner = new ClaudeSpawner(config);
 
+      // Keep autonomous edits off the user's working tree when isolation is enabled
+      worktree = config.worktreeIsolation !== 'off' && await worktreeManager.isGitRepo(projectPath)
+        ? await worktreeManager.create(projectPath, basename(projectPath), agent.type)
+        : null;
+
       // Spawn Claude process for the build task
       const claudeProcess = spawner.spawnProcess({
-        project: { name: 'Agent-Build', path: projectPath, isGit: false, lastModified: Date.now(), sessionCount: 0 },
+        project: { name: 'Agent-Build', path: worktree?.path ?? projectPath, isGit: !!worktree, lastModified: Date.now(), sessionCount: 0 },
         prompt,
         model: config.claudeDefaultModel,
+        output: 'stream-json',
+        // Nobody answers permission prompts here, so don't inherit the chat's mode
+        permissionMode: config.agentPermissionMode,
       });
 
       // Wait for completion (no timeout - runs indefinitely)
       const result = await spawner.waitForProcess(claudeProcess);
 
+      if (result.usage) {
+        getUsageTracker().recordRun({
+          project: basename(projectPath),
+          model: result.model ?? config.claudeDefaultModel,
+          sessionId: result.sessionId,
+          source: 'agent',
+          ...result.usage,
+          costUsd: result.costUsd,
+        });
+      }
+
+      // Commit the run on its branch; the user merges or discards it later
+      const worktreeChanges = worktree
+        ? await worktreeManager.finish(worktree.id, `${agent.name}: ${prompt.split('\n')[0].slice(0, 72)}`)
+        : null;
+      worktreeFinished = true;
+
       return {
         agent: agent.name,
         status: 'complete',
         output: result.output.substring(0, 1000), // Truncate for storage
         exitCode: result.exitCode,
         duration: result.duration,
+        worktree: worktree && worktreeChanges && worktreeChanges.commits.length > 0
+          ? { id: worktree.id, branch: worktree.branch, files: worktreeChanges.files }
+          : undefined,
       };
     } catch (error) {
       return {
@@ -392,6 +426,14 @@ export class AgentOrchestrator {
         status: 'error',
         error: error instanceof Error ? error.message : String(error),
       };
+    } finally {
+      // A failed run keeps whatever it changed on its branch (see /worktrees); an empty worktree is discarded
+      if (worktree && !worktreeFinished) {
+        const failed = worktree;
+        await worktreeManager.finish(failed.id, `${agent.name} (failed): ${prompt.split('\n')[0].slice(0, 72)}`)
+          .catch(() => worktreeManager.discard(failed.id))
+          .catch(() => undefined);
+      }
     }
   }
 
@@ -745,6 +787,7 @@ export class AgentOrchestrator {
     changes?: Change[];
     userMessage?: string;
     learnings?: string[];
+    worktreeId?: string; // Set when the changes were isolated in a worktree awaiting review
   }> {
     const { agentType, projectPath, description, transparent } = params;
 
@@ -803,6 +846,7 @@ export class AgentOrchestrator {
         changes,
         userMessage,
         learnings,
+        worktreeId: this.getResultWorktree(taskResult)?.id,
       };
     } catch (error) {
       return {
@@ -863,6 +907,15 @@ export class AgentOrchestrator {
 
     const res = result as Record<string, unknown>;
 
+    // Isolated runs report exactly which files their branch touched
+    const worktree = this.getResultWorktree(result);
+    if (worktree) {
+      for (const path of worktree.files) {
+        changes.push({ type: 'file_modified', path, action: 'modified' });
+      }
+      return changes;
+    }
+
     // Check for output with file changes
     if (res.output && typeof res.output === 'string') {
       // Parse for file modification patterns
@@ -940,9 +993,22 @@ export class AgentOrchestrator {
       message += `⏱️ Duration: ${seconds}s\n`;
     }
 
+    const worktree = this.getResultWorktree(result);
+    if (worktree) {
+      message += `\n🌿 Changes are waiting on branch <code>${worktree.branch}</code>. Use /worktrees to merge, cherry-pick, open a PR or discard them.\n`;
+    }
+
     return message;
   }
 
+  /**
+   * Get the worktree an isolated builder run left its changes in
+   */
+  private getResultWorktree(result: unknown): { id: string; branch: string; files: string[] } | undefined {
+    if (!result || typeof result !== 'object') return undefined;
+    return (result as { worktree?: { id: string; branch: string; files: string[] } }).worktree;
+  }
+
   /**
    * Format a change for display
    */
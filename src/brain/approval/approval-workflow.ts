@@ -7,6 +7,7 @@
  * - Track approval history and decisions
  * - Support bulk approvals
  * - Handle approval expiration and reminders
+ * - Publish approval.requested / approval.resolved events
  *
  * Approval types:
  * - Single action approval
@@ -18,6 +19,7 @@
 import { getMemoryStore } from '../memory/memory-store.js';
 import { getTransparencyTracker } from '../transparency/transparency-tracker.js';
 import { getPermissionManager, PermissionLevel } from '../permission/permission-manager.js';
+import { getEventBus } from '../events/event-bus.js';
 
 // ============================================
 // Types
@@ -223,6 +225,8 @@ export class ApprovalWorkflow {
         metadata: request.context || {},
       });
 
+      await this.publishResolved(autoApproved);
+
       return autoApproved;
     }
 
@@ -253,6 +257,15 @@ export class ApprovalWorkflow {
       metadata: request.context || {},
     });
 
+    await getEventBus().publish('approval.requested', {
+      requestId: approvalRequest.id,
+      projectPath: approvalRequest.projectPath,
+      chatId: approvalRequest.chatId,
+      title: approvalRequest.title,
+      riskLevel: approvalRequest.riskLevel,
+      expiresAt: approvalRequest.expiresAt,
+    });
+
     console.log(`[ApprovalWorkflow] Approval requested: ${approvalRequest.id}`);
 
     return approvalRequest;
@@ -283,6 +296,7 @@ export class ApprovalWorkflow {
     });
 
     await tracker.updateAction(request.actionId, { status: 'approved' });
+    await this.publishResolved(request, reason);
 
     console.log(`[ApprovalWorkflow] Request approved: ${requestId} by user ${approvedBy}`);
     return true;
@@ -310,6 +324,7 @@ export class ApprovalWorkflow {
       status: 'denied',
       error: reason || 'Request denied',
     });
+    await this.publishResolved(request, reason);
 
     console.log(`[ApprovalWorkflow] Request denied: ${requestId} by user ${deniedBy}`);
     return true;
@@ -326,6 +341,7 @@ export class ApprovalWorkflow {
 
     request.status = 'cancelled';
     await this.storeRequest(request);
+    await this.publishResolved(request);
 
     console.log(`[ApprovalWorkflow] Request cancelled: ${requestId}`);
     return true;
@@ -554,6 +570,7 @@ export class ApprovalWorkflow {
         // Update transparency tracker
         const tracker = getTransparencyTracker();
         await tracker.updateAction(request.actionId, { status: 'pending' }); // Still pending, just expired approval
+        await this.publishResolved(request);
       }
     }
 
@@ -675,6 +692,23 @@ export class ApprovalWorkflow {
     return true;
   }
 
+  /**
+   * Announce a request that is no longer pending
+   */
+  private async publishResolved(request: ApprovalRequest, reason?: string): Promise<void> {
+    if (request.status === 'pending') return;
+
+    await getEventBus().publish('approval.resolved', {
+      requestId: request.id,
+      projectPath: request.projectPath,
+      chatId: request.chatId,
+      title: request.title,
+      status: request.status,
+      resolvedBy: request.approvedBy,
+      reason,
+    });
+  }
+
   /**
    * Store request in memory
    */
@@ -15,7 +15,7 @@ import type {
   HeartbeatEntry
 } from './types.js';
 import { getIdentityManager } from './identity.js';
-import { getMetricsTracker } from './metrics/index.js';
+import { getMetricsTracker, type MetricsIncrement } from './metrics/index.js';
 import { getCheckpointManager } from './checkpoint/index.js';
 import { getDatabaseManager } from './database/index.js';
 import { getRecoveryManager } from './recovery/index.js';
@@ -73,6 +73,10 @@ export class BrainManager {
     const { getTaskQueue } = await import('./tasks/task-queue.js');
     await getTaskQueue().initialize();
 
+    // Initialize database (SQLite) before anything subscribes to the event bus,
+    // so durable subscribers replay the events they missed
+    await getDatabaseManager().initialize();
+
     // Initialize autonomous AI components
     const { getTransparencyTracker } = await import('./transparency/transparency-tracker.js');
     await getTransparencyTracker().start();
@@ -110,12 +114,19 @@ export class BrainManager {
     const { getTestHealer } = await import('./self-healing/test-healer.js');
     await getTestHealer().start();
 
+    // React to events from the components above
+    const { getIntentionEngine } = await import('./intention/intention-engine.js');
+    getIntentionEngine().start();
+
+    const { getNotificationRouter } = await import('./notifications/notification-router.js');
+    await getNotificationRouter().initialize();
+
+    // Clean up worktrees left behind by interrupted or abandoned Claude runs
+    await getRecoveryManager().collectStaleWorktrees();
+
     // Initialize metrics tracker
     await getMetricsTracker().start();
 
-    // Initialize database (SQLite)
-    await getDatabaseManager().initialize();
-
     // Initialize checkpoint manager (starts periodic saving)
     await getCheckpointManager().start();
 
@@ -267,14 +278,7 @@ export class BrainManager {
   /**
    * Track a metric increment
    */
-  trackMetrics(increments: {
-    tasksCompleted?: number;
-    tasksFailed?: number;
-    claudeQueries?: number;
-    filesModified?: number;
-    linesOfCodeChanged?: number;
-    activeProject?: string;
-  }): void {
+  trackMetrics(increments: MetricsIncrement): void {
     getMetricsTracker().increment(increments);
   }
 
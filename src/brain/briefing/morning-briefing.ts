@@ -15,6 +15,7 @@
 import { getContextTracker, type ProjectContext } from '../context-tracker/context-tracker.js';
 import { getGoalSystem } from '../goals/goal-system.js';
 import { getTestWatcher } from '../tests/test-watcher.js';
+import { compareCoverage, formatCoverageDrop } from '../tests/coverage.js';
 import { getGitAutomation } from '../git/git-automation.js';
 import { getIntentionEngine } from '../intention/intention-engine.js';
 import { getMemoryStore } from '../memory/memory-store.js';
@@ -80,6 +81,12 @@ export interface BriefingContent {
       active: number;
       healed: number;
     };
+    coverage?: {
+      lines: number; // Percent, latest full run
+      change?: number; // Points since the first full run of the last day
+      changedLines?: { covered: number; total: number };
+      drops: string[];
+    };
   };
   goals?: {
     total: number;
@@ -340,33 +347,45 @@ export class MorningBriefing {
     }
   }
 
+  /**
+   * Coverage of the latest full run, and how it moved over the last day
+   */
+  private async generateCoverageSummary(projectPath: string): Promise<NonNullable<BriefingContent['tests']>['coverage']> {
+    const snapshots = await getTestWatcher().getCoverageHistory(projectPath, 50, { full: true });
+    const latest = snapshots[0];
+    if (!latest) return undefined;
+
+    const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
+    const earliest = snapshots.filter(snapshot => snapshot.timestamp >= dayAgo).pop();
+    const drops = earliest && earliest !== latest ? compareCoverage(earliest, latest) : [];
+
+    return {
+      lines: latest.lines,
+      change: earliest && earliest !== latest ? Math.round((latest.lines - earliest.lines) * 100) / 100 : undefined,
+      changedLines: latest.changedLines?.total
+        ? { covered: latest.changedLines.covered, total: latest.changedLines.total }
+        : undefined,
+      drops: drops.filter(drop => drop.file).slice(0, BRIEFING_CONFIG.maxItemsPerSection).map(formatCoverageDrop),
+    };
+  }
+
   /**
    * Generate tests section
    */
   private async generateTestsSection(projectPath: string): Promise<BriefingContent['tests']> {
     const testWatcher = getTestWatcher();
+    // The latest full run describes the suite as it is now; narrowed runs only cover part of it
     const results = await testWatcher.getTestResults(projectPath, 10);
+    const latest = results.find(result => !result.selectedTests) ?? results[0];
 
-    let passed = 0;
-    let failed = 0;
-    let skipped = 0;
-    const allFailures: Array<{ test: string; file: string; error: string }> = [];
-
-    for (const result of results) {
-      passed += result.passed;
-      failed += result.failed;
-      skipped += result.skipped;
-
-      if (result.failures) {
-        for (const f of result.failures) {
-          allFailures.push({
-            test: f.test,
-            file: f.file,
-            error: f.error.substring(0, 100),
-          });
-        }
-      }
-    }
+    const passed = latest?.passed ?? 0;
+    const failed = latest?.failed ?? 0;
+    const skipped = latest?.skipped ?? 0;
+    const failures = (latest?.failures ?? []).map(f => ({
+      test: f.test,
+      file: f.file,
+      error: f.error.substring(0, 100),
+    }));
 
     const total = passed + failed + skipped;
     const passRate = total > 0 ? Math.round((passed / total) * 100) : 100;
@@ -377,12 +396,13 @@ export class MorningBriefing {
     const opportunities = healer.getFailuresByProject(projectPath);
 
     return {
+      coverage: await this.generateCoverageSummary(projectPath),
       passed,
       failed,
       skipped,
       total,
       passRate,
-      failures: allFailures.slice(0, BRIEFING_CONFIG.maxItemsPerSection),
+      failures: failures.slice(0, BRIEFING_CONFIG.maxItemsPerSection),
       healing: {
         active: opportunities.length,
         healed: healerStats.healed,
@@ -548,10 +568,25 @@ export class MorningBriefing {
       message += `\n${emoji} <b>Tests:</b> ${tests.passed}/${tests.total} passed (${tests.passRate}%)\n`;
       if (tests.failed > 0) {
         message += `   ${tests.failed} test(s) failing\n`;
+        for (const failure of tests.failures.slice(0, 3)) {
+          const name = `${failure.file ? `${failure.file}: ` : ''}${failure.test}`;
+          message += `   • ${name.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}\n`;
+        }
       }
       if (tests.healing.active > 0) {
         message += `   🔧 ${tests.healing.active} auto-heal(s) in progress\n`;
       }
+      if (tests.coverage) {
+        const { coverage } = tests;
+        const change = coverage.change ? ` (${coverage.change > 0 ? '+' : ''}${coverage.change} since yesterday)` : '';
+        const changed = coverage.changedLines
+          ? `, ${coverage.changedLines.covered}/${coverage.changedLines.total} changed lines`
+          : '';
+        message += `   ${coverage.change && coverage.change < 0 ? '📉' : '📊'} Coverage: ${coverage.lines}% lines${change}${changed}\n`;
+        for (const drop of coverage.drops.slice(0, 3)) {
+          message += `   • ${drop.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}\n`;
+        }
+      }
     }
 
     // Goals
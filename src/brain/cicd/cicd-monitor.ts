@@ -5,7 +5,7 @@
  * - Monitor GitHub Actions workflows
  * - Monitor GitLab CI pipelines
  * - Track build status (success, failure, in progress)
- * - Notify on build failures
+ * - Publish build.broken events for failed builds
  * - Provide build summaries
  * - Support for Jenkins (planned)
  */
@@ -16,6 +16,8 @@ import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { getBrain } from '../brain-manager.js';
+import { getMemoryStore } from '../memory/memory-store.js';
+import { getEventBus } from '../events/event-bus.js';
 
 const execAsync = promisify(exec);
 
@@ -219,6 +221,8 @@ export class CIMonitor {
     const project = this.projects.get(projectPath);
     if (!project || !project.config.enabled) return [];
 
+    // The first check picks up history; only builds seen after it are news
+    const firstCheck = project.lastCheck === undefined;
     project.lastCheck = Date.now();
     const newBuilds: CIBuild[] = [];
 
@@ -244,6 +248,12 @@ export class CIMonitor {
       // Save after check
       await this.saveProjects();
 
+      if (!firstCheck && project.config.notifyOnFailure !== false) {
+        for (const build of newBuilds.filter(b => b.status === 'failed')) {
+          await this.publishBrokenBuild(build);
+        }
+      }
+
       return newBuilds;
     } catch (error) {
       console.error(`[CIMonitor] Error checking ${projectPath}:`, error);
@@ -300,6 +310,27 @@ export class CIMonitor {
     await writeFile(this.configFile, JSON.stringify(data, null, 2));
   }
 
+  private async publishBrokenBuild(build: CIBuild): Promise<void> {
+    let chatId: number | undefined;
+    try {
+      chatId = await getMemoryStore().getFact(`project:${build.projectPath}:chatId`) as number | undefined;
+    } catch {
+      // Published without a chat; subscribers resolve it themselves
+    }
+
+    await getEventBus().publish('build.broken', {
+      projectPath: build.projectPath,
+      chatId,
+      provider: build.provider,
+      buildId: build.id,
+      branch: build.branch,
+      commit: build.commitHash,
+      message: build.commitMessage,
+      workflow: build.workflowName,
+      url: build.url,
+    });
+  }
+
   private shouldMonitorBranch(config: CIConfig, branch: string): boolean {
     if (!config.branches || config.branches.length === 0) return true;
     return config.branches.includes(branch);
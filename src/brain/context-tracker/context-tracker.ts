@@ -16,6 +16,7 @@
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
 import { getMemoryStore } from '../memory/memory-store.js';
+import { getChangeDetector, type FileChangeEvent } from '../context/change-detector.js';
 
 const execAsync = promisify(exec);
 
@@ -166,6 +167,19 @@ export class ContextTracker {
   private contexts = new Map<string, ProjectContext>();
   private history = new Map<string, HistoryPoint[]>();
   private refreshTimers = new Map<string, NodeJS.Timeout>();
+  private unsubscribeChanges: () => void;
+
+  constructor() {
+    // Keep tracked projects current as files change
+    this.unsubscribeChanges = getChangeDetector().onChange(event => this.handleFileChanges(event));
+  }
+
+  /**
+   * Stop reacting to file changes
+   */
+  stopListening(): void {
+    this.unsubscribeChanges();
+  }
 
   /**
    * Get or create context for a project
@@ -320,9 +334,25 @@ export class ContextTracker {
    */
   private async handleFileChangeEvent(
     context: ProjectContext,
-    _data: Record<string, unknown>
+    data: Record<string, unknown>
   ): Promise<void> {
-    context.pendingChanges = 0;
+    const { uncommitted } = data as { uncommitted?: number };
+    context.pendingChanges = uncommitted ?? 0;
+  }
+
+  /**
+   * Forward change events of tracked projects
+   */
+  private async handleFileChanges(event: FileChangeEvent): Promise<void> {
+    const projectPath = Array.from(this.contexts.keys())
+      .find(path => path.replace(/\\/g, '/') === event.projectPath);
+    if (!projectPath) return;
+
+    await this.updateFromEvent(projectPath, 'file_change', {
+      changed: event.changed,
+      removed: event.removed,
+      uncommitted: event.uncommitted,
+    });
   }
 
   /**
@@ -830,6 +860,7 @@ export function resetContextTracker(): void {
     for (const context of tracker.getAllContexts()) {
       tracker.stopAutoRefresh(context.projectPath);
     }
+    tracker.stopListening();
   }
   globalContextTracker = null;
 }
@@ -0,0 +1,381 @@
+/**
+ * Change Detector - Shared file change events for watched projects
+ *
+ * Combines two signals:
+ * - Recursive fs.watch (inotify on Linux), debounced, for edits as they happen;
+ *   polling file modification times when watching isn't available
+ * - `git diff --name-only` against a known commit plus uncommitted files, for
+ *   changes made while nothing was watching (e.g. since the last index)
+ *
+ * ContextIndexer, TestWatcher, ContextTracker, OpportunityDetector and the
+ * retrieval index react to the same events instead of each re-walking or
+ * polling the tree. watch() is reference counted, so each consumer starts
+ * and stops watching a project independently. Each batch is also published
+ * on the event bus as file.changed.
+ */
+
+import { watch as fsWatch, type FSWatcher } from 'node:fs';
+import { readdir, stat } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { join, relative } from 'node:path';
+import { getEventBus } from '../events/event-bus.js';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================
+// Configuration
+// ============================================
+
+const DEBOUNCE_MS = 1000; // Quiet period before a batch is published
+const MAX_BATCH_WAIT_MS = 10_000; // Publish even if changes keep coming
+const POLL_INTERVAL_MS = 30_000; // Fallback when fs.watch is unavailable
+const GIT_TIMEOUT_MS = 15_000;
+
+// Build output, dependencies and caches never count as changes
+const IGNORED_DIRECTORIES = new Set([
+  '.git', 'node_modules', 'dist', 'build', 'out', 'target',
+  '__pycache__', '.venv', 'venv', 'coverage', '.next', '.nuxt',
+  '.pytest_cache', '.mypy_cache', '.cache', '.turbo',
+]);
+
+const IGNORED_FILES = [/~$/, /\.swp$/, /\.swx$/, /\.tmp$/, /^\.#/];
+
+// ============================================
+// Types
+// ============================================
+
+export interface FileChangeEvent {
+  projectPath: string;
+  changed: string[]; // Added or modified, relative to the project
+  removed: string[];
+  source: 'watch' | 'poll' | 'git';
+  commit?: string; // HEAD when the change was seen (git projects)
+  uncommitted?: number; // Files with uncommitted changes (git projects)
+  timestamp: number;
+}
+
+export type FileChangeListener = (event: FileChangeEvent) => void | Promise<void>;
+
+/**
+ * A point in a git project's history: HEAD plus the files that differed from it
+ */
+export interface GitRevision {
+  commit: string;
+  dirty: string[];
+}
+
+export interface GitChanges {
+  revision: GitRevision; // Current revision
+  files: string[]; // Changed or removed since the earlier revision
+}
+
+interface WatchedProject {
+  refs: number;
+  close: () => void;
+  pending: Set<string>;
+  debounce: NodeJS.Timeout | null;
+  firstPendingAt: number;
+  mtimes?: Map<string, number>; // Polling fallback only
+}
+
+// ============================================
+// Change Detector Class
+// ============================================
+
+export class ChangeDetector {
+  private projects = new Map<string, WatchedProject>();
+  private listeners = new Set<FileChangeListener>();
+
+  /**
+   * Subscribe to change events of all watched projects
+   * Returns an unsubscribe function.
+   */
+  onChange(listener: FileChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * Start watching a project (reference counted)
+   */
+  watch(projectPath: string): void {
+    const key = normalizePath(projectPath);
+    const existing = this.projects.get(key);
+    if (existing) {
+      existing.refs++;
+      return;
+    }
+
+    const project: WatchedProject = {
+      refs: 1,
+      close: () => {},
+      pending: new Set(),
+      debounce: null,
+      firstPendingAt: 0,
+    };
+    this.projects.set(key, project);
+
+    try {
+      const watcher: FSWatcher = fsWatch(projectPath, { recursive: true }, (_event, filename) => {
+        if (filename) this.record(key, project, filename.toString().replace(/\\/g, '/'));
+      });
+      watcher.on('error', (err) => {
+        console.warn(`[ChangeDetector] Watch failed for ${projectPath}, polling instead:`, err);
+        watcher.close();
+        project.close = this.startPolling(key, project);
+      });
+      project.close = () => watcher.close();
+    } catch (err) {
+      console.warn(`[ChangeDetector] Watch unavailable for ${projectPath}, polling instead:`, err);
+      project.close = this.startPolling(key, project);
+    }
+  }
+
+  /**
+   * Release one watch on a project; it stops when the last one is released
+   */
+  unwatch(projectPath: string): void {
+    const key = normalizePath(projectPath);
+    const project = this.projects.get(key);
+    if (!project || --project.refs > 0) return;
+
+    project.close();
+    if (project.debounce) clearTimeout(project.debounce);
+    this.projects.delete(key);
+  }
+
+  isWatching(projectPath: string): boolean {
+    return this.projects.has(normalizePath(projectPath));
+  }
+
+  /**
+   * Stop watching everything
+   */
+  stop(): void {
+    for (const project of this.projects.values()) {
+      project.close();
+      if (project.debounce) clearTimeout(project.debounce);
+    }
+    this.projects.clear();
+  }
+
+  // ============================================
+  // Git
+  // ============================================
+
+  /**
+   * Current HEAD and uncommitted files, or null outside a git work tree
+   */
+  async getRevision(projectPath: string): Promise<GitRevision | null> {
+    try {
+      const commit = (await git(projectPath, ['rev-parse', 'HEAD'])).trim();
+      const [unstaged, staged] = await Promise.all([
+        git(projectPath, ['ls-files', '-z', '--modified', '--others', '--exclude-standard']),
+        git(projectPath, ['diff', '--cached', '--name-only', '--relative', '-z']),
+      ]);
+      const dirty = new Set([...splitNul(unstaged), ...splitNul(staged)]);
+      return { commit, dirty: Array.from(dirty).filter(file => !isIgnored(file)) };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Files changed since an earlier revision: commits in between, plus files
+   * that are or were uncommitted. Returns null when git can't tell (not a
+   * repository, or the earlier commit is gone after a rebase).
+   */
+  async changesSince(projectPath: string, since: GitRevision): Promise<GitChanges | null> {
+    const revision = await this.getRevision(projectPath);
+    if (!revision) return null;
+
+    const files = new Set([...since.dirty, ...revision.dirty]);
+    if (revision.commit !== since.commit) {
+      try {
+        const committed = await git(projectPath, ['diff', '--name-only', '--relative', '-z', since.commit, revision.commit]);
+        for (const file of splitNul(committed)) files.add(file);
+      } catch {
+        return null;
+      }
+    }
+
+    return { revision, files: Array.from(files).filter(file => !isIgnored(file)) };
+  }
+
+  // ============================================
+  // Batching
+  // ============================================
+
+  private record(key: string, project: WatchedProject, file: string): void {
+    if (isIgnored(file)) return;
+
+    if (project.pending.size === 0) project.firstPendingAt = Date.now();
+    project.pending.add(file);
+
+    if (project.debounce) clearTimeout(project.debounce);
+    const waited = Date.now() - project.firstPendingAt;
+    project.debounce = setTimeout(() => {
+      project.debounce = null;
+      this.flush(key, project, 'watch').catch(err => {
+        console.warn(`[ChangeDetector] Failed to publish changes for ${key}:`, err);
+      });
+    }, waited >= MAX_BATCH_WAIT_MS ? 0 : DEBOUNCE_MS);
+  }
+
+  private async flush(key: string, project: WatchedProject, source: FileChangeEvent['source']): Promise<void> {
+    const files = Array.from(project.pending);
+    project.pending.clear();
+    if (files.length === 0) return;
+
+    // Directory events are reported too; keep paths that are files or gone
+    const changed: string[] = [];
+    const removed: string[] = [];
+    for (const file of files) {
+      try {
+        if ((await stat(join(key, file))).isFile()) changed.push(file);
+      } catch {
+        removed.push(file);
+      }
+    }
+    if (changed.length === 0 && removed.length === 0) return;
+
+    const revision = await this.getRevision(key);
+    await this.publish({
+      projectPath: key,
+      changed,
+      removed,
+      source,
+      commit: revision?.commit,
+      uncommitted: revision?.dirty.length,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Deliver an event to every listener; one failing listener doesn't stop the rest
+   */
+  async publish(event: FileChangeEvent): Promise<void> {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        await listener(event);
+      } catch (err) {
+        console.warn('[ChangeDetector] Change listener failed:', err);
+      }
+    }
+
+    await getEventBus().publish('file.changed', {
+      projectPath: event.projectPath,
+      changed: event.changed,
+      removed: event.removed,
+      source: event.source,
+      commit: event.commit,
+    });
+  }
+
+  // ============================================
+  // Polling fallback
+  // ============================================
+
+  private startPolling(key: string, project: WatchedProject): () => void {
+    let polling = false;
+    const poll = async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const current = await scanModifiedTimes(key);
+        if (project.mtimes) {
+          for (const [file, mtime] of current) {
+            if (project.mtimes.get(file) !== mtime) project.pending.add(file);
+          }
+          for (const file of project.mtimes.keys()) {
+            if (!current.has(file)) project.pending.add(file);
+          }
+          await this.flush(key, project, 'poll');
+        }
+        project.mtimes = current;
+      } catch (err) {
+        console.warn(`[ChangeDetector] Poll failed for ${key}:`, err);
+      } finally {
+        polling = false;
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function normalizePath(projectPath: string): string {
+  return projectPath.replace(/\\/g, '/');
+}
+
+function isIgnored(relativePath: string): boolean {
+  const parts = relativePath.split('/');
+  if (parts.some(part => IGNORED_DIRECTORIES.has(part))) return true;
+  const name = parts[parts.length - 1];
+  return IGNORED_FILES.some(pattern => pattern.test(name));
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 });
+  return stdout;
+}
+
+function splitNul(output: string): string[] {
+  return output.split('\0').filter(Boolean);
+}
+
+async function scanModifiedTimes(root: string): Promise<Map<string, number>> {
+  const mtimes = new Map<string, number>();
+
+  async function walk(dir: string): Promise<void> {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name)) await walk(fullPath);
+      } else if (entry.isFile()) {
+        const path = relative(root, fullPath).replace(/\\/g, '/');
+        if (isIgnored(path)) continue;
+        try {
+          mtimes.set(path, (await stat(fullPath)).mtimeMs);
+        } catch {
+          // Deleted while scanning
+        }
+      }
+    }
+  }
+
+  await walk(root);
+  return mtimes;
+}
+
+// ============================================
+// Global Singleton
+// ============================================
+
+let globalChangeDetector: ChangeDetector | null = null;
+
+export function getChangeDetector(): ChangeDetector {
+  if (!globalChangeDetector) {
+    globalChangeDetector = new ChangeDetector();
+  }
+  return globalChangeDetector;
+}
+
+export function resetChangeDetector(): void {
+  globalChangeDetector?.stop();
+  globalChangeDetector = null;
+}
@@ -4,8 +4,14 @@
  * Scans and indexes project structure for instant agentic awareness:
  * - File tree fingerprint
  * - Exports, imports, dependencies
- * - Functions, classes, types
- * - Watches for changes and updates incrementally
+ * - Functions, classes, types, methods and call sites with line ranges,
+ *   from tree-sitter syntax trees (see SymbolExtractor); the regex parsers
+ *   below are the fallback when a grammar can't be loaded
+ * - A cross-file reference graph (see ReferenceGraph), persisted in the
+ *   brain directory so it survives restarts
+ * - Watches for changes (see ChangeDetector) and re-parses only changed
+ *   files; the index is persisted, and git reports what changed since the
+ *   indexed commit, so restarts don't re-parse the whole tree either
  *
  * Usage:
  * ```ts
@@ -20,16 +26,20 @@
  * ```
  */
 
-import { readdir, readFile, stat } from 'node:fs/promises';
-import { watch as fsWatch } from 'node:fs';
-import { join, relative, extname, basename } from 'node:path';
+import { readdir, readFile, writeFile, mkdir, rename, stat } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { join, relative, extname, basename, dirname } from 'node:path';
+import { getBrain } from '../brain-manager.js';
 import { getMemoryStore } from '../memory/memory-store.js';
+import { buildProjectGraph, isCurrentGraph, ReferenceGraph } from './reference-graph.js';
+import { getChangeDetector, type FileChangeEvent, type GitRevision } from './change-detector.js';
+import { getSymbolExtractor, type CodeSymbol, type CallSite, type ImportBinding, type SymbolKind } from './symbol-extractor.js';
 
 // File extensions to index
 const INDEXABLE_EXTENSIONS = new Set([
   '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs',
   '.json', '.md',
-  '.py', '.rs', '.go', '.java', '.c', '.cpp', '.h',
+  '.py', '.rs', '.go', '.java', '.c', '.cpp', '.cc', '.h', '.hpp',
 ]);
 
 // Directories to skip
@@ -43,6 +53,9 @@ const SKIP_DIRECTORIES = new Set([
 // Maximum scan depth to prevent infinite loops
 const MAX_SCAN_DEPTH = 50;
 
+// Bump when FileIndex changes shape, so old snapshots are re-parsed
+const SNAPSHOT_VERSION = 1;
+
 // File patterns to skip
 const SKIP_PATTERNS = [
   /\.min\.(js|css)$/,
@@ -65,6 +78,9 @@ export interface FileIndex {
   classes?: string[];
   functions?: string[];
   types?: string[];
+  symbols?: CodeSymbol[]; // Definitions with line ranges (tree-sitter only)
+  calls?: CallSite[]; // Call sites (tree-sitter only)
+  bindings?: ImportBinding[]; // Names bound by each import (tree-sitter only)
   lineCount: number;
 }
 
@@ -87,6 +103,27 @@ export interface ProjectFingerprint {
     exportedBy: Map<string, Set<string>>; // symbol -> files that export it
     importedBy: Map<string, Set<string>>; // file -> files that import it
   };
+  revision?: GitRevision; // Git state the index reflects (git projects)
+  lastUpdate?: IndexUpdate;
+}
+
+export interface IndexUpdate {
+  mode: 'full' | 'incremental';
+  parsed: number; // Files (re-)parsed
+  removed: number;
+  duration: number; // ms
+}
+
+/**
+ * Persisted form of a fingerprint
+ */
+interface IndexSnapshot {
+  version: number;
+  projectPath: string;
+  indexedAt: number;
+  revision?: GitRevision;
+  directories: string[];
+  files: FileIndex[];
 }
 
 /**
@@ -111,6 +148,7 @@ class CodeParser {
       '.java': 'java',
       '.c': 'c',
       '.cpp': 'cpp',
+      '.cc': 'cpp',
       '.h': 'c',
       '.hpp': 'cpp',
       '.json': 'json',
@@ -261,9 +299,35 @@ class CodeParser {
 
   /**
    * Parse file based on language
+   * Uses the syntax tree when a grammar is available, the regex parsers otherwise.
    */
-  parseFile(filePath: string, content: string): Partial<FileIndex> {
+  async parseFile(filePath: string, content: string): Promise<Partial<FileIndex>> {
     const language = this.detectLanguage(filePath);
+    const lineCount = content.split('\n').length;
+
+    const extracted = await getSymbolExtractor().extract(language, content);
+    if (extracted) {
+      const topLevel = (kinds: SymbolKind[]) => unique(extracted.symbols
+        .filter(symbol => !symbol.container && kinds.includes(symbol.kind))
+        .map(symbol => symbol.name));
+
+      return {
+        language,
+        lineCount,
+        exports: extracted.exports,
+        imports: extracted.imports,
+        classes: unique(extracted.symbols
+          .filter(symbol => symbol.kind === 'class' || symbol.kind === 'struct')
+          .map(symbol => symbol.name)),
+        functions: topLevel(['function']),
+        types: unique(extracted.symbols
+          .filter(symbol => ['interface', 'trait', 'enum', 'type'].includes(symbol.kind))
+          .map(symbol => symbol.name)),
+        symbols: extracted.symbols,
+        calls: extracted.calls,
+        bindings: extracted.bindings,
+      };
+    }
 
     if (language.startsWith('typescript') || language.startsWith('javascript')) {
       return { ...this.parseTSJS(content, filePath), language };
@@ -276,11 +340,15 @@ class CodeParser {
     // For other languages, just return basic info
     return {
       language,
-      lineCount: content.split('\n').length,
+      lineCount,
     };
   }
 }
 
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
 /**
  * Context Indexer - Maintains project context
  */
@@ -289,107 +357,247 @@ export class ContextIndexer {
   private parser = new CodeParser();
 
   private projects = new Map<string, ProjectFingerprint>();
-  private watchers = new Map<string, () => void>();
-  private indexing = new Set<string>();
+  private graphs = new Map<string, ReferenceGraph>();
+  private watched = new Set<string>();
+  private queues = new Map<string, Promise<unknown>>(); // One index update at a time per project
+  private updateListeners = new Set<(fingerprint: ProjectFingerprint, files: string[]) => void>();
+
+  constructor() {
+    getChangeDetector().onChange(event => this.handleChange(event));
+  }
 
   /**
    * Index a project for context awareness
+   * After the first index only changed files are re-parsed: git reports what
+   * changed since the indexed commit, and otherwise files whose size and
+   * modification time are unchanged are reused. `full` re-parses everything.
    */
-  async indexProject(projectPath: string): Promise<ProjectFingerprint> {
+  async indexProject(projectPath: string, options: { full?: boolean } = {}): Promise<ProjectFingerprint> {
     const normalizedPath = projectPath.replace(/\\/g, '/');
+    return this.exclusive(normalizedPath, () => this.update(projectPath, [], options.full ?? false));
+  }
+
+  /**
+   * Subscribe to index updates (full or incremental), with the changed files
+   * Returns an unsubscribe function.
+   */
+  onUpdate(listener: (fingerprint: ProjectFingerprint, files: string[]) => void): () => void {
+    this.updateListeners.add(listener);
+    return () => { this.updateListeners.delete(listener); };
+  }
 
-    if (this.indexing.has(normalizedPath)) {
-      // Return a promise that resolves when current indexing completes
-      // For now, return existing fingerprint or wait
-      const existing = this.projects.get(normalizedPath);
-      if (existing) return existing;
-      // If no existing but indexing in progress, this is a race condition
-      // Fall through to let it index again (will be deduped by indexing set)
+  private async update(projectPath: string, changedFiles: string[], full: boolean): Promise<ProjectFingerprint> {
+    const normalizedPath = projectPath.replace(/\\/g, '/');
+    const started = Date.now();
+    const detector = getChangeDetector();
+    const previous = full ? undefined : (this.projects.get(normalizedPath) ?? await this.loadSnapshot(normalizedPath));
+
+    if (previous) {
+      const files = new Set(changedFiles);
+      let incremental = false;
+
+      if (previous.revision) {
+        // Git knows what changed since the indexed commit
+        const changes = await detector.changesSince(projectPath, previous.revision);
+        if (changes) {
+          for (const file of changes.files) files.add(file);
+          previous.revision = changes.revision;
+          incremental = true;
+        }
+      } else if (this.projects.has(normalizedPath) && detector.isWatching(projectPath)) {
+        // Not a git project, but the watcher has reported every change
+        incremental = true;
+      }
+
+      if (incremental) {
+        const { parsed, removed } = await this.applyChanges(previous, files);
+        previous.lastUpdate = { mode: 'incremental', parsed: parsed.length, removed: removed.length, duration: Date.now() - started };
+        if (parsed.length > 0 || removed.length > 0 || !this.projects.has(normalizedPath)) {
+          await this.finishUpdate(previous, [...parsed, ...removed]);
+        }
+        return previous;
+      }
     }
 
-    this.indexing.add(normalizedPath);
+    // Walk the tree; revision first, so edits made during the walk show up next time
+    const revision = await detector.getRevision(projectPath);
+    const files = new Map<string, FileIndex>();
+    const directories: string[] = [];
+    const parsed: string[] = [];
+    await this.scanDirectory(projectPath, projectPath, files, directories, previous?.files, parsed);
+
+    const fingerprint = this.buildFingerprint(projectPath, files, directories);
+    fingerprint.revision = revision ?? undefined;
+    const removed = previous ? Array.from(previous.files.keys()).filter(file => !files.has(file)) : [];
+    fingerprint.lastUpdate = { mode: 'full', parsed: parsed.length, removed: removed.length, duration: Date.now() - started };
+    await this.finishUpdate(fingerprint, [...parsed, ...removed]);
+    return fingerprint;
+  }
 
-    try {
-      const projectName = basename(projectPath);
-      const files = new Map<string, FileIndex>();
-
-      let totalLines = 0;
-      const languages: Record<string, number> = {};
-      const structure = {
-        directories: [] as string[],
-        entryPoints: [] as string[],
-        configFiles: [] as string[],
-        testFiles: [] as string[],
-      };
+  /**
+   * Re-parse changed files and drop removed ones
+   */
+  private async applyChanges(
+    fingerprint: ProjectFingerprint,
+    relativePaths: Iterable<string>
+  ): Promise<{ parsed: string[]; removed: string[] }> {
+    const parsed: string[] = [];
+    const removed: string[] = [];
+
+    for (const relativePath of relativePaths) {
+      const fullPath = join(fingerprint.projectPath, relativePath);
+      const skipped = relativePath.split('/').slice(0, -1).some(part => SKIP_DIRECTORIES.has(part));
+      if (skipped || !this.shouldIndexFile(fullPath, relativePath)) continue;
+
+      let stats;
+      try {
+        stats = await stat(fullPath);
+      } catch {
+        stats = null;
+      }
 
-      const dependencies = {
-        imports: new Map<string, Set<string>>(),
-        exportedBy: new Map<string, Set<string>>(),
-        importedBy: new Map<string, Set<string>>(),
-      };
+      if (!stats?.isFile()) {
+        if (fingerprint.files.delete(relativePath)) removed.push(relativePath);
+        continue;
+      }
 
-      // Scan all files
-      await this.scanDirectory(projectPath, projectPath, files, structure, dependencies);
+      const existing = fingerprint.files.get(relativePath);
+      if (existing && existing.size === stats.size && existing.modified === stats.mtimeMs) continue;
 
-      // Aggregate stats
-      for (const file of files.values()) {
-        totalLines += file.lineCount;
-        languages[file.language] = (languages[file.language] || 0) + 1;
+      const fileIndex = await this.indexFile(fingerprint.projectPath, fullPath);
+      if (fileIndex) {
+        fingerprint.files.set(relativePath, fileIndex);
+        parsed.push(relativePath);
+      }
+    }
 
-        // Track entry points
-        if (this.isEntryPoint(file)) {
-          structure.entryPoints.push(file.relativePath);
-        }
+    if (parsed.length > 0 || removed.length > 0) {
+      const rebuilt = this.buildFingerprint(fingerprint.projectPath, fingerprint.files, fingerprint.structure.directories);
+      Object.assign(fingerprint, rebuilt, { revision: fingerprint.revision });
+    }
+    return { parsed, removed };
+  }
 
-        // Track test files
-        if (this.isTestFile(file)) {
-          structure.testFiles.push(file.relativePath);
-        }
+  /**
+   * Rebuild the graph, persist, and tell subscribers
+   */
+  private async finishUpdate(fingerprint: ProjectFingerprint, changedFiles: string[]): Promise<void> {
+    const projectPath = fingerprint.projectPath;
+    this.projects.set(projectPath, fingerprint);
+
+    const graph = new ReferenceGraph(buildProjectGraph(fingerprint));
+    this.graphs.set(projectPath, graph);
+    for (const file of fingerprint.files.keys()) {
+      const dependents = graph.getDependents(file);
+      if (dependents.length > 0) fingerprint.dependencies.importedBy.set(file, new Set(dependents));
+    }
 
-        // Track config files
-        if (this.isConfigFile(file)) {
-          structure.configFiles.push(file.relativePath);
-        }
+    await Promise.all([this.saveGraph(graph), this.saveSnapshot(fingerprint)]).catch(err => {
+      console.warn(`[ContextIndexer] Failed to save index for ${projectPath}:`, err);
+    });
+
+    // Save stats to memory
+    const techStack = Object.keys(fingerprint.languages).filter(l => l !== 'unknown' && l !== 'json' && l !== 'markdown');
+    await this.memory.updateProjectContext(projectPath, {
+      techStack,
+    });
+
+    // Start watching for changes
+    this.watchProject(projectPath);
+
+    for (const listener of this.updateListeners) {
+      try {
+        listener(fingerprint, changedFiles);
+      } catch (err) {
+        console.warn('[ContextIndexer] Update listener failed:', err);
       }
+    }
+  }
 
-      const fingerprint: ProjectFingerprint = {
-        projectPath: normalizedPath,
-        projectName,
-        indexedAt: Date.now(),
-        files,
-        fileCount: files.size,
-        totalLines,
-        languages,
-        structure,
-        dependencies,
-      };
+  /**
+   * Aggregate stats, structure and dependencies from the file map
+   */
+  private buildFingerprint(projectPath: string, files: Map<string, FileIndex>, directories: string[]): ProjectFingerprint {
+    let totalLines = 0;
+    const languages: Record<string, number> = {};
+    const structure = {
+      directories: [...directories],
+      entryPoints: [] as string[],
+      configFiles: [] as string[],
+      testFiles: [] as string[],
+    };
+
+    const dependencies = {
+      imports: new Map<string, Set<string>>(),
+      exportedBy: new Map<string, Set<string>>(),
+      importedBy: new Map<string, Set<string>>(),
+    };
 
-      this.projects.set(normalizedPath, fingerprint);
+    const knownDirectories = new Set(structure.directories);
+    for (const [relativePath, file] of files) {
+      totalLines += file.lineCount;
+      languages[file.language] = (languages[file.language] || 0) + 1;
 
-      // Save stats to memory
-      const techStack = Object.keys(languages).filter(l => l !== 'unknown' && l !== 'json' && l !== 'markdown');
-      await this.memory.updateProjectContext(projectPath, {
-        techStack,
-      });
+      // Directories of files added since the last walk
+      const directory = dirname(relativePath);
+      if (directory !== '.' && !knownDirectories.has(directory)) {
+        knownDirectories.add(directory);
+        structure.directories.push(directory);
+      }
 
-      // Start watching for changes
-      this.watchProject(projectPath);
+      // Track entry points
+      if (this.isEntryPoint(file)) {
+        structure.entryPoints.push(file.relativePath);
+      }
 
-      return fingerprint;
-    } finally {
-      this.indexing.delete(normalizedPath);
+      // Track test files
+      if (this.isTestFile(file)) {
+        structure.testFiles.push(file.relativePath);
+      }
+
+      // Track config files
+      if (this.isConfigFile(file)) {
+        structure.configFiles.push(file.relativePath);
+      }
+
+      // Track dependencies
+      if (file.imports && file.imports.length > 0) {
+        dependencies.imports.set(relativePath, new Set(file.imports));
+      }
+
+      for (const exp of file.exports ?? []) {
+        if (!dependencies.exportedBy.has(exp)) {
+          dependencies.exportedBy.set(exp, new Set());
+        }
+        dependencies.exportedBy.get(exp)!.add(relativePath);
+      }
     }
+
+    return {
+      projectPath: projectPath.replace(/\\/g, '/'),
+      projectName: basename(projectPath),
+      indexedAt: Date.now(),
+      files,
+      fileCount: files.size,
+      totalLines,
+      languages,
+      structure,
+      dependencies,
+    };
   }
 
   /**
    * Scan directory recursively
+   * Files unchanged since the previous index (same size and modification
+   * time) are reused instead of re-parsed.
    */
   private async scanDirectory(
     rootPath: string,
     currentPath: string,
     files: Map<string, FileIndex>,
-    structure: Pick<ProjectFingerprint['structure'], 'directories'>,
-    dependencies: ProjectFingerprint['dependencies'],
+    directories: string[],
+    previous: Map<string, FileIndex> | undefined,
+    parsed: string[],
     depth = 0,
   ): Promise<void> {
     // Prevent infinite loops with max depth
@@ -409,8 +617,8 @@ export class ContextIndexer {
           if (SKIP_DIRECTORIES.has(entry.name)) {
             continue;
           }
-          structure.directories.push(relativePath);
-          await this.scanDirectory(rootPath, fullPath, files, structure, dependencies, depth + 1);
+          directories.push(relativePath);
+          await this.scanDirectory(rootPath, fullPath, files, directories, previous, parsed, depth + 1);
           continue;
         }
 
@@ -418,29 +626,20 @@ export class ContextIndexer {
           continue;
         }
 
+        const existing = previous?.get(relativePath);
+        if (existing) {
+          const stats = await stat(fullPath).catch(() => null);
+          if (stats && existing.size === stats.size && existing.modified === stats.mtimeMs) {
+            files.set(relativePath, existing);
+            continue;
+          }
+        }
+
         // Index the file
         const fileIndex = await this.indexFile(rootPath, fullPath);
         if (fileIndex) {
           files.set(relativePath, fileIndex);
-
-          // Track dependencies
-          if (fileIndex.imports) {
-            for (const imp of fileIndex.imports) {
-              if (!dependencies.imports.has(relativePath)) {
-                dependencies.imports.set(relativePath, new Set());
-              }
-              dependencies.imports.get(relativePath)!.add(imp);
-            }
-          }
-
-          if (fileIndex.exports) {
-            for (const exp of fileIndex.exports) {
-              if (!dependencies.exportedBy.has(exp)) {
-                dependencies.exportedBy.set(exp, new Set());
-              }
-              dependencies.exportedBy.get(exp)!.add(relativePath);
-            }
-          }
+          parsed.push(relativePath);
         }
       }
     } catch (err) {
@@ -461,7 +660,7 @@ export class ContextIndexer {
       // Simple hash for change detection
       const hash = this.simpleHash(content);
 
-      const parsed = this.parser.parseFile(filePath, content);
+      const parsed = await this.parser.parseFile(filePath, content);
 
       return {
         path: filePath,
@@ -476,6 +675,9 @@ export class ContextIndexer {
         classes: parsed.classes,
         functions: parsed.functions,
         types: parsed.types,
+        symbols: parsed.symbols,
+        calls: parsed.calls,
+        bindings: parsed.bindings,
       };
     } catch (err) {
       // File read/parse error, skip with logging
@@ -484,6 +686,33 @@ export class ContextIndexer {
     }
   }
 
+  /**
+   * Run index updates of one project one at a time
+   */
+  private exclusive<T>(normalizedPath: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(normalizedPath) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.queues.set(normalizedPath, next);
+    next.finally(() => {
+      if (this.queues.get(normalizedPath) === next) this.queues.delete(normalizedPath);
+    }).catch(() => {});
+    return next;
+  }
+
+  /**
+   * Apply watcher events to indexed projects
+   */
+  private async handleChange(event: FileChangeEvent): Promise<void> {
+    const normalizedPath = event.projectPath.replace(/\\/g, '/');
+    if (!this.projects.has(normalizedPath)) return;
+
+    await this.exclusive(normalizedPath, () => this.update(normalizedPath, [...event.changed, ...event.removed], false));
+    const update = this.projects.get(normalizedPath)?.lastUpdate;
+    if (update?.mode === 'incremental' && update.parsed + update.removed > 0) {
+      console.log(`[ContextIndexer] Re-indexed ${update.parsed + update.removed} changed file(s) in ${normalizedPath}`);
+    }
+  }
+
   /**
    * Check if file should be indexed
    */
@@ -619,38 +848,47 @@ export class ContextIndexer {
   }
 
   /**
-   * Watch project for changes
+   * Get the project's reference graph
+   * Falls back to the graph persisted by an earlier run when the project
+   * hasn't been indexed since startup.
    */
-  private watchProject(projectPath: string): void {
+  async getGraph(projectPath: string): Promise<ReferenceGraph | undefined> {
     const normalizedPath = projectPath.replace(/\\/g, '/');
+    const cached = this.graphs.get(normalizedPath);
+    if (cached) return cached;
 
-    if (this.watchers.has(normalizedPath)) {
-      return;
+    try {
+      const data: unknown = JSON.parse(await readFile(this.storageFile('graphs', normalizedPath), 'utf-8'));
+      if (!isCurrentGraph(data)) return undefined;
+      const graph = new ReferenceGraph(data);
+      this.graphs.set(normalizedPath, graph);
+      return graph;
+    } catch {
+      return undefined;
     }
+  }
 
-    // Debounced re-index
-    let timeout: NodeJS.Timeout | null = null;
+  private async saveGraph(graph: ReferenceGraph): Promise<void> {
+    const file = this.storageFile('graphs', graph.data.projectPath);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(graph.data));
+    await rename(`${file}.tmp`, file);
+  }
 
-    const reindex = async () => {
-      if (timeout) clearTimeout(timeout);
-      timeout = setTimeout(async () => {
-        await this.indexProject(projectPath);
-        console.log(`[ContextIndexer] Re-indexed: ${projectPath}`);
-      }, 1000);
-    };
+  private storageFile(kind: 'graphs' | 'indexes', normalizedPath: string): string {
+    const id = createHash('sha1').update(normalizedPath).digest('hex').substring(0, 16);
+    return join(getBrain().getBrainDir(), kind, `${id}.json`);
+  }
 
-    try {
-      const watcher = fsWatch(projectPath, { recursive: true }, (_event, filename) => {
-        if (filename && this.shouldIndexFile(join(projectPath, filename), filename)) {
-          reindex();
-        }
-      });
+  /**
+   * Watch project for changes
+   */
+  private watchProject(projectPath: string): void {
+    const normalizedPath = projectPath.replace(/\\/g, '/');
+    if (this.watched.has(normalizedPath)) return;
 
-      this.watchers.set(normalizedPath, () => watcher.close());
-    } catch (err) {
-      // Watch not supported or failed, log and continue
-      console.warn(`[ContextIndexer] Watch failed for ${projectPath}:`, err);
-    }
+    this.watched.add(normalizedPath);
+    getChangeDetector().watch(normalizedPath);
   }
 
   /**
@@ -658,10 +896,45 @@ export class ContextIndexer {
    */
   unwatchProject(projectPath: string): void {
     const normalizedPath = projectPath.replace(/\\/g, '/');
-    const stop = this.watchers.get(normalizedPath);
-    if (stop) {
-      stop();
-      this.watchers.delete(normalizedPath);
+    if (this.watched.delete(normalizedPath)) {
+      getChangeDetector().unwatch(normalizedPath);
+    }
+  }
+
+  // ============================================
+  // Persistence
+  // ============================================
+
+  private async saveSnapshot(fingerprint: ProjectFingerprint): Promise<void> {
+    const snapshot: IndexSnapshot = {
+      version: SNAPSHOT_VERSION,
+      projectPath: fingerprint.projectPath,
+      indexedAt: fingerprint.indexedAt,
+      revision: fingerprint.revision,
+      directories: fingerprint.structure.directories,
+      files: Array.from(fingerprint.files.values()),
+    };
+    const file = this.storageFile('indexes', fingerprint.projectPath);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(snapshot));
+    await rename(`${file}.tmp`, file);
+  }
+
+  /**
+   * The index persisted by an earlier run, to be brought up to date incrementally
+   */
+  private async loadSnapshot(normalizedPath: string): Promise<ProjectFingerprint | undefined> {
+    try {
+      const snapshot = JSON.parse(await readFile(this.storageFile('indexes', normalizedPath), 'utf-8')) as IndexSnapshot;
+      if (snapshot.version !== SNAPSHOT_VERSION || snapshot.projectPath !== normalizedPath) return undefined;
+
+      const files = new Map(snapshot.files.map(file => [file.relativePath, file]));
+      const fingerprint = this.buildFingerprint(normalizedPath, files, snapshot.directories);
+      fingerprint.indexedAt = snapshot.indexedAt;
+      fingerprint.revision = snapshot.revision;
+      return fingerprint;
+    } catch {
+      return undefined;
     }
   }
 
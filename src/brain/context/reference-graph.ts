@@ -0,0 +1,511 @@
+/**
+ * Reference Graph - Cross-file dependencies, definitions, references and calls
+ *
+ * Built by ContextIndexer from a project fingerprint and persisted with it:
+ * - Module dependencies: each import resolved to a project file when it can
+ *   be (relative ES imports, Python modules, C includes, Java packages,
+ *   Go packages, Rust crate paths); everything else is external
+ * - Symbol definitions with their location
+ * - References: call sites and the names bound by imports
+ *
+ * Calls are matched by name, since the graph has no type information. A
+ * reference counts as resolved when its file defines the symbol or imports a
+ * file that does; unresolved references are kept but ranked after.
+ */
+
+import { posix } from 'node:path';
+import type { ProjectFingerprint } from './context-indexer.js';
+import type { SymbolKind } from './symbol-extractor.js';
+
+// ============================================
+// Configuration
+// ============================================
+
+const GRAPH_VERSION = 1;
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Dead-export detection needs explicit exports
+const EXPLICIT_EXPORT_LANGUAGES = new Set(['typescript', 'typescript-tsx', 'javascript', 'javascript-jsx']);
+
+// ============================================
+// Types
+// ============================================
+
+export interface SymbolDefinition {
+  name: string;
+  file: string;
+  line?: number; // Missing when the file was parsed by the regex fallback
+  endLine?: number;
+  kind: SymbolKind;
+  container?: string;
+  exported: boolean;
+}
+
+export interface SymbolReference {
+  name: string;
+  file: string;
+  line: number;
+  kind: 'call' | 'import';
+  caller?: string; // Enclosing function for calls
+  target?: string; // Imported project file for imports
+}
+
+/**
+ * Serializable graph, as persisted
+ */
+export interface ProjectGraph {
+  version: number;
+  projectPath: string;
+  builtAt: number;
+  languages: Record<string, string>; // file -> language
+  dependencies: Record<string, string[]>; // file -> project files it imports
+  externalDependencies: Record<string, string[]>; // file -> modules outside the project
+  definitions: Record<string, SymbolDefinition[]>; // name -> definitions
+  references: Record<string, SymbolReference[]>; // name -> references
+  entryPoints: string[];
+  testFiles: string[];
+}
+
+export interface ResolvedReference extends SymbolReference {
+  resolved: boolean;
+}
+
+export interface ImpactedFile {
+  file: string;
+  depth: number; // 1 = direct dependent or reference
+  via?: string; // File it was reached through
+}
+
+export interface DeadExport {
+  file: string;
+  name: string;
+  line?: number;
+  kind: SymbolKind;
+}
+
+// ============================================
+// Building
+// ============================================
+
+/**
+ * Build the graph for an indexed project
+ */
+export function buildProjectGraph(fingerprint: ProjectFingerprint): ProjectGraph {
+  const resolver = new ImportResolver(Array.from(fingerprint.files.keys()));
+  const graph: ProjectGraph = {
+    version: GRAPH_VERSION,
+    projectPath: fingerprint.projectPath,
+    builtAt: Date.now(),
+    languages: {},
+    dependencies: {},
+    externalDependencies: {},
+    definitions: {},
+    references: {},
+    entryPoints: fingerprint.structure.entryPoints,
+    testFiles: fingerprint.structure.testFiles,
+  };
+
+  const push = <T>(record: Record<string, T[]>, key: string, value: T) => {
+    const list = lookup(record, key);
+    if (list) list.push(value);
+    else record[key] = [value];
+  };
+
+  for (const [path, file] of fingerprint.files) {
+    if (file.language === 'json' || file.language === 'markdown' || file.language === 'unknown') continue;
+    graph.languages[path] = file.language;
+
+    // Dependencies
+    const internal = new Set<string>();
+    const external = new Set<string>();
+    for (const specifier of file.imports ?? []) {
+      const targets = resolver.resolve(path, specifier, file.language);
+      if (targets.length > 0) {
+        for (const target of targets) if (target !== path) internal.add(target);
+      } else {
+        external.add(specifier);
+      }
+    }
+    if (internal.size > 0) graph.dependencies[path] = Array.from(internal);
+    if (external.size > 0) graph.externalDependencies[path] = Array.from(external);
+
+    // Definitions
+    if (file.symbols) {
+      for (const symbol of file.symbols) {
+        push(graph.definitions, symbol.name, {
+          name: symbol.name,
+          file: path,
+          line: symbol.startLine,
+          endLine: symbol.endLine,
+          kind: symbol.kind,
+          container: symbol.container,
+          exported: symbol.exported,
+        });
+      }
+    } else {
+      const exported = new Set(file.exports ?? []);
+      const fallback: Array<[string[] | undefined, SymbolKind]> = [
+        [file.classes, 'class'], [file.functions, 'function'], [file.types, 'type'],
+      ];
+      for (const [names, kind] of fallback) {
+        for (const name of names ?? []) {
+          push(graph.definitions, name, { name, file: path, kind, exported: exported.has(name) });
+        }
+      }
+    }
+
+    // References
+    for (const call of file.calls ?? []) {
+      push(graph.references, call.name, { name: call.name, file: path, line: call.line, kind: 'call', caller: call.caller });
+    }
+    for (const binding of file.bindings ?? []) {
+      const target = resolver.resolve(path, binding.source, file.language)[0];
+      push(graph.references, binding.name, {
+        name: binding.name,
+        file: path,
+        line: binding.line,
+        kind: 'import',
+        target,
+      });
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Maps import specifiers to project files, per language
+ */
+class ImportResolver {
+  private files: Set<string>;
+  private byDirectory = new Map<string, string[]>();
+  private rustRoot: string;
+
+  constructor(paths: string[]) {
+    this.files = new Set(paths);
+    for (const path of paths) {
+      const dir = posix.dirname(path);
+      if (!this.byDirectory.has(dir)) this.byDirectory.set(dir, []);
+      this.byDirectory.get(dir)!.push(path);
+    }
+    const crateRoot = paths.find(path => /(^|\/)src\/(lib|main)\.rs$/.test(path));
+    this.rustRoot = crateRoot ? posix.dirname(crateRoot) : 'src';
+  }
+
+  resolve(from: string, specifier: string, language: string): string[] {
+    const dir = posix.dirname(from);
+
+    if (language.startsWith('typescript') || language.startsWith('javascript')) {
+      if (!specifier.startsWith('.')) return [];
+      const base = posix.join(dir, specifier);
+      const stem = base.replace(/\.(m|c)?jsx?$/, '');
+      return this.first([
+        base,
+        ...JS_EXTENSIONS.map(ext => `${stem}${ext}`),
+        ...JS_EXTENSIONS.map(ext => `${base}/index${ext}`),
+      ]);
+    }
+
+    if (language === 'python') {
+      const dots = specifier.match(/^\.*/)![0].length;
+      const modulePath = specifier.slice(dots).split('.').filter(Boolean).join('/');
+      let roots = ['', 'src'];
+      if (dots > 0) {
+        let base = dir;
+        for (let i = 1; i < dots; i++) base = posix.dirname(base);
+        roots = [base === '.' ? '' : base];
+      }
+      return this.first(roots.flatMap(root => {
+        const base = posix.join(root, modulePath);
+        return modulePath ? [`${base}.py`, `${base}/__init__.py`] : [`${base}/__init__.py`];
+      }));
+    }
+
+    if (language === 'c' || language === 'cpp') {
+      const direct = this.first([posix.join(dir, specifier), posix.normalize(specifier)]);
+      return direct.length > 0 ? direct : this.bySuffix(`/${specifier}`);
+    }
+
+    if (language === 'java') {
+      if (specifier.endsWith('*')) return [];
+      // Static imports name a member; try the class path and its parent
+      const parts = specifier.replace(/^static\s+/, '').split('.');
+      return this.bySuffix(`/${parts.join('/')}.java`).concat(
+        this.bySuffix(`/${parts.slice(0, -1).join('/')}.java`)
+      ).slice(0, 1);
+    }
+
+    if (language === 'go') {
+      // Import paths end with the package directory
+      for (const [directory, files] of this.byDirectory) {
+        if (directory !== '.' && (specifier === directory || specifier.endsWith(`/${directory}`))) {
+          return files.filter(file => file.endsWith('.go') && !file.endsWith('_test.go'));
+        }
+      }
+      return [];
+    }
+
+    if (language === 'rust') {
+      const path = specifier.replace(/::\{.*$/, '').split('::');
+      let base: string;
+      if (path[0] === 'crate') base = this.rustRoot;
+      else if (path[0] === 'super') base = posix.dirname(dir);
+      else if (path[0] === 'self') base = dir;
+      else return [];
+      // The longest module prefix that is a file wins; the rest are items
+      for (let end = path.length; end > 1; end--) {
+        const module = posix.join(base, ...path.slice(1, end));
+        const found = this.first([`${module}.rs`, `${module}/mod.rs`]);
+        if (found.length > 0) return found;
+      }
+      return [];
+    }
+
+    return [];
+  }
+
+  private first(candidates: string[]): string[] {
+    const found = candidates.map(candidate => posix.normalize(candidate)).find(candidate => this.files.has(candidate));
+    return found ? [found] : [];
+  }
+
+  private bySuffix(suffix: string): string[] {
+    const matches = Array.from(this.files).filter(file => `/${file}`.endsWith(suffix));
+    // Ambiguous suffixes are left unresolved rather than guessed
+    return matches.length === 1 ? matches : [];
+  }
+}
+
+// ============================================
+// Reference Graph Class
+// ============================================
+
+export class ReferenceGraph {
+  private dependents = new Map<string, Set<string>>();
+
+  constructor(readonly data: ProjectGraph) {
+    for (const [file, targets] of Object.entries(data.dependencies)) {
+      for (const target of targets) {
+        if (!this.dependents.has(target)) this.dependents.set(target, new Set());
+        this.dependents.get(target)!.add(file);
+      }
+    }
+  }
+
+  get fileCount(): number {
+    return Object.keys(this.data.languages).length;
+  }
+
+  hasFile(file: string): boolean {
+    return Object.hasOwn(this.data.languages, file);
+  }
+
+  /**
+   * Definitions of a name; "Class.method" narrows to one container
+   */
+  findDefinitions(symbol: string): SymbolDefinition[] {
+    const { container, name } = splitSymbol(symbol);
+    return (lookup(this.data.definitions, name) ?? []).filter(def => !container || def.container === container);
+  }
+
+  /**
+   * Calls and imports of a symbol, resolved ones first
+   */
+  findReferences(symbol: string): ResolvedReference[] {
+    const { name } = splitSymbol(symbol);
+    const definingFiles = new Set(this.findDefinitions(symbol).map(def => def.file));
+
+    return (lookup(this.data.references, name) ?? [])
+      .filter(ref => ref.kind === 'call' || !ref.target || definingFiles.size === 0 || definingFiles.has(ref.target))
+      .map(ref => ({ ...ref, resolved: this.isResolved(ref, definingFiles) }))
+      .sort((a, b) => Number(b.resolved) - Number(a.resolved) || a.file.localeCompare(b.file) || a.line - b.line);
+  }
+
+  /**
+   * Call sites of a function or method
+   */
+  findCallers(symbol: string): ResolvedReference[] {
+    return this.findReferences(symbol).filter(ref => ref.kind === 'call');
+  }
+
+  /**
+   * Project files a file imports
+   */
+  getDependencies(file: string): string[] {
+    return lookup(this.data.dependencies, file) ?? [];
+  }
+
+  /**
+   * Modules outside the project a file imports
+   */
+  getExternalDependencies(file: string): string[] {
+    return lookup(this.data.externalDependencies, file) ?? [];
+  }
+
+  /**
+   * Project files that import a file
+   */
+  getDependents(file: string): string[] {
+    return Array.from(this.dependents.get(file) ?? []);
+  }
+
+  /**
+   * Files affected if a file or symbol changes
+   * For a file: everything that imports it, transitively. For a symbol: the
+   * files that reference it, then everything that imports those.
+   */
+  impactOf(target: string): ImpactedFile[] {
+    const impacted = new Map<string, ImpactedFile>();
+    let frontier: string[];
+
+    if (this.hasFile(target)) {
+      impacted.set(target, { file: target, depth: 0 });
+      frontier = [target];
+    } else {
+      const definingFiles = new Set(this.findDefinitions(target).map(def => def.file));
+      frontier = [];
+      for (const ref of this.findReferences(target)) {
+        if (!ref.resolved || definingFiles.has(ref.file) || impacted.has(ref.file)) continue;
+        impacted.set(ref.file, { file: ref.file, depth: 1 });
+        frontier.push(ref.file);
+      }
+      for (const file of definingFiles) impacted.set(file, { file, depth: 0 });
+    }
+
+    // Breadth-first over reverse dependencies
+    while (frontier.length > 0) {
+      const next: string[] = [];
+      for (const file of frontier) {
+        const depth = impacted.get(file)!.depth + 1;
+        for (const dependent of this.getDependents(file)) {
+          if (impacted.has(dependent)) continue;
+          impacted.set(dependent, { file: dependent, depth, via: file });
+          next.push(dependent);
+        }
+      }
+      frontier = next;
+    }
+
+    return Array.from(impacted.values())
+      .filter(entry => entry.depth > 0)
+      .sort((a, b) => a.depth - b.depth || a.file.localeCompare(b.file));
+  }
+
+  /**
+   * Exports that no other file imports or calls
+   * Only for languages with explicit exports, and only in modules something
+   * imports (a module nothing imports is an entry point or dead as a whole).
+   */
+  findDeadExports(): DeadExport[] {
+    const skip = new Set([...this.data.entryPoints, ...this.data.testFiles]);
+    const used = new Map<string, Set<string>>(); // file -> names used elsewhere
+    const wholeModule = new Set<string>(); // Namespace-imported files
+
+    for (const refs of Object.values(this.data.references)) {
+      for (const ref of refs) {
+        if (ref.kind !== 'import' || !ref.target) continue;
+        if (ref.name === '*') wholeModule.add(ref.target);
+        if (!used.has(ref.target)) used.set(ref.target, new Set());
+        used.get(ref.target)!.add(ref.name);
+      }
+    }
+
+    const dead: DeadExport[] = [];
+    for (const defs of Object.values(this.data.definitions)) {
+      for (const def of defs) {
+        if (!def.exported || def.container || skip.has(def.file) || wholeModule.has(def.file)) continue;
+        if (!EXPLICIT_EXPORT_LANGUAGES.has(this.data.languages[def.file])) continue;
+        if (this.getDependents(def.file).length === 0) continue;
+        if (used.get(def.file)?.has(def.name)) continue;
+        if (this.isCalledFromDependent(def)) continue;
+        dead.push({ file: def.file, name: def.name, line: def.line, kind: def.kind });
+      }
+    }
+
+    return dead.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+  }
+
+  /**
+   * Groups of files that import each other, largest first
+   */
+  findCircularImports(): string[][] {
+    // Tarjan's strongly connected components
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+    let counter = 0;
+
+    const visit = (file: string) => {
+      index.set(file, counter);
+      lowLink.set(file, counter);
+      counter++;
+      stack.push(file);
+      onStack.add(file);
+
+      for (const target of this.getDependencies(file)) {
+        if (!index.has(target)) {
+          visit(target);
+          lowLink.set(file, Math.min(lowLink.get(file)!, lowLink.get(target)!));
+        } else if (onStack.has(target)) {
+          lowLink.set(file, Math.min(lowLink.get(file)!, index.get(target)!));
+        }
+      }
+
+      if (lowLink.get(file) === index.get(file)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== file);
+        if (component.length > 1) cycles.push(component.sort());
+      }
+    };
+
+    for (const file of Object.keys(this.data.languages)) {
+      if (!index.has(file)) visit(file);
+    }
+
+    return cycles.sort((a, b) => b.length - a.length);
+  }
+
+  private isResolved(ref: SymbolReference, definingFiles: Set<string>): boolean {
+    if (ref.kind === 'import') return !!ref.target && definingFiles.has(ref.target);
+    if (definingFiles.has(ref.file)) return true;
+    return this.getDependencies(ref.file).some(file => definingFiles.has(file));
+  }
+
+  private isCalledFromDependent(def: SymbolDefinition): boolean {
+    const dependents = new Set(this.getDependents(def.file));
+    return (lookup(this.data.references, def.name) ?? []).some(ref => ref.kind === 'call' && dependents.has(ref.file));
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Own-property lookup; symbol names like "constructor" are valid keys
+ */
+function lookup<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(record, key) ? record[key] : undefined;
+}
+
+function splitSymbol(symbol: string): { container?: string; name: string } {
+  const separator = symbol.includes('::') ? '::' : '.';
+  const index = symbol.lastIndexOf(separator);
+  if (index <= 0) return { name: symbol };
+  return { container: symbol.slice(0, index), name: symbol.slice(index + separator.length) };
+}
+
+/**
+ * Whether persisted graph data can be loaded by this version
+ */
+export function isCurrentGraph(data: unknown): data is ProjectGraph {
+  return typeof data === 'object' && data !== null && (data as ProjectGraph).version === GRAPH_VERSION;
+}
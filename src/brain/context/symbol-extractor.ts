@@ -0,0 +1,542 @@
+/**
+ * Symbol Extractor - Syntax-tree based symbol extraction with tree-sitter
+ *
+ * Parses source files with web-tree-sitter and the prebuilt WASM grammars from
+ * tree-sitter-wasms, so it runs offline with no native build step. For each
+ * file it reports:
+ * - Definitions (classes, structs, interfaces, traits, enums, types,
+ *   functions, methods, modules) with line ranges and the enclosing type
+ * - Whether each definition is exported, by the language's own rules
+ * - Imported modules, and which names each import binds (TS/JS, Python)
+ * - Call sites, with the function or method they occur in
+ *
+ * Grammars are loaded lazily, once per language. If tree-sitter can't start,
+ * extract() returns null and ContextIndexer falls back to its regex parsers.
+ */
+
+import { createRequire } from 'node:module';
+import { Parser, Language, Query, type Node } from 'web-tree-sitter';
+
+// ============================================
+// Configuration
+// ============================================
+
+const MAX_PARSE_BYTES = 1024 * 1024; // Larger files (usually generated) are not parsed
+const MAX_CALLS_PER_FILE = 2000;
+
+// ============================================
+// Types
+// ============================================
+
+export type SymbolKind =
+  | 'class' | 'struct' | 'interface' | 'trait' | 'enum' | 'type'
+  | 'function' | 'method' | 'variable' | 'module' | 'macro';
+
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  exported: boolean;
+  container?: string; // Enclosing class/struct/impl for methods
+}
+
+export interface CallSite {
+  name: string; // Called function or method name (last path segment)
+  line: number;
+  caller?: string; // Enclosing function or method, "Class.method" for methods
+}
+
+export interface ImportBinding {
+  source: string; // Module specifier as written
+  name: string; // Imported name; "default" for default imports, "*" for namespaces
+  line: number;
+}
+
+export interface ExtractedSymbols {
+  symbols: CodeSymbol[];
+  imports: string[];
+  exports: string[]; // Public names, including re-exports and "default"
+  bindings: ImportBinding[];
+  calls: CallSite[];
+}
+
+interface LanguageSpec {
+  grammar: string; // tree-sitter-wasms file suffix
+  query: string;
+  isExported(node: Node, name: string, container: string | undefined): boolean;
+}
+
+// Kinds that can contain methods
+const CONTAINER_KINDS = new Set<SymbolKind>(['class', 'struct', 'interface', 'trait', 'enum']);
+const CALLABLE_KINDS = new Set<SymbolKind>(['function', 'method']);
+
+// When one node matches several patterns, the more specific kind wins
+const KIND_PRIORITY: SymbolKind[] = [
+  'method', 'function', 'class', 'struct', 'interface', 'trait', 'enum', 'macro', 'module', 'type', 'variable',
+];
+
+// ============================================
+// Language Queries
+// ============================================
+
+// Names bound by ES imports and re-exports
+const JS_BINDINGS = `
+(import_statement (import_clause (named_imports (import_specifier name: (identifier) @binding.name))) source: (string (string_fragment) @binding.source))
+(import_statement (import_clause (identifier) @binding.default) source: (string (string_fragment) @binding.source))
+(import_statement (import_clause (namespace_import)) @binding.namespace source: (string (string_fragment) @binding.source))
+(export_statement (export_clause (export_specifier name: (_) @binding.name)) source: (string (string_fragment) @binding.source))
+(export_statement "*" source: (string (string_fragment) @binding.source)) @binding.namespace
+`;
+
+const TS_QUERY = `
+(class_declaration name: (type_identifier) @name) @definition.class
+(abstract_class_declaration name: (type_identifier) @name) @definition.class
+(interface_declaration name: (type_identifier) @name) @definition.interface
+(type_alias_declaration name: (type_identifier) @name) @definition.type
+(enum_declaration name: (identifier) @name) @definition.enum
+(module name: (identifier) @name) @definition.module
+(function_declaration name: (identifier) @name) @definition.function
+(generator_function_declaration name: (identifier) @name) @definition.function
+(function_signature name: (identifier) @name) @definition.function
+(method_definition name: (property_identifier) @name) @definition.method
+(abstract_method_signature name: (property_identifier) @name) @definition.method
+(variable_declarator name: (identifier) @name value: [(arrow_function) (function_expression)]) @definition.function
+(program (lexical_declaration (variable_declarator name: (identifier) @name) @definition.variable))
+(export_statement (lexical_declaration (variable_declarator name: (identifier) @name) @definition.variable))
+(import_statement source: (string (string_fragment) @import))
+(export_statement source: (string (string_fragment) @import))
+(call_expression function: (import) arguments: (arguments (string (string_fragment) @import)))
+(call_expression function: (identifier) @_fn arguments: (arguments (string (string_fragment) @import)) (#eq? @_fn "require"))
+(export_specifier) @export
+(export_statement) @export.statement
+${JS_BINDINGS}(call_expression function: (identifier) @call)
+(call_expression function: (member_expression property: (property_identifier) @call))
+(new_expression constructor: (identifier) @call)
+`;
+
+const JS_QUERY = `
+(class_declaration name: (identifier) @name) @definition.class
+(function_declaration name: (identifier) @name) @definition.function
+(generator_function_declaration name: (identifier) @name) @definition.function
+(method_definition name: (property_identifier) @name) @definition.method
+(variable_declarator name: (identifier) @name value: [(arrow_function) (function_expression)]) @definition.function
+(program (lexical_declaration (variable_declarator name: (identifier) @name) @definition.variable))
+(export_statement (lexical_declaration (variable_declarator name: (identifier) @name) @definition.variable))
+(import_statement source: (string (string_fragment) @import))
+(export_statement source: (string (string_fragment) @import))
+(call_expression function: (import) arguments: (arguments (string (string_fragment) @import)))
+(call_expression function: (identifier) @_fn arguments: (arguments (string (string_fragment) @import)) (#eq? @_fn "require"))
+(export_specifier) @export
+(export_statement) @export.statement
+${JS_BINDINGS}(call_expression function: (identifier) @call)
+(call_expression function: (member_expression property: (property_identifier) @call))
+(new_expression constructor: (identifier) @call)
+`;
+
+const PYTHON_QUERY = `
+(class_definition name: (identifier) @name) @definition.class
+(function_definition name: (identifier) @name) @definition.function
+(module (expression_statement (assignment left: (identifier) @name) @definition.variable))
+(import_statement name: (dotted_name) @import)
+(import_statement name: (aliased_import name: (dotted_name) @import))
+(import_from_statement module_name: (dotted_name) @import)
+(import_from_statement module_name: (relative_import) @import)
+(import_from_statement module_name: (_) @binding.source name: (dotted_name) @binding.name)
+(import_from_statement module_name: (_) @binding.source name: (aliased_import name: (dotted_name) @binding.name))
+(call function: (identifier) @call)
+(call function: (attribute attribute: (identifier) @call))
+`;
+
+const RUST_QUERY = `
+(struct_item name: (type_identifier) @name) @definition.struct
+(enum_item name: (type_identifier) @name) @definition.enum
+(union_item name: (type_identifier) @name) @definition.struct
+(trait_item name: (type_identifier) @name) @definition.trait
+(type_item name: (type_identifier) @name) @definition.type
+(function_item name: (identifier) @name) @definition.function
+(function_signature_item name: (identifier) @name) @definition.function
+(mod_item name: (identifier) @name) @definition.module
+(macro_definition name: (identifier) @name) @definition.macro
+(const_item name: (identifier) @name) @definition.variable
+(static_item name: (identifier) @name) @definition.variable
+(impl_item type: (type_identifier) @name) @impl
+(impl_item type: (generic_type type: (type_identifier) @name)) @impl
+(use_declaration argument: (_) @import)
+(call_expression function: (identifier) @call)
+(call_expression function: (field_expression field: (field_identifier) @call))
+(call_expression function: (scoped_identifier name: (identifier) @call))
+(macro_invocation macro: (identifier) @call)
+`;
+
+const GO_QUERY = `
+(type_spec name: (type_identifier) @name type: (struct_type)) @definition.struct
+(type_spec name: (type_identifier) @name type: (interface_type)) @definition.interface
+(type_spec name: (type_identifier) @name) @definition.type
+(function_declaration name: (identifier) @name) @definition.function
+(method_declaration name: (field_identifier) @name) @definition.method
+(source_file (const_declaration (const_spec name: (identifier) @name) @definition.variable))
+(source_file (var_declaration (var_spec name: (identifier) @name) @definition.variable))
+(import_spec path: (interpreted_string_literal) @import)
+(call_expression function: (identifier) @call)
+(call_expression function: (selector_expression field: (field_identifier) @call))
+`;
+
+const JAVA_QUERY = `
+(class_declaration name: (identifier) @name) @definition.class
+(interface_declaration name: (identifier) @name) @definition.interface
+(enum_declaration name: (identifier) @name) @definition.enum
+(record_declaration name: (identifier) @name) @definition.class
+(annotation_type_declaration name: (identifier) @name) @definition.interface
+(method_declaration name: (identifier) @name) @definition.method
+(constructor_declaration name: (identifier) @name) @definition.method
+(import_declaration (scoped_identifier) @import)
+(import_declaration (identifier) @import)
+(method_invocation name: (identifier) @call)
+(object_creation_expression type: (type_identifier) @call)
+`;
+
+const C_DEFINITIONS = `
+(function_definition declarator: (function_declarator declarator: (identifier) @name)) @definition.function
+(function_definition declarator: (pointer_declarator declarator: (function_declarator declarator: (identifier) @name))) @definition.function
+(translation_unit (declaration declarator: (function_declarator declarator: (identifier) @name)) @definition.function)
+(struct_specifier name: (type_identifier) @name body: (_)) @definition.struct
+(union_specifier name: (type_identifier) @name body: (_)) @definition.struct
+(enum_specifier name: (type_identifier) @name body: (_)) @definition.enum
+(type_definition declarator: (type_identifier) @name) @definition.type
+(preproc_function_def name: (identifier) @name) @definition.macro
+(preproc_include path: (_) @import)
+(call_expression function: (identifier) @call)
+(call_expression function: (field_expression field: (field_identifier) @call))
+`;
+
+const CPP_QUERY = `${C_DEFINITIONS}
+(class_specifier name: (type_identifier) @name body: (_)) @definition.class
+(namespace_definition name: (namespace_identifier) @name) @definition.module
+(function_definition declarator: (function_declarator declarator: (field_identifier) @name)) @definition.method
+(function_definition declarator: (function_declarator declarator: (qualified_identifier) @name)) @definition.method
+(function_definition declarator: (pointer_declarator declarator: (function_declarator declarator: (qualified_identifier) @name))) @definition.method
+(function_definition declarator: (reference_declarator (function_declarator declarator: (qualified_identifier) @name))) @definition.method
+(field_declaration declarator: (function_declarator declarator: (field_identifier) @name)) @definition.method
+(call_expression function: (qualified_identifier name: (identifier) @call))
+(call_expression function: (template_function name: (identifier) @call))
+`;
+
+const hasChild = (node: Node, type: string): boolean =>
+  node.children.some(child => child?.type === type);
+
+/**
+ * TS/JS: declared inside an export statement
+ */
+function isExportedJS(node: Node): boolean {
+  let current: Node | null = node.parent;
+  while (current && (current.type === 'lexical_declaration' || current.type === 'variable_declaration')) {
+    current = current.parent;
+  }
+  return current?.type === 'export_statement';
+}
+
+/**
+ * C/C++: file-level and not static
+ */
+function isExportedC(node: Node): boolean {
+  const isStatic = node.children.some(child =>
+    child?.type === 'storage_class_specifier' && child.text === 'static'
+  );
+  return !isStatic;
+}
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  typescript: { grammar: 'typescript', query: TS_QUERY, isExported: isExportedJS },
+  'typescript-tsx': { grammar: 'tsx', query: TS_QUERY, isExported: isExportedJS },
+  javascript: { grammar: 'javascript', query: JS_QUERY, isExported: isExportedJS },
+  'javascript-jsx': { grammar: 'javascript', query: JS_QUERY, isExported: isExportedJS },
+  python: {
+    grammar: 'python',
+    query: PYTHON_QUERY,
+    isExported: (_node, name, container) => !container && !name.startsWith('_'),
+  },
+  rust: {
+    grammar: 'rust',
+    query: RUST_QUERY,
+    isExported: node => hasChild(node, 'visibility_modifier'),
+  },
+  go: {
+    grammar: 'go',
+    query: GO_QUERY,
+    isExported: (_node, name) => /^\p{Lu}/u.test(name),
+  },
+  java: {
+    grammar: 'java',
+    query: JAVA_QUERY,
+    isExported: node => node.children.some(child => child?.type === 'modifiers' && /\bpublic\b/.test(child.text)),
+  },
+  c: { grammar: 'c', query: C_DEFINITIONS, isExported: isExportedC },
+  cpp: { grammar: 'cpp', query: CPP_QUERY, isExported: isExportedC },
+};
+
+// ============================================
+// Symbol Extractor Class
+// ============================================
+
+interface LoadedLanguage {
+  parser: Parser;
+  query: Query;
+}
+
+interface RawDefinition {
+  symbol: CodeSymbol;
+  node: Node;
+}
+
+export class SymbolExtractor {
+  private init: Promise<boolean> | null = null;
+  private languages = new Map<string, Promise<LoadedLanguage | null>>();
+
+  /**
+   * Whether a language has a grammar
+   */
+  supports(language: string): boolean {
+    return language in LANGUAGES;
+  }
+
+  /**
+   * Extract symbols, imports and call sites
+   * Returns null when the language is unsupported or tree-sitter is unavailable.
+   */
+  async extract(language: string, content: string): Promise<ExtractedSymbols | null> {
+    if (!this.supports(language) || Buffer.byteLength(content) > MAX_PARSE_BYTES) return null;
+
+    const loaded = await this.loadLanguage(language);
+    if (!loaded) return null;
+
+    const tree = loaded.parser.parse(content);
+    if (!tree) return null;
+
+    try {
+      return this.collect(language, LANGUAGES[language], loaded.query, tree.rootNode);
+    } finally {
+      tree.delete();
+    }
+  }
+
+  private collect(language: string, spec: LanguageSpec, query: Query, root: Node): ExtractedSymbols {
+    const definitions = new Map<number, RawDefinition>(); // node id -> definition
+    const impls: Array<{ name: string; node: Node }> = [];
+    const imports = new Set<string>();
+    const exports = new Set<string>();
+    const exportedLocals = new Set<string>(); // Local names listed in `export { ... }` without a source
+    const bindings: ImportBinding[] = [];
+    const callNodes: Node[] = [];
+
+    for (const match of query.matches(root)) {
+      const byName = new Map(match.captures.map(capture => [capture.name, capture.node]));
+      const nameNode = byName.get('name');
+
+      const sourceNode = byName.get('binding.source');
+      if (sourceNode) {
+        const bound = byName.get('binding.name')?.text ?? (byName.has('binding.default') ? 'default' : '*');
+        bindings.push({ source: cleanImport(sourceNode.text), name: bound, line: sourceNode.startPosition.row + 1 });
+        continue;
+      }
+
+      for (const [captureName, node] of byName) {
+        if (captureName.startsWith('definition.') && nameNode) {
+          const kind = captureName.slice('definition.'.length) as SymbolKind;
+          const existing = definitions.get(node.id);
+          if (existing && KIND_PRIORITY.indexOf(existing.symbol.kind) <= KIND_PRIORITY.indexOf(kind)) continue;
+          definitions.set(node.id, {
+            node,
+            symbol: {
+              // Out-of-line C++ members (n::C::m) are named by their last component
+              name: nameNode.type === 'qualified_identifier' ? splitQualified(nameNode).name : nameNode.text,
+              kind,
+              startLine: node.startPosition.row + 1,
+              endLine: node.endPosition.row + 1,
+              exported: false,
+            },
+          });
+        } else if (captureName === 'impl' && nameNode) {
+          impls.push({ name: nameNode.text, node });
+        } else if (captureName === 'import') {
+          imports.add(cleanImport(node.text));
+        } else if (captureName === 'export') {
+          const local = node.childForFieldName('name');
+          const alias = node.childForFieldName('alias') ?? local;
+          if (alias) exports.add(alias.text);
+          if (local && !node.parent?.parent?.childForFieldName('source')) exportedLocals.add(local.text);
+        } else if (captureName === 'export.statement') {
+          if (hasChild(node, 'default')) exports.add('default');
+        } else if (captureName === 'call' && callNodes.length < MAX_CALLS_PER_FILE) {
+          callNodes.push(node);
+        }
+      }
+    }
+
+    const raw = Array.from(definitions.values()).sort((a, b) => a.node.startIndex - b.node.startIndex);
+
+    // Containers: enclosing type definitions, Rust impl blocks, Go receivers, C++ qualified names
+    const containers = [
+      ...raw.filter(def => CONTAINER_KINDS.has(def.symbol.kind)).map(def => ({ name: def.symbol.name, node: def.node })),
+      ...impls,
+    ];
+    for (const def of raw) {
+      const container = explicitContainer(language, def.node) ?? innermost(containers, def.node)?.name;
+      if (container) {
+        def.symbol.container = container;
+        if (def.symbol.kind === 'function') def.symbol.kind = 'method';
+      }
+      def.symbol.exported = spec.isExported(exportTarget(def.node), def.symbol.name, def.symbol.container);
+      if (def.symbol.exported && !def.symbol.container) exports.add(def.symbol.name);
+
+      // Exported by a separate `export { name }` (the public name is already in exports)
+      if (!def.symbol.exported && !def.symbol.container && exportedLocals.has(def.symbol.name) && isTopLevel(def.node)) {
+        def.symbol.exported = true;
+      }
+    }
+
+    const callables = raw.filter(def => CALLABLE_KINDS.has(def.symbol.kind));
+    const calls: CallSite[] = callNodes.map(node => {
+      const caller = innermost(callables.map(def => ({ name: qualifiedName(def.symbol), node: def.node })), node);
+      return { name: node.text, line: node.startPosition.row + 1, caller: caller?.name };
+    });
+
+    return {
+      symbols: raw.map(def => def.symbol),
+      imports: Array.from(imports),
+      exports: Array.from(exports),
+      bindings,
+      calls,
+    };
+  }
+
+  private loadLanguage(language: string): Promise<LoadedLanguage | null> {
+    let loading = this.languages.get(language);
+    if (!loading) {
+      loading = (async () => {
+        if (!(await this.initialize())) return null;
+        try {
+          const spec = LANGUAGES[language];
+          const require = createRequire(import.meta.url);
+          const grammar = await Language.load(require.resolve(`tree-sitter-wasms/out/tree-sitter-${spec.grammar}.wasm`));
+          const parser = new Parser();
+          parser.setLanguage(grammar);
+          return { parser, query: new Query(grammar, spec.query) };
+        } catch (error) {
+          console.warn(`[SymbolExtractor] No ${language} grammar, using the fallback parser:`, error);
+          return null;
+        }
+      })();
+      this.languages.set(language, loading);
+    }
+    return loading;
+  }
+
+  private initialize(): Promise<boolean> {
+    if (!this.init) {
+      this.init = Parser.init().then(
+        () => true,
+        (error) => {
+          console.warn('[SymbolExtractor] tree-sitter unavailable, using the fallback parsers:', error);
+          return false;
+        }
+      );
+    }
+    return this.init;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * The node whose modifiers decide visibility (the declaration, not the declarator)
+ */
+function exportTarget(node: Node): Node {
+  if (node.type === 'variable_declarator' || node.type === 'const_spec' || node.type === 'var_spec') {
+    return node.parent ?? node;
+  }
+  return node;
+}
+
+/**
+ * Declared at module level, directly or inside an export statement
+ */
+function isTopLevel(node: Node): boolean {
+  const parent = exportTarget(node).parent;
+  return parent?.type === 'program' || parent?.type === 'export_statement';
+}
+
+/**
+ * Containers spelled out in the definition itself
+ */
+function explicitContainer(language: string, node: Node): string | undefined {
+  if (language === 'go' && node.type === 'method_declaration') {
+    const receiver = node.childForFieldName('receiver');
+    const type = receiver?.descendantsOfType('type_identifier')[0];
+    return type?.text;
+  }
+  if (language === 'cpp' && node.type === 'function_definition') {
+    // Look at the declarator only; the return type can be qualified too (std::string)
+    const declarator = node.descendantsOfType('function_declarator')[0]?.childForFieldName('declarator');
+    return declarator?.type === 'qualified_identifier' ? splitQualified(declarator).scope : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Split a C++ qualified name (n::C::m) into its qualifier and last component
+ */
+function splitQualified(node: Node): { scope?: string; name: string } {
+  const scopes: string[] = [];
+  let current: Node | null = node;
+  while (current?.type === 'qualified_identifier') {
+    const scope = current.childForFieldName('scope');
+    if (scope) scopes.push(scope.text);
+    current = current.childForFieldName('name');
+  }
+  // Template specializations (C::f<int>) are named without their arguments
+  const name = current?.type === 'template_function' ? current.childForFieldName('name') : current;
+  return { scope: scopes.length > 0 ? scopes.join('::') : undefined, name: name?.text ?? node.text };
+}
+
+/**
+ * The smallest candidate strictly enclosing a node
+ */
+function innermost<T extends { node: Node }>(candidates: T[], node: Node): T | undefined {
+  let best: T | undefined;
+  for (const candidate of candidates) {
+    if (candidate.node.id === node.id) continue;
+    if (candidate.node.startIndex <= node.startIndex && candidate.node.endIndex >= node.endIndex) {
+      if (!best || candidate.node.endIndex - candidate.node.startIndex < best.node.endIndex - best.node.startIndex) {
+        best = candidate;
+      }
+    }
+  }
+  return best;
+}
+
+function qualifiedName(symbol: CodeSymbol): string {
+  return symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name;
+}
+
+/**
+ * Strip quotes and brackets from import paths ("fmt", <stdio.h>)
+ */
+function cleanImport(text: string): string {
+  return text.replace(/^["'<]|[">']$/g, '').trim();
+}
+
+// ============================================
+// Global Singleton
+// ============================================
+
+let globalSymbolExtractor: SymbolExtractor | null = null;
+
+export function getSymbolExtractor(): SymbolExtractor {
+  if (!globalSymbolExtractor) {
+    globalSymbolExtractor = new SymbolExtractor();
+  }
+  return globalSymbolExtractor;
+}
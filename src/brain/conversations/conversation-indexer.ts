@@ -87,7 +87,7 @@ export class ConversationIndexer {
   /**
    * Index a message
    */
-  async indexMessage(msg: Message, messageType: 'user' | 'bot' | 'system', text: string): Promise<void> {
+  async indexMessage(msg: Message, messageType: 'user' | 'bot' | 'system', text: string, projectId?: string): Promise<void> {
     const message: ConversationMessage = {
       id: this.generateMessageId(msg.message_id, msg.chat.id, msg.date),
       chatId: msg.chat.id,
@@ -96,6 +96,7 @@ export class ConversationIndexer {
       messageType,
       text: text.substring(0, 10000), // Limit text length
       timestamp: msg.date * 1000, // Convert to milliseconds
+      projectId,
     };
 
     // Extract command if present
@@ -193,6 +194,20 @@ export class ConversationIndexer {
     return messages.slice(0, limit);
   }
 
+  /**
+   * Get one message by id
+   */
+  getMessage(id: string): ConversationMessage | null {
+    return this.messages.get(id) ?? null;
+  }
+
+  /**
+   * Get every indexed message
+   */
+  getAllMessages(): ConversationMessage[] {
+    return Array.from(this.messages.values());
+  }
+
   /**
    * Get statistics
    */
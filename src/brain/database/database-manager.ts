@@ -7,6 +7,8 @@
  * - Audit trail
  * - Approval decisions
  * - Error logs
+ * - Claude token usage and spend, plus per-chat budgets
+ * - Internal brain events, with per-subscriber replay positions
  *
  * Uses better-sqlite3 for synchronous database operations.
  */
@@ -78,6 +80,62 @@ export interface DecisionRow {
   details: string | null;
 }
 
+export interface UsageRow {
+  id: string;
+  timestamp: number;
+  chat_id: number | null; // null for runs not tied to a chat (autonomous agents)
+  project: string | null;
+  model: string | null;
+  session_id: string | null;
+  source: string; // chat | task | agent
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
+  cost_usd: number;
+  cost_estimated: boolean | number; // true when computed from token prices rather than reported by the CLI
+}
+
+export interface UsageTotals {
+  runs: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
+  cost_usd: number;
+}
+
+export interface UsageFilter {
+  chatId?: number;
+  since?: number;
+  until?: number;
+}
+
+export interface BudgetRow {
+  chat_id: number;
+  daily_usd: number | null;
+  monthly_usd: number | null;
+  mode: string; // warn | block
+  updated_at: number;
+}
+
+export interface EventRow {
+  id: number; // Sequence number, increasing
+  type: string;
+  timestamp: number;
+  project: string | null;
+  chat_id: number | null;
+  payload: string; // JSON
+}
+
+export interface EventFilter {
+  afterId?: number;
+  since?: number;
+  types?: string[]; // Exact types, or prefixes ending in '.' (e.g. 'test.')
+  project?: string;
+  limit?: number;
+}
+
 // ============================================
 // Database Manager Class
 // ============================================
@@ -228,6 +286,77 @@ export class DatabaseManager {
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_decisions_approved ON decisions(approved)
     `);
+
+    // Usage table (one row per Claude run)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS usage (
+        id TEXT PRIMARY KEY,
+        timestamp INTEGER,
+        chat_id INTEGER,
+        project TEXT,
+        model TEXT,
+        session_id TEXT,
+        source TEXT,
+        input_tokens INTEGER DEFAULT 0,
+        output_tokens INTEGER DEFAULT 0,
+        cache_creation_tokens INTEGER DEFAULT 0,
+        cache_read_tokens INTEGER DEFAULT 0,
+        cost_usd REAL DEFAULT 0,
+        cost_estimated INTEGER DEFAULT 0
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_usage_timestamp ON usage(timestamp)
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_usage_chat_id ON usage(chat_id)
+    `);
+
+    // Budgets table (per-chat spend limits)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS budgets (
+        chat_id INTEGER PRIMARY KEY,
+        daily_usd REAL,
+        monthly_usd REAL,
+        mode TEXT DEFAULT 'warn',
+        updated_at INTEGER
+      )
+    `);
+
+    // Events table (internal event bus log)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        timestamp INTEGER,
+        project TEXT,
+        chat_id INTEGER,
+        payload TEXT
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_events_type ON events(type)
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events(timestamp)
+    `);
+
+    // Event cursors table (last event each durable subscriber handled)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS event_cursors (
+        subscriber TEXT PRIMARY KEY,
+        last_id INTEGER,
+        updated_at INTEGER
+      )
+    `);
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
   }
 
   /**
@@ -471,6 +600,217 @@ export class DatabaseManager {
     }));
   }
 
+  // ===========================================
+  // Event Operations
+  // ===========================================
+
+  /**
+   * Append an event; returns its sequence number
+   */
+  insertEvent(event: Omit<EventRow, 'id'>): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const stmt = this.db.prepare(`
+      INSERT INTO events (type, timestamp, project, chat_id, payload)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const result = stmt.run(event.type, event.timestamp, event.project, event.chat_id, event.payload);
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Events matching a filter, oldest first. Without afterId the most
+   * recent `limit` events are returned.
+   */
+  getEvents(filter: EventFilter = {}): EventRow[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (filter.afterId !== undefined) {
+      conditions.push('id > ?');
+      params.push(filter.afterId);
+    }
+    if (filter.since !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(filter.since);
+    }
+    if (filter.project !== undefined) {
+      conditions.push('project = ?');
+      params.push(filter.project);
+    }
+    if (filter.types && filter.types.length > 0) {
+      const matches = filter.types.map(type => type.endsWith('.') ? 'type LIKE ?' : 'type = ?');
+      conditions.push(`(${matches.join(' OR ')})`);
+      params.push(...filter.types.map(type => type.endsWith('.') ? `${type}%` : type));
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit ?? 100;
+
+    if (filter.afterId !== undefined) {
+      const stmt = this.db.prepare(`SELECT * FROM events ${where} ORDER BY id ASC LIMIT ?`);
+      return stmt.all(...params, limit) as EventRow[];
+    }
+
+    const stmt = this.db.prepare(`SELECT * FROM events ${where} ORDER BY id DESC LIMIT ?`);
+    return (stmt.all(...params, limit) as EventRow[]).reverse();
+  }
+
+  getLatestEventId(): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db.prepare('SELECT MAX(id) as id FROM events').get() as { id: number | null };
+    return row.id ?? 0;
+  }
+
+  /**
+   * Delete events older than a timestamp; returns the number deleted
+   */
+  pruneEvents(before: number): number {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db.prepare('DELETE FROM events WHERE timestamp < ?').run(before).changes;
+  }
+
+  getEventCursor(subscriber: string): number | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db.prepare('SELECT last_id FROM event_cursors WHERE subscriber = ?').get(subscriber) as { last_id: number } | undefined;
+    return row ? row.last_id : null;
+  }
+
+  setEventCursor(subscriber: string, lastId: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const stmt = this.db.prepare(`
+      INSERT INTO event_cursors (subscriber, last_id, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(subscriber) DO UPDATE SET
+        last_id = MAX(last_id, excluded.last_id),
+        updated_at = excluded.updated_at
+    `);
+
+    stmt.run(subscriber, lastId, Date.now());
+  }
+
+  // ===========================================
+  // Usage Operations
+  // ===========================================
+
+  insertUsage(usage: UsageRow): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const stmt = this.db.prepare(`
+      INSERT INTO usage (id, timestamp, chat_id, project, model, session_id, source, input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens, cost_usd, cost_estimated)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      usage.id,
+      usage.timestamp,
+      usage.chat_id,
+      usage.project,
+      usage.model,
+      usage.session_id,
+      usage.source,
+      usage.input_tokens,
+      usage.output_tokens,
+      usage.cache_creation_tokens,
+      usage.cache_read_tokens,
+      usage.cost_usd,
+      usage.cost_estimated ? 1 : 0
+    );
+  }
+
+  getUsageTotals(filter: UsageFilter = {}): UsageTotals {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const { where, params } = this.buildUsageWhere(filter);
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) as runs,
+        COALESCE(SUM(input_tokens), 0) as input_tokens,
+        COALESCE(SUM(output_tokens), 0) as output_tokens,
+        COALESCE(SUM(cache_creation_tokens), 0) as cache_creation_tokens,
+        COALESCE(SUM(cache_read_tokens), 0) as cache_read_tokens,
+        COALESCE(SUM(cost_usd), 0) as cost_usd
+      FROM usage ${where}
+    `);
+    return stmt.get(...params) as UsageTotals;
+  }
+
+  /**
+   * Usage totals grouped by project or model, most expensive first
+   */
+  getUsageBreakdown(groupBy: 'project' | 'model', filter: UsageFilter = {}, limit = 10): Array<UsageTotals & { key: string | null }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const column = groupBy === 'project' ? 'project' : 'model';
+    const { where, params } = this.buildUsageWhere(filter);
+    const stmt = this.db.prepare(`
+      SELECT ${column} as key, COUNT(*) as runs,
+        SUM(input_tokens) as input_tokens,
+        SUM(output_tokens) as output_tokens,
+        SUM(cache_creation_tokens) as cache_creation_tokens,
+        SUM(cache_read_tokens) as cache_read_tokens,
+        SUM(cost_usd) as cost_usd
+      FROM usage ${where}
+      GROUP BY ${column}
+      ORDER BY cost_usd DESC
+      LIMIT ?
+    `);
+    return stmt.all(...params, limit) as Array<UsageTotals & { key: string | null }>;
+  }
+
+  private buildUsageWhere(filter: UsageFilter): { where: string; params: number[] } {
+    const clauses: string[] = [];
+    const params: number[] = [];
+
+    if (filter.chatId !== undefined) {
+      clauses.push('chat_id = ?');
+      params.push(filter.chatId);
+    }
+    if (filter.since !== undefined) {
+      clauses.push('timestamp >= ?');
+      params.push(filter.since);
+    }
+    if (filter.until !== undefined) {
+      clauses.push('timestamp < ?');
+      params.push(filter.until);
+    }
+
+    return { where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+
+  // ===========================================
+  // Budget Operations
+  // ===========================================
+
+  upsertBudget(budget: BudgetRow): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const stmt = this.db.prepare(`
+      INSERT INTO budgets (chat_id, daily_usd, monthly_usd, mode, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(chat_id) DO UPDATE SET
+        daily_usd = excluded.daily_usd,
+        monthly_usd = excluded.monthly_usd,
+        mode = excluded.mode,
+        updated_at = excluded.updated_at
+    `);
+
+    stmt.run(budget.chat_id, budget.daily_usd, budget.monthly_usd, budget.mode, budget.updated_at);
+  }
+
+  getBudget(chatId: number): BudgetRow | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const stmt = this.db.prepare('SELECT * FROM budgets WHERE chat_id = ?');
+    return (stmt.get(chatId) as BudgetRow | undefined) ?? null;
+  }
+
   // ===========================================
   // Utility Operations
   // ===========================================
@@ -3,4 +3,4 @@
  */
 
 export { DatabaseManager, getDatabaseManager, resetDatabaseManager } from './database-manager.js';
-export type { SessionRow, TaskRow, AuditRow, DecisionRow } from './database-manager.js';
+export type { SessionRow, TaskRow, AuditRow, DecisionRow, UsageRow, UsageTotals, UsageFilter, BudgetRow, EventRow, EventFilter } from './database-manager.js';
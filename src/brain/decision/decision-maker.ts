@@ -18,6 +18,7 @@
  */
 
 import { getMemoryStore } from '../memory/memory-store.js';
+import { getEventBus } from '../events/event-bus.js';
 import type { Intention, IntentionType } from '../intention/intention-engine.js';
 
 // ===========================================
@@ -251,6 +252,17 @@ export class DecisionMaker {
     this.decisions.set(decision.id, decision);
     await this.storeDecision(decision);
 
+    await getEventBus().publish('decision.created', {
+      decisionId: decision.id,
+      intentionId: intention.id,
+      projectPath: intention.projectPath,
+      chatId: intention.chatId,
+      title: intention.title,
+      shouldAct,
+      requiresApproval,
+      confidence,
+    });
+
     return decision;
   }
 
@@ -2,10 +2,14 @@
  * Dependency Manager - Automated dependency management
  *
  * The Dependency Manager automatically handles project dependencies:
+ * - Detects the package managers a project uses (npm, pnpm, yarn, pip,
+ *   poetry, uv, cargo, go modules) through ecosystem adapters
  * - Detects outdated dependencies
  * - Checks for security vulnerabilities
- * - Automatically updates safe dependencies
- * - Creates intentions for changes requiring approval
+ * - Automatically applies updates the project's UpdatePolicy allows, with
+ *   the package manager that owns them
+ * - Publishes findings (dependency.outdated / dependency.vulnerable events)
+ *   that the Intention Engine turns into intentions
  * - Tracks dependency health over time
  *
  * Policies:
@@ -15,27 +19,35 @@
  * - Vulnerabilities: Immediate attention
  */
 
-import { spawn } from 'child_process';
-import { readFile } from 'fs/promises';
-import { join } from 'path';
-
-import { getIntentionEngine } from '../intention/intention-engine.js';
+import { getEventBus } from '../events/event-bus.js';
 import { getMemoryStore } from '../memory/memory-store.js';
 import { getGitAutomation } from '../git/git-automation.js';
+import { detectEcosystems, getEcosystemAdapter, type EcosystemAdapter, type UpdateTarget } from './ecosystems.js';
 
 // ============================================
 // Types
 // ============================================
 
+/**
+ * Package manager that owns a dependency
+ */
+export type Ecosystem = 'npm' | 'pnpm' | 'yarn' | 'pip' | 'poetry' | 'uv' | 'cargo' | 'go';
+
 /**
  * Dependency update type
  */
 export type UpdateType = 'patch' | 'minor' | 'major' | 'prerelease';
 
 /**
- * Dependency source
+ * Dependency source, in npm's terms: Python dependency groups and Cargo
+ * dev-dependencies are devDependencies, extras are optionalDependencies
  */
-export type DependencySource = 'dependencies' | 'devDependencies' | 'peerDependencies';
+export type DependencySource =
+  | 'dependencies'
+  | 'devDependencies'
+  | 'peerDependencies'
+  | 'optionalDependencies'
+  | 'buildDependencies';
 
 /**
  * Severity of a vulnerability
@@ -47,8 +59,10 @@ export type VulnerabilitySeverity = 'low' | 'moderate' | 'high' | 'critical';
  */
 export interface Dependency {
   name: string;
-  version: string;
+  version: string;      // Locked version, else the declared requirement
   source: DependencySource;
+  ecosystem: Ecosystem;
+  group?: string;       // Python group or extra, Cargo target, "workspace"
   type?: 'dependency' | 'devDependency' | 'peerDependency';
 }
 
@@ -62,6 +76,8 @@ export interface DependencyUpdate {
   latest: string;       // Absolute latest
   updateType: UpdateType;
   source: DependencySource;
+  ecosystem: Ecosystem;
+  group?: string;
   projectPath: string;
   timestamp: number;
 }
@@ -71,6 +87,8 @@ export interface DependencyUpdate {
  */
 export interface Vulnerability {
   name: string;
+  ecosystem: Ecosystem;
+  version?: string;     // Affected version in the project, when known
   severity: VulnerabilitySeverity;
   vulnerableVersions: string[];
   patchedVersions: string[];
@@ -86,6 +104,7 @@ export interface Vulnerability {
  */
 export interface DependencyHealth {
   projectPath: string;
+  ecosystems: Ecosystem[];
   totalDependencies: number;
   outdated: number;
   vulnerable: number;
@@ -122,12 +141,6 @@ const DEPENDENCY_CONFIG = {
 
   // Check interval (ms) - 6 hours
   checkInterval: 6 * 60 * 60 * 1000,
-
-  // npm audit timeout (ms)
-  auditTimeout: 60 * 1000,
-
-  // npm outdated timeout (ms)
-  outdatedTimeout: 60 * 1000,
 };
 
 // ============================================
@@ -205,7 +218,8 @@ export class DependencyManager {
 
     const health: DependencyHealth = {
       projectPath,
-      totalDependencies: await this.countDependencies(projectPath),
+      ecosystems: (await detectEcosystems(projectPath)).map(adapter => adapter.id),
+      totalDependencies: (await this.listDependencies(projectPath)).length,
       outdated: updates.length,
       vulnerable: vulnerabilities.length,
       lastChecked: Date.now(),
@@ -218,295 +232,201 @@ export class DependencyManager {
     this.healthCache.set(projectPath, health);
     await this.memory.setFact(`dependency_health:${projectPath}`, health);
 
-    // Handle critical vulnerabilities immediately
-    const criticalVulns = vulnerabilities.filter(v => v.severity === 'critical');
-    if (criticalVulns.length > 0) {
-      await this.handleCriticalVulnerabilities(projectPath, criticalVulns, chatId);
+    // Report vulnerabilities immediately, critical ones first
+    if (vulnerabilities.length > 0) {
+      await this.publishVulnerabilities(projectPath, vulnerabilities, chatId);
     }
 
-    // Auto-update patch versions if policy allows
-    if (policy.autoUpdatePatch) {
-      await this.autoUpdatePatches(projectPath, updates, chatId, policy);
-    }
+    // Apply the updates the policy allows
+    const applied = await this.autoUpdate(projectPath, updates, vulnerabilities, policy);
 
-    // Create intentions for other updates
-    await this.createUpdateIntentions(projectPath, updates, vulnerabilities, chatId);
+    // Report other updates
+    await this.publishUpdates(
+      projectPath,
+      updates.filter(u => !applied.includes(u) && !policy.excludePackages.includes(u.name)),
+      chatId
+    );
 
     return health;
   }
 
   /**
-   * Check for outdated dependencies
+   * Direct dependencies of every package manager the project uses
    */
-  async checkOutdated(projectPath: string): Promise<DependencyUpdate[]> {
-    try {
-      const output = await this.runNpmCommand(projectPath, 'outdated', ['--json']);
-      const data = JSON.parse(output);
-
-      const updates: DependencyUpdate[] = [];
-
-      for (const [name, info] of Object.entries(data)) {
-        const pkg = info as {
-          current: string;
-          wanted: string;
-          latest: string;
-          location?: string;
-        };
-
-        const updateType = this.getUpdateType(pkg.current, pkg.latest);
-        const source = await this.getDependencySource(projectPath, name);
-
-        updates.push({
-          name,
-          current: pkg.current,
-          wanted: pkg.wanted,
-          latest: pkg.latest,
-          updateType,
-          source,
-          projectPath,
-          timestamp: Date.now(),
-        });
+  async listDependencies(projectPath: string): Promise<Dependency[]> {
+    const dependencies: Dependency[] = [];
+
+    for (const adapter of await detectEcosystems(projectPath)) {
+      try {
+        dependencies.push(...await adapter.listDependencies(projectPath));
+      } catch (error) {
+        console.error(`[DependencyManager] Error reading ${adapter.name} dependencies:`, error);
       }
+    }
 
-      return updates;
-    } catch (error) {
-      // npm outdated returns non-zero when updates are available
-      const errorStr = error instanceof Error ? error.message : String(error);
-      if (this.isJsonOutput(errorStr)) {
-        const data = JSON.parse(this.extractJson(errorStr));
-        const updates: DependencyUpdate[] = [];
-
-        for (const [name, info] of Object.entries(data)) {
-          const pkg = info as {
-            current: string;
-            wanted: string;
-            latest: string;
-          };
-
-          const updateType = this.getUpdateType(pkg.current, pkg.latest);
-          const source = await this.getDependencySource(projectPath, name);
+    return dependencies;
+  }
 
+  /**
+   * Check for outdated dependencies
+   */
+  async checkOutdated(projectPath: string): Promise<DependencyUpdate[]> {
+    const updates: DependencyUpdate[] = [];
+
+    for (const adapter of await detectEcosystems(projectPath)) {
+      try {
+        const dependencies = await adapter.listDependencies(projectPath);
+        for (const pkg of await adapter.checkOutdated(projectPath, dependencies)) {
           updates.push({
-            name,
-            current: pkg.current,
-            wanted: pkg.wanted,
-            latest: pkg.latest,
-            updateType,
-            source,
+            ...pkg,
+            updateType: this.getUpdateType(pkg.current, pkg.latest),
             projectPath,
             timestamp: Date.now(),
           });
         }
-
-        return updates;
+      } catch (error) {
+        console.error(`[DependencyManager] Error checking outdated ${adapter.name} dependencies:`, error);
       }
-
-      console.error('[DependencyManager] Error checking outdated:', error);
-      return [];
     }
+
+    return updates;
   }
 
   /**
    * Check for security vulnerabilities
    */
   async checkVulnerabilities(projectPath: string): Promise<Vulnerability[]> {
-    try {
-      const output = await this.runNpmCommand(projectPath, 'audit', ['--json']);
-      const data = JSON.parse(output);
-
-      const vulnerabilities: Vulnerability[] = [];
-
-      if (data.vulnerabilities) {
-        for (const [name, info] of Object.entries(data.vulnerabilities)) {
-          const vuln = info as {
-            severity: VulnerabilitySeverity;
-            vulnerableVersions: string[];
-            patchedVersions: string[];
-            title: string;
-            description: string;
-            url: string;
-          };
-
-          vulnerabilities.push({
-            name,
-            severity: vuln.severity,
-            vulnerableVersions: vuln.vulnerableVersions,
-            patchedVersions: vuln.patchedVersions,
-            title: vuln.title,
-            description: vuln.description,
-            url: vuln.url,
-            projectPath,
-            timestamp: Date.now(),
-          });
-        }
-      }
+    const vulnerabilities: Vulnerability[] = [];
 
-      return vulnerabilities;
-    } catch (error) {
-      // npm audit returns non-zero when vulnerabilities are found
-      const errorStr = error instanceof Error ? error.message : String(error);
-      if (this.isJsonOutput(errorStr)) {
-        const data = JSON.parse(this.extractJson(errorStr));
-        const vulnerabilities: Vulnerability[] = [];
-
-        if (data.vulnerabilities) {
-          for (const [name, info] of Object.entries(data.vulnerabilities)) {
-            const vuln = info as {
-              severity: VulnerabilitySeverity;
-              vulnerableVersions: string[];
-              patchedVersions: string[];
-              title: string;
-              description: string;
-              url: string;
-            };
-
-            vulnerabilities.push({
-              name,
-              severity: vuln.severity,
-              vulnerableVersions: vuln.vulnerableVersions,
-              patchedVersions: vuln.patchedVersions,
-              title: vuln.title,
-              description: vuln.description,
-              url: vuln.url,
-              projectPath,
-              timestamp: Date.now(),
-            });
-          }
+    for (const adapter of await detectEcosystems(projectPath)) {
+      try {
+        const dependencies = await adapter.listDependencies(projectPath);
+        for (const advisory of await adapter.checkVulnerabilities(projectPath, dependencies)) {
+          vulnerabilities.push({ ...advisory, projectPath, timestamp: Date.now() });
         }
-
-        return vulnerabilities;
+      } catch (error) {
+        console.error(`[DependencyManager] Error checking ${adapter.name} vulnerabilities:`, error);
       }
-
-      console.error('[DependencyManager] Error checking vulnerabilities:', error);
-      return [];
     }
+
+    return vulnerabilities;
   }
 
   /**
-   * Auto-update patch versions
+   * Apply the updates the policy allows, one package manager run per
+   * ecosystem. Returns the updates that were applied.
    */
-  private async autoUpdatePatches(
+  private async autoUpdate(
     projectPath: string,
     updates: DependencyUpdate[],
-    _chatId: number,
+    vulnerabilities: Vulnerability[],
     policy: UpdatePolicy
-  ): Promise<void> {
-    const patchUpdates = updates.filter(u => {
-      if (u.updateType !== 'patch') return false;
+  ): Promise<DependencyUpdate[]> {
+    // Vulnerable packages go through approval instead when the policy says so
+    const vulnerable = new Set(vulnerabilities.map(v => `${v.ecosystem}:${v.name}`));
+    const allowed = updates.filter(u => {
       if (policy.excludePackages.includes(u.name)) return false;
-      return true;
+      if (policy.requireApprovalForVulnerable && vulnerable.has(`${u.ecosystem}:${u.name}`)) return false;
+      switch (u.updateType) {
+        case 'patch': return policy.autoUpdatePatch;
+        case 'minor': return policy.autoUpdateMinor;
+        case 'major': return policy.autoUpdateMajor;
+        default: return false;
+      }
     });
 
-    if (patchUpdates.length === 0) return;
+    if (allowed.length === 0) return [];
+
+    const applied: DependencyUpdate[] = [];
+    for (const [ecosystem, group] of groupByEcosystem(allowed)) {
+      const adapter = getEcosystemAdapter(ecosystem);
+      if (!adapter) continue;
+      try {
+        await adapter.applyUpdates(projectPath, group.map(u => ({
+          name: u.name,
+          version: u.latest,
+          source: u.source,
+          group: u.group,
+        })));
+        applied.push(...group);
+      } catch (error) {
+        console.error(`[DependencyManager] Error auto-updating ${adapter.name} dependencies:`, error);
+      }
+    }
+
+    if (applied.length === 0) return [];
 
-    // Group by package and update
-    const packages = patchUpdates.map(u => u.name);
+    await this.memory.setFact(`dependency_update:${projectPath}:${Date.now()}`, {
+      type: 'auto',
+      updates: applied.map(u => ({ name: u.name, from: u.current, to: u.latest, updateType: u.updateType, ecosystem: u.ecosystem })),
+      timestamp: Date.now(),
+    });
 
+    // Create a git commit for the update
+    const git = getGitAutomation();
     try {
-      await this.runNpmCommand(projectPath, 'install', [...packages, '--save-exact']);
-      await this.memory.setFact(`dependency_update:${projectPath}:${Date.now()}`, {
-        type: 'patch',
-        packages,
-        timestamp: Date.now(),
+      await git.smartCommit(projectPath, {
+        autoStage: true,
+        conventionalCommits: true,
+        generateMessage: true,
       });
-
-      // Create a git commit for the update
-      const git = getGitAutomation();
-      try {
-        await git.smartCommit(projectPath, {
-          autoStage: true,
-          conventionalCommits: true,
-          generateMessage: true,
-        });
-      } catch {
-        // Git commit might fail if not in a git repo
-      }
-    } catch (error) {
-      console.error('[DependencyManager] Error auto-updating patches:', error);
+    } catch {
+      // Git commit might fail if not in a git repo
     }
+
+    return applied;
   }
 
   /**
-   * Handle critical vulnerabilities
+   * Publish vulnerabilities found in a project
    */
-  private async handleCriticalVulnerabilities(
+  private async publishVulnerabilities(
     projectPath: string,
     vulnerabilities: Vulnerability[],
     chatId: number
   ): Promise<void> {
-    const intentionEngine = getIntentionEngine();
-
-    for (const vuln of vulnerabilities) {
-      await intentionEngine.processTrigger({
-        type: 'dependency_vulnerable',
-        projectPath,
-        chatId,
-        data: {
-          name: vuln.name,
-          severity: vuln.severity,
-          title: vuln.title,
-          description: vuln.description,
-          url: vuln.url,
-          patchedVersions: vuln.patchedVersions,
-        },
-        timestamp: Date.now(),
-      });
-    }
+    const order: VulnerabilitySeverity[] = ['critical', 'high', 'moderate', 'low'];
+    const sorted = [...vulnerabilities].sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+
+    await getEventBus().publish('dependency.vulnerable', {
+      projectPath,
+      chatId,
+      vulnerabilities: sorted.map(v => ({
+        name: v.name,
+        ecosystem: v.ecosystem,
+        severity: v.severity,
+        title: v.title,
+        url: v.url,
+      })),
+    });
   }
 
   /**
-   * Create intentions for updates
+   * Publish updates that weren't applied automatically
    */
-  private async createUpdateIntentions(
+  private async publishUpdates(
     projectPath: string,
     updates: DependencyUpdate[],
-    vulnerabilities: Vulnerability[],
     chatId: number
   ): Promise<void> {
-    const intentionEngine = getIntentionEngine();
-
-    // Create intention for outdated dependencies
-    const needsUpdate = updates.filter(u => u.updateType !== 'patch');
-    if (needsUpdate.length > 0) {
-      await intentionEngine.processTrigger({
-        type: 'dependency_outdated',
-        projectPath,
-        chatId,
-        data: {
-          count: needsUpdate.length,
-          updates: needsUpdate.map(u => ({
-            name: u.name,
-            current: u.current,
-            latest: u.latest,
-            type: u.updateType,
-          })),
-        },
-        timestamp: Date.now(),
-      });
-    }
+    if (updates.length === 0) return;
 
-    // Create intentions for non-critical vulnerabilities
-    const nonCriticalVulns = vulnerabilities.filter(v => v.severity !== 'critical');
-    if (nonCriticalVulns.length > 0) {
-      await intentionEngine.processTrigger({
-        type: 'dependency_vulnerable',
-        projectPath,
-        chatId,
-        data: {
-          count: nonCriticalVulns.length,
-          vulnerabilities: nonCriticalVulns.map(v => ({
-            name: v.name,
-            severity: v.severity,
-            title: v.title,
-          })),
-        },
-        timestamp: Date.now(),
-      });
-    }
+    await getEventBus().publish('dependency.outdated', {
+      projectPath,
+      chatId,
+      updates: updates.map(u => ({
+        name: u.name,
+        ecosystem: u.ecosystem,
+        current: u.current,
+        latest: u.latest,
+        updateType: u.updateType,
+        dev: u.source === 'devDependencies',
+      })),
+    });
   }
 
   /**
-   * Update a specific dependency
+   * Update a specific dependency, with the package manager that declares it
    */
   async updateDependency(
     projectPath: string,
@@ -514,13 +434,23 @@ export class DependencyManager {
     version?: string
   ): Promise<boolean> {
     try {
-      const args = version ? [`${packageName}@${version}`] : [packageName];
-      await this.runNpmCommand(projectPath, 'install', [...args, '--save-exact']);
+      const { adapter, dependency } = await this.findOwner(projectPath, packageName);
+      if (!adapter) {
+        throw new Error('No supported package manager found');
+      }
+
+      await adapter.applyUpdates(projectPath, [{
+        name: dependency?.name ?? packageName,
+        version,
+        source: dependency?.source ?? 'dependencies',
+        group: dependency?.group,
+      }]);
 
       // Record the update
       await this.memory.setFact(`dependency_update:${projectPath}:${Date.now()}`, {
         type: 'manual',
         package: packageName,
+        ecosystem: adapter.id,
         version,
         timestamp: Date.now(),
       });
@@ -533,17 +463,54 @@ export class DependencyManager {
   }
 
   /**
-   * Fix vulnerabilities using npm audit fix
+   * Fix vulnerabilities: with the package manager's own fix where it has
+   * one (npm and pnpm audit), else by upgrading vulnerable direct
+   * dependencies to the first patched version. Without force, fixes that
+   * need a major upgrade are left alone.
    */
   async fixVulnerabilities(projectPath: string, force = false): Promise<boolean> {
-    try {
-      const args = force ? ['--force'] : [];
-      await this.runNpmCommand(projectPath, 'audit', ['fix', ...args]);
-      return true;
-    } catch (error) {
-      console.error('[DependencyManager] Error fixing vulnerabilities:', error);
-      return false;
+    const adapters = await detectEcosystems(projectPath);
+    const vulnerabilities = adapters.every(adapter => adapter.fixVulnerabilities)
+      ? []
+      : await this.checkVulnerabilities(projectPath);
+    let fixed = false;
+
+    for (const adapter of adapters) {
+      try {
+        if (adapter.fixVulnerabilities) {
+          await adapter.fixVulnerabilities(projectPath, force);
+          fixed = true;
+          continue;
+        }
+
+        const dependencies = await adapter.listDependencies(projectPath);
+        const targets = new Map<string, UpdateTarget>();
+        for (const vulnerability of vulnerabilities.filter(v => v.ecosystem === adapter.id)) {
+          const dependency = dependencies.find(d => d.name === vulnerability.name);
+          if (!dependency) continue; // Transitive; left to the dependency that pulls it in
+
+          const current = vulnerability.version ?? dependency.version;
+          const patched = vulnerability.patchedVersions
+            .filter(v => compareVersions(v, current) > 0)
+            .sort(compareVersions)[0];
+          if (!patched || (!force && this.getUpdateType(current, patched) === 'major')) continue;
+
+          const existing = targets.get(dependency.name);
+          if (!existing?.version || compareVersions(patched, existing.version) > 0) {
+            targets.set(dependency.name, { name: dependency.name, version: patched, source: dependency.source, group: dependency.group });
+          }
+        }
+
+        if (targets.size > 0) {
+          await adapter.applyUpdates(projectPath, Array.from(targets.values()));
+          fixed = true;
+        }
+      } catch (error) {
+        console.error(`[DependencyManager] Error fixing ${adapter.name} vulnerabilities:`, error);
+      }
     }
+
+    return fixed;
   }
 
   /**
@@ -580,58 +547,23 @@ export class DependencyManager {
   }
 
   /**
-   * Run an npm command
-   */
-  private async runNpmCommand(projectPath: string, command: string, args: string[] = []): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const child = spawn('npm', [command, ...args], {
-        cwd: projectPath,
-        shell: true,
-        env: { ...process.env, NODE_ENV: 'production' },
-      });
-
-      let stdout = '';
-      let stderr = '';
-
-      child.stdout?.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      child.stderr?.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      child.on('close', (code) => {
-        if (code === 0) {
-          resolve(stdout);
-        } else {
-          reject(new Error(`npm ${command} failed: ${stderr || stdout}`));
-        }
-      });
-
-      child.on('error', (error) => {
-        reject(error);
-      });
-    });
-  }
-
-  /**
-   * Get the dependency source for a package
+   * The package manager that declares a package, else the first one found
    */
-  private async getDependencySource(projectPath: string, packageName: string): Promise<DependencySource> {
-    try {
-      const packageJsonPath = join(projectPath, 'package.json');
-      const content = await readFile(packageJsonPath, 'utf-8');
-      const pkg = JSON.parse(content);
-
-      if (pkg.dependencies?.[packageName]) return 'dependencies';
-      if (pkg.devDependencies?.[packageName]) return 'devDependencies';
-      if (pkg.peerDependencies?.[packageName]) return 'peerDependencies';
-
-      return 'dependencies';
-    } catch {
-      return 'dependencies';
+  private async findOwner(
+    projectPath: string,
+    packageName: string
+  ): Promise<{ adapter?: EcosystemAdapter; dependency?: Dependency }> {
+    const adapters = await detectEcosystems(projectPath);
+    const normalize = (name: string) => name.toLowerCase().replace(/[-_.]+/g, '-');
+
+    for (const adapter of adapters) {
+      const dependencies = await adapter.listDependencies(projectPath).catch(() => []);
+      const dependency = dependencies.find(d => d.name === packageName)
+        ?? dependencies.find(d => normalize(d.name) === normalize(packageName));
+      if (dependency) return { adapter, dependency };
     }
+
+    return { adapter: adapters[0] };
   }
 
   /**
@@ -656,25 +588,6 @@ export class DependencyManager {
     return 'patch';
   }
 
-  /**
-   * Count total dependencies
-   */
-  private async countDependencies(projectPath: string): Promise<number> {
-    try {
-      const packageJsonPath = join(projectPath, 'package.json');
-      const content = await readFile(packageJsonPath, 'utf-8');
-      const pkg = JSON.parse(content);
-
-      const deps = Object.keys(pkg.dependencies || {}).length;
-      const devDeps = Object.keys(pkg.devDependencies || {}).length;
-      const peerDeps = Object.keys(pkg.peerDependencies || {}).length;
-
-      return deps + devDeps + peerDeps;
-    } catch {
-      return 0;
-    }
-  }
-
   /**
    * Calculate health score
    */
@@ -736,33 +649,6 @@ export class DependencyManager {
     // Policies are loaded on demand
   }
 
-  /**
-   * Check if error output contains JSON
-   */
-  private isJsonOutput(error: unknown): boolean {
-    const str = error instanceof Error ? error.message : String(error);
-    try {
-      const extracted = this.extractJson(str);
-      JSON.parse(extracted);
-      return true;
-    } catch {
-      return false;
-    }
-  }
-
-  /**
-   * Extract JSON from error output
-   */
-  private extractJson(str: string): string {
-    // Find JSON object in string
-    const start = str.indexOf('{');
-    const end = str.lastIndexOf('}');
-    if (start !== -1 && end !== -1 && end > start) {
-      return str.substring(start, end + 1);
-    }
-    return '{}';
-  }
-
   /**
    * Get statistics
    */
@@ -793,6 +679,36 @@ export class DependencyManager {
   }
 }
 
+// ============================================
+// Helpers
+// ============================================
+
+function groupByEcosystem(updates: DependencyUpdate[]): Map<Ecosystem, DependencyUpdate[]> {
+  const groups = new Map<Ecosystem, DependencyUpdate[]>();
+  for (const update of updates) {
+    groups.set(update.ecosystem, [...(groups.get(update.ecosystem) ?? []), update]);
+  }
+  return groups;
+}
+
+/**
+ * Compare dotted versions numerically; a pre-release sorts before its release
+ */
+function compareVersions(a: string, b: string): number {
+  const [aRelease, aPre] = a.replace(/^v/, '').split(/-(.*)/);
+  const [bRelease, bPre] = b.replace(/^v/, '').split(/-(.*)/);
+  const aParts = aRelease.split('.').map(part => parseInt(part, 10) || 0);
+  const bParts = bRelease.split('.').map(part => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  if (aPre && !bPre) return -1;
+  if (!aPre && bPre) return 1;
+  return (aPre ?? '').localeCompare(bPre ?? '');
+}
+
 // ============================================
 // Global Singleton
 // ============================================
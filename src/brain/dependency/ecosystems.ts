@@ -0,0 +1,1209 @@
+/**
+ * Ecosystems - Package manager adapters for dependency checks and upgrades
+ *
+ * Each adapter recognizes its package manager from the manifest and lockfile
+ * (npm, pnpm, yarn, pip, poetry, uv, cargo, go modules), lists the direct
+ * dependencies at their locked versions, asks the package manager which have
+ * newer versions, finds known vulnerabilities and applies upgrades with the
+ * package manager itself so manifest and lockfile stay consistent.
+ *
+ * JavaScript package managers audit themselves. For the others, locked
+ * versions are looked up in the OSV database (https://osv.dev), which covers
+ * PyPI, crates.io and Go advisories without a tool installed per project.
+ */
+
+import { spawn } from 'node:child_process';
+import { readFile, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { basename, join } from 'node:path';
+
+import type {
+  Dependency,
+  DependencySource,
+  DependencyUpdate,
+  Ecosystem,
+  Vulnerability,
+  VulnerabilitySeverity,
+} from './dependency-manager.js';
+import {
+  normalizePythonName,
+  parseGoMod,
+  parsePep508,
+  parseRequirements,
+  parseToml,
+  parseYamlMapping,
+  parseYarnLock,
+  pinnedVersion,
+  tomlTable,
+  type Requirement,
+  type TomlTable,
+  type TomlValue,
+} from './manifest-parsers.js';
+
+// ============================================
+// Configuration
+// ============================================
+
+const OUTDATED_TIMEOUT_MS = 60_000;
+const AUDIT_TIMEOUT_MS = 60_000;
+const UPDATE_TIMEOUT_MS = 300_000; // Installs download and may build
+const OSV_API = 'https://api.osv.dev/v1';
+const MAX_OSV_DETAILS = 50; // Advisories fetched in full per check
+const MAX_REGISTRY_LOOKUPS = 100; // Per-package version queries per check
+
+const REQUIREMENTS_FILES: Array<{ file: string; source: DependencySource }> = [
+  { file: 'requirements.txt', source: 'dependencies' },
+  { file: 'requirements-dev.txt', source: 'devDependencies' },
+  { file: 'dev-requirements.txt', source: 'devDependencies' },
+  { file: 'requirements-test.txt', source: 'devDependencies' },
+];
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * An available update, before the manager classifies and stamps it
+ */
+export type OutdatedPackage = Omit<DependencyUpdate, 'updateType' | 'projectPath' | 'timestamp'>;
+
+/**
+ * A known vulnerability, before the manager stamps it
+ */
+export type Advisory = Omit<Vulnerability, 'projectPath' | 'timestamp'>;
+
+/**
+ * A package to upgrade, where its manifest declares it
+ */
+export interface UpdateTarget {
+  name: string;
+  version?: string; // Latest when omitted
+  source: DependencySource;
+  group?: string;
+}
+
+export interface EcosystemAdapter {
+  id: Ecosystem;
+  name: string;
+  /** Whether the project uses this package manager, from its manifest and lockfile */
+  detect(projectPath: string): Promise<boolean>;
+  /** Direct dependencies, at their locked version where there is a lockfile */
+  listDependencies(projectPath: string): Promise<Dependency[]>;
+  /** Direct dependencies with newer versions, asking the package manager */
+  checkOutdated(projectPath: string, dependencies: Dependency[]): Promise<OutdatedPackage[]>;
+  /** Known vulnerabilities in direct and locked transitive packages */
+  checkVulnerabilities(projectPath: string, dependencies: Dependency[]): Promise<Advisory[]>;
+  /** Upgrade packages with the package manager, updating manifest and lockfile */
+  applyUpdates(projectPath: string, targets: UpdateTarget[]): Promise<void>;
+  /** The package manager's own vulnerability fix, where it has one */
+  fixVulnerabilities?(projectPath: string, force: boolean): Promise<void>;
+}
+
+interface PackageJson {
+  packageManager?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+interface CommandResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+interface NpmAuditReport {
+  // npm 7+
+  vulnerabilities?: Record<string, {
+    severity: VulnerabilitySeverity;
+    range?: string;
+    via?: Array<string | { title?: string; url?: string; range?: string; severity?: VulnerabilitySeverity }>;
+    fixAvailable?: boolean | { name: string; version: string };
+  }>;
+  // npm 6, pnpm and yarn classic advisories
+  advisories?: Record<string, NpmAdvisory>;
+}
+
+interface NpmAdvisory {
+  module_name: string;
+  severity: VulnerabilitySeverity;
+  title: string;
+  url: string;
+  overview?: string;
+  vulnerable_versions?: string;
+  patched_versions?: string;
+  findings?: Array<{ version: string }>;
+}
+
+// ============================================
+// npm
+// ============================================
+
+const NPM_SECTIONS: Array<[keyof PackageJson, DependencySource]> = [
+  ['dependencies', 'dependencies'],
+  ['devDependencies', 'devDependencies'],
+  ['peerDependencies', 'peerDependencies'],
+  ['optionalDependencies', 'optionalDependencies'],
+];
+
+const npmAdapter: EcosystemAdapter = {
+  id: 'npm',
+  name: 'npm',
+
+  async detect(projectPath) {
+    const packageJson = await readJson<PackageJson>(join(projectPath, 'package.json'));
+    if (!packageJson) return false;
+    if (packageJson.packageManager && !packageJson.packageManager.startsWith('npm@')) return false;
+    return !hasFile(projectPath, 'pnpm-lock.yaml') && !hasFile(projectPath, 'yarn.lock');
+  },
+
+  async listDependencies(projectPath) {
+    const lock = await readJson<{
+      packages?: Record<string, { version?: string }>;
+      dependencies?: Record<string, { version?: string }>;
+    }>(join(projectPath, 'package-lock.json'));
+    return packageJsonDependencies(projectPath, 'npm', name =>
+      lock?.packages?.[`node_modules/${name}`]?.version ?? lock?.dependencies?.[name]?.version
+    );
+  },
+
+  async checkOutdated(projectPath, dependencies) {
+    // Exits 1 when anything is outdated
+    const { stdout } = await run('npm', ['outdated', '--json'], projectPath, OUTDATED_TIMEOUT_MS);
+    const data = parseJsonOutput<Record<string, { current?: string; wanted: string; latest: string }>>(stdout) ?? {};
+    return toOutdated('npm', dependencies, Object.entries(data).map(([name, info]) => ({ name, ...info })));
+  },
+
+  async checkVulnerabilities(projectPath) {
+    // Exits non-zero when anything is found
+    const { stdout } = await run('npm', ['audit', '--json'], projectPath, AUDIT_TIMEOUT_MS);
+    return parseNpmAudit('npm', parseJsonOutput<NpmAuditReport>(stdout) ?? {});
+  },
+
+  async applyUpdates(projectPath, targets) {
+    await runChecked('npm', ['install', ...targets.map(npmSpec), '--save-exact'], projectPath, UPDATE_TIMEOUT_MS);
+  },
+
+  async fixVulnerabilities(projectPath, force) {
+    await runChecked('npm', ['audit', 'fix', ...(force ? ['--force'] : [])], projectPath, UPDATE_TIMEOUT_MS);
+  },
+};
+
+// ============================================
+// pnpm
+// ============================================
+
+const pnpmAdapter: EcosystemAdapter = {
+  id: 'pnpm',
+  name: 'pnpm',
+
+  async detect(projectPath) {
+    if (hasFile(projectPath, 'pnpm-lock.yaml')) return true;
+    const packageJson = await readJson<PackageJson>(join(projectPath, 'package.json'));
+    return packageJson?.packageManager?.startsWith('pnpm@') ?? false;
+  },
+
+  async listDependencies(projectPath) {
+    const text = await readText(join(projectPath, 'pnpm-lock.yaml'));
+    const lock = text ? parseYamlMapping(text) : {};
+    // Lockfile v6+ nests the root project under importers
+    const importers = lock.importers;
+    const root = typeof importers === 'object' && typeof importers['.'] === 'object' ? importers['.'] : lock;
+
+    return packageJsonDependencies(projectPath, 'pnpm', (name, source) => {
+      const section = root[source];
+      const entry = typeof section === 'object' ? section[name] : undefined;
+      const version = typeof entry === 'object' ? entry.version : entry;
+      // Drop peer suffixes: "1.2.3(react@18.2.0)" and v5's "1.2.3_react@18.2.0"
+      return typeof version === 'string' ? version.replace(/[(_].*$/, '') : undefined;
+    });
+  },
+
+  async checkOutdated(projectPath, dependencies) {
+    const { stdout } = await run('pnpm', ['outdated', '--format', 'json'], projectPath, OUTDATED_TIMEOUT_MS);
+    const data = parseJsonOutput<
+      Record<string, { current?: string; wanted: string; latest: string }>
+      | Array<{ packageName: string; current?: string; wanted: string; latest: string }>
+    >(stdout) ?? {};
+    const entries = Array.isArray(data)
+      ? data.map(({ packageName, ...info }) => ({ name: packageName, ...info }))
+      : Object.entries(data).map(([name, info]) => ({ name, ...info }));
+    return toOutdated('pnpm', dependencies, entries);
+  },
+
+  async checkVulnerabilities(projectPath) {
+    const { stdout } = await run('pnpm', ['audit', '--json'], projectPath, AUDIT_TIMEOUT_MS);
+    return parseNpmAudit('pnpm', parseJsonOutput<NpmAuditReport>(stdout) ?? {});
+  },
+
+  async applyUpdates(projectPath, targets) {
+    for (const [source, group] of groupTargets(targets)) {
+      const flag = { devDependencies: ['-D'], peerDependencies: ['--save-peer'], optionalDependencies: ['-O'] }[source as string] ?? [];
+      await runChecked('pnpm', ['add', '--save-exact', ...flag, ...group.map(npmSpec)], projectPath, UPDATE_TIMEOUT_MS);
+    }
+  },
+
+  async fixVulnerabilities(projectPath) {
+    // Adds overrides for patched versions, which the install then applies
+    await runChecked('pnpm', ['audit', '--fix'], projectPath, AUDIT_TIMEOUT_MS);
+    await runChecked('pnpm', ['install'], projectPath, UPDATE_TIMEOUT_MS);
+  },
+};
+
+// ============================================
+// Yarn
+// ============================================
+
+const yarnAdapter: EcosystemAdapter = {
+  id: 'yarn',
+  name: 'Yarn',
+
+  async detect(projectPath) {
+    if (hasFile(projectPath, 'yarn.lock')) return true;
+    const packageJson = await readJson<PackageJson>(join(projectPath, 'package.json'));
+    return packageJson?.packageManager?.startsWith('yarn@') ?? false;
+  },
+
+  async listDependencies(projectPath) {
+    const text = await readText(join(projectPath, 'yarn.lock'));
+    const locked = text ? parseYarnLock(text) : new Map<string, string>();
+    return packageJsonDependencies(projectPath, 'yarn', (name, _source, range) =>
+      locked.get(`${name}@${range.replace(/^npm:/, '')}`)
+    );
+  },
+
+  async checkOutdated(projectPath, dependencies) {
+    if (await isYarnBerry(projectPath)) {
+      // Berry has no outdated command; ask the registry per package
+      const entries: Array<{ name: string; latest: string }> = [];
+      for (const dependency of dependencies.slice(0, MAX_REGISTRY_LOOKUPS)) {
+        const { code, stdout } = await run('yarn', ['npm', 'info', dependency.name, '--fields', 'version', '--json'], projectPath, OUTDATED_TIMEOUT_MS);
+        const latest = code === 0 ? parseJsonOutput<{ version?: string }>(stdout)?.version : undefined;
+        if (latest) entries.push({ name: dependency.name, latest });
+      }
+      return toOutdated('yarn', dependencies, entries);
+    }
+
+    // Classic prints a JSON line per message, the table among them
+    const { stdout } = await run('yarn', ['outdated', '--json'], projectPath, OUTDATED_TIMEOUT_MS);
+    const entries: Array<{ name: string; current: string; wanted: string; latest: string }> = [];
+    for (const message of parseJsonLines<{ type: string; data?: { body?: string[][] } }>(stdout)) {
+      if (message.type !== 'table') continue;
+      for (const [name, current, wanted, latest] of message.data?.body ?? []) {
+        entries.push({ name, current, wanted, latest });
+      }
+    }
+    return toOutdated('yarn', dependencies, entries);
+  },
+
+  async checkVulnerabilities(projectPath) {
+    if (await isYarnBerry(projectPath)) {
+      const { stdout } = await run('yarn', ['npm', 'audit', '--all', '--recursive', '--json'], projectPath, AUDIT_TIMEOUT_MS);
+      const advisories: Advisory[] = [];
+      for (const line of parseJsonLines<{ value: string; children: Record<string, unknown> }>(stdout)) {
+        const details = line.children ?? {};
+        advisories.push({
+          name: line.value,
+          ecosystem: 'yarn',
+          version: (details['Tree Versions'] as string[] | undefined)?.[0],
+          severity: toSeverity(details.Severity),
+          vulnerableVersions: details['Vulnerable Versions'] ? [String(details['Vulnerable Versions'])] : [],
+          patchedVersions: [],
+          title: String(details.Issue ?? details.ID ?? 'Vulnerability'),
+          description: String(details.Issue ?? ''),
+          url: String(details.URL ?? ''),
+        });
+      }
+      return advisories;
+    }
+
+    const { stdout } = await run('yarn', ['audit', '--json'], projectPath, AUDIT_TIMEOUT_MS);
+    const advisories: Record<string, NpmAdvisory> = {};
+    for (const line of parseJsonLines<{ type: string; data?: { advisory?: NpmAdvisory & { id?: number } } }>(stdout)) {
+      const advisory = line.type === 'auditAdvisory' ? line.data?.advisory : undefined;
+      if (advisory) advisories[String(advisory.id ?? advisory.url)] = advisory;
+    }
+    return parseNpmAudit('yarn', { advisories });
+  },
+
+  async applyUpdates(projectPath, targets) {
+    for (const [source, group] of groupTargets(targets)) {
+      const flag = { devDependencies: ['--dev'], peerDependencies: ['--peer'], optionalDependencies: ['--optional'] }[source as string] ?? [];
+      await runChecked('yarn', ['add', '--exact', ...flag, ...group.map(npmSpec)], projectPath, UPDATE_TIMEOUT_MS);
+    }
+  },
+};
+
+async function isYarnBerry(projectPath: string): Promise<boolean> {
+  if (hasFile(projectPath, '.yarnrc.yml')) return true;
+  const lock = await readText(join(projectPath, 'yarn.lock'));
+  return lock?.includes('__metadata:') ?? false;
+}
+
+// ============================================
+// Python: pip, Poetry, uv
+// ============================================
+
+const pipAdapter: EcosystemAdapter = {
+  id: 'pip',
+  name: 'pip',
+
+  async detect(projectPath) {
+    if (hasFile(projectPath, 'uv.lock') || await isPoetryProject(projectPath)) return false;
+    if (REQUIREMENTS_FILES.some(({ file }) => hasFile(projectPath, file))) return true;
+    return tomlTable(await readPyproject(projectPath), 'project') !== undefined;
+  },
+
+  async listDependencies(projectPath) {
+    const dependencies = pyprojectDependencies(await readPyproject(projectPath), 'pip', () => undefined);
+    for (const { file, source } of REQUIREMENTS_FILES) {
+      const text = await readText(join(projectPath, file));
+      for (const requirement of text ? parseRequirements(text) : []) {
+        dependencies.push(pythonDependency(requirement, 'pip', source, undefined, pinnedVersion(requirement.specifier)));
+      }
+    }
+    return uniqueDependencies(dependencies);
+  },
+
+  async checkOutdated(projectPath, dependencies) {
+    const { code, stdout, stderr } = await run(pythonCommand(projectPath), ['-m', 'pip', 'list', '--outdated', '--format=json'], projectPath, OUTDATED_TIMEOUT_MS);
+    if (code !== 0) throw new Error(`pip list failed: ${stderr || stdout}`);
+    const installed = parseJsonOutput<Array<{ name: string; version: string; latest_version: string }>>(stdout) ?? [];
+    return toOutdated('pip', dependencies, installed.map(pkg => ({
+      name: pkg.name,
+      current: pkg.version,
+      latest: pkg.latest_version,
+    })));
+  },
+
+  async checkVulnerabilities(projectPath, dependencies) {
+    // Unpinned requirements are checked at the installed version
+    const installed = await pipInstalled(projectPath);
+    const packages = dependencies.map(dependency => ({
+      name: dependency.name,
+      version: exactVersion(dependency.version) ?? installed.get(normalizePythonName(dependency.name)),
+    }));
+    return queryOsv('pip', 'PyPI', packages);
+  },
+
+  async applyUpdates(projectPath, targets) {
+    const specs = targets.map(target => (target.version ? `${target.name}==${target.version}` : target.name));
+    await runChecked(pythonCommand(projectPath), ['-m', 'pip', 'install', '--upgrade', ...specs], projectPath, UPDATE_TIMEOUT_MS);
+
+    // Keep pinned requirements in step with what was installed
+    const installed = await pipInstalled(projectPath);
+    for (const { file } of REQUIREMENTS_FILES) {
+      const path = join(projectPath, file);
+      const text = await readText(path);
+      if (text === null) continue;
+      let updated = text;
+      for (const target of targets) {
+        const version = target.version ?? installed.get(normalizePythonName(target.name));
+        if (!version) continue;
+        const name = target.name.replace(/[-_.]+/g, '[-_.]+');
+        updated = updated.replace(
+          new RegExp(`^(${name}\\s*(?:\\[[^\\]]*\\])?\\s*===?\\s*)[^\\s;#,]+`, 'gim'),
+          `$1${version}`
+        );
+      }
+      if (updated !== text) await writeFile(path, updated);
+    }
+  },
+};
+
+const poetryAdapter: EcosystemAdapter = {
+  id: 'poetry',
+  name: 'Poetry',
+
+  async detect(projectPath) {
+    return !hasFile(projectPath, 'uv.lock') && await isPoetryProject(projectPath);
+  },
+
+  async listDependencies(projectPath) {
+    const locked = await lockedPythonPackages(join(projectPath, 'poetry.lock'));
+    return pyprojectDependencies(await readPyproject(projectPath), 'poetry', name => locked.get(normalizePythonName(name)));
+  },
+
+  async checkOutdated(projectPath, dependencies) {
+    const { code, stdout, stderr } = await run('poetry', ['show', '--outdated', '--top-level', '--no-ansi'], projectPath, OUTDATED_TIMEOUT_MS);
+    if (code !== 0) throw new Error(`poetry show failed: ${stderr || stdout}`);
+    // "name (!) 1.0.0 2.0.0 Description", where (!) marks packages not installed
+    const entries = stdout.split('\n').flatMap(line => {
+      const match = line.match(/^(\S+)\s+(?:\(!\)\s+)?(\S+)\s+(\S+)/);
+      return match ? [{ name: match[1], current: match[2], latest: match[3] }] : [];
+    });
+    return toOutdated('poetry', dependencies, entries);
+  },
+
+  async checkVulnerabilities(projectPath) {
+    const locked = await lockedPythonPackages(join(projectPath, 'poetry.lock'));
+    return queryOsv('poetry', 'PyPI', Array.from(locked, ([name, version]) => ({ name, version })));
+  },
+
+  async applyUpdates(projectPath, targets) {
+    for (const [key, group] of groupTargets(targets, true)) {
+      const [source, name] = key.split(':');
+      const flags = source === 'devDependencies' ? ['--group', name || 'dev']
+        : source === 'optionalDependencies' ? ['--optional']
+        : [];
+      const specs = group.map(target => `${target.name}@${target.version ? `^${target.version}` : 'latest'}`);
+      await runChecked('poetry', ['add', ...flags, ...specs], projectPath, UPDATE_TIMEOUT_MS);
+    }
+  },
+};
+
+const uvAdapter: EcosystemAdapter = {
+  id: 'uv',
+  name: 'uv',
+
+  async detect(projectPath) {
+    return hasFile(projectPath, 'uv.lock');
+  },
+
+  async listDependencies(projectPath) {
+    const locked = await lockedPythonPackages(join(projectPath, 'uv.lock'));
+    return pyprojectDependencies(await readPyproject(projectPath), 'uv', name => locked.get(normalizePythonName(name)));
+  },
+
+  async checkOutdated(projectPath, dependencies) {
+    const { code, stdout, stderr } = await run('uv', ['pip', 'list', '--outdated', '--format', 'json'], projectPath, OUTDATED_TIMEOUT_MS);
+    if (code !== 0) throw new Error(`uv pip list failed: ${stderr || stdout}`);
+    const installed = parseJsonOutput<Array<{ name: string; version: string; latest_version: string }>>(stdout) ?? [];
+    return toOutdated('uv', dependencies, installed.map(pkg => ({
+      name: pkg.name,
+      current: pkg.version,
+      latest: pkg.latest_version,
+    })));
+  },
+
+  async checkVulnerabilities(projectPath) {
+    const locked = await lockedPythonPackages(join(projectPath, 'uv.lock'));
+    return queryOsv('uv', 'PyPI', Array.from(locked, ([name, version]) => ({ name, version })));
+  },
+
+  async applyUpdates(projectPath, targets) {
+    for (const [key, group] of groupTargets(targets, true)) {
+      const [source, name] = key.split(':');
+      const flags = source === 'devDependencies' ? (name && name !== 'dev' ? ['--group', name] : ['--dev'])
+        : source === 'optionalDependencies' && name ? ['--optional', name]
+        : [];
+      const specs = group.map(target => (target.version ? `${target.name}>=${target.version}` : target.name));
+      const upgrades = group.flatMap(target => ['--upgrade-package', target.name]);
+      await runChecked('uv', ['add', ...flags, ...upgrades, ...specs], projectPath, UPDATE_TIMEOUT_MS);
+    }
+  },
+};
+
+async function isPoetryProject(projectPath: string): Promise<boolean> {
+  if (hasFile(projectPath, 'poetry.lock')) return true;
+  return tomlTable(await readPyproject(projectPath), 'tool', 'poetry') !== undefined;
+}
+
+async function readPyproject(projectPath: string): Promise<TomlTable | undefined> {
+  const text = await readText(join(projectPath, 'pyproject.toml'));
+  if (text === null) return undefined;
+  try {
+    return parseToml(text);
+  } catch (error) {
+    console.warn(`[Ecosystems] Ignoring unreadable pyproject.toml in ${projectPath}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Dependencies declared in pyproject.toml: PEP 621 [project] with its
+ * optional dependencies, PEP 735 dependency groups, and Poetry's tables
+ */
+function pyprojectDependencies(
+  pyproject: TomlTable | undefined,
+  ecosystem: Ecosystem,
+  lockedVersion: (name: string) => string | undefined
+): Dependency[] {
+  if (!pyproject) return [];
+  const dependencies: Dependency[] = [];
+
+  const addRequirements = (values: TomlValue | undefined, source: DependencySource, group?: string): void => {
+    if (!Array.isArray(values)) return;
+    for (const value of values) {
+      const requirement = typeof value === 'string' ? parsePep508(value) : null;
+      if (requirement) dependencies.push(pythonDependency(requirement, ecosystem, source, group, lockedVersion(requirement.name)));
+    }
+  };
+
+  const project = tomlTable(pyproject, 'project');
+  addRequirements(project?.dependencies, 'dependencies');
+  for (const [extra, values] of Object.entries(tomlTable(project, 'optional-dependencies') ?? {})) {
+    addRequirements(values, 'optionalDependencies', extra);
+  }
+  for (const [group, values] of Object.entries(tomlTable(pyproject, 'dependency-groups') ?? {})) {
+    addRequirements(values, 'devDependencies', group);
+  }
+  addRequirements(tomlTable(pyproject, 'tool', 'uv')?.['dev-dependencies'], 'devDependencies', 'dev');
+
+  // Poetry: name = "^1.2" or name = { version = "^1.2", optional = true }
+  const poetry = tomlTable(pyproject, 'tool', 'poetry');
+  const addPoetryTable = (table: TomlTable | undefined, source: DependencySource, group?: string): void => {
+    for (const [name, value] of Object.entries(table ?? {})) {
+      if (name.toLowerCase() === 'python') continue;
+      const spec = typeof value === 'string' ? value : tomlTable(value)?.version;
+      if (typeof spec !== 'string') continue; // Path and git dependencies
+      const optional = tomlTable(value)?.optional === true;
+      dependencies.push({
+        name,
+        version: lockedVersion(name) ?? spec,
+        source: optional ? 'optionalDependencies' : source,
+        ecosystem,
+        group,
+      });
+    }
+  };
+  addPoetryTable(tomlTable(poetry, 'dependencies'), 'dependencies');
+  addPoetryTable(tomlTable(poetry, 'dev-dependencies'), 'devDependencies', 'dev');
+  for (const [group, table] of Object.entries(tomlTable(poetry, 'group') ?? {})) {
+    addPoetryTable(tomlTable(table, 'dependencies'), group === 'main' ? 'dependencies' : 'devDependencies', group === 'main' ? undefined : group);
+  }
+
+  return uniqueDependencies(dependencies);
+}
+
+function pythonDependency(
+  requirement: Requirement,
+  ecosystem: Ecosystem,
+  source: DependencySource,
+  group: string | undefined,
+  lockedVersion: string | undefined
+): Dependency {
+  return {
+    name: requirement.name,
+    version: lockedVersion ?? (requirement.specifier || '*'),
+    source,
+    ecosystem,
+    group,
+  };
+}
+
+/**
+ * Locked versions by normalized name, from poetry.lock or uv.lock. The
+ * project itself, editable and path packages aren't published and are left out.
+ */
+async function lockedPythonPackages(lockPath: string): Promise<Map<string, string>> {
+  const locked = new Map<string, string>();
+  const text = await readText(lockPath);
+  if (text === null) return locked;
+
+  try {
+    const packages = parseToml(text).package;
+    for (const entry of Array.isArray(packages) ? packages : []) {
+      const pkg = tomlTable(entry);
+      if (!pkg || typeof pkg.name !== 'string' || typeof pkg.version !== 'string') continue;
+      const source = tomlTable(pkg.source);
+      if (source && (source.editable || source.virtual || source.directory || source.type === 'directory')) continue;
+      locked.set(normalizePythonName(pkg.name), pkg.version);
+    }
+  } catch (error) {
+    console.warn(`[Ecosystems] Ignoring unreadable ${lockPath}:`, error);
+  }
+  return locked;
+}
+
+/**
+ * The project's virtualenv interpreter, else the system one
+ */
+function pythonCommand(projectPath: string): string {
+  for (const venv of ['.venv', 'venv']) {
+    const python = join(projectPath, venv, 'bin', 'python');
+    if (existsSync(python)) return python;
+  }
+  return 'python3';
+}
+
+async function pipInstalled(projectPath: string): Promise<Map<string, string>> {
+  const installed = new Map<string, string>();
+  try {
+    const { stdout } = await run(pythonCommand(projectPath), ['-m', 'pip', 'list', '--format=json'], projectPath, OUTDATED_TIMEOUT_MS);
+    for (const pkg of parseJsonOutput<Array<{ name: string; version: string }>>(stdout) ?? []) {
+      installed.set(normalizePythonName(pkg.name), pkg.version);
+    }
+  } catch {
+    // No Python available: unpinned requirements go unchecked
+  }
+  return installed;
+}
+
+// ============================================
+// Cargo
+// ============================================
+
+const CARGO_SECTIONS: Array<[string, DependencySource]> = [
+  ['dependencies', 'dependencies'],
+  ['dev-dependencies', 'devDependencies'],
+  ['build-dependencies', 'buildDependencies'],
+];
+
+const cargoAdapter: EcosystemAdapter = {
+  id: 'cargo',
+  name: 'Cargo',
+
+  async detect(projectPath) {
+    return hasFile(projectPath, 'Cargo.toml');
+  },
+
+  async listDependencies(projectPath) {
+    const manifest = parseToml((await readText(join(projectPath, 'Cargo.toml'))) ?? '');
+    const locked = await lockedCrates(projectPath);
+    const dependencies: Dependency[] = [];
+
+    const addTable = (table: TomlTable | undefined, source: DependencySource, group?: string): void => {
+      for (const [key, value] of Object.entries(table ?? {})) {
+        const details = tomlTable(value);
+        const requirement = typeof value === 'string' ? value : details?.version;
+        // Path and git dependencies aren't published; workspace ones are listed at the root
+        if (typeof requirement !== 'string') continue;
+        const name = typeof details?.package === 'string' ? details.package : key;
+        dependencies.push({
+          name,
+          version: locked.get(name)?.[0] ?? requirement,
+          source,
+          ecosystem: 'cargo',
+          group,
+        });
+      }
+    };
+
+    for (const [section, source] of CARGO_SECTIONS) {
+      addTable(tomlTable(manifest, section), source);
+      for (const [target, table] of Object.entries(tomlTable(manifest, 'target') ?? {})) {
+        addTable(tomlTable(table, section), source, target);
+      }
+    }
+    addTable(tomlTable(manifest, 'workspace', 'dependencies'), 'dependencies', 'workspace');
+
+    return uniqueDependencies(dependencies);
+  },
+
+  async checkOutdated(projectPath, dependencies) {
+    // "Updating serde v1.0.190 -> v1.0.203" for compatible updates, and with
+    // --verbose "Unchanged rand v0.7.3 (available: v0.9.0)" for the others
+    const { code, stderr, stdout } = await run('cargo', ['update', '--dry-run', '--verbose'], projectPath, OUTDATED_TIMEOUT_MS);
+    if (code !== 0) throw new Error(`cargo update failed: ${stderr || stdout}`);
+
+    const entries: Array<{ name: string; current: string; wanted: string; latest: string }> = [];
+    for (const line of stderr.split('\n')) {
+      const match = line.match(/^\s*(Updating|Unchanged)\s+(\S+)\s+v(\S+)(?:\s+->\s+v(\S+))?(?:\s+\((?:available|latest):\s+v([^)\s]+)\))?/);
+      if (!match || (match[1] === 'Unchanged' && !match[5])) continue;
+      const [, , name, current, wanted = current, latest = wanted] = match;
+      entries.push({ name, current, wanted, latest });
+    }
+    return toOutdated('cargo', dependencies, entries);
+  },
+
+  async checkVulnerabilities(projectPath) {
+    const locked = await lockedCrates(projectPath);
+    const packages = Array.from(locked, ([name, versions]) => versions.map(version => ({ name, version }))).flat();
+    return queryOsv('cargo', 'crates.io', packages);
+  },
+
+  async applyUpdates(projectPath, targets) {
+    for (const target of targets) {
+      if (target.group === 'workspace') {
+        // cargo add can't edit [workspace.dependencies]; move the lockfile within the requirement
+        const precise = target.version ? ['--precise', target.version] : [];
+        await runChecked('cargo', ['update', '-p', target.name, ...precise], projectPath, UPDATE_TIMEOUT_MS);
+        continue;
+      }
+      const flags = target.source === 'devDependencies' ? ['--dev'] : target.source === 'buildDependencies' ? ['--build'] : [];
+      if (target.group) flags.push('--target', target.group);
+      const spec = target.version ? `${target.name}@${target.version}` : target.name;
+      await runChecked('cargo', ['add', ...flags, spec], projectPath, UPDATE_TIMEOUT_MS);
+    }
+  },
+};
+
+/**
+ * Locked versions of registry crates by name; a crate can be locked at
+ * several major versions
+ */
+async function lockedCrates(projectPath: string): Promise<Map<string, string[]>> {
+  const locked = new Map<string, string[]>();
+  const text = await readText(join(projectPath, 'Cargo.lock'));
+  if (text === null) return locked;
+
+  try {
+    const packages = parseToml(text).package;
+    for (const entry of Array.isArray(packages) ? packages : []) {
+      const pkg = tomlTable(entry);
+      if (!pkg || typeof pkg.name !== 'string' || typeof pkg.version !== 'string') continue;
+      // Workspace members have no source
+      if (typeof pkg.source !== 'string' || !pkg.source.startsWith('registry+')) continue;
+      locked.set(pkg.name, [...(locked.get(pkg.name) ?? []), pkg.version]);
+    }
+  } catch (error) {
+    console.warn(`[Ecosystems] Ignoring unreadable Cargo.lock in ${projectPath}:`, error);
+  }
+  return locked;
+}
+
+// ============================================
+// Go modules
+// ============================================
+
+const goAdapter: EcosystemAdapter = {
+  id: 'go',
+  name: 'Go modules',
+
+  async detect(projectPath) {
+    return hasFile(projectPath, 'go.mod');
+  },
+
+  async listDependencies(projectPath) {
+    const { requires } = parseGoMod((await readText(join(projectPath, 'go.mod'))) ?? '');
+    return requires
+      .filter(requirement => !requirement.indirect)
+      .map(requirement => ({
+        name: requirement.path,
+        version: requirement.version,
+        source: 'dependencies' as const,
+        ecosystem: 'go' as const,
+      }));
+  },
+
+  async checkOutdated(projectPath, dependencies) {
+    const { code, stdout, stderr } = await run('go', ['list', '-m', '-u', '-json', 'all'], projectPath, OUTDATED_TIMEOUT_MS);
+    if (code !== 0) throw new Error(`go list failed: ${stderr || stdout}`);
+
+    const entries: Array<{ name: string; current: string; latest: string }> = [];
+    for (const module of parseJsonStream<{ Path: string; Version?: string; Update?: { Version: string } }>(stdout)) {
+      if (module.Version && module.Update) {
+        entries.push({ name: module.Path, current: module.Version, latest: module.Update.Version });
+      }
+    }
+    return toOutdated('go', dependencies, entries);
+  },
+
+  async checkVulnerabilities(projectPath) {
+    // go.mod lists every module the build needs since Go 1.17
+    const { requires } = parseGoMod((await readText(join(projectPath, 'go.mod'))) ?? '');
+    return queryOsv('go', 'Go', requires.map(requirement => ({ name: requirement.path, version: requirement.version })));
+  },
+
+  async applyUpdates(projectPath, targets) {
+    const specs = targets.map(target => `${target.name}@${target.version ?? 'latest'}`);
+    await runChecked('go', ['get', ...specs], projectPath, UPDATE_TIMEOUT_MS);
+    await runChecked('go', ['mod', 'tidy'], projectPath, UPDATE_TIMEOUT_MS);
+  },
+};
+
+// ============================================
+// Registry
+// ============================================
+
+// One JavaScript and one Python package manager is detected per project
+const adapters: EcosystemAdapter[] = [pnpmAdapter, yarnAdapter, npmAdapter, uvAdapter, poetryAdapter, pipAdapter, cargoAdapter, goAdapter];
+
+/**
+ * Add an adapter, or replace the built-in one with the same id
+ */
+export function registerEcosystem(adapter: EcosystemAdapter): void {
+  const index = adapters.findIndex(existing => existing.id === adapter.id);
+  if (index === -1) adapters.push(adapter);
+  else adapters[index] = adapter;
+}
+
+export function getEcosystemAdapters(): EcosystemAdapter[] {
+  return [...adapters];
+}
+
+export function getEcosystemAdapter(id: Ecosystem): EcosystemAdapter | undefined {
+  return adapters.find(adapter => adapter.id === id);
+}
+
+/**
+ * The package managers a project uses, e.g. pnpm for its frontend and Go
+ * modules for its backend
+ */
+export async function detectEcosystems(projectPath: string): Promise<EcosystemAdapter[]> {
+  const detected: EcosystemAdapter[] = [];
+  for (const adapter of adapters) {
+    try {
+      if (await adapter.detect(projectPath)) detected.push(adapter);
+    } catch (error) {
+      console.warn(`[Ecosystems] ${adapter.name} detection failed for ${projectPath}:`, error);
+    }
+  }
+  return detected;
+}
+
+// ============================================
+// OSV
+// ============================================
+
+interface OsvVulnerability {
+  id: string;
+  summary?: string;
+  details?: string;
+  aliases?: string[];
+  affected?: Array<{
+    package?: { name: string; ecosystem: string };
+    ranges?: Array<{ type: string; events: Array<{ introduced?: string; fixed?: string; last_affected?: string }> }>;
+    database_specific?: { severity?: string };
+  }>;
+  database_specific?: { severity?: string };
+}
+
+/**
+ * Known vulnerabilities of exact package versions, from the OSV database
+ */
+async function queryOsv(
+  ecosystem: Ecosystem,
+  osvEcosystem: string,
+  packages: Array<{ name: string; version?: string }>
+): Promise<Advisory[]> {
+  const queries = packages
+    .filter((pkg): pkg is { name: string; version: string } => !!pkg.version && /^v?\d/.test(pkg.version))
+    .map(pkg => ({ package: { name: pkg.name, ecosystem: osvEcosystem }, version: pkg.version }));
+  if (queries.length === 0) return [];
+
+  try {
+    const response = await fetch(`${OSV_API}/querybatch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ queries }),
+      signal: AbortSignal.timeout(AUDIT_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`OSV query failed: ${response.status}`);
+    const { results = [] } = await response.json() as { results?: Array<{ vulns?: Array<{ id: string }> }> };
+
+    const found = results.flatMap((result, i) => (result.vulns ?? []).map(vuln => ({ id: vuln.id, query: queries[i] })));
+    const details = new Map<string, OsvVulnerability | null>();
+    for (const id of new Set(found.map(entry => entry.id))) {
+      if (details.size >= MAX_OSV_DETAILS) break;
+      details.set(id, await fetchOsvVulnerability(id));
+    }
+
+    return found.map(({ id, query }) => {
+      const vuln = details.get(id);
+      const affected = vuln?.affected?.find(entry => entry.package?.name === query.package.name);
+      const events = (affected?.ranges ?? []).filter(range => range.type !== 'GIT').map(range => range.events);
+      return {
+        name: query.package.name,
+        ecosystem,
+        version: query.version,
+        severity: toSeverity(affected?.database_specific?.severity ?? vuln?.database_specific?.severity),
+        vulnerableVersions: events.map(formatOsvRange),
+        patchedVersions: events.flat().flatMap(event => (event.fixed ? [event.fixed] : [])),
+        title: vuln?.summary ?? vuln?.aliases?.[0] ?? id,
+        description: vuln?.details?.substring(0, 500) ?? '',
+        url: `https://osv.dev/vulnerability/${id}`,
+      };
+    });
+  } catch (error) {
+    console.warn(`[Ecosystems] OSV lookup failed for ${ecosystem}:`, error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+async function fetchOsvVulnerability(id: string): Promise<OsvVulnerability | null> {
+  try {
+    const response = await fetch(`${OSV_API}/vulns/${encodeURIComponent(id)}`, {
+      signal: AbortSignal.timeout(AUDIT_TIMEOUT_MS),
+    });
+    return response.ok ? await response.json() as OsvVulnerability : null;
+  } catch {
+    return null;
+  }
+}
+
+function formatOsvRange(events: Array<{ introduced?: string; fixed?: string; last_affected?: string }>): string {
+  const parts: string[] = [];
+  for (const event of events) {
+    if (event.introduced && event.introduced !== '0') parts.push(`>=${event.introduced}`);
+    if (event.fixed) parts.push(`<${event.fixed}`);
+    if (event.last_affected) parts.push(`<=${event.last_affected}`);
+  }
+  return parts.join(' ') || '*';
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Run a command without a shell; resolves with any exit code, rejects when
+ * the command is missing or times out
+ */
+function run(command: string, args: string[], cwd: string, timeoutMs: number): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd, env: process.env });
+    let stdout = '';
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`${describeCommand(command, args)} timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    child.stdout?.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    child.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ code: code ?? 1, stdout, stderr });
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(error.code === 'ENOENT' ? new Error(`${command} is not installed`) : error);
+    });
+  });
+}
+
+async function runChecked(command: string, args: string[], cwd: string, timeoutMs: number): Promise<string> {
+  const { code, stdout, stderr } = await run(command, args, cwd, timeoutMs);
+  if (code !== 0) {
+    throw new Error(`${describeCommand(command, args)} failed: ${stderr || stdout}`);
+  }
+  return stdout;
+}
+
+/**
+ * "npm install" or "python pip list", for messages
+ */
+function describeCommand(command: string, args: string[]): string {
+  return [basename(command), ...args.filter(arg => !arg.startsWith('-')).slice(0, 2)].join(' ');
+}
+
+/**
+ * Dependencies declared in package.json, with versions from the lockfile
+ */
+async function packageJsonDependencies(
+  projectPath: string,
+  ecosystem: Ecosystem,
+  lockedVersion: (name: string, source: DependencySource, range: string) => string | undefined
+): Promise<Dependency[]> {
+  const packageJson = await readJson<PackageJson>(join(projectPath, 'package.json'));
+  const dependencies: Dependency[] = [];
+
+  for (const [section, source] of NPM_SECTIONS) {
+    for (const [name, range] of Object.entries((packageJson?.[section] ?? {}) as Record<string, string>)) {
+      // Workspace, file and link dependencies aren't published
+      if (/^(workspace|file|link|portal):/.test(range)) continue;
+      dependencies.push({
+        name,
+        version: lockedVersion(name, source, range) ?? range,
+        source,
+        ecosystem,
+      });
+    }
+  }
+
+  return uniqueDependencies(dependencies);
+}
+
+/**
+ * Keep the updates for declared dependencies, filling in what the package
+ * manager left out
+ */
+function toOutdated(
+  ecosystem: Ecosystem,
+  dependencies: Dependency[],
+  entries: Array<{ name: string; current?: string; wanted?: string; latest: string }>
+): OutdatedPackage[] {
+  const python = ['pip', 'poetry', 'uv'].includes(ecosystem);
+  const key = (name: string): string => (python ? normalizePythonName(name) : name);
+  const declared = new Map(dependencies.map(dependency => [key(dependency.name), dependency]));
+  const outdated: OutdatedPackage[] = [];
+
+  for (const entry of entries) {
+    const dependency = declared.get(key(entry.name));
+    const current = entry.current ?? dependency?.version;
+    if (!dependency || !current || current === entry.latest) continue;
+    outdated.push({
+      name: dependency.name,
+      current,
+      wanted: entry.wanted ?? compatibleVersion(current, entry.latest),
+      latest: entry.latest,
+      source: dependency.source,
+      ecosystem,
+      group: dependency.group,
+    });
+  }
+
+  return outdated;
+}
+
+/**
+ * The latest version when it's semver-compatible with the current one
+ * (same major, or same minor below 1.0), else the current one
+ */
+function compatibleVersion(current: string, latest: string): string {
+  const [currentMajor, currentMinor] = current.replace(/^v/, '').split('.');
+  const [latestMajor, latestMinor] = latest.replace(/^v/, '').split('.');
+  if (currentMajor !== latestMajor) return current;
+  return currentMajor === '0' && currentMinor !== latestMinor ? current : latest;
+}
+
+/**
+ * Advisories from npm audit (v7+ and v6 formats), pnpm audit and yarn audit
+ */
+function parseNpmAudit(ecosystem: Ecosystem, report: NpmAuditReport): Advisory[] {
+  const advisories: Advisory[] = [];
+
+  for (const [name, vuln] of Object.entries(report.vulnerabilities ?? {})) {
+    // "via" holds advisories, or names of the vulnerable packages this depends on
+    const via = (vuln.via ?? []).filter((entry): entry is Exclude<typeof entry, string> => typeof entry !== 'string');
+    const fix = typeof vuln.fixAvailable === 'object' && vuln.fixAvailable.name === name ? vuln.fixAvailable.version : undefined;
+    advisories.push({
+      name,
+      ecosystem,
+      severity: toSeverity(vuln.severity),
+      vulnerableVersions: vuln.range ? [vuln.range] : [],
+      patchedVersions: fix ? [fix] : [],
+      title: via[0]?.title ?? `Depends on vulnerable ${(vuln.via ?? []).filter(entry => typeof entry === 'string').join(', ')}`,
+      description: via.map(entry => entry.title).filter(Boolean).join('; '),
+      url: via[0]?.url ?? '',
+    });
+  }
+
+  for (const advisory of Object.values(report.advisories ?? {})) {
+    advisories.push({
+      name: advisory.module_name,
+      ecosystem,
+      version: advisory.findings?.[0]?.version,
+      severity: toSeverity(advisory.severity),
+      vulnerableVersions: advisory.vulnerable_versions ? [advisory.vulnerable_versions] : [],
+      patchedVersions: advisory.patched_versions && advisory.patched_versions !== '<0.0.0' ? [advisory.patched_versions] : [],
+      title: advisory.title,
+      description: advisory.overview ?? '',
+      url: advisory.url,
+    });
+  }
+
+  return advisories;
+}
+
+function toSeverity(value: unknown): VulnerabilitySeverity {
+  switch (String(value ?? '').toLowerCase()) {
+    case 'critical':
+      return 'critical';
+    case 'high':
+      return 'high';
+    case 'low':
+    case 'info':
+      return 'low';
+    default:
+      return 'moderate';
+  }
+}
+
+function npmSpec(target: UpdateTarget): string {
+  return target.version ? `${target.name}@${target.version}` : target.name;
+}
+
+/**
+ * Targets by source, and by group too where the package manager has one
+ * flag per group
+ */
+function groupTargets(targets: UpdateTarget[], byGroup = false): Map<string, UpdateTarget[]> {
+  const groups = new Map<string, UpdateTarget[]>();
+  for (const target of targets) {
+    const key = byGroup ? `${target.source}:${target.group ?? ''}` : target.source;
+    groups.set(key, [...(groups.get(key) ?? []), target]);
+  }
+  return groups;
+}
+
+/**
+ * A dependency declared in several places counts once, runtime first
+ */
+function uniqueDependencies(dependencies: Dependency[]): Dependency[] {
+  const seen = new Set<string>();
+  return dependencies.filter(dependency => {
+    const key = dependency.name.toLowerCase().replace(/[-_.]+/g, '-');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function exactVersion(version: string): string | undefined {
+  return /^v?\d+(\.\d+)*([.+-][\w.+-]*)?$/.test(version) ? version : undefined;
+}
+
+function parseJsonOutput<T>(output: string): T | null {
+  const start = output.search(/[[{]/);
+  if (start === -1) return null;
+  try {
+    return JSON.parse(output.slice(start)) as T;
+  } catch {
+    return null;
+  }
+}
+
+function parseJsonLines<T>(output: string): T[] {
+  return output.split('\n').flatMap(line => {
+    if (!line.trim().startsWith('{')) return [];
+    try {
+      return [JSON.parse(line) as T];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Concatenated JSON objects, as `go list -json` prints them
+ */
+function parseJsonStream<T>(output: string): T[] {
+  const values: T[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+
+  for (let i = 0; i < output.length; i++) {
+    const char = output[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth++ === 0) start = i;
+    } else if (char === '}' && --depth === 0) {
+      try {
+        values.push(JSON.parse(output.slice(start, i + 1)) as T);
+      } catch {
+        // Skip a malformed object
+      }
+    }
+  }
+
+  return values;
+}
+
+function hasFile(projectPath: string, name: string): boolean {
+  return existsSync(join(projectPath, name));
+}
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+async function readJson<T>(path: string): Promise<T | null> {
+  const content = await readText(path);
+  if (content === null) return null;
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    return null;
+  }
+}
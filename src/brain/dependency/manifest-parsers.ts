@@ -0,0 +1,450 @@
+/**
+ * Manifest Parsers - Dependency declarations and locked versions from the
+ * files each ecosystem keeps in the project
+ *
+ * Reads only what dependency checks need, without extra packages:
+ * - TOML (pyproject.toml, poetry.lock, uv.lock, Cargo.toml, Cargo.lock)
+ * - The block-mapping subset of YAML pnpm-lock.yaml uses
+ * - yarn.lock, classic and berry
+ * - requirements.txt and PEP 508 requirement strings
+ * - go.mod
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+export interface YamlMapping {
+  [key: string]: string | YamlMapping;
+}
+
+export interface Requirement {
+  name: string; // As written; compare with normalizePythonName()
+  specifier: string; // e.g. "==2.31.0" or ">=1.0,<2", empty when unconstrained
+  extras: string[];
+  marker?: string; // Environment marker after ";"
+}
+
+export interface GoRequirement {
+  path: string;
+  version: string;
+  indirect: boolean;
+}
+
+// ============================================
+// TOML
+// ============================================
+
+const TOML_BARE_KEY = /[A-Za-z0-9_-]+/y;
+const TOML_BARE_VALUE = /[^\s,\]}#]+/y;
+
+/**
+ * Parse a TOML document: tables, arrays of tables, dotted keys, strings of
+ * all four kinds, arrays and inline tables. Dates are kept as strings.
+ * Throws on input it can't read.
+ */
+export function parseToml(text: string): TomlTable {
+  const root: TomlTable = {};
+  let table = root;
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = text.slice(0, pos).split('\n').length;
+    throw new Error(`Invalid TOML at line ${line}: ${message}`);
+  };
+
+  const skipSpace = (): void => {
+    while (text[pos] === ' ' || text[pos] === '\t') pos++;
+  };
+
+  // Whitespace, newlines and comments
+  const skipBlank = (): void => {
+    for (;;) {
+      while (pos < text.length && /\s/.test(text[pos])) pos++;
+      if (text[pos] !== '#') return;
+      while (pos < text.length && text[pos] !== '\n') pos++;
+    }
+  };
+
+  const expect = (token: string): void => {
+    if (!text.startsWith(token, pos)) fail(`expected "${token}"`);
+    pos += token.length;
+  };
+
+  const parseString = (): string => {
+    const quote = text[pos];
+    const multiline = text.startsWith(quote.repeat(3), pos);
+    const delimiter = multiline ? quote.repeat(3) : quote;
+    pos += delimiter.length;
+    // A newline right after the opening delimiter is trimmed
+    if (multiline && text[pos] === '\n') pos++;
+    else if (multiline && text.startsWith('\r\n', pos)) pos += 2;
+
+    let value = '';
+    for (;;) {
+      if (pos >= text.length || (!multiline && text[pos] === '\n')) fail('unterminated string');
+      if (text.startsWith(delimiter, pos)) {
+        pos += delimiter.length;
+        return value;
+      }
+      if (quote === '"' && text[pos] === '\\') {
+        const escape = text[pos + 1];
+        if (multiline && /\s/.test(escape)) {
+          // Line ending backslash: skip to the next non-whitespace
+          pos++;
+          while (pos < text.length && /\s/.test(text[pos])) pos++;
+          continue;
+        }
+        const simple: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', e: '\x1b', '"': '"', '\\': '\\' };
+        if (escape in simple) {
+          value += simple[escape];
+          pos += 2;
+        } else if (escape === 'u' || escape === 'U') {
+          const length = escape === 'u' ? 4 : 8;
+          value += String.fromCodePoint(parseInt(text.slice(pos + 2, pos + 2 + length), 16));
+          pos += 2 + length;
+        } else {
+          fail(`invalid escape "\\${escape}"`);
+        }
+        continue;
+      }
+      value += text[pos++];
+    }
+  };
+
+  const parseKey = (): string[] => {
+    const parts: string[] = [];
+    for (;;) {
+      skipSpace();
+      if (text[pos] === '"' || text[pos] === "'") {
+        parts.push(parseString());
+      } else {
+        TOML_BARE_KEY.lastIndex = pos;
+        const match = TOML_BARE_KEY.exec(text);
+        if (!match) fail('expected a key');
+        parts.push(match![0]);
+        pos = TOML_BARE_KEY.lastIndex;
+      }
+      skipSpace();
+      if (text[pos] !== '.') return parts;
+      pos++;
+    }
+  };
+
+  const parseValue = (): TomlValue => {
+    const char = text[pos];
+    if (char === '"' || char === "'") return parseString();
+
+    if (char === '[') {
+      pos++;
+      const values: TomlValue[] = [];
+      for (;;) {
+        skipBlank();
+        if (text[pos] === ']') {
+          pos++;
+          return values;
+        }
+        values.push(parseValue());
+        skipBlank();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] !== ']') fail('expected "," or "]"');
+      }
+    }
+
+    if (char === '{') {
+      pos++;
+      const inline: TomlTable = {};
+      for (;;) {
+        skipSpace();
+        if (text[pos] === '}') {
+          pos++;
+          return inline;
+        }
+        const key = parseKey();
+        expect('=');
+        skipSpace();
+        setPath(inline, key, parseValue());
+        skipSpace();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] !== '}') fail('expected "," or "}"');
+      }
+    }
+
+    TOML_BARE_VALUE.lastIndex = pos;
+    const match = TOML_BARE_VALUE.exec(text);
+    if (!match) fail('expected a value');
+    pos = TOML_BARE_VALUE.lastIndex;
+    let raw = match![0];
+    // Dates may have a space between date and time
+    if (/^\d{4}-\d{2}-\d{2}$/.test(raw) && /^ \d{2}:/.test(text.slice(pos, pos + 4))) {
+      TOML_BARE_VALUE.lastIndex = pos + 1;
+      raw += ` ${TOML_BARE_VALUE.exec(text)![0]}`;
+      pos = TOML_BARE_VALUE.lastIndex;
+    }
+    if (raw === 'true' || raw === 'false') return raw === 'true';
+    const number = raw.replace(/_/g, '');
+    if (/^[+-]?inf$/.test(number)) return number.startsWith('-') ? -Infinity : Infinity;
+    if (/^[+-]?nan$/.test(number)) return NaN;
+    if (/^([+-]?\d+(\.\d+)?([eE][+-]?\d+)?|0x[0-9a-fA-F]+|0o[0-7]+|0b[01]+)$/.test(number)) return Number(number);
+    return raw;
+  };
+
+  for (;;) {
+    skipBlank();
+    if (pos >= text.length) return root;
+
+    if (text.startsWith('[[', pos)) {
+      pos += 2;
+      const path = parseKey();
+      expect(']]');
+      const parent = getTable(root, path.slice(0, -1));
+      const name = path[path.length - 1];
+      const list = (parent[name] ??= []) as TomlValue[];
+      if (!Array.isArray(list)) fail(`"${path.join('.')}" is not an array of tables`);
+      table = {};
+      list.push(table);
+    } else if (text[pos] === '[') {
+      pos++;
+      const path = parseKey();
+      expect(']');
+      table = getTable(root, path);
+    } else {
+      const key = parseKey();
+      expect('=');
+      skipSpace();
+      setPath(table, key, parseValue());
+    }
+  }
+}
+
+/**
+ * A table by path, created as needed; arrays of tables resolve to their
+ * last entry
+ */
+function getTable(root: TomlTable, path: string[]): TomlTable {
+  let table = root;
+  for (const key of path) {
+    let next = table[key];
+    if (Array.isArray(next)) next = next[next.length - 1];
+    if (next === undefined) {
+      next = {};
+      table[key] = next;
+    }
+    if (typeof next !== 'object' || Array.isArray(next)) {
+      throw new Error(`Invalid TOML: "${path.join('.')}" is not a table`);
+    }
+    table = next;
+  }
+  return table;
+}
+
+function setPath(table: TomlTable, path: string[], value: TomlValue): void {
+  getTable(table, path.slice(0, -1))[path[path.length - 1]] = value;
+}
+
+/**
+ * A nested table, or undefined when any part is missing or not a table
+ */
+export function tomlTable(value: TomlValue | undefined, ...path: string[]): TomlTable | undefined {
+  let current = value;
+  for (const key of path) {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return undefined;
+    current = current[key];
+  }
+  return current && typeof current === 'object' && !Array.isArray(current) ? current : undefined;
+}
+
+// ============================================
+// YAML (pnpm-lock.yaml)
+// ============================================
+
+/**
+ * Parse block mappings into nested objects of strings. Sequences are
+ * skipped and flow collections are kept as their text, which is all
+ * pnpm-lock.yaml needs for package versions.
+ */
+export function parseYamlMapping(text: string): YamlMapping {
+  const root: YamlMapping = {};
+  const stack: Array<{ indent: number; mapping: YamlMapping }> = [{ indent: -1, mapping: root }];
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed === '---') continue;
+
+    const indent = line.search(/\S/);
+    while (stack.length > 1 && indent <= stack[stack.length - 1].indent) stack.pop();
+    if (trimmed === '-' || trimmed.startsWith('- ')) continue;
+
+    const entry = trimmed.match(/^('(?:[^']|'')*'|"(?:[^"\\]|\\.)*"|[^'"].*?):(?:\s+(.*))?$/);
+    if (!entry) continue;
+
+    const key = unquoteYaml(entry[1]);
+    const raw = entry[2]?.replace(/\s+#.*$/, '').trim();
+    if (raw) {
+      stack[stack.length - 1].mapping[key] = unquoteYaml(raw);
+    } else {
+      const child: YamlMapping = {};
+      stack[stack.length - 1].mapping[key] = child;
+      stack.push({ indent, mapping: child });
+    }
+  }
+
+  return root;
+}
+
+function unquoteYaml(value: string): string {
+  if (value.length > 1 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.length > 1 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return value;
+}
+
+// ============================================
+// yarn.lock
+// ============================================
+
+/**
+ * Locked versions by "name@range", from classic (v1) and berry lockfiles.
+ * Berry's "npm:" protocol is dropped so both match package.json ranges.
+ */
+export function parseYarnLock(text: string): Map<string, string> {
+  const locked = new Map<string, string>();
+  let specs: string[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    if (!/^\s/.test(line)) {
+      specs = line.startsWith('__metadata')
+        ? []
+        // Berry quotes the whole list, classic each spec that needs it
+        : line.replace(/:\s*$/, '').split(/,\s*/).map(spec => spec.trim().replace(/^"|"$/g, ''));
+      continue;
+    }
+
+    const version = line.match(/^ {2}version:?\s+"?([^"\s]+)"?/);
+    if (version) {
+      for (const spec of specs) locked.set(normalizeYarnSpec(spec), version[1]);
+    }
+  }
+
+  return locked;
+}
+
+function normalizeYarnSpec(spec: string): string {
+  const at = spec.indexOf('@', 1);
+  if (at === -1) return spec;
+  return `${spec.slice(0, at)}@${spec.slice(at + 1).replace(/^npm:/, '')}`;
+}
+
+// ============================================
+// Python
+// ============================================
+
+const PEP508 = /^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[([^\]]*)\])?\s*(\([^)]*\)|[^;]*?)\s*(?:;\s*(.+))?$/;
+
+/**
+ * Parse a PEP 508 requirement such as `requests[socks]>=2.31,<3; python_version>"3.8"`.
+ * Direct URL references (`name @ https://...`) aren't versioned and return null.
+ */
+export function parsePep508(requirement: string): Requirement | null {
+  const match = requirement.trim().match(PEP508);
+  if (!match || match[3].trim().startsWith('@')) return null;
+  return {
+    name: match[1],
+    specifier: match[3].replace(/^\(|\)$/g, '').replace(/\s+/g, ''),
+    extras: match[2] ? match[2].split(',').map(extra => extra.trim()).filter(Boolean) : [],
+    marker: match[4]?.trim(),
+  };
+}
+
+/**
+ * Requirements from a requirements.txt, skipping options, includes,
+ * editable installs and URLs
+ */
+export function parseRequirements(text: string): Requirement[] {
+  const requirements: Requirement[] = [];
+  const lines = text.replace(/\\\r?\n/g, ' ').split('\n');
+
+  for (const line of lines) {
+    const content = line.replace(/(^|\s)#.*$/, '').replace(/\s--hash[=\s]\S+/g, '').trim();
+    if (!content || content.startsWith('-') || content.includes('://')) continue;
+    const requirement = parsePep508(content);
+    if (requirement) requirements.push(requirement);
+  }
+
+  return requirements;
+}
+
+/**
+ * PEP 503 normalized name: case-insensitive, runs of "-", "_" and "." alike
+ */
+export function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/**
+ * The version a specifier pins exactly ("==1.2.3" or "===1.2.3"), if any
+ */
+export function pinnedVersion(specifier: string): string | undefined {
+  const match = specifier.match(/^===?([^,*]+)$/);
+  return match?.[1];
+}
+
+// ============================================
+// go.mod
+// ============================================
+
+/**
+ * The module path and required modules of a go.mod
+ */
+export function parseGoMod(text: string): { module?: string; requires: GoRequirement[] } {
+  const requires: GoRequirement[] = [];
+  let module: string | undefined;
+  let inRequire = false;
+
+  for (const rawLine of text.split('\n')) {
+    const indirect = /\/\/\s*indirect\b/.test(rawLine);
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (!line) continue;
+
+    if (inRequire) {
+      if (line === ')') {
+        inRequire = false;
+        continue;
+      }
+      const [path, version] = line.split(/\s+/);
+      if (path && version) requires.push({ path: unquoteGo(path), version, indirect });
+      continue;
+    }
+
+    const moduleMatch = line.match(/^module\s+(\S+)/);
+    if (moduleMatch) {
+      module = unquoteGo(moduleMatch[1]);
+    } else if (/^require\s*\($/.test(line)) {
+      inRequire = true;
+    } else {
+      const single = line.match(/^require\s+(\S+)\s+(\S+)/);
+      if (single) requires.push({ path: unquoteGo(single[1]), version: single[2], indirect });
+    }
+  }
+
+  return { module, requires };
+}
+
+function unquoteGo(value: string): string {
+  return value.replace(/^"(.*)"$/, '$1').replace(/^`(.*)`$/, '$1');
+}
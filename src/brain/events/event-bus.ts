@@ -0,0 +1,488 @@
+/**
+ * Event Bus - Typed publish/subscribe between brain subsystems
+ *
+ * Subsystems announce what happened (a test run failed, a CI build broke, an
+ * approval was resolved) instead of calling each other's singletons or
+ * polling each other's state. Every event is appended to the SQLite event log:
+ * - Durable subscribers are named; the bus remembers the last event each one
+ *   handled and replays what they missed on the next subscribe (e.g. test
+ *   failures seen while the healer wasn't running)
+ * - /events tails the log for debugging
+ *
+ * Until the database is initialized events are delivered but only kept in
+ * memory, and durable subscribers start without a replay.
+ */
+
+import { getDatabaseManager, type EventRow } from '../database/index.js';
+
+// ============================================
+// Configuration
+// ============================================
+
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // Events older than this are pruned
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const REPLAY_BATCH = 100;
+const MEMORY_TAIL = 200; // Recent events kept in memory, for /events without SQLite
+
+// ============================================
+// Event Schemas
+// ============================================
+
+export interface TestFailureDetail {
+  file: string;
+  test: string; // Suite and test name, joined with " > "
+  error: string;
+  stack?: string;
+  duration?: number; // ms
+}
+
+export interface BrainEventMap {
+  'file.changed': {
+    projectPath: string;
+    changed: string[];
+    removed: string[];
+    source: 'watch' | 'poll' | 'git';
+    commit?: string;
+  };
+  'test.failed': {
+    projectPath: string;
+    projectName?: string;
+    chatId?: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    duration: number;
+    failures: TestFailureDetail[];
+    output: string; // Truncated
+  };
+  'test.passed': {
+    projectPath: string;
+    projectName?: string;
+    chatId?: number;
+    passed: number;
+    skipped: number;
+    duration: number;
+  };
+  'test.flaky': {
+    projectPath: string;
+    chatId?: number;
+    id: string; // For /tests quarantine
+    file: string;
+    test: string;
+    score: number; // 0-1
+    failureRate: number; // 0-1
+    reason: 'rerun' | 'history'; // Passed on a rerun, or mixed results against the same code
+    lastError?: string;
+  };
+  'coverage.dropped': {
+    projectPath: string;
+    projectName?: string;
+    chatId?: number;
+    lines: number; // Percent, after the run
+    drops: Array<{ file?: string; metric: string; previous: number; current: number }>;
+    changedLines?: { covered: number; total: number };
+  };
+  'heal.failed': {
+    projectPath: string;
+    chatId: number;
+    failureId: string;
+    testFile: string;
+    testName: string;
+    error: string;
+    strategy: string;
+    attempts: number;
+  };
+  'build.broken': {
+    projectPath: string;
+    chatId?: number;
+    provider: string;
+    buildId: string;
+    branch: string;
+    commit: string;
+    message: string;
+    workflow?: string;
+    url?: string;
+  };
+  'dependency.outdated': {
+    projectPath: string;
+    chatId: number;
+    updates: Array<{ name: string; ecosystem: string; current: string; latest: string; updateType: string; dev: boolean }>;
+  };
+  'dependency.vulnerable': {
+    projectPath: string;
+    chatId: number;
+    vulnerabilities: Array<{ name: string; ecosystem: string; severity: string; title: string; url?: string }>;
+  };
+  'worktree.expiring': {
+    projectPath: string; // The project's main working tree
+    chatId: number;
+    worktreeId: string;
+    branch: string;
+    keepsBranch: boolean; // The branch has unmerged commits and outlives the worktree
+    removeAt: number;
+  };
+  'decision.created': {
+    decisionId: string;
+    intentionId: string;
+    projectPath: string;
+    chatId: number;
+    title: string;
+    shouldAct: boolean;
+    requiresApproval: boolean;
+    confidence: number;
+  };
+  'approval.requested': {
+    requestId: string;
+    projectPath: string;
+    chatId: number;
+    title: string;
+    riskLevel: string;
+    expiresAt: number;
+  };
+  'approval.resolved': {
+    requestId: string;
+    projectPath: string;
+    chatId: number;
+    title: string;
+    status: 'approved' | 'denied' | 'expired' | 'cancelled';
+    resolvedBy?: number; // 0 when approved by policy
+    reason?: string;
+  };
+}
+
+export type BrainEventType = keyof BrainEventMap;
+
+export interface BrainEvent<T extends BrainEventType = BrainEventType> {
+  id: number; // Sequence number in the event log; 0 if it wasn't persisted
+  type: T;
+  timestamp: number;
+  payload: BrainEventMap[T];
+}
+
+export type BrainEventHandler<T extends BrainEventType> = (event: BrainEvent<T>) => void | Promise<void>;
+
+export interface SubscribeOptions {
+  /**
+   * Name of a durable subscriber. Its position in the event log is saved,
+   * and events published since are replayed when it subscribes again.
+   */
+  durable?: string;
+}
+
+export interface EventQuery {
+  types?: string[]; // Exact types, or prefixes ending in '.' (e.g. 'test.')
+  project?: string;
+  since?: number;
+  limit?: number;
+}
+
+interface Subscription {
+  types: Set<string>;
+  handler: BrainEventHandler<BrainEventType>;
+  durable?: string;
+  backlog: BrainEvent[] | null; // Live events held back while replaying
+  lastId: number;
+  active: boolean;
+}
+
+// ============================================
+// Event Bus Class
+// ============================================
+
+export class EventBus {
+  private subscriptions = new Set<Subscription>();
+  private tail: BrainEvent[] = [];
+  private lastPruneAt = 0;
+
+  /**
+   * Subscribe to one or more event types. Returns an unsubscribe function.
+   */
+  subscribe<T extends BrainEventType>(
+    types: T | T[],
+    handler: BrainEventHandler<T>,
+    options: SubscribeOptions = {}
+  ): () => void {
+    const subscription: Subscription = {
+      types: new Set(Array.isArray(types) ? types : [types]),
+      handler: handler as BrainEventHandler<BrainEventType>,
+      durable: options.durable,
+      backlog: null,
+      lastId: 0,
+      active: true,
+    };
+    this.subscriptions.add(subscription);
+
+    if (subscription.durable) {
+      this.startReplay(subscription);
+    }
+
+    return () => {
+      subscription.active = false;
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Record an event and deliver it to every subscriber of its type.
+   * Handlers run one after another; one failing doesn't stop the rest, and
+   * handlers with long-running work should start it without awaiting it.
+   */
+  async publish<T extends BrainEventType>(type: T, payload: BrainEventMap[T]): Promise<BrainEvent<T>> {
+    const event: BrainEvent<T> = { id: 0, type, timestamp: Date.now(), payload };
+
+    const db = getDatabaseManager();
+    if (db.isInitialized()) {
+      try {
+        const { projectPath, chatId } = payload as { projectPath?: string; chatId?: number };
+        event.id = db.insertEvent({
+          type,
+          timestamp: event.timestamp,
+          project: projectPath ?? null,
+          chat_id: chatId ?? null,
+          payload: JSON.stringify(payload),
+        });
+        this.pruneIfDue();
+      } catch (error) {
+        console.error('[EventBus] Failed to persist event:', error);
+      }
+    }
+
+    this.tail.push(event);
+    if (this.tail.length > MEMORY_TAIL) this.tail.shift();
+
+    for (const subscription of Array.from(this.subscriptions)) {
+      if (!subscription.types.has(type)) continue;
+      if (subscription.backlog) {
+        subscription.backlog.push(event);
+        continue;
+      }
+      await this.deliver(subscription, event);
+    }
+
+    return event;
+  }
+
+  /**
+   * Most recent events matching a query, oldest first
+   */
+  recent(query: EventQuery = {}): BrainEvent[] {
+    const limit = query.limit ?? 20;
+    const db = getDatabaseManager();
+
+    if (db.isInitialized()) {
+      try {
+        return db.getEvents({ ...query, limit }).map(fromRow);
+      } catch (error) {
+        console.error('[EventBus] Failed to read events:', error);
+      }
+    }
+
+    return this.tail
+      .filter(event => matchesTypes(event.type, query.types))
+      .filter(event => !query.project || (event.payload as { projectPath?: string }).projectPath === query.project)
+      .filter(event => !query.since || event.timestamp >= query.since)
+      .slice(-limit);
+  }
+
+  /**
+   * Drop all subscriptions
+   */
+  clear(): void {
+    for (const subscription of this.subscriptions) subscription.active = false;
+    this.subscriptions.clear();
+  }
+
+  // ============================================
+  // Delivery
+  // ============================================
+
+  private async deliver(subscription: Subscription, event: BrainEvent): Promise<void> {
+    if (!subscription.active) return;
+
+    try {
+      await subscription.handler(event);
+    } catch (error) {
+      console.error(`[EventBus] ${subscription.durable ?? 'Subscriber'} failed on ${event.type}:`, error);
+    }
+
+    // A failed event is not retried; replaying it forever would block the rest
+    if (subscription.durable && event.id > subscription.lastId) {
+      subscription.lastId = event.id;
+      try {
+        getDatabaseManager().setEventCursor(subscription.durable, event.id);
+      } catch (error) {
+        console.error('[EventBus] Failed to save event cursor:', error);
+      }
+    }
+  }
+
+  /**
+   * Replay what a durable subscriber missed, holding back live events until
+   * it has caught up so they arrive in order
+   */
+  private startReplay(subscription: Subscription): void {
+    const db = getDatabaseManager();
+    if (!db.isInitialized() || !subscription.durable) return;
+
+    let cursor: number | null;
+    try {
+      cursor = db.getEventCursor(subscription.durable);
+      if (cursor === null) {
+        // First subscription: start from now rather than replaying history
+        db.setEventCursor(subscription.durable, db.getLatestEventId());
+        return;
+      }
+    } catch (error) {
+      console.error('[EventBus] Failed to read event cursor:', error);
+      return;
+    }
+
+    subscription.lastId = cursor;
+    subscription.backlog = [];
+
+    this.replay(subscription).catch(error => {
+      console.error(`[EventBus] Replay failed for ${subscription.durable}:`, error);
+    }).finally(async () => {
+      // Deliver live events that arrived meanwhile, skipping any already replayed
+      while (subscription.backlog && subscription.backlog.length > 0) {
+        const event = subscription.backlog.shift()!;
+        if (event.id === 0 || event.id > subscription.lastId) {
+          await this.deliver(subscription, event);
+        }
+      }
+      subscription.backlog = null;
+    });
+  }
+
+  private async replay(subscription: Subscription): Promise<void> {
+    const types = Array.from(subscription.types);
+    let replayed = 0;
+
+    while (subscription.active) {
+      const rows = getDatabaseManager().getEvents({ afterId: subscription.lastId, types, limit: REPLAY_BATCH });
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        await this.deliver(subscription, fromRow(row));
+        replayed++;
+      }
+    }
+
+    if (replayed > 0) {
+      console.log(`[EventBus] Replayed ${replayed} event(s) to ${subscription.durable}`);
+    }
+  }
+
+  private pruneIfDue(): void {
+    const now = Date.now();
+    if (now - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+    this.lastPruneAt = now;
+
+    const pruned = getDatabaseManager().pruneEvents(now - RETENTION_MS);
+    if (pruned > 0) {
+      console.log(`[EventBus] Pruned ${pruned} old event(s)`);
+    }
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function fromRow(row: EventRow): BrainEvent {
+  return {
+    id: row.id,
+    type: row.type as BrainEventType,
+    timestamp: row.timestamp,
+    payload: JSON.parse(row.payload) as BrainEventMap[BrainEventType],
+  };
+}
+
+function matchesTypes(type: string, types?: string[]): boolean {
+  if (!types || types.length === 0) return true;
+  return types.some(pattern => pattern.endsWith('.') ? type.startsWith(pattern) : type === pattern);
+}
+
+/**
+ * One-line description of an event, for /events
+ */
+export function describeEvent(event: BrainEvent): string {
+  switch (event.type) {
+    case 'file.changed': {
+      const p = event.payload as BrainEventMap['file.changed'];
+      const files = [...p.changed, ...p.removed];
+      return `${files.length} file(s) via ${p.source}: ${files.slice(0, 3).join(', ')}${files.length > 3 ? ', ...' : ''}`;
+    }
+    case 'test.failed': {
+      const p = event.payload as BrainEventMap['test.failed'];
+      const first = p.failures[0];
+      return `${p.failed} failed, ${p.passed} passed${first ? ` (first: ${first.test})` : ''}`;
+    }
+    case 'test.passed': {
+      const p = event.payload as BrainEventMap['test.passed'];
+      return `${p.passed} passed in ${(p.duration / 1000).toFixed(1)}s`;
+    }
+    case 'test.flaky': {
+      const p = event.payload as BrainEventMap['test.flaky'];
+      return `${p.test} (score ${p.score}, ${p.reason === 'rerun' ? 'passed on rerun' : 'mixed results'})`;
+    }
+    case 'coverage.dropped': {
+      const p = event.payload as BrainEventMap['coverage.dropped'];
+      const first = p.drops[0];
+      return `${p.lines}% lines${first ? ` (${first.file ?? 'total'} ${first.metric} ${first.previous}% → ${first.current}%)` : ''}`;
+    }
+    case 'heal.failed': {
+      const p = event.payload as BrainEventMap['heal.failed'];
+      return `${p.testName} in ${p.testFile} after ${p.attempts} attempt(s)`;
+    }
+    case 'build.broken': {
+      const p = event.payload as BrainEventMap['build.broken'];
+      return `${p.workflow ?? p.provider} on ${p.branch} @ ${p.commit}: ${p.message}`;
+    }
+    case 'dependency.outdated': {
+      const p = event.payload as BrainEventMap['dependency.outdated'];
+      return `${p.updates.length} update(s): ${p.updates.slice(0, 3).map(u => `${u.name} ${u.latest}`).join(', ')}`;
+    }
+    case 'dependency.vulnerable': {
+      const p = event.payload as BrainEventMap['dependency.vulnerable'];
+      return `${p.vulnerabilities.length} vulnerable: ${p.vulnerabilities.slice(0, 3).map(v => `${v.name} (${v.severity})`).join(', ')}`;
+    }
+    case 'worktree.expiring': {
+      const p = event.payload as BrainEventMap['worktree.expiring'];
+      return `${p.branch} removed after ${new Date(p.removeAt).toISOString()}${p.keepsBranch ? ' (branch kept)' : ''}`;
+    }
+    case 'decision.created': {
+      const p = event.payload as BrainEventMap['decision.created'];
+      const verdict = !p.shouldAct ? 'skip' : p.requiresApproval ? 'needs approval' : 'auto';
+      return `${p.title} → ${verdict} (${Math.round(p.confidence * 100)}%)`;
+    }
+    case 'approval.requested': {
+      const p = event.payload as BrainEventMap['approval.requested'];
+      return `${p.title} (${p.riskLevel} risk)`;
+    }
+    case 'approval.resolved': {
+      const p = event.payload as BrainEventMap['approval.resolved'];
+      return `${p.title} → ${p.status}${p.reason ? `: ${p.reason}` : ''}`;
+    }
+    default:
+      return JSON.stringify(event.payload).substring(0, 100);
+  }
+}
+
+// ============================================
+// Global Singleton
+// ============================================
+
+let globalEventBus: EventBus | null = null;
+
+export function getEventBus(): EventBus {
+  if (!globalEventBus) {
+    globalEventBus = new EventBus();
+  }
+  return globalEventBus;
+}
+
+export function resetEventBus(): void {
+  globalEventBus?.clear();
+  globalEventBus = null;
+}
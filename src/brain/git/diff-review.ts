@@ -0,0 +1,341 @@
+/**
+ * Diff Review - Hunk-by-hunk review of what a Claude run changed
+ *
+ * Before a run the working tree state is snapshotted (`git stash create`, which
+ * records tracked changes without touching anything, plus the list of untracked
+ * files). After the run the diff against that snapshot is split into hunks so
+ * each one can be kept or reverted on its own. Reverting applies the hunk in
+ * reverse (`git apply -R`) to the working tree; earlier user changes are never
+ * part of the diff, so they can't be reverted by accident.
+ *
+ * Only files the run itself edited are reviewed. Another run working on the
+ * same repository at the same time changes the tree too, and its edits must
+ * neither show up in this review nor be reverted from it.
+ */
+
+import { execFile, spawn } from 'node:child_process';
+import { isAbsolute, relative, resolve as resolvePath } from 'node:path';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================
+// Configuration
+// ============================================
+
+const MAX_REVIEWS = 20; // Reviews kept in memory, oldest dropped first
+const MAX_DIFF_BYTES = 20 * 1024 * 1024;
+
+// ============================================
+// Types
+// ============================================
+
+export type HunkStatus = 'pending' | 'kept' | 'reverted';
+
+export interface ReviewBaseline {
+  repoPath: string;
+  commit: string; // Stash commit of the dirty tree, or HEAD when clean
+  untracked: string[];
+}
+
+export interface DiffHunk {
+  index: number;
+  file: string;
+  header: string; // File header lines (diff --git, ---, +++)
+  body: string; // The @@ line and its content
+  added: number;
+  removed: number;
+  newFile: boolean;
+  status: HunkStatus;
+}
+
+export interface DiffReview {
+  id: string;
+  repoPath: string;
+  projectName: string;
+  createdAt: number;
+  hunks: DiffHunk[];
+  binaryFiles: string[]; // Changed, but can't be reviewed hunk by hunk
+}
+
+export interface HunkActionResult {
+  success: boolean;
+  message: string;
+}
+
+// ============================================
+// Diff Review Manager Class
+// ============================================
+
+export class DiffReviewManager {
+  private reviews = new Map<string, DiffReview>();
+  private counter = 0;
+
+  /**
+   * Snapshot a repository's working tree before a run
+   */
+  async captureBaseline(repoPath: string): Promise<ReviewBaseline> {
+    const stash = (await this.git(repoPath, ['stash', 'create'])).trim();
+    const commit = stash || (await this.git(repoPath, ['rev-parse', 'HEAD'])).trim();
+    const untracked = await this.listUntracked(repoPath);
+    return { repoPath, commit, untracked };
+  }
+
+  /**
+   * Diff the files a run edited against a baseline and open a review
+   * @param files - Paths the run edited, absolute or relative to the repository
+   * Returns null when the run changed nothing.
+   */
+  async createReview(baseline: ReviewBaseline, projectName: string, files: string[]): Promise<DiffReview | null> {
+    const { repoPath } = baseline;
+    const paths = new Set(
+      files
+        .map(file => relative(repoPath, resolvePath(repoPath, file)))
+        .filter(file => file && !file.startsWith('..') && !isAbsolute(file))
+    );
+    if (paths.size === 0) return null;
+
+    let diff = await this.git(repoPath, ['diff', '--no-color', '--no-ext-diff', baseline.commit, '--', ...paths]);
+
+    // New untracked files are not in `git diff`; diff them against /dev/null
+    const before = new Set(baseline.untracked);
+    for (const file of await this.listUntracked(repoPath)) {
+      if (paths.has(file) && !before.has(file)) {
+        diff += await this.git(repoPath, ['diff', '--no-color', '--no-index', '--', '/dev/null', file], true);
+      }
+    }
+
+    const { hunks, binaryFiles } = parseDiff(diff);
+    if (hunks.length === 0 && binaryFiles.length === 0) return null;
+
+    const review: DiffReview = {
+      id: `r${(++this.counter).toString(36)}${Date.now().toString(36).slice(-4)}`,
+      repoPath,
+      projectName,
+      createdAt: Date.now(),
+      hunks,
+      binaryFiles,
+    };
+
+    this.reviews.set(review.id, review);
+    if (this.reviews.size > MAX_REVIEWS) {
+      const oldest = this.reviews.keys().next().value;
+      if (oldest) this.reviews.delete(oldest);
+    }
+
+    console.log(`[DiffReview] Review ${review.id}: ${hunks.length} hunk(s) in ${projectName}`);
+    return review;
+  }
+
+  /**
+   * Get a review by ID
+   */
+  get(id: string): DiffReview | undefined {
+    return this.reviews.get(id);
+  }
+
+  /**
+   * Mark a hunk as kept (the working tree is left as is)
+   */
+  keep(reviewId: string, index: number): HunkActionResult {
+    const hunk = this.reviews.get(reviewId)?.hunks[index];
+    if (!hunk) return { success: false, message: 'Review expired or hunk not found' };
+    if (hunk.status === 'reverted') return { success: false, message: 'Hunk was already reverted' };
+
+    hunk.status = 'kept';
+    return { success: true, message: `Kept ${hunk.file}` };
+  }
+
+  /**
+   * Revert a hunk in the working tree
+   */
+  async revert(reviewId: string, index: number): Promise<HunkActionResult> {
+    const review = this.reviews.get(reviewId);
+    const hunk = review?.hunks[index];
+    if (!review || !hunk) return { success: false, message: 'Review expired or hunk not found' };
+    if (hunk.status === 'reverted') return { success: true, message: `Already reverted in ${hunk.file}` };
+
+    const patch = `${hunk.header}\n${hunk.body}\n`;
+    try {
+      // Earlier reverts in the same file shift line numbers; --recount and git's offset search cope
+      await this.applyPatch(review.repoPath, patch, ['apply', '-R', '--recount', '--whitespace=nowarn']);
+    } catch (error) {
+      return {
+        success: false,
+        message: `Couldn't revert ${hunk.file}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    hunk.status = 'reverted';
+    return { success: true, message: `Reverted hunk in ${hunk.file}` };
+  }
+
+  /**
+   * Keep every pending hunk
+   */
+  keepAll(reviewId: string): HunkActionResult {
+    const review = this.reviews.get(reviewId);
+    if (!review) return { success: false, message: 'Review expired' };
+
+    const pending = review.hunks.filter(h => h.status === 'pending');
+    for (const hunk of pending) hunk.status = 'kept';
+    return { success: true, message: `Kept ${pending.length} hunk(s)` };
+  }
+
+  /**
+   * Revert every pending hunk, bottom-up within each file so line numbers stay valid
+   */
+  async revertAll(reviewId: string): Promise<HunkActionResult> {
+    const review = this.reviews.get(reviewId);
+    if (!review) return { success: false, message: 'Review expired' };
+
+    const pending = review.hunks.filter(h => h.status === 'pending').reverse();
+    const failed: string[] = [];
+    for (const hunk of pending) {
+      const result = await this.revert(reviewId, hunk.index);
+      if (!result.success) failed.push(hunk.file);
+    }
+
+    const reverted = pending.length - failed.length;
+    return failed.length === 0
+      ? { success: true, message: `Reverted ${reverted} hunk(s)` }
+      : { success: false, message: `Reverted ${reverted} hunk(s); failed in ${[...new Set(failed)].join(', ')}` };
+  }
+
+  /**
+   * Count hunks by status
+   */
+  summarize(reviewId: string): Record<HunkStatus, number> {
+    const counts: Record<HunkStatus, number> = { pending: 0, kept: 0, reverted: 0 };
+    for (const hunk of this.reviews.get(reviewId)?.hunks ?? []) {
+      counts[hunk.status]++;
+    }
+    return counts;
+  }
+
+  // ============================================
+  // Git Helpers
+  // ============================================
+
+  private async listUntracked(repoPath: string): Promise<string[]> {
+    const output = await this.git(repoPath, ['ls-files', '--others', '--exclude-standard']);
+    return output.split('\n').filter(Boolean);
+  }
+
+  /**
+   * Run git; `allowDiffExit` treats exit code 1 (differences found, from --no-index) as success
+   */
+  private async git(cwd: string, args: string[], allowDiffExit = false): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: MAX_DIFF_BYTES });
+      return stdout;
+    } catch (error) {
+      const failure = error as { code?: number; stdout?: string };
+      if (allowDiffExit && failure.code === 1 && typeof failure.stdout === 'string') {
+        return failure.stdout;
+      }
+      throw error;
+    }
+  }
+
+  private applyPatch(cwd: string, patch: string, args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', args, { cwd, stdio: ['pipe', 'ignore', 'pipe'] });
+      let stderr = '';
+      child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+      child.on('error', reject);
+      child.on('close', (code) => {
+        if (code === 0) resolve();
+        else reject(new Error(stderr.trim().split('\n')[0] || `git apply exited with ${code}`));
+      });
+      child.stdin.end(patch);
+    });
+  }
+}
+
+// ============================================
+// Diff Parsing
+// ============================================
+
+/**
+ * Split a unified diff into hunks, each carrying its file header
+ */
+export function parseDiff(diff: string): { hunks: DiffHunk[]; binaryFiles: string[] } {
+  const hunks: DiffHunk[] = [];
+  const binaryFiles: string[] = [];
+
+  // Each file section starts with "diff --git"
+  const sections = diff.split(/^(?=diff --git )/m).filter(s => s.startsWith('diff --git '));
+
+  for (const section of sections) {
+    const lines = section.replace(/\n$/, '').split('\n');
+    const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+    const headerLines = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+    const file = parseFileName(headerLines);
+
+    if (firstHunk === -1) {
+      if (headerLines.some(line => line.startsWith('Binary files') || line.startsWith('GIT binary patch'))) {
+        binaryFiles.push(file);
+      }
+      continue; // Mode-only changes and binaries have no hunks
+    }
+
+    const header = headerLines.join('\n');
+    const newFile = headerLines.some(line => line.startsWith('new file mode') || line === '--- /dev/null');
+
+    let current: string[] = [];
+    const flush = () => {
+      if (current.length === 0) return;
+      const body = current.join('\n');
+      hunks.push({
+        index: hunks.length,
+        file,
+        header,
+        body,
+        added: current.filter(l => l.startsWith('+')).length,
+        removed: current.filter(l => l.startsWith('-')).length,
+        newFile,
+        status: 'pending',
+      });
+      current = [];
+    };
+
+    for (const line of lines.slice(firstHunk)) {
+      if (line.startsWith('@@')) flush();
+      current.push(line);
+    }
+    flush();
+  }
+
+  return { hunks, binaryFiles };
+}
+
+function parseFileName(headerLines: string[]): string {
+  const plus = headerLines.find(line => line.startsWith('+++ '));
+  if (plus && plus !== '+++ /dev/null') {
+    return plus.slice(4).replace(/^b\//, '');
+  }
+  const minus = headerLines.find(line => line.startsWith('--- '));
+  if (minus && minus !== '--- /dev/null') {
+    return minus.slice(4).replace(/^a\//, '');
+  }
+  const match = headerLines[0]?.match(/^diff --git a\/(.+) b\/(.+)$/);
+  return match?.[2] ?? 'unknown';
+}
+
+// ============================================
+// Global Singleton
+// ============================================
+
+let globalDiffReviewManager: DiffReviewManager | null = null;
+
+export function getDiffReviewManager(): DiffReviewManager {
+  if (!globalDiffReviewManager) {
+    globalDiffReviewManager = new DiffReviewManager();
+  }
+  return globalDiffReviewManager;
+}
+
+export function resetDiffReviewManager(): void {
+  globalDiffReviewManager = null;
+}
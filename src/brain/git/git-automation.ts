@@ -17,6 +17,14 @@ import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { getBrain } from '../brain-manager.js';
 import { getMemoryStore } from '../memory/memory-store.js';
+import { getTestWatcher } from '../tests/test-watcher.js';
+import {
+  compareCoverage,
+  computeChangedLineCoverage,
+  formatCoverageDrop,
+  formatLineRanges,
+  getChangedLines,
+} from '../tests/coverage.js';
 import type { SmartCommitOptions, PRDraft, FileChange } from '../types.js';
 
 const execAsync = promisify(exec);
@@ -234,7 +242,11 @@ export class GitAutomation {
 
     // Generate title and body
     const title = this.generatePRTitle(commits, changes);
-    const body = this.generatePRBody(commits, changes);
+    const body = this.generatePRBody(
+      commits,
+      changes,
+      await this.generateCoverageSection(projectPath, targetBase, branch),
+    );
 
     return {
       title,
@@ -406,6 +418,7 @@ export class GitAutomation {
   private generatePRBody(
     commits: string[],
     changes: FileChange[],
+    coverage: string[] = [],
   ): string {
     const lines: string[] = [
       '## Summary',
@@ -438,9 +451,70 @@ export class GitAutomation {
     }
     lines.push('');
 
+    lines.push(...coverage);
+
     return lines.join('\n');
   }
 
+  /**
+   * Coverage section for a PR: how much of the lines the branch changes the
+   * latest full watched run covered, and drops since the run on the commit
+   * the branch started from. Empty without coverage history.
+   */
+  private async generateCoverageSection(
+    projectPath: string,
+    baseBranch: string,
+    branch: string,
+  ): Promise<string[]> {
+    try {
+      const snapshots = await getTestWatcher().getCoverageHistory(projectPath, 50, { full: true });
+      const latest = snapshots[0];
+      if (!latest?.files) return [];
+
+      const range = `${baseBranch}...${branch}`;
+      const changed = computeChangedLineCoverage(latest.files, await getChangedLines(projectPath, range), range);
+      const { stdout } = await execAsync(`git merge-base ${baseBranch} ${branch}`, { cwd: projectPath });
+      const baseline = snapshots.find(snapshot => snapshot.commit === stdout.trim());
+
+      const delta = baseline && baseline !== latest ? Math.round((latest.lines - baseline.lines) * 100) / 100 : undefined;
+      const lines: string[] = [
+        '## Coverage',
+        '',
+        `Lines: ${latest.lines}%${delta !== undefined ? ` (${delta >= 0 ? '+' : ''}${delta} vs. ${baseBranch})` : ''}, ` +
+          `functions: ${latest.functions}%, branches: ${latest.branches}%`,
+      ];
+
+      if (changed.total > 0) {
+        lines.push(`Changed lines covered: ${changed.covered}/${changed.total} (${changed.pct}%)`);
+        const uncovered = changed.files.filter(file => file.uncoveredLines.length > 0);
+        if (uncovered.length > 0) {
+          lines.push('');
+          lines.push('Changed lines without coverage:');
+          for (const file of uncovered.slice(0, 20)) {
+            lines.push(`- \`${file.file}\`: ${formatLineRanges(file.uncoveredLines)}`);
+          }
+        }
+      }
+
+      const drops = baseline && baseline !== latest ? compareCoverage(baseline, latest) : [];
+      if (drops.length > 0) {
+        lines.push('');
+        lines.push(`Coverage drops vs. ${baseBranch}:`);
+        for (const drop of drops) {
+          lines.push(`- ${formatCoverageDrop(drop)}`);
+        }
+      }
+
+      lines.push('');
+      lines.push(`_From the watched test run at ${latest.commit?.substring(0, 7) ?? 'an unknown commit'}_`);
+      lines.push('');
+      return lines;
+    } catch (error) {
+      console.warn('[GitAutomation] Could not add coverage to the PR description:', error);
+      return [];
+    }
+  }
+
   /**
    * Get commit history
    */
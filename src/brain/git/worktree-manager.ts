@@ -0,0 +1,542 @@
+/**
+ * Worktree Manager - Isolate Claude runs in throwaway git worktrees
+ *
+ * Instead of editing the project's working tree in place, a run gets its own
+ * `git worktree` on a fresh branch. When the run finishes the changes are
+ * committed on that branch and the user decides what to do with them:
+ * - Merge the branch into the branch the run started from
+ * - Cherry-pick its commits
+ * - Push it and open a PR
+ * - Discard it
+ *
+ * Worktrees live under brain/worktrees and are tracked in a small registry so
+ * RecoveryManager can garbage-collect the ones left behind by crashes. Nothing
+ * committed is lost on the way: interrupted runs are committed and kept for
+ * review, and branches with unmerged commits survive their worktree.
+ */
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { readFile, writeFile, rm } from 'node:fs/promises';
+import { existsSync, mkdirSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { getEventBus } from '../events/event-bus.js';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================
+// Configuration
+// ============================================
+
+const WORKTREES_DIR = join(process.cwd(), 'brain', 'worktrees');
+const REGISTRY_FILE = join(WORKTREES_DIR, 'registry.json');
+const BRANCH_PREFIX = 'claude';
+const STALE_AFTER_MS = 7 * 24 * 60 * 60 * 1000; // Unreviewed worktrees are kept for a week
+const EXPIRY_NOTICE_MS = 24 * 60 * 60 * 1000; // ...and removed no sooner than a day after the chat is told
+// Stored next to ownerPid, so a PID reused after a restart isn't taken for the owner
+const PROCESS_STARTED_AT = Math.round(Date.now() - process.uptime() * 1000);
+const FALLBACK_IDENTITY = ['-c', 'user.name=Claude Bridge', '-c', 'user.email=claude-bridge@localhost'];
+
+// ============================================
+// Types
+// ============================================
+
+export type WorktreeStatus = 'active' | 'ready';
+
+export type WorktreeAction = 'merge' | 'cherry-pick' | 'pr' | 'discard';
+
+export interface ClaudeWorktree {
+  id: string;
+  projectName: string;
+  repoPath: string; // The project's main working tree
+  path: string; // The isolated worktree Claude runs in
+  branch: string;
+  baseBranch: string;
+  baseCommit: string;
+  label: string;
+  status: WorktreeStatus; // active = Claude is running, ready = awaiting a decision
+  chatId?: number; // Chat to tell before the worktree is removed
+  ownerPid: number;
+  ownerStartedAt?: number; // Start time of the owning process
+  createdAt: number;
+  finishedAt?: number;
+  expiryNoticeAt?: number; // When the chat was told the worktree is about to be removed
+}
+
+export interface WorktreeChanges {
+  commits: string[]; // One-line commit summaries on the run branch
+  files: string[];
+  diffStat: string;
+}
+
+export interface WorktreeActionResult {
+  success: boolean;
+  message: string;
+  url?: string;
+}
+
+// ============================================
+// Worktree Manager Class
+// ============================================
+
+export class WorktreeManager {
+  private worktrees = new Map<string, ClaudeWorktree>();
+  private loaded = false;
+
+  constructor() {
+    this.ensureDirectory();
+  }
+
+  /**
+   * Whether a path is inside a git working tree
+   */
+  async isGitRepo(path: string): Promise<boolean> {
+    try {
+      const out = await this.git(path, ['rev-parse', '--is-inside-work-tree']);
+      return out.trim() === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Create an isolated worktree on a fresh branch from the project's HEAD
+   */
+  async create(repoPath: string, projectName: string, label = 'run', chatId?: number): Promise<ClaudeWorktree> {
+    await this.load();
+
+    const baseCommit = (await this.git(repoPath, ['rev-parse', 'HEAD'])).trim();
+    const baseBranch = (await this.git(repoPath, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+
+    const id = this.generateId();
+    const branch = `${BRANCH_PREFIX}/${this.slugify(label)}-${id}`;
+    const path = join(WORKTREES_DIR, `${this.slugify(projectName)}-${id}`);
+
+    await this.git(repoPath, ['worktree', 'add', '-b', branch, path, baseCommit]);
+
+    const worktree: ClaudeWorktree = {
+      id,
+      projectName,
+      repoPath,
+      path,
+      branch,
+      baseBranch,
+      baseCommit,
+      label,
+      status: 'active',
+      chatId,
+      ownerPid: process.pid,
+      ownerStartedAt: PROCESS_STARTED_AT,
+      createdAt: Date.now(),
+    };
+
+    this.worktrees.set(id, worktree);
+    await this.save();
+
+    console.log(`[WorktreeManager] Created ${branch} at ${path}`);
+    return worktree;
+  }
+
+  /**
+   * Finish a run: commit whatever Claude left in the worktree and summarize the branch.
+   * Worktrees without changes are discarded straight away.
+   */
+  async finish(id: string, commitMessage?: string): Promise<WorktreeChanges | null> {
+    await this.load();
+    const worktree = this.worktrees.get(id);
+    if (!worktree) return null;
+
+    const pending = await this.git(worktree.path, ['status', '--porcelain']);
+    if (pending.trim()) {
+      const identity = await this.identityArgs(worktree.path);
+      await this.git(worktree.path, ['add', '-A']);
+      await this.git(worktree.path, [...identity, 'commit', '--no-verify', '-m', commitMessage ?? `Claude: ${worktree.label}`]);
+    }
+
+    const changes = await this.getChanges(id);
+    if (!changes || changes.commits.length === 0) {
+      await this.discard(id);
+      return changes;
+    }
+
+    worktree.status = 'ready';
+    worktree.finishedAt = Date.now();
+    await this.save();
+
+    return changes;
+  }
+
+  /**
+   * Summarize the commits and files on a worktree's branch
+   */
+  async getChanges(id: string): Promise<WorktreeChanges | null> {
+    await this.load();
+    const worktree = this.worktrees.get(id);
+    if (!worktree) return null;
+
+    const range = `${worktree.baseCommit}..${worktree.branch}`;
+    const log = await this.git(worktree.repoPath, ['log', '--oneline', range]);
+    const files = await this.git(worktree.repoPath, ['diff', '--name-only', range]);
+    const diffStat = await this.git(worktree.repoPath, ['diff', '--stat', range]);
+
+    return {
+      commits: log.trim().split('\n').filter(Boolean),
+      files: files.trim().split('\n').filter(Boolean),
+      diffStat: diffStat.trim(),
+    };
+  }
+
+  /**
+   * Full diff of a worktree's branch against its base
+   */
+  async getDiff(id: string): Promise<string | null> {
+    await this.load();
+    const worktree = this.worktrees.get(id);
+    if (!worktree) return null;
+
+    return this.git(worktree.repoPath, ['diff', `${worktree.baseCommit}..${worktree.branch}`]);
+  }
+
+  /**
+   * Apply a post-run action to a worktree
+   */
+  async apply(id: string, action: WorktreeAction): Promise<WorktreeActionResult> {
+    switch (action) {
+      case 'merge':
+        return this.merge(id);
+      case 'cherry-pick':
+        return this.cherryPick(id);
+      case 'pr':
+        return this.openPR(id);
+      case 'discard':
+        return (await this.discard(id))
+          ? { success: true, message: 'Worktree discarded.' }
+          : { success: false, message: `Worktree not found: ${id}` };
+    }
+  }
+
+  /**
+   * Merge the run branch into the branch the run started from
+   */
+  async merge(id: string): Promise<WorktreeActionResult> {
+    await this.load();
+    const worktree = this.worktrees.get(id);
+    if (!worktree) return { success: false, message: `Worktree not found: ${id}` };
+
+    const branchError = await this.checkBaseBranch(worktree);
+    if (branchError) return { success: false, message: branchError };
+
+    try {
+      const identity = await this.identityArgs(worktree.repoPath);
+      await this.git(worktree.repoPath, [...identity, 'merge', '--no-ff', '--no-edit', worktree.branch]);
+    } catch (error) {
+      await this.git(worktree.repoPath, ['merge', '--abort']).catch(() => undefined);
+      return { success: false, message: `Merge failed: ${this.errorMessage(error)}` };
+    }
+
+    await this.discard(id);
+    return { success: true, message: `Merged ${worktree.branch} into ${worktree.baseBranch}.` };
+  }
+
+  /**
+   * Cherry-pick the run's commits onto the branch the run started from
+   */
+  async cherryPick(id: string): Promise<WorktreeActionResult> {
+    await this.load();
+    const worktree = this.worktrees.get(id);
+    if (!worktree) return { success: false, message: `Worktree not found: ${id}` };
+
+    const branchError = await this.checkBaseBranch(worktree);
+    if (branchError) return { success: false, message: branchError };
+
+    try {
+      const identity = await this.identityArgs(worktree.repoPath);
+      await this.git(worktree.repoPath, [...identity, 'cherry-pick', `${worktree.baseCommit}..${worktree.branch}`]);
+    } catch (error) {
+      await this.git(worktree.repoPath, ['cherry-pick', '--abort']).catch(() => undefined);
+      return { success: false, message: `Cherry-pick failed: ${this.errorMessage(error)}` };
+    }
+
+    await this.discard(id);
+    return { success: true, message: `Cherry-picked ${worktree.branch} onto ${worktree.baseBranch}.` };
+  }
+
+
+  /**
+   * Push the run branch and open a PR against the base branch.
+   * The branch is kept (the PR needs it); only the worktree directory is removed.
+   */
+  async openPR(id: string): Promise<WorktreeActionResult> {
+    await this.load();
+    const worktree = this.worktrees.get(id);
+    if (!worktree) return { success: false, message: `Worktree not found: ${id}` };
+
+    try {
+      await this.git(worktree.path, ['push', '-u', 'origin', worktree.branch]);
+    } catch (error) {
+      return { success: false, message: `Push failed: ${this.errorMessage(error)}` };
+    }
+
+    const { getGitAutomation } = await import('./git-automation.js');
+    const pr = await getGitAutomation().createPR(worktree.path, worktree.branch, worktree.baseBranch);
+
+    await this.remove(worktree, false);
+
+    if (!pr.success) {
+      return {
+        success: false,
+        message: `Pushed ${worktree.branch}, but creating the PR failed: ${pr.error ?? 'unknown error'}`,
+      };
+    }
+
+    return { success: true, message: `Opened a PR for ${worktree.branch}.`, url: pr.url };
+  }
+
+  /**
+   * Remove a worktree and delete its branch
+   */
+  async discard(id: string): Promise<boolean> {
+    await this.load();
+    const worktree = this.worktrees.get(id);
+    if (!worktree) return false;
+
+    await this.remove(worktree, true);
+    return true;
+  }
+
+  /**
+   * Get a worktree by id
+   */
+  async get(id: string): Promise<ClaudeWorktree | undefined> {
+    await this.load();
+    return this.worktrees.get(id);
+  }
+
+  /**
+   * List worktrees, optionally for one project, newest first
+   */
+  async list(projectName?: string): Promise<ClaudeWorktree[]> {
+    await this.load();
+    return Array.from(this.worktrees.values())
+      .filter(w => !projectName || w.projectName === projectName)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Clean up after interrupted and abandoned runs, and directories the registry no longer knows.
+   * - Runs interrupted by a previous process are committed and kept for review
+   * - Worktrees unreviewed for longer than maxAgeMs are announced to their chat, then
+   *   removed a day later; their branch is kept if it has commits the base branch lacks
+   * Returns the number of worktrees removed.
+   */
+  async collectGarbage(maxAgeMs = STALE_AFTER_MS): Promise<number> {
+    await this.load();
+    let removed = 0;
+
+    for (const worktree of Array.from(this.worktrees.values())) {
+      if (worktree.status === 'active') {
+        if (this.isOwnedByThisProcess(worktree)) continue;
+        removed += await this.recoverInterrupted(worktree);
+        continue;
+      }
+
+      if (Date.now() - (worktree.finishedAt ?? worktree.createdAt) <= maxAgeMs) continue;
+
+      if (worktree.chatId !== undefined) {
+        if (worktree.expiryNoticeAt === undefined) {
+          await this.announceExpiry(worktree);
+          continue;
+        }
+        if (Date.now() - worktree.expiryNoticeAt < EXPIRY_NOTICE_MS) continue;
+      }
+
+      await this.remove(worktree, !(await this.hasUnmergedCommits(worktree)));
+      removed++;
+    }
+
+    // Orphaned directories (registry lost or never written)
+    const known = new Set(Array.from(this.worktrees.values()).map(w => w.path));
+    for (const entry of readdirSync(WORKTREES_DIR, { withFileTypes: true })) {
+      const path = join(WORKTREES_DIR, entry.name);
+      if (entry.isDirectory() && !known.has(path)) {
+        await rm(path, { recursive: true, force: true }).catch(() => undefined);
+        removed++;
+      }
+    }
+
+    // Let git forget worktrees whose directories are gone
+    const repos = new Set(Array.from(this.worktrees.values()).map(w => w.repoPath));
+    for (const repoPath of repos) {
+      await this.git(repoPath, ['worktree', 'prune']).catch(() => undefined);
+    }
+
+    if (removed > 0) {
+      console.log(`[WorktreeManager] Removed ${removed} stale worktree(s)`);
+    }
+
+    return removed;
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * Whether this process created the worktree (PID alone can be reused after a restart)
+   */
+  private isOwnedByThisProcess(worktree: ClaudeWorktree): boolean {
+    return worktree.ownerPid === process.pid && worktree.ownerStartedAt === PROCESS_STARTED_AT;
+  }
+
+  /**
+   * Commit what an interrupted run left behind and keep it for review
+   * @returns 1 if the worktree was removed (nothing to keep), otherwise 0
+   */
+  private async recoverInterrupted(worktree: ClaudeWorktree): Promise<number> {
+    try {
+      await this.finish(worktree.id, `Claude: ${worktree.label} (interrupted)`);
+      return this.worktrees.has(worktree.id) ? 0 : 1;
+    } catch (error) {
+      // The directory is unusable; keep whatever made it onto the branch
+      console.error(`[WorktreeManager] Failed to commit interrupted ${worktree.branch}:`, this.errorMessage(error));
+      await this.remove(worktree, !(await this.hasUnmergedCommits(worktree)));
+      return 1;
+    }
+  }
+
+  /**
+   * Tell a worktree's chat it will be removed, starting the notice period
+   */
+  private async announceExpiry(worktree: ClaudeWorktree): Promise<void> {
+    worktree.expiryNoticeAt = Date.now();
+    await this.save();
+
+    await getEventBus().publish('worktree.expiring', {
+      projectPath: worktree.repoPath,
+      chatId: worktree.chatId!,
+      worktreeId: worktree.id,
+      branch: worktree.branch,
+      keepsBranch: await this.hasUnmergedCommits(worktree),
+      removeAt: worktree.expiryNoticeAt + EXPIRY_NOTICE_MS,
+    });
+  }
+
+  /**
+   * Whether the run branch has commits its base branch doesn't (errs on the side of keeping it)
+   */
+  private async hasUnmergedCommits(worktree: ClaudeWorktree): Promise<boolean> {
+    if (!existsSync(worktree.repoPath)) return false;
+
+    for (const base of [worktree.baseBranch, worktree.baseCommit]) {
+      try {
+        const count = await this.git(worktree.repoPath, ['rev-list', '--count', `${base}..${worktree.branch}`]);
+        return Number.parseInt(count.trim(), 10) > 0;
+      } catch {
+        // Base branch renamed or deleted; fall back to the commit the run started from
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Refuse to bring a run's commits in when the project has moved to another branch
+   * @returns Why the project is not on the run's base branch, or null if it is
+   */
+  private async checkBaseBranch(worktree: ClaudeWorktree): Promise<string | null> {
+    const current = (await this.git(worktree.repoPath, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+    if (current === worktree.baseBranch) return null;
+
+    return `The project is on ${current}, but this run started from ${worktree.baseBranch}. ` +
+      `Check out ${worktree.baseBranch} and try again.`;
+  }
+
+  /**
+   * Remove a worktree directory, optionally delete its branch, and forget it
+   */
+  private async remove(worktree: ClaudeWorktree, deleteBranch: boolean): Promise<void> {
+    if (existsSync(worktree.repoPath)) {
+      await this.git(worktree.repoPath, ['worktree', 'remove', '--force', worktree.path]).catch(() => undefined);
+      await this.git(worktree.repoPath, ['worktree', 'prune']).catch(() => undefined);
+      if (deleteBranch) {
+        await this.git(worktree.repoPath, ['branch', '-D', worktree.branch]).catch(() => undefined);
+      }
+    }
+    await rm(worktree.path, { recursive: true, force: true }).catch(() => undefined);
+
+    this.worktrees.delete(worktree.id);
+    await this.save();
+  }
+
+  /**
+   * Extra git args supplying a bot identity when the repo has none configured
+   */
+  private async identityArgs(cwd: string): Promise<string[]> {
+    const configured = await this.git(cwd, ['config', 'user.email']).then(out => !!out.trim(), () => false);
+    return configured ? [] : FALLBACK_IDENTITY;
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 });
+    return stdout;
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!existsSync(REGISTRY_FILE)) return;
+
+    try {
+      const entries = JSON.parse(await readFile(REGISTRY_FILE, 'utf-8')) as ClaudeWorktree[];
+      for (const entry of entries) {
+        this.worktrees.set(entry.id, entry);
+      }
+    } catch (error) {
+      console.error('[WorktreeManager] Failed to load registry:', error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await writeFile(REGISTRY_FILE, JSON.stringify(Array.from(this.worktrees.values()), null, 2), 'utf-8');
+    } catch (error) {
+      console.error('[WorktreeManager] Failed to save registry:', error);
+    }
+  }
+
+  private ensureDirectory(): void {
+    if (!existsSync(WORKTREES_DIR)) {
+      mkdirSync(WORKTREES_DIR, { recursive: true });
+    }
+  }
+
+  private slugify(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 30) || 'run';
+  }
+
+  private generateId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  }
+
+  private errorMessage(error: unknown): string {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    return stderr || (error instanceof Error ? error.message : String(error));
+  }
+}
+
+// ============================================
+// Global Singleton
+// ============================================
+
+let globalWorktreeManager: WorktreeManager | null = null;
+
+export function getWorktreeManager(): WorktreeManager {
+  if (!globalWorktreeManager) {
+    globalWorktreeManager = new WorktreeManager();
+  }
+  return globalWorktreeManager;
+}
+
+export function resetWorktreeManager(): void {
+  globalWorktreeManager = null;
+}
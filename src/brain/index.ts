@@ -42,15 +42,44 @@ export type { SetupStep, SetupState } from './setup-wizard.js';
 // Memory Store
 export { MemoryStore, getMemoryStore } from './memory/memory-store.js';
 
+// Memory Consolidation
+export { MemoryConsolidator, getMemoryConsolidator, resetMemoryConsolidator, MEMORY_KINDS } from './memory/memory-consolidator.js';
+export type { ConsolidatedMemory, MemoryKind, MemorySummarizer, SummaryRequest, ConsolidationReport } from './memory/memory-consolidator.js';
+
 // Vector Store
 export { VectorStore, getVectorStore, resetVectorStore, EmbeddingGenerator } from './memory/vector-store.js';
+export type { VectorFilter, VectorBenchmark } from './memory/vector-store.js';
+export { HnswIndex } from './memory/hnsw-index.js';
+export type { HnswOptions, HnswMatch, HnswStats } from './memory/hnsw-index.js';
+
+// Embedding Providers
+export { createEmbeddingProvider, HashEmbeddingProvider, LocalModelEmbeddingProvider, HttpEmbeddingProvider, HASH_MODEL_ID } from './memory/embedding-providers.js';
+export type { EmbeddingProvider, EmbeddingProviderConfig, EmbeddingProviderType } from './memory/embedding-providers.js';
+
+// Hybrid Retrieval
+export { RetrievalService, getRetrievalService, resetRetrievalService, RETRIEVAL_SOURCES, Bm25Index, tokenize } from './retrieval/index.js';
+export type { RetrievalSource, RetrievalDocument, RetrievalQuery, RetrievalResult, RetrievalExplanation, RetrievalStats, Bm25Match } from './retrieval/index.js';
+export { ContextBuilder, getContextBuilder, resetContextBuilder, estimateTokens } from './retrieval/index.js';
+export type { ContextSection, ContextItem, ContextRequest, InjectedContext } from './retrieval/index.js';
 
 // Context Indexer
 export { ContextIndexer, getContextIndexer } from './context/context-indexer.js';
-export type { FileIndex, ProjectFingerprint } from './context/context-indexer.js';
+export type { FileIndex, ProjectFingerprint, IndexUpdate } from './context/context-indexer.js';
+export { SymbolExtractor, getSymbolExtractor } from './context/symbol-extractor.js';
+export type { CodeSymbol, CallSite, SymbolKind, ExtractedSymbols, ImportBinding } from './context/symbol-extractor.js';
+export { ChangeDetector, getChangeDetector, resetChangeDetector } from './context/change-detector.js';
+export type { FileChangeEvent, FileChangeListener, GitRevision, GitChanges } from './context/change-detector.js';
+export { ReferenceGraph, buildProjectGraph } from './context/reference-graph.js';
+export type { ProjectGraph, SymbolDefinition, SymbolReference, ResolvedReference, ImpactedFile, DeadExport } from './context/reference-graph.js';
+
+// Event Bus
+export { EventBus, getEventBus, resetEventBus, describeEvent } from './events/event-bus.js';
+export type { BrainEvent, BrainEventMap, BrainEventType, BrainEventHandler, SubscribeOptions, EventQuery, TestFailureDetail } from './events/event-bus.js';
 
 // Task Queue
 export { TaskQueue, getTaskQueue } from './tasks/task-queue.js';
+export { parseCron, nextCronRun, nextCronRuns, cronRunsBetween, isValidTimeZone } from './tasks/cron.js';
+export type { CronSchedule } from './tasks/cron.js';
 
 // Agent Orchestrator
 export { AgentOrchestrator, getOrchestrator } from './agents/agent-orchestrator.js';
@@ -62,6 +91,18 @@ export type { DocGenerationOptions, CodeFile, DocumentationTemplate, DocSection,
 // Git Automation
 export { GitAutomation, getGitAutomation } from './git/git-automation.js';
 
+// Usage & Budgets
+export { UsageTracker, getUsageTracker, resetUsageTracker, estimateCostUsd, formatUsd } from './usage/index.js';
+export type { UsageSource, BudgetMode, RunUsage, ChatBudget, BudgetCheck } from './usage/index.js';
+
+// Worktree Isolation
+export { WorktreeManager, getWorktreeManager, resetWorktreeManager } from './git/worktree-manager.js';
+export type { ClaudeWorktree, WorktreeAction, WorktreeActionResult, WorktreeChanges, WorktreeStatus } from './git/worktree-manager.js';
+
+// Diff Review
+export { DiffReviewManager, getDiffReviewManager, resetDiffReviewManager, parseDiff } from './git/diff-review.js';
+export type { DiffHunk, DiffReview, HunkActionResult, HunkStatus, ReviewBaseline } from './git/diff-review.js';
+
 // CI/CD Monitor
 export { CIMonitor, getCIMonitor } from './cicd/index.js';
 export type { CIProvider, BuildStatus, CIBuild, CIConfig, CIProject } from './cicd/index.js';
@@ -76,6 +117,14 @@ export { startScheduledJobs, loadSelfReviewContext, getSelfReviewStatus } from '
 // Test Watcher
 export { TestWatcher, getTestWatcher, resetTestWatcher } from './tests/test-watcher.js';
 export type { TestResult, CoverageData, WatchSession } from './tests/test-watcher.js';
+export { parseTestReport, detectTestReport, parseTestSummary, parseJUnitXml, parseTap, parseJestJson, parseGoTestJson, parseCargoTestOutput, mergeTestReports } from './tests/test-report-parser.js';
+export type { TestCase, TestCaseStatus, TestReport, TestReportFormat, TestSummary } from './tests/test-report-parser.js';
+export { registerTestRunner, getTestRunners, getTestRunner, detectTestRunner, planTestRun, loadTestConfig } from './tests/test-runners.js';
+export type { TestRunner, TestRunPlan, TestConfig, PlanOptions } from './tests/test-runners.js';
+export { parseCoverageReport, detectCoverageFormat, readCoverageReport, parseIstanbulJson, parseLcov, parseCoberturaXml, parseGoCoverProfile, mergeCoverageReports, getChangedLines, computeChangedLineCoverage, compareCoverage, formatCoverageDrop, formatLineRanges } from './tests/coverage.js';
+export type { CoverageFormat, CoverageMetric, CoverageMetricName, CoverageReport, CoverageTotals, CoveragePercentages, FileCoverage, LineRange, ChangedFileCoverage, ChangedLineCoverage, CoverageDrop } from './tests/coverage.js';
+export { FlakinessTracker, getFlakinessTracker, resetFlakinessTracker } from './tests/flakiness-tracker.js';
+export type { TestOutcome, TestHistory, FlakyTest } from './tests/flakiness-tracker.js';
 
 // Notification Router
 export { NotificationRouter, getNotificationRouter, resetNotificationRouter } from './notifications/notification-router.js';
@@ -118,7 +167,9 @@ export type { TestFailure, HealingAttempt, HealingOutcome, HealingStrategy, Fail
 
 // Dependency Management
 export { DependencyManager, getDependencyManager, resetDependencyManager } from './dependency/dependency-manager.js';
-export type { Dependency, DependencyUpdate, Vulnerability, DependencyHealth, UpdatePolicy, UpdateType, DependencySource, VulnerabilitySeverity } from './dependency/dependency-manager.js';
+export type { Dependency, DependencyUpdate, Vulnerability, DependencyHealth, UpdatePolicy, UpdateType, DependencySource, VulnerabilitySeverity, Ecosystem } from './dependency/dependency-manager.js';
+export { registerEcosystem, getEcosystemAdapters, getEcosystemAdapter, detectEcosystems } from './dependency/ecosystems.js';
+export type { EcosystemAdapter, UpdateTarget, OutdatedPackage, Advisory } from './dependency/ecosystems.js';
 
 // Refactoring Agent
 export { RefactoringAgent, getRefactoringAgent, resetRefactoringAgent } from './refactoring/refactoring-agent.js';
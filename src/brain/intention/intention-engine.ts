@@ -12,9 +12,13 @@
  * 3. Creates Intention with metadata
  * 4. Scores confidence
  * 5. Queues for Decision Maker evaluation
+ *
+ * Besides direct processTrigger() calls, started engines turn event bus
+ * events (build.broken, heal.failed, dependency.*) into triggers.
  */
 
 import { getMemoryStore } from '../memory/memory-store.js';
+import { getEventBus, type BrainEvent, type BrainEventType } from '../events/event-bus.js';
 
 // ===========================================
 // Types
@@ -142,6 +146,107 @@ const INTENTION_CONFIG = {
 export class IntentionEngine {
   private memory = getMemoryStore();
   private intentions = new Map<string, Intention>();
+  private unsubscribe?: () => void;
+
+  /**
+   * Start turning bus events into intentions
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = getEventBus().subscribe(
+      ['build.broken', 'heal.failed', 'dependency.outdated', 'dependency.vulnerable'],
+      (event) => this.handleEvent(event),
+      { durable: 'intention-engine' }
+    );
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * Map a bus event to the triggers it implies
+   */
+  private async handleEvent(event: BrainEvent<BrainEventType>): Promise<void> {
+    const triggers: Trigger[] = [];
+
+    switch (event.type) {
+      case 'build.broken': {
+        const build = (event as BrainEvent<'build.broken'>).payload;
+        const chatId = build.chatId ?? await this.getChatIdForProject(build.projectPath);
+        if (chatId === null) return;
+        triggers.push({
+          type: 'build_broken',
+          projectPath: build.projectPath,
+          chatId,
+          data: { error: `${build.workflow ?? build.provider} failed on ${build.branch} (${build.commit}: ${build.message})`, url: build.url },
+          timestamp: event.timestamp,
+        });
+        break;
+      }
+
+      case 'heal.failed': {
+        const failure = (event as BrainEvent<'heal.failed'>).payload;
+        triggers.push({
+          type: 'test_failure',
+          projectPath: failure.projectPath,
+          chatId: failure.chatId,
+          data: {
+            testFile: failure.testFile,
+            testName: failure.testName,
+            error: failure.error,
+            strategy: failure.strategy,
+            failCount: failure.attempts,
+          },
+          timestamp: event.timestamp,
+        });
+        break;
+      }
+
+      case 'dependency.outdated': {
+        const { projectPath, chatId, updates } = (event as BrainEvent<'dependency.outdated'>).payload;
+        for (const update of updates) {
+          triggers.push({
+            type: 'dependency_outdated',
+            projectPath,
+            chatId,
+            data: { package: update.name, ecosystem: update.ecosystem, current: update.current, latest: update.latest, type: update.dev ? 'dev' : 'prod' },
+            timestamp: event.timestamp,
+          });
+        }
+        break;
+      }
+
+      case 'dependency.vulnerable': {
+        const { projectPath, chatId, vulnerabilities } = (event as BrainEvent<'dependency.vulnerable'>).payload;
+        for (const vulnerability of vulnerabilities) {
+          triggers.push({
+            type: 'dependency_vulnerable',
+            projectPath,
+            chatId,
+            data: { package: vulnerability.name, ecosystem: vulnerability.ecosystem, vulnerability: vulnerability.title, severity: vulnerability.severity },
+            timestamp: event.timestamp,
+          });
+        }
+        break;
+      }
+    }
+
+    for (const trigger of triggers) {
+      await this.processTrigger(trigger);
+    }
+  }
+
+  private async getChatIdForProject(projectPath: string): Promise<number | null> {
+    try {
+      const chatId = await this.memory.getFact(`project:${projectPath}:chatId`) as number | undefined;
+      return chatId ?? null;
+    } catch {
+      return null;
+    }
+  }
 
   /**
    * Process a trigger and create intentions
@@ -375,8 +480,9 @@ export class IntentionEngine {
    */
   private async handleOutdatedDependency(trigger: Trigger): Promise<string[]> {
     const ids: string[] = [];
-    const { package: pkg, current, latest, type } = trigger.data as {
+    const { package: pkg, ecosystem, current, latest, type } = trigger.data as {
       package?: string;
+      ecosystem?: string;
       current?: string;
       latest?: string;
       type?: 'dev' | 'prod';
@@ -391,7 +497,7 @@ export class IntentionEngine {
       title: `Update dependency: ${pkg}`,
       description: `Update ${pkg} from ${current || 'unknown'} to ${latest || 'latest'}`,
       reasoning: 'Keeping dependencies updated ensures security and performance improvements',
-      suggestedAction: `Update ${pkg} to version ${latest || 'latest'} and run tests`,
+      suggestedAction: `Update ${pkg} to version ${latest || 'latest'}${ecosystem ? ` with ${ecosystem}` : ''} and run tests`,
       confidence: 0.6,
       projectPath: trigger.projectPath,
       chatId: trigger.chatId,
@@ -416,8 +522,9 @@ export class IntentionEngine {
    */
   private async handleVulnerableDependency(trigger: Trigger): Promise<string[]> {
     const ids: string[] = [];
-    const { package: pkg, vulnerability, severity } = trigger.data as {
+    const { package: pkg, ecosystem, vulnerability, severity } = trigger.data as {
       package?: string;
+      ecosystem?: string;
       vulnerability?: string;
       severity?: 'low' | 'moderate' | 'high' | 'critical';
     };
@@ -431,7 +538,7 @@ export class IntentionEngine {
       title: `Fix security vulnerability in ${pkg}`,
       description: `Vulnerability detected${vulnerability ? `: ${vulnerability}` : ''}`,
       reasoning: 'Security vulnerabilities should be addressed immediately',
-      suggestedAction: `Update ${pkg} to a secure version`,
+      suggestedAction: `Update ${pkg} to a secure version${ecosystem ? ` with ${ecosystem}` : ''}`,
       confidence: 0.9,
       projectPath: trigger.projectPath,
       chatId: trigger.chatId,
@@ -813,5 +920,6 @@ export function getIntentionEngine(): IntentionEngine {
 }
 
 export function resetIntentionEngine(): void {
+  globalIntentionEngine?.stop();
   globalIntentionEngine = null;
 }
@@ -0,0 +1,263 @@
+/**
+ * Embedding Providers - Pluggable text embedding backends for VectorStore
+ *
+ * - hash: Hashed character trigrams. No dependencies and instant, but only
+ *   captures spelling similarity (the original scheme)
+ * - local: A sentence-transformer model run on the CPU through
+ *   @huggingface/transformers (ONNX). Install the package to enable it; the
+ *   model is downloaded on first use and cached
+ * - http: Any OpenAI-compatible /embeddings endpoint (OpenAI, Ollama, LM Studio,
+ *   text-embeddings-inference, ...)
+ *
+ * Vectors from different providers/models are not comparable, so every stored
+ * record carries the provider's model id and VectorStore re-embeds on demand.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type EmbeddingProviderType = 'hash' | 'local' | 'http';
+
+export interface EmbeddingProvider {
+  /** Model id stored with each vector, e.g. "hash-trigram-384" */
+  readonly id: string;
+  /** Vector length (0 until known for providers that discover it) */
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderType;
+  model?: string;
+  url?: string; // http: endpoint, e.g. http://localhost:11434/v1/embeddings
+  apiKey?: string; // http: sent as a Bearer token
+}
+
+// ============================================
+// Hash Provider
+// ============================================
+
+/**
+ * Simple embedding generator using hashed character n-grams
+ * Kept as the zero-dependency fallback behind HashEmbeddingProvider.
+ */
+export class EmbeddingGenerator {
+  /**
+   * Generate an embedding from hashed character trigrams
+   */
+  generateEmbedding(text: string): number[] {
+    // Normalize text
+    const normalized = text.toLowerCase().replace(/[^\w\s]/g, ' ').trim();
+
+    // Create character n-gram based embedding (more robust than word-based)
+    const ngrams = this.extractNgrams(normalized, 3);
+
+    // Create fixed-size embedding (384 dimensions to match typical embedding models)
+    const dimensions = 384;
+    const embedding = new Array(dimensions).fill(0);
+
+    // Simple hash-based embedding
+    for (const ngram of ngrams) {
+      const hash = this.hashCode(ngram);
+      for (let i = 0; i < 8; i++) {
+        const idx = Math.abs((hash + i) % dimensions);
+        embedding[idx] += 1 / Math.sqrt(ngrams.length);
+      }
+    }
+
+    // Normalize the embedding
+    const norm = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
+    if (norm > 0) {
+      for (let i = 0; i < embedding.length; i++) {
+        embedding[i] /= norm;
+      }
+    }
+
+    return embedding;
+  }
+
+  /**
+   * Extract character n-grams from text
+   */
+  private extractNgrams(text: string, n: number): string[] {
+    const ngrams: string[] = [];
+    for (let i = 0; i <= text.length - n; i++) {
+      ngrams.push(text.slice(i, i + n));
+    }
+    return ngrams;
+  }
+
+  /**
+   * Simple hash function for n-grams
+   */
+  private hashCode(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      const char = str.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & hash;
+    }
+    return Math.abs(hash);
+  }
+}
+
+export const HASH_MODEL_ID = 'hash-trigram-384';
+
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly id = HASH_MODEL_ID;
+  readonly dimensions = 384;
+  private generator = new EmbeddingGenerator();
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.generator.generateEmbedding(text));
+  }
+}
+
+// ============================================
+// Local Model Provider
+// ============================================
+
+const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const LOCAL_PACKAGE = '@huggingface/transformers';
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+/**
+ * Runs a sentence-transformer model on the CPU (mean pooled, normalized)
+ */
+export class LocalModelEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private model: string;
+  private extractor: Promise<FeatureExtractor> | null = null;
+  private knownDimensions = 0;
+
+  constructor(model = DEFAULT_LOCAL_MODEL) {
+    this.model = model;
+    this.id = `local:${model}`;
+  }
+
+  get dimensions(): number {
+    return this.knownDimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const extractor = await this.loadExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    const vectors = output.tolist();
+    this.knownDimensions = vectors[0]?.length ?? this.knownDimensions;
+    return vectors;
+  }
+
+  private loadExtractor(): Promise<FeatureExtractor> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        let transformers: { pipeline: (task: string, model: string) => Promise<FeatureExtractor> };
+        try {
+          // Optional dependency, resolved at runtime only when this provider is used
+          const packageName: string = LOCAL_PACKAGE;
+          transformers = await import(packageName);
+        } catch {
+          throw new Error(`Local embeddings need the ${LOCAL_PACKAGE} package (npm install ${LOCAL_PACKAGE})`);
+        }
+
+        console.log(`[Embeddings] Loading local model ${this.model}...`);
+        return transformers.pipeline('feature-extraction', this.model);
+      })();
+
+      // Allow a retry after a failed load
+      this.extractor.catch(() => { this.extractor = null; });
+    }
+    return this.extractor;
+  }
+}
+
+// ============================================
+// HTTP Provider
+// ============================================
+
+const DEFAULT_HTTP_MODEL = 'text-embedding-3-small';
+const HTTP_TIMEOUT_MS = 30_000;
+const HTTP_BATCH_SIZE = 64;
+
+/**
+ * Calls an OpenAI-compatible embeddings endpoint
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private url: string;
+  private model: string;
+  private apiKey?: string;
+  private knownDimensions = 0;
+
+  constructor(url: string, model = DEFAULT_HTTP_MODEL, apiKey?: string) {
+    this.url = url;
+    this.model = model;
+    this.apiKey = apiKey;
+    this.id = `http:${model}`;
+  }
+
+  get dimensions(): number {
+    return this.knownDimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += HTTP_BATCH_SIZE) {
+      const batch = texts.slice(i, i + HTTP_BATCH_SIZE);
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, input: batch }),
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 200);
+        throw new Error(`Embedding request failed: ${response.status} ${response.statusText} ${detail}`.trim());
+      }
+
+      const body = await response.json() as { data?: Array<{ embedding: number[]; index?: number }> };
+      if (!Array.isArray(body.data) || body.data.length !== batch.length) {
+        throw new Error('Embedding response did not contain one vector per input');
+      }
+
+      const ordered = [...body.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      vectors.push(...ordered.map(item => item.embedding));
+    }
+
+    this.knownDimensions = vectors[0]?.length ?? this.knownDimensions;
+    return vectors;
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+/**
+ * Create the provider described by the bridge configuration
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'local':
+      return new LocalModelEmbeddingProvider(config.model);
+    case 'http':
+      if (!config.url) {
+        throw new Error('The http embedding provider needs EMBEDDING_URL');
+      }
+      return new HttpEmbeddingProvider(config.url, config.model, config.apiKey);
+    case 'hash':
+    default:
+      return new HashEmbeddingProvider();
+  }
+}
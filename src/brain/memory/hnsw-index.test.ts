@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HnswIndex, type HnswMatch } from './hnsw-index.js';
+
+const DIMENSIONS = 16;
+const COUNT = 600;
+const K = 10;
+
+/**
+ * Small deterministic PRNG (mulberry32) so vectors and layer levels repeat
+ */
+function seeded(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomVector(random: () => number): number[] {
+  return Array.from({ length: DIMENSIONS }, () => random() * 2 - 1);
+}
+
+function recall(approximate: HnswMatch[], exact: HnswMatch[]): number {
+  const expected = new Set(exact.map(match => match.label));
+  return approximate.filter(match => expected.has(match.label)).length / expected.size;
+}
+
+describe('HnswIndex', () => {
+  let index: HnswIndex;
+  let queries: number[][];
+
+  beforeEach(() => {
+    const random = seeded(42);
+    vi.spyOn(Math, 'random').mockImplementation(random);
+
+    index = new HnswIndex({ dimensions: DIMENSIONS, m: 8, efConstruction: 64, efSearch: 48 });
+    for (let label = 1; label <= COUNT; label++) {
+      index.add(label, randomVector(random));
+    }
+    queries = Array.from({ length: 25 }, () => randomVector(random));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('finds nearly the same neighbours as brute force', () => {
+    const scores = queries.map(query => recall(index.search(query, K), index.exactSearch(query, K)));
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+
+    expect(average).toBeGreaterThanOrEqual(0.95);
+    expect(Math.min(...scores)).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it('returns matches closest first with cosine distances', () => {
+    const [query] = queries;
+    const matches = index.search(query, K);
+
+    expect(matches).toHaveLength(K);
+    for (let i = 1; i < matches.length; i++) {
+      expect(matches[i].distance).toBeGreaterThanOrEqual(matches[i - 1].distance);
+    }
+    expect(index.search(index.getVector(7)!, 1)[0]).toMatchObject({ label: 7 });
+    expect(index.search(index.getVector(7)!, 1)[0].distance).toBeCloseTo(0, 5);
+  });
+
+  it('only returns labels the filter accepts', () => {
+    const accept = (label: number) => label % 3 === 0;
+    const accepted = index.labels().filter(accept);
+
+    for (const query of queries) {
+      const matches = index.search(query, K, accept);
+      expect(matches).toHaveLength(K);
+      expect(matches.every(match => accept(match.label))).toBe(true);
+      expect(recall(matches, index.exactSearch(query, K, accepted))).toBeGreaterThanOrEqual(0.8);
+    }
+  });
+
+  it('leaves removed labels out of results until they are added again', () => {
+    const [query] = queries;
+    const nearest = index.exactSearch(query, 3).map(match => match.label);
+    for (const label of nearest) index.remove(label);
+
+    const labels = index.search(query, K).map(match => match.label);
+    expect(labels.some(label => nearest.includes(label))).toBe(false);
+    expect(index.size).toBe(COUNT - 3);
+    expect(index.needsCompaction()).toBe(false);
+
+    index.add(nearest[0], query);
+    expect(index.search(query, 1)[0].label).toBe(nearest[0]);
+  });
+
+  it('returns identical results after a serialization round trip', () => {
+    index.remove(11);
+    index.remove(12);
+    const restored = HnswIndex.deserialize(index.serialize(), 48);
+
+    expect(restored.stats()).toEqual(index.stats());
+    expect(restored.labels().sort((a, b) => a - b)).toEqual(index.labels().sort((a, b) => a - b));
+    for (const query of queries) {
+      expect(restored.search(query, K)).toEqual(index.search(query, K));
+      expect(restored.search(query, K, label => label % 2 === 0)).toEqual(index.search(query, K, label => label % 2 === 0));
+    }
+  });
+
+  it('drops tombstones when compacted', () => {
+    for (let label = 1; label <= 100; label++) index.remove(label);
+    const compacted = index.compact();
+
+    expect(compacted.stats()).toMatchObject({ nodes: COUNT - 100, deleted: 0 });
+    for (const query of queries.slice(0, 5)) {
+      expect(recall(compacted.search(query, K), index.exactSearch(query, K))).toBeGreaterThanOrEqual(0.8);
+    }
+  });
+
+  it('rejects vectors and buffers it cannot use', () => {
+    expect(() => index.add(COUNT + 1, [1, 2, 3])).toThrow(/3 dimensions, index expects 16/);
+    expect(index.search([1, 2, 3], K)).toEqual([]);
+    expect(() => HnswIndex.deserialize(Buffer.alloc(32))).toThrow(/Not an HNSW index file/);
+  });
+});
@@ -0,0 +1,539 @@
+/**
+ * HNSW Index - Approximate nearest-neighbour search over embeddings
+ *
+ * A Hierarchical Navigable Small World graph (Malkov & Yashunin) keyed by
+ * numeric labels (the vector table's row ids). Vectors are normalized on insert
+ * and compared by cosine distance. Inserts are incremental; deletes are
+ * tombstones that stay traversable until compact() rebuilds the graph.
+ * The graph serializes to a compact binary buffer for persistence.
+ */
+
+// ============================================
+// Configuration
+// ============================================
+
+const MAGIC = 0x57534e48; // "HNSW"
+const FORMAT_VERSION = 1;
+
+export interface HnswOptions {
+  dimensions: number;
+  m?: number; // Links per node on upper layers (layer 0 keeps 2 * m)
+  efConstruction?: number; // Candidate list size while inserting
+  efSearch?: number; // Candidate list size while searching
+}
+
+export interface HnswMatch {
+  label: number;
+  distance: number; // Cosine distance, 0 = identical
+}
+
+export interface HnswStats {
+  nodes: number;
+  deleted: number;
+  maxLevel: number;
+  dimensions: number;
+}
+
+interface HnswNode {
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][]; // Labels per layer, 0..level
+  deleted: boolean;
+}
+
+// ============================================
+// HNSW Index Class
+// ============================================
+
+export class HnswIndex {
+  readonly dimensions: number;
+  private m: number;
+  private maxM0: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private levelFactor: number;
+  private nodes = new Map<number, HnswNode>();
+  private entryPoint: number | null = null;
+  private maxLevel = -1;
+  private deletedCount = 0;
+
+  constructor(options: HnswOptions) {
+    this.dimensions = options.dimensions;
+    this.m = options.m ?? 16;
+    this.maxM0 = this.m * 2;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelFactor = 1 / Math.log(this.m);
+  }
+
+  /**
+   * Live (non-deleted) node count
+   */
+  get size(): number {
+    return this.nodes.size - this.deletedCount;
+  }
+
+  has(label: number): boolean {
+    const node = this.nodes.get(label);
+    return node !== undefined && !node.deleted;
+  }
+
+  labels(): number[] {
+    return Array.from(this.nodes.entries()).filter(([, node]) => !node.deleted).map(([label]) => label);
+  }
+
+  getVector(label: number): Float32Array | undefined {
+    const node = this.nodes.get(label);
+    return node && !node.deleted ? node.vector : undefined;
+  }
+
+  stats(): HnswStats {
+    return { nodes: this.size, deleted: this.deletedCount, maxLevel: this.maxLevel, dimensions: this.dimensions };
+  }
+
+  /**
+   * Whether enough tombstones piled up that a rebuild is worthwhile
+   */
+  needsCompaction(): boolean {
+    return this.deletedCount > 100 && this.deletedCount > this.nodes.size / 4;
+  }
+
+  /**
+   * Insert a vector; re-adding a deleted label revives it with the new vector
+   */
+  add(label: number, values: ArrayLike<number>): void {
+    if (values.length !== this.dimensions) {
+      throw new Error(`Vector has ${values.length} dimensions, index expects ${this.dimensions}`);
+    }
+
+    const existing = this.nodes.get(label);
+    if (existing) {
+      if (!existing.deleted) return;
+      this.detach(label, existing);
+      this.nodes.delete(label);
+      this.deletedCount--;
+    }
+
+    const vector = normalize(values);
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelFactor);
+    const node: HnswNode = { vector, level, neighbors: Array.from({ length: level + 1 }, () => []), deleted: false };
+    this.nodes.set(label, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = label;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through the layers above the new node's level
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedyClosest(vector, current, layer);
+    }
+
+    let entryPoints = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, entryPoints, this.efConstruction, layer);
+      const maxLinks = layer === 0 ? this.maxM0 : this.m;
+      const selected = this.selectNeighbors(candidates, this.m);
+      node.neighbors[layer] = selected.map(c => c.label);
+
+      for (const neighbor of selected) {
+        const other = this.nodes.get(neighbor.label);
+        if (!other) continue;
+        other.neighbors[layer].push(label);
+        if (other.neighbors[layer].length > maxLinks) {
+          this.pruneLinks(other, layer, maxLinks);
+        }
+      }
+
+      entryPoints = candidates.map(c => c.label);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = label;
+    }
+  }
+
+  /**
+   * Tombstone a vector; it no longer appears in results
+   */
+  remove(label: number): boolean {
+    const node = this.nodes.get(label);
+    if (!node || node.deleted) return false;
+    node.deleted = true;
+    this.deletedCount++;
+    return true;
+  }
+
+  /**
+   * Approximate k nearest neighbours, optionally limited to labels `accept` allows
+   * Filtered-out and deleted nodes are still walked through, just not returned.
+   */
+  search(query: ArrayLike<number>, k: number, accept?: (label: number) => boolean, ef = this.efSearch): HnswMatch[] {
+    if (this.entryPoint === null || k <= 0 || query.length !== this.dimensions) return [];
+
+    const vector = normalize(query);
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(vector, current, layer);
+    }
+
+    const allowed = (label: number) => !this.nodes.get(label)?.deleted && (!accept || accept(label));
+    return this.searchLayer(vector, [current], Math.max(ef, k), 0, allowed).slice(0, k);
+  }
+
+  /**
+   * Exact k nearest neighbours by scanning every (accepted) vector
+   */
+  exactSearch(query: ArrayLike<number>, k: number, labels?: Iterable<number>): HnswMatch[] {
+    if (k <= 0 || query.length !== this.dimensions) return [];
+
+    const vector = normalize(query);
+    const heap = new MaxHeap();
+    const consider = (label: number, node: HnswNode | undefined) => {
+      if (!node || node.deleted) return;
+      const distance = cosineDistance(vector, node.vector);
+      if (heap.size < k) {
+        heap.push({ label, distance });
+      } else if (distance < heap.peek()!.distance) {
+        heap.pop();
+        heap.push({ label, distance });
+      }
+    };
+
+    if (labels) {
+      for (const label of labels) consider(label, this.nodes.get(label));
+    } else {
+      for (const [label, node] of this.nodes) consider(label, node);
+    }
+
+    return heap.toSortedArray();
+  }
+
+  /**
+   * Rebuild the graph from live vectors, dropping tombstones
+   */
+  compact(): HnswIndex {
+    const rebuilt = new HnswIndex({ dimensions: this.dimensions, m: this.m, efConstruction: this.efConstruction, efSearch: this.efSearch });
+    for (const [label, node] of this.nodes) {
+      if (!node.deleted) rebuilt.add(label, node.vector);
+    }
+    return rebuilt;
+  }
+
+  // ============================================
+  // Persistence
+  // ============================================
+
+  /**
+   * Serialize to a binary buffer
+   * Layout: header (magic, version, dimensions, m, efConstruction, node count,
+   * entry point, max level), then per node: label, level, deleted flag, vector
+   * (float32), and per layer the link count followed by the linked labels.
+   */
+  serialize(): Buffer {
+    let size = 32;
+    for (const node of this.nodes.values()) {
+      size += 9 + this.dimensions * 4;
+      for (const links of node.neighbors) size += 4 + links.length * 4;
+    }
+
+    const buffer = Buffer.alloc(size);
+    let offset = 0;
+    const writeU32 = (value: number) => { buffer.writeUInt32LE(value, offset); offset += 4; };
+
+    writeU32(MAGIC);
+    writeU32(FORMAT_VERSION);
+    writeU32(this.dimensions);
+    writeU32(this.m);
+    writeU32(this.efConstruction);
+    writeU32(this.nodes.size);
+    buffer.writeInt32LE(this.entryPoint ?? -1, offset); offset += 4;
+    buffer.writeInt32LE(this.maxLevel, offset); offset += 4;
+
+    for (const [label, node] of this.nodes) {
+      writeU32(label);
+      writeU32(node.level);
+      buffer.writeUInt8(node.deleted ? 1 : 0, offset); offset += 1;
+      for (let i = 0; i < this.dimensions; i++) {
+        buffer.writeFloatLE(node.vector[i], offset);
+        offset += 4;
+      }
+      for (const links of node.neighbors) {
+        writeU32(links.length);
+        for (const link of links) writeU32(link);
+      }
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Restore an index written by serialize()
+   */
+  static deserialize(buffer: Buffer, efSearch?: number): HnswIndex {
+    let offset = 0;
+    const readU32 = () => { const value = buffer.readUInt32LE(offset); offset += 4; return value; };
+
+    if (readU32() !== MAGIC) throw new Error('Not an HNSW index file');
+    const version = readU32();
+    if (version !== FORMAT_VERSION) throw new Error(`Unsupported HNSW index version ${version}`);
+
+    const dimensions = readU32();
+    const m = readU32();
+    const efConstruction = readU32();
+    const count = readU32();
+    const index = new HnswIndex({ dimensions, m, efConstruction, efSearch });
+    const entryPoint = buffer.readInt32LE(offset); offset += 4;
+    index.maxLevel = buffer.readInt32LE(offset); offset += 4;
+    index.entryPoint = entryPoint === -1 ? null : entryPoint;
+
+    for (let n = 0; n < count; n++) {
+      const label = readU32();
+      const level = readU32();
+      const deleted = buffer.readUInt8(offset) === 1; offset += 1;
+      const vector = new Float32Array(dimensions);
+      for (let i = 0; i < dimensions; i++) {
+        vector[i] = buffer.readFloatLE(offset);
+        offset += 4;
+      }
+      const neighbors: number[][] = [];
+      for (let layer = 0; layer <= level; layer++) {
+        const links = readU32();
+        const list: number[] = [];
+        for (let i = 0; i < links; i++) list.push(readU32());
+        neighbors.push(list);
+      }
+      index.nodes.set(label, { vector, level, neighbors, deleted });
+      if (deleted) index.deletedCount++;
+    }
+
+    return index;
+  }
+
+  // ============================================
+  // Graph Internals
+  // ============================================
+
+  private greedyClosest(vector: Float32Array, start: number, layer: number): number {
+    let current = start;
+    let currentDistance = cosineDistance(vector, this.nodes.get(current)!.vector);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.nodes.get(current)!.neighbors[layer] ?? []) {
+        const node = this.nodes.get(neighbor);
+        if (!node) continue;
+        const distance = cosineDistance(vector, node.vector);
+        if (distance < currentDistance) {
+          current = neighbor;
+          currentDistance = distance;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search of one layer, returning up to `ef` accepted nodes closest first
+   */
+  private searchLayer(
+    vector: Float32Array,
+    entryPoints: number[],
+    ef: number,
+    layer: number,
+    accept?: (label: number) => boolean
+  ): HnswMatch[] {
+    const visited = new Set<number>(entryPoints);
+    const candidates = new MinHeap();
+    const results = new MaxHeap();
+
+    for (const label of entryPoints) {
+      const node = this.nodes.get(label);
+      if (!node) continue;
+      const match = { label, distance: cosineDistance(vector, node.vector) };
+      candidates.push(match);
+      if (!accept || accept(label)) results.push(match);
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      if (results.size >= ef && closest.distance > results.peek()!.distance) break;
+
+      for (const neighbor of this.nodes.get(closest.label)?.neighbors[layer] ?? []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const node = this.nodes.get(neighbor);
+        if (!node) continue;
+        const distance = cosineDistance(vector, node.vector);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          candidates.push({ label: neighbor, distance });
+          if (!accept || accept(neighbor)) {
+            results.push({ label: neighbor, distance });
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toSortedArray();
+  }
+
+  /**
+   * Neighbour selection heuristic: prefer candidates that aren't closer to an
+   * already selected neighbour than to the base, which keeps links spread out
+   */
+  private selectNeighbors(candidates: HnswMatch[], count: number): HnswMatch[] {
+    const selected: HnswMatch[] = [];
+    const skipped: HnswMatch[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+      const vector = this.nodes.get(candidate.label)?.vector;
+      if (!vector) continue;
+      const diverse = selected.every(s => cosineDistance(vector, this.nodes.get(s.label)!.vector) > candidate.distance);
+      if (diverse) selected.push(candidate);
+      else skipped.push(candidate);
+    }
+
+    // Fill up with the closest skipped candidates so sparse regions stay connected
+    for (const candidate of skipped) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  /**
+   * Trim an overfull link list to its closest neighbours
+   * (cheaper than re-running the heuristic, and this runs on most inserts)
+   */
+  private pruneLinks(node: HnswNode, layer: number, maxLinks: number): void {
+    node.neighbors[layer] = node.neighbors[layer]
+      .flatMap(label => {
+        const other = this.nodes.get(label);
+        return other ? [{ label, distance: cosineDistance(node.vector, other.vector) }] : [];
+      })
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, maxLinks)
+      .map(c => c.label);
+  }
+
+  /**
+   * Remove links pointing at a node before it is replaced
+   */
+  private detach(label: number, node: HnswNode): void {
+    for (let layer = 0; layer <= node.level; layer++) {
+      for (const neighbor of node.neighbors[layer]) {
+        const other = this.nodes.get(neighbor);
+        if (other?.neighbors[layer]) {
+          other.neighbors[layer] = other.neighbors[layer].filter(l => l !== label);
+        }
+      }
+    }
+
+    if (this.entryPoint === label) {
+      // Any other node works as an entry point; prefer the highest level
+      let best: number | null = null;
+      let bestLevel = -1;
+      for (const [other, otherNode] of this.nodes) {
+        if (other !== label && otherNode.level > bestLevel) {
+          best = other;
+          bestLevel = otherNode.level;
+        }
+      }
+      this.entryPoint = best;
+      this.maxLevel = bestLevel;
+    }
+  }
+}
+
+// ============================================
+// Vector Math
+// ============================================
+
+function normalize(values: ArrayLike<number>): Float32Array {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * Cosine distance of two normalized vectors
+ */
+function cosineDistance(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return 1 - dot;
+}
+
+// ============================================
+// Heaps
+// ============================================
+
+class MinHeap {
+  protected items: HnswMatch[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): HnswMatch | undefined {
+    return this.items[0];
+  }
+
+  push(item: HnswMatch): void {
+    this.items.push(item);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(this.items[i], this.items[parent])) break;
+      [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): HnswMatch | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < this.items.length && this.before(this.items[left], this.items[next])) next = left;
+        if (right < this.items.length && this.before(this.items[right], this.items[next])) next = right;
+        if (next === i) break;
+        [this.items[i], this.items[next]] = [this.items[next], this.items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toSortedArray(): HnswMatch[] {
+    return [...this.items].sort((a, b) => a.distance - b.distance);
+  }
+
+  protected before(a: HnswMatch, b: HnswMatch): boolean {
+    return a.distance < b.distance;
+  }
+}
+
+class MaxHeap extends MinHeap {
+  protected override before(a: HnswMatch, b: HnswMatch): boolean {
+    return a.distance > b.distance;
+  }
+}
@@ -0,0 +1,494 @@
+/**
+ * Memory Consolidator - Turns old chat history into durable memories
+ *
+ * Raw messages are pruned after a while, and what was decided or learned in
+ * them goes with them. A background job walks each chat's settled history in
+ * windows (split on long pauses and project switches), has a summarizer
+ * extract decisions, facts and open TODOs, and keeps them as memory entries
+ * that link back to the messages they came from.
+ *
+ * Entries can be edited, pinned (always offered to Claude as context) or
+ * forgotten through /memories. A per-chat watermark records how far history
+ * has been consolidated, so every message is summarized once.
+ */
+
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { getBrain } from '../brain-manager.js';
+import { getConversationIndexer } from '../conversations/index.js';
+import type { ConversationMessage } from '../conversations/index.js';
+
+// ============================================
+// Configuration
+// ============================================
+
+const SETTLE_MS = 6 * 60 * 60 * 1000; // Only summarize windows quiet for this long
+const WINDOW_GAP_MS = 2 * 60 * 60 * 1000; // A pause this long starts a new window
+const WINDOW_MAX_MESSAGES = 60;
+const MIN_WINDOW_MESSAGES = 3; // Smaller windows are skipped (but still marked as consolidated)
+const MESSAGE_MAX_CHARS = 800;
+const MAX_ENTRIES_PER_WINDOW = 12;
+
+// ============================================
+// Types
+// ============================================
+
+export type MemoryKind = 'decision' | 'fact' | 'todo';
+
+export const MEMORY_KINDS: MemoryKind[] = ['decision', 'fact', 'todo'];
+
+export interface ConsolidatedMemory {
+  id: string;
+  kind: MemoryKind;
+  text: string;
+  chatId: number;
+  project?: string; // Project name active when the messages were sent
+  sourceMessageIds: string[]; // ConversationIndexer message ids
+  windowStart: number;
+  windowEnd: number;
+  pinned: boolean;
+  edited: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SummaryRequest {
+  chatId: number;
+  project?: string;
+  prompt: string;
+}
+
+/**
+ * Runs a summarization prompt and returns the model's raw reply
+ */
+export type MemorySummarizer = (request: SummaryRequest) => Promise<string>;
+
+export interface ConsolidationReport {
+  chats: number;
+  windows: number;
+  skippedWindows: number;
+  created: number;
+  merged: number;
+  errors: string[];
+}
+
+interface ConsolidationWindow {
+  chatId: number;
+  project?: string;
+  messages: ConversationMessage[];
+}
+
+interface ConsolidatorData {
+  entries: ConsolidatedMemory[];
+  watermarks: Record<string, number>; // chatId -> timestamp of the last consolidated message
+}
+
+// ============================================
+// Memory Consolidator Class
+// ============================================
+
+export class MemoryConsolidator {
+  private brain = getBrain();
+  private dataFile: string;
+  private entries = new Map<string, ConsolidatedMemory>();
+  private watermarks = new Map<number, number>();
+  private summarizer: MemorySummarizer | null = null;
+  private initPromise: Promise<void> | null = null;
+  private running: Promise<ConsolidationReport> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private savePromise: Promise<void> | null = null;
+
+  constructor() {
+    this.dataFile = join(this.brain.getMemoryDir(), 'knowledge', 'consolidated.json');
+  }
+
+  /**
+   * Load stored entries (idempotent)
+   */
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load();
+    }
+    return this.initPromise;
+  }
+
+  setSummarizer(summarizer: MemorySummarizer): void {
+    this.summarizer = summarizer;
+  }
+
+  /**
+   * Consolidate periodically in the background
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    if (intervalMs <= 0) return;
+
+    this.timer = setInterval(() => {
+      this.consolidate().catch(error => {
+        console.error('[MemoryConsolidator] Consolidation failed:', error);
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  // ============================================
+  // Consolidation
+  // ============================================
+
+  /**
+   * Summarize every settled, not yet consolidated window
+   * Concurrent calls share one run.
+   */
+  consolidate(options: { chatId?: number; settleMs?: number } = {}): Promise<ConsolidationReport> {
+    if (!this.running) {
+      this.running = this.runConsolidation(options).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async runConsolidation(options: { chatId?: number; settleMs?: number }): Promise<ConsolidationReport> {
+    await this.initialize();
+    if (!this.summarizer) {
+      throw new Error('No summarizer configured');
+    }
+
+    const report: ConsolidationReport = { chats: 0, windows: 0, skippedWindows: 0, created: 0, merged: 0, errors: [] };
+    const settledBefore = Date.now() - (options.settleMs ?? SETTLE_MS);
+
+    const byChat = new Map<number, ConversationMessage[]>();
+    for (const message of getConversationIndexer().getAllMessages()) {
+      if (options.chatId !== undefined && message.chatId !== options.chatId) continue;
+      if (message.timestamp <= (this.watermarks.get(message.chatId) ?? 0)) continue;
+      if (message.timestamp > settledBefore) continue;
+
+      const list = byChat.get(message.chatId) ?? [];
+      list.push(message);
+      byChat.set(message.chatId, list);
+    }
+
+    for (const [chatId, messages] of byChat) {
+      report.chats++;
+      messages.sort((a, b) => a.timestamp - b.timestamp);
+
+      for (const window of splitWindows(chatId, messages)) {
+        const content = window.messages.filter(message => !message.command);
+        if (content.length >= MIN_WINDOW_MESSAGES) {
+          try {
+            const reply = await this.summarizer({ chatId, project: window.project, prompt: buildPrompt(content) });
+            const counts = this.addEntries(window, content, parseSummary(reply, content.length));
+            report.created += counts.created;
+            report.merged += counts.merged;
+            report.windows++;
+          } catch (error) {
+            // Leave the watermark here so the window is retried next run
+            report.errors.push(`chat ${chatId}: ${error instanceof Error ? error.message : String(error)}`);
+            break;
+          }
+        } else {
+          report.skippedWindows++;
+        }
+
+        this.watermarks.set(chatId, window.messages[window.messages.length - 1].timestamp);
+        await this.save();
+      }
+    }
+
+    if (report.windows > 0) {
+      console.log(`[MemoryConsolidator] Summarized ${report.windows} windows into ${report.created} new memories`);
+    }
+    return report;
+  }
+
+  /**
+   * Store extracted items, merging ones already known for the chat
+   */
+  private addEntries(
+    window: ConsolidationWindow,
+    content: ConversationMessage[],
+    items: Array<{ kind: MemoryKind; text: string; sources: number[] }>
+  ): { created: number; merged: number } {
+    let created = 0;
+    let merged = 0;
+    const now = Date.now();
+
+    for (const item of items.slice(0, MAX_ENTRIES_PER_WINDOW)) {
+      const sourceMessageIds = item.sources
+        .map(index => content[index - 1]?.id)
+        .filter((id): id is string => id !== undefined);
+
+      const existing = this.list(window.chatId).find(entry =>
+        entry.kind === item.kind && normalize(entry.text) === normalize(item.text)
+      );
+      if (existing) {
+        existing.sourceMessageIds = Array.from(new Set([...existing.sourceMessageIds, ...sourceMessageIds]));
+        existing.windowEnd = Math.max(existing.windowEnd, content[content.length - 1].timestamp);
+        existing.updatedAt = now;
+        merged++;
+        continue;
+      }
+
+      const entry: ConsolidatedMemory = {
+        id: randomBytes(4).toString('hex'),
+        kind: item.kind,
+        text: item.text,
+        chatId: window.chatId,
+        project: window.project,
+        sourceMessageIds,
+        windowStart: content[0].timestamp,
+        windowEnd: content[content.length - 1].timestamp,
+        pinned: false,
+        edited: false,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.entries.set(entry.id, entry);
+      created++;
+    }
+
+    return { created, merged };
+  }
+
+  // ============================================
+  // Review
+  // ============================================
+
+  /**
+   * Entries for a chat, pinned first, then newest first
+   */
+  list(chatId: number, filter: { kind?: MemoryKind; pinned?: boolean; project?: string } = {}): ConsolidatedMemory[] {
+    return Array.from(this.entries.values())
+      .filter(entry =>
+        entry.chatId === chatId &&
+        (filter.kind === undefined || entry.kind === filter.kind) &&
+        (filter.pinned === undefined || entry.pinned === filter.pinned) &&
+        (filter.project === undefined || entry.project === undefined || entry.project === filter.project)
+      )
+      .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.windowEnd - a.windowEnd);
+  }
+
+  /**
+   * Every entry, for indexing
+   */
+  getAll(): ConsolidatedMemory[] {
+    return Array.from(this.entries.values());
+  }
+
+  get(id: string): ConsolidatedMemory | null {
+    return this.entries.get(id) ?? null;
+  }
+
+  async update(id: string, text: string): Promise<ConsolidatedMemory | null> {
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+
+    entry.text = text.trim();
+    entry.edited = true;
+    entry.updatedAt = Date.now();
+    await this.save();
+    return entry;
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<ConsolidatedMemory | null> {
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+
+    entry.pinned = pinned;
+    entry.updatedAt = Date.now();
+    await this.save();
+    return entry;
+  }
+
+  async forget(id: string): Promise<boolean> {
+    if (!this.entries.delete(id)) return false;
+    await this.save();
+    return true;
+  }
+
+  /**
+   * The messages an entry was extracted from (those not yet pruned)
+   */
+  getSourceMessages(id: string): ConversationMessage[] {
+    const entry = this.entries.get(id);
+    if (!entry) return [];
+
+    const indexer = getConversationIndexer();
+    return entry.sourceMessageIds
+      .map(messageId => indexer.getMessage(messageId))
+      .filter((message): message is ConversationMessage => message !== null);
+  }
+
+  getWatermark(chatId: number): number | null {
+    return this.watermarks.get(chatId) ?? null;
+  }
+
+  // ============================================
+  // Persistence
+  // ============================================
+
+  private async load(): Promise<void> {
+    if (!existsSync(this.dataFile)) return;
+
+    try {
+      const data = JSON.parse(await readFile(this.dataFile, 'utf-8')) as ConsolidatorData;
+      for (const entry of data.entries ?? []) {
+        this.entries.set(entry.id, entry);
+      }
+      for (const [chatId, timestamp] of Object.entries(data.watermarks ?? {})) {
+        this.watermarks.set(Number(chatId), timestamp);
+      }
+    } catch (error) {
+      console.error('[MemoryConsolidator] Failed to load memories:', error);
+    }
+  }
+
+  /**
+   * Write atomically; saves are chained so they never interleave
+   */
+  private async save(): Promise<void> {
+    const previous = this.savePromise ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const data: ConsolidatorData = {
+        entries: Array.from(this.entries.values()),
+        watermarks: Object.fromEntries(Array.from(this.watermarks.entries()).map(([chatId, ts]) => [String(chatId), ts])),
+      };
+      await mkdir(join(this.dataFile, '..'), { recursive: true });
+      const tmpFile = `${this.dataFile}.tmp`;
+      await writeFile(tmpFile, JSON.stringify(data, null, 2));
+      await rename(tmpFile, this.dataFile);
+    });
+
+    this.savePromise = next.catch(() => undefined);
+    return next;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Split a chat's messages (oldest first) on long pauses, project switches and size
+ */
+function splitWindows(chatId: number, messages: ConversationMessage[]): ConsolidationWindow[] {
+  const windows: ConsolidationWindow[] = [];
+  let current: ConsolidationWindow | null = null;
+
+  for (const message of messages) {
+    const last = current?.messages[current.messages.length - 1];
+    const startNew = !current || !last ||
+      message.timestamp - last.timestamp > WINDOW_GAP_MS ||
+      current.messages.length >= WINDOW_MAX_MESSAGES ||
+      (message.projectId !== undefined && current.project !== undefined && message.projectId !== current.project);
+
+    if (startNew) {
+      current = { chatId, project: message.projectId, messages: [] };
+      windows.push(current);
+    }
+    current!.messages.push(message);
+    current!.project ??= message.projectId;
+  }
+
+  return windows;
+}
+
+function buildPrompt(messages: ConversationMessage[]): string {
+  const transcript = messages.map((message, i) => {
+    const speaker = message.messageType === 'user' ? (message.username ?? 'User') : 'Assistant';
+    const text = stripHtml(message.text);
+    return `[${i + 1}] ${speaker}: ${text.length > MESSAGE_MAX_CHARS ? `${text.substring(0, MESSAGE_MAX_CHARS)}...` : text}`;
+  });
+
+  return [
+    'Extract long-term memory from this chat between a developer and their coding assistant.',
+    'Only keep what will still matter in a month:',
+    '- decision: a choice that was made, with its reason if stated',
+    '- fact: something learned about the user, their projects or environment',
+    '- todo: work that was agreed on or left open and not finished in this excerpt',
+    'Skip greetings, status chatter and anything only relevant to this moment.',
+    'Each item is one self-contained sentence. "sources" lists the [numbers] of the messages it comes from.',
+    '',
+    'Reply with JSON only, no prose:',
+    '{"items":[{"kind":"decision","text":"...","sources":[1,2]}]}',
+    'Reply {"items":[]} if there is nothing worth keeping. Do not use any tools.',
+    '',
+    '<transcript>',
+    ...transcript,
+    '</transcript>',
+  ].join('\n');
+}
+
+/**
+ * Pull the items out of the summarizer's reply, tolerating code fences and prose
+ */
+function parseSummary(reply: string, messageCount: number): Array<{ kind: MemoryKind; text: string; sources: number[] }> {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('Summary reply contained no JSON');
+  }
+
+  const parsed = JSON.parse(reply.slice(start, end + 1)) as { items?: unknown };
+  if (!Array.isArray(parsed.items)) {
+    throw new Error('Summary reply has no items array');
+  }
+
+  const items: Array<{ kind: MemoryKind; text: string; sources: number[] }> = [];
+  for (const raw of parsed.items as Array<Record<string, unknown>>) {
+    const kind = raw?.kind as MemoryKind;
+    const text = typeof raw?.text === 'string' ? raw.text.trim() : '';
+    if (!MEMORY_KINDS.includes(kind) || !text) continue;
+
+    const sources = Array.isArray(raw.sources)
+      ? raw.sources.map(Number).filter(n => Number.isInteger(n) && n >= 1 && n <= messageCount)
+      : [];
+    items.push({ kind, text, sources });
+  }
+  return items;
+}
+
+function stripHtml(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+// ============================================
+// Global Singleton
+// ============================================
+
+let globalMemoryConsolidator: MemoryConsolidator | null = null;
+
+export function getMemoryConsolidator(): MemoryConsolidator {
+  if (!globalMemoryConsolidator) {
+    globalMemoryConsolidator = new MemoryConsolidator();
+  }
+  return globalMemoryConsolidator;
+}
+
+export function resetMemoryConsolidator(): void {
+  globalMemoryConsolidator?.stop();
+  globalMemoryConsolidator = null;
+}
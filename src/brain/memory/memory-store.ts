@@ -12,7 +12,7 @@ import { readFile, writeFile, readdir, unlink, mkdir } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { getBrain } from '../brain-manager.js';
-import { getVectorStore } from './vector-store.js';
+import { getVectorStore, type VectorFilter } from './vector-store.js';
 import type {
   ConversationMemory,
   ProjectMemory,
@@ -111,6 +111,13 @@ export class MemoryStore {
     return this.cache.facts.get(key) as T | undefined;
   }
 
+  /**
+   * Get every stored fact
+   */
+  getAllFacts(): Array<{ key: string; value: unknown }> {
+    return Array.from(this.cache.facts.entries(), ([key, value]) => ({ key, value }));
+  }
+
   /**
    * Search facts by key pattern
    */
@@ -496,7 +503,8 @@ export class MemoryStore {
    */
   async semanticSearch(
     query: string,
-    limit = 5
+    limit = 5,
+    filter?: VectorFilter
   ): Promise<Array<{
     id: string;
     text: string;
@@ -504,7 +512,7 @@ export class MemoryStore {
     metadata?: Record<string, unknown>;
   }>> {
     const vectorStore = getVectorStore();
-    return await vectorStore.semanticSearch(query, limit);
+    return await vectorStore.semanticSearch(query, limit, undefined, filter);
   }
 
   /**
@@ -2,13 +2,41 @@
  * Vector Store - Semantic memory search using embeddings
  *
  * Stores and searches text embeddings for semantic memory retrieval.
- * Uses cosine similarity to find related memories.
+ * Records live in a SQLite table (text, metadata and the raw vector) and are
+ * searched through an HNSW approximate nearest-neighbour index kept per
+ * embedding model and persisted as a binary file next to the database.
+ * Both are updated incrementally; the index is flushed shortly after changes
+ * and reconciled against the table on load, so a crash only costs a re-insert.
+ *
+ * Embeddings come from a pluggable EmbeddingProvider; each record remembers
+ * which model produced it, and only records from the active model take part
+ * in search until reembed() migrates the rest.
  */
 
-import { readFile, writeFile, mkdir, unlink } from 'node:fs/promises';
+import Database from 'better-sqlite3';
+import { readFile, writeFile, mkdir, unlink, rename } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
+import { performance } from 'node:perf_hooks';
 import { getBrain } from '../brain-manager.js';
+import { HashEmbeddingProvider, HASH_MODEL_ID, type EmbeddingProvider } from './embedding-providers.js';
+import { HnswIndex, type HnswMatch, type HnswStats } from './hnsw-index.js';
+
+// Kept exported from here for existing imports
+export { EmbeddingGenerator } from './embedding-providers.js';
+
+// ============================================
+// Configuration
+// ============================================
+
+const REEMBED_BATCH_SIZE = 32;
+const FLUSH_DELAY_MS = 5000; // Index writes are batched after changes
+const EXACT_SEARCH_LIMIT = 2000; // Filters matching fewer records skip the graph and scan exactly
+const EF_SEARCH = 64;
+
+// ============================================
+// Types
+// ============================================
 
 interface EmbeddingRecord {
   id: string;
@@ -16,6 +44,22 @@ interface EmbeddingRecord {
   embedding: number[];
   metadata?: Record<string, unknown>;
   createdAt: number;
+  model?: string; // Provider id that produced the vector; absent on records from before providers
+  dimensions?: number;
+}
+
+interface VectorRow {
+  label: number;
+  id: string;
+  text: string;
+  model: string;
+  dimensions: number;
+  embedding: Buffer;
+  metadata: string | null;
+  project: string | null;
+  chat_id: number | null;
+  kind: string | null;
+  created_at: number;
 }
 
 interface SearchResult {
@@ -26,68 +70,24 @@ interface SearchResult {
 }
 
 /**
- * Simple embedding generator using term frequency
- * In production, this would call an embedding API like OpenAI's
+ * Pre-filter applied before ranking
+ * Taken from record metadata: `project`, `chatId` and `kind` (or `type`).
  */
-export class EmbeddingGenerator {
-  /**
-   * Generate a simple embedding from text using TF-IDF-like approach
-   * This is a placeholder - in production use OpenAI embeddings or similar
-   */
-  generateEmbedding(text: string): number[] {
-    // Normalize text
-    const normalized = text.toLowerCase().replace(/[^\w\s]/g, ' ').trim();
-
-    // Create character n-gram based embedding (more robust than word-based)
-    const ngrams = this.extractNgrams(normalized, 3);
-
-    // Create fixed-size embedding (384 dimensions to match typical embedding models)
-    const dimensions = 384;
-    const embedding = new Array(dimensions).fill(0);
-
-    // Simple hash-based embedding
-    for (const ngram of ngrams) {
-      const hash = this.hashCode(ngram);
-      for (let i = 0; i < 8; i++) {
-        const idx = Math.abs((hash + i) % dimensions);
-        embedding[idx] += 1 / Math.sqrt(ngrams.length);
-      }
-    }
-
-    // Normalize the embedding
-    const norm = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    if (norm > 0) {
-      for (let i = 0; i < embedding.length; i++) {
-        embedding[i] /= norm;
-      }
-    }
-
-    return embedding;
-  }
-
-  /**
-   * Extract character n-grams from text
-   */
-  private extractNgrams(text: string, n: number): string[] {
-    const ngrams: string[] = [];
-    for (let i = 0; i <= text.length - n; i++) {
-      ngrams.push(text.slice(i, i + n));
-    }
-    return ngrams;
-  }
+export interface VectorFilter {
+  project?: string;
+  chatId?: number;
+  kind?: string | string[];
+}
 
-  /**
-   * Simple hash function for n-grams
-   */
-  private hashCode(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash);
-  }
+export interface VectorBenchmark {
+  records: number;
+  queries: number;
+  k: number;
+  recall: number; // Share of exact top-k neighbours the index also returned
+  annMeanMs: number;
+  annP95Ms: number;
+  exactMeanMs: number;
+  exactP95Ms: number;
 }
 
 /**
@@ -96,25 +96,87 @@ export class EmbeddingGenerator {
 export class VectorStore {
   private brain = getBrain();
   private embeddingsDir: string;
-  private indexFile: string;
-  private cache: Map<string, EmbeddingRecord> = new Map();
-  private generator = new EmbeddingGenerator();
+  private dbPath: string;
+  private db: Database.Database | null = null;
+  private initPromise: Promise<void> | null = null;
+  private provider: EmbeddingProvider = new HashEmbeddingProvider();
+  private index: HnswIndex | null = null;
+  private indexModel: string | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     this.embeddingsDir = join(this.brain.getMemoryDir(), 'embeddings');
-    this.indexFile = join(this.embeddingsDir, 'index.json');
+    this.dbPath = join(this.embeddingsDir, 'vectors.db');
   }
 
   /**
    * Initialize the vector store
    */
   async initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.open().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async open(): Promise<void> {
     if (!existsSync(this.embeddingsDir)) {
       await mkdir(this.embeddingsDir, { recursive: true });
     }
+
+    this.db = new Database(this.dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS vectors (
+        label INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        text TEXT NOT NULL,
+        model TEXT NOT NULL,
+        dimensions INTEGER NOT NULL,
+        embedding BLOB NOT NULL,
+        metadata TEXT,
+        project TEXT,
+        chat_id INTEGER,
+        kind TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_vectors_model ON vectors(model);
+      CREATE INDEX IF NOT EXISTS idx_vectors_project ON vectors(project);
+      CREATE INDEX IF NOT EXISTS idx_vectors_chat ON vectors(chat_id);
+      CREATE INDEX IF NOT EXISTS idx_vectors_kind ON vectors(kind);
+      CREATE INDEX IF NOT EXISTS idx_vectors_created ON vectors(created_at);
+    `);
+
+    await this.migrateJsonRecords();
     await this.loadIndex();
   }
 
+  /**
+   * Switch the embedding provider
+   * Existing vectors stay on disk; run reembed() to bring them to the new model.
+   */
+  setProvider(provider: EmbeddingProvider): void {
+    if (provider.id !== this.provider.id) {
+      console.log(`[VectorStore] Embedding provider: ${provider.id}`);
+    }
+    this.provider = provider;
+
+    if (this.db && this.indexModel !== provider.id) {
+      void this.loadIndex().catch(error => console.error('[VectorStore] Failed to load index:', error));
+    }
+  }
+
+  /**
+   * Get the active embedding provider
+   */
+  getProvider(): EmbeddingProvider {
+    return this.provider;
+  }
+
   /**
    * Store an embedding for semantic search
    */
@@ -123,21 +185,56 @@ export class VectorStore {
     text: string,
     metadata?: Record<string, unknown>
   ): Promise<void> {
-    // Generate embedding
-    const embedding = this.generator.generateEmbedding(text);
-
-    const record: EmbeddingRecord = {
-      id,
-      text: text.substring(0, 1000), // Limit text size
-      embedding,
-      metadata,
-      createdAt: Date.now(),
-    };
+    await this.storeEmbeddings([{ id, text, metadata }]);
+  }
 
-    // Store in cache and disk
-    this.cache.set(id, record);
-    await this.saveRecord(record);
-    await this.updateIndex();
+  /**
+   * Store several embeddings with one provider call
+   */
+  async storeEmbeddings(
+    items: Array<{ id: string; text: string; metadata?: Record<string, unknown> }>
+  ): Promise<void> {
+    if (items.length === 0) return;
+    await this.initialize();
+
+    // Generate embeddings
+    const embeddings = await this.provider.embed(items.map(item => item.text));
+    const db = this.database();
+    const selectPrevious = db.prepare('SELECT label FROM vectors WHERE id = ?');
+    const deletePrevious = db.prepare('DELETE FROM vectors WHERE label = ?');
+    const inserted: Array<{ label: number; embedding: number[] }> = [];
+
+    db.transaction(() => {
+      items.forEach((item, i) => {
+        const embedding = embeddings[i];
+        const record: EmbeddingRecord = {
+          id: item.id,
+          text: item.text.substring(0, 1000), // Limit text size
+          embedding,
+          metadata: item.metadata,
+          createdAt: Date.now(),
+          model: this.provider.id,
+          dimensions: embedding.length,
+        };
+
+        // Replacing a record gets a new label, so the old graph node is tombstoned
+        const previous = selectPrevious.get(item.id) as { label: number } | undefined;
+        if (previous) {
+          deletePrevious.run(previous.label);
+          this.index?.remove(previous.label);
+        }
+
+        inserted.push({ label: this.insertRecord(record), embedding });
+      });
+    })();
+
+    for (const { label, embedding } of inserted) {
+      const index = this.ensureIndex(embedding.length);
+      if (index && index.dimensions === embedding.length) {
+        index.add(label, embedding);
+      }
+    }
+    this.scheduleFlush();
   }
 
   /**
@@ -146,25 +243,31 @@ export class VectorStore {
   async semanticSearch(
     query: string,
     limit = 5,
-    threshold = 0.3
+    threshold = 0.3,
+    filter?: VectorFilter
   ): Promise<SearchResult[]> {
+    await this.initialize();
+    if (!this.index || this.index.size === 0) return [];
+
     // Generate query embedding
-    const queryEmbedding = this.generator.generateEmbedding(query);
+    const [queryEmbedding] = await this.provider.embed([query]);
+    return this.searchVector(queryEmbedding, limit, threshold, filter);
+  }
 
-    // Calculate similarities
-    const results: Array<{ id: string; text: string; similarity: number; metadata?: Record<string, unknown> }> = [];
+  /**
+   * Search with an already embedded query (from getProvider().embed)
+   */
+  async searchVector(
+    queryEmbedding: number[],
+    limit = 5,
+    threshold = 0.3,
+    filter?: VectorFilter
+  ): Promise<SearchResult[]> {
+    await this.initialize();
 
-    for (const record of this.cache.values()) {
-      const similarity = this.cosineSimilarity(queryEmbedding, record.embedding);
-      if (similarity >= threshold) {
-        results.push({
-          id: record.id,
-          text: record.text,
-          similarity,
-          metadata: record.metadata,
-        });
-      }
-    }
+    const matches = this.findNeighbors(queryEmbedding, limit, filter);
+    const results = this.hydrate(matches)
+      .filter(result => result.similarity >= threshold);
 
     // Sort by similarity and return top results
     results.sort((a, b) => b.similarity - a.similarity);
@@ -175,19 +278,16 @@ export class VectorStore {
    * Delete an embedding
    */
   async deleteEmbedding(id: string): Promise<boolean> {
-    if (!this.cache.has(id)) {
-      return false;
-    }
-
-    this.cache.delete(id);
+    await this.initialize();
 
-    // Delete file
-    const filePath = join(this.embeddingsDir, `${id}.json`);
-    if (existsSync(filePath)) {
-      await unlink(filePath);
+    const row = this.database().prepare('SELECT label FROM vectors WHERE id = ?').get(id) as { label: number } | undefined;
+    if (!row) {
+      return false;
     }
 
-    await this.updateIndex();
+    this.database().prepare('DELETE FROM vectors WHERE label = ?').run(row.label);
+    this.index?.remove(row.label);
+    this.scheduleFlush();
     return true;
   }
 
@@ -195,96 +295,404 @@ export class VectorStore {
    * Get all embeddings count
    */
   count(): number {
-    return this.cache.size;
+    if (!this.db) return 0;
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM vectors').get() as { count: number }).count;
+  }
+
+  /**
+   * Metadata of every record of the given kinds, by id
+   */
+  getMetadataByKind(kinds: string[]): Map<string, Record<string, unknown>> {
+    if (!this.db || kinds.length === 0) return new Map();
+    const rows = this.db
+      .prepare(`SELECT id, metadata FROM vectors WHERE kind IN (${kinds.map(() => '?').join(',')})`)
+      .all(...kinds) as Array<Pick<VectorRow, 'id' | 'metadata'>>;
+    return new Map(rows.map(row => [row.id, parseMetadata(row.metadata) ?? {}]));
+  }
+
+  /**
+   * Count records per embedding model
+   */
+  getModelStats(): Record<string, number> {
+    if (!this.db) return {};
+    const rows = this.db.prepare('SELECT model, COUNT(*) AS count FROM vectors GROUP BY model').all() as Array<{ model: string; count: number }>;
+    return Object.fromEntries(rows.map(row => [row.model, row.count]));
+  }
+
+  /**
+   * Count records that were embedded by a different model than the active one
+   */
+  countStale(): number {
+    if (!this.db) return 0;
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM vectors WHERE model != ?').get(this.provider.id) as { count: number }).count;
+  }
+
+  /**
+   * Shape of the active model's ANN index
+   */
+  getIndexStats(): (HnswStats & { model: string }) | null {
+    if (!this.index || !this.indexModel) return null;
+    return { ...this.index.stats(), model: this.indexModel };
+  }
+
+  /**
+   * Re-embed records from other models with the active provider
+   * Works from the stored (truncated) text, in batches, saving as it goes so an
+   * interrupted migration can simply be run again.
+   */
+  async reembed(onProgress?: (done: number, total: number) => void): Promise<number> {
+    await this.initialize();
+
+    const db = this.database();
+    const stale = db.prepare('SELECT label, text FROM vectors WHERE model != ? ORDER BY label').all(this.provider.id) as Array<{ label: number; text: string }>;
+    const update = db.prepare('UPDATE vectors SET embedding = ?, model = ?, dimensions = ? WHERE label = ?');
+    let done = 0;
+
+    for (let i = 0; i < stale.length; i += REEMBED_BATCH_SIZE) {
+      const batch = stale.slice(i, i + REEMBED_BATCH_SIZE);
+      const embeddings = await this.provider.embed(batch.map(r => r.text));
+
+      db.transaction(() => {
+        for (let j = 0; j < batch.length; j++) {
+          update.run(toBlob(embeddings[j]), this.provider.id, embeddings[j].length, batch[j].label);
+        }
+      })();
+
+      const index = this.ensureIndex(embeddings[0]?.length ?? 0);
+      for (let j = 0; j < batch.length; j++) {
+        if (index && index.dimensions === embeddings[j].length) index.add(batch[j].label, embeddings[j]);
+      }
+
+      done += batch.length;
+      onProgress?.(done, stale.length);
+    }
+
+    if (done > 0) {
+      console.log(`[VectorStore] Re-embedded ${done} record(s) with ${this.provider.id}`);
+      this.scheduleFlush();
+    }
+    return done;
   }
 
   /**
-   * Calculate cosine similarity between two vectors
+   * Compare the ANN index with an exact scan, using stored vectors as queries
    */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-      return 0;
+  async benchmark(queries = 50, k = 10, filter?: VectorFilter): Promise<VectorBenchmark> {
+    await this.initialize();
+    const index = this.index;
+    if (!index || index.size === 0) {
+      throw new Error('No vectors indexed for the current embedding model');
+    }
+
+    const candidates = filter ? this.filterLabels(filter) : null;
+    const pool = candidates ? [...candidates].filter(label => index.has(label)) : index.labels();
+    if (pool.length === 0) {
+      throw new Error('No vectors match the filter');
+    }
+
+    const accept = candidates ? (label: number) => candidates.has(label) : undefined;
+    const sample = Array.from({ length: Math.min(queries, pool.length) }, () => pool[Math.floor(Math.random() * pool.length)]);
+    const annTimes: number[] = [];
+    const exactTimes: number[] = [];
+    let recallSum = 0;
+
+    for (const label of sample) {
+      const vector = index.getVector(label)!;
+
+      let start = performance.now();
+      const approximate = index.search(vector, k, accept, Math.max(EF_SEARCH, k));
+      annTimes.push(performance.now() - start);
+
+      start = performance.now();
+      const exact = index.exactSearch(vector, k, candidates ?? undefined);
+      exactTimes.push(performance.now() - start);
+
+      const found = new Set(approximate.map(m => m.label));
+      recallSum += exact.length === 0 ? 1 : exact.filter(m => found.has(m.label)).length / exact.length;
     }
 
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+    return {
+      records: pool.length,
+      queries: sample.length,
+      k,
+      recall: recallSum / sample.length,
+      annMeanMs: mean(annTimes),
+      annP95Ms: percentile(annTimes, 0.95),
+      exactMeanMs: mean(exactTimes),
+      exactP95Ms: percentile(exactTimes, 0.95),
+    };
+  }
 
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
+  /**
+   * Write pending index changes and close the database
+   */
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
     }
+    await this.flush();
+    this.db?.close();
+    this.db = null;
+    this.index = null;
+    this.indexModel = null;
+    this.initPromise = null;
+  }
+
+  /**
+   * Persist the ANN index now
+   */
+  async flush(): Promise<void> {
+    if (!this.index || !this.indexModel) return;
 
-    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-    if (denominator === 0) {
-      return 0;
+    if (this.index.needsCompaction()) {
+      this.index = this.index.compact();
     }
 
-    return dotProduct / denominator;
+    const path = this.indexPath(this.indexModel);
+    const tempPath = `${path}.tmp`;
+    await writeFile(tempPath, this.index.serialize());
+    await rename(tempPath, path);
   }
 
+  // ============================================
+  // Search Helpers
+  // ============================================
+
   /**
-   * Load the embedding index
+   * k nearest records to a vector, honouring a pre-filter
    */
-  private async loadIndex(): Promise<void> {
-    if (!existsSync(this.indexFile)) {
-      return;
+  private findNeighbors(vector: number[], k: number, filter?: VectorFilter): HnswMatch[] {
+    const index = this.index;
+    if (!index || index.dimensions !== vector.length) return [];
+
+    if (!filter || Object.values(filter).every(value => value === undefined)) {
+      return index.search(vector, k, undefined, Math.max(EF_SEARCH, k));
     }
 
-    try {
-      const content = await readFile(this.indexFile, 'utf-8');
-      const index = JSON.parse(content) as string[];
-
-      // Load all embedding records
-      for (const id of index) {
-        const filePath = join(this.embeddingsDir, `${id}.json`);
-        if (existsSync(filePath)) {
-          try {
-            const content = await readFile(filePath, 'utf-8');
-            const record = JSON.parse(content) as EmbeddingRecord;
-            this.cache.set(id, record);
-          } catch {
-            // Skip corrupted files
-          }
-        }
-      }
-    } catch {
-      // Index corrupted, start fresh
+    const labels = this.filterLabels(filter);
+    if (labels.size === 0) return [];
+
+    // Narrow filters are cheaper (and exact) as a scan; wide ones walk the graph
+    if (labels.size <= EXACT_SEARCH_LIMIT) {
+      return index.exactSearch(vector, k, labels);
+    }
+    return index.search(vector, k, label => labels.has(label), Math.max(EF_SEARCH, k * 2));
+  }
+
+  private filterLabels(filter: VectorFilter): Set<number> {
+    const clauses = ['model = ?'];
+    const params: Array<string | number> = [this.provider.id];
+
+    if (filter.project !== undefined) {
+      clauses.push('project = ?');
+      params.push(filter.project);
+    }
+    if (filter.chatId !== undefined) {
+      clauses.push('chat_id = ?');
+      params.push(filter.chatId);
+    }
+    if (filter.kind !== undefined) {
+      const kinds = Array.isArray(filter.kind) ? filter.kind : [filter.kind];
+      clauses.push(`kind IN (${kinds.map(() => '?').join(',')})`);
+      params.push(...kinds);
     }
+
+    const rows = this.database().prepare(`SELECT label FROM vectors WHERE ${clauses.join(' AND ')}`).all(...params) as Array<{ label: number }>;
+    return new Set(rows.map(row => row.label));
+  }
+
+  private hydrate(matches: HnswMatch[]): SearchResult[] {
+    if (matches.length === 0) return [];
+
+    const placeholders = matches.map(() => '?').join(',');
+    const rows = this.database()
+      .prepare(`SELECT label, id, text, metadata FROM vectors WHERE label IN (${placeholders})`)
+      .all(...matches.map(m => m.label)) as Array<Pick<VectorRow, 'label' | 'id' | 'text' | 'metadata'>>;
+    const byLabel = new Map(rows.map(row => [row.label, row]));
+
+    return matches.flatMap(match => {
+      const row = byLabel.get(match.label);
+      if (!row) return [];
+      return [{
+        id: row.id,
+        text: row.text,
+        similarity: 1 - match.distance,
+        metadata: parseMetadata(row.metadata),
+      }];
+    });
+  }
+
+  // ============================================
+  // Index Management
+  // ============================================
+
+  private indexPath(model: string): string {
+    return join(this.embeddingsDir, `hnsw-${model.replace(/[^\w.-]+/g, '_')}.bin`);
   }
 
   /**
-   * Save a single embedding record
+   * Get the active model's index, creating it once the vector size is known
    */
-  private async saveRecord(record: EmbeddingRecord): Promise<void> {
-    const filePath = join(this.embeddingsDir, `${record.id}.json`);
-    await writeFile(filePath, JSON.stringify(record, null, 2));
+  private ensureIndex(dimensions: number): HnswIndex | null {
+    if (!this.index && dimensions > 0) {
+      this.index = new HnswIndex({ dimensions, efSearch: EF_SEARCH });
+      this.indexModel = this.provider.id;
+    }
+    return this.index;
   }
 
   /**
-   * Update the index file
+   * Load the active model's index from disk and reconcile it with the table
    */
-  private async updateIndex(): Promise<void> {
-    const ids = Array.from(this.cache.keys());
-    await writeFile(this.indexFile, JSON.stringify(ids, null, 2));
+  private async loadIndex(): Promise<void> {
+    const model = this.provider.id;
+    if (this.index && this.indexModel && this.indexModel !== model) {
+      await this.flush();
+    }
+
+    this.index = null;
+    this.indexModel = model;
+
+    const path = this.indexPath(model);
+    if (existsSync(path)) {
+      try {
+        this.index = HnswIndex.deserialize(await readFile(path), EF_SEARCH);
+      } catch (error) {
+        console.warn(`[VectorStore] Index for ${model} is unreadable, rebuilding:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    const db = this.database();
+    const rows = db.prepare('SELECT label, dimensions FROM vectors WHERE model = ?').all(model) as Array<{ label: number; dimensions: number }>;
+    const stored = new Set(rows.map(row => row.label));
+
+    if (!this.index && rows.length > 0) {
+      this.index = new HnswIndex({ dimensions: rows[0].dimensions, efSearch: EF_SEARCH });
+    }
+    if (!this.index) return;
+
+    // Drop nodes whose rows are gone, add rows the index missed
+    let changed = 0;
+    for (const label of this.index.labels()) {
+      if (!stored.has(label)) {
+        this.index.remove(label);
+        changed++;
+      }
+    }
+
+    const selectEmbedding = db.prepare('SELECT embedding FROM vectors WHERE label = ?');
+    for (const row of rows) {
+      if (this.index.has(row.label) || row.dimensions !== this.index.dimensions) continue;
+      const { embedding } = selectEmbedding.get(row.label) as Pick<VectorRow, 'embedding'>;
+      this.index.add(row.label, fromBlob(embedding));
+      changed++;
+    }
+
+    if (changed > 0) {
+      console.log(`[VectorStore] Index for ${model}: ${this.index.size} vectors (${changed} reconciled)`);
+      this.scheduleFlush();
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(error => console.error('[VectorStore] Failed to write index:', error));
+    }, FLUSH_DELAY_MS);
+    this.flushTimer.unref();
+  }
+
+  // ============================================
+  // Storage Helpers
+  // ============================================
+
+  private database(): Database.Database {
+    if (!this.db) throw new Error('Vector store not initialized');
+    return this.db;
+  }
+
+  private insertRecord(record: EmbeddingRecord): number {
+    const metadata = record.metadata;
+    const kind = metadata?.kind ?? metadata?.type;
+    const result = this.database().prepare(`
+      INSERT INTO vectors (id, text, model, dimensions, embedding, metadata, project, chat_id, kind, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.id,
+      record.text,
+      record.model ?? HASH_MODEL_ID,
+      record.dimensions ?? record.embedding.length,
+      toBlob(record.embedding),
+      metadata ? JSON.stringify(metadata) : null,
+      typeof metadata?.project === 'string' ? metadata.project : null,
+      typeof metadata?.chatId === 'number' ? metadata.chatId : null,
+      typeof kind === 'string' ? kind : null,
+      record.createdAt
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Move records from the old one-JSON-file-per-record layout into the table
+   */
+  private async migrateJsonRecords(): Promise<void> {
+    const legacyIndex = join(this.embeddingsDir, 'index.json');
+    if (!existsSync(legacyIndex)) {
+      return;
+    }
+
+    let ids: string[] = [];
+    try {
+      ids = JSON.parse(await readFile(legacyIndex, 'utf-8')) as string[];
+    } catch {
+      // Index corrupted, nothing to migrate
+    }
+
+    const records: EmbeddingRecord[] = [];
+    for (const id of ids) {
+      const filePath = join(this.embeddingsDir, `${id}.json`);
+      if (existsSync(filePath)) {
+        try {
+          records.push(JSON.parse(await readFile(filePath, 'utf-8')) as EmbeddingRecord);
+        } catch {
+          // Skip corrupted files
+        }
+      }
+    }
+
+    const exists = this.database().prepare('SELECT 1 FROM vectors WHERE id = ?');
+    this.database().transaction(() => {
+      for (const record of records) {
+        if (!exists.get(record.id)) this.insertRecord(record);
+      }
+    })();
+
+    for (const id of ids) {
+      await unlink(join(this.embeddingsDir, `${id}.json`)).catch(() => undefined);
+    }
+    await unlink(legacyIndex);
+    console.log(`[VectorStore] Migrated ${records.length} embedding(s) from JSON files`);
   }
 
   /**
    * Clear old embeddings (older than days)
    */
   async cleanupOldEmbeddings(daysOld = 90): Promise<number> {
+    await this.initialize();
+
     const cutoff = Date.now() - (daysOld * 24 * 60 * 60 * 1000);
-    let cleaned = 0;
+    const db = this.database();
+    const rows = db.prepare('SELECT label FROM vectors WHERE created_at < ?').all(cutoff) as Array<{ label: number }>;
 
-    for (const [id, record] of this.cache.entries()) {
-      if (record.createdAt < cutoff) {
-        await this.deleteEmbedding(id);
-        cleaned++;
-      }
+    db.prepare('DELETE FROM vectors WHERE created_at < ?').run(cutoff);
+    for (const row of rows) {
+      this.index?.remove(row.label);
     }
+    if (rows.length > 0) this.scheduleFlush();
 
-    return cleaned;
+    return rows.length;
   }
 
   /**
@@ -294,15 +702,21 @@ export class VectorStore {
     key: string,
     value: unknown
   ): Promise<SearchResult[]> {
+    await this.initialize();
+
+    const rows = this.database()
+      .prepare('SELECT id, text, metadata FROM vectors WHERE metadata IS NOT NULL')
+      .all() as Array<Pick<VectorRow, 'id' | 'text' | 'metadata'>>;
     const results: SearchResult[] = [];
 
-    for (const record of this.cache.values()) {
-      if (record.metadata && record.metadata[key] === value) {
+    for (const row of rows) {
+      const metadata = parseMetadata(row.metadata);
+      if (metadata && metadata[key] === value) {
         results.push({
-          id: record.id,
-          text: record.text,
+          id: row.id,
+          text: row.text,
           similarity: 1, // Exact match
-          metadata: record.metadata,
+          metadata,
         });
       }
     }
@@ -311,6 +725,40 @@ export class VectorStore {
   }
 }
 
+// ============================================
+// Helpers
+// ============================================
+
+function toBlob(embedding: number[]): Buffer {
+  const vector = Float32Array.from(embedding);
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+function fromBlob(blob: Buffer): Float32Array {
+  // Copy so the vector is aligned regardless of where SQLite put the bytes
+  const bytes = new Uint8Array(blob);
+  return new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+}
+
+function parseMetadata(metadata: string | null): Record<string, unknown> | undefined {
+  if (!metadata) return undefined;
+  try {
+    return JSON.parse(metadata) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
 // Global singleton
 let globalVectorStore: VectorStore | null = null;
 
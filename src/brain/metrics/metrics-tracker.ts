@@ -8,6 +8,7 @@
  * - Lines of code changed
  * - Active projects
  * - Server uptime
+ * - Claude tokens and estimated spend (per project and model)
  */
 
 import { join } from 'node:path';
@@ -33,6 +34,12 @@ export interface MetricsIncrement {
   filesModified?: number;
   linesOfCodeChanged?: number;
   activeProject?: string; // Add to active projects if provided
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+  costUsd?: number; // Attributed to activeProject and model when given
+  model?: string;
 }
 
 // ============================================
@@ -47,16 +54,7 @@ export class MetricsTracker {
 
   constructor() {
     const today = new Date().toISOString().split('T')[0];
-    this.metrics = {
-      date: today,
-      tasksCompleted: 0,
-      tasksFailed: 0,
-      claudeQueries: 0,
-      filesModified: 0,
-      linesOfCodeChanged: 0,
-      activeProjects: [],
-      uptimeMs: 0,
-    };
+    this.metrics = createEmptyMetrics(today);
     this.startTime = Date.now();
   }
 
@@ -122,6 +120,34 @@ export class MetricsTracker {
         changed = true;
       }
     }
+    if (increments.inputTokens) {
+      this.metrics.inputTokens += increments.inputTokens;
+      changed = true;
+    }
+    if (increments.outputTokens) {
+      this.metrics.outputTokens += increments.outputTokens;
+      changed = true;
+    }
+    if (increments.cacheCreationTokens) {
+      this.metrics.cacheCreationTokens += increments.cacheCreationTokens;
+      changed = true;
+    }
+    if (increments.cacheReadTokens) {
+      this.metrics.cacheReadTokens += increments.cacheReadTokens;
+      changed = true;
+    }
+    if (increments.costUsd) {
+      this.metrics.costUsd += increments.costUsd;
+      if (increments.activeProject) {
+        const byProject = this.metrics.costByProject;
+        byProject[increments.activeProject] = (byProject[increments.activeProject] ?? 0) + increments.costUsd;
+      }
+      if (increments.model) {
+        const byModel = this.metrics.costByModel;
+        byModel[increments.model] = (byModel[increments.model] ?? 0) + increments.costUsd;
+      }
+      changed = true;
+    }
 
     if (changed) {
       this.dirty = true;
@@ -134,7 +160,12 @@ export class MetricsTracker {
   getMetrics(): DailyMetrics {
     // Update uptime
     this.metrics.uptimeMs = Date.now() - this.startTime;
-    return { ...this.metrics };
+    return {
+      ...this.metrics,
+      activeProjects: [...this.metrics.activeProjects],
+      costByProject: { ...this.metrics.costByProject },
+      costByModel: { ...this.metrics.costByModel },
+    };
   }
 
   /**
@@ -158,7 +189,7 @@ export class MetricsTracker {
     if (existsSync(metricsPath)) {
       try {
         const content = await readFile(metricsPath, 'utf-8');
-        const loaded = JSON.parse(content) as DailyMetrics;
+        const loaded = normalizeMetrics(JSON.parse(content) as Partial<DailyMetrics>, today);
 
         // Verify it's for today
         if (loaded.date === today) {
@@ -214,16 +245,7 @@ export class MetricsTracker {
    */
   reset(): void {
     const today = new Date().toISOString().split('T')[0];
-    this.metrics = {
-      date: today,
-      tasksCompleted: 0,
-      tasksFailed: 0,
-      claudeQueries: 0,
-      filesModified: 0,
-      linesOfCodeChanged: 0,
-      activeProjects: [],
-      uptimeMs: 0,
-    };
+    this.metrics = createEmptyMetrics(today);
     this.startTime = Date.now();
     this.dirty = true;
     this.flush().catch(console.error);
@@ -242,7 +264,7 @@ export class MetricsTracker {
     if (existsSync(metricsPath)) {
       try {
         const content = await readFile(metricsPath, 'utf-8');
-        return JSON.parse(content) as DailyMetrics;
+        return normalizeMetrics(JSON.parse(content) as Partial<DailyMetrics>, date);
       } catch {
         return null;
       }
@@ -273,7 +295,7 @@ export class MetricsTracker {
       for (const file of files) {
         try {
           const content = await readFile(join(METRICS_DIR, file), 'utf-8');
-          results.push(JSON.parse(content) as DailyMetrics);
+          results.push(normalizeMetrics(JSON.parse(content) as Partial<DailyMetrics>, file.replace('.json', '')));
         } catch {
           // Skip invalid files
         }
@@ -291,16 +313,7 @@ export class MetricsTracker {
   async getAggregatedMetrics(startDate: string, endDate: string): Promise<DailyMetrics> {
     const metricsList = await this.getMetricsRange(startDate, endDate);
 
-    const aggregated: DailyMetrics = {
-      date: `${startDate} to ${endDate}`,
-      tasksCompleted: 0,
-      tasksFailed: 0,
-      claudeQueries: 0,
-      filesModified: 0,
-      linesOfCodeChanged: 0,
-      activeProjects: [],
-      uptimeMs: 0,
-    };
+    const aggregated = createEmptyMetrics(`${startDate} to ${endDate}`);
 
     const allProjects = new Set<string>();
 
@@ -311,6 +324,17 @@ export class MetricsTracker {
       aggregated.filesModified += m.filesModified;
       aggregated.linesOfCodeChanged += m.linesOfCodeChanged;
       aggregated.uptimeMs += m.uptimeMs;
+      aggregated.inputTokens += m.inputTokens;
+      aggregated.outputTokens += m.outputTokens;
+      aggregated.cacheCreationTokens += m.cacheCreationTokens;
+      aggregated.cacheReadTokens += m.cacheReadTokens;
+      aggregated.costUsd += m.costUsd;
+      for (const [project, cost] of Object.entries(m.costByProject)) {
+        aggregated.costByProject[project] = (aggregated.costByProject[project] ?? 0) + cost;
+      }
+      for (const [model, cost] of Object.entries(m.costByModel)) {
+        aggregated.costByModel[model] = (aggregated.costByModel[model] ?? 0) + cost;
+      }
       m.activeProjects.forEach(p => allProjects.add(p));
     }
 
@@ -319,6 +343,37 @@ export class MetricsTracker {
   }
 }
 
+// ============================================
+// Helpers
+// ============================================
+
+function createEmptyMetrics(date: string): DailyMetrics {
+  return {
+    date,
+    tasksCompleted: 0,
+    tasksFailed: 0,
+    claudeQueries: 0,
+    filesModified: 0,
+    linesOfCodeChanged: 0,
+    activeProjects: [],
+    uptimeMs: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    costUsd: 0,
+    costByProject: {},
+    costByModel: {},
+  };
+}
+
+/**
+ * Fill in fields missing from metric files written by older versions
+ */
+function normalizeMetrics(loaded: Partial<DailyMetrics>, date: string): DailyMetrics {
+  return { ...createEmptyMetrics(date), ...loaded };
+}
+
 // ============================================
 // Global Singleton
 // ============================================
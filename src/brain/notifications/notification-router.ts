@@ -3,12 +3,16 @@
  *
  * Manages notifications with priority levels, rate limiting, and digest functionality.
  * Prevents notification spam while ensuring important messages get through.
+ * Once initialized, failed and flaky tests, coverage drops, broken builds and
+ * vulnerable dependencies published on the event bus become notifications, as
+ * do worktrees about to be cleaned up.
  */
 
 import { readFile, writeFile, unlink } from 'node:fs/promises';
 import { existsSync, mkdirSync } from 'node:fs';
-import { join } from 'node:path';
+import { basename, join } from 'node:path';
 import { getBrain } from '../brain-manager.js';
+import { getEventBus, type BrainEvent, type BrainEventType } from '../events/event-bus.js';
 
 // Notification types
 export type NotificationType =
@@ -78,6 +82,7 @@ export class NotificationRouter {
   private pendingNotifications: Map<string, Notification> = new Map();
   private preferences: Map<number, NotificationPreferences> = new Map();
   private rateLimits: Map<string, RateLimitEntry> = new Map();
+  private unsubscribe?: () => void;
 
   // Rate limiting configuration
   private readonly RATE_LIMIT_WINDOW = 60000; // 1 minute
@@ -101,6 +106,135 @@ export class NotificationRouter {
     await this.loadPendingNotifications();
     await this.loadPreferences();
     await this.loadRateLimits();
+
+    if (!this.unsubscribe) {
+      this.unsubscribe = getEventBus().subscribe(
+        ['test.failed', 'test.flaky', 'coverage.dropped', 'heal.failed', 'build.broken', 'dependency.vulnerable', 'worktree.expiring'],
+        (event) => this.handleEvent(event),
+        { durable: 'notification-router' }
+      );
+    }
+  }
+
+  /**
+   * Stop turning bus events into notifications
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * Create a notification for a bus event; events without a chat are skipped
+   */
+  private async handleEvent(event: BrainEvent<BrainEventType>): Promise<void> {
+    switch (event.type) {
+      case 'test.failed': {
+        const run = (event as BrainEvent<'test.failed'>).payload;
+        if (run.chatId === undefined) return;
+        const names = run.failures.slice(0, 3).map(f => f.test).join(', ');
+        await this.createNotification(
+          'test',
+          `Tests failing in ${run.projectName ?? basename(run.projectPath)}`,
+          `${run.failed} failed, ${run.passed} passed${names ? `: ${names}` : ''}`,
+          run.chatId,
+          undefined,
+          { eventId: event.id, projectPath: run.projectPath }
+        );
+        break;
+      }
+
+      case 'test.flaky': {
+        const flaky = (event as BrainEvent<'test.flaky'>).payload;
+        if (flaky.chatId === undefined) return;
+        const evidence = flaky.reason === 'rerun'
+          ? 'It failed, then passed on a rerun without code changes.'
+          : 'It both passed and failed against the same code.';
+        await this.createNotification(
+          'test',
+          `Flaky test in ${basename(flaky.projectPath)}`,
+          `${flaky.test} (${flaky.file})\n${evidence} Failure rate ${Math.round(flaky.failureRate * 100)}%.` +
+            `${flaky.lastError ? `\nLast error: ${flaky.lastError}` : ''}` +
+            `\nIt won't be auto-fixed. Quarantine it with /tests quarantine ${flaky.id}`,
+          flaky.chatId,
+          undefined,
+          { eventId: event.id, projectPath: flaky.projectPath }
+        );
+        break;
+      }
+
+      case 'coverage.dropped': {
+        const run = (event as BrainEvent<'coverage.dropped'>).payload;
+        if (run.chatId === undefined) return;
+        const drops = run.drops.slice(0, 5).map(d => `${d.file ?? 'total'} ${d.metric}: ${d.previous}% → ${d.current}%`);
+        const changed = run.changedLines ? `\nChanged lines covered: ${run.changedLines.covered}/${run.changedLines.total}` : '';
+        await this.createNotification(
+          'test',
+          `Coverage dropped in ${run.projectName ?? basename(run.projectPath)}`,
+          `${drops.join('\n')}${changed}`,
+          run.chatId,
+          undefined,
+          { eventId: event.id, projectPath: run.projectPath }
+        );
+        break;
+      }
+
+      case 'heal.failed': {
+        const failure = (event as BrainEvent<'heal.failed'>).payload;
+        await this.createNotification(
+          'test',
+          `Could not auto-fix ${failure.testName}`,
+          `${failure.testFile}: ${failure.error.substring(0, 200)}`,
+          failure.chatId,
+          'high',
+          { eventId: event.id, projectPath: failure.projectPath }
+        );
+        break;
+      }
+
+      case 'build.broken': {
+        const build = (event as BrainEvent<'build.broken'>).payload;
+        if (build.chatId === undefined) return;
+        await this.createNotification(
+          'deployment',
+          `Build broken in ${basename(build.projectPath)}`,
+          `${build.workflow ?? build.provider} failed on ${build.branch} (${build.commit}: ${build.message})`,
+          build.chatId,
+          'high',
+          { eventId: event.id, projectPath: build.projectPath, url: build.url }
+        );
+        break;
+      }
+
+      case 'dependency.vulnerable': {
+        const { projectPath, chatId, vulnerabilities } = (event as BrainEvent<'dependency.vulnerable'>).payload;
+        const critical = vulnerabilities.some(v => v.severity === 'critical');
+        await this.createNotification(
+          'security',
+          `${vulnerabilities.length} vulnerable dependenc${vulnerabilities.length === 1 ? 'y' : 'ies'} in ${basename(projectPath)}`,
+          vulnerabilities.slice(0, 5).map(v => `${v.name} (${v.severity}): ${v.title}`).join('\n'),
+          chatId,
+          critical ? 'urgent' : 'high',
+          { eventId: event.id, projectPath }
+        );
+        break;
+      }
+
+      case 'worktree.expiring': {
+        const worktree = (event as BrainEvent<'worktree.expiring'>).payload;
+        await this.createNotification(
+          'info',
+          `Unreviewed worktree ${worktree.branch} in ${basename(worktree.projectPath)}`,
+          `It will be removed after ${new Date(worktree.removeAt).toLocaleString()}. ` +
+            'Merge, cherry-pick, open a PR or discard it with /worktrees. ' +
+            (worktree.keepsBranch ? 'The branch and its commits are kept.' : 'It has no unmerged commits.'),
+          worktree.chatId,
+          'high',
+          { eventId: event.id, projectPath: worktree.projectPath, worktreeId: worktree.worktreeId }
+        );
+        break;
+      }
+    }
   }
 
   /**
@@ -536,5 +670,6 @@ export function getNotificationRouter(): NotificationRouter {
 }
 
 export function resetNotificationRouter(): void {
+  globalNotificationRouter?.stop();
   globalNotificationRouter = null;
 }
@@ -2,8 +2,9 @@
  * Opportunity Detector - Continuous improvement scanning
  *
  * The Opportunity Detector continuously scans for improvement opportunities:
- * - Code refactoring opportunities (complexity, duplication)
- * - Test coverage gaps
+ * - Code refactoring opportunities (complexity, duplication, dead exports,
+ *   circular imports)
+ * - Test coverage gaps (uncovered regions of the latest watched test run)
  * - Dependency updates available
  * - Documentation gaps
  * - Performance optimization opportunities
@@ -12,7 +13,7 @@
  * Detection runs:
  * - On schedule (e.g., daily)
  * - On demand via command
- * - After code changes
+ * - After code changes (a scheduled scan is brought forward)
  * - As background task
  */
 
@@ -20,6 +21,9 @@ import { getMemoryStore } from '../memory/memory-store.js';
 import { getCodeAnalyzer } from '../analyzer/code-analyzer.js';
 import { getDependencyManager } from '../dependency/dependency-manager.js';
 import { getRefactoringAgent } from '../refactoring/refactoring-agent.js';
+import { getChangeDetector, type FileChangeEvent } from '../context/change-detector.js';
+import { getTestWatcher } from '../tests/test-watcher.js';
+import { formatLineRanges, type LineRange } from '../tests/coverage.js';
 
 // ============================================
 // Types
@@ -144,10 +148,14 @@ const DETECTOR_CONFIG = {
   // Auto-dismiss threshold
   autoDismissAge: 30 * 24 * 60 * 60 * 1000,
 
+  // Scheduled scans run at most this long after files change
+  changeRescanDelay: 15 * 60 * 1000,
+
   // Thresholds for different types
   thresholds: {
     complexity: { high: 10, veryHigh: 15 },
     duplication: { minLines: 30, minSimilarity: 0.8 },
+    coverage: { minUncoveredLines: 5, maxPerScan: 20 },
   },
 };
 
@@ -161,6 +169,7 @@ export class OpportunityDetector {
   private schedules = new Map<string, ScanSchedule>();
   private active = false;
   private scanTimer?: NodeJS.Timeout;
+  private unsubscribeChanges?: () => void;
 
   /**
    * Start the detector
@@ -175,6 +184,9 @@ export class OpportunityDetector {
     // Start scheduled scans
     this.startScheduledScans();
 
+    // Rescan sooner when a scheduled project changes
+    this.unsubscribeChanges = getChangeDetector().onChange(event => this.handleFileChanges(event));
+
     console.log('[OpportunityDetector] Started');
   }
 
@@ -187,6 +199,8 @@ export class OpportunityDetector {
       clearTimeout(this.scanTimer);
       this.scanTimer = undefined;
     }
+    this.unsubscribeChanges?.();
+    this.unsubscribeChanges = undefined;
     console.log('[OpportunityDetector] Stopped');
   }
 
@@ -268,6 +282,8 @@ export class OpportunityDetector {
         return this.scanSecurity(projectPath, chatId, minConfidence);
       case 'refactoring':
         return this.scanRefactoring(projectPath, chatId, minConfidence);
+      case 'test_coverage':
+        return this.scanCoverage(projectPath, chatId, minConfidence);
       default:
         return [];
     }
@@ -553,6 +569,7 @@ export class OpportunityDetector {
               `Type: ${opp.type}`,
               `Complexity: ${opp.complexity}`,
               `Risk: ${opp.risk}`,
+              ...(opp.evidence ?? []).slice(0, 10),
             ],
             filePath: opp.filePath,
             lineNumber: opp.lineNumber,
@@ -572,6 +589,91 @@ export class OpportunityDetector {
     return opportunities;
   }
 
+  /**
+   * Scan for untested code: functions the latest full test run never called,
+   * and other uncovered regions. Lines changed since the last commit that no
+   * test runs come first. Needs coverage from a watched run.
+   */
+  private async scanCoverage(projectPath: string, chatId: number, minConfidence: number): Promise<ImprovementOpportunity[]> {
+    const opportunities: ImprovementOpportunity[] = [];
+    const { minUncoveredLines, maxPerScan } = DETECTOR_CONFIG.thresholds.coverage;
+
+    try {
+      const [snapshot] = await getTestWatcher().getCoverageHistory(projectPath, 1, { full: true });
+      if (!snapshot?.files) return [];
+
+      // Older runs may describe code that has changed since
+      const age = Date.now() - snapshot.timestamp;
+      if (age > DETECTOR_CONFIG.opportunityExpiration) return [];
+      const confidence = age > DETECTOR_CONFIG.defaultScanInterval ? 0.75 : 0.9;
+      if (confidence < minConfidence) return [];
+
+      const changed = new Map((snapshot.changedLines?.files ?? []).map(file => [file.file, file.uncoveredLines]));
+
+      for (const file of snapshot.files) {
+        if (isTestFile(file.file) || file.uncoveredLines.length === 0) continue;
+
+        const regions = mergeUncoveredRegions(file.uncoveredLines, file.uncoveredFunctions.map(fn => fn.line));
+        const changedUncovered = changed.get(file.file) ?? [];
+        const fileEvidence = `File coverage: ${file.lines.pct}% of lines (${file.lines.covered}/${file.lines.total})`;
+
+        const toOpportunity = (region: LineRange, functionName?: string): ImprovementOpportunity => {
+          const lines = countLines(file.uncoveredLines, region);
+          const isChanged = changedUncovered.some(([start, end]) => start <= region[1] && end >= region[0]);
+          const where = functionName ? `${functionName} in ${file.file}` : `${file.file}:${region[0]}-${region[1]}`;
+
+          return {
+            id: this.generateOpportunityId(),
+            type: 'test_coverage',
+            priority: isChanged ? 'high' : file.lines.pct < 50 ? 'medium' : 'low',
+            status: 'detected',
+            projectPath,
+            chatId,
+            title: functionName ? `Untested function: ${functionName}` : `Untested code in ${file.file}`,
+            description: `${lines} line${lines === 1 ? '' : 's'} of ${where} never ran in the last full test run${isChanged ? ', including lines changed since the last commit' : ''}`,
+            evidence: [
+              `Uncovered lines: ${formatLineRanges(file.uncoveredLines.filter(([start, end]) => start >= region[0] && end <= region[1])).substring(0, 200)}`,
+              fileEvidence,
+              ...(snapshot.commit ? [`Coverage from commit ${snapshot.commit.substring(0, 7)}`] : []),
+            ],
+            filePath: file.file,
+            functionName,
+            lineNumber: region[0],
+            estimatedEffort: Math.min(120, 15 + lines * 2),
+            estimatedImpact: Math.min(1, (lines / 50) + (isChanged ? 0.3 : 0)),
+            confidence,
+            suggestedAction: functionName
+              ? `Add tests that call ${functionName}`
+              : `Add tests that exercise lines ${region[0]}-${region[1]} of ${file.file}`,
+            canAutoApply: false,
+            detectedAt: Date.now(),
+          };
+        };
+
+        // Functions that never ran, then what's left of larger uncovered regions
+        const claimed = new Set<LineRange>();
+        for (const fn of file.uncoveredFunctions) {
+          const region = regions.find(([start, end]) => fn.line >= start && fn.line <= end);
+          if (!region) continue;
+          claimed.add(region);
+          opportunities.push(toOpportunity(region, fn.name));
+        }
+        for (const region of regions) {
+          if (claimed.has(region) || countLines(file.uncoveredLines, region) < minUncoveredLines) continue;
+          opportunities.push(toOpportunity(region));
+        }
+      }
+    } catch (error) {
+      console.error('[OpportunityDetector] Error scanning coverage:', error);
+    }
+
+    // Changed code first, then the largest gaps
+    const priorityOrder = ['low', 'medium', 'high', 'critical'];
+    return opportunities
+      .sort((a, b) => priorityOrder.indexOf(b.priority) - priorityOrder.indexOf(a.priority) || b.estimatedEffort - a.estimatedEffort)
+      .slice(0, maxPerScan);
+  }
+
   /**
    * Get opportunities for a project
    */
@@ -694,6 +796,24 @@ export class OpportunityDetector {
     this.startScheduledScans();
   }
 
+  /**
+   * Bring scheduled scans of a changed project forward
+   */
+  private handleFileChanges(event: FileChangeEvent): void {
+    const soon = Date.now() + DETECTOR_CONFIG.changeRescanDelay;
+    let moved = false;
+
+    for (const schedule of this.schedules.values()) {
+      if (!schedule.enabled || schedule.projectPath.replace(/\\/g, '/') !== event.projectPath) continue;
+      if (!schedule.nextScan || schedule.nextScan > soon) {
+        schedule.nextScan = soon;
+        moved = true;
+      }
+    }
+
+    if (moved) this.startScheduledScans();
+  }
+
   /**
    * Stop scheduled scans
    */
@@ -917,6 +1037,37 @@ export class OpportunityDetector {
   }
 }
 
+// ============================================
+// Coverage Helpers
+// ============================================
+
+function isTestFile(file: string): boolean {
+  return /\.(?:test|spec)\.[cm]?[jt]sx?$|(?:^|\/)(?:__tests__|tests?)\/|_test\.(?:go|py)$|(?:^|\/)test_[^/]*\.py$/.test(file);
+}
+
+/**
+ * Join uncovered ranges split by a single line that isn't executable (a blank
+ * line, a comment, a closing brace), but not across the start of a function
+ */
+function mergeUncoveredRegions(uncovered: LineRange[], functionLines: number[]): LineRange[] {
+  const regions: LineRange[] = [];
+  for (const range of uncovered) {
+    const last = regions[regions.length - 1];
+    if (last && range[0] - last[1] <= 2 && !functionLines.some(line => line > last[1] && line <= range[1])) {
+      last[1] = range[1];
+    } else {
+      regions.push([range[0], range[1]]);
+    }
+  }
+  return regions;
+}
+
+function countLines(ranges: LineRange[], region: LineRange): number {
+  return ranges
+    .filter(([start, end]) => start >= region[0] && end <= region[1])
+    .reduce((sum, [start, end]) => sum + end - start + 1, 0);
+}
+
 // ============================================
 // Global Singleton
 // ============================================
@@ -178,6 +178,20 @@ export class RecoveryManager {
     return info;
   }
 
+  /**
+   * Garbage-collect stale Claude worktrees
+   * Called once notifications are up, since expiring worktrees are announced to their chat.
+   */
+  async collectStaleWorktrees(): Promise<number> {
+    try {
+      const { getWorktreeManager } = await import('../git/worktree-manager.js');
+      return await getWorktreeManager().collectGarbage();
+    } catch (error) {
+      console.error('[RecoveryManager] Failed to clean up worktrees:', error);
+      return 0;
+    }
+  }
+
   /**
    * Create a crash report
    */
@@ -5,8 +5,9 @@
  * - Extract repeated code into functions
  * - Simplify complex functions
  * - Rename variables for clarity
- * - Remove dead code
+ * - Remove dead code (exports nothing imports, from the reference graph)
  * - Consolidate duplicate code
+ * - Break circular imports
  *
  * Safety policies:
  * - Only refactor if tests pass
@@ -22,6 +23,8 @@ import { getOrchestrator } from '../agents/agent-orchestrator.js';
 import { getMemoryStore } from '../memory/memory-store.js';
 import { getGitAutomation } from '../git/git-automation.js';
 import { getTestWatcher } from '../tests/test-watcher.js';
+import { getContextIndexer } from '../context/context-indexer.js';
+import type { DeadExport, ReferenceGraph } from '../context/reference-graph.js';
 
 // ============================================
 // Types
@@ -38,7 +41,8 @@ export type RefactoringType =
   | 'extract_constant'     // Extract magic numbers/strings to constants
   | 'split_function'       // Split a long function into smaller ones
   | 'consolidate'          // Consolidate similar functions
-  | 'remove_dead_code';    // Remove unused code
+  | 'remove_dead_code'     // Remove unused code
+  | 'break_import_cycle';  // Untangle files that import each other
 
 /**
  * Refactoring complexity
@@ -62,6 +66,7 @@ export interface RefactoringOpportunity {
   description: string;
   suggestedChange: string;
   lineNumber?: number;
+  evidence?: string[];       // Supporting details, e.g. the files in an import cycle
   confidence: number;        // 0-1
   estimatedEffort: number;   // minutes
   projectPath: string;
@@ -122,6 +127,9 @@ const REFACTORING_CONFIG = {
   // Maximum changes per auto-refactoring
   maxAutoChanges: 5,
 
+  // Maximum dead-export and import-cycle opportunities per scan
+  maxGraphOpportunities: 10,
+
   // Check interval (ms) - 1 hour
   checkInterval: 60 * 60 * 1000,
 };
@@ -226,6 +234,15 @@ export class RefactoringAgent {
       this.opportunities.set(opportunity.id, opportunity);
     }
 
+    // Dead exports and circular imports, from the project's reference graph
+    const graph = await getContextIndexer().getGraph(projectPath);
+    if (graph) {
+      for (const opportunity of this.createGraphOpportunities(projectPath, graph, chatId)) {
+        opportunities.push(opportunity);
+        this.opportunities.set(opportunity.id, opportunity);
+      }
+    }
+
     // Store opportunities
     await this.memory.setFact(`refactoring_opportunities:${projectPath}`, opportunities);
 
@@ -283,7 +300,18 @@ export class RefactoringAgent {
       // Perform the refactoring
       const result = await this.performRefactoring(opportunity);
 
-      if (result.success) {
+      if (result.success && result.worktreeId) {
+        // Isolated in a worktree: the user reviews and merges it, nothing to test or commit here
+        changes = result.changes;
+        success = true;
+
+        await this.memory.setFact(`refactoring_result:${opportunityId}`, {
+          success: true,
+          changes,
+          worktreeId: result.worktreeId,
+          timestamp: Date.now(),
+        });
+      } else if (result.success) {
         changes = result.changes;
 
         // Run tests after refactoring
@@ -347,7 +375,7 @@ export class RefactoringAgent {
    */
   private async performRefactoring(
     opportunity: RefactoringOpportunity
-  ): Promise<{ success: boolean; changes: Array<{ file: string; linesChanged: number; description: string }>; errorMessage?: string }> {
+  ): Promise<{ success: boolean; changes: Array<{ file: string; linesChanged: number; description: string }>; errorMessage?: string; worktreeId?: string }> {
     const orchestrator = getOrchestrator();
 
     // Build prompt (for future use - could be passed to orchestrator)
@@ -373,6 +401,7 @@ export class RefactoringAgent {
             linesChanged: 1,
             description: c.type,
           })) || [],
+          worktreeId: result.worktreeId,
         };
       } else {
         return {
@@ -404,6 +433,7 @@ export class RefactoringAgent {
       split_function: 'Split the long function into smaller, focused functions.',
       consolidate: 'Consolidate similar functions by parameterizing differences.',
       remove_dead_code: 'Remove the unused code and imports.',
+      break_import_cycle: 'Break the circular import, e.g. by moving shared code into a module both can import.',
     };
 
     return `
@@ -415,7 +445,7 @@ ${opportunity.lineNumber ? `Line: ${opportunity.lineNumber}` : ''}
 Description: ${opportunity.description}
 
 Suggested Change: ${opportunity.suggestedChange}
-
+${opportunity.evidence?.length ? `\nDetails:\n${opportunity.evidence.map(line => `- ${line}`).join('\n')}\n` : ''}
 Project: ${opportunity.projectPath}
 
 Please perform this refactoring while preserving the exact same behavior.
@@ -479,6 +509,64 @@ Please perform this refactoring while preserving the exact same behavior.
     };
   }
 
+  /**
+   * Create dead-export and import-cycle opportunities from the reference graph
+   */
+  private createGraphOpportunities(
+    projectPath: string,
+    graph: ReferenceGraph,
+    chatId: number
+  ): RefactoringOpportunity[] {
+    const opportunities: RefactoringOpportunity[] = [];
+
+    // One opportunity per import cycle
+    for (const cycle of graph.findCircularImports()) {
+      opportunities.push({
+        id: this.generateOpportunityId(),
+        type: 'break_import_cycle',
+        complexity: cycle.length > 5 ? 'complex' : 'moderate',
+        risk: cycle.length > 5 ? 'high' : 'medium',
+        filePath: cycle[0],
+        description: `Circular import between ${cycle.length} files`,
+        suggestedChange: `Break the cycle between ${cycle.slice(0, 3).join(', ')}${cycle.length > 3 ? ', ...' : ''}`,
+        evidence: cycle,
+        confidence: 0.9,
+        estimatedEffort: cycle.length * 15, // minutes
+        projectPath,
+        chatId,
+        timestamp: Date.now(),
+      });
+    }
+
+    // One opportunity per file with unused exports
+    const deadByFile = new Map<string, DeadExport[]>();
+    for (const dead of graph.findDeadExports()) {
+      if (!deadByFile.has(dead.file)) deadByFile.set(dead.file, []);
+      deadByFile.get(dead.file)!.push(dead);
+    }
+    for (const [file, dead] of deadByFile) {
+      const names = dead.map(d => d.name);
+      opportunities.push({
+        id: this.generateOpportunityId(),
+        type: 'remove_dead_code',
+        complexity: 'trivial',
+        risk: 'low', // Dynamic imports and external consumers are invisible to the graph
+        filePath: file,
+        description: `${names.length} unused export(s) in ${file}`,
+        suggestedChange: `Remove or stop exporting ${names.slice(0, 5).join(', ')}${names.length > 5 ? ', ...' : ''}`,
+        lineNumber: dead[0].line,
+        evidence: dead.map(d => `${d.kind} ${d.name}${d.line ? ` (line ${d.line})` : ''}`),
+        confidence: 0.75,
+        estimatedEffort: names.length * 2, // minutes
+        projectPath,
+        chatId,
+        timestamp: Date.now(),
+      });
+    }
+
+    return opportunities.slice(0, REFACTORING_CONFIG.maxGraphOpportunities);
+  }
+
   /**
    * Check if an opportunity should be auto-refactored
    */
@@ -569,6 +657,7 @@ Please perform this refactoring while preserving the exact same behavior.
       split_function: 0,
       consolidate: 0,
       remove_dead_code: 0,
+      break_import_cycle: 0,
     };
 
     const byRisk: Record<RefactoringRisk, number> = {
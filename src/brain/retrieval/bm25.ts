@@ -0,0 +1,178 @@
+/**
+ * BM25 - In-memory inverted index with Okapi BM25 ranking
+ *
+ * Documents are tokenized into lowercase terms; identifiers are also split on
+ * camelCase and snake_case boundaries so `handleUserLogin` matches "login".
+ * Documents can be added, replaced and removed incrementally.
+ */
+
+// ============================================
+// Configuration
+// ============================================
+
+const K1 = 1.2; // Term frequency saturation
+const B = 0.75; // Length normalization
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'what', 'when', 'where', 'which', 'with', 'do', 'does', 'did', 'we', 'you',
+]);
+
+// ============================================
+// Types
+// ============================================
+
+export interface Bm25Match {
+  id: string;
+  score: number;
+  terms: string[]; // Query terms found in the document
+}
+
+interface Posting {
+  termFrequencies: Map<string, number>; // doc id -> tf
+}
+
+// ============================================
+// Tokenizer
+// ============================================
+
+/**
+ * Split text into index terms
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const word of text.match(/[\p{L}\p{N}_]+/gu) ?? []) {
+    const lower = word.toLowerCase();
+    const parts = word
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .map(part => part.toLowerCase())
+      .filter(Boolean);
+
+    if (!STOPWORDS.has(lower)) terms.push(stem(lower));
+    if (parts.length > 1) {
+      for (const part of parts) {
+        if (!STOPWORDS.has(part)) terms.push(stem(part));
+      }
+    }
+  }
+
+  return terms.filter(term => term.length > 1 || /\d/.test(term));
+}
+
+/**
+ * Light suffix stripping so plurals and simple inflections match
+ */
+function stem(term: string): string {
+  if (term.length <= 4) return term;
+  if (term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.endsWith('ing') && term.length > 5) return term.slice(0, -3);
+  if (term.endsWith('ed') && term.length > 4) return term.slice(0, -2);
+  if (term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+// ============================================
+// BM25 Index Class
+// ============================================
+
+export class Bm25Index {
+  private postings = new Map<string, Posting>();
+  private docLengths = new Map<string, number>();
+  private docTerms = new Map<string, string[]>(); // Unique terms per doc, for removal
+  private totalLength = 0;
+
+  get size(): number {
+    return this.docLengths.size;
+  }
+
+  has(id: string): boolean {
+    return this.docLengths.has(id);
+  }
+
+  /**
+   * Add or replace a document
+   */
+  add(id: string, text: string): void {
+    if (this.docLengths.has(id)) this.remove(id);
+
+    const terms = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    }
+
+    for (const [term, tf] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = { termFrequencies: new Map() };
+        this.postings.set(term, posting);
+      }
+      posting.termFrequencies.set(id, tf);
+    }
+
+    this.docLengths.set(id, terms.length);
+    this.docTerms.set(id, Array.from(frequencies.keys()));
+    this.totalLength += terms.length;
+  }
+
+  /**
+   * Remove a document
+   */
+  remove(id: string): boolean {
+    const length = this.docLengths.get(id);
+    if (length === undefined) return false;
+
+    for (const term of this.docTerms.get(id) ?? []) {
+      const posting = this.postings.get(term);
+      posting?.termFrequencies.delete(id);
+      if (posting && posting.termFrequencies.size === 0) this.postings.delete(term);
+    }
+
+    this.docLengths.delete(id);
+    this.docTerms.delete(id);
+    this.totalLength -= length;
+    return true;
+  }
+
+  /**
+   * Rank documents containing any query term
+   */
+  search(query: string, limit = 10, accept?: (id: string) => boolean): Bm25Match[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.size === 0) return [];
+
+    const averageLength = this.totalLength / this.size || 1;
+    const scores = new Map<string, Bm25Match>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const df = posting.termFrequencies.size;
+      const idf = Math.log(1 + (this.size - df + 0.5) / (df + 0.5));
+
+      for (const [id, tf] of posting.termFrequencies) {
+        if (accept && !accept(id)) continue;
+
+        const length = this.docLengths.get(id) ?? 0;
+        const score = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / averageLength));
+
+        const match = scores.get(id);
+        if (match) {
+          match.score += score;
+          match.terms.push(term);
+        } else {
+          scores.set(id, { id, score, terms: [term] });
+        }
+      }
+    }
+
+    return Array.from(scores.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
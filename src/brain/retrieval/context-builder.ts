@@ -0,0 +1,301 @@
+/**
+ * Context Builder - Retrieval-augmented preamble for Claude prompts
+ *
+ * For each prompt, picks the most relevant remembered facts, project
+ * decisions, learned conventions and indexed files, and renders them as a
+ * structured preamble that fits a token budget. Pinned memories are always
+ * candidates and outrank everything else. The last context built for
+ * each chat is kept so `/context why` can show what was injected and why.
+ */
+
+import { getPatternLearner } from '../learning/pattern-learner.js';
+import { getMemoryConsolidator } from '../memory/memory-consolidator.js';
+import { getRetrievalService, memoryDocumentId, type RetrievalResult, type RetrievalSource } from './retrieval-service.js';
+
+// ============================================
+// Configuration
+// ============================================
+
+const CHARS_PER_TOKEN = 4; // Rough estimate, good enough for budgeting
+const ITEM_MAX_CHARS = 400;
+const RETRIEVAL_LIMIT = 16;
+const MIN_SIMILARITY = 0.5; // Vector-only hits below this are left out
+const MIN_CONVENTION_CONFIDENCE = 0.6;
+const MAX_CONVENTIONS = 5;
+const MAX_LIBRARIES = 8;
+const CONVENTION_SCORE = 0.5; // Conventions compete with retrieval hits at this score
+const PINNED_SCORE = 2; // Above any retrieval score
+
+const INJECTED_SOURCES: RetrievalSource[] = ['fact', 'decision', 'code'];
+
+// ============================================
+// Types
+// ============================================
+
+export type ContextSection = 'convention' | 'fact' | 'decision' | 'code';
+
+export interface ContextItem {
+  id: string;
+  section: ContextSection;
+  line: string; // Rendered preamble line
+  tokens: number;
+  score: number; // 0..1 (2 for pinned), higher is injected first
+  reason: string; // Why it was picked, for /context why
+}
+
+export interface ContextRequest {
+  prompt: string;
+  chatId: number;
+  projectPath?: string;
+  projectName?: string; // Limits pinned memories to this project
+  budgetTokens: number;
+}
+
+export interface InjectedContext {
+  prompt: string;
+  projectPath?: string;
+  preamble: string; // Empty when nothing was relevant
+  items: ContextItem[]; // Injected, in preamble order
+  skipped: ContextItem[]; // Relevant but over budget
+  tokens: number;
+  budgetTokens: number;
+  builtAt: number;
+}
+
+const SECTION_TITLES: Record<ContextSection, string> = {
+  convention: 'Project conventions',
+  fact: 'Remembered facts',
+  decision: 'Project decisions',
+  code: 'Relevant files',
+};
+
+const SECTION_ORDER: ContextSection[] = ['convention', 'fact', 'decision', 'code'];
+
+// ============================================
+// Context Builder Class
+// ============================================
+
+export class ContextBuilder {
+  private lastContext = new Map<number, InjectedContext>();
+
+  /**
+   * Select context for a prompt and render the preamble
+   */
+  async build(request: ContextRequest): Promise<InjectedContext> {
+    // The same memory can be both pinned and retrieved; keep its best score
+    const byId = new Map<string, ContextItem>();
+    for (const item of [
+      ...this.collectPinned(request),
+      ...(await this.collectConventions(request.projectPath)),
+      ...(await this.collectRetrieved(request)),
+    ]) {
+      if ((byId.get(item.id)?.score ?? -1) < item.score) byId.set(item.id, item);
+    }
+    const candidates = Array.from(byId.values()).sort((a, b) => b.score - a.score);
+
+    // Header and section titles are small; reserve them up front
+    let tokens = estimateTokens(renderPreamble([])) +
+      SECTION_ORDER.reduce((sum, section) => sum + estimateTokens(`## ${SECTION_TITLES[section]}`) + 1, 0);
+    const items: ContextItem[] = [];
+    const skipped: ContextItem[] = [];
+
+    for (const item of candidates) {
+      if (tokens + item.tokens <= request.budgetTokens) {
+        items.push(item);
+        tokens += item.tokens;
+      } else {
+        skipped.push(item);
+      }
+    }
+
+    items.sort((a, b) => SECTION_ORDER.indexOf(a.section) - SECTION_ORDER.indexOf(b.section));
+    const preamble = items.length > 0 ? renderPreamble(items) : '';
+
+    const context: InjectedContext = {
+      prompt: request.prompt,
+      projectPath: request.projectPath,
+      preamble,
+      items,
+      skipped,
+      tokens: preamble ? estimateTokens(preamble) : 0,
+      budgetTokens: request.budgetTokens,
+      builtAt: Date.now(),
+    };
+    this.lastContext.set(request.chatId, context);
+    return context;
+  }
+
+  /**
+   * Prepend the preamble to a prompt
+   */
+  apply(prompt: string, context: InjectedContext): string {
+    return context.preamble ? `${context.preamble}\n\n${prompt}` : prompt;
+  }
+
+  /**
+   * The context injected into the chat's most recent prompt
+   */
+  getLastContext(chatId: number): InjectedContext | null {
+    return this.lastContext.get(chatId) ?? null;
+  }
+
+  // ============================================
+  // Candidates
+  // ============================================
+
+  private collectPinned(request: ContextRequest): ContextItem[] {
+    return getMemoryConsolidator()
+      .list(request.chatId, { pinned: true, project: request.projectName })
+      .map(entry => makeItem(
+        memoryDocumentId(entry),
+        entry.kind === 'decision' ? 'decision' : 'fact',
+        entry.kind === 'todo' ? `TODO: ${truncate(entry.text)}` : truncate(entry.text),
+        PINNED_SCORE,
+        'pinned memory'
+      ));
+  }
+
+  private async collectConventions(projectPath?: string): Promise<ContextItem[]> {
+    if (!projectPath) return [];
+
+    const patterns = await getPatternLearner().getPatterns(projectPath);
+    if (!patterns) return [];
+
+    const items: ContextItem[] = [];
+    const conventions = Array.from(patterns.namingConventions.entries())
+      .filter(([, convention]) => convention.confidence >= MIN_CONVENTION_CONFIDENCE)
+      .sort((a, b) => b[1].confidence - a[1].confidence)
+      .slice(0, MAX_CONVENTIONS);
+
+    for (const [category, convention] of conventions) {
+      const examples = convention.examples.slice(0, 3).join(', ');
+      items.push(makeItem(
+        `convention:naming:${category}`,
+        'convention',
+        `${capitalize(category)} names use ${convention.type}${examples ? ` (e.g. ${examples})` : ''}`,
+        CONVENTION_SCORE * convention.confidence,
+        `learned naming convention, confidence ${Math.round(convention.confidence * 100)}%`
+      ));
+    }
+
+    const libraries = Array.from(patterns.libraries.values())
+      .sort((a, b) => b.importCount - a.importCount)
+      .slice(0, MAX_LIBRARIES);
+
+    if (libraries.length > 0) {
+      items.push(makeItem(
+        'convention:libraries',
+        'convention',
+        `Libraries in use: ${libraries.map(library => library.name).join(', ')}`,
+        CONVENTION_SCORE,
+        `most imported libraries (${libraries.length})`
+      ));
+    }
+
+    return items;
+  }
+
+  private async collectRetrieved(request: ContextRequest): Promise<ContextItem[]> {
+    const results = await getRetrievalService().search({
+      query: request.prompt,
+      sources: INJECTED_SOURCES,
+      chatId: request.chatId,
+      project: request.projectPath,
+      limit: RETRIEVAL_LIMIT,
+    });
+
+    return results
+      .filter(isRelevant)
+      .map(result => makeItem(
+        result.document.id,
+        result.document.source as ContextSection,
+        renderLine(result),
+        result.score,
+        explain(result)
+      ));
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Keyword matches always count; vector-only matches need a decent similarity
+ */
+function isRelevant(result: RetrievalResult): boolean {
+  if (result.explanation.lexical) return true;
+  return (result.explanation.semantic?.similarity ?? 0) >= MIN_SIMILARITY;
+}
+
+function renderLine(result: RetrievalResult): string {
+  const doc = result.document;
+  if (doc.source !== 'code') {
+    return `${doc.title}: ${truncate(doc.text)}`;
+  }
+  // Symbol docs read "function foo in src/x.ts"; file docs are titled by their path
+  return doc.location && doc.location !== doc.title
+    ? `${doc.location}: ${doc.text.split(' in ')[0]}`
+    : truncate(doc.text);
+}
+
+function explain(result: RetrievalResult): string {
+  const parts: string[] = [];
+  if (result.explanation.lexical) {
+    parts.push(`keywords ${result.explanation.lexical.terms.join(', ')}`);
+  }
+  if (result.explanation.semantic) {
+    parts.push(`similarity ${Math.round(result.explanation.semantic.similarity * 100)}%`);
+  }
+  return parts.join(' + ');
+}
+
+function makeItem(id: string, section: ContextSection, text: string, score: number, reason: string): ContextItem {
+  const line = `- ${text.replace(/\s+/g, ' ').trim()}`;
+  return { id, section, line, tokens: estimateTokens(line) + 1, score, reason };
+}
+
+function renderPreamble(items: ContextItem[]): string {
+  const parts = [
+    '<bridge-context>',
+    'Background retrieved from this bridge\'s memory. It may be incomplete or out of date; the request below takes priority.',
+  ];
+
+  for (const section of SECTION_ORDER) {
+    const lines = items.filter(item => item.section === section).map(item => item.line);
+    if (lines.length === 0) continue;
+    parts.push('', `## ${SECTION_TITLES[section]}`, ...lines);
+  }
+
+  parts.push('</bridge-context>');
+  return parts.join('\n');
+}
+
+function truncate(text: string): string {
+  return text.length > ITEM_MAX_CHARS ? `${text.substring(0, ITEM_MAX_CHARS)}...` : text;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// ============================================
+// Global Singleton
+// ============================================
+
+let globalContextBuilder: ContextBuilder | null = null;
+
+export function getContextBuilder(): ContextBuilder {
+  if (!globalContextBuilder) {
+    globalContextBuilder = new ContextBuilder();
+  }
+  return globalContextBuilder;
+}
+
+export function resetContextBuilder(): void {
+  globalContextBuilder = null;
+}
@@ -0,0 +1,10 @@
+/**
+ * Retrieval module exports
+ */
+
+export { RetrievalService, getRetrievalService, resetRetrievalService, RETRIEVAL_SOURCES } from './retrieval-service.js';
+export type { RetrievalSource, RetrievalDocument, RetrievalQuery, RetrievalResult, RetrievalExplanation, RetrievalStats } from './retrieval-service.js';
+export { Bm25Index, tokenize } from './bm25.js';
+export type { Bm25Match } from './bm25.js';
+export { ContextBuilder, getContextBuilder, resetContextBuilder, estimateTokens } from './context-builder.js';
+export type { ContextSection, ContextItem, ContextRequest, InjectedContext } from './context-builder.js';
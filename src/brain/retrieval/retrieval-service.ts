@@ -0,0 +1,478 @@
+/**
+ * Retrieval Service - One hybrid search over conversations, memory and code
+ *
+ * Every searchable item (chat messages, facts, project decisions, consolidated
+ * memories, indexed code symbols) becomes a RetrievalDocument. Documents are ranked two ways:
+ * - Lexically, with a BM25 inverted index kept in memory
+ * - Semantically, with vectors in the VectorStore (kind `retrieval-<source>`)
+ * and the two rankings are merged with Reciprocal Rank Fusion. Each result
+ * carries an explanation of where its score came from.
+ *
+ * Documents are synced from their sources before each search, and whenever
+ * the code index picks up changed files; only changed documents are
+ * re-tokenized, and new vectors are embedded in the background so a slow
+ * embedding provider never blocks a query.
+ */
+
+import { getConversationIndexer } from '../conversations/index.js';
+import { getMemoryStore } from '../memory/memory-store.js';
+import { getMemoryConsolidator, type ConsolidatedMemory } from '../memory/memory-consolidator.js';
+import { getVectorStore, type VectorFilter } from '../memory/vector-store.js';
+import { getContextIndexer } from '../context/context-indexer.js';
+import { Bm25Index } from './bm25.js';
+
+// ============================================
+// Configuration
+// ============================================
+
+const RRF_K = 60; // Rank offset for Reciprocal Rank Fusion
+const CANDIDATES_PER_RESULT = 4; // Each ranking contributes limit * this candidates
+const SEMANTIC_THRESHOLD = 0.2;
+const EMBED_BATCH_SIZE = 32;
+const EMBED_TEXT_LENGTH = 2000;
+
+// ============================================
+// Types
+// ============================================
+
+export type RetrievalSource = 'conversation' | 'fact' | 'decision' | 'code';
+
+export const RETRIEVAL_SOURCES: RetrievalSource[] = ['conversation', 'fact', 'decision', 'code'];
+
+export interface RetrievalDocument {
+  id: string; // "<source>:<source specific id>"
+  source: RetrievalSource;
+  title: string; // Fact key, decision title, symbol name or message author
+  text: string;
+  chatId?: number; // Conversations only
+  project?: string; // Project path, for decisions and code
+  location?: string; // File path for code
+  timestamp?: number;
+}
+
+export interface RetrievalQuery {
+  query: string;
+  sources?: RetrievalSource[];
+  chatId?: number; // Limits conversation results to one chat
+  project?: string; // Limits decision and code results to one project
+  limit?: number;
+}
+
+export interface RetrievalExplanation {
+  lexical?: { rank: number; score: number; terms: string[] };
+  semantic?: { rank: number; similarity: number };
+  fused: number; // Sum of 1 / (RRF_K + rank) over both rankings
+}
+
+export interface RetrievalResult {
+  document: RetrievalDocument;
+  score: number; // Fused score scaled to 0..1 (1 = ranked first by both)
+  explanation: RetrievalExplanation;
+}
+
+export interface RetrievalStats {
+  documents: Record<RetrievalSource, number>;
+  embedded: number;
+  pendingEmbeddings: number;
+}
+
+// ============================================
+// Retrieval Service Class
+// ============================================
+
+export class RetrievalService {
+  private bm25 = new Bm25Index();
+  private documents = new Map<string, RetrievalDocument>();
+  private signatures = new Map<string, string>(); // doc id -> content signature
+  private embedded: Map<string, string> | null = null; // doc id -> signature of its stored vector
+  private pendingEmbeddings = new Set<string>();
+  private embedding: Promise<void> | null = null;
+
+  constructor() {
+    // Embed changed code now rather than at the next search
+    getContextIndexer().onUpdate((_fingerprint, files) => {
+      if (files.length === 0) return;
+      this.refresh().catch(error => {
+        console.warn('[RetrievalService] Refresh after index update failed:', error instanceof Error ? error.message : error);
+      });
+    });
+  }
+
+  /**
+   * Hybrid search with per-result explanations
+   */
+  async search(query: RetrievalQuery): Promise<RetrievalResult[]> {
+    await this.refresh();
+
+    const limit = query.limit ?? 10;
+    const sources = new Set(query.sources ?? RETRIEVAL_SOURCES);
+    const project = query.project ? normalizeProject(query.project) : undefined;
+    const accept = (doc: RetrievalDocument | undefined): doc is RetrievalDocument =>
+      doc !== undefined &&
+      sources.has(doc.source) &&
+      (query.chatId === undefined || doc.chatId === undefined || doc.chatId === query.chatId) &&
+      (project === undefined || doc.project === undefined || doc.project === project);
+
+    const candidates = limit * CANDIDATES_PER_RESULT;
+    const lexical = this.bm25.search(query.query, candidates, id => accept(this.documents.get(id)));
+    const semantic = await this.semanticSearch(query.query, [...sources], query.chatId, project, candidates, accept);
+
+    const fused = new Map<string, RetrievalExplanation>();
+    lexical.forEach((match, i) => {
+      fused.set(match.id, {
+        lexical: { rank: i + 1, score: match.score, terms: match.terms },
+        fused: 1 / (RRF_K + i + 1),
+      });
+    });
+    semantic.forEach((match, i) => {
+      const explanation = fused.get(match.id) ?? { fused: 0 };
+      explanation.semantic = { rank: i + 1, similarity: match.similarity };
+      explanation.fused += 1 / (RRF_K + i + 1);
+      fused.set(match.id, explanation);
+    });
+
+    const best = 2 / (RRF_K + 1);
+    return Array.from(fused.entries())
+      .map(([id, explanation]) => ({
+        document: this.documents.get(id)!,
+        score: explanation.fused / best,
+        explanation,
+      }))
+      .sort((a, b) => b.explanation.fused - a.explanation.fused)
+      .slice(0, limit);
+  }
+
+  /**
+   * Sync documents from their sources
+   */
+  async refresh(): Promise<void> {
+    const current = await this.collectDocuments();
+
+    for (const [id, doc] of current) {
+      const signature = doc.source === 'conversation' ? 'static' : hashText(`${doc.title}\n${doc.text}`);
+      if (this.signatures.get(id) === signature) {
+        this.documents.set(id, doc);
+        continue;
+      }
+
+      this.documents.set(id, doc);
+      this.signatures.set(id, signature);
+      this.bm25.add(id, `${doc.title} ${doc.text}`);
+    }
+
+    const removed: string[] = [];
+    for (const id of this.documents.keys()) {
+      if (!current.has(id)) removed.push(id);
+    }
+    for (const id of removed) {
+      this.documents.delete(id);
+      this.signatures.delete(id);
+      this.bm25.remove(id);
+    }
+
+    await this.queueEmbeddings(removed);
+  }
+
+  /**
+   * Document counts per source and embedding progress
+   */
+  getStats(): RetrievalStats {
+    const documents: Record<RetrievalSource, number> = { conversation: 0, fact: 0, decision: 0, code: 0 };
+    for (const doc of this.documents.values()) documents[doc.source]++;
+    return {
+      documents,
+      embedded: this.embedded?.size ?? 0,
+      pendingEmbeddings: this.pendingEmbeddings.size,
+    };
+  }
+
+  /**
+   * Wait for queued embeddings to be written
+   */
+  async waitForEmbeddings(): Promise<void> {
+    while (this.embedding) {
+      await this.embedding;
+    }
+  }
+
+  // ============================================
+  // Sources
+  // ============================================
+
+  private async collectDocuments(): Promise<Map<string, RetrievalDocument>> {
+    const docs = new Map<string, RetrievalDocument>();
+    const add = (doc: RetrievalDocument) => docs.set(doc.id, doc);
+
+    // Conversations (commands are skipped, they are noise rather than content)
+    for (const message of getConversationIndexer().getAllMessages()) {
+      if (message.command || !message.text.trim()) continue;
+      add({
+        id: `conversation:${message.id}`,
+        source: 'conversation',
+        title: message.messageType === 'user' ? (message.username ?? 'user') : message.messageType,
+        text: message.text,
+        chatId: message.chatId,
+        timestamp: message.timestamp,
+      });
+    }
+
+    // Facts
+    const memory = getMemoryStore();
+    for (const { key, value } of memory.getAllFacts()) {
+      add({
+        id: `fact:${key}`,
+        source: 'fact',
+        title: key,
+        text: typeof value === 'string' ? value : JSON.stringify(value),
+      });
+    }
+
+    // Project decisions
+    for (const projectMemory of await memory.getAllProjectMemories()) {
+      for (const decision of projectMemory.decisions ?? []) {
+        add({
+          id: `decision:${projectMemory.projectId}:${decision.id}`,
+          source: 'decision',
+          title: decision.title,
+          text: [decision.description, decision.rationale, ...(decision.alternatives ?? [])].filter(Boolean).join('\n'),
+          project: normalizeProject(projectMemory.path),
+          timestamp: decision.madeAt,
+        });
+      }
+    }
+
+    // Memories consolidated from older chat history (scoped to their chat)
+    for (const entry of getMemoryConsolidator().getAll()) {
+      const source: RetrievalSource = entry.kind === 'decision' ? 'decision' : 'fact';
+      add({
+        id: memoryDocumentId(entry),
+        source,
+        title: entry.kind === 'todo' ? 'TODO' : (entry.project ?? entry.kind),
+        text: entry.text,
+        chatId: entry.chatId,
+        timestamp: entry.windowEnd,
+      });
+    }
+
+    // Code symbols of indexed projects
+    const indexer = getContextIndexer();
+    for (const projectPath of indexer.getIndexedProjects()) {
+      const fingerprint = indexer.getFingerprint(projectPath);
+      if (!fingerprint) continue;
+
+      for (const file of fingerprint.files.values()) {
+        const symbolKinds = [
+          ['class', file.classes],
+          ['function', file.functions],
+          ['type', file.types],
+          ['export', file.exports],
+        ] as const;
+
+        const seen = new Set<string>();
+
+        // Syntax-tree symbols carry kinds, containers and line numbers
+        for (const symbol of file.symbols ?? []) {
+          if (symbol.kind === 'variable' && !symbol.exported) continue;
+          const name = symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name;
+          if (seen.has(name)) continue;
+          seen.add(name);
+          add({
+            id: `code:${fingerprint.projectPath}:${file.relativePath}#${name}`,
+            source: 'code',
+            title: name,
+            text: `${symbol.kind} ${name} in ${file.relativePath}`,
+            project: fingerprint.projectPath,
+            location: `${file.relativePath}:${symbol.startLine}`,
+          });
+        }
+
+        for (const [kind, names] of symbolKinds) {
+          for (const name of names ?? []) {
+            if (seen.has(name) || name === 'default') continue;
+            seen.add(name);
+            add({
+              id: `code:${fingerprint.projectPath}:${file.relativePath}#${name}`,
+              source: 'code',
+              title: name,
+              text: `${kind} ${name} in ${file.relativePath}`,
+              project: fingerprint.projectPath,
+              location: file.relativePath,
+            });
+          }
+        }
+
+        add({
+          id: `code:${fingerprint.projectPath}:${file.relativePath}`,
+          source: 'code',
+          title: file.relativePath,
+          text: `${file.language} file ${file.relativePath} ${[...seen].join(' ')}`,
+          project: fingerprint.projectPath,
+          location: file.relativePath,
+        });
+      }
+    }
+
+    return docs;
+  }
+
+  // ============================================
+  // Vectors
+  // ============================================
+
+  private async semanticSearch(
+    query: string,
+    sources: RetrievalSource[],
+    chatId: number | undefined,
+    project: string | undefined,
+    limit: number,
+    accept: (doc: RetrievalDocument | undefined) => doc is RetrievalDocument
+  ): Promise<Array<{ id: string; similarity: number }>> {
+    const store = getVectorStore();
+
+    let vector: number[];
+    try {
+      [vector] = await store.getProvider().embed([query]);
+    } catch (error) {
+      console.warn('[RetrievalService] Query embedding failed, using lexical ranking only:', error instanceof Error ? error.message : error);
+      return [];
+    }
+
+    // One pre-filtered search per source, since each filters on different fields
+    const matches: Array<{ id: string; similarity: number }> = [];
+    for (const source of sources) {
+      const filter: VectorFilter = { kind: vectorKind(source) };
+      if (source === 'conversation' && chatId !== undefined) filter.chatId = chatId;
+      if ((source === 'decision' || source === 'code') && project !== undefined) filter.project = project;
+
+      for (const result of await store.searchVector(vector, limit, SEMANTIC_THRESHOLD, filter)) {
+        const id = result.metadata?.docId;
+        if (typeof id === 'string' && accept(this.documents.get(id))) {
+          matches.push({ id, similarity: result.similarity });
+        }
+      }
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+
+  /**
+   * Queue changed documents for embedding and drop vectors of removed ones
+   */
+  private async queueEmbeddings(removed: string[]): Promise<void> {
+    const store = getVectorStore();
+
+    if (!this.embedded) {
+      // First sync: learn which documents already have vectors from earlier runs
+      this.embedded = new Map();
+      const stored = store.getMetadataByKind(RETRIEVAL_SOURCES.map(vectorKind));
+      const indexedProjects = new Set(getContextIndexer().getIndexedProjects());
+
+      for (const [vectorId, metadata] of stored) {
+        const docId = String(metadata.docId ?? '');
+        if (this.documents.has(docId)) {
+          this.embedded.set(docId, String(metadata.signature ?? ''));
+        } else if (metadata.kind !== vectorKind('code') || indexedProjects.has(String(metadata.project))) {
+          // Code of projects not indexed in this run is kept for when they are
+          await store.deleteEmbedding(vectorId);
+        }
+      }
+    }
+
+    for (const id of removed) {
+      if (this.embedded.delete(id)) {
+        await store.deleteEmbedding(vectorIdFor(id));
+      }
+      this.pendingEmbeddings.delete(id);
+    }
+
+    for (const [id, signature] of this.signatures) {
+      if (this.embedded.get(id) !== signature) this.pendingEmbeddings.add(id);
+    }
+
+    if (this.pendingEmbeddings.size > 0 && !this.embedding) {
+      this.embedding = this.embedPending()
+        .catch(error => console.warn('[RetrievalService] Embedding paused:', error instanceof Error ? error.message : error))
+        .finally(() => { this.embedding = null; });
+    }
+  }
+
+  private async embedPending(): Promise<void> {
+    const store = getVectorStore();
+
+    while (this.pendingEmbeddings.size > 0) {
+      const batch = [...this.pendingEmbeddings].slice(0, EMBED_BATCH_SIZE)
+        .map(id => ({ id, doc: this.documents.get(id), signature: this.signatures.get(id) }));
+
+      const items = batch.flatMap(({ id, doc, signature }) => doc && signature ? [{
+        id: vectorIdFor(id),
+        text: `${doc.title}\n${doc.text}`.slice(0, EMBED_TEXT_LENGTH),
+        metadata: {
+          docId: id,
+          kind: vectorKind(doc.source),
+          signature,
+          ...(doc.chatId !== undefined ? { chatId: doc.chatId } : {}),
+          ...(doc.project !== undefined ? { project: doc.project } : {}),
+        },
+      }] : []);
+
+      await store.storeEmbeddings(items);
+
+      for (const { id, signature } of batch) {
+        this.pendingEmbeddings.delete(id);
+        if (signature) this.embedded?.set(id, signature);
+      }
+    }
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Document id of a consolidated memory entry
+ */
+export function memoryDocumentId(entry: ConsolidatedMemory): string {
+  return `${entry.kind === 'decision' ? 'decision' : 'fact'}:memory-${entry.id}`;
+}
+
+function vectorKind(source: RetrievalSource): string {
+  return `retrieval-${source}`;
+}
+
+function vectorIdFor(docId: string): string {
+  return `retrieval:${docId}`;
+}
+
+function normalizeProject(projectPath: string): string {
+  return projectPath.replace(/\\/g, '/');
+}
+
+/**
+ * FNV-1a, enough to notice a document changed
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+// ============================================
+// Global Singleton
+// ============================================
+
+let globalRetrievalService: RetrievalService | null = null;
+
+export function getRetrievalService(): RetrievalService {
+  if (!globalRetrievalService) {
+    globalRetrievalService = new RetrievalService();
+  }
+  return globalRetrievalService;
+}
+
+export function resetRetrievalService(): void {
+  globalRetrievalService = null;
+}
@@ -3,10 +3,13 @@
  *
  * The Test Healer automatically detects test failures and attempts to fix them.
  * It integrates with:
- * - TestWatcher: Monitors test results
- * - IntentionEngine: Creates fix intentions
+ * - TestWatcher: test.failed events on the event bus (replayed after a restart)
+ * - IntentionEngine: heal.failed events become fix intentions
  * - AgentOrchestrator: Executes autonomous fixes
  * - ContextTracker: Tracks healing outcomes
+ * - FlakinessTracker: A failure is rerun before healing; tests that pass
+ *   again without code changes are flaky and offered for quarantine instead,
+ *   and quarantined or known flaky tests are never healed
  *
  * Healing strategies:
  * 1. Syntax errors: Fix syntax issues
@@ -17,7 +20,8 @@
  */
 
 import { getTestWatcher, type TestResult } from '../tests/test-watcher.js';
-import { getIntentionEngine } from '../intention/intention-engine.js';
+import { getFlakinessTracker } from '../tests/flakiness-tracker.js';
+import { getEventBus, type BrainEvent, type TestFailureDetail } from '../events/event-bus.js';
 import { getDecisionMaker } from '../decision/decision-maker.js';
 import { getOrchestrator } from '../agents/agent-orchestrator.js';
 import { getMemoryStore } from '../memory/memory-store.js';
@@ -82,6 +86,7 @@ export interface HealingAttempt {
   }>;
   success: boolean;
   errorMessage?: string;
+  worktreeId?: string;       // Fix isolated in a worktree awaiting review
   timestamp: number;
   duration: number;          // milliseconds
 }
@@ -126,9 +131,6 @@ const HEALING_CONFIG = {
 
   // Maximum time for healing attempt (ms)
   maxHealTime: 5 * 60 * 1000,
-
-  // Check interval for new failures (ms)
-  checkInterval: 30 * 1000,
 };
 
 // ============================================
@@ -140,8 +142,7 @@ export class TestHealer {
   private failures = new Map<string, TestFailure>();
   private active = false;
   private healingInProgress = new Set<string>();
-  private checkTimer?: NodeJS.Timeout;
-  private lastResults = new Map<string, TestResult>();
+  private unsubscribe?: () => void;
 
   /**
    * Start the test healer
@@ -152,10 +153,10 @@ export class TestHealer {
     this.active = true;
     await this.loadFailures();
 
-    // Start periodic check for new failures
-    this.checkTimer = setInterval(() => {
-      this.checkForNewFailures();
-    }, HEALING_CONFIG.checkInterval);
+    // React to failed runs, including ones published while we were stopped
+    this.unsubscribe = getEventBus().subscribe('test.failed', (event) => this.handleTestRun(event), {
+      durable: 'test-healer',
+    });
 
     console.log('[TestHealer] Started');
   }
@@ -165,45 +166,68 @@ export class TestHealer {
    */
   stop(): void {
     this.active = false;
-    if (this.checkTimer) {
-      clearInterval(this.checkTimer);
-      this.checkTimer = undefined;
-    }
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
     console.log('[TestHealer] Stopped');
   }
 
   /**
-   * Check for new test failures
+   * Handle a failed test run
    */
-  private async checkForNewFailures(): Promise<void> {
+  private async handleTestRun(event: BrainEvent<'test.failed'>): Promise<void> {
     if (!this.active) return;
 
-    const testWatcher = getTestWatcher();
-    const projects = await this.getWatchedProjects();
+    const run = event.payload;
+    const chatId = run.chatId ?? await this.getChatIdForProject(run.projectPath);
+    if (chatId === null) return;
+
+    // One rerun per test file, shared by its failures
+    const reruns = new Map<string, Promise<TestResult | null>>();
 
-    for (const projectPath of projects) {
+    for (const failure of run.failures) {
       try {
-        // Get latest test results for the project
-        const results = await testWatcher.getTestResults(projectPath, 5);
+        if (await this.isFlaky(run.projectPath, chatId, failure, reruns)) continue;
+        await this.handleTestFailure(run.projectPath, chatId, run.output, failure);
+      } catch (error) {
+        console.error('[TestHealer] Error handling failure:', error);
+      }
+    }
+  }
 
-        for (const result of results) {
-          const resultKey = `${projectPath}:${result.timestamp}`;
+  /**
+   * Whether a failure is better quarantined than fixed: the test is
+   * quarantined or known to be flaky, or passes when rerun. A pass with the
+   * code unchanged is recorded as flaky, which offers quarantine; a pass
+   * after the code changed means it was fixed meanwhile.
+   */
+  private async isFlaky(
+    projectPath: string,
+    chatId: number,
+    failure: TestFailureDetail,
+    reruns: Map<string, Promise<TestResult | null>>
+  ): Promise<boolean> {
+    const flakiness = getFlakinessTracker();
+    if (await flakiness.isQuarantined(projectPath, failure.file, failure.test)) return true;
+    if (await flakiness.isFlaky(projectPath, failure.file, failure.test)) {
+      console.log(`[TestHealer] Not healing flaky test ${failure.test}`);
+      return true;
+    }
 
-          // Skip if we've already processed this result
-          if (this.lastResults.has(resultKey)) continue;
-          this.lastResults.set(resultKey, result);
+    const stateBefore = await flakiness.getCodeState(projectPath);
+    let rerun = reruns.get(failure.file);
+    if (!rerun) {
+      rerun = this.runTestFile(projectPath, failure.file);
+      reruns.set(failure.file, rerun);
+    }
+    const result = await rerun;
+    if (!result || !passedIn(result, failure.file, failure.test)) return false;
 
-          // Process failures
-          if (result.failures && result.failures.length > 0) {
-            for (const failure of result.failures) {
-              await this.handleTestFailure(projectPath, result, failure);
-            }
-          }
-        }
-      } catch (error) {
-        console.error('[TestHealer] Error checking for failures:', error);
-      }
+    const stateAfter = await flakiness.getCodeState(projectPath);
+    if (stateBefore !== undefined && stateBefore === stateAfter) {
+      console.log(`[TestHealer] ${failure.test} passed on a rerun; offering quarantine instead of healing`);
+      await flakiness.recordRetryPass(projectPath, failure, chatId);
     }
+    return true;
   }
 
   /**
@@ -211,13 +235,10 @@ export class TestHealer {
    */
   private async handleTestFailure(
     projectPath: string,
-    result: TestResult,
-    failure: { file: string; test: string; error: string }
+    chatId: number,
+    output: string,
+    failure: TestFailureDetail
   ): Promise<void> {
-    // Get chatId from project context
-    const chatId = await this.getChatIdForProject(projectPath);
-    if (chatId === null) return;
-
     // Generate failure ID
     const failureId = this.generateFailureId(projectPath, failure.file, failure.test);
 
@@ -237,7 +258,7 @@ export class TestHealer {
       testFile: failure.file,
       testName: failure.test,
       failureMessage: failure.error,
-      stackTrace: result.output.substring(0, 500),
+      stackTrace: failure.stack ?? output.substring(0, 500),
       severity: analysis.severity,
       suggestedStrategy: analysis.strategy,
       confidence: analysis.confidence,
@@ -366,6 +387,9 @@ export class TestHealer {
         const attempt = await this.executeHealingStrategy(testFailure, strategy, attemptNumber);
         testFailure.healingAttempts.push(attempt);
 
+        // An isolated fix can't be verified against the working tree - leave it for review
+        if (attempt.success && attempt.worktreeId) break;
+
         if (attempt.success) {
           // Re-run the test
           const testPassed = await this.rerunTest(testFailure);
@@ -453,6 +477,7 @@ export class TestHealer {
             description: c.type,
           })) || [],
           success: true,
+          worktreeId: result.worktreeId,
           timestamp: Date.now(),
           duration,
         };
@@ -502,7 +527,7 @@ ${strategyDescriptions[strategy]}
 Test File: ${testFailure.testFile}
 Test Name: ${testFailure.testName}
 Error: ${testFailure.failureMessage}
-${testFailure.stackTrace ? `Output:\n${testFailure.stackTrace.substring(0, 500)}` : ''}
+${testFailure.stackTrace ? `Stack trace:\n${testFailure.stackTrace.substring(0, 1000)}` : ''}
 
 Project: ${testFailure.projectPath}
 
@@ -519,38 +544,37 @@ Please fix the issue and run the test again to verify.
     try {
       // Run tests for the project
       const result = await testWatcher.runTests(testFailure.projectPath);
-
-      // Check if this specific test now passes
-      if (result.failures) {
-        const stillFailing = result.failures.find(
-          f => f.file === testFailure.testFile && f.test === testFailure.testName
-        );
-        return !stillFailing;
-      }
-
-      return true;
+      return passedIn(result, testFailure.testFile, testFailure.testName);
     } catch {
       return false;
     }
   }
 
   /**
-   * Create an intention for a failure that couldn't be auto-healed
+   * Run one test file, where the runner can narrow to it, else the suite
    */
-  private async createIntentionForFailure(testFailure: TestFailure): Promise<void> {
-    const intentionEngine = getIntentionEngine();
+  private async runTestFile(projectPath: string, testFile: string): Promise<TestResult | null> {
+    try {
+      return await getTestWatcher().runTests(projectPath, { affectedFiles: testFile ? [testFile] : undefined });
+    } catch (error) {
+      console.error('[TestHealer] Rerun failed:', error);
+      return null;
+    }
+  }
 
-    await intentionEngine.processTrigger({
-      type: 'test_failure',
+  /**
+   * Announce a failure that couldn't be auto-healed; IntentionEngine turns it into an intention
+   */
+  private async createIntentionForFailure(testFailure: TestFailure): Promise<void> {
+    await getEventBus().publish('heal.failed', {
       projectPath: testFailure.projectPath,
       chatId: testFailure.chatId,
-      data: {
-        testFile: testFailure.testFile,
-        testName: testFailure.testName,
-        error: testFailure.failureMessage,
-        strategy: testFailure.suggestedStrategy,
-      },
-      timestamp: Date.now(),
+      failureId: testFailure.id,
+      testFile: testFailure.testFile,
+      testName: testFailure.testName,
+      error: testFailure.failureMessage,
+      strategy: testFailure.suggestedStrategy,
+      attempts: testFailure.healingAttempts.length,
     });
   }
 
@@ -575,18 +599,6 @@ Please fix the issue and run the test again to verify.
     }
   }
 
-  /**
-   * Get watched projects
-   */
-  private async getWatchedProjects(): Promise<string[]> {
-    try {
-      const projects = await this.memory.getFact('watched_projects') as string[] | undefined;
-      return projects ?? [];
-    } catch {
-      return [];
-    }
-  }
-
   /**
    * Store a failure in memory
    */
@@ -695,6 +707,24 @@ Please fix the issue and run the test again to verify.
   }
 }
 
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Whether a test passed in a run; without per-test results the whole run must
+ */
+function passedIn(result: TestResult, testFile: string, testName: string): boolean {
+  if (result.cases && result.failures) {
+    const stillFailing = result.failures.some(f => f.file === testFile && f.test === testName);
+    // A narrowed run that didn't include the test says nothing about it
+    const ran = result.cases.some(c => c.file === testFile && (c.suite ? `${c.suite} > ${c.name}` : c.name) === testName);
+    return ran && !stillFailing;
+  }
+
+  return result.failed === 0;
+}
+
 // ============================================
 // Global Singleton
 // ============================================
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+
+import { cronRunsBetween, nextCronRun, nextCronRuns, parseCron } from './cron.js';
+
+const utc = (iso: string): number => Date.parse(`${iso}Z`);
+const iso = (ms: number): string => new Date(ms).toISOString();
+
+describe('parseCron', () => {
+  it('parses lists, ranges, steps and names', () => {
+    const cron = parseCron('0,30 9-17/4 * JAN-MAR MON-FRI');
+
+    expect([...cron.minutes]).toEqual([0, 30]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.hasSeconds).toBe(false);
+    expect(cron.dayOfMonthRestricted).toBe(false);
+    expect(cron.dayOfWeekRestricted).toBe(true);
+  });
+
+  it('treats 7 as Sunday and expands macros', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect(parseCron('@daily').hours).toEqual(new Set([0]));
+    expect(parseCron('*/20 * * * * *').seconds).toEqual(new Set([0, 20, 40]));
+  });
+
+  it.each([
+    ['* * * *', /needs 5 or 6 fields, got 4/],
+    ['* * * * * * *', /needs 5 or 6 fields, got 7/],
+    ['@never', /Unknown cron macro "@never"/],
+    ['60 * * * *', /Minute 60 is out of range 0-59/],
+    ['* 24 * * *', /Hour 24 is out of range 0-23/],
+    ['* * 0 * *', /Day of month 0 is out of range 1-31/],
+    ['* * * 13 *', /Month 13 is out of range 1-12/],
+    ['*/0 * * * *', /Invalid step "0" in minute/],
+    ['5-1 * * * *', /Invalid minute range "5-1" \(start after end\)/],
+    ['1/2/3 * * * *', /Invalid minute "1\/2\/3"/],
+    ['* * * FOO *', /Invalid month "FOO"/],
+    [', * * * *', /Invalid minute ""/],
+  ])('rejects %j', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('returns the first fire time strictly after from', () => {
+    expect(iso(nextCronRun('0 9 * * *', utc('2026-01-05T09:00:00'))!)).toBe('2026-01-06T09:00:00.000Z');
+    expect(iso(nextCronRun('0 9 * * *', utc('2026-01-05T08:59:59'))!)).toBe('2026-01-05T09:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const runs = nextCronRuns('0 0 13 * FRI', utc('2026-01-01T00:00:00'), 4);
+
+    expect(runs.map(iso)).toEqual([
+      '2026-01-02T00:00:00.000Z', // Friday
+      '2026-01-09T00:00:00.000Z', // Friday
+      '2026-01-13T00:00:00.000Z', // Tuesday the 13th
+      '2026-01-16T00:00:00.000Z', // Friday
+    ]);
+  });
+
+  it('returns null for dates that never occur', () => {
+    expect(nextCronRun('0 0 30 2 *', utc('2026-01-01T00:00:00'))).toBeNull();
+  });
+
+  describe('across DST in America/New_York', () => {
+    const zone = 'America/New_York';
+
+    it('evaluates on the zone wall clock', () => {
+      // 09:00 EST is 14:00 UTC, 09:00 EDT is 13:00 UTC
+      expect(iso(nextCronRun('0 9 * * *', utc('2026-01-05T00:00:00'), zone)!)).toBe('2026-01-05T14:00:00.000Z');
+      expect(iso(nextCronRun('0 9 * * *', utc('2026-07-06T00:00:00'), zone)!)).toBe('2026-07-06T13:00:00.000Z');
+    });
+
+    it('shifts a time skipped by spring forward by the gap', () => {
+      // 2026-03-08 02:00 EST jumps to 03:00 EDT, so 02:30 runs at 03:30 EDT
+      const runs = nextCronRuns('30 2 * * *', utc('2026-03-07T12:00:00'), 2, zone);
+
+      expect(runs.map(iso)).toEqual(['2026-03-08T07:30:00.000Z', '2026-03-09T06:30:00.000Z']);
+    });
+
+    it('fires a time repeated by fall back once, on its first occurrence', () => {
+      // 2026-11-01 01:30 happens at 05:30 UTC (EDT) and again at 06:30 UTC (EST)
+      const runs = nextCronRuns('30 1 * * *', utc('2026-10-31T12:00:00'), 2, zone);
+
+      expect(runs.map(iso)).toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+    });
+
+    it('keeps hourly schedules on real hours through both transitions', () => {
+      const spring = cronRunsBetween('0 * * * *', utc('2026-03-08T05:30:00'), utc('2026-03-08T08:30:00'), 10, zone);
+      const fall = cronRunsBetween('0 * * * *', utc('2026-11-01T04:30:00'), utc('2026-11-01T07:30:00'), 10, zone);
+
+      // 01:00 EST, 03:00 EDT, 04:00 EDT (no 02:00)
+      expect(spring.map(iso)).toEqual(['2026-03-08T06:00:00.000Z', '2026-03-08T07:00:00.000Z', '2026-03-08T08:00:00.000Z']);
+      // 01:00 EDT, 02:00 EST; the repeated 01:00 EST is not fired again
+      expect(fall.map(iso)).toEqual(['2026-11-01T05:00:00.000Z', '2026-11-01T07:00:00.000Z']);
+    });
+  });
+});
+
+describe('cronRunsBetween', () => {
+  const from = utc('2026-01-05T00:00:00');
+
+  it('returns fire times in (from, to], oldest first', () => {
+    const runs = cronRunsBetween('0 * * * *', from, utc('2026-01-05T03:00:00'), 10);
+
+    expect(runs.map(iso)).toEqual(['2026-01-05T01:00:00.000Z', '2026-01-05T02:00:00.000Z', '2026-01-05T03:00:00.000Z']);
+  });
+
+  it('stops at the catch-up limit, keeping the oldest runs', () => {
+    const runs = cronRunsBetween('*/5 * * * *', from, utc('2026-01-06T00:00:00'), 3);
+
+    expect(runs.map(iso)).toEqual(['2026-01-05T00:05:00.000Z', '2026-01-05T00:10:00.000Z', '2026-01-05T00:15:00.000Z']);
+  });
+
+  it('returns nothing when no run was missed or the limit is zero', () => {
+    expect(cronRunsBetween('0 0 * * *', from, utc('2026-01-05T23:59:00'), 5)).toEqual([]);
+    expect(cronRunsBetween('* * * * *', from, utc('2026-01-05T01:00:00'), 0)).toEqual([]);
+  });
+});
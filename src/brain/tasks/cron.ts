@@ -0,0 +1,322 @@
+/**
+ * Cron - Cron expression parsing and time-zone aware evaluation
+ *
+ * Supports standard 5-field expressions (minute hour day month weekday) and
+ * 6-field expressions with a leading seconds field:
+ * - Lists, ranges and steps: 1,15,30  9-17  *\/5  10-40/10  5/15
+ * - Month and weekday names: JAN-DEC, SUN-SAT (0 and 7 are both Sunday)
+ * - `?` as a synonym for `*` in the day fields
+ * - Macros: @yearly, @annually, @monthly, @weekly, @daily, @midnight, @hourly
+ *
+ * As in Vixie cron, when both day-of-month and day-of-week are restricted a
+ * day matches if either does. Fire times are evaluated on the wall clock of
+ * an IANA time zone. A time skipped by a DST change fires once, shifted
+ * forward by the gap; a repeated time fires on its first occurrence.
+ */
+
+// ============================================
+// Configuration
+// ============================================
+
+const MAX_SEARCH_YEARS = 5; // Expressions like "0 0 30 2 *" never match
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // Index + min is the value
+}
+
+const SECOND: FieldSpec = { name: 'second', min: 0, max: 59 };
+const MINUTE: FieldSpec = { name: 'minute', min: 0, max: 59 };
+const HOUR: FieldSpec = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: 'day of month', min: 1, max: 31 };
+const MONTH: FieldSpec = { name: 'month', min: 1, max: 12, names: MONTH_NAMES };
+const DAY_OF_WEEK: FieldSpec = { name: 'day of week', min: 0, max: 7, names: DAY_NAMES };
+
+// ============================================
+// Types
+// ============================================
+
+export interface CronSchedule {
+  expression: string; // As written, macros included
+  hasSeconds: boolean;
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday is 0
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Parse a cron expression; throws with a readable message when it's invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  if (expanded.startsWith('@')) {
+    throw new Error(`Unknown cron macro "${trimmed}" (use ${Object.keys(MACROS).join(', ')})`);
+  }
+
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new Error(`Cron expression needs 5 or 6 fields, got ${fields.length}: "${trimmed}"`);
+  }
+
+  const hasSeconds = fields.length === 6;
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] = hasSeconds ? fields : ['0', ...fields];
+
+  const daysOfWeek = parseField(dayOfWeek, DAY_OF_WEEK);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: trimmed,
+    hasSeconds,
+    seconds: parseField(second, SECOND),
+    minutes: parseField(minute, MINUTE),
+    hours: parseField(hour, HOUR),
+    daysOfMonth: parseField(dayOfMonth, DAY_OF_MONTH),
+    months: parseField(month, MONTH),
+    daysOfWeek,
+    dayOfMonthRestricted: !isWildcard(dayOfMonth),
+    dayOfWeekRestricted: !isWildcard(dayOfWeek),
+  };
+}
+
+function isWildcard(field: string): boolean {
+  return field === '*' || field === '?';
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || range === '') {
+      throw new Error(`Invalid ${spec.name} "${part}"`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      step = Number(stepText);
+      if (!/^\d+$/.test(stepText) || step < 1) {
+        throw new Error(`Invalid step "${stepText}" in ${spec.name}`);
+      }
+    }
+
+    let start: number;
+    let end: number;
+    if (isWildcard(range)) {
+      start = spec.min;
+      end = spec.max === 7 ? 6 : spec.max; // "*" weekdays are 0-6
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${range}" (start after end)`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  let value: number;
+  const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+
+  if (nameIndex !== -1) {
+    value = nameIndex + (spec.names === MONTH_NAMES ? 1 : 0);
+  } else if (/^\d+$/.test(text)) {
+    value = Number(text);
+  } else {
+    throw new Error(`Invalid ${spec.name} "${text}"`);
+  }
+
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${capitalize(spec.name)} ${value} is out of range ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * First fire time strictly after `from` (epoch ms), or null if there is none
+ * within the next few years
+ */
+export function nextCronRun(schedule: CronSchedule | string, from: number, timeZone = 'UTC'): number | null {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+
+  // Search on the wall clock, represented as a UTC timestamp
+  const unit = cron.hasSeconds ? 1000 : 60_000;
+  let wall = Math.floor(toWallClock(from, timeZone) / unit) * unit + unit;
+  const limit = wall + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  while (wall < limit) {
+    const date = new Date(wall);
+
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+      continue;
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours() + 1);
+      continue;
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes() + 1);
+      continue;
+    }
+    if (!cron.seconds.has(date.getUTCSeconds())) {
+      wall += 1000;
+      continue;
+    }
+
+    const instant = fromWallClock(wall, timeZone);
+    if (instant > from) return instant;
+    wall += unit;
+  }
+
+  return null;
+}
+
+/**
+ * The next `count` fire times after `from`
+ */
+export function nextCronRuns(schedule: CronSchedule | string, from: number, count: number, timeZone = 'UTC'): number[] {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const runs: number[] = [];
+
+  let cursor = from;
+  while (runs.length < count) {
+    const next = nextCronRun(cron, cursor, timeZone);
+    if (next === null) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
+
+/**
+ * Fire times in (from, to], oldest first, at most `max`
+ */
+export function cronRunsBetween(schedule: CronSchedule | string, from: number, to: number, max: number, timeZone = 'UTC'): number[] {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const runs: number[] = [];
+
+  let cursor = from;
+  while (runs.length < max) {
+    const next = nextCronRun(cron, cursor, timeZone);
+    if (next === null || next > to) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// ============================================
+// Time Zones
+// ============================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time in a zone, as if that wall clock were UTC (whole seconds)
+ */
+function toWallClock(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+}
+
+/**
+ * Instant at which a zone's wall clock shows `wall`. A skipped wall time is
+ * shifted forward by the gap; a repeated one maps to its first occurrence.
+ */
+function fromWallClock(wall: number, timeZone: string): number {
+  const firstGuess = wall - (toWallClock(wall, timeZone) - wall);
+  const secondGuess = wall - (toWallClock(firstGuess, timeZone) - firstGuess);
+
+  const candidates = [firstGuess, secondGuess].filter(instant => toWallClock(instant, timeZone) === wall);
+  if (candidates.length > 0) return Math.min(...candidates);
+  return Math.max(firstGuess, secondGuess);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
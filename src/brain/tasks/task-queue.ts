@@ -4,14 +4,23 @@
  * Manages autonomous background tasks that can run independently
  * of Telegram sessions. Supports priority queues, scheduling,
  * and persistence across restarts.
+ *
+ * Schedules use cron expressions evaluated in the schedule's time zone
+ * (the user's by default). Runs missed while the bridge was down are
+ * skipped, run once, or each run, per the schedule's catch-up policy.
  */
 
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { getBrain } from '../brain-manager.js';
+import { parseCron, nextCronRun, nextCronRuns, cronRunsBetween, isValidTimeZone } from './cron.js';
 import type { Task, TaskStatus, TaskPriority, TaskSchedule } from '../types.js';
 
+const MISSED_RUN_GRACE_MS = 60_000; // A run this late counts as missed
+const MAX_CATCH_UP_RUNS = 10; // Per schedule, for the 'all' policy
+const MAX_MISSED_COUNT = 1000; // Stop counting missed runs beyond this
+
 interface TaskQueueState {
   pending: Task[];
   running: Task[];
@@ -52,6 +61,7 @@ export class TaskQueue {
 
     // Load existing state
     await this.loadState();
+    await this.refreshSchedules();
 
     // Start processing loop
     this.startProcessing();
@@ -177,19 +187,33 @@ export class TaskQueue {
   // ===========================================
 
   /**
-   * Add a scheduled task (cron)
+   * Add a scheduled task (cron). Throws if the expression or time zone is invalid.
    */
-  async addSchedule(schedule: Omit<TaskSchedule, 'id' | 'runCount' | 'lastRun' | 'nextRun'>): Promise<string> {
+  async addSchedule(schedule: Omit<TaskSchedule, 'id' | 'runCount' | 'lastRun' | 'nextRun' | 'missedRuns'>): Promise<TaskSchedule> {
+    const timezone = schedule.timezone ?? this.brain.getTimezone();
+    if (!isValidTimeZone(timezone)) {
+      throw new Error(`Unknown time zone "${timezone}"`);
+    }
+
+    const nextRun = nextCronRun(parseCron(schedule.cronExpression), Date.now(), timezone);
+    if (nextRun === null) {
+      throw new Error(`"${schedule.cronExpression}" never fires`);
+    }
+
     const newSchedule: TaskSchedule = {
       ...schedule,
       id: this.generateTaskId(),
+      timezone,
+      catchUp: schedule.catchUp ?? 'once',
+      nextRun,
       runCount: 0,
+      missedRuns: 0,
     };
 
     this.state.schedules.push(newSchedule);
     await this.saveState();
 
-    return newSchedule.id;
+    return newSchedule;
   }
 
   /**
@@ -212,6 +236,25 @@ export class TaskQueue {
     return this.state.schedules;
   }
 
+  /**
+   * Upcoming fire times of a schedule
+   */
+  getNextRuns(schedule: TaskSchedule, count: number): number[] {
+    try {
+      return nextCronRuns(schedule.cronExpression, Date.now(), count, this.getScheduleTimeZone(schedule));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Time zone a schedule is evaluated in
+   */
+  getScheduleTimeZone(schedule: TaskSchedule): string {
+    const timezone = schedule.timezone ?? this.brain.getTimezone();
+    return isValidTimeZone(timezone) ? timezone : 'UTC';
+  }
+
   // ===========================================
   // Processing Loop
   // ===========================================
@@ -314,46 +357,75 @@ export class TaskQueue {
     const now = Date.now();
 
     for (const schedule of this.state.schedules) {
-      if (!schedule.enabled) continue;
+      if (!schedule.enabled || !schedule.nextRun || schedule.nextRun > now) continue;
+
+      try {
+        const cron = parseCron(schedule.cronExpression);
+        const timezone = this.getScheduleTimeZone(schedule);
+
+        // Runs missed while we were down, per the catch-up policy
+        let runs = 1;
+        if (now - schedule.nextRun > MISSED_RUN_GRACE_MS) {
+          const missed = 1 + cronRunsBetween(cron, schedule.nextRun, now, MAX_MISSED_COUNT, timezone).length;
+          const policy = schedule.catchUp ?? 'once';
+          runs = policy === 'skip' ? 0 : policy === 'once' ? 1 : Math.min(missed, MAX_CATCH_UP_RUNS);
+          schedule.missedRuns = (schedule.missedRuns || 0) + missed - runs;
+          console.log(`[TaskQueue] Schedule ${schedule.id} missed ${missed} run(s); catch-up '${policy}' runs ${runs}`);
+        }
 
-      if (schedule.nextRun && schedule.nextRun <= now) {
         // Execute scheduled task
         const task = schedule.task;
-        await this.addTask({
-          type: task.type,
-          title: task.title,
-          description: task.description,
-          status: task.status,
-          priority: task.priority,
-          projectId: task.projectId,
-          chatId: task.chatId,
-          metadata: task.metadata,
-        });
+        for (let i = 0; i < runs; i++) {
+          await this.addTask({
+            type: task.type,
+            title: task.title,
+            description: task.description,
+            status: task.status,
+            priority: task.priority,
+            projectId: task.projectId,
+            chatId: task.chatId,
+            metadata: { ...task.metadata, scheduleId: schedule.id },
+          });
+        }
 
         // Calculate next run
-        schedule.lastRun = now;
-        schedule.nextRun = this.calculateNextRun(schedule.cronExpression, now);
-        schedule.runCount = (schedule.runCount || 0) + 1;
-
-        await this.saveState();
+        if (runs > 0) schedule.lastRun = now;
+        schedule.runCount = (schedule.runCount || 0) + runs;
+        schedule.nextRun = nextCronRun(cron, now, timezone) ?? undefined;
+        if (!schedule.nextRun) {
+          schedule.enabled = false;
+          console.warn(`[TaskQueue] Schedule ${schedule.id} has no future runs; disabled`);
+        }
+      } catch (error) {
+        schedule.enabled = false;
+        console.error(`[TaskQueue] Disabled schedule ${schedule.id}:`, error);
       }
+
+      await this.saveState();
     }
   }
 
   /**
-   * Calculate next run time from cron expression
-   * Simplified implementation - supports basic patterns
+   * Fill in fire times for schedules saved without one, and disable
+   * schedules whose expression no longer parses
    */
-  private calculateNextRun(cron: string, from: number): number {
-    // Very basic implementation - just support hourly for now
-    // TODO: Implement full cron parsing
-    const parts = cron.split(' ');
-    if (parts[1] === '*') {
-      // Every minute - add 1 minute
-      return from + 60 * 1000;
+  private async refreshSchedules(): Promise<void> {
+    let changed = false;
+
+    for (const schedule of this.state.schedules) {
+      if (!schedule.enabled || schedule.nextRun) continue;
+
+      try {
+        schedule.nextRun = nextCronRun(schedule.cronExpression, Date.now(), this.getScheduleTimeZone(schedule)) ?? undefined;
+        if (!schedule.nextRun) schedule.enabled = false;
+      } catch (error) {
+        schedule.enabled = false;
+        console.error(`[TaskQueue] Disabled schedule ${schedule.id}:`, error);
+      }
+      changed = true;
     }
-    // Default to 1 hour
-    return from + 60 * 60 * 1000;
+
+    if (changed) await this.saveState();
   }
 
   // ===========================================
@@ -0,0 +1,677 @@
+/**
+ * Coverage - Per-file and per-changed-line coverage from runner reports
+ *
+ * Reads the coverage formats test runners write:
+ * - Istanbul JSON (coverage-final.json from jest, vitest, nyc, c8)
+ * - lcov (lcov.info from most JS tools, genhtml-based setups, cargo llvm-cov)
+ * - Cobertura XML (pytest-cov, coverage.py, the JVM cobertura plugins)
+ * - Go cover profiles (`go test -coverprofile`)
+ *
+ * Each is reduced to per-file line, function, branch and statement totals
+ * plus covered and uncovered line ranges. Lines changed since a commit are
+ * checked against those ranges, and snapshots are compared for drops.
+ */
+
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { readFile, stat } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseXml, toProjectPath, type XmlElement } from './test-report-parser.js';
+
+const execAsync = promisify(exec);
+
+// ============================================
+// Configuration
+// ============================================
+
+const TOTAL_DROP_THRESHOLD = 0.5; // Percentage points, for the project totals
+const FILE_DROP_THRESHOLD = 5; // Percentage points, for a file's lines
+const MAX_DROPS = 10;
+const MAX_UNTRACKED_FILES = 200; // New files count as changed throughout
+const MAX_UNTRACKED_SIZE = 1024 * 1024;
+
+// ============================================
+// Types
+// ============================================
+
+export type CoverageFormat = 'istanbul' | 'lcov' | 'cobertura' | 'go-cover';
+
+export interface CoverageMetric {
+  covered: number;
+  total: number;
+  pct: number; // 100 when there is nothing to cover
+}
+
+export type LineRange = [number, number]; // First and last line, inclusive
+
+export interface FileCoverage {
+  file: string; // Relative to the project when the report has absolute paths
+  lines: CoverageMetric;
+  functions: CoverageMetric;
+  branches: CoverageMetric;
+  statements: CoverageMetric; // Lines, for formats without statements
+  coveredLines: LineRange[];
+  uncoveredLines: LineRange[];
+  uncoveredFunctions: Array<{ name: string; line: number }>;
+}
+
+export interface CoverageTotals {
+  lines: CoverageMetric;
+  functions: CoverageMetric;
+  branches: CoverageMetric;
+  statements: CoverageMetric;
+}
+
+export type CoverageMetricName = keyof CoverageTotals;
+
+export interface CoverageReport {
+  format: CoverageFormat;
+  files: FileCoverage[];
+  totals: CoverageTotals;
+}
+
+/**
+ * Percentages of a snapshot, with its files when it has them
+ */
+export interface CoveragePercentages {
+  lines: number;
+  functions: number;
+  branches: number;
+  statements: number;
+  files?: FileCoverage[];
+}
+
+export interface ChangedFileCoverage {
+  file: string;
+  covered: number;
+  total: number; // Changed lines that are executable
+  uncoveredLines: LineRange[];
+}
+
+export interface ChangedLineCoverage {
+  base: string; // Commit or range the lines changed against
+  covered: number;
+  total: number;
+  pct: number;
+  files: ChangedFileCoverage[];
+}
+
+export interface CoverageDrop {
+  file?: string; // Absent for the project totals
+  metric: CoverageMetricName;
+  previous: number; // Percent
+  current: number;
+}
+
+const METRICS: CoverageMetricName[] = ['lines', 'statements', 'functions', 'branches'];
+
+/**
+ * What a parser collects for one file before it's reduced to metrics
+ */
+interface FileHits {
+  lineHits: Map<number, number>;
+  functions: Array<{ name: string; line: number; hits: number }>;
+  branches: { covered: number; total: number };
+  statements?: { covered: number; total: number };
+}
+
+// ============================================
+// Entry Points
+// ============================================
+
+/**
+ * Parse a coverage report in a known format; throws when the content isn't one
+ */
+export function parseCoverageReport(content: string, format: CoverageFormat, projectPath?: string): CoverageReport {
+  switch (format) {
+    case 'istanbul':
+      return parseIstanbulJson(content, projectPath);
+    case 'lcov':
+      return parseLcov(content, projectPath);
+    case 'cobertura':
+      return parseCoberturaXml(content, projectPath);
+    case 'go-cover':
+      return parseGoCoverProfile(content);
+  }
+}
+
+/**
+ * Format of a coverage report, from its file name
+ */
+export function detectCoverageFormat(filename: string): CoverageFormat | null {
+  if (filename.endsWith('.json')) return 'istanbul';
+  if (filename.endsWith('.info') || filename.endsWith('.lcov')) return 'lcov';
+  if (filename.endsWith('.xml')) return 'cobertura';
+  if (filename.endsWith('.out') || filename.endsWith('.cov') || filename.endsWith('.coverprofile')) return 'go-cover';
+  return null;
+}
+
+/**
+ * Read a coverage report file, inferring the format from its name
+ */
+export async function readCoverageReport(path: string, projectPath?: string): Promise<CoverageReport | null> {
+  const format = detectCoverageFormat(path);
+  if (!format) return null;
+  return parseCoverageReport(await readFile(path, 'utf-8'), format, projectPath);
+}
+
+// ============================================
+// Istanbul JSON
+// ============================================
+
+interface IstanbulPosition {
+  line: number;
+  column: number | null;
+}
+
+interface IstanbulFile {
+  path?: string;
+  statementMap: Record<string, { start: IstanbulPosition; end: IstanbulPosition }>;
+  s: Record<string, number>;
+  fnMap: Record<string, { name: string; line?: number; decl?: { start: IstanbulPosition }; loc?: { start: IstanbulPosition } }>;
+  f: Record<string, number>;
+  b: Record<string, number[]>;
+}
+
+/**
+ * Parse coverage-final.json: file path → statement, function and branch maps
+ * with hit counts. A line's hits are those of the statements starting on it.
+ */
+export function parseIstanbulJson(json: string | object, projectPath?: string): CoverageReport {
+  const data = (typeof json === 'string' ? JSON.parse(json) : json) as Record<string, IstanbulFile>;
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Not an Istanbul coverage report');
+  }
+
+  const files: FileCoverage[] = [];
+  for (const [key, entry] of Object.entries(data)) {
+    if (!entry?.statementMap || !entry.s) {
+      throw new Error(`Not an Istanbul coverage report (no statements for ${key})`);
+    }
+
+    const lineHits = new Map<number, number>();
+    let coveredStatements = 0;
+    for (const [id, location] of Object.entries(entry.statementMap)) {
+      const hits = entry.s[id] ?? 0;
+      if (hits > 0) coveredStatements++;
+      const line = location.start.line;
+      lineHits.set(line, Math.max(lineHits.get(line) ?? 0, hits));
+    }
+
+    const functions = Object.entries(entry.fnMap ?? {}).map(([id, fn]) => ({
+      name: fn.name,
+      line: fn.decl?.start.line ?? fn.loc?.start.line ?? fn.line ?? 0,
+      hits: entry.f?.[id] ?? 0,
+    }));
+
+    const branchCounts = Object.values(entry.b ?? {}).flat();
+    files.push(buildFileCoverage(toProjectPath(entry.path ?? key, projectPath), {
+      lineHits,
+      functions,
+      branches: { covered: branchCounts.filter(count => count > 0).length, total: branchCounts.length },
+      statements: { covered: coveredStatements, total: Object.keys(entry.statementMap).length },
+    }));
+  }
+
+  return summarize('istanbul', files);
+}
+
+// ============================================
+// lcov
+// ============================================
+
+/**
+ * Parse lcov tracefiles: SF/DA/FN/FNDA/BRDA records ending in end_of_record
+ */
+export function parseLcov(text: string, projectPath?: string): CoverageReport {
+  const files: FileCoverage[] = [];
+  let file: string | null = null;
+  let hits = emptyHits();
+  let functionLines = new Map<string, number>();
+  let functionHits = new Map<string, number>();
+
+  const finish = (): void => {
+    if (file === null) return;
+    hits.functions = Array.from(functionLines, ([name, line]) => ({ name, line, hits: functionHits.get(name) ?? 0 }));
+    files.push(buildFileCoverage(toProjectPath(file, projectPath), hits));
+    file = null;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const separator = line.indexOf(':');
+    const key = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1);
+
+    switch (key) {
+      case 'SF':
+        finish();
+        file = value;
+        hits = emptyHits();
+        functionLines = new Map();
+        functionHits = new Map();
+        break;
+      case 'DA': {
+        const [lineNumber, count] = value.split(',');
+        const number = parseInt(lineNumber, 10);
+        hits.lineHits.set(number, Math.max(hits.lineHits.get(number) ?? 0, toCount(count)));
+        break;
+      }
+      case 'FN': {
+        // "FN:<line>,<name>", or "FN:<line>,<end line>,<name>" since lcov 2.0
+        const match = value.match(/^(\d+)(?:,\d+)?,(.+)$/);
+        if (match) functionLines.set(match[2], parseInt(match[1], 10));
+        break;
+      }
+      case 'FNDA': {
+        const comma = value.indexOf(',');
+        const name = value.slice(comma + 1);
+        functionHits.set(name, (functionHits.get(name) ?? 0) + toCount(value.slice(0, comma)));
+        break;
+      }
+      case 'BRDA': {
+        const taken = value.split(',')[3];
+        hits.branches.total++;
+        if (toCount(taken) > 0) hits.branches.covered++;
+        break;
+      }
+      case 'end_of_record':
+        finish();
+        break;
+    }
+  }
+  finish();
+
+  if (files.length === 0 && !/^(?:TN|SF):/m.test(text)) {
+    throw new Error('Not an lcov report');
+  }
+  return summarize('lcov', files);
+}
+
+// ============================================
+// Cobertura XML
+// ============================================
+
+/**
+ * Parse Cobertura XML: <coverage>/<packages>/<package>/<classes>/<class
+ * filename> with <line number hits branch condition-coverage> and <method>
+ * elements. File names are relative to one of the <source> directories.
+ */
+export function parseCoberturaXml(xml: string, projectPath?: string): CoverageReport {
+  const root = parseXml(xml);
+  if (root.name !== 'coverage') {
+    throw new Error(`Not a Cobertura report (root element <${root.name}>)`);
+  }
+
+  const sources = childrenNamed(root, 'sources').flatMap(element => childrenNamed(element, 'source'))
+    .map(element => element.text.trim())
+    .filter(Boolean);
+
+  // Several classes can share a file (inner classes, one class per Python module)
+  const byFile = new Map<string, FileHits & { branchLines: Map<number, { covered: number; total: number }> }>();
+
+  for (const packageElement of childrenNamed(root, 'packages').flatMap(element => childrenNamed(element, 'package'))) {
+    for (const classElement of childrenNamed(packageElement, 'classes').flatMap(element => childrenNamed(element, 'class'))) {
+      const filename = classElement.attributes.filename;
+      if (!filename) continue;
+
+      let entry = byFile.get(filename);
+      if (!entry) {
+        entry = { ...emptyHits(), branchLines: new Map() };
+        byFile.set(filename, entry);
+      }
+
+      for (const lineElement of childrenNamed(classElement, 'lines').flatMap(element => childrenNamed(element, 'line'))) {
+        const number = parseInt(lineElement.attributes.number, 10);
+        if (!Number.isFinite(number)) continue;
+        entry.lineHits.set(number, Math.max(entry.lineHits.get(number) ?? 0, toCount(lineElement.attributes.hits)));
+
+        // condition-coverage="50% (1/2)"
+        const conditions = lineElement.attributes['condition-coverage']?.match(/\((\d+)\/(\d+)\)/);
+        if (lineElement.attributes.branch === 'true' && conditions) {
+          const covered = parseInt(conditions[1], 10);
+          const previous = entry.branchLines.get(number);
+          if (!previous || covered > previous.covered) {
+            entry.branchLines.set(number, { covered, total: parseInt(conditions[2], 10) });
+          }
+        }
+      }
+
+      for (const method of childrenNamed(classElement, 'methods').flatMap(element => childrenNamed(element, 'method'))) {
+        const methodLines = childrenNamed(method, 'lines').flatMap(element => childrenNamed(element, 'line'));
+        const first = methodLines[0];
+        entry.functions.push({
+          name: method.attributes.name ?? '(anonymous)',
+          line: first ? parseInt(first.attributes.number, 10) : 0,
+          hits: methodLines.reduce((max, line) => Math.max(max, toCount(line.attributes.hits)), 0),
+        });
+      }
+    }
+  }
+
+  const files: FileCoverage[] = [];
+  for (const [filename, entry] of byFile) {
+    for (const { covered, total } of entry.branchLines.values()) {
+      entry.branches.covered += covered;
+      entry.branches.total += total;
+    }
+    files.push(buildFileCoverage(toProjectPath(resolveSource(filename, sources), projectPath), entry));
+  }
+
+  return summarize('cobertura', files);
+}
+
+/**
+ * The source directory a Cobertura file name is relative to; the first one
+ * that has the file, since reports may list several
+ */
+function resolveSource(filename: string, sources: string[]): string {
+  if (sources.length === 0 || filename.startsWith('/')) return filename;
+  const found = sources.find(source => existsSync(join(source, filename)));
+  return join(found ?? sources[0], filename);
+}
+
+function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name);
+}
+
+// ============================================
+// Go cover profiles
+// ============================================
+
+/**
+ * Parse `go test -coverprofile` output: "mode: set" followed by
+ * "<import path>/file.go:<line>.<col>,<line>.<col> <statements> <count>".
+ * Files are named by import path; the Go runner makes them relative.
+ */
+export function parseGoCoverProfile(text: string): CoverageReport {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.startsWith('mode:')) {
+    throw new Error('Not a Go cover profile');
+  }
+
+  // The same block is listed once per test binary that covers its package
+  const blocks = new Map<string, { file: string; start: number; end: number; statements: number; count: number }>();
+  for (const line of lines.slice(1)) {
+    const match = line.match(/^(.+):(\d+)\.\d+,(\d+)\.\d+ (\d+) (\d+)$/);
+    if (!match) continue;
+    const key = line.split(' ')[0]; // File and position
+    const count = parseInt(match[5], 10);
+    const existing = blocks.get(key);
+    if (existing) {
+      existing.count += count;
+    } else {
+      blocks.set(key, {
+        file: match[1],
+        start: parseInt(match[2], 10),
+        end: parseInt(match[3], 10),
+        statements: parseInt(match[4], 10),
+        count,
+      });
+    }
+  }
+
+  const byFile = new Map<string, FileHits>();
+  for (const block of blocks.values()) {
+    let entry = byFile.get(block.file);
+    if (!entry) {
+      entry = { ...emptyHits(), statements: { covered: 0, total: 0 } };
+      byFile.set(block.file, entry);
+    }
+
+    entry.statements!.total += block.statements;
+    if (block.count > 0) entry.statements!.covered += block.statements;
+
+    // A line is covered when any block on it ran
+    for (let line = block.start; line <= block.end; line++) {
+      entry.lineHits.set(line, Math.max(entry.lineHits.get(line) ?? 0, block.count));
+    }
+  }
+
+  return summarize('go-cover', Array.from(byFile, ([file, entry]) => buildFileCoverage(file, entry)));
+}
+
+// ============================================
+// Combining and Comparing
+// ============================================
+
+/**
+ * Combine reports of one run, e.g. one lcov file per workspace package.
+ * A file in several reports keeps the entry that covers the most lines.
+ */
+export function mergeCoverageReports(reports: CoverageReport[]): CoverageReport | null {
+  if (reports.length === 0) return null;
+  if (reports.length === 1) return reports[0];
+
+  const byFile = new Map<string, FileCoverage>();
+  for (const file of reports.flatMap(report => report.files)) {
+    const existing = byFile.get(file.file);
+    if (!existing || file.lines.covered > existing.lines.covered) byFile.set(file.file, file);
+  }
+  return summarize(reports[0].format, Array.from(byFile.values()));
+}
+
+/**
+ * Lines added or modified since a commit, per file. The default compares the
+ * working tree to HEAD, where files git doesn't track yet count as changed
+ * throughout; a range such as "main...feature" compares branches.
+ */
+export async function getChangedLines(projectPath: string, base = 'HEAD'): Promise<Map<string, number[]>> {
+  const { stdout } = await execAsync(`git diff -U0 --no-color --no-ext-diff ${base}`, {
+    cwd: projectPath,
+    maxBuffer: 32 * 1024 * 1024,
+  });
+
+  const changed = new Map<string, number[]>();
+  let current: number[] | null = null;
+
+  for (const line of stdout.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const path = line.slice(4).replace(/^"(.*)"$/, '$1');
+      if (path === '/dev/null') {
+        current = null; // Deleted
+      } else {
+        current = [];
+        changed.set(path.replace(/^b\//, ''), current);
+      }
+    } else if (current && line.startsWith('@@')) {
+      const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+      if (!hunk) continue;
+      const start = parseInt(hunk[1], 10);
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      for (let offset = 0; offset < count; offset++) current.push(start + offset);
+    }
+  }
+
+  if (base === 'HEAD') {
+    const { stdout: untracked } = await execAsync('git ls-files --others --exclude-standard', { cwd: projectPath });
+    for (const file of untracked.split('\n').filter(Boolean).slice(0, MAX_UNTRACKED_FILES)) {
+      try {
+        const path = join(projectPath, file);
+        if ((await stat(path)).size > MAX_UNTRACKED_SIZE) continue;
+        const lineCount = (await readFile(path, 'utf-8')).split('\n').length;
+        changed.set(file, Array.from({ length: lineCount }, (_, index) => index + 1));
+      } catch {
+        // Removed since it was listed
+      }
+    }
+  }
+
+  for (const [file, lines] of changed) {
+    if (lines.length === 0) changed.delete(file);
+  }
+  return changed;
+}
+
+/**
+ * How many changed lines the tests ran. Only executable lines count: those
+ * in the report's covered or uncovered ranges. Changed files the report
+ * doesn't know are left out, since nothing says they're executable.
+ */
+export function computeChangedLineCoverage(
+  files: FileCoverage[],
+  changed: Map<string, number[]>,
+  base: string
+): ChangedLineCoverage {
+  const byFile = new Map(files.map(file => [file.file, file]));
+  const result: ChangedFileCoverage[] = [];
+
+  for (const [file, lines] of changed) {
+    const coverage = byFile.get(file);
+    if (!coverage) continue;
+
+    const covered = lines.filter(line => inRanges(coverage.coveredLines, line));
+    const uncovered = lines.filter(line => inRanges(coverage.uncoveredLines, line));
+    if (covered.length + uncovered.length === 0) continue;
+
+    result.push({
+      file,
+      covered: covered.length,
+      total: covered.length + uncovered.length,
+      uncoveredLines: toRanges(uncovered),
+    });
+  }
+
+  const covered = result.reduce((sum, file) => sum + file.covered, 0);
+  const total = result.reduce((sum, file) => sum + file.total, 0);
+  return { base, ...metric(covered, total), files: result.sort((a, b) => a.file.localeCompare(b.file)) };
+}
+
+/**
+ * Where coverage fell between two snapshots: the project totals, and each
+ * file's lines. With onlyFiles the totals are skipped and only those files
+ * compared, for runs that didn't run the whole suite.
+ */
+export function compareCoverage(
+  previous: CoveragePercentages,
+  current: CoveragePercentages,
+  onlyFiles?: string[]
+): CoverageDrop[] {
+  const drops: CoverageDrop[] = [];
+
+  if (!onlyFiles) {
+    for (const name of METRICS) {
+      if (previous[name] - current[name] >= TOTAL_DROP_THRESHOLD) {
+        drops.push({ metric: name, previous: previous[name], current: current[name] });
+      }
+    }
+  }
+
+  const previousFiles = new Map((previous.files ?? []).map(file => [file.file, file]));
+  const compared = onlyFiles ? new Set(onlyFiles) : null;
+  const fileDrops: CoverageDrop[] = [];
+  for (const file of current.files ?? []) {
+    if (compared && !compared.has(file.file)) continue;
+    const before = previousFiles.get(file.file);
+    if (!before || before.lines.total === 0) continue;
+    if (before.lines.pct - file.lines.pct >= FILE_DROP_THRESHOLD) {
+      fileDrops.push({ file: file.file, metric: 'lines', previous: before.lines.pct, current: file.lines.pct });
+    }
+  }
+
+  fileDrops.sort((a, b) => (b.previous - b.current) - (a.previous - a.current));
+  return [...drops, ...fileDrops].slice(0, MAX_DROPS);
+}
+
+/**
+ * "lines 82.5% → 79.1%", or "src/api.ts: lines 90% → 61.3%"
+ */
+export function formatCoverageDrop(drop: CoverageDrop): string {
+  return `${drop.file ? `${drop.file}: ` : ''}${drop.metric} ${drop.previous}% → ${drop.current}%`;
+}
+
+/**
+ * "12-14, 20"
+ */
+export function formatLineRanges(ranges: LineRange[]): string {
+  return ranges.map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`)).join(', ');
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function buildFileCoverage(file: string, hits: FileHits): FileCoverage {
+  const lineNumbers = Array.from(hits.lineHits.keys()).sort((a, b) => a - b);
+  const covered = lineNumbers.filter(line => hits.lineHits.get(line)! > 0);
+  const uncovered = lineNumbers.filter(line => hits.lineHits.get(line) === 0);
+  const lines = metric(covered.length, lineNumbers.length);
+
+  return {
+    file,
+    lines,
+    functions: metric(hits.functions.filter(fn => fn.hits > 0).length, hits.functions.length),
+    branches: metric(hits.branches.covered, hits.branches.total),
+    statements: hits.statements ? metric(hits.statements.covered, hits.statements.total) : lines,
+    coveredLines: toRanges(covered),
+    uncoveredLines: toRanges(uncovered),
+    uncoveredFunctions: hits.functions
+      .filter(fn => fn.hits === 0)
+      .map(({ name, line }) => ({ name, line }))
+      .sort((a, b) => a.line - b.line),
+  };
+}
+
+function summarize(format: CoverageFormat, files: FileCoverage[]): CoverageReport {
+  const total = (name: CoverageMetricName): CoverageMetric => metric(
+    files.reduce((sum, file) => sum + file[name].covered, 0),
+    files.reduce((sum, file) => sum + file[name].total, 0)
+  );
+
+  return {
+    format,
+    files: files.sort((a, b) => a.file.localeCompare(b.file)),
+    totals: {
+      lines: total('lines'),
+      functions: total('functions'),
+      branches: total('branches'),
+      statements: total('statements'),
+    },
+  };
+}
+
+function metric(covered: number, total: number): CoverageMetric {
+  return { covered, total, pct: total > 0 ? Math.round((covered / total) * 10000) / 100 : 100 };
+}
+
+function emptyHits(): FileHits {
+  return { lineHits: new Map(), functions: [], branches: { covered: 0, total: 0 } };
+}
+
+/**
+ * Sorted line numbers as runs of consecutive lines
+ */
+function toRanges(lines: number[]): LineRange[] {
+  const ranges: LineRange[] = [];
+  for (const line of lines) {
+    const last = ranges[ranges.length - 1];
+    if (last && line === last[1] + 1) {
+      last[1] = line;
+    } else if (!last || line > last[1]) {
+      ranges.push([line, line]);
+    }
+  }
+  return ranges;
+}
+
+function inRanges(ranges: LineRange[], line: number): boolean {
+  let low = 0;
+  let high = ranges.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const [start, end] = ranges[middle];
+    if (line < start) high = middle - 1;
+    else if (line > end) low = middle + 1;
+    else return true;
+  }
+  return false;
+}
+
+/**
+ * Hit counts; lcov writes "-" for branches that never ran
+ */
+function toCount(value: string | undefined): number {
+  const count = parseInt(value ?? '', 10);
+  return Number.isFinite(count) ? count : 0;
+}
@@ -0,0 +1,425 @@
+/**
+ * Flakiness Tracker - Per-test pass/fail history and flaky test quarantine
+ *
+ * Records the outcome of every test in watched runs, keyed by file and test
+ * name, with a fingerprint of the code it ran against (HEAD plus uncommitted
+ * changes). A test is flaky when it:
+ * - Failed, then passed on a rerun with the code unchanged (TestHealer reruns
+ *   a failure before it tries to fix it)
+ * - Both passed and failed against the same code in recent runs
+ *
+ * Flaky tests are offered for quarantine (test.flaky events become
+ * notifications) instead of being healed. Quarantined tests are a skip list:
+ * their failures are kept out of watched results, so they don't notify,
+ * trigger healing or fail the run.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { existsSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { getBrain } from '../brain-manager.js';
+import { getEventBus, type TestFailureDetail } from '../events/event-bus.js';
+import type { TestResult } from './test-watcher.js';
+
+const execAsync = promisify(exec);
+
+// ============================================
+// Configuration
+// ============================================
+
+const FLAKINESS_CONFIG = {
+  // Score at which a test counts as flaky
+  flakyThreshold: 0.5,
+
+  // Outcomes kept per test, once it has failed
+  recentOutcomes: 30,
+
+  // Mixed results need this many runs against the same code for full weight
+  minMixedRuns: 4,
+
+  // Don't offer quarantine for the same test more often than this
+  offerInterval: 7 * 24 * 60 * 60 * 1000,
+
+  // Tests not seen for this long are forgotten (unless quarantined)
+  staleAfter: 30 * 24 * 60 * 60 * 1000,
+};
+
+// ============================================
+// Types
+// ============================================
+
+export interface TestOutcome {
+  at: number;
+  passed: boolean;
+  state?: string; // Fingerprint of the code; absent outside git
+  rerun?: boolean; // From TestHealer's rerun, not a watched run
+}
+
+export interface TestHistory {
+  id: string; // Short id for /tests commands
+  file: string;
+  test: string; // Suite and test name, joined with " > "
+  runs: number;
+  failures: number;
+  retryPasses: number; // Failed, then passed on a rerun against the same code
+  recent: TestOutcome[]; // Newest last; recorded once the test has failed
+  score: number; // 0-1
+  lastError?: string;
+  lastFailedAt?: number;
+  lastSeenAt: number;
+  offeredAt?: number; // Last time quarantine was offered
+  quarantined?: {
+    at: number;
+    chatId?: number; // Who quarantined it
+    reason: string;
+  };
+}
+
+export interface FlakyTest extends TestHistory {
+  projectPath: string;
+  failureRate: number; // 0-1
+}
+
+type ProjectHistory = Record<string, TestHistory>; // By file and test name
+
+// ============================================
+// Flakiness Tracker Class
+// ============================================
+
+export class FlakinessTracker {
+  private brain = getBrain();
+  private flakinessDir: string;
+  private projects = new Map<string, ProjectHistory>();
+
+  constructor() {
+    this.flakinessDir = join(this.brain.getBrainDir(), 'flakiness');
+  }
+
+  /**
+   * Record the outcome of each test in a run. Tests that become flaky are
+   * offered for quarantine and returned.
+   */
+  async recordRun(result: TestResult, chatId?: number): Promise<TestHistory[]> {
+    if (!result.cases || result.cases.length === 0) return [];
+
+    const history = await this.load(result.projectPath);
+    const state = await this.getCodeState(result.projectPath);
+    const touched = new Set<TestHistory>();
+
+    for (const testCase of result.cases) {
+      if (testCase.status === 'skipped') continue;
+      const test = testCase.suite ? `${testCase.suite} > ${testCase.name}` : testCase.name;
+      const entry = this.getEntry(result.projectPath, history, testCase.file, test);
+      const passed = testCase.status === 'passed';
+
+      entry.runs++;
+      entry.lastSeenAt = result.timestamp;
+      if (!passed) {
+        entry.failures++;
+        entry.lastFailedAt = result.timestamp;
+        entry.lastError = testCase.failureMessage;
+      }
+      // Passing tests only need counts until they fail
+      if (!passed || entry.failures > 0) {
+        addOutcome(entry, { at: result.timestamp, passed, state });
+        touched.add(entry);
+      }
+    }
+
+    const flaky: TestHistory[] = [];
+    for (const entry of touched) {
+      const wasFlaky = entry.score >= FLAKINESS_CONFIG.flakyThreshold;
+      entry.score = scoreFlakiness(entry);
+      if (!wasFlaky && entry.score >= FLAKINESS_CONFIG.flakyThreshold && !entry.quarantined) {
+        flaky.push(entry);
+      }
+    }
+
+    await this.save(result.projectPath);
+    for (const entry of flaky) {
+      await this.offerQuarantine(result.projectPath, entry, 'history', chatId);
+    }
+    return flaky;
+  }
+
+  /**
+   * Record that a failed test passed when rerun against the same code, and
+   * offer to quarantine it
+   */
+  async recordRetryPass(projectPath: string, failure: TestFailureDetail, chatId?: number): Promise<TestHistory> {
+    const history = await this.load(projectPath);
+    const entry = this.getEntry(projectPath, history, failure.file, failure.test);
+    const now = Date.now();
+
+    entry.retryPasses++;
+    entry.runs++;
+    entry.lastSeenAt = now;
+    entry.lastError = failure.error;
+    addOutcome(entry, { at: now, passed: true, state: await this.getCodeState(projectPath), rerun: true });
+    entry.score = scoreFlakiness(entry);
+
+    await this.save(projectPath);
+    if (!entry.quarantined && entry.score >= FLAKINESS_CONFIG.flakyThreshold) {
+      await this.offerQuarantine(projectPath, entry, 'rerun', chatId);
+    }
+    return entry;
+  }
+
+  /**
+   * Whether a test's history makes it flaky
+   */
+  async isFlaky(projectPath: string, file: string, test: string): Promise<boolean> {
+    const entry = (await this.load(projectPath))[historyKey(file, test)];
+    return entry !== undefined && entry.score >= FLAKINESS_CONFIG.flakyThreshold;
+  }
+
+  async isQuarantined(projectPath: string, file: string, test: string): Promise<boolean> {
+    return !!(await this.load(projectPath))[historyKey(file, test)]?.quarantined;
+  }
+
+  /**
+   * Move failures of quarantined tests out of a result, so they don't count
+   */
+  async applyQuarantine(result: TestResult): Promise<TestResult> {
+    if (!result.failures || result.failures.length === 0) return result;
+
+    const history = await this.load(result.projectPath);
+    const quarantined = result.failures.filter(f => history[historyKey(f.file, f.test)]?.quarantined);
+    if (quarantined.length === 0) return result;
+
+    return {
+      ...result,
+      failed: Math.max(0, result.failed - quarantined.length),
+      failures: result.failures.filter(f => !quarantined.includes(f)),
+      quarantined,
+    };
+  }
+
+  /**
+   * Put a test on the skip list, by its id or name
+   */
+  async quarantine(projectPath: string, idOrName: string, chatId?: number, reason = 'Quarantined as flaky'): Promise<TestHistory | null> {
+    const entry = this.findEntry(await this.load(projectPath), idOrName);
+    if (!entry) return null;
+
+    entry.quarantined = { at: Date.now(), chatId, reason };
+    await this.save(projectPath);
+    console.log(`[FlakinessTracker] Quarantined ${entry.test} in ${projectPath}`);
+    return entry;
+  }
+
+  /**
+   * Take a test off the skip list, by its id or name
+   */
+  async release(projectPath: string, idOrName: string): Promise<TestHistory | null> {
+    const entry = this.findEntry(await this.load(projectPath), idOrName);
+    if (!entry?.quarantined) return null;
+
+    entry.quarantined = undefined;
+    await this.save(projectPath);
+    console.log(`[FlakinessTracker] Released ${entry.test} in ${projectPath}`);
+    return entry;
+  }
+
+  /**
+   * Flaky and quarantined tests of a project, most flaky first
+   */
+  async getFlakyTests(projectPath: string): Promise<FlakyTest[]> {
+    const history = await this.load(projectPath);
+    return Object.values(history)
+      .filter(entry => entry.quarantined || entry.score >= FLAKINESS_CONFIG.flakyThreshold)
+      .map(entry => ({ ...entry, projectPath, failureRate: entry.runs > 0 ? entry.failures / entry.runs : 0 }))
+      .sort((a, b) => b.score - a.score || b.failureRate - a.failureRate);
+  }
+
+  /**
+   * Fingerprint of the code tests run against: HEAD, uncommitted changes and
+   * untracked files. Undefined outside a git repository.
+   */
+  async getCodeState(projectPath: string): Promise<string | undefined> {
+    try {
+      const options = { cwd: projectPath, maxBuffer: 64 * 1024 * 1024 };
+      const [head, diff, status] = await Promise.all([
+        execAsync('git rev-parse HEAD', options),
+        execAsync('git diff HEAD --no-color --no-ext-diff', options),
+        execAsync('git status --porcelain --untracked-files=all', options),
+      ]);
+      return createHash('sha1')
+        .update(head.stdout)
+        .update(diff.stdout)
+        .update(status.stdout)
+        .digest('hex')
+        .substring(0, 12);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Announce a flaky test; NotificationRouter offers the quarantine command
+   */
+  private async offerQuarantine(
+    projectPath: string,
+    entry: TestHistory,
+    reason: 'rerun' | 'history',
+    chatId?: number
+  ): Promise<void> {
+    if (entry.offeredAt && Date.now() - entry.offeredAt < FLAKINESS_CONFIG.offerInterval) return;
+
+    entry.offeredAt = Date.now();
+    await this.save(projectPath);
+
+    await getEventBus().publish('test.flaky', {
+      projectPath,
+      chatId,
+      id: entry.id,
+      file: entry.file,
+      test: entry.test,
+      score: entry.score,
+      failureRate: entry.runs > 0 ? entry.failures / entry.runs : 0,
+      reason,
+      lastError: entry.lastError?.substring(0, 300),
+    });
+  }
+
+  private getEntry(projectPath: string, history: ProjectHistory, file: string, test: string): TestHistory {
+    const key = historyKey(file, test);
+    let entry = history[key];
+    if (!entry) {
+      entry = {
+        id: `fl-${createHash('sha1').update(`${projectPath}:${key}`).digest('hex').substring(0, 8)}`,
+        file,
+        test,
+        runs: 0,
+        failures: 0,
+        retryPasses: 0,
+        recent: [],
+        score: 0,
+        lastSeenAt: Date.now(),
+      };
+      history[key] = entry;
+    }
+    return entry;
+  }
+
+  /**
+   * By id, exact test name, or a unique part of the name
+   */
+  private findEntry(history: ProjectHistory, idOrName: string): TestHistory | null {
+    const entries = Object.values(history);
+    const exact = entries.find(entry => entry.id === idOrName || entry.test === idOrName);
+    if (exact) return exact;
+
+    const partial = entries.filter(entry => entry.test.includes(idOrName));
+    return partial.length === 1 ? partial[0] : null;
+  }
+
+  /**
+   * Load a project's history from disk, once
+   */
+  private async load(projectPath: string): Promise<ProjectHistory> {
+    let history = this.projects.get(projectPath);
+    if (history) return history;
+
+    history = {};
+    const filepath = this.getFilePath(projectPath);
+    if (existsSync(filepath)) {
+      try {
+        history = JSON.parse(await readFile(filepath, 'utf-8')) as ProjectHistory;
+      } catch (error) {
+        console.warn(`[FlakinessTracker] Ignoring unreadable history for ${projectPath}:`, error);
+      }
+    }
+    this.projects.set(projectPath, history);
+    return history;
+  }
+
+  /**
+   * Save a project's history, forgetting tests that are no longer run
+   */
+  private async save(projectPath: string): Promise<void> {
+    const history = this.projects.get(projectPath);
+    if (!history) return;
+
+    const cutoff = Date.now() - FLAKINESS_CONFIG.staleAfter;
+    for (const [key, entry] of Object.entries(history)) {
+      if (entry.lastSeenAt < cutoff && !entry.quarantined) delete history[key];
+    }
+
+    if (!existsSync(this.flakinessDir)) {
+      mkdirSync(this.flakinessDir, { recursive: true });
+    }
+    try {
+      await writeFile(this.getFilePath(projectPath), JSON.stringify(history));
+    } catch (error) {
+      console.error('[FlakinessTracker] Failed to save history:', error);
+    }
+  }
+
+  private getFilePath(projectPath: string): string {
+    return join(this.flakinessDir, `${projectPath.replace(/[^a-z0-9]/gi, '-')}.json`);
+  }
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+/**
+ * Combine two kinds of evidence, each 0-1:
+ * - Rerun passes: 0.5 for the first, approaching 1 with more
+ * - Mixed results against the same code: 1 for an even split, scaled down
+ *   when there are only a few runs
+ */
+function scoreFlakiness(entry: TestHistory): number {
+  const rerun = 1 - 0.5 ** entry.retryPasses;
+
+  const byState = new Map<string, { passed: number; failed: number }>();
+  for (const outcome of entry.recent) {
+    if (!outcome.state) continue;
+    const counts = byState.get(outcome.state) ?? { passed: 0, failed: 0 };
+    if (outcome.passed) counts.passed++;
+    else counts.failed++;
+    byState.set(outcome.state, counts);
+  }
+
+  let mixed = 0;
+  for (const { passed, failed } of byState.values()) {
+    const runs = passed + failed;
+    const split = (Math.min(passed, failed) / runs) * 2;
+    mixed = Math.max(mixed, split * Math.min(1, runs / FLAKINESS_CONFIG.minMixedRuns));
+  }
+
+  return Math.round((1 - (1 - rerun) * (1 - mixed)) * 100) / 100;
+}
+
+function addOutcome(entry: TestHistory, outcome: TestOutcome): void {
+  entry.recent.push(outcome);
+  if (entry.recent.length > FLAKINESS_CONFIG.recentOutcomes) {
+    entry.recent.splice(0, entry.recent.length - FLAKINESS_CONFIG.recentOutcomes);
+  }
+}
+
+function historyKey(file: string, test: string): string {
+  return `${file}::${test}`;
+}
+
+// ============================================
+// Global Singleton
+// ============================================
+
+let globalFlakinessTracker: FlakinessTracker | null = null;
+
+export function getFlakinessTracker(): FlakinessTracker {
+  if (!globalFlakinessTracker) {
+    globalFlakinessTracker = new FlakinessTracker();
+  }
+  return globalFlakinessTracker;
+}
+
+export function resetFlakinessTracker(): void {
+  globalFlakinessTracker = null;
+}
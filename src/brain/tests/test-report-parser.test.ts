@@ -0,0 +1,302 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  detectTestReport,
+  parseCargoTestOutput,
+  parseGoTestJson,
+  parseJestJson,
+  parseJUnitXml,
+  parseTap,
+  parseTestSummary,
+} from './test-report-parser.js';
+
+const red = (text: string): string => `\u001b[31m${text}\u001b[39m`;
+
+describe('parseJUnitXml', () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="vitest tests" tests="4" failures="1" time="1.5">
+  <testsuite name="src/math.test.ts" tests="4" failures="1" skipped="1">
+    <testcase classname="src/math.test.ts" name="adds" time="0.012"/>
+    <testcase classname="src/math.test.ts" name="divides" time="0.2">
+      <failure message="expected 2 to be 3" type="AssertionError"><![CDATA[AssertionError: expected 2 to be 3
+    at src/math.test.ts:8:20]]></failure>
+    </testcase>
+    <testcase classname="src/math.test.ts" name="rounds &amp; floors" time="0">
+      <skipped/>
+    </testcase>
+    <testcase classname="src/math.test.ts" name="throws" time="0.003">
+      <error type="TypeError">TypeError: x is not a function</error>
+    </testcase>
+  </testsuite>
+</testsuites>`;
+
+  it('reads passes, failures, errors and skips', () => {
+    const report = parseJUnitXml(xml, '/repo');
+
+    expect(report.format).toBe('junit');
+    expect(report).toMatchObject({ passed: 1, failed: 2, skipped: 1, duration: 1500 });
+    expect(report.cases.map(c => [c.name, c.status])).toEqual([
+      ['adds', 'passed'],
+      ['divides', 'failed'],
+      ['rounds & floors', 'skipped'],
+      ['throws', 'failed'],
+    ]);
+  });
+
+  it('keeps failure messages and stacks, and takes the file from the class name', () => {
+    const [, divides, , throws] = parseJUnitXml(xml).cases;
+
+    expect(divides).toMatchObject({
+      file: 'src/math.test.ts',
+      duration: 200,
+      failureMessage: 'expected 2 to be 3',
+      stack: 'AssertionError: expected 2 to be 3\n    at src/math.test.ts:8:20',
+    });
+    expect(throws.failureMessage).toBe('TypeError: x is not a function');
+  });
+
+  it('makes pytest paths relative and drops the module from the class name', () => {
+    const report = parseJUnitXml(`<testsuites><testsuite name="pytest">
+      <testcase classname="tests.test_api.TestUsers" file="/repo/tests/test_api.py" name="test_list" time="0.5"/>
+    </testsuite></testsuites>`, '/repo');
+
+    expect(report.cases[0]).toMatchObject({ file: 'tests/test_api.py', suite: 'TestUsers', duration: 500 });
+  });
+
+  it('rejects XML that is not a JUnit report', () => {
+    expect(() => parseJUnitXml('<coverage line-rate="1"></coverage>')).toThrow(/Not a JUnit report/);
+    expect(() => parseJUnitXml('<testsuite><testcase></testsuite>')).toThrow(/Malformed XML/);
+  });
+});
+
+describe('parseTap', () => {
+  it('reads subtests as suites, directives as skips and YAML diagnostics', () => {
+    const tap = `TAP version 13
+# Subtest: math
+    ok 1 - adds
+      ---
+      duration_ms: 1.4
+      ...
+    not ok 2 - divides
+      ---
+      duration_ms: 2
+      location: '/repo/test/math.test.js:8:3'
+      error: |-
+        Expected values to be strictly equal:
+        2 !== 3
+      stack: |-
+        at TestContext.<anonymous> (/repo/test/math.test.js:9:10)
+      ...
+    ok 3 - rounds # SKIP not yet
+    ok 4 - floors # TODO
+    1..4
+not ok 1 - math
+  ---
+  type: 'suite'
+  ...
+1..1
+# duration_ms 12.5
+`;
+    const report = parseTap(tap, '/repo');
+
+    expect(report).toMatchObject({ format: 'tap', passed: 1, failed: 1, skipped: 2, duration: 13 });
+    expect(report.cases.map(c => [c.suite, c.name, c.status])).toEqual([
+      ['math', 'adds', 'passed'],
+      ['math', 'divides', 'failed'],
+      ['math', 'rounds', 'skipped'],
+      ['math', 'floors', 'skipped'],
+    ]);
+    expect(report.cases[1]).toMatchObject({
+      file: 'test/math.test.js',
+      failureMessage: 'Expected values to be strictly equal:\n2 !== 3',
+      stack: 'at TestContext.<anonymous> (/repo/test/math.test.js:9:10)',
+    });
+  });
+
+  it('ignores ANSI colours and stops at Bail out!', () => {
+    const report = parseTap(`${red('not ok 1 - broken')}\nok 2 - fine\nBail out! database down\nok 3 - never reached\n`);
+
+    expect(report.cases.map(c => [c.name, c.status])).toEqual([['broken', 'failed'], ['fine', 'passed']]);
+  });
+});
+
+describe('parseJestJson', () => {
+  const report = {
+    testResults: [
+      {
+        name: '/repo/src/user.test.ts',
+        status: 'failed',
+        startTime: 1000,
+        endTime: 1250,
+        assertionResults: [
+          { ancestorTitles: ['User', 'create'], title: 'stores the name', status: 'passed', duration: 4 },
+          {
+            ancestorTitles: ['User'],
+            title: 'validates email',
+            status: 'failed',
+            duration: 7.6,
+            failureMessages: [`${red('Error: expected valid email')}\n    at Object.<anonymous> (/repo/src/user.test.ts:12:5)`],
+          },
+          { ancestorTitles: [], title: 'later', status: 'pending', duration: null },
+          { ancestorTitles: [], title: 'planned', status: 'todo' },
+        ],
+      },
+      {
+        name: '/repo/src/broken.test.ts',
+        status: 'failed',
+        message: `${red('SyntaxError: Unexpected token')}\n  at parse (broken.test.ts:1:1)`,
+        assertionResults: [],
+      },
+    ],
+  };
+
+  it('reads assertions with their describe blocks', () => {
+    const parsed = parseJestJson(JSON.stringify(report), '/repo');
+
+    expect(parsed).toMatchObject({ format: 'jest-json', passed: 1, failed: 2, skipped: 2, duration: 250 });
+    expect(parsed.cases[0]).toMatchObject({ file: 'src/user.test.ts', suite: 'User > create', name: 'stores the name', duration: 4 });
+    expect(parsed.cases[2].suite).toBeUndefined();
+  });
+
+  it('strips ANSI colours from failure messages and keeps the stack', () => {
+    const failed = parseJestJson(report, '/repo').cases[1];
+
+    expect(failed).toMatchObject({ status: 'failed', duration: 8, failureMessage: 'Error: expected valid email' });
+    expect(failed.stack).toBe('Error: expected valid email\n    at Object.<anonymous> (/repo/src/user.test.ts:12:5)');
+  });
+
+  it('reports a file that failed to run as one failed case', () => {
+    const broken = parseJestJson(report, '/repo').cases[4];
+
+    expect(broken).toMatchObject({
+      file: 'src/broken.test.ts',
+      name: '(file failed to run)',
+      status: 'failed',
+      failureMessage: 'SyntaxError: Unexpected token',
+    });
+  });
+
+  it('rejects JSON without testResults', () => {
+    expect(() => parseJestJson('{"numTotalTests": 0}')).toThrow(/Not a Jest JSON report/);
+  });
+});
+
+describe('parseGoTestJson', () => {
+  const events = [
+    { Action: 'run', Package: 'example.com/app/calc', Test: 'TestAdd' },
+    { Action: 'pass', Package: 'example.com/app/calc', Test: 'TestAdd', Elapsed: 0.01 },
+    { Action: 'run', Package: 'example.com/app/calc', Test: 'TestDiv' },
+    { Action: 'run', Package: 'example.com/app/calc', Test: 'TestDiv/by_zero' },
+    { Action: 'output', Package: 'example.com/app/calc', Test: 'TestDiv/by_zero', Output: '=== RUN   TestDiv/by_zero\n' },
+    { Action: 'output', Package: 'example.com/app/calc', Test: 'TestDiv/by_zero', Output: '    calc_test.go:21: expected error, got nil\n' },
+    { Action: 'output', Package: 'example.com/app/calc', Test: 'TestDiv/by_zero', Output: '--- FAIL: TestDiv/by_zero (0.00s)\n' },
+    { Action: 'fail', Package: 'example.com/app/calc', Test: 'TestDiv/by_zero', Elapsed: 0 },
+    { Action: 'fail', Package: 'example.com/app/calc', Test: 'TestDiv', Elapsed: 0 },
+    { Action: 'skip', Package: 'example.com/app/calc', Test: 'TestSlow', Elapsed: 0 },
+    { Action: 'fail', Package: 'example.com/app/calc', Elapsed: 0.25 },
+    { Action: 'output', Package: 'example.com/app/db', Output: '# example.com/app/db\ndb.go:3:2: undefined: sql\n' },
+    { Action: 'output', Package: 'example.com/app/db', Output: 'FAIL\texample.com/app/db [build failed]\n' },
+    { Action: 'fail', Package: 'example.com/app/db', Elapsed: 0 },
+  ].map(event => JSON.stringify({ Time: '2026-01-05T10:00:00Z', ...event })).join('\n');
+
+  it('reads leaf tests, with parent tests as suites', () => {
+    const report = parseGoTestJson(events);
+
+    expect(report).toMatchObject({ format: 'go-json', passed: 1, failed: 2, skipped: 1, duration: 250 });
+    expect(report.cases.map(c => [c.file, c.suite, c.name, c.status])).toEqual([
+      ['example.com/app/calc', undefined, 'TestAdd', 'passed'],
+      ['example.com/app/calc', 'TestDiv', 'by_zero', 'failed'],
+      ['example.com/app/calc', undefined, 'TestSlow', 'skipped'],
+      ['example.com/app/db', undefined, '(package failed)', 'failed'],
+    ]);
+  });
+
+  it('takes the failure message from the test output', () => {
+    const [, byZero, , db] = parseGoTestJson(events).cases;
+
+    expect(byZero.failureMessage).toBe('expected error, got nil');
+    expect(db.failureMessage).toBe('# example.com/app/db');
+  });
+});
+
+describe('parseCargoTestOutput', () => {
+  const output = `   Compiling calc v0.1.0 (/repo)
+     Running unittests src/lib.rs (target/debug/deps/calc-1a2b)
+
+running 3 tests
+test tests::adds ... ${'\u001b[32m'}ok${'\u001b[0m'}
+test tests::divides ... ${red('FAILED')}
+test tests::slow ... ignored
+
+failures:
+
+---- tests::divides stdout ----
+thread 'tests::divides' panicked at src/lib.rs:20:9:
+assertion \`left == right\` failed
+  left: 2
+ right: 3
+
+failures:
+    tests::divides
+
+test result: FAILED. 1 passed; 1 failed; 1 ignored; 0 measured; 0 filtered out; finished in 0.02s
+
+   Doc-tests calc
+
+running 1 test
+test src/lib.rs - add (line 5) ... ok
+
+test result: ok. 1 passed; 0 failed; 0 ignored; 0 measured; 0 filtered out; finished in 0.30s
+`;
+
+  it('reads results per test binary, including doc tests and ANSI colours', () => {
+    const report = parseCargoTestOutput(output, '/repo');
+
+    expect(report).toMatchObject({ format: 'cargo', passed: 2, failed: 1, skipped: 1, duration: 320 });
+    expect(report.cases.map(c => [c.file, c.suite, c.name, c.status])).toEqual([
+      ['src/lib.rs', 'tests', 'adds', 'passed'],
+      ['src/lib.rs', 'tests', 'divides', 'failed'],
+      ['src/lib.rs', 'tests', 'slow', 'skipped'],
+      ['src/lib.rs', undefined, 'add (line 5)', 'passed'],
+    ]);
+  });
+
+  it('takes the failure message from the panic', () => {
+    const divides = parseCargoTestOutput(output).cases[1];
+
+    expect(divides.failureMessage).toBe('assertion `left == right` failed');
+    expect(divides.stack).toContain("thread 'tests::divides' panicked at src/lib.rs:20:9:");
+  });
+});
+
+describe('detectTestReport', () => {
+  it('recognizes each format on stdout', () => {
+    expect(detectTestReport('noise\n<testsuites><testsuite name="a"><testcase name="t"/></testsuite></testsuites>')?.format).toBe('junit');
+    expect(detectTestReport('TAP version 13\nok 1 - a\n1..1\n')?.format).toBe('tap');
+    expect(detectTestReport('{"testResults": []}')?.format).toBe('jest-json');
+    expect(detectTestReport('{"Time":"t","Action":"pass","Package":"p","Test":"TestA"}')?.format).toBe('go-json');
+    expect(detectTestReport('test a ... ok\ntest result: ok. 1 passed; 0 failed')?.format).toBe('cargo');
+  });
+
+  it('returns null for plain console output', () => {
+    expect(detectTestReport('All good!\n')).toBeNull();
+  });
+});
+
+describe('parseTestSummary', () => {
+  it.each([
+    ['jest', 'Tests:       1 failed, 2 skipped, 9 passed, 12 total', { passed: 9, failed: 1, skipped: 2 }],
+    ['vitest with colours', ` Tests  ${red('1 failed')} | 9 passed (10)`, { passed: 9, failed: 1, skipped: 0 }],
+    ['mocha', '  9 passing (20ms)\n  1 pending\n  2 failing', { passed: 9, failed: 2, skipped: 1 }],
+    ['TAP comments', '# tests 10\n# pass 8\n# fail 1\n# skipped 1', { passed: 8, failed: 1, skipped: 1 }],
+    ['Maven', 'Tests run: 10, Failures: 1, Errors: 1, Skipped: 2', { passed: 6, failed: 2, skipped: 2 }],
+    ['Gradle', '10 tests completed, 1 failed, 2 skipped', { passed: 7, failed: 1, skipped: 2 }],
+    ['pytest', '=== 1 failed, 9 passed, 1 error in 2.31s ===', { passed: 9, failed: 2, skipped: 0 }],
+  ])('reads %s totals', (_runner, output, expected) => {
+    expect(parseTestSummary(output)).toEqual(expected);
+  });
+
+  it('returns null without a summary line', () => {
+    expect(parseTestSummary('compiling...\ndone')).toBeNull();
+  });
+});
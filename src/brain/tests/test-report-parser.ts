@@ -0,0 +1,861 @@
+/**
+ * Test Report Parser - Per-test results from machine-readable runner output
+ *
+ * Reads the formats test runners can emit instead of scraping console text:
+ * - JUnit XML (mocha xunit, vitest/jest junit reporters, most other ecosystems)
+ * - TAP (node --test, node-tap)
+ * - Jest JSON (`jest --json`, vitest's json reporter uses the same shape)
+ * - `go test -json` event streams
+ * - `cargo test` console output (libtest has no stable machine format)
+ *
+ * Each format is reduced to a flat list of test cases with file, name,
+ * duration, failure message and stack. When a runner only printed text,
+ * parseTestSummary() recovers the totals from its summary line.
+ */
+
+import { isAbsolute, relative } from 'node:path';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Color codes runners print around their output (ESC [ ... m)
+const ANSI_COLOR = new RegExp('\\u001b\\[[0-9;]*m', 'g');
+
+// ============================================
+// Types
+// ============================================
+
+export type TestReportFormat = 'junit' | 'tap' | 'jest-json' | 'go-json' | 'cargo';
+
+export type TestCaseStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCase {
+  file: string; // Relative to the project when the report has absolute paths
+  name: string;
+  suite?: string; // Enclosing describe blocks, joined with " > "
+  status: TestCaseStatus;
+  duration: number; // ms
+  failureMessage?: string;
+  stack?: string;
+}
+
+export interface TestReport {
+  format: TestReportFormat;
+  cases: TestCase[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // ms, summed from the cases when the report has no total
+  output?: string; // Readable output, when the report took its place on stdout
+}
+
+export interface TestSummary {
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+// ============================================
+// Entry Points
+// ============================================
+
+/**
+ * Parse a report in a known format; throws when the content isn't one
+ */
+export function parseTestReport(content: string, format: TestReportFormat, projectPath?: string): TestReport {
+  switch (format) {
+    case 'junit':
+      return parseJUnitXml(content, projectPath);
+    case 'tap':
+      return parseTap(content, projectPath);
+    case 'jest-json':
+      return parseJestJson(content, projectPath);
+    case 'go-json':
+      return parseGoTestJson(content);
+    case 'cargo':
+      return parseCargoTestOutput(content, projectPath);
+  }
+}
+
+/**
+ * Recognize a report printed to stdout, or return null
+ */
+export function detectTestReport(output: string, projectPath?: string): TestReport | null {
+  const text = stripAnsi(output).trim();
+
+  if (text.startsWith('{') && text.includes('"testResults"')) {
+    try {
+      return parseJestJson(text, projectPath);
+    } catch {
+      // Not JSON after all
+    }
+  }
+
+  if (/<testsuites?[\s>]/.test(text)) {
+    try {
+      return parseJUnitXml(text.slice(text.search(/<(\?xml|testsuites?[\s>])/)), projectPath);
+    } catch {
+      // Not XML after all
+    }
+  }
+
+  if (/^\{"Time":.*"Action":/m.test(text)) {
+    const report = parseGoTestJson(text);
+    if (report.cases.length > 0) return report;
+  }
+
+  if (/^test result: (?:ok|FAILED)\./m.test(text)) {
+    return parseCargoTestOutput(text, projectPath);
+  }
+
+  if (/^TAP version \d+/m.test(text) || /^\s*1\.\.\d+\s*$/m.test(text)) {
+    const report = parseTap(text, projectPath);
+    if (report.cases.length > 0) return report;
+  }
+
+  return null;
+}
+
+/**
+ * Totals from the summary line of a human-readable run, or null when there's none
+ *
+ * Understands jest ("Tests: 1 failed, 9 passed, 10 total"), vitest
+ * ("Tests  1 failed | 9 passed (10)"), mocha ("9 passing", "1 failing"),
+ * TAP comments ("# pass 9"), Maven ("Tests run: 10, Failures: 1, Errors: 0,
+ * Skipped: 0"), Gradle ("10 tests completed, 1 failed") and pytest or cargo
+ * style lines ("1 failed, 9 passed in 2s", "9 passed; 1 failed; 0 ignored").
+ */
+export function parseTestSummary(output: string): TestSummary | null {
+  const text = stripAnsi(output);
+  const lines = text.split('\n');
+
+  // Jest and vitest
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (/^\s*Tests:?\s/.test(lines[i])) {
+      const counts = countWords(lines[i]);
+      if (counts) return counts;
+    }
+  }
+
+  // Mocha
+  const passing = text.match(/(\d+) passing/);
+  const failing = text.match(/(\d+) failing/);
+  const pending = text.match(/(\d+) pending/);
+  if (passing || failing) {
+    return {
+      passed: toInt(passing?.[1]),
+      failed: toInt(failing?.[1]),
+      skipped: toInt(pending?.[1]),
+    };
+  }
+
+  // TAP comments
+  const tapPass = text.match(/^# pass (\d+)/m);
+  const tapFail = text.match(/^# fail (\d+)/m);
+  if (tapPass || tapFail) {
+    return {
+      passed: toInt(tapPass?.[1]),
+      failed: toInt(tapFail?.[1]),
+      skipped: toInt(text.match(/^# (?:skip|skipped|todo) (\d+)/m)?.[1]),
+    };
+  }
+
+  // Maven Surefire prints a total per class and then for the module; the last one counts
+  const surefire = Array.from(text.matchAll(/Tests run: (\d+), Failures: (\d+), Errors: (\d+), Skipped: (\d+)/g)).pop();
+  if (surefire) {
+    const [total, failures, errors, skippedCount] = surefire.slice(1).map(Number);
+    return { passed: total - failures - errors - skippedCount, failed: failures + errors, skipped: skippedCount };
+  }
+
+  // Gradle only reports a summary when something failed
+  const gradle = text.match(/(\d+) tests? completed(?:, (\d+) failed)?(?:, (\d+) skipped)?/);
+  if (gradle) {
+    const [total, failedCount, skippedCount] = [gradle[1], gradle[2], gradle[3]].map(toInt);
+    return { passed: total - failedCount - skippedCount, failed: failedCount, skipped: skippedCount };
+  }
+
+  // Anything else that reports "N failed, M passed" on one line
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (/\d+ (?:passed|failed)/.test(lines[i])) {
+      const counts = countWords(lines[i]);
+      if (counts) return counts;
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// JUnit XML
+// ============================================
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+/**
+ * Parse JUnit XML: <testsuites>/<testsuite>/<testcase> with <failure>,
+ * <error> and <skipped> children. Suites may nest.
+ */
+export function parseJUnitXml(xml: string, projectPath?: string): TestReport {
+  const root = parseXml(xml);
+  if (root.name !== 'testsuites' && root.name !== 'testsuite') {
+    throw new Error(`Not a JUnit report (root element <${root.name}>)`);
+  }
+
+  const cases: TestCase[] = [];
+
+  const visitSuite = (suite: XmlElement, suiteNames: string[], suiteFile?: string): void => {
+    const file = suite.attributes.file ?? suite.attributes.filepath ?? suiteFile;
+    const names = suite.name === 'testsuite' && suite.attributes.name
+      ? [...suiteNames, suite.attributes.name]
+      : suiteNames;
+
+    for (const child of suite.children) {
+      if (child.name === 'testsuite') {
+        visitSuite(child, names, file);
+      } else if (child.name === 'testcase') {
+        cases.push(toJUnitCase(child, names, file, projectPath));
+      }
+    }
+  };
+  visitSuite(root, []);
+
+  const totalTime = Number(root.attributes.time);
+  return summarize('junit', cases, Number.isFinite(totalTime) ? totalTime * 1000 : undefined);
+}
+
+function toJUnitCase(element: XmlElement, suiteNames: string[], suiteFile: string | undefined, projectPath?: string): TestCase {
+  const { attributes } = element;
+  const failure = element.children.find(child => child.name === 'failure' || child.name === 'error');
+  const skipped = element.children.some(child => child.name === 'skipped');
+
+  // Reporters without a file attribute often use the path as suite or class name
+  const file = toProjectPath(
+    attributes.file
+      ?? suiteFile
+      ?? [attributes.classname, ...suiteNames].find(name => name !== undefined && looksLikeFile(name))
+      ?? '',
+    projectPath
+  );
+  // The class name is the most specific suite; suite names are often just the tool ("pytest")
+  const suite = attributes.classname !== undefined
+    ? stripModule(attributes.classname, file)
+    : suiteNames.join(' > ');
+
+  const testCase: TestCase = {
+    file,
+    name: attributes.name ?? '(unnamed)',
+    suite: suite && suite !== file ? suite : undefined,
+    status: failure ? 'failed' : skipped ? 'skipped' : 'passed',
+    duration: secondsToMs(attributes.time),
+  };
+
+  if (failure) {
+    const body = failure.text.trim();
+    testCase.failureMessage = failure.attributes.message?.trim() || firstLine(body) || failure.attributes.type || 'Test failed';
+    if (body) testCase.stack = body;
+  }
+
+  return testCase;
+}
+
+/**
+ * pytest names classes "tests.test_api.TestUsers" next to file="tests/test_api.py";
+ * the module part repeats the file
+ */
+function stripModule(classname: string | undefined, file: string): string | undefined {
+  if (!classname || !file.endsWith('.py')) return classname;
+  const module = file.slice(0, -3).replace(/\//g, '.');
+  if (classname === module) return undefined;
+  return classname.startsWith(`${module}.`) ? classname.slice(module.length + 1) : classname;
+}
+
+/**
+ * Minimal XML reader: elements, attributes, text and CDATA. Comments,
+ * processing instructions and doctypes are skipped; namespaces are kept as
+ * part of the name. Also reads Cobertura coverage reports.
+ */
+export function parseXml(xml: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [document];
+  const token = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(xml)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closing, opening, attributeText, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    } else if (closing !== undefined) {
+      if (current.name !== closing) {
+        throw new Error(`Malformed XML: </${closing}> closes <${current.name}>`);
+      }
+      stack.pop();
+    } else if (opening !== undefined) {
+      const element: XmlElement = {
+        name: opening,
+        attributes: parseAttributes(attributeText),
+        children: [],
+        text: '',
+      };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`);
+  }
+  const root = document.children[0];
+  if (!root) throw new Error('Empty XML document');
+  return root;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+  });
+}
+
+// ============================================
+// TAP
+// ============================================
+
+interface TapPoint {
+  indent: number;
+  ok: boolean;
+  name: string;
+  directive?: 'skip' | 'todo';
+  diagnostics: Record<string, string>;
+  isParent: boolean;
+  descendants: TapPoint[];
+  ancestors: string[];
+}
+
+/**
+ * Parse TAP 13/14, including indented subtests and YAML diagnostics.
+ * Points that only group subtests (describe blocks, files) become the
+ * suite of their children rather than test cases of their own.
+ */
+export function parseTap(text: string, projectPath?: string): TestReport {
+  const lines = stripAnsi(text).split('\n');
+  const points: TapPoint[] = [];
+  const open: TapPoint[] = [];
+  let totalDuration: number | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const point = line.match(/^(\s*)(not )?ok\b\s*(?:\d+)?\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(\w+)\b.*)?$/);
+
+    if (!point) {
+      const duration = line.match(/^# duration_ms ([\d.]+)/);
+      if (duration) totalDuration = Number(duration[1]);
+      if (/^\s*Bail out!/.test(line)) break;
+      continue;
+    }
+
+    const indent = point[1].length;
+    const directive = point[4]?.toLowerCase();
+    const current: TapPoint = {
+      indent,
+      ok: !point[2],
+      name: unescapeTap(point[3]) || '(unnamed)',
+      directive: directive === 'skip' || directive === 'todo' ? directive : undefined,
+      diagnostics: {},
+      isParent: false,
+      descendants: [],
+      ancestors: [],
+    };
+
+    // Subtests are reported before the point that encloses them
+    while (open.length > 0 && open[open.length - 1].indent > indent) {
+      const child = open.pop()!;
+      current.isParent = true;
+      current.descendants.push(child, ...child.descendants);
+    }
+    for (const descendant of current.descendants) {
+      descendant.ancestors.unshift(current.name);
+    }
+    open.push(current);
+    points.push(current);
+
+    // YAML diagnostics follow the point, indented two more spaces
+    const next = lines[i + 1];
+    if (next !== undefined && /^\s*---\s*$/.test(next) && next.search(/\S/) > indent) {
+      const end = findYamlEnd(lines, i + 2);
+      current.diagnostics = parseYamlBlock(lines.slice(i + 2, end));
+      i = end;
+    }
+  }
+
+  const cases = points
+    .filter(point => !point.isParent && point.diagnostics.type !== 'suite')
+    .map(point => toTapCase(point, projectPath));
+
+  return summarize('tap', cases, totalDuration);
+}
+
+function toTapCase(point: TapPoint, projectPath?: string): TestCase {
+  const { diagnostics } = point;
+
+  // node --test reports "location: '/path/file.test.js:3:1'" (for failures only)
+  let file = diagnostics.location?.replace(/^file:\/\//, '').replace(/:\d+(?::\d+)?$/, '') ?? '';
+  let ancestors = point.ancestors;
+  if (!file && ancestors.length > 0 && looksLikeFile(ancestors[0])) {
+    file = ancestors[0];
+    ancestors = ancestors.slice(1);
+  }
+
+  const testCase: TestCase = {
+    file: toProjectPath(file, projectPath),
+    name: point.name,
+    suite: ancestors.join(' > ') || undefined,
+    status: point.directive ? 'skipped' : point.ok ? 'passed' : 'failed',
+    duration: Math.round(Number(diagnostics.duration_ms) || 0),
+  };
+
+  if (testCase.status === 'failed') {
+    testCase.failureMessage = diagnostics.error ?? diagnostics.message ?? 'Test failed';
+    if (diagnostics.stack) testCase.stack = diagnostics.stack;
+  }
+
+  return testCase;
+}
+
+function findYamlEnd(lines: string[], start: number): number {
+  for (let i = start; i < lines.length; i++) {
+    if (/^\s*\.\.\.\s*$/.test(lines[i])) return i;
+  }
+  return lines.length;
+}
+
+/**
+ * The flat subset of YAML TAP producers emit: scalars, quoted strings and
+ * block scalars (| and >). Nested maps are skipped.
+ */
+function parseYamlBlock(lines: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  const baseIndent = lines.find(line => line.trim())?.search(/\S/) ?? 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.search(/\S/) !== baseIndent) continue;
+
+    const entry = line.trim().match(/^([\w-]+):\s*(.*)$/);
+    if (!entry) continue;
+    const [, key, raw] = entry;
+
+    if (/^[|>][-+]?$/.test(raw)) {
+      const block: string[] = [];
+      while (i + 1 < lines.length && (lines[i + 1].trim() === '' || lines[i + 1].search(/\S/) > baseIndent)) {
+        block.push(lines[++i]);
+      }
+      const indent = Math.min(...block.filter(l => l.trim()).map(l => l.search(/\S/)));
+      const content = block.map(l => l.slice(indent));
+      values[key] = (raw.startsWith('>') ? content.join(' ') : content.join('\n')).trim();
+    } else if (raw.startsWith("'") && raw.endsWith("'") && raw.length > 1) {
+      values[key] = raw.slice(1, -1).replace(/''/g, "'");
+    } else if (raw.startsWith('"') && raw.endsWith('"') && raw.length > 1) {
+      try {
+        values[key] = JSON.parse(raw);
+      } catch {
+        values[key] = raw.slice(1, -1);
+      }
+    } else if (raw) {
+      values[key] = raw;
+    }
+  }
+
+  return values;
+}
+
+function unescapeTap(name: string): string {
+  return name.trim().replace(/\\#/g, '#').replace(/\\\\/g, '\\');
+}
+
+// ============================================
+// Jest JSON
+// ============================================
+
+interface JestAssertion {
+  ancestorTitles?: string[];
+  title?: string;
+  fullName?: string;
+  status?: string;
+  duration?: number | null;
+  failureMessages?: string[];
+}
+
+interface JestFileResult {
+  name?: string;
+  status?: string;
+  message?: string;
+  startTime?: number;
+  endTime?: number;
+  assertionResults?: JestAssertion[];
+}
+
+interface JestReport {
+  testResults?: JestFileResult[];
+  startTime?: number;
+}
+
+/**
+ * Parse `jest --json` output (also written by vitest's json reporter).
+ * A file that failed before running any test (syntax error, failing import)
+ * becomes a single failed case.
+ */
+export function parseJestJson(json: string | object, projectPath?: string): TestReport {
+  const report = (typeof json === 'string' ? JSON.parse(json) : json) as JestReport;
+  if (!Array.isArray(report.testResults)) {
+    throw new Error('Not a Jest JSON report (no testResults)');
+  }
+
+  const cases: TestCase[] = [];
+  let totalDuration = 0;
+
+  for (const fileResult of report.testResults) {
+    const file = toProjectPath(fileResult.name ?? '', projectPath);
+    const assertions = fileResult.assertionResults ?? [];
+
+    if (fileResult.startTime && fileResult.endTime) {
+      totalDuration += fileResult.endTime - fileResult.startTime;
+    }
+
+    if (assertions.length === 0 && fileResult.status === 'failed') {
+      const message = stripAnsi(fileResult.message ?? '').trim();
+      cases.push({
+        file,
+        name: '(file failed to run)',
+        status: 'failed',
+        duration: 0,
+        failureMessage: firstLine(message) || 'Test file failed to run',
+        stack: message || undefined,
+      });
+      continue;
+    }
+
+    for (const assertion of assertions) {
+      const status: TestCaseStatus = assertion.status === 'passed'
+        ? 'passed'
+        : assertion.status === 'failed' ? 'failed' : 'skipped';
+
+      const testCase: TestCase = {
+        file,
+        name: assertion.title ?? assertion.fullName ?? '(unnamed)',
+        suite: assertion.ancestorTitles?.join(' > ') || undefined,
+        status,
+        duration: Math.round(assertion.duration ?? 0),
+      };
+
+      if (status === 'failed') {
+        const details = stripAnsi((assertion.failureMessages ?? []).join('\n\n')).trim();
+        const { message, stack } = splitStack(details);
+        testCase.failureMessage = message || 'Test failed';
+        if (stack) testCase.stack = details;
+      }
+
+      cases.push(testCase);
+    }
+  }
+
+  return summarize('jest-json', cases, totalDuration || undefined);
+}
+
+// ============================================
+// Go
+// ============================================
+
+interface GoTestEvent {
+  Action?: string;
+  Package?: string;
+  Test?: string;
+  Elapsed?: number; // seconds
+  Output?: string;
+}
+
+/**
+ * Parse `go test -json` (test2json) events. Go reports packages rather than
+ * files, so each case's file is its package import path; the Go runner maps
+ * import paths to directories.
+ * Tests with subtests are suites; a package that fails without a failing
+ * test (build error, panic in init) becomes a single failed case.
+ */
+export function parseGoTestJson(output: string): TestReport {
+  const tests = new Map<string, { pkg: string; test: string; action?: string; elapsed: number; output: string[] }>();
+  const packages = new Map<string, { action?: string; elapsed: number; output: string[] }>();
+  const text: string[] = [];
+
+  for (const line of output.split('\n')) {
+    if (!line.startsWith('{')) continue;
+    let event: GoTestEvent;
+    try {
+      event = JSON.parse(line) as GoTestEvent;
+    } catch {
+      continue;
+    }
+    if (!event.Package) continue;
+    if (event.Output) text.push(event.Output.replace(/\n$/, ''));
+
+    if (!event.Test) {
+      const pkg = packages.get(event.Package) ?? { elapsed: 0, output: [] };
+      if (event.Output) pkg.output.push(event.Output);
+      if (event.Action === 'pass' || event.Action === 'fail' || event.Action === 'skip') {
+        pkg.action = event.Action;
+        pkg.elapsed = event.Elapsed ?? 0;
+      }
+      packages.set(event.Package, pkg);
+      continue;
+    }
+
+    const key = `${event.Package}\0${event.Test}`;
+    const test = tests.get(key) ?? { pkg: event.Package, test: event.Test, elapsed: 0, output: [] };
+    if (event.Output) test.output.push(event.Output);
+    if (event.Action === 'pass' || event.Action === 'fail' || event.Action === 'skip') {
+      test.action = event.Action;
+      test.elapsed = event.Elapsed ?? 0;
+    }
+    tests.set(key, test);
+  }
+
+  const names = new Set(Array.from(tests.keys()));
+  const cases: TestCase[] = [];
+  const failedPackages = new Set<string>();
+
+  for (const [key, test] of tests) {
+    const hasSubtests = Array.from(names).some(name => name.startsWith(`${key}/`));
+    if (hasSubtests || !test.action) continue;
+
+    const parts = test.test.split('/');
+    const output = test.output.join('');
+
+    const testCase: TestCase = {
+      file: test.pkg,
+      name: parts[parts.length - 1],
+      suite: parts.slice(0, -1).join(' > ') || undefined,
+      status: test.action === 'pass' ? 'passed' : test.action === 'fail' ? 'failed' : 'skipped',
+      duration: Math.round(test.elapsed * 1000),
+    };
+    if (testCase.status === 'failed') {
+      failedPackages.add(test.pkg);
+      const details = output
+        .split('\n')
+        .filter(line => !/^\s*(?:=== (?:RUN|PAUSE|CONT)|--- FAIL)/.test(line))
+        .join('\n')
+        .trim();
+      testCase.failureMessage = firstLine(details.replace(/^\s*\w+_test\.go:\d+:\s*/, '')) || 'Test failed';
+      if (details) testCase.stack = details;
+    }
+    cases.push(testCase);
+  }
+
+  for (const [pkg, result] of packages) {
+    if (result.action !== 'fail' || failedPackages.has(pkg)) continue;
+    const details = result.output.join('').trim();
+    cases.push({
+      file: pkg,
+      name: '(package failed)',
+      status: 'failed',
+      duration: Math.round(result.elapsed * 1000),
+      failureMessage: firstLine(details.split('\n').filter(line => !/^(FAIL|ok)\b/.test(line)).join('\n')) || 'Package failed',
+      stack: details || undefined,
+    });
+  }
+
+  const duration = Array.from(packages.values()).reduce((sum, pkg) => sum + pkg.elapsed * 1000, 0);
+  return { ...summarize('go-json', cases, duration || undefined), output: text.join('\n') };
+}
+
+// ============================================
+// Cargo
+// ============================================
+
+/**
+ * Parse `cargo test` output: "test path::name ... ok" lines, per-binary
+ * "Running" headers for the file (cargo prints those on stderr, so merge the
+ * streams), and the "---- name stdout ----" sections for failure details.
+ * libtest doesn't report per-test durations.
+ */
+export function parseCargoTestOutput(output: string, projectPath?: string): TestReport {
+  const lines = stripAnsi(output).split('\n');
+  const cases: TestCase[] = [];
+  const details = new Map<string, string[]>();
+  let currentFile = '';
+  let currentDetails: string[] | null = null;
+  let totalDuration = 0;
+
+  for (const line of lines) {
+    const running = line.match(/^\s*Running (?:unittests )?(\S+?)(?: \(|$)/);
+    if (running) {
+      currentFile = running[1];
+      currentDetails = null;
+      continue;
+    }
+    if (/^\s*Doc-tests /.test(line)) {
+      currentFile = '';
+      currentDetails = null;
+      continue;
+    }
+
+    const result = line.match(/^test (.+?) \.\.\. (ok|FAILED|ignored)\b/);
+    if (result) {
+      const [, fullName, status] = result;
+      // Doc tests are named "src/lib.rs - add (line 5)"
+      const docTest = fullName.match(/^(\S+) - (.+)$/);
+      const path = (docTest ? docTest[2] : fullName).split('::');
+      cases.push({
+        file: toProjectPath(docTest ? docTest[1] : currentFile, projectPath),
+        name: path[path.length - 1],
+        suite: path.slice(0, -1).join('::') || undefined,
+        status: status === 'ok' ? 'passed' : status === 'FAILED' ? 'failed' : 'skipped',
+        duration: 0,
+      });
+      continue;
+    }
+
+    const section = line.match(/^---- (.+?) stdout ----$/);
+    if (section) {
+      currentDetails = [];
+      details.set(section[1], currentDetails);
+      continue;
+    }
+    if (/^(?:failures:|test result:)/.test(line)) {
+      currentDetails = null;
+      const finished = line.match(/finished in ([\d.]+)s/);
+      if (finished) totalDuration += Number(finished[1]) * 1000;
+      continue;
+    }
+    currentDetails?.push(line);
+  }
+
+  for (const testCase of cases) {
+    if (testCase.status !== 'failed') continue;
+    const fullName = testCase.suite ? `${testCase.suite}::${testCase.name}` : testCase.name;
+    const text = (details.get(fullName) ?? []).join('\n').trim();
+    if (!text) {
+      testCase.failureMessage = 'Test failed';
+      continue;
+    }
+
+    // "thread 'x' panicked at src/lib.rs:12:9:\nmessage" (older: "panicked at 'message', src/lib.rs:12:9")
+    const panic = text.match(/panicked at (?:'([^]*?)', )?[^\s:]+\.rs:\d+:\d+:?\n?(.*)/);
+    testCase.failureMessage = (panic ? panic[1] ?? panic[2] : firstLine(text))?.trim() || 'Test failed';
+    testCase.stack = text;
+  }
+
+  return summarize('cargo', cases, totalDuration || undefined);
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Combine reports of one run, e.g. one JUnit file per test suite
+ */
+export function mergeTestReports(reports: TestReport[]): TestReport | null {
+  if (reports.length === 0) return null;
+  if (reports.length === 1) return reports[0];
+
+  const cases = reports.flatMap(report => report.cases);
+  return summarize(reports[0].format, cases, reports.reduce((sum, report) => sum + report.duration, 0));
+}
+
+function summarize(format: TestReportFormat, cases: TestCase[], duration?: number): TestReport {
+  return {
+    format,
+    cases,
+    passed: cases.filter(c => c.status === 'passed').length,
+    failed: cases.filter(c => c.status === 'failed').length,
+    skipped: cases.filter(c => c.status === 'skipped').length,
+    duration: Math.round(duration ?? cases.reduce((sum, c) => sum + c.duration, 0)),
+  };
+}
+
+/**
+ * Split "Error: message\n    at frame" into the message and the stack frames
+ */
+function splitStack(text: string): { message: string; stack: string } {
+  const lines = text.split('\n');
+  const frameIndex = lines.findIndex(line => /^\s+at\s/.test(line));
+  if (frameIndex === -1) return { message: text, stack: '' };
+  return {
+    message: lines.slice(0, frameIndex).join('\n').trim(),
+    stack: lines.slice(frameIndex).join('\n'),
+  };
+}
+
+/**
+ * Report paths are often absolute; keep them relative to the project when inside it
+ */
+export function toProjectPath(file: string, projectPath?: string): string {
+  const normalized = file.replace(/\\/g, '/');
+  if (!projectPath || !isAbsolute(normalized)) return normalized;
+
+  const relativePath = relative(projectPath, normalized).replace(/\\/g, '/');
+  return relativePath.startsWith('..') ? normalized : relativePath;
+}
+
+function looksLikeFile(name: string): boolean {
+  return /\.[cm]?[jt]sx?$/.test(name) || name.includes('/');
+}
+
+function countWords(line: string): TestSummary | null {
+  const counts: TestSummary = { passed: 0, failed: 0, skipped: 0 };
+  let found = false;
+  const pattern = /(\d+) (passed|failed|errors?|skipped|ignored|pending|todo)\b/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    const count = Number(match[1]);
+    found = true;
+    if (match[2] === 'passed') counts.passed += count;
+    else if (match[2] === 'failed' || match[2].startsWith('error')) counts.failed += count;
+    else counts.skipped += count;
+  }
+
+  return found ? counts : null;
+}
+
+function secondsToMs(value: string | undefined): number {
+  const seconds = Number(value?.replace(/,/g, ''));
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : 0;
+}
+
+function firstLine(text: string): string {
+  return text.split('\n').find(line => line.trim())?.trim() ?? '';
+}
+
+function toInt(value: string | undefined): number {
+  return value ? parseInt(value, 10) : 0;
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(ANSI_COLOR, '');
+}
@@ -0,0 +1,618 @@
+/**
+ * Test Runners - Registry of test runners, detected from project marker files
+ *
+ * Each runner recognizes its stack from marker files (package.json, pytest
+ * config, go.mod, Cargo.toml, pom.xml, build.gradle, a Makefile with a test
+ * target), builds a command with a machine-readable reporter, and can narrow
+ * a run to the tests affected by changed files. Where the stack can write a
+ * coverage report without extra setup, watched runs collect one.
+ *
+ * Projects override detection in .claude-tests.json, e.g.:
+ *   { "runner": "pytest", "args": ["-x"], "env": { "APP_ENV": "test" } }
+ *   { "command": "./ci/test.sh --junit {reportFile}", "reportFormat": "junit" }
+ */
+
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join, posix } from 'node:path';
+import type { TestReport, TestReportFormat } from './test-report-parser.js';
+import type { CoverageFormat, CoverageReport } from './coverage.js';
+
+// ============================================
+// Configuration
+// ============================================
+
+const CONFIG_FILE = '.claude-tests.json';
+const DEFAULT_TIMEOUT_MS = 120_000;
+const BUILD_TIMEOUT_MS = 600_000; // Compiled stacks build before they test
+const MAX_SELECTED_TESTS = 100; // Past this, a full run is simpler
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Per-project overrides, read from .claude-tests.json
+ */
+export interface TestConfig {
+  runner?: string; // Runner id, instead of detection
+  command?: string; // Replaces the runner's command; "{reportFile}" is substituted
+  reportFormat?: TestReportFormat; // Of {reportFile}, or of stdout without one
+  args?: string[]; // Appended to the runner's command
+  env?: Record<string, string>;
+  timeoutMs?: number;
+  reportPaths?: string[]; // Extra directories with JUnit XML
+  selectAffected?: boolean; // Watched runs only run affected tests (default true)
+  coverage?: boolean; // Watched runs collect coverage (default true)
+  coveragePaths?: string[]; // Coverage reports the command writes, e.g. "build/lcov.info"
+}
+
+export interface TestRunPlan {
+  runner: string; // Runner id, or "custom" for a configured command
+  command: string;
+  env?: Record<string, string>;
+  timeoutMs: number;
+  reportFile?: string; // Written by the runner, removed after reading
+  reportFormat?: TestReportFormat;
+  stdoutFormat?: TestReportFormat; // The runner prints its report
+  reportPaths?: string[]; // Directories the runner writes JUnit XML to
+  selectedTests?: string[]; // Set when the run was narrowed
+  coverageDir?: string; // Set when coverage is collected; removed after the run
+  coverageFile?: string; // Written by the runner
+  coverageFormat?: CoverageFormat;
+  coveragePaths?: string[]; // Reports the project's own command writes
+}
+
+export interface PlanOptions {
+  reportFile: string; // Fresh path the runner can write a report to
+  args: string[];
+  affectedFiles?: string[]; // Changed files and their dependents, to narrow the run
+  coverageDir?: string; // Fresh directory for a coverage report, when one is wanted
+}
+
+export interface TestRunner {
+  id: string;
+  name: string;
+  defaultCommand: string; // When forced by config without its marker files
+  /** Plain test command if the project uses this runner */
+  detect(projectPath: string): Promise<string | null>;
+  /** The command with a machine-readable reporter, narrowed when it can be */
+  plan(projectPath: string, command: string, options: PlanOptions): Promise<TestRunPlan>;
+  /** Fix up a parsed report, e.g. map class names or packages to files */
+  finish?(report: TestReport, projectPath: string): Promise<TestReport>;
+  /** Fix up a parsed coverage report, e.g. map packages to directories */
+  finishCoverage?(coverage: CoverageReport, projectPath: string): Promise<CoverageReport>;
+}
+
+interface PackageJson {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+// ============================================
+// Node
+// ============================================
+
+const nodeRunner: TestRunner = {
+  id: 'node',
+  name: 'Node.js',
+  defaultCommand: 'npm test',
+
+  async detect(projectPath) {
+    const packageJson = await readJson<PackageJson>(join(projectPath, 'package.json'));
+    if (!packageJson) return null;
+
+    // Check for test scripts
+    if (packageJson.scripts?.test) return 'npm test';
+
+    // Check for test runners in dependencies
+    const deps = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    if (deps.vitest) return 'npx vitest run';
+    if (deps.jest) return 'npx jest';
+    if (deps.mocha) return 'npx mocha';
+    if (deps['test-runner'] || deps.tap) return 'npx tap';
+    return null;
+  },
+
+  async plan(projectPath, command, { reportFile, args, affectedFiles, coverageDir }) {
+    const packageJson = await readJson<PackageJson>(join(projectPath, 'package.json'));
+    // "npm test" passes extra arguments on to the runner in the script
+    const isScript = command === 'npm test';
+    const script = isScript ? packageJson?.scripts?.test ?? '' : command;
+    const base = isScript ? 'npm test --' : command;
+    const tests = selectTests(affectedFiles, file => /\.(?:test|spec)\.[cm]?[jt]sx?$/.test(file) || file.includes('__tests__/'));
+    const extra = joinArgs([...args, ...(tests ?? [])]);
+    const plan = { runner: 'node', timeoutMs: DEFAULT_TIMEOUT_MS, selectedTests: tests };
+    const deps = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+    const coverage = coverageDir
+      ? { coverageFile: join(coverageDir, 'coverage-final.json'), coverageFormat: 'istanbul' as const }
+      : {};
+
+    switch (detectJsRunner(script)) {
+      case 'vitest': {
+        // Vitest needs a coverage provider package installed
+        const withCoverage = coverageDir && (deps['@vitest/coverage-v8'] || deps['@vitest/coverage-istanbul'])
+          ? ` --coverage.enabled=true --coverage.reporter=json --coverage.reportsDirectory=${quote(coverageDir)}`
+          : '';
+        return {
+          ...plan,
+          ...(withCoverage ? coverage : {}),
+          command: `${base} --reporter=default --reporter=json --outputFile.json=${quote(reportFile)}${withCoverage}${extra}`,
+          reportFile,
+          reportFormat: 'jest-json',
+        };
+      }
+      case 'jest': {
+        const withCoverage = coverageDir
+          ? ` --coverage --coverageReporters=json --coverageDirectory=${quote(coverageDir)}`
+          : '';
+        return {
+          ...plan,
+          ...coverage,
+          command: `${base} --json --outputFile=${quote(reportFile)}${withCoverage}${extra}`,
+          reportFile,
+          reportFormat: 'jest-json',
+        };
+      }
+      case 'mocha':
+        return { ...plan, command: `${base} --reporter=xunit --reporter-option=output=${quote(reportFile)}${extra}`, reportFile, reportFormat: 'junit' };
+      case 'node-test': {
+        // Reporters go through NODE_OPTIONS. Arguments after the script's file patterns
+        // would be taken as more patterns, so extra flags are put right after --test
+        // and runs aren't narrowed.
+        const reporters = `--test-reporter=spec --test-reporter-destination=stdout --test-reporter=tap --test-reporter-destination=${quote(reportFile)}`;
+        const nodeOptions = [process.env.NODE_OPTIONS, reporters].filter(Boolean).join(' ');
+        return {
+          runner: 'node',
+          timeoutMs: DEFAULT_TIMEOUT_MS,
+          command: args.length > 0 ? script.replace(/\s--test\b/, ` --test${joinArgs(args)}`) : command,
+          env: { NODE_OPTIONS: nodeOptions },
+          reportFile,
+          reportFormat: 'tap',
+        };
+      }
+      case 'tap':
+        return { ...plan, command: `${base} --reporter=tap${extra}`, stdoutFormat: 'tap' };
+      default:
+        return { runner: 'node', timeoutMs: DEFAULT_TIMEOUT_MS, command: args.length > 0 ? `${base}${joinArgs(args)}` : command };
+    }
+  },
+};
+
+function detectJsRunner(command: string): 'vitest' | 'jest' | 'mocha' | 'node-test' | 'tap' | null {
+  if (/\bvitest\b/.test(command)) return 'vitest';
+  if (/\bjest\b/.test(command)) return 'jest';
+  if (/\bmocha\b/.test(command)) return 'mocha';
+  if (/\bnode\b[^&|;]*\s--test\b/.test(command)) return 'node-test';
+  if (/\btap\b/.test(command)) return 'tap';
+  return null;
+}
+
+// ============================================
+// Python
+// ============================================
+
+const pytestRunner: TestRunner = {
+  id: 'pytest',
+  name: 'pytest',
+  defaultCommand: 'python3 -m pytest',
+
+  async detect(projectPath) {
+    const markers = [
+      hasFile(projectPath, 'pytest.ini'),
+      hasFile(projectPath, 'conftest.py'),
+      ...await Promise.all([
+        fileContains(projectPath, 'pyproject.toml', /\bpytest\b/),
+        fileContains(projectPath, 'setup.cfg', /\[tool:pytest\]/),
+        fileContains(projectPath, 'tox.ini', /\bpytest\b/),
+        fileContains(projectPath, 'requirements-dev.txt', /^pytest\b/m),
+        fileContains(projectPath, 'requirements.txt', /^pytest\b/m),
+      ]),
+    ];
+    if (!markers.some(Boolean)) return null;
+
+    // Run inside the project's environment
+    if (await fileContains(projectPath, 'pyproject.toml', /^\[tool\.poetry\]/m) && hasFile(projectPath, 'poetry.lock')) {
+      return 'poetry run pytest';
+    }
+    if (hasFile(projectPath, 'uv.lock')) return 'uv run pytest';
+    for (const venv of ['.venv', 'venv']) {
+      if (hasFile(projectPath, `${venv}/bin/python`)) return `${venv}/bin/python -m pytest`;
+    }
+    return 'python3 -m pytest';
+  },
+
+  async plan(projectPath, command, { reportFile, args, affectedFiles, coverageDir }) {
+    const tests = selectTests(affectedFiles, file => /(?:^|\/)test_[^/]*\.py$|_test\.py$/.test(file));
+    const coverageFile = coverageDir && await hasPytestCov(projectPath) ? join(coverageDir, 'coverage.xml') : undefined;
+    const withCoverage = coverageFile ? ` --cov=. --cov-report=xml:${quote(coverageFile)}` : '';
+
+    // xunit1 reports carry the file of each test
+    return {
+      runner: 'pytest',
+      command: `${command} --junitxml=${quote(reportFile)} -o junit_family=xunit1${withCoverage}${joinArgs([...args, ...(tests ?? [])])}`,
+      timeoutMs: DEFAULT_TIMEOUT_MS,
+      reportFile,
+      reportFormat: 'junit',
+      selectedTests: tests,
+      coverageFile,
+      coverageFormat: coverageFile ? 'cobertura' : undefined,
+    };
+  },
+};
+
+/**
+ * pytest-cov is a plugin; only ask for coverage when the project lists it
+ */
+async function hasPytestCov(projectPath: string): Promise<boolean> {
+  const files = ['pyproject.toml', 'requirements-dev.txt', 'requirements.txt', 'setup.cfg', 'tox.ini', 'poetry.lock', 'uv.lock'];
+  const found = await Promise.all(files.map(name => fileContains(projectPath, name, /\bpytest[-_]cov\b/)));
+  return found.some(Boolean);
+}
+
+// ============================================
+// Go
+// ============================================
+
+const goRunner: TestRunner = {
+  id: 'go',
+  name: 'Go',
+  defaultCommand: 'go test ./...',
+
+  async detect(projectPath) {
+    return hasFile(projectPath, 'go.mod') ? 'go test ./...' : null;
+  },
+
+  async plan(_projectPath, _command, { args, affectedFiles, coverageDir }) {
+    // Go tests run per package; narrow to the directories of affected Go files
+    const goFiles = selectTests(affectedFiles, file => file.endsWith('.go'));
+    const packages = goFiles && Array.from(new Set(goFiles.map(file => {
+      const dir = posix.dirname(file);
+      return dir === '.' ? '.' : `./${dir}`;
+    })));
+
+    const coverageFile = coverageDir ? join(coverageDir, 'cover.out') : undefined;
+
+    return {
+      runner: 'go',
+      command: `go test -json${coverageFile ? ` -coverprofile=${quote(coverageFile)}` : ''}${joinArgs(args)}${joinArgs(packages ?? ['./...'])}`,
+      timeoutMs: BUILD_TIMEOUT_MS,
+      stdoutFormat: 'go-json',
+      selectedTests: packages,
+      coverageFile,
+      coverageFormat: coverageFile ? 'go-cover' : undefined,
+    };
+  },
+
+  // Cases and cover profiles name files by import path; make them relative to the module root
+  async finish(report, projectPath) {
+    const modulePath = await goModulePath(projectPath);
+    if (!modulePath) return report;
+
+    for (const testCase of report.cases) {
+      testCase.file = stripModulePath(testCase.file, modulePath);
+    }
+    return report;
+  },
+
+  async finishCoverage(coverage, projectPath) {
+    const modulePath = await goModulePath(projectPath);
+    if (!modulePath) return coverage;
+
+    for (const file of coverage.files) {
+      file.file = stripModulePath(file.file, modulePath);
+    }
+    return coverage;
+  },
+};
+
+async function goModulePath(projectPath: string): Promise<string | undefined> {
+  const goMod = await readText(join(projectPath, 'go.mod'));
+  return goMod?.match(/^module\s+(\S+)/m)?.[1];
+}
+
+function stripModulePath(file: string, modulePath: string): string {
+  if (file === modulePath) return '.';
+  return file.startsWith(`${modulePath}/`) ? file.slice(modulePath.length + 1) : file;
+}
+
+// ============================================
+// Rust
+// ============================================
+
+const cargoRunner: TestRunner = {
+  id: 'cargo',
+  name: 'Cargo',
+  defaultCommand: 'cargo test',
+
+  async detect(projectPath) {
+    return hasFile(projectPath, 'Cargo.toml') ? 'cargo test' : null;
+  },
+
+  // libtest filters by test name, not file, so runs aren't narrowed.
+  // The "Running <file>" headers go to stderr; merge them in order.
+  async plan(_projectPath, _command, { args }) {
+    return {
+      runner: 'cargo',
+      command: `cargo test --no-fail-fast${joinArgs(args)} 2>&1`,
+      env: { CARGO_TERM_COLOR: 'never' },
+      timeoutMs: BUILD_TIMEOUT_MS,
+      stdoutFormat: 'cargo',
+    };
+  },
+};
+
+// ============================================
+// JVM
+// ============================================
+
+const mavenRunner: TestRunner = {
+  id: 'maven',
+  name: 'Maven',
+  defaultCommand: 'mvn -B test',
+
+  async detect(projectPath) {
+    if (!hasFile(projectPath, 'pom.xml')) return null;
+    return hasFile(projectPath, 'mvnw') ? './mvnw -B test' : 'mvn -B test';
+  },
+
+  async plan(_projectPath, command, { args, affectedFiles }) {
+    const classes = selectTests(affectedFiles, file => jvmTestClass(file) !== null)?.map(file => jvmTestClass(file)!);
+    const selection = classes
+      ? [`-Dtest=${classes.map(name => name.split('.').pop()).join(',')}`, '-Dsurefire.failIfNoSpecifiedTests=false']
+      : [];
+
+    return {
+      runner: 'maven',
+      command: `${command}${joinArgs([...selection, ...args])}`,
+      timeoutMs: BUILD_TIMEOUT_MS,
+      reportPaths: ['target/surefire-reports'],
+      selectedTests: classes,
+    };
+  },
+
+  finish: resolveJvmFiles,
+};
+
+const gradleRunner: TestRunner = {
+  id: 'gradle',
+  name: 'Gradle',
+  defaultCommand: 'gradle test',
+
+  async detect(projectPath) {
+    if (!hasFile(projectPath, 'build.gradle') && !hasFile(projectPath, 'build.gradle.kts')) return null;
+    return hasFile(projectPath, 'gradlew') ? './gradlew test' : 'gradle test';
+  },
+
+  async plan(_projectPath, command, { args, affectedFiles }) {
+    const classes = selectTests(affectedFiles, file => jvmTestClass(file) !== null)?.map(file => jvmTestClass(file)!);
+    const selection = classes?.flatMap(name => ['--tests', name]) ?? [];
+
+    return {
+      runner: 'gradle',
+      command: `${command} --console=plain${joinArgs([...selection, ...args])}`,
+      timeoutMs: BUILD_TIMEOUT_MS,
+      reportPaths: ['build/test-results/test'],
+      selectedTests: classes,
+    };
+  },
+
+  finish: resolveJvmFiles,
+};
+
+const JVM_TEST_SOURCE = /^(?:.*\/)?src\/test\/(?:java|kotlin|groovy|scala)\/(.+)\.(?:java|kt|groovy|scala)$/;
+
+/**
+ * Fully qualified class name of a JVM test source file, or null
+ */
+function jvmTestClass(file: string): string | null {
+  const match = file.match(JVM_TEST_SOURCE);
+  return match ? match[1].replace(/\//g, '.') : null;
+}
+
+/**
+ * Surefire and Gradle reports name classes, not files; find each class's source
+ */
+async function resolveJvmFiles(report: TestReport, projectPath: string): Promise<TestReport> {
+  const sources = new Map<string, string>();
+
+  for (const testCase of report.cases) {
+    if (testCase.file) continue;
+    const className = testCase.suite?.split(' > ').pop()?.split('$')[0];
+    if (!className) continue;
+
+    if (!sources.has(className)) {
+      const base = className.replace(/\./g, '/');
+      const candidates = ['java', 'kotlin', 'groovy', 'scala'].map(lang =>
+        `src/test/${lang}/${base}.${lang === 'kotlin' ? 'kt' : lang}`
+      );
+      const found = candidates.find(candidate => existsSync(join(projectPath, candidate)));
+      sources.set(className, found ?? '');
+    }
+    testCase.file = sources.get(className)!;
+  }
+  return report;
+}
+
+// ============================================
+// Make
+// ============================================
+
+const makeRunner: TestRunner = {
+  id: 'make',
+  name: 'Make',
+  defaultCommand: 'make test',
+
+  async detect(projectPath) {
+    for (const name of ['Makefile', 'makefile', 'GNUmakefile']) {
+      if (await fileContains(projectPath, name, /^test\s*:/m)) return 'make test';
+    }
+    return null;
+  },
+
+  // Whatever the target runs is read from its output
+  async plan(_projectPath, command, { args }) {
+    return { runner: 'make', command: `${command}${joinArgs(args)}`, timeoutMs: BUILD_TIMEOUT_MS };
+  },
+};
+
+// ============================================
+// Registry
+// ============================================
+
+// Specific stacks before Make, which usually wraps one of them
+const runners: TestRunner[] = [nodeRunner, pytestRunner, goRunner, cargoRunner, mavenRunner, gradleRunner, makeRunner];
+
+/**
+ * Add a runner, or replace the one with the same id; added runners are detected first
+ */
+export function registerTestRunner(runner: TestRunner): void {
+  const index = runners.findIndex(existing => existing.id === runner.id);
+  if (index !== -1) runners.splice(index, 1);
+  runners.unshift(runner);
+}
+
+export function getTestRunners(): TestRunner[] {
+  return [...runners];
+}
+
+export function getTestRunner(id: string): TestRunner | undefined {
+  return runners.find(runner => runner.id === id);
+}
+
+/**
+ * Read .claude-tests.json; an unreadable file counts as no overrides
+ */
+export async function loadTestConfig(projectPath: string): Promise<TestConfig> {
+  const configPath = join(projectPath, CONFIG_FILE);
+  if (!existsSync(configPath)) return {};
+
+  const config = await readJson<TestConfig>(configPath);
+  if (!config || typeof config !== 'object') {
+    console.warn(`[TestRunners] Ignoring invalid ${CONFIG_FILE} in ${projectPath}`);
+    return {};
+  }
+  return config;
+}
+
+/**
+ * The project's runner and plain test command, or null when none applies
+ */
+export async function detectTestRunner(
+  projectPath: string,
+  config?: TestConfig
+): Promise<{ runner: TestRunner; command: string } | null> {
+  const overrides = config ?? await loadTestConfig(projectPath);
+
+  if (overrides.runner) {
+    const runner = getTestRunner(overrides.runner);
+    if (!runner) {
+      throw new Error(`Unknown test runner "${overrides.runner}" in ${CONFIG_FILE} (use ${runners.map(r => r.id).join(', ')})`);
+    }
+    return { runner, command: await runner.detect(projectPath) ?? runner.defaultCommand };
+  }
+
+  for (const runner of runners) {
+    const command = await runner.detect(projectPath);
+    if (command) return { runner, command };
+  }
+  return null;
+}
+
+/**
+ * Plan a test run: the configured command, or the detected runner's command
+ * with a reporter, narrowed to the affected tests when given changed files
+ */
+export async function planTestRun(
+  projectPath: string,
+  options: { reportFile: string; affectedFiles?: string[]; coverageDir?: string; config?: TestConfig }
+): Promise<TestRunPlan | null> {
+  const config = options.config ?? await loadTestConfig(projectPath);
+  const args = config.args ?? [];
+  const coverageDir = config.coverage === false ? undefined : options.coverageDir;
+
+  if (config.command) {
+    const writesReport = config.command.includes('{reportFile}');
+    return {
+      runner: 'custom',
+      command: `${config.command.replaceAll('{reportFile}', quote(options.reportFile))}${joinArgs(args)}`,
+      env: config.env,
+      timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      reportFile: writesReport ? options.reportFile : undefined,
+      reportFormat: writesReport ? config.reportFormat ?? 'junit' : undefined,
+      stdoutFormat: writesReport ? undefined : config.reportFormat,
+      reportPaths: config.reportPaths,
+      coverageDir,
+      coveragePaths: config.coveragePaths,
+    };
+  }
+
+  const detected = await detectTestRunner(projectPath, config);
+  if (!detected) return null;
+
+  const plan = await detected.runner.plan(projectPath, detected.command, {
+    reportFile: options.reportFile,
+    args,
+    affectedFiles: config.selectAffected === false ? undefined : options.affectedFiles,
+    coverageDir,
+  });
+
+  return {
+    ...plan,
+    env: { ...plan.env, ...config.env },
+    timeoutMs: config.timeoutMs ?? plan.timeoutMs,
+    reportPaths: [...(plan.reportPaths ?? []), ...(config.reportPaths ?? [])],
+    coverageDir,
+    coveragePaths: config.coveragePaths,
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Affected files a runner can run directly, or undefined for a full run:
+ * nothing to narrow to, nothing it recognizes, or too many to list
+ */
+function selectTests(affectedFiles: string[] | undefined, isTest: (file: string) => boolean): string[] | undefined {
+  if (!affectedFiles) return undefined;
+  const tests = Array.from(new Set(affectedFiles.filter(isTest))).sort();
+  return tests.length > 0 && tests.length <= MAX_SELECTED_TESTS ? tests : undefined;
+}
+
+function quote(arg: string): string {
+  return /^[\w./=:@,+-]+$/.test(arg) ? arg : `"${arg.replace(/(["\\$`])/g, '\\$1')}"`;
+}
+
+function joinArgs(args: string[]): string {
+  return args.map(arg => ` ${quote(arg)}`).join('');
+}
+
+function hasFile(projectPath: string, name: string): boolean {
+  return existsSync(join(projectPath, name));
+}
+
+async function fileContains(projectPath: string, name: string, pattern: RegExp): Promise<boolean> {
+  const content = await readText(join(projectPath, name));
+  return content !== null && pattern.test(content);
+}
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+async function readJson<T>(path: string): Promise<T | null> {
+  const content = await readText(path);
+  if (content === null) return null;
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    return null;
+  }
+}
@@ -2,18 +2,81 @@
  * Test Watcher - Watches project files and runs tests on changes
  *
  * Provides continuous testing by watching files and running tests
- * when changes are detected. Supports npm test, jest, vitest, and other runners.
+ * when changes are detected. The runner comes from the test runner registry
+ * (Node, pytest, Go, Cargo, Maven, Gradle, Make), and watched runs are
+ * narrowed to the tests the reference graph says a change can affect.
+ * Changes come from the shared ChangeDetector, so edits trigger a run within
+ * seconds instead of on the next poll. Each watched run is published on the
+ * event bus as test.failed or test.passed.
+ *
+ * Runners are invoked with a machine-readable reporter so results are per
+ * test case. Other commands are read from a report on stdout, JUnit XML
+ * files written during the run, or as a last resort the summary line.
+ *
+ * Every test's outcome goes to the FlakinessTracker, and failures of
+ * quarantined tests are kept out of watched results.
+ *
+ * Watched runs also collect coverage. Each snapshot is kept with the commit
+ * it ran on, the coverage of lines changed since that commit, and where
+ * coverage fell since the last full run (published as coverage.dropped).
  */
 
-import { readFile, writeFile } from 'node:fs/promises';
+import { mkdir, readFile, readdir, rm, stat, unlink, writeFile } from 'node:fs/promises';
 import { existsSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
 import { getBrain } from '../brain-manager.js';
+import { getChangeDetector, type FileChangeEvent } from '../context/change-detector.js';
+import { getContextIndexer } from '../context/context-indexer.js';
+import { getEventBus, type TestFailureDetail } from '../events/event-bus.js';
+import { getFlakinessTracker } from './flakiness-tracker.js';
+import {
+  detectTestReport,
+  mergeTestReports,
+  parseJUnitXml,
+  parseTestReport,
+  parseTestSummary,
+  type TestCase,
+  type TestReport,
+  type TestReportFormat,
+} from './test-report-parser.js';
+import { detectTestRunner, getTestRunner, planTestRun, type TestRunPlan } from './test-runners.js';
+import {
+  compareCoverage,
+  computeChangedLineCoverage,
+  detectCoverageFormat,
+  getChangedLines,
+  parseCoverageReport,
+  type ChangedLineCoverage,
+  type CoverageDrop,
+  type CoverageFormat,
+  type CoverageReport,
+  type FileCoverage,
+} from './coverage.js';
 
 const execAsync = promisify(exec);
 
+const CUSTOM_COMMAND_TIMEOUT_MS = 120_000;
+const MAX_OUTPUT_LENGTH = 5000;
+const MAX_STORED_CASES = 2000; // Per saved result
+const JUNIT_REPORT_DIRS = ['.', 'test-results', 'test-reports', 'reports', 'junit'];
+// Where tools write coverage by default, most detailed format first
+const COVERAGE_REPORT_FILES = [
+  'coverage/coverage-final.json',
+  'coverage/lcov.info',
+  'lcov.info',
+  'coverage/cobertura-coverage.xml',
+  'coverage.xml',
+  'cobertura.xml',
+  'target/site/cobertura/coverage.xml',
+  'build/reports/cobertura/coverage.xml',
+  'coverage.out',
+];
+const MAX_COVERAGE_HISTORY = 100; // Snapshots kept per project
+
 // Test result interfaces
 export interface TestResult {
   projectPath: string;
@@ -24,16 +87,28 @@ export interface TestResult {
   duration: number;
   timestamp: number;
   output: string;
-  failures?: Array<{ file: string; test: string; error: string }>;
+  failures?: TestFailureDetail[];
+  cases?: TestCase[];
+  format?: TestReportFormat | 'summary'; // Where the counts came from
+  runner?: string;
+  selectedTests?: string[]; // Only these ran; absent for the whole suite
+  quarantined?: TestFailureDetail[]; // Failures of quarantined tests, not counted in failed
+  coverage?: Omit<CoverageData, 'projectPath' | 'timestamp' | 'files'>;
 }
 
 export interface CoverageData {
   projectPath: string;
   timestamp: number;
-  lines: number;
+  lines: number; // Percent
   functions: number;
   branches: number;
   statements: number;
+  format?: CoverageFormat;
+  commit?: string; // HEAD when the run started
+  partial?: boolean; // From a narrowed run, so only changed files are comparable
+  files?: FileCoverage[];
+  changedLines?: ChangedLineCoverage; // Lines changed since the commit
+  drops?: CoverageDrop[]; // Since the last full run
 }
 
 export interface WatchSession {
@@ -45,12 +120,13 @@ export interface WatchSession {
   lastRunAt?: number;
   lastResult?: TestResult;
   chatId: number; // Telegram chat to notify
+  testCommand?: string; // As detected when the watch started
 }
 
 // Watcher state
 const activeWatchers = new Map<string, {
   session: WatchSession;
-  timer: NodeJS.Timeout;
+  stop: () => void;
 }>();
 
 /**
@@ -104,40 +180,68 @@ export class TestWatcher {
       status: 'running',
       startedAt: Date.now(),
       chatId,
+      testCommand,
     };
 
-    // Store active watcher with polling interval
-    // Note: Using polling instead of chokidar for fewer dependencies
-    const pollInterval = 30000; // Check every 30 seconds
-    let lastHash = await this.getDirectoryHash(projectPath);
+    // Run on change events; changes during a run queue one more run
+    let running = false;
+    let rerun = false;
+    const pendingChanges = new Set<string>();
+    const normalizedPath = projectPath.replace(/\\/g, '/');
 
-    const timer = setInterval(async () => {
+    const run = async (): Promise<void> => {
+      if (running) {
+        rerun = true;
+        return;
+      }
+      running = true;
       try {
-        const currentHash = await this.getDirectoryHash(projectPath);
-
-        if (currentHash !== lastHash) {
-          lastHash = currentHash;
+        do {
+          rerun = false;
           session.lastRunAt = Date.now();
 
-          // Run tests
-          const result = await this.runTests(projectPath, testCommand);
+          const changed = Array.from(pendingChanges);
+          pendingChanges.clear();
+          const affectedFiles = await this.findAffectedFiles(normalizedPath, changed);
+
+          // Run tests, re-detecting the runner in case the project changed
+          const run = await this.runTests(projectPath, { affectedFiles, coverage: true });
+
+          // History sees every outcome; the rest only failures that aren't quarantined
+          const flakiness = getFlakinessTracker();
+          await flakiness.recordRun(run, chatId);
+          const result = await flakiness.applyQuarantine(run);
           session.lastResult = result;
 
           // Save result
           await this.saveTestResult(result);
 
-          // Notify if tests failed
-          if (result.failed > 0) {
-            await this.sendFailureNotification(session, result);
-          }
-        }
+          await this.publishResult(session, result);
+        } while (rerun);
       } catch (error) {
         console.error(`Watcher error for ${watcherId}:`, error);
         session.status = 'error';
+      } finally {
+        running = false;
+      }
+    };
+
+    const detector = getChangeDetector();
+    const unsubscribe = detector.onChange((event: FileChangeEvent) => {
+      if (event.projectPath === normalizedPath) {
+        for (const file of [...event.changed, ...event.removed]) pendingChanges.add(file);
+        // Don't hold up other subscribers while the tests run
+        run();
       }
-    }, pollInterval);
+    });
+    detector.watch(normalizedPath);
 
-    activeWatchers.set(watcherId, { session, timer });
+    const stop = () => {
+      unsubscribe();
+      detector.unwatch(normalizedPath);
+    };
+
+    activeWatchers.set(watcherId, { session, stop });
     await this.saveWatchers();
 
     return watcherId;
@@ -154,7 +258,7 @@ export class TestWatcher {
       return false;
     }
 
-    clearInterval(watcher.timer);
+    watcher.stop();
     activeWatchers.delete(watcherId);
     await this.saveWatchers();
 
@@ -179,191 +283,370 @@ export class TestWatcher {
 
   /**
    * Run tests for a project
+   *
+   * With affected files the run is narrowed to their tests where the runner
+   * supports it. A custom command runs as given; its results are read from
+   * stdout or JUnit files. Runners exit non-zero when tests fail, so the
+   * report is read either way. With coverage, the run's coverage is saved
+   * and summarized on the result.
    */
-  async runTests(projectPath: string, command?: string): Promise<TestResult> {
-    const testCommand = command || await this.detectTestCommand(projectPath);
-
-    if (!testCommand) {
+  async runTests(
+    projectPath: string,
+    options: { command?: string; affectedFiles?: string[]; coverage?: boolean } = {}
+  ): Promise<TestResult> {
+    const reportFile = join(tmpdir(), `test-report-${randomUUID()}`);
+    const coverageDir = options.coverage ? join(tmpdir(), `test-coverage-${randomUUID()}`) : undefined;
+    const plan: TestRunPlan | null = options.command
+      ? { runner: 'custom', command: options.command, timeoutMs: CUSTOM_COMMAND_TIMEOUT_MS, coverageDir }
+      : await planTestRun(projectPath, { reportFile, affectedFiles: options.affectedFiles, coverageDir });
+
+    if (!plan) {
       throw new Error('No test command found');
     }
+    if (plan.coverageDir) {
+      // Not every tool creates the directory it's given
+      await mkdir(plan.coverageDir, { recursive: true });
+    }
 
     const startTime = Date.now();
+    let stdout = '';
+    let stderr = '';
+    let error: string | undefined;
 
     try {
-      const { stdout, stderr } = await execAsync(testCommand, {
+      ({ stdout, stderr } = await execAsync(plan.command, {
         cwd: projectPath,
-        timeout: 120000, // 2 minute timeout
-      });
+        timeout: plan.timeoutMs,
+        maxBuffer: 16 * 1024 * 1024,
+        env: { ...process.env, CI: 'true', ...plan.env },
+      }));
+    } catch (err) {
+      const execError = err as { stdout?: string; stderr?: string; message?: string };
+      stdout = execError.stdout ?? '';
+      stderr = execError.stderr ?? '';
+      error = execError.message ?? 'Unknown error';
+    }
 
-      const output = stdout || stderr || '';
-      const duration = Date.now() - startTime;
+    const duration = Date.now() - startTime;
+    let report = await this.readReport(projectPath, plan, stdout, startTime);
+    const runner = getTestRunner(plan.runner);
+    if (report && runner?.finish) {
+      report = await runner.finish(report, projectPath);
+    }
 
-      const parsed = this.parseTestOutput(output);
+    const output = [report?.output ?? stdout, stderr].filter(text => text.trim()).join('\n') || error || '';
+    const base: Omit<TestResult, 'passed' | 'failed' | 'skipped'> = {
+      projectPath,
+      testName: 'Test Run',
+      duration,
+      timestamp: Date.now(),
+      output: output.substring(0, MAX_OUTPUT_LENGTH),
+      runner: plan.runner,
+      selectedTests: plan.selectedTests,
+    };
 
-      return {
-        projectPath,
-        testName: 'Test Run',
-        passed: parsed.passed,
-        failed: parsed.failed,
-        skipped: parsed.skipped,
-        duration,
-        timestamp: Date.now(),
-        output: output.substring(0, 5000), // Limit output size
-        failures: parsed.failures,
-      };
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      const err = error as { stdout?: string; stderr?: string; message?: string };
+    if (plan.coverageDir) {
+      const coverage = await this.readCoverage(projectPath, plan, startTime);
+      await rm(plan.coverageDir, { recursive: true, force: true });
+      if (coverage) {
+        base.coverage = await this.saveCoverage(projectPath, coverage, !!plan.selectedTests, startTime);
+      }
+    }
 
+    // A command that failed without reporting any test didn't get to run them
+    if (report && (report.cases.length > 0 || !error)) {
       return {
-        projectPath,
-        testName: 'Test Run',
-        passed: 0,
-        failed: 1,
-        skipped: 0,
-        duration,
-        timestamp: Date.now(),
-        output: err.stderr || err.stdout || err.message || 'Unknown error',
+        ...base,
+        passed: report.passed,
+        failed: report.failed,
+        skipped: report.skipped,
+        failures: report.cases.filter(c => c.status === 'failed').map(toFailureDetail),
+        cases: report.cases.slice(0, MAX_STORED_CASES),
+        format: report.format,
       };
     }
+
+    const summary = parseTestSummary(output);
+    if (summary) {
+      return { ...base, ...summary, failures: [], format: 'summary' };
+    }
+
+    return {
+      ...base,
+      passed: 0,
+      failed: error ? 1 : 0,
+      skipped: 0,
+    };
   }
 
   /**
    * Detect the test command for a project
    */
   async detectTestCommand(projectPath: string): Promise<string | null> {
-    const packageJsonPath = join(projectPath, 'package.json');
+    return (await detectTestRunner(projectPath))?.command ?? null;
+  }
 
-    if (!existsSync(packageJsonPath)) {
-      return null;
+  /**
+   * Changed files plus everything that imports them, or undefined for a full
+   * run: nothing changed, no reference graph yet, or a change the graph doesn't
+   * know (a new file, a config file or fixture anything might read)
+   */
+  private async findAffectedFiles(projectPath: string, changed: string[]): Promise<string[] | undefined> {
+    if (changed.length === 0) {
+      return undefined;
     }
 
-    try {
-      const content = await readFile(packageJsonPath, 'utf-8');
-      const packageJson = JSON.parse(content);
-
-      // Check for test scripts
-      if (packageJson.scripts?.test) {
-        return 'npm test';
-      }
-
-      // Check for test runners in dependencies
-      const deps = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    const graph = await getContextIndexer().getGraph(projectPath);
+    if (!graph) {
+      return undefined;
+    }
 
-      if (deps.vitest) {
-        return 'npx vitest run';
+    const affected = new Set<string>();
+    for (const file of changed) {
+      if (!graph.hasFile(file)) {
+        return undefined;
       }
-
-      if (deps.jest) {
-        return 'npx jest';
+      affected.add(file);
+      for (const impacted of graph.impactOf(file)) {
+        affected.add(impacted.file);
       }
+    }
+    return Array.from(affected);
+  }
 
-      if (deps.mocha) {
-        return 'npx mocha';
+  /**
+   * The run's report: the file the runner wrote, a report printed to stdout,
+   * or JUnit XML files written during the run
+   */
+  private async readReport(
+    projectPath: string,
+    plan: TestRunPlan,
+    stdout: string,
+    startedAt: number
+  ): Promise<TestReport | null> {
+    if (plan.reportFile && plan.reportFormat) {
+      try {
+        const content = await readFile(plan.reportFile, 'utf-8');
+        return parseTestReport(content, plan.reportFormat, projectPath);
+      } catch (error) {
+        // Missing when the script didn't pass the reporter on to the runner
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn(`Failed to read test report for ${projectPath}:`, error);
+        }
+      } finally {
+        await rm(plan.reportFile, { force: true });
       }
+    }
 
-      if (deps['test-runner'] || deps.tap) {
-        return 'npm run test || npx tap';
+    if (plan.stdoutFormat) {
+      try {
+        return parseTestReport(stdout, plan.stdoutFormat, projectPath);
+      } catch (error) {
+        console.warn(`Failed to parse ${plan.stdoutFormat} test output for ${projectPath}:`, error);
       }
-
-      return null;
-    } catch {
-      return null;
     }
+
+    const reportPaths = plan.reportPaths?.length ? plan.reportPaths : JUNIT_REPORT_DIRS;
+    return detectTestReport(stdout, projectPath) ?? await this.readJUnitReports(projectPath, reportPaths, startedAt);
   }
 
   /**
-   * Parse test output to extract results
+   * JUnit XML files in the report directories, modified since the run started
    */
-  private parseTestOutput(output: string): {
-    passed: number;
-    failed: number;
-    skipped: number;
-    failures: Array<{ file: string; test: string; error: string }>;
-  } {
-    let passed = 0;
-    let failed = 0;
-    let skipped = 0;
-    const failures: Array<{ file: string; test: string; error: string }> = [];
-
-    const lines = output.split('\n');
-
-    for (const line of lines) {
-      // Jest format: "PASS src/test.ts" or "FAIL src/test.ts"
-      if (line.includes('PASS') && !line.includes('PASS')) {
-        passed++;
-      }
-      if (line.includes('FAIL')) {
-        failed++;
-      }
-      if (line.includes('skip') || line.includes('pending')) {
-        skipped++;
-      }
+  private async readJUnitReports(projectPath: string, dirs: string[], since: number): Promise<TestReport | null> {
+    const reports: TestReport[] = [];
 
-      // Extract summary from common runners
-      const summaryMatch = line.match(/(\d+)\s*passing?,\s*(\d+)\s*failing/);
-      if (summaryMatch) {
-        passed = parseInt(summaryMatch[1], 10);
-        failed = parseInt(summaryMatch[2], 10);
+    for (const dir of dirs) {
+      let files: string[];
+      try {
+        files = await readdir(join(projectPath, dir));
+      } catch {
+        continue;
       }
 
-      // Vitest format
-      const vitestMatch = line.match(/✓ (\d+)/);
-      if (vitestMatch) {
-        passed = parseInt(vitestMatch[1], 10);
+      for (const file of files.filter(name => name.endsWith('.xml'))) {
+        const filepath = join(projectPath, dir, file);
+        try {
+          // Allow for file systems with coarse timestamps
+          if ((await stat(filepath)).mtimeMs < since - 2000) continue;
+          const content = await readFile(filepath, 'utf-8');
+          if (content.includes('<testsuite')) {
+            reports.push(parseJUnitXml(content, projectPath));
+          }
+        } catch {
+          // Not a JUnit report
+        }
       }
     }
 
-    // Try to extract failures
-    const failureSections = output.split('FAIL ')[1];
-    if (failureSections) {
-      const lines = failureSections.split('\n');
-      let currentFile = '';
-      let currentTest = '';
-      let errorLines: string[] = [];
+    return mergeTestReports(reports);
+  }
 
-      for (const line of lines) {
-        if (line.includes('›')) {
-          currentTest = line.trim();
-        }
-        if (line.includes('Error:') || line.includes('expect')) {
-          errorLines.push(line.trim());
-        }
+  /**
+   * The run's coverage: the report the runner was asked for, or the first
+   * report the project's own command wrote during the run
+   */
+  private async readCoverage(projectPath: string, plan: TestRunPlan, startedAt: number): Promise<CoverageReport | null> {
+    let coverage: CoverageReport | null = null;
 
-        if (currentFile && currentTest && errorLines.length > 0) {
-          failures.push({
-            file: currentFile,
-            test: currentTest,
-            error: errorLines.join('\n').substring(0, 200),
-          });
-          errorLines = [];
+    if (plan.coverageFile && plan.coverageFormat) {
+      try {
+        coverage = parseCoverageReport(await readFile(plan.coverageFile, 'utf-8'), plan.coverageFormat, projectPath);
+      } catch (error) {
+        // Missing when the tests never got to run
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn(`Failed to read coverage for ${projectPath}:`, error);
         }
       }
     }
 
-    return { passed, failed, skipped, failures };
+    for (const path of coverage ? [] : [...(plan.coveragePaths ?? []), ...COVERAGE_REPORT_FILES]) {
+      const format = detectCoverageFormat(path);
+      const filepath = join(projectPath, path);
+      if (!format) continue;
+      try {
+        // Allow for file systems with coarse timestamps
+        if ((await stat(filepath)).mtimeMs < startedAt - 2000) continue;
+        coverage = parseCoverageReport(await readFile(filepath, 'utf-8'), format, projectPath);
+        break;
+      } catch {
+        // Not written by this run, or not a coverage report
+      }
+    }
+
+    const runner = getTestRunner(plan.runner);
+    return coverage && runner?.finishCoverage ? runner.finishCoverage(coverage, projectPath) : coverage;
   }
 
   /**
-   * Send failure notification to Telegram
-   * This is a placeholder - the actual Telegram bot should call this
+   * Store a coverage snapshot with the commit it ran on, the coverage of lines
+   * changed since, and drops against the last full run. A narrowed run only
+   * ran the tests of changed files, so only those files are compared.
    */
-  private async sendFailureNotification(
-    session: WatchSession,
-    result: TestResult
-  ): Promise<void> {
-    // Store notification for the bot to pick up
-    const notification = {
-      type: 'test_failure',
-      chatId: session.chatId,
-      project: session.projectName,
-      failed: result.failed,
-      passed: result.passed,
-      timestamp: result.timestamp,
+  private async saveCoverage(
+    projectPath: string,
+    coverage: CoverageReport,
+    partial: boolean,
+    startedAt: number
+  ): Promise<TestResult['coverage']> {
+    const [commit, changed, history] = await Promise.all([
+      execAsync('git rev-parse HEAD', { cwd: projectPath }).then(({ stdout }) => stdout.trim(), () => undefined),
+      getChangedLines(projectPath).catch(() => null), // Not a git repository
+      this.getCoverageHistory(projectPath, 1, { full: true }),
+    ]);
+
+    const snapshot: CoverageData = {
+      projectPath,
+      timestamp: startedAt,
+      lines: coverage.totals.lines.pct,
+      functions: coverage.totals.functions.pct,
+      branches: coverage.totals.branches.pct,
+      statements: coverage.totals.statements.pct,
+      format: coverage.format,
+      commit,
+      partial: partial || undefined,
+      files: coverage.files,
     };
 
-    const notificationFile = join(this.watchersDir, `notify-${session.chatId}-${Date.now()}.json`);
-    await writeFile(notificationFile, JSON.stringify(notification, null, 2));
+    if (changed) {
+      snapshot.changedLines = computeChangedLineCoverage(coverage.files, changed, commit?.substring(0, 7) ?? 'HEAD');
+    }
+
+    const baseline = history[0];
+    if (baseline) {
+      snapshot.drops = compareCoverage(baseline, snapshot, partial ? Array.from(changed?.keys() ?? []) : undefined);
+    }
+
+    const coverageDir = join(this.watchersDir, 'coverage');
+    const projectSlug = projectPath.replace(/[^a-z0-9]/gi, '-');
+    try {
+      await mkdir(coverageDir, { recursive: true });
+      await writeFile(join(coverageDir, `${startedAt}-${projectSlug}.json`), JSON.stringify(snapshot));
+
+      // Keep the newest snapshots; file names start with the run's timestamp
+      const stale = (await readdir(coverageDir))
+        .filter(file => file.endsWith(`-${projectSlug}.json`))
+        .sort((a, b) => parseInt(b, 10) - parseInt(a, 10))
+        .slice(MAX_COVERAGE_HISTORY);
+      for (const file of stale) await unlink(join(coverageDir, file));
+    } catch (error) {
+      console.error('Failed to save coverage:', error);
+    }
+
+    const { projectPath: _projectPath, timestamp: _timestamp, files: _files, ...summary } = snapshot;
+    return summary;
+  }
+
+  /**
+   * Coverage snapshots of a project, newest first; with full, only those of
+   * runs of the whole suite
+   */
+  async getCoverageHistory(projectPath: string, limit = 10, options: { full?: boolean } = {}): Promise<CoverageData[]> {
+    const coverageDir = join(this.watchersDir, 'coverage');
+    if (!existsSync(coverageDir)) {
+      return [];
+    }
+
+    const projectSlug = projectPath.replace(/[^a-z0-9]/gi, '-');
+    const files = (await readdir(coverageDir))
+      .filter(file => file.endsWith(`-${projectSlug}.json`))
+      .sort((a, b) => parseInt(b, 10) - parseInt(a, 10));
+
+    const snapshots: CoverageData[] = [];
+    for (const file of files) {
+      if (snapshots.length >= limit) break;
+      try {
+        const snapshot = JSON.parse(await readFile(join(coverageDir, file), 'utf-8')) as CoverageData;
+        if (!options.full || !snapshot.partial) snapshots.push(snapshot);
+      } catch {
+        // Skip invalid files
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * Announce a watched run; TestHealer and NotificationRouter react to failures
+   */
+  private async publishResult(session: WatchSession, result: TestResult): Promise<void> {
+    const bus = getEventBus();
+
+    if (result.failed > 0) {
+      await bus.publish('test.failed', {
+        projectPath: result.projectPath,
+        projectName: session.projectName,
+        chatId: session.chatId,
+        passed: result.passed,
+        failed: result.failed,
+        skipped: result.skipped,
+        duration: result.duration,
+        failures: result.failures ?? [],
+        output: result.output.substring(0, 2000),
+      });
+    } else {
+      await bus.publish('test.passed', {
+        projectPath: result.projectPath,
+        projectName: session.projectName,
+        chatId: session.chatId,
+        passed: result.passed,
+        skipped: result.skipped,
+        duration: result.duration,
+      });
+    }
+
+    if (result.coverage?.drops?.length) {
+      await bus.publish('coverage.dropped', {
+        projectPath: result.projectPath,
+        projectName: session.projectName,
+        chatId: session.chatId,
+        lines: result.coverage.lines,
+        drops: result.coverage.drops,
+        changedLines: result.coverage.changedLines && {
+          covered: result.coverage.changedLines.covered,
+          total: result.coverage.changedLines.total,
+        },
+      });
+    }
   }
 
   /**
@@ -394,57 +677,25 @@ export class TestWatcher {
       return [];
     }
 
-    const { readdir } = await import('node:fs/promises');
-    const files = await readdir(resultsDir);
-
     const results: TestResult[] = [];
     const projectSlug = projectPath.replace(/[^a-z0-9]/gi, '-');
 
-    for (const file of files.slice(-limit)) {
-      if (file.includes(projectSlug)) {
-        try {
-          const content = await readFile(join(resultsDir, file), 'utf-8');
-          results.push(JSON.parse(content) as TestResult);
-        } catch {
-          // Skip invalid files
-        }
-      }
-    }
+    // Newest first: file names start with the run's timestamp
+    const files = (await readdir(resultsDir))
+      .filter(file => file.endsWith(`-${projectSlug}.json`))
+      .sort((a, b) => parseInt(b, 10) - parseInt(a, 10))
+      .slice(0, limit);
 
-    return results.sort((a, b) => b.timestamp - a.timestamp);
-  }
-
-  /**
-   * Get a simple hash of directory contents for change detection
-   */
-  private async getDirectoryHash(dirPath: string): Promise<string> {
-    const { stat, readdir } = await import('node:fs/promises');
-
-    async function hashDir(path: string): Promise<string> {
+    for (const file of files) {
       try {
-        const stats = await stat(path);
-        if (!stats.isDirectory()) {
-          return `${stats.mtimeMs}`;
-        }
-
-        const files = await readdir(path);
-        const hashes: string[] = [];
-
-        for (const file of files) {
-          // Skip node_modules and common build dirs
-          if (['node_modules', '.git', 'dist', 'build'].includes(file)) {
-            continue;
-          }
-          hashes.push(await hashDir(join(path, file)));
-        }
-
-        return hashes.join('|');
+        const content = await readFile(join(resultsDir, file), 'utf-8');
+        results.push(JSON.parse(content) as TestResult);
       } catch {
-        return '';
+        // Skip invalid files
       }
     }
 
-    return await hashDir(dirPath);
+    return results.sort((a, b) => b.timestamp - a.timestamp);
   }
 
   /**
@@ -462,7 +713,7 @@ export class TestWatcher {
       id,
       session: {
         ...session,
-        // Don't save the timer
+        // Don't save the subscription
       },
     }));
 
@@ -496,7 +747,7 @@ export class TestWatcher {
    */
   async stopAll(): Promise<void> {
     for (const [_id, watcher] of activeWatchers.entries()) {
-      clearInterval(watcher.timer);
+      watcher.stop();
     }
     activeWatchers.clear();
     await this.saveWatchers();
@@ -510,6 +761,18 @@ export class TestWatcher {
   }
 }
 
+// Helpers
+
+function toFailureDetail(testCase: TestCase): TestFailureDetail {
+  return {
+    file: testCase.file,
+    test: testCase.suite ? `${testCase.suite} > ${testCase.name}` : testCase.name,
+    error: testCase.failureMessage ?? 'Test failed',
+    stack: testCase.stack,
+    duration: testCase.duration,
+  };
+}
+
 // Global singleton
 let globalTestWatcher: TestWatcher | null = null;
 
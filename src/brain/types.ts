@@ -181,14 +181,23 @@ export type TaskStatus =
 
 export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
 
+/**
+ * What to do with runs missed while the bridge was down:
+ * skip them, run once to catch up, or run each one (up to a limit)
+ */
+export type CatchUpPolicy = 'skip' | 'once' | 'all';
+
 export interface TaskSchedule {
   id: string;
   cronExpression: string;
   task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>;
   enabled: boolean;
+  timezone?: string; // IANA zone the expression is evaluated in (default: user's)
+  catchUp?: CatchUpPolicy; // Default: once
   lastRun?: number;
   nextRun?: number;
   runCount?: number;
+  missedRuns?: number; // Runs skipped by the catch-up policy, in total
 }
 
 // ===========================================
@@ -254,6 +263,14 @@ export interface DailyMetrics {
   filesModified: number;
   activeProjects: string[];
   uptimeMs: number;
+  // Claude token usage and spend (older metric files lack these; MetricsTracker fills in zeros)
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+  costByProject: Record<string, number>;
+  costByModel: Record<string, number>;
 }
 
 // ===========================================
@@ -0,0 +1,6 @@
+/**
+ * Usage module exports
+ */
+
+export { UsageTracker, getUsageTracker, resetUsageTracker, estimateCostUsd, formatUsd, startOfDay, startOfMonth } from './usage-tracker.js';
+export type { UsageSource, BudgetMode, RunUsage, ChatBudget, BudgetCheck } from './usage-tracker.js';
@@ -0,0 +1,260 @@
+/**
+ * Usage Tracker - Token and cost accounting for Claude runs
+ *
+ * Every finished run is recorded twice:
+ * - DatabaseManager keeps one row per run (chat, project, model, tokens, cost)
+ *   for per-chat breakdowns and budget checks
+ * - MetricsTracker adds the totals to the day's metrics for trends
+ *
+ * The CLI reports cost in json/stream-json output; when it doesn't (text
+ * output, killed runs) the cost is estimated from token counts.
+ *
+ * Budgets are per chat, with optional daily and monthly limits in USD. In
+ * "warn" mode a run past the limit is allowed with a warning; in "block" mode
+ * it is refused. Either way a warning is given once spend passes 80%.
+ */
+
+import { getDatabaseManager } from '../database/index.js';
+import type { BudgetRow, UsageTotals } from '../database/index.js';
+import { getMetricsTracker } from '../metrics/index.js';
+
+// ============================================
+// Configuration
+// ============================================
+
+const WARN_RATIO = 0.8; // Warn once spend reaches 80% of a limit
+
+// USD per million tokens, matched against the model name
+const MODEL_PRICING: Array<{ match: RegExp; input: number; output: number }> = [
+  { match: /opus/i, input: 15, output: 75 },
+  { match: /haiku/i, input: 0.8, output: 4 },
+  { match: /sonnet/i, input: 3, output: 15 },
+];
+const DEFAULT_PRICING = { input: 3, output: 15 };
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+// ============================================
+// Types
+// ============================================
+
+export type UsageSource = 'chat' | 'task' | 'agent' | 'memory';
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface RunUsage {
+  chatId?: number;
+  project?: string;
+  model?: string;
+  sessionId?: string;
+  source: UsageSource;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd?: number; // As reported by the CLI
+}
+
+export interface ChatBudget {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+  mode: BudgetMode;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  warning?: string;
+  spentTodayUsd: number;
+  spentMonthUsd: number;
+  budget: ChatBudget | null;
+}
+
+// ============================================
+// Usage Tracker Class
+// ============================================
+
+export class UsageTracker {
+  /**
+   * Record a finished run. Returns the cost attributed to it.
+   */
+  recordRun(run: RunUsage): number {
+    const estimated = run.costUsd === undefined;
+    const costUsd = run.costUsd ?? estimateCostUsd(run.model, run);
+
+    try {
+      getDatabaseManager().insertUsage({
+        id: `usage-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: Date.now(),
+        chat_id: run.chatId ?? null,
+        project: run.project ?? null,
+        model: run.model ?? null,
+        session_id: run.sessionId ?? null,
+        source: run.source,
+        input_tokens: run.inputTokens,
+        output_tokens: run.outputTokens,
+        cache_creation_tokens: run.cacheCreationInputTokens,
+        cache_read_tokens: run.cacheReadInputTokens,
+        cost_usd: costUsd,
+        cost_estimated: estimated,
+      });
+    } catch (error) {
+      console.error('[UsageTracker] Failed to record usage:', error);
+    }
+
+    getMetricsTracker().increment({
+      inputTokens: run.inputTokens,
+      outputTokens: run.outputTokens,
+      cacheCreationTokens: run.cacheCreationInputTokens,
+      cacheReadTokens: run.cacheReadInputTokens,
+      costUsd,
+      activeProject: run.project,
+      model: run.model,
+    });
+
+    return costUsd;
+  }
+
+  /**
+   * Check a chat's spend against its budget before spawning a run
+   */
+  checkBudget(chatId: number): BudgetCheck {
+    const budget = this.getBudget(chatId);
+    const spentTodayUsd = this.getTotals(chatId, startOfDay()).cost_usd;
+    const spentMonthUsd = this.getTotals(chatId, startOfMonth()).cost_usd;
+
+    const result: BudgetCheck = { allowed: true, spentTodayUsd, spentMonthUsd, budget };
+    if (!budget) return result;
+
+    const limits: Array<{ period: string; spent: number; limit: number | null }> = [
+      { period: 'daily', spent: spentTodayUsd, limit: budget.dailyUsd },
+      { period: 'monthly', spent: spentMonthUsd, limit: budget.monthlyUsd },
+    ];
+
+    for (const { period, spent, limit } of limits) {
+      if (limit === null || limit <= 0) continue;
+
+      if (spent >= limit) {
+        result.allowed = budget.mode !== 'block';
+        result.warning = `${period} budget reached: ${formatUsd(spent)} of ${formatUsd(limit)}`;
+        return result;
+      }
+      if (spent >= limit * WARN_RATIO && !result.warning) {
+        result.warning = `${Math.round((spent / limit) * 100)}% of the ${period} budget used (${formatUsd(spent)} of ${formatUsd(limit)})`;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a chat's budget (null when none is set)
+   */
+  getBudget(chatId: number): ChatBudget | null {
+    let row: BudgetRow | null = null;
+    try {
+      row = getDatabaseManager().getBudget(chatId);
+    } catch {
+      // Database not initialized
+    }
+    if (!row || (row.daily_usd === null && row.monthly_usd === null)) return null;
+
+    return {
+      dailyUsd: row.daily_usd,
+      monthlyUsd: row.monthly_usd,
+      mode: row.mode === 'block' ? 'block' : 'warn',
+    };
+  }
+
+  /**
+   * Update a chat's budget; null clears a limit
+   */
+  setBudget(chatId: number, update: Partial<ChatBudget>): ChatBudget {
+    const current = this.getBudget(chatId) ?? { dailyUsd: null, monthlyUsd: null, mode: 'warn' as BudgetMode };
+    const next: ChatBudget = { ...current, ...update };
+
+    getDatabaseManager().upsertBudget({
+      chat_id: chatId,
+      daily_usd: next.dailyUsd,
+      monthly_usd: next.monthlyUsd,
+      mode: next.mode,
+      updated_at: Date.now(),
+    });
+
+    return next;
+  }
+
+  /**
+   * Usage totals for a chat since a timestamp
+   */
+  getTotals(chatId: number | undefined, since: number): UsageTotals {
+    try {
+      return getDatabaseManager().getUsageTotals({ chatId, since });
+    } catch {
+      return { runs: 0, input_tokens: 0, output_tokens: 0, cache_creation_tokens: 0, cache_read_tokens: 0, cost_usd: 0 };
+    }
+  }
+
+  /**
+   * Usage for a chat since a timestamp, grouped by project or model
+   */
+  getBreakdown(chatId: number | undefined, since: number, groupBy: 'project' | 'model'): Array<UsageTotals & { key: string | null }> {
+    try {
+      return getDatabaseManager().getUsageBreakdown(groupBy, { chatId, since });
+    } catch {
+      return [];
+    }
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Estimate the cost of a run from its token counts
+ */
+export function estimateCostUsd(
+  model: string | undefined,
+  usage: Pick<RunUsage, 'inputTokens' | 'outputTokens' | 'cacheCreationInputTokens' | 'cacheReadInputTokens'>
+): number {
+  const pricing = MODEL_PRICING.find(p => model && p.match.test(model)) ?? DEFAULT_PRICING;
+
+  return (
+    usage.inputTokens * pricing.input +
+    usage.cacheCreationInputTokens * pricing.input * CACHE_WRITE_MULTIPLIER +
+    usage.cacheReadInputTokens * pricing.input * CACHE_READ_MULTIPLIER +
+    usage.outputTokens * pricing.output
+  ) / 1_000_000;
+}
+
+export function formatUsd(amount: number): string {
+  return amount < 0.01 && amount > 0 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Start of the current day/month in UTC (matches MetricsTracker's daily files)
+ */
+export function startOfDay(now = new Date()): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+}
+
+export function startOfMonth(now = new Date()): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+}
+
+// ============================================
+// Global Singleton
+// ============================================
+
+let globalUsageTracker: UsageTracker | null = null;
+
+export function getUsageTracker(): UsageTracker {
+  if (!globalUsageTracker) {
+    globalUsageTracker = new UsageTracker();
+  }
+  return globalUsageTracker;
+}
+
+export function resetUsageTracker(): void {
+  globalUsageTracker = null;
+}
@@ -2,7 +2,14 @@
  * Claude Spawner Class - Wrapper for Claude process functions
  */
 
-import type { Project, ClaudeProcess, ClaudeCliResult, BridgeConfig } from "./types.js";
+import type {
+  Project,
+  ClaudeProcess,
+  ClaudeCliResult,
+  ClaudeStreamEvent,
+  BridgeConfig,
+  PermissionPromptConfig,
+} from "./types.js";
 import {
   spawnClaudeProcess,
   waitForClaudeProcess,
@@ -23,18 +30,25 @@ export class ClaudeSpawner {
 
   /**
    * Spawn a new Claude process
+   * permissionMode overrides the configured mode, e.g. for unattended runs.
    */
   public spawnProcess(options: {
     project: Project;
     prompt: string;
     model?: string;
-    output?: string;
-    onOutput?: (data: string) => void;
+    output?: "text" | "json" | "stream-json";
+    permissionMode?: BridgeConfig["claudePermissionMode"];
+    permissionPrompt?: PermissionPromptConfig;
+    resumeSessionId?: string;
+    forkSession?: boolean;
+    addDirs?: string[];
+    onOutput?: (data: string, event?: ClaudeStreamEvent) => void;
   }): ClaudeProcess {
     const process = spawnClaudeProcess({
       ...options,
       model: options.model || this.config.claudeDefaultModel,
       timeoutMs: this.config.claudeTimeoutMs,
+      permissionMode: options.permissionMode ?? this.config.claudePermissionMode,
       onOutput: options.onOutput,
     });
 
@@ -4,11 +4,22 @@
 
 import { spawn, ChildProcess } from "node:child_process";
 import { existsSync } from "node:fs";
-import type { Project, ClaudeCliResult, ClaudeProcess } from "./types.js";
+import { isAbsolute, relative } from "node:path";
+import type {
+  BridgeConfig,
+  Project,
+  ClaudeCliResult,
+  ClaudeProcess,
+  ClaudeStreamEvent,
+  ClaudeUsage,
+  FileEdit,
+  PermissionPromptConfig,
+} from "./types.js";
 
 // Maximum output buffer size to prevent unbounded memory growth
 const MAX_OUTPUT_BUFFER_SIZE = 10_000_000; // 10MB limit per process
 const MAX_OUTPUT_LINES = 10_000; // Maximum number of output lines
+const MAX_TOOL_RESULT_CHARS = 4_000; // Tool results can be whole files - keep a preview only
 
 // Store child process references for proper cleanup
 const childProcessRegistry = new Map<number, ChildProcess>();
@@ -16,16 +27,29 @@ const childProcessRegistry = new Map<number, ChildProcess>();
 /**
  * Spawn a Claude CLI process
  * @param timeoutMs - If undefined or 0, no timeout is applied (process runs indefinitely)
+ * @param onOutput - Receives raw text chunks, or in stream-json mode one call per parsed
+ *   event with a human-readable rendering (empty for bookkeeping events like usage)
+ * @param permissionMode - bypassPermissions (or unset) skips all permission checks
+ * @param permissionPrompt - Routes permission requests to the bot (see PermissionBridge)
+ * @param resumeSessionId - Continue a native CLI session (--resume) instead of starting fresh
+ * @param forkSession - With resumeSessionId, branch into a new session id
+ * @param addDirs - Extra directories Claude may access (--add-dir), e.g. attachment scratch dirs
  */
 export function spawnClaudeProcess(options: {
   project: Project;
   prompt: string;
   model?: string;
-  output?: string;
+  output?: "text" | "json" | "stream-json";
   timeoutMs?: number;
-  onOutput?: (data: string) => void;  // Callback for real-time output streaming
+  permissionMode?: BridgeConfig["claudePermissionMode"];
+  permissionPrompt?: PermissionPromptConfig;
+  resumeSessionId?: string;
+  forkSession?: boolean;
+  addDirs?: string[];
+  onOutput?: (data: string, event?: ClaudeStreamEvent) => void;  // Callback for real-time output streaming
 }): ClaudeProcess {
-  const { project, prompt, model, output, timeoutMs, onOutput } = options;
+  const { project, prompt, model, output, timeoutMs, permissionPrompt, resumeSessionId, forkSession, addDirs, onOutput } = options;
+  const permissionMode = permissionPrompt?.permissionMode ?? options.permissionMode;
 
   // Verify project path exists
   if (!existsSync(project.path)) {
@@ -40,9 +64,28 @@ export function spawnClaudeProcess(options: {
   // Add non-interactive flag
   args.push("--print");
 
-  // IMPORTANT: Skip all permission checks since stdin is ignored (process can't wait for input)
-  // This is REQUIRED for bot use - otherwise Claude will hang waiting for permission input
-  args.push("--dangerously-skip-permissions");
+  // stdin is ignored, so Claude can never ask for permission interactively. Either skip
+  // all checks, or hand permission requests to the bot through the prompt tool.
+  if (!permissionMode || permissionMode === "bypassPermissions") {
+    args.push("--dangerously-skip-permissions");
+  } else {
+    args.push("--permission-mode", permissionMode);
+    if (permissionPrompt) {
+      args.push("--mcp-config", permissionPrompt.mcpConfigPath);
+      args.push("--permission-prompt-tool", permissionPrompt.toolName);
+    }
+  }
+
+  // Continue a native session so Claude keeps its full context
+  if (resumeSessionId) {
+    args.push("--resume", resumeSessionId);
+    if (forkSession) args.push("--fork-session");
+  }
+
+  // Allow access outside the project directory
+  for (const dir of addDirs ?? []) {
+    args.push("--add-dir", dir);
+  }
 
   // Add model if specified
   if (model) args.push("--model", model);
@@ -53,6 +96,9 @@ export function spawnClaudeProcess(options: {
   // Add output format if specified (maps to --output-format flag)
   if (output) args.push("--output-format", output);
 
+  // stream-json in print mode is only emitted with --verbose
+  if (output === "stream-json") args.push("--verbose");
+
   // Add the prompt as the final positional argument
   args.push(prompt);
 
@@ -64,6 +110,7 @@ export function spawnClaudeProcess(options: {
       ...process.env,
       // Ensure claude can access terminal if needed
       TERM: process.env.TERM || "xterm-256color",
+      ...permissionPrompt?.env,
     },
     stdio: ["ignore", "pipe", "pipe"], // stdin ignored, stdout and stderr captured
     shell: false, // No shell needed - args are passed directly
@@ -79,6 +126,8 @@ export function spawnClaudeProcess(options: {
     startTime: Date.now(),
     status: "running",
     outputBuffer: [],
+    outputFormat: output,
+    events: output === "stream-json" ? [] : undefined,
   };
 
   // Store child process reference for proper cleanup
@@ -104,10 +153,42 @@ export function spawnClaudeProcess(options: {
     currentBufferSize += dataSize;
   };
 
+  // stream-json arrives as newline-delimited JSON, but chunks don't respect line boundaries
+  let lineBuffer = "";
+
+  const handleStreamLine = (line: string) => {
+    for (const event of parseStreamJsonLine(line)) {
+      if (claudeProc.events!.length < MAX_OUTPUT_LINES) {
+        claudeProc.events!.push(event);
+      }
+
+      let rendered = "";
+      if (event.type === "text") {
+        rendered = event.text;
+        addOutput(event.text);
+      } else if (event.type === "tool_use") {
+        rendered = describeToolUse(event.name, event.input, project.path);
+      }
+
+      onOutput?.(rendered, event);
+    }
+  };
+
   // Handle stdout
   childProcess.stdout?.on("data", (data) => {
     const output = data.toString();
     console.debug(`[claude-spawner] PID ${claudeProc.pid} stdout: ${output.slice(0, 200)}${output.length > 200 ? "..." : ""}`);
+
+    if (claudeProc.events) {
+      lineBuffer += output;
+      const lines = lineBuffer.split("\n");
+      lineBuffer = lines.pop() ?? "";
+      for (const line of lines) {
+        handleStreamLine(line);
+      }
+      return;
+    }
+
     addOutput(output);
     // Call streaming callback if provided
     onOutput?.(output);
@@ -122,6 +203,11 @@ export function spawnClaudeProcess(options: {
 
   // Handle process exit
   childProcess.on("close", (code) => {
+    // Flush a trailing event that wasn't newline-terminated
+    if (claudeProc.events && lineBuffer.trim()) {
+      handleStreamLine(lineBuffer);
+      lineBuffer = "";
+    }
     console.log(`[claude-spawner] PID ${claudeProc.pid} closed with code ${code}`);
     claudeProc.status = code === 0 ? "completed" : "error";
     // Clean up registry after process completes
@@ -212,17 +298,31 @@ export async function waitForClaudeProcess(
         const result: ClaudeCliResult = {
           exitCode: process.status === "completed" ? 0 : 1,
           output: process.outputBuffer.join("\n"),
-          edits: [], // TODO: parse edits from output
+          edits: [],
           errors: [],
           duration: Date.now() - process.startTime,
         };
 
+        if (process.events) {
+          Object.assign(result, summarizeStreamEvents(process.events));
+          if (!result.output) {
+            result.output = process.outputBuffer.join("\n");
+          }
+        }
+
         resolve(result);
       }
     }, 100);
   });
 }
 
+/**
+ * Number of Claude processes still running, from every spawner in this process
+ */
+export function getRunningProcessCount(): number {
+  return childProcessRegistry.size;
+}
+
 /**
  * Kill a Claude process
  */
@@ -256,23 +356,299 @@ export function killClaudeProcess(claudeProc: ClaudeProcess): void {
 
 /**
  * Parse Claude CLI output for file edits
- * This is a placeholder - actual implementation depends on Claude's output format
+ * Only stream-json output carries structured tool calls; plain text yields nothing
  */
-export function parseClaudeOutput(_output: string): {
-  edits: Array<{ path: string; action: "modify" | "create" | "delete" }>;
+export function parseClaudeOutput(output: string): {
+  edits: FileEdit[];
   errors: string[];
 } {
-  const edits: Array<{ path: string; action: "modify" | "create" | "delete" }> = [];
-  const errors: string[] = [];
+  const events: ClaudeStreamEvent[] = [];
 
-  // TODO: Implement parsing based on Claude CLI output format
-  // This may need to detect file paths, diffs, etc.
+  for (const line of output.split("\n")) {
+    events.push(...parseStreamJsonLine(line));
+  }
 
+  const { edits, errors } = summarizeStreamEvents(events);
   return { edits, errors };
 }
 
+/**
+ * Parse a single stream-json line into typed events
+ * One assistant message can hold several content blocks, so a line may yield several events
+ */
+export function parseStreamJsonLine(line: string): ClaudeStreamEvent[] {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) return [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(trimmed);
+  } catch {
+    return [];
+  }
+  if (!isRecord(raw)) return [];
+
+  const events: ClaudeStreamEvent[] = [];
+
+  switch (raw.type) {
+    case "system":
+      if (raw.subtype === "init" && typeof raw.session_id === "string") {
+        events.push({
+          type: "init",
+          sessionId: raw.session_id,
+          model: optionalString(raw.model),
+          tools: Array.isArray(raw.tools) ? raw.tools.filter((tool): tool is string => typeof tool === "string") : undefined,
+        });
+      }
+      break;
+
+    case "assistant": {
+      const message = isRecord(raw.message) ? raw.message : {};
+      for (const block of contentBlocks(message.content)) {
+        if (block.type === "text" && typeof block.text === "string") {
+          events.push({ type: "text", text: block.text });
+        } else if (block.type === "tool_use") {
+          events.push({
+            type: "tool_use",
+            id: String(block.id ?? ""),
+            name: String(block.name ?? "unknown"),
+            input: isRecord(block.input) ? block.input : {},
+          });
+        }
+      }
+      const usage = parseUsage(message.usage);
+      if (usage) events.push({ type: "usage", usage, messageId: optionalString(message.id) });
+      break;
+    }
+
+    case "user": {
+      const message = isRecord(raw.message) ? raw.message : {};
+      for (const block of contentBlocks(message.content)) {
+        if (block.type === "tool_result") {
+          events.push({
+            type: "tool_result",
+            toolUseId: String(block.tool_use_id ?? ""),
+            content: stringifyToolResult(block.content).slice(0, MAX_TOOL_RESULT_CHARS),
+            isError: block.is_error === true,
+          });
+        }
+      }
+      break;
+    }
+
+    case "result":
+      events.push({
+        type: "result",
+        isError: raw.is_error === true || (typeof raw.subtype === "string" && raw.subtype !== "success"),
+        result: typeof raw.result === "string" ? raw.result : "",
+        sessionId: optionalString(raw.session_id),
+        durationMs: optionalNumber(raw.duration_ms),
+        numTurns: optionalNumber(raw.num_turns),
+        costUsd: optionalNumber(raw.total_cost_usd) ?? optionalNumber(raw.cost_usd),
+        usage: parseUsage(raw.usage) ?? undefined,
+      });
+      break;
+  }
+
+  return events;
+}
+
+/**
+ * Human-readable one-liner for a tool call (e.g. "Editing src/foo.ts")
+ */
+export function describeToolUse(
+  name: string,
+  input: Record<string, unknown>,
+  projectPath?: string
+): string {
+  const str = (key: string) => (typeof input[key] === "string" ? (input[key] as string) : "");
+  const path = (key: string) => {
+    const value = str(key);
+    if (!value || !projectPath || !isAbsolute(value)) return value;
+    const rel = relative(projectPath, value);
+    return rel.startsWith("..") ? value : rel;
+  };
+
+  switch (name) {
+    case "Edit":
+    case "MultiEdit":
+      return `Editing ${path("file_path")}`;
+    case "Write":
+      return `Writing ${path("file_path")}`;
+    case "NotebookEdit":
+      return `Editing ${path("notebook_path")}`;
+    case "Read":
+      return `Reading ${path("file_path")}`;
+    case "Bash":
+      return `Running ${str("command").split("\n")[0]}`;
+    case "Glob":
+      return `Finding files ${str("pattern")}`;
+    case "Grep":
+      return `Searching for ${str("pattern")}`;
+    case "WebFetch":
+      return `Fetching ${str("url")}`;
+    case "WebSearch":
+      return `Searching the web for ${str("query")}`;
+    case "Task":
+      return `Delegating: ${str("description")}`;
+    case "TodoWrite":
+      return "Updating todo list";
+    default:
+      return `Using ${name}`;
+  }
+}
+
+/**
+ * Derive edits, final output and usage from a completed event stream
+ */
+export function summarizeStreamEvents(events: ClaudeStreamEvent[]): Pick<
+  ClaudeCliResult,
+  "output" | "edits" | "errors" | "sessionId" | "model" | "usage" | "costUsd"
+> {
+  const edits = new Map<string, FileEdit>();
+  const errors: string[] = [];
+  let output = "";
+  let sessionId: string | undefined;
+  let model: string | undefined;
+  let usage: ClaudeUsage | undefined;
+  const messageUsage = new Map<string, ClaudeUsage>(); // Summed per message, for runs killed before their result
+  const writes = new Map<string, string>(); // Write tool_use id -> path
+  let costUsd: number | undefined;
+
+  const addEdit = (path: unknown, action: FileEdit["action"]) => {
+    if (typeof path !== "string" || !path) return;
+    // Keep the first action: a file created then edited is still a creation
+    if (!edits.has(path)) edits.set(path, { path, action });
+  };
+
+  for (const event of events) {
+    switch (event.type) {
+      case "init":
+        sessionId = event.sessionId;
+        model = event.model ?? model;
+        break;
+      case "usage":
+        // The CLI repeats a message's usage on every content block, so count each message once
+        messageUsage.set(event.messageId ?? `#${messageUsage.size}`, event.usage);
+        break;
+      case "tool_use":
+        if (event.name === "Write") {
+          // Write also overwrites whole files; it only counts as a creation once its result says so
+          addEdit(event.input.file_path, "modify");
+          if (typeof event.input.file_path === "string") writes.set(event.id, event.input.file_path);
+        } else if (event.name === "Edit" || event.name === "MultiEdit") {
+          addEdit(event.input.file_path, "modify");
+        } else if (event.name === "NotebookEdit") {
+          addEdit(event.input.notebook_path, "modify");
+        } else if (event.name === "Bash" && typeof event.input.command === "string") {
+          for (const target of parseRemovedPaths(event.input.command)) {
+            addEdit(target, "delete");
+          }
+        }
+        break;
+      case "tool_result": {
+        if (event.isError) errors.push(event.content);
+        const written = writes.get(event.toolUseId);
+        if (written && !event.isError && /^File created successfully/.test(event.content) && edits.get(written)?.action === "modify") {
+          edits.set(written, { path: written, action: "create" });
+        }
+        break;
+      }
+      case "result":
+        output = event.result;
+        sessionId = event.sessionId ?? sessionId;
+        usage = event.usage ?? usage;
+        costUsd = event.costUsd;
+        if (event.isError) errors.push(event.result || "Claude run failed");
+        break;
+    }
+  }
+
+  return {
+    output,
+    edits: Array.from(edits.values()),
+    errors,
+    sessionId,
+    model,
+    usage: usage ?? sumUsage(Array.from(messageUsage.values())),
+    costUsd,
+  };
+}
+
+/**
+ * Extract targets of simple `rm` / `git rm` invocations from a shell command
+ */
+export function parseRemovedPaths(command: string): string[] {
+  const paths: string[] = [];
+
+  for (const segment of command.split(/&&|\|\||;|\n/)) {
+    const match = segment.trim().match(/^(?:git\s+)?rm\s+(.+)$/);
+    if (!match) continue;
+    for (const token of match[1].split(/\s+/)) {
+      if (token && !token.startsWith("-")) paths.push(token.replace(/^["']|["']$/g, ""));
+    }
+  }
+
+  return paths;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+function contentBlocks(content: unknown): Record<string, unknown>[] {
+  return Array.isArray(content) ? content.filter(isRecord) : [];
+}
+
+function parseUsage(raw: unknown): ClaudeUsage | null {
+  if (!isRecord(raw)) return null;
+  return {
+    inputTokens: Number(raw.input_tokens) || 0,
+    outputTokens: Number(raw.output_tokens) || 0,
+    cacheCreationInputTokens: Number(raw.cache_creation_input_tokens) || 0,
+    cacheReadInputTokens: Number(raw.cache_read_input_tokens) || 0,
+  };
+}
+
+function sumUsage(usages: ClaudeUsage[]): ClaudeUsage | undefined {
+  if (usages.length === 0) return undefined;
+  return usages.reduce((total, usage) => ({
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cacheCreationInputTokens: total.cacheCreationInputTokens + usage.cacheCreationInputTokens,
+    cacheReadInputTokens: total.cacheReadInputTokens + usage.cacheReadInputTokens,
+  }));
+}
+
+function stringifyToolResult(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (isRecord(part) && typeof part.text === "string" ? part.text : ""))
+      .filter(Boolean)
+      .join("\n");
+  }
+  return content == null ? "" : JSON.stringify(content);
+}
+
+/**
+ * Whether a failed run was caused by resuming a session the CLI no longer has
+ */
+export function isMissingSessionError(output: string): boolean {
+  return /No conversation found with session ID/i.test(output);
+}
+
 /**
  * Build a Claude prompt with conversation context
+ * Fallback for runs without a native session to resume (see --resume)
  */
 export function buildClaudePrompt(
   userPrompt: string,
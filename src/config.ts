@@ -26,7 +26,9 @@ const configSchema = z.object({
   // Claude CLI
   claudeDefaultModel: z.string().default("claude-3-5-sonnet"),
   claudeTimeoutMs: z.number().default(0), // 0 = no timeout (run indefinitely), 300000 = 5 minutes
-  claudePermissionMode: z.enum(["acceptEdits", "bypassPermissions", "default", "delegate", "dontAsk", "plan"]).default("bypassPermissions"), // bypassPermissions needed for bot (stdin ignored)
+  claudePermissionMode: z.enum(["acceptEdits", "bypassPermissions", "default", "delegate", "dontAsk", "plan"]).default("bypassPermissions"), // Other modes route permission prompts through PermissionBridge
+  agentPermissionMode: z.enum(["acceptEdits", "bypassPermissions", "default", "delegate", "dontAsk", "plan"]).default("bypassPermissions"), // Unattended agent runs have nobody to ask
+  worktreeIsolation: z.enum(["off", "background", "all"]).default("off"), // Run Claude in a throwaway git worktree
 
   // Sessions
   sessionTimeoutMs: z.number().default(3600000), // 1 hour
@@ -38,6 +40,23 @@ const configSchema = z.object({
   requireApprovalForDeletes: z.boolean().default(true),
   requireApprovalForMassChanges: z.boolean().default(true),
   massChangeThreshold: z.number().default(5),
+  diffReview: z.boolean().default(true),
+
+  // Attachments
+  attachmentMaxBytes: z.number().default(20 * 1024 * 1024), // Telegram bots can't download larger files
+  attachmentLocation: z.enum(["project", "temp"]).default("project"),
+  transcriberCommand: z.string().optional(),
+
+  // Output
+  outputDocumentThreshold: z.number().default(8000), // Longer output is sent as a document
+
+  // Semantic Memory
+  embeddingProvider: z.enum(["hash", "local", "http"]).default("hash"),
+  embeddingModel: z.string().optional(),
+  embeddingUrl: z.string().optional(),
+  embeddingApiKey: z.string().optional(),
+  contextBudgetTokens: z.number().default(1200), // Retrieved context per prompt, 0 disables
+  memoryConsolidationIntervalMs: z.number().default(21_600_000), // 6 hours, 0 disables
 
   // Logging
   logLevel: z.enum(["debug", "info", "warn", "error"]).default("info"),
@@ -56,6 +75,8 @@ interface RawConfig {
   claudeDefaultModel?: string;
   claudeTimeoutMs?: number;
   claudePermissionMode?: 'acceptEdits' | 'bypassPermissions' | 'default' | 'delegate' | 'dontAsk' | 'plan';
+  agentPermissionMode?: 'acceptEdits' | 'bypassPermissions' | 'default' | 'delegate' | 'dontAsk' | 'plan';
+  worktreeIsolation?: 'off' | 'background' | 'all';
   sessionTimeoutMs?: number;
   maxConcurrentSessions?: number;
   autoApproveSafeEdits?: boolean;
@@ -63,6 +84,17 @@ interface RawConfig {
   requireApprovalForDeletes?: boolean;
   requireApprovalForMassChanges?: boolean;
   massChangeThreshold?: number;
+  diffReview?: boolean;
+  attachmentMaxBytes?: number;
+  attachmentLocation?: "project" | "temp";
+  transcriberCommand?: string;
+  outputDocumentThreshold?: number;
+  embeddingProvider?: "hash" | "local" | "http";
+  embeddingModel?: string;
+  embeddingUrl?: string;
+  embeddingApiKey?: string;
+  contextBudgetTokens?: number;
+  memoryConsolidationIntervalMs?: number;
   logLevel?: "debug" | "info" | "warn" | "error";
 }
 
@@ -97,6 +129,8 @@ export function loadConfig(configPath?: string): BridgeConfig {
       ? Number.parseInt(process.env.CLAUDE_TIMEOUT_MS, 10)
       : undefined,
     claudePermissionMode: process.env.CLAUDE_PERMISSION_MODE as 'acceptEdits' | 'bypassPermissions' | 'default' | 'delegate' | 'dontAsk' | 'plan' | undefined,
+    agentPermissionMode: process.env.AGENT_PERMISSION_MODE as 'acceptEdits' | 'bypassPermissions' | 'default' | 'delegate' | 'dontAsk' | 'plan' | undefined,
+    worktreeIsolation: process.env.WORKTREE_ISOLATION as 'off' | 'background' | 'all' | undefined,
 
     sessionTimeoutMs: process.env.SESSION_TIMEOUT_MS
       ? Number.parseInt(process.env.SESSION_TIMEOUT_MS, 10)
@@ -112,6 +146,28 @@ export function loadConfig(configPath?: string): BridgeConfig {
     massChangeThreshold: process.env.MASS_CHANGE_THRESHOLD
       ? Number.parseInt(process.env.MASS_CHANGE_THRESHOLD, 10)
       : undefined,
+    diffReview: process.env.DIFF_REVIEW !== "false",
+
+    attachmentMaxBytes: process.env.ATTACHMENT_MAX_BYTES
+      ? Number.parseInt(process.env.ATTACHMENT_MAX_BYTES, 10)
+      : undefined,
+    attachmentLocation: process.env.ATTACHMENT_LOCATION as "project" | "temp" | undefined,
+    transcriberCommand: process.env.TRANSCRIBER_COMMAND || undefined,
+
+    outputDocumentThreshold: process.env.OUTPUT_DOCUMENT_THRESHOLD
+      ? Number.parseInt(process.env.OUTPUT_DOCUMENT_THRESHOLD, 10)
+      : undefined,
+
+    embeddingProvider: process.env.EMBEDDING_PROVIDER as "hash" | "local" | "http" | undefined,
+    embeddingModel: process.env.EMBEDDING_MODEL || undefined,
+    embeddingUrl: process.env.EMBEDDING_URL || undefined,
+    embeddingApiKey: process.env.EMBEDDING_API_KEY || undefined,
+    contextBudgetTokens: process.env.CONTEXT_BUDGET_TOKENS
+      ? Number.parseInt(process.env.CONTEXT_BUDGET_TOKENS, 10)
+      : undefined,
+    memoryConsolidationIntervalMs: process.env.MEMORY_CONSOLIDATION_INTERVAL_MS
+      ? Number.parseInt(process.env.MEMORY_CONSOLIDATION_INTERVAL_MS, 10)
+      : undefined,
 
     logLevel: process.env.LOG_LEVEL,
   });
@@ -132,7 +188,9 @@ function transformConfig(raw: RawConfig): BridgeConfig {
     autoScanIntervalMs: raw.autoScanIntervalMs ?? 300_000,
     claudeDefaultModel: raw.claudeDefaultModel ?? "claude-3-5-sonnet",
     claudeTimeoutMs: raw.claudeTimeoutMs ?? 0, // 0 = no timeout (run indefinitely)
-    claudePermissionMode: raw.claudePermissionMode ?? "bypassPermissions", // Changed to bypassPermissions for bot use (stdin is ignored)
+    claudePermissionMode: raw.claudePermissionMode ?? "bypassPermissions", // Other modes route permission prompts through PermissionBridge
+    agentPermissionMode: raw.agentPermissionMode ?? "bypassPermissions", // Unattended agent runs have nobody to ask
+    worktreeIsolation: raw.worktreeIsolation ?? "off",
     sessionTimeoutMs: raw.sessionTimeoutMs ?? 3600000,
     maxConcurrentSessions: raw.maxConcurrentSessions ?? 5,
     autoApproveSafeEdits: raw.autoApproveSafeEdits ?? true,
@@ -140,6 +198,17 @@ function transformConfig(raw: RawConfig): BridgeConfig {
     requireApprovalForDeletes: raw.requireApprovalForDeletes ?? true,
     requireApprovalForMassChanges: raw.requireApprovalForMassChanges ?? true,
     massChangeThreshold: raw.massChangeThreshold ?? 5,
+    diffReview: raw.diffReview ?? true,
+    attachmentMaxBytes: raw.attachmentMaxBytes ?? 20 * 1024 * 1024,
+    attachmentLocation: raw.attachmentLocation ?? "project",
+    transcriberCommand: raw.transcriberCommand,
+    outputDocumentThreshold: raw.outputDocumentThreshold ?? 8000,
+    embeddingProvider: raw.embeddingProvider ?? "hash",
+    embeddingModel: raw.embeddingModel,
+    embeddingUrl: raw.embeddingUrl,
+    embeddingApiKey: raw.embeddingApiKey,
+    contextBudgetTokens: raw.contextBudgetTokens ?? 1200,
+    memoryConsolidationIntervalMs: raw.memoryConsolidationIntervalMs ?? 21_600_000,
     logLevel: raw.logLevel ?? "info",
   };
 }
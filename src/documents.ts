@@ -0,0 +1,150 @@
+/**
+ * Documents - Decide when output goes to Telegram as a file instead of messages
+ *
+ * Long Claude output, diffs and generated artifacts are uploaded as documents
+ * (.md, .patch, .html) with a short inline summary, instead of being split into
+ * many 4000-character messages. Also resolves the project files /get may send.
+ */
+
+import { realpathSync, statSync } from "node:fs";
+import { basename, isAbsolute, relative, resolve, sep } from "node:path";
+import { truncateText } from "./utils.js";
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024; // Telegram bot upload limit
+const SUMMARY_LENGTH = 600;
+const LARGE_DIFF_LINES = 30; // Smaller diffs stay readable inline
+
+// Files /get refuses to send even inside the project
+const SECRET_FILE_PATTERNS = [
+  /^\.env(\..*)?$/i,
+  /\.(pem|key|p12|pfx|keystore|jks)$/i,
+  /^id_(rsa|dsa|ecdsa|ed25519)$/i,
+  /^\.npmrc$/i,
+  /^\.netrc$/i,
+  /^credentials(\.json)?$/i,
+];
+
+/**
+ * An in-memory file ready to upload
+ */
+export interface OutgoingDocument {
+  fileName: string;
+  content: Buffer;
+  contentType: string;
+  summary: string;  // Short inline caption (plain text)
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  md: "text/markdown",
+  patch: "text/x-diff",
+  html: "text/html",
+  json: "application/json",
+  txt: "text/plain",
+};
+
+/**
+ * Build a document from text, with a summary taken from its start
+ */
+export function textDocument(fileName: string, text: string, summary?: string): OutgoingDocument {
+  const extension = fileName.split(".").pop() ?? "txt";
+  return {
+    fileName,
+    content: Buffer.from(text, "utf-8"),
+    contentType: CONTENT_TYPES[extension] ?? "text/plain",
+    summary: summary ?? summarizeText(text),
+  };
+}
+
+/**
+ * Whether output is too long to read comfortably as chat messages
+ */
+export function shouldSendAsDocument(text: string, threshold: number): boolean {
+  return threshold > 0 && text.length > threshold;
+}
+
+/**
+ * Pull unified diffs out of Claude output: ```diff/```patch blocks, or the whole
+ * text when it is a raw diff. Returns null when there is no diff.
+ */
+export function extractDiff(text: string): string | null {
+  const fenced = [...text.matchAll(/```(?:diff|patch)\n([\s\S]*?)```/g)].map((match) => match[1]);
+  if (fenced.length > 0) {
+    return fenced.join("\n");
+  }
+
+  const start = text.search(/^(diff --git |--- (a\/|\/dev\/null))/m);
+  if (start !== -1 && /^\+\+\+ /m.test(text) && /^@@ /m.test(text)) {
+    return text.slice(start);
+  }
+  return null;
+}
+
+/**
+ * Whether a diff is big enough to be worth a .patch file
+ */
+export function isLargeDiff(diff: string): boolean {
+  return diff.split("\n").length > LARGE_DIFF_LINES;
+}
+
+/**
+ * First lines of a text, for a caption
+ */
+export function summarizeText(text: string, maxLength = SUMMARY_LENGTH): string {
+  const trimmed = text.trim();
+  const lines = trimmed.split("\n").slice(0, 12).join("\n");
+  return truncateText(lines, maxLength);
+}
+
+/**
+ * File name for an artifact, e.g. "claude-output-2024-01-31T10-00.md"
+ */
+export function artifactFileName(prefix: string, extension: string): string {
+  const stamp = new Date().toISOString().slice(0, 16).replace(/:/g, "-");
+  const safePrefix = prefix.replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "output";
+  return `${safePrefix}-${stamp}.${extension}`;
+}
+
+/**
+ * Resolve a path requested by /get to a file inside the project
+ * Rejects paths that escape the project (including through symlinks), git internals,
+ * likely secrets, directories and files too large to upload.
+ */
+export function resolveProjectFile(
+  projectPath: string,
+  requested: string
+): { path: string; relativePath: string; size: number } | { error: string } {
+  const cleaned = requested.trim().replace(/^["']|["']$/g, "");
+  if (!cleaned) {
+    return { error: "No file given." };
+  }
+
+  let root: string;
+  let target: string;
+  try {
+    root = realpathSync(projectPath);
+    target = realpathSync(resolve(projectPath, cleaned));
+  } catch {
+    return { error: "File not found." };
+  }
+
+  const relativePath = relative(root, target);
+  if (!relativePath || relativePath.startsWith("..") || isAbsolute(relativePath)) {
+    return { error: "Only files inside the project can be fetched." };
+  }
+  if (relativePath.split(sep).includes(".git")) {
+    return { error: "Git internals can't be fetched." };
+  }
+  if (SECRET_FILE_PATTERNS.some((pattern) => pattern.test(basename(target)))) {
+    return { error: "That file looks like it holds secrets, so it won't be sent." };
+  }
+
+  const stats = statSync(target);
+  if (!stats.isFile()) {
+    return { error: "Not a file." };
+  }
+  if (stats.size > MAX_UPLOAD_BYTES) {
+    return { error: `File is too large to send (${(stats.size / (1024 * 1024)).toFixed(1)} MB, limit 50 MB).` };
+  }
+
+  return { path: target, relativePath: relativePath.split(sep).join("/"), size: stats.size };
+}
@@ -0,0 +1,551 @@
+/**
+ * Permission Bridge - Routes Claude CLI tool permission requests to Telegram
+ *
+ * Each Claude run gets a permission-prompt MCP server (permission-prompt-server.ts)
+ * that POSTs permission requests back here over loopback HTTP. Requests are first
+ * checked against the bridge policy (autoApproveReads, autoApproveSafeEdits,
+ * requireApprovalForDeletes, massChangeThreshold); anything that still needs a
+ * human is handed to the run's prompt handler and held until the user answers.
+ */
+
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from "node:http";
+import { randomBytes } from "node:crypto";
+import { existsSync, realpathSync, unlinkSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { homedir, tmpdir } from "node:os";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { AddressInfo } from "node:net";
+import type {
+  BridgeConfig,
+  PermissionDecision,
+  PermissionPromptConfig,
+  PermissionPromptRequest,
+} from "./types.js";
+import { parseRemovedPaths } from "./claude-spawner.js";
+import { generateId } from "./utils.js";
+
+const MCP_SERVER_NAME = "claude_bridge";
+const PROMPT_TOOL_NAME = `mcp__${MCP_SERVER_NAME}__approval_prompt`;
+const DEFAULT_APPROVAL_TIMEOUT_MS = 10 * 60_000; // Deny if the user doesn't answer in 10 minutes
+const MAX_REQUEST_BODY_SIZE = 1_000_000;
+
+// Tools that only read local state
+const READ_ONLY_TOOLS = new Set(["Read", "Glob", "Grep", "LS", "NotebookRead", "TodoWrite"]);
+
+// Input keys read-only tools take a path from
+const READ_PATH_KEYS = ["file_path", "notebook_path", "path"];
+
+// Tools that modify files, mapped to the input key holding the path
+const EDIT_TOOLS: Record<string, string> = {
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  Write: "file_path",
+  NotebookEdit: "notebook_path",
+};
+
+// Shell commands that only create, copy, move or remove files, approved like edits
+// (as the CLI's acceptEdits mode does). Removals still ask with requireApprovalForDeletes.
+const FILE_COMMANDS = new Set(["mkdir", "touch", "cp", "mv", "rm"]);
+
+interface PermissionRun {
+  chatId: number;
+  onPrompt: (request: PermissionPromptRequest) => void | Promise<void>;
+  autoApproveEdits: boolean;
+  editedFiles: Set<string>;
+  roots: string[];
+  mcpConfigPath: string;
+}
+
+interface PendingPermission {
+  request: PermissionPromptRequest;
+  chatId: number;
+  resolve: (decision: PermissionDecision) => void;
+  timeout: NodeJS.Timeout;
+}
+
+/**
+ * Result of checking a request against the bridge policy
+ */
+export interface PermissionVerdict {
+  verdict: "allow" | "ask";
+  reason: string;
+}
+
+/**
+ * Decide whether a tool use can be approved without asking the user
+ * Nothing is approved for paths outside the run's roots (the project directory
+ * first, relative paths resolve against it).
+ */
+export function evaluatePermission(
+  toolName: string,
+  input: Record<string, unknown>,
+  config: BridgeConfig,
+  run: { autoApproveEdits: boolean; editedFiles: Set<string>; roots: string[] }
+): PermissionVerdict {
+  if (READ_ONLY_TOOLS.has(toolName)) {
+    if (!config.autoApproveReads) {
+      return { verdict: "ask", reason: "reads project files" };
+    }
+    const paths = READ_PATH_KEYS.map((key) => input[key]).filter((value): value is string => typeof value === "string");
+    if (toolName === "Glob" && typeof input.pattern === "string") {
+      const base = globBase(input.pattern);
+      paths.push(isAbsolute(base) ? base : join(paths[0] ?? ".", base));
+    }
+    return paths.every((path) => isInsideRoots(path, run.roots))
+      ? { verdict: "allow", reason: "read-only" }
+      : { verdict: "ask", reason: "reads outside the project" };
+  }
+
+  if (toolName === "Bash") {
+    const command = typeof input.command === "string" ? input.command : "";
+    const removed = parseRemovedPaths(command);
+    if (removed.length > 0 && config.requireApprovalForDeletes) {
+      return { verdict: "ask", reason: `deletes ${removed.length} path(s)` };
+    }
+    if (run.autoApproveEdits && isFileCommand(command)) {
+      return fileCommandPaths(command).every((path) => isInsideRoots(path, run.roots))
+        ? { verdict: "allow", reason: "file command" }
+        : { verdict: "ask", reason: "changes files outside the project" };
+    }
+    return { verdict: "ask", reason: "runs a shell command" };
+  }
+
+  const pathKey = EDIT_TOOLS[toolName];
+  if (pathKey) {
+    const path = typeof input[pathKey] === "string" ? (input[pathKey] as string) : "";
+    if (!isInsideRoots(path, run.roots)) {
+      return { verdict: "ask", reason: "edits outside the project" };
+    }
+
+    const touched = run.editedFiles.has(path) ? run.editedFiles.size : run.editedFiles.size + 1;
+    if (config.requireApprovalForMassChanges && touched > config.massChangeThreshold) {
+      return { verdict: "ask", reason: `touches more than ${config.massChangeThreshold} files` };
+    }
+    return run.autoApproveEdits
+      ? { verdict: "allow", reason: "safe edit" }
+      : { verdict: "ask", reason: "edits a file" };
+  }
+
+  return { verdict: "ask", reason: "needs permission" };
+}
+
+/**
+ * Whether a shell command is a single file command (no chaining, pipes,
+ * redirects, substitutions or quoting that could hide something else)
+ */
+function isFileCommand(command: string): boolean {
+  const trimmed = command.trim();
+  if (!trimmed || /[;&|<>`$\n'"\\]/.test(trimmed)) return false;
+  return FILE_COMMANDS.has(trimmed.split(/\s+/)[0]);
+}
+
+/**
+ * Paths a file command operates on: every argument, plus values of --option=value flags
+ */
+function fileCommandPaths(command: string): string[] {
+  return command
+    .trim()
+    .split(/\s+/)
+    .slice(1)
+    .map((arg) => (arg.startsWith("-") ? arg.slice(arg.indexOf("=") + 1 || arg.length) : arg))
+    .filter((arg) => arg.length > 0);
+}
+
+/**
+ * Leading part of a glob pattern before its first wildcard segment
+ */
+function globBase(pattern: string): string {
+  const segments = pattern.split("/");
+  const wildcard = segments.findIndex((segment) => /[*?[{]/.test(segment));
+  const base = (wildcard === -1 ? segments : segments.slice(0, wildcard)).join("/");
+  return base || (pattern.startsWith("/") ? "/" : ".");
+}
+
+/**
+ * Whether a path resolves (through symlinks) to somewhere under one of the roots
+ * Relative paths resolve against the first root, the run's working directory.
+ */
+function isInsideRoots(path: string, roots: string[]): boolean {
+  if (roots.length === 0) return false;
+  if (path.startsWith("~") && path !== "~" && !path.startsWith("~/")) return false; // ~user
+
+  const expanded = path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+  const target = realPath(resolve(roots[0], expanded));
+  return roots.some((root) => {
+    const rel = relative(root, target);
+    return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+  });
+}
+
+/**
+ * Resolve symlinks in a path that may not exist yet, through its nearest existing parent
+ */
+function realPath(path: string): string {
+  const missing: string[] = [];
+  let current = path;
+  for (;;) {
+    try {
+      return join(realpathSync(current), ...missing);
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) return path;
+      missing.unshift(basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Resolve how to launch the MCP server next to this module
+ * Falls back to the TypeScript source (via tsx) when running without a build.
+ * The loader is resolved from here, since the CLI starts the server from the
+ * user's project directory where tsx is usually not installed.
+ */
+function resolveServerArgs(): string[] {
+  const jsPath = fileURLToPath(new URL("./permission-prompt-server.js", import.meta.url));
+  if (existsSync(jsPath)) {
+    return [jsPath];
+  }
+
+  const tsPath = fileURLToPath(new URL("./permission-prompt-server.ts", import.meta.url));
+  const loader = createRequire(import.meta.url).resolve("tsx");
+  return ["--import", pathToFileURL(loader).href, tsPath];
+}
+
+/**
+ * Delete a run's MCP config file, ignoring one that is already gone
+ */
+function removeFile(path: string): void {
+  try {
+    unlinkSync(path);
+  } catch {
+    // Already removed
+  }
+}
+
+/**
+ * Permission Bridge class
+ */
+export class PermissionBridge {
+  private config: BridgeConfig;
+  private approvalTimeoutMs: number;
+  private server: Server | null = null;
+  private port = 0;
+  private readonly token = randomBytes(24).toString("hex");
+  private runs = new Map<string, PermissionRun>();
+  private pending = new Map<string, PendingPermission>();
+  private startError: string | null = null;
+
+  constructor(config: BridgeConfig, options?: { approvalTimeoutMs?: number }) {
+    this.config = config;
+    this.approvalTimeoutMs = options?.approvalTimeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+  }
+
+  /**
+   * Whether Claude runs should be gated through the bridge
+   * bypassPermissions keeps the old --dangerously-skip-permissions behavior.
+   * False after a failed start, so runs fall back to the CLI's own permission mode.
+   */
+  isEnabled(): boolean {
+    return this.config.claudePermissionMode !== "bypassPermissions" && this.startError === null;
+  }
+
+  /**
+   * Why the listener could not start, or null if it did (or was not needed)
+   */
+  getStartError(): string | null {
+    return this.startError;
+  }
+
+  /**
+   * Start the loopback HTTP listener
+   * On failure the bridge disables itself before rethrowing.
+   */
+  async start(): Promise<void> {
+    if (this.server || !this.isEnabled()) return;
+
+    const server = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error) => {
+        console.error("[permission-bridge] Request handling failed:", error);
+        this.sendJson(res, 500, { behavior: "deny", message: "Permission bridge error" });
+      });
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(0, "127.0.0.1", () => resolve());
+      });
+    } catch (error) {
+      this.startError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+
+    this.server = server;
+    this.port = (server.address() as AddressInfo).port;
+    console.log(`[permission-bridge] Listening on 127.0.0.1:${this.port}`);
+  }
+
+  /**
+   * Stop the listener and deny everything still pending
+   */
+  async stop(): Promise<void> {
+    for (const id of Array.from(this.pending.keys())) {
+      this.settle(id, false, "Bot is shutting down");
+    }
+    for (const run of this.runs.values()) {
+      removeFile(run.mcpConfigPath);
+    }
+    this.runs.clear();
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Register a Claude run and get the CLI wiring for it
+   * The MCP config holds the bearer token, so it goes to a private file rather
+   * than the command line where other local users could read it.
+   * Only paths under projectPath (the run's working directory) and addDirs
+   * can be approved by policy.
+   */
+  registerRun(options: {
+    chatId: number;
+    projectPath: string;
+    addDirs?: string[];
+    onPrompt: (request: PermissionPromptRequest) => void | Promise<void>;
+  }): { runId: string; permissionPrompt: PermissionPromptConfig } {
+    if (!this.server) {
+      throw new Error("Permission bridge is not running");
+    }
+
+    const runId = generateId();
+    const mode = this.config.claudePermissionMode;
+    const mcpConfigPath = join(tmpdir(), `claude-bridge-mcp-${runId}.json`);
+
+    const mcpConfig = {
+      mcpServers: {
+        [MCP_SERVER_NAME]: {
+          type: "stdio",
+          command: process.execPath,
+          args: resolveServerArgs(),
+          env: {
+            BRIDGE_PERMISSION_URL: `http://127.0.0.1:${this.port}/permission`,
+            BRIDGE_PERMISSION_TOKEN: this.token,
+            BRIDGE_RUN_ID: runId,
+          },
+        },
+      },
+    };
+    writeFileSync(mcpConfigPath, JSON.stringify(mcpConfig), { mode: 0o600, flag: "wx" });
+
+    this.runs.set(runId, {
+      chatId: options.chatId,
+      onPrompt: options.onPrompt,
+      // acceptEdits is enforced here rather than by the CLI so mass changes can still be gated
+      autoApproveEdits: mode === "acceptEdits" || this.config.autoApproveSafeEdits,
+      editedFiles: new Set(),
+      roots: [options.projectPath, ...(options.addDirs ?? [])].map((dir) => realPath(resolve(dir))),
+      mcpConfigPath,
+    });
+
+    return {
+      runId,
+      permissionPrompt: {
+        permissionMode: mode === "acceptEdits" ? "default" : mode,
+        mcpConfigPath,
+        toolName: PROMPT_TOOL_NAME,
+        // Keep Claude from giving up on the MCP call before the user does
+        env: { MCP_TOOL_TIMEOUT: String(this.approvalTimeoutMs + 60_000) },
+      },
+    };
+  }
+
+  /**
+   * Unregister a finished run, denying anything it left pending
+   */
+  unregisterRun(runId: string): void {
+    for (const [id, entry] of this.pending.entries()) {
+      if (entry.request.runId === runId) {
+        this.settle(id, false, "Claude run finished");
+      }
+    }
+    const run = this.runs.get(runId);
+    if (run) {
+      removeFile(run.mcpConfigPath);
+      this.runs.delete(runId);
+    }
+  }
+
+  /**
+   * Answer a pending request from a chat
+   * Only the chat whose run raised the request can answer it.
+   * @returns The resolved request, or null if it is not pending for this chat
+   */
+  resolve(requestId: string, chatId: number, approved: boolean, message?: string): PermissionPromptRequest | null {
+    const entry = this.pending.get(requestId);
+    if (!entry || entry.chatId !== chatId || this.runs.get(entry.request.runId)?.chatId !== chatId) {
+      return null;
+    }
+    return this.settle(requestId, approved, message);
+  }
+
+  /**
+   * Deny every pending request for a chat (e.g. on /cancel)
+   */
+  denyAllForChat(chatId: number, message?: string): number {
+    let denied = 0;
+    for (const [id, entry] of this.pending.entries()) {
+      if (entry.chatId === chatId) {
+        this.settle(id, false, message);
+        denied++;
+      }
+    }
+    return denied;
+  }
+
+  /**
+   * Get pending requests for a chat, oldest first
+   */
+  getPendingForChat(chatId: number): PermissionPromptRequest[] {
+    return Array.from(this.pending.values())
+      .filter((entry) => entry.chatId === chatId)
+      .map((entry) => entry.request)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  // ===========================================
+  // Request Handling
+  // ===========================================
+
+  /**
+   * Send the answer for a pending request back to its run
+   */
+  private settle(requestId: string, approved: boolean, message?: string): PermissionPromptRequest | null {
+    const entry = this.pending.get(requestId);
+    if (!entry) return null;
+
+    clearTimeout(entry.timeout);
+    this.pending.delete(requestId);
+
+    if (approved) {
+      this.recordEdit(entry.request);
+      entry.resolve({ behavior: "allow", updatedInput: entry.request.input });
+    } else {
+      entry.resolve({ behavior: "deny", message: message ?? "The user denied this action." });
+    }
+
+    return entry.request;
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== "POST" || req.url !== "/permission") {
+      this.sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    if (req.headers.authorization !== `Bearer ${this.token}`) {
+      this.sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    let payload: { runId?: string; toolName?: string; toolUseId?: string; input?: Record<string, unknown> };
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      this.sendJson(res, 400, { behavior: "deny", message: "Malformed permission request" });
+      return;
+    }
+
+    const decision = await this.handlePermissionRequest(
+      payload.runId ?? "",
+      payload.toolName ?? "unknown",
+      payload.input ?? {},
+      payload.toolUseId
+    );
+    this.sendJson(res, 200, decision);
+  }
+
+  private async handlePermissionRequest(
+    runId: string,
+    toolName: string,
+    input: Record<string, unknown>,
+    toolUseId?: string
+  ): Promise<PermissionDecision> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return { behavior: "deny", message: "Unknown or finished Claude run" };
+    }
+
+    const { verdict, reason } = evaluatePermission(toolName, input, this.config, run);
+    const request: PermissionPromptRequest = {
+      id: generateId(),
+      runId,
+      toolName,
+      toolUseId,
+      input,
+      reason,
+      timestamp: Date.now(),
+    };
+
+    if (verdict === "allow") {
+      this.recordEdit(request);
+      return { behavior: "allow", updatedInput: input };
+    }
+
+    const decision = new Promise<PermissionDecision>((resolve) => {
+      const timeout = setTimeout(() => {
+        this.settle(request.id, false, "No response from the user - request timed out.");
+      }, this.approvalTimeoutMs);
+
+      this.pending.set(request.id, { request, chatId: run.chatId, resolve, timeout });
+    });
+
+    try {
+      await run.onPrompt(request);
+    } catch (error) {
+      console.error("[permission-bridge] Failed to deliver prompt:", error);
+      this.settle(request.id, false, "Could not reach the user for approval.");
+    }
+
+    return decision;
+  }
+
+  /**
+   * Track files touched by a run for mass-change detection
+   */
+  private recordEdit(request: PermissionPromptRequest): void {
+    const pathKey = EDIT_TOOLS[request.toolName];
+    const path = pathKey ? request.input[pathKey] : undefined;
+    if (typeof path === "string") {
+      this.runs.get(request.runId)?.editedFiles.add(path);
+    }
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let data = "";
+      req.setEncoding("utf8");
+      req.on("data", (chunk: string) => {
+        data += chunk;
+        if (data.length > MAX_REQUEST_BODY_SIZE) {
+          reject(new Error("Permission request too large"));
+          req.destroy();
+        }
+      });
+      req.on("end", () => resolve(data));
+      req.on("error", reject);
+    });
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Permission Prompt MCP Server - Spawned by Claude CLI via --mcp-config
+ *
+ * Exposes a single `approval_prompt` tool that Claude calls (through
+ * --permission-prompt-tool) whenever a tool use needs permission. Each call is
+ * forwarded to the bot's PermissionBridge over loopback HTTP, and the user's
+ * answer is handed back to Claude.
+ *
+ * Speaks newline-delimited JSON-RPC 2.0 on stdin/stdout (MCP stdio transport).
+ * Nothing else may be written to stdout - diagnostics go to stderr.
+ */
+
+import { request } from "node:http";
+import { createInterface } from "node:readline";
+
+const BRIDGE_URL = process.env.BRIDGE_PERMISSION_URL ?? "";
+const BRIDGE_TOKEN = process.env.BRIDGE_PERMISSION_TOKEN ?? "";
+const RUN_ID = process.env.BRIDGE_RUN_ID ?? "";
+
+const TOOL_NAME = "approval_prompt";
+const DEFAULT_PROTOCOL_VERSION = "2024-11-05";
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Write a JSON-RPC message to stdout
+ */
+function send(message: Record<string, unknown>): void {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+}
+
+/**
+ * Ask the bridge for a decision
+ * Uses node:http rather than fetch - fetch's default header timeout (5 min)
+ * is shorter than a user may take to answer on their phone.
+ */
+function askBridge(payload: Record<string, unknown>): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const body = JSON.stringify(payload);
+    const req = request(
+      BRIDGE_URL,
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "content-length": Buffer.byteLength(body),
+          authorization: `Bearer ${BRIDGE_TOKEN}`,
+        },
+      },
+      (res) => {
+        let data = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (data += chunk));
+        res.on("end", () => {
+          try {
+            resolve(JSON.parse(data));
+          } catch {
+            reject(new Error(`Invalid bridge response (HTTP ${res.statusCode})`));
+          }
+        });
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Handle a tools/call for approval_prompt
+ */
+async function handleApprovalPrompt(args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const input = isRecord(args.input) ? args.input : {};
+
+  try {
+    return await askBridge({
+      runId: RUN_ID,
+      toolName: String(args.tool_name ?? "unknown"),
+      toolUseId: typeof args.tool_use_id === "string" ? args.tool_use_id : undefined,
+      input,
+    });
+  } catch (error) {
+    console.error("[permission-prompt-server] Bridge request failed:", error);
+    return {
+      behavior: "deny",
+      message: "Permission bridge unavailable - request denied.",
+    };
+  }
+}
+
+/**
+ * Dispatch a single JSON-RPC message
+ */
+async function handleMessage(message: JsonRpcMessage): Promise<void> {
+  // Notifications carry no id and need no response
+  if (message.id === undefined || message.id === null) return;
+
+  switch (message.method) {
+    case "initialize":
+      send({
+        id: message.id,
+        result: {
+          protocolVersion: typeof message.params?.protocolVersion === "string"
+            ? message.params.protocolVersion
+            : DEFAULT_PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: "claude-bridge-permissions", version: "0.1.0" },
+        },
+      });
+      return;
+
+    case "ping":
+      send({ id: message.id, result: {} });
+      return;
+
+    case "tools/list":
+      send({
+        id: message.id,
+        result: {
+          tools: [
+            {
+              name: TOOL_NAME,
+              description: "Ask the Telegram user to approve or deny a tool use",
+              inputSchema: {
+                type: "object",
+                properties: {
+                  tool_name: { type: "string" },
+                  input: { type: "object" },
+                  tool_use_id: { type: "string" },
+                },
+                required: ["tool_name", "input"],
+              },
+            },
+          ],
+        },
+      });
+      return;
+
+    case "tools/call": {
+      if (message.params?.name !== TOOL_NAME) {
+        send({
+          id: message.id,
+          error: { code: -32602, message: `Unknown tool: ${String(message.params?.name)}` },
+        });
+        return;
+      }
+
+      const args = message.params?.arguments;
+      const decision = await handleApprovalPrompt(isRecord(args) ? args : {});
+      send({
+        id: message.id,
+        result: { content: [{ type: "text", text: JSON.stringify(decision) }] },
+      });
+      return;
+    }
+
+    default:
+      send({
+        id: message.id,
+        error: { code: -32601, message: `Method not found: ${message.method}` },
+      });
+  }
+}
+
+const rl = createInterface({ input: process.stdin });
+
+rl.on("line", (line) => {
+  if (!line.trim()) return;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    send({ id: null, error: { code: -32700, message: "Parse error" } });
+    return;
+  }
+  if (!isRecord(parsed)) {
+    send({ id: null, error: { code: -32600, message: "Invalid request" } });
+    return;
+  }
+
+  const message: JsonRpcMessage = {
+    jsonrpc: "2.0",
+    id: typeof parsed.id === "number" || typeof parsed.id === "string" ? parsed.id : undefined,
+    method: typeof parsed.method === "string" ? parsed.method : undefined,
+    params: isRecord(parsed.params) ? parsed.params : undefined,
+  };
+
+  handleMessage(message).catch((error) => {
+    console.error("[permission-prompt-server] Failed to handle message:", error);
+  });
+});
+
+rl.on("close", () => process.exit(0));
@@ -3,17 +3,27 @@
  */
 
 import type {
+  ActiveClaudeSession,
   ChatSession,
   ClaudeProcess,
+  ClaudeSessionRef,
   ConversationMessage,
   Project,
-  EditApprovalRequest
+  EditApprovalRequest,
+  QueuedPrompt,
+  Workspace,
 } from "./types.js";
 import { killClaudeProcess } from "./claude-spawner.js";
 import { readFile, writeFile, readdir, unlink } from "node:fs/promises";
 import { existsSync, mkdirSync } from "node:fs";
 import { join } from "node:path";
 
+// Native Claude sessions remembered per chat (across all projects)
+const MAX_CLAUDE_SESSIONS = 50;
+const MAX_HISTORY = 100; // Conversation messages kept per workspace
+const MAX_WORKSPACE_MESSAGE_IDS = 200; // Bot messages remembered per workspace for reply routing
+const MAX_QUEUED_PROMPTS = 20; // Prompts a chat can queue while its workspaces are busy
+
 /**
  * Session Manager class
  */
@@ -56,11 +66,14 @@ export class SessionManager {
         firstName: userInfo?.firstName,
         lastName: userInfo?.lastName,
         currentProject: null,
-        claudeProcess: null,
-        conversationHistory: [],
+        activeWorkspace: null,
+        workspaces: {},
         pendingApproval: null,
         status: "idle",
         lastActivity: Date.now(),
+        claudeSessions: [],
+        activeClaudeSessions: {},
+        promptQueue: [],
       };
       this.sessions.set(chatId, session);
     }
@@ -84,36 +97,22 @@ export class SessionManager {
 
   /**
    * Set the current project for a session
+   * Activates (creating if needed) the project's workspace; other workspaces keep running.
    */
   setSessionProject(chatId: number, project: Project | null): void {
     const session = this.sessions.get(chatId);
     if (!session) return;
 
-    // Remove from old project's session set
-    if (session.currentProject) {
-      const oldSet = this.projectSessions.get(session.currentProject.name);
-      if (oldSet) {
-        oldSet.delete(chatId);
-        if (oldSet.size === 0) {
-          this.projectSessions.delete(session.currentProject.name);
-        }
-      }
+    if (project) {
+      const workspace = this.getOrCreateWorkspace(chatId, project);
+      session.activeWorkspace = workspace?.name ?? null;
+    } else {
+      session.activeWorkspace = null;
     }
 
-    // Update session
     session.currentProject = project;
     session.lastActivity = Date.now();
 
-    // Add to new project's session set
-    if (project) {
-      let newSet = this.projectSessions.get(project.name);
-      if (!newSet) {
-        newSet = new Set();
-        this.projectSessions.set(project.name, newSet);
-      }
-      newSet.add(chatId);
-    }
-
     // Auto-save
     if (this.autoSaveEnabled) {
       this.saveSession(chatId).catch(err => console.error('Auto-save failed:', err));
@@ -128,32 +127,136 @@ export class SessionManager {
     return chatSet ? Array.from(chatSet) : [];
   }
 
+  // ===========================================
+  // Workspaces
+  // ===========================================
+
   /**
-   * Set the Claude process for a session
+   * Get or create the workspace for a project
    */
-  setClaudeProcess(chatId: number, process: ClaudeProcess | null): void {
+  getOrCreateWorkspace(chatId: number, project: Project): Workspace | undefined {
     const session = this.sessions.get(chatId);
-    if (!session) return;
+    if (!session) return undefined;
+
+    let workspace = session.workspaces[project.name];
+    if (!workspace) {
+      workspace = {
+        name: project.name,
+        project,
+        claudeProcess: null,
+        conversationHistory: [],
+        status: "idle",
+        lastActivity: Date.now(),
+        messageIds: [],
+      };
+      session.workspaces[project.name] = workspace;
+      this.trackProjectChat(project.name, chatId);
+    } else {
+      // Pick up rescanned project details (branch, status)
+      workspace.project = project;
+    }
+
+    return workspace;
+  }
+
+  /**
+   * Get a workspace by name (case-insensitive); defaults to the active workspace
+   */
+  getWorkspace(chatId: number, name?: string | null): Workspace | undefined {
+    const session = this.sessions.get(chatId);
+    if (!session) return undefined;
+
+    const target = name ?? session.activeWorkspace;
+    if (!target) return undefined;
+
+    return session.workspaces[target] ??
+      Object.values(session.workspaces).find((w) => w.name.toLowerCase() === target.toLowerCase());
+  }
+
+  /**
+   * Get all workspaces for a chat, most recently active first
+   */
+  getWorkspaces(chatId: number): Workspace[] {
+    const session = this.sessions.get(chatId);
+    if (!session) return [];
+    return Object.values(session.workspaces).sort((a, b) => b.lastActivity - a.lastActivity);
+  }
+
+  /**
+   * Remember a bot message as belonging to a workspace, so replies route back to it
+   */
+  trackWorkspaceMessage(chatId: number, workspaceName: string, messageId: number): void {
+    const workspace = this.getWorkspace(chatId, workspaceName);
+    if (!workspace) return;
+
+    workspace.messageIds.push(messageId);
+    if (workspace.messageIds.length > MAX_WORKSPACE_MESSAGE_IDS) {
+      workspace.messageIds = workspace.messageIds.slice(-MAX_WORKSPACE_MESSAGE_IDS);
+    }
+  }
+
+  /**
+   * Find the workspace a message (usually the reply-to target) belongs to
+   */
+  findWorkspaceByMessage(chatId: number, messageId: number): Workspace | undefined {
+    const session = this.sessions.get(chatId);
+    if (!session) return undefined;
+    return Object.values(session.workspaces).find((w) => w.messageIds.includes(messageId));
+  }
+
+  /**
+   * Close a workspace (its Claude process must not be running)
+   */
+  removeWorkspace(chatId: number, workspaceName: string): boolean {
+    const session = this.sessions.get(chatId);
+    const workspace = this.getWorkspace(chatId, workspaceName);
+    if (!session || !workspace || workspace.claudeProcess?.status === "running") return false;
+
+    delete session.workspaces[workspace.name];
+    session.promptQueue = session.promptQueue.filter((item) => item.workspaceName !== workspace.name);
+    this.untrackProjectChat(workspace.project.name, chatId);
+
+    if (session.activeWorkspace === workspace.name) {
+      session.activeWorkspace = null;
+      session.currentProject = null;
+    }
+
+    if (this.autoSaveEnabled) {
+      this.saveSession(chatId).catch(err => console.error('Auto-save failed:', err));
+    }
+    return true;
+  }
+
+  /**
+   * Set the Claude process for a workspace (defaults to the active workspace)
+   */
+  setClaudeProcess(chatId: number, process: ClaudeProcess | null, workspaceName?: string): void {
+    const session = this.sessions.get(chatId);
+    const workspace = this.getWorkspace(chatId, workspaceName);
+    if (!session || !workspace) return;
 
-    session.claudeProcess = process;
-    session.status = process ? "processing" : "idle";
+    workspace.claudeProcess = process;
+    workspace.status = process ? "processing" : "idle";
+    workspace.lastActivity = Date.now();
     session.lastActivity = Date.now();
+    this.refreshSessionStatus(session);
   }
 
   /**
-   * Add a message to conversation history
+   * Add a message to a workspace's conversation history (defaults to the active workspace)
    */
-  addToConversation(chatId: number, message: ConversationMessage): void {
+  addToConversation(chatId: number, message: ConversationMessage, workspaceName?: string): void {
     const session = this.sessions.get(chatId);
-    if (!session) return;
+    const workspace = this.getWorkspace(chatId, workspaceName);
+    if (!session || !workspace) return;
 
-    session.conversationHistory.push(message);
+    workspace.conversationHistory.push(message);
+    workspace.lastActivity = Date.now();
     session.lastActivity = Date.now();
 
     // Limit history size
-    const maxHistory = 100;
-    if (session.conversationHistory.length > maxHistory) {
-      session.conversationHistory = session.conversationHistory.slice(-maxHistory);
+    if (workspace.conversationHistory.length > MAX_HISTORY) {
+      workspace.conversationHistory = workspace.conversationHistory.slice(-MAX_HISTORY);
     }
 
     // Auto-save (debounced - only save after every few messages would be better, but simple for now)
@@ -163,23 +266,279 @@ export class SessionManager {
   }
 
   /**
-   * Get conversation history for a session
+   * Get conversation history for a workspace (defaults to the active workspace)
+   */
+  getConversationHistory(chatId: number, workspaceName?: string): ConversationMessage[] {
+    return this.getWorkspace(chatId, workspaceName)?.conversationHistory ?? [];
+  }
+
+  /**
+   * Clear conversation history for a workspace (defaults to the active workspace)
+   */
+  clearConversationHistory(chatId: number, workspaceName?: string): void {
+    const workspace = this.getWorkspace(chatId, workspaceName);
+    if (workspace) {
+      workspace.conversationHistory = [];
+    }
+  }
+
+  /**
+   * Recompute the aggregate chat status from its workspaces
+   */
+  private refreshSessionStatus(session: ChatSession): void {
+    if (session.pendingApproval) {
+      session.status = "awaiting_approval";
+    } else {
+      session.status = Object.values(session.workspaces).some((w) => w.status === "processing")
+        ? "processing"
+        : "idle";
+    }
+  }
+
+  private trackProjectChat(projectName: string, chatId: number): void {
+    let chatSet = this.projectSessions.get(projectName);
+    if (!chatSet) {
+      chatSet = new Set();
+      this.projectSessions.set(projectName, chatSet);
+    }
+    chatSet.add(chatId);
+  }
+
+  private untrackProjectChat(projectName: string, chatId: number): void {
+    const chatSet = this.projectSessions.get(projectName);
+    if (chatSet) {
+      chatSet.delete(chatId);
+      if (chatSet.size === 0) {
+        this.projectSessions.delete(projectName);
+      }
+    }
+  }
+
+  // ===========================================
+  // Prompt Queue
+  // ===========================================
+
+  /**
+   * Queue a prompt for a busy workspace
+   * Returns null when the chat's queue is full.
+   */
+  enqueuePrompt(chatId: number, workspaceName: string, prompt: string, attachmentDirs?: string[]): QueuedPrompt | null {
+    const session = this.sessions.get(chatId);
+    if (!session || session.promptQueue.length >= MAX_QUEUED_PROMPTS) return null;
+
+    const item: QueuedPrompt = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      workspaceName,
+      prompt,
+      queuedAt: Date.now(),
+      attachmentDirs,
+    };
+    session.promptQueue.push(item);
+    this.saveQueue(chatId);
+    return item;
+  }
+
+  /**
+   * Get a chat's queued prompts, oldest first (optionally only one workspace's)
+   */
+  getPromptQueue(chatId: number, workspaceName?: string): QueuedPrompt[] {
+    const queue = this.sessions.get(chatId)?.promptQueue ?? [];
+    return workspaceName ? queue.filter((item) => item.workspaceName === workspaceName) : [...queue];
+  }
+
+  /**
+   * Get a queued prompt by ID
+   */
+  getQueuedPrompt(chatId: number, id: string): QueuedPrompt | undefined {
+    return this.sessions.get(chatId)?.promptQueue.find((item) => item.id === id);
+  }
+
+  /**
+   * 1-based position of a queued prompt within its workspace's queue (0 if not queued)
+   */
+  getQueuePosition(chatId: number, id: string): number {
+    const item = this.getQueuedPrompt(chatId, id);
+    if (!item) return 0;
+    return this.getPromptQueue(chatId, item.workspaceName).findIndex((q) => q.id === id) + 1;
+  }
+
+  /**
+   * Remember the message showing a queued prompt's position
+   */
+  setQueuedMessageId(chatId: number, id: string, messageId: number): void {
+    const item = this.getQueuedPrompt(chatId, id);
+    if (item) {
+      item.messageId = messageId;
+      this.saveQueue(chatId);
+    }
+  }
+
+  /**
+   * Replace the text of a queued prompt
+   */
+  updateQueuedPrompt(chatId: number, id: string, prompt: string): QueuedPrompt | null {
+    const item = this.getQueuedPrompt(chatId, id);
+    if (!item) return null;
+
+    item.prompt = prompt;
+    this.saveQueue(chatId);
+    return item;
+  }
+
+  /**
+   * Drop a queued prompt
+   */
+  removeQueuedPrompt(chatId: number, id: string): QueuedPrompt | null {
+    const session = this.sessions.get(chatId);
+    const index = session?.promptQueue.findIndex((item) => item.id === id) ?? -1;
+    if (!session || index === -1) return null;
+
+    const [removed] = session.promptQueue.splice(index, 1);
+    this.saveQueue(chatId);
+    return removed;
+  }
+
+  /**
+   * Merge a queued prompt into the one ahead of it in the same workspace, so both go in one run
+   * Returns the prompt merged into, or null when nothing is ahead of it.
+   */
+  mergeQueuedPrompt(chatId: number, id: string): QueuedPrompt | null {
+    const item = this.getQueuedPrompt(chatId, id);
+    if (!item) return null;
+
+    const workspaceQueue = this.getPromptQueue(chatId, item.workspaceName);
+    const target = workspaceQueue[workspaceQueue.findIndex((q) => q.id === id) - 1];
+    if (!target) return null;
+
+    target.prompt = `${target.prompt}\n\n${item.prompt}`;
+    if (item.attachmentDirs?.length) {
+      target.attachmentDirs = [...(target.attachmentDirs ?? []), ...item.attachmentDirs];
+    }
+    this.removeQueuedPrompt(chatId, id);
+    return target;
+  }
+
+  /**
+   * Take the next queued prompt for a workspace
+   */
+  dequeuePrompt(chatId: number, workspaceName: string): QueuedPrompt | null {
+    const next = this.getPromptQueue(chatId, workspaceName)[0];
+    return next ? this.removeQueuedPrompt(chatId, next.id) : null;
+  }
+
+  /**
+   * Drop every queued prompt for a chat (optionally only one workspace's)
+   */
+  clearPromptQueue(chatId: number, workspaceName?: string): QueuedPrompt[] {
+    const session = this.sessions.get(chatId);
+    if (!session) return [];
+
+    const removed = session.promptQueue.filter((item) => !workspaceName || item.workspaceName === workspaceName);
+    session.promptQueue = session.promptQueue.filter((item) => !removed.includes(item));
+    this.saveQueue(chatId);
+    return removed;
+  }
+
+  private saveQueue(chatId: number): void {
+    if (this.autoSaveEnabled) {
+      this.saveSession(chatId).catch(err => console.error('Auto-save failed:', err));
+    }
+  }
+
+  // ===========================================
+  // Native Claude Sessions
+  // ===========================================
+
+  /**
+   * Get the Claude session the next run for a project should resume
+   */
+  getActiveClaudeSession(chatId: number, projectName: string): ActiveClaudeSession | null {
+    return this.sessions.get(chatId)?.activeClaudeSessions[projectName] ?? null;
+  }
+
+  /**
+   * Record the session id a run reported and make it the active one
+   */
+  recordClaudeSession(
+    chatId: number,
+    projectName: string,
+    sessionId: string,
+    prompt: string
+  ): void {
+    const session = this.sessions.get(chatId);
+    if (!session) return;
+
+    const previous = session.activeClaudeSessions[projectName];
+    const now = Date.now();
+    const existing = session.claudeSessions.find((s) => s.sessionId === sessionId);
+
+    if (existing) {
+      existing.lastUsedAt = now;
+      existing.runCount++;
+    } else {
+      session.claudeSessions.unshift({
+        sessionId,
+        projectName,
+        title: prompt.replace(/\s+/g, " ").trim().slice(0, 80),
+        createdAt: now,
+        lastUsedAt: now,
+        runCount: 1,
+        forkedFrom: previous?.fork ? previous.sessionId : undefined,
+      });
+    }
+
+    // Most recently used first
+    session.claudeSessions.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    session.claudeSessions = session.claudeSessions.slice(0, MAX_CLAUDE_SESSIONS);
+    session.activeClaudeSessions[projectName] = { sessionId, fork: false };
+
+    if (this.autoSaveEnabled) {
+      this.saveSession(chatId).catch(err => console.error('Auto-save failed:', err));
+    }
+  }
+
+  /**
+   * Continue a known session on the next run
+   * @param fork - Branch into a new session instead of continuing the original
    */
-  getConversationHistory(chatId: number): ConversationMessage[] {
+  setActiveClaudeSession(
+    chatId: number,
+    projectName: string,
+    sessionId: string,
+    fork = false
+  ): void {
     const session = this.sessions.get(chatId);
-    return session?.conversationHistory ?? [];
+    if (!session) return;
+
+    session.activeClaudeSessions[projectName] = { sessionId, fork };
+
+    if (this.autoSaveEnabled) {
+      this.saveSession(chatId).catch(err => console.error('Auto-save failed:', err));
+    }
   }
 
   /**
-   * Clear conversation history for a session
+   * Start the next run for a project in a fresh session
    */
-  clearConversationHistory(chatId: number): void {
+  resetClaudeSession(chatId: number, projectName: string): void {
     const session = this.sessions.get(chatId);
-    if (session) {
-      session.conversationHistory = [];
+    if (!session) return;
+
+    delete session.activeClaudeSessions[projectName];
+
+    if (this.autoSaveEnabled) {
+      this.saveSession(chatId).catch(err => console.error('Auto-save failed:', err));
     }
   }
 
+  /**
+   * List known Claude sessions, optionally for one project
+   */
+  getClaudeSessions(chatId: number, projectName?: string): ClaudeSessionRef[] {
+    const sessions = this.sessions.get(chatId)?.claudeSessions ?? [];
+    return projectName ? sessions.filter((s) => s.projectName === projectName) : sessions;
+  }
+
   /**
    * Set pending approval for a session
    */
@@ -191,7 +550,8 @@ export class SessionManager {
     if (!session) return;
 
     session.pendingApproval = approval;
-    session.status = approval ? "awaiting_approval" : "idle";
+    // A permission prompt pauses a running process; once answered it's processing again
+    this.refreshSessionStatus(session);
   }
 
   /**
@@ -237,20 +597,14 @@ export class SessionManager {
     const session = this.sessions.get(chatId);
     if (!session) return;
 
-    // Kill Claude process if running
-    if (session.claudeProcess) {
-      killClaudeProcess(session.claudeProcess);
-    }
-
-    // Remove from project sessions
-    if (session.currentProject) {
-      const projectSet = this.projectSessions.get(session.currentProject.name);
-      if (projectSet) {
-        projectSet.delete(chatId);
-        if (projectSet.size === 0) {
-          this.projectSessions.delete(session.currentProject.name);
-        }
+    for (const workspace of Object.values(session.workspaces)) {
+      // Kill Claude process if running
+      if (workspace.claudeProcess) {
+        killClaudeProcess(workspace.claudeProcess);
       }
+
+      // Remove from project sessions
+      this.untrackProjectChat(workspace.project.name, chatId);
     }
 
     this.sessions.delete(chatId);
@@ -266,8 +620,10 @@ export class SessionManager {
     const processes: ClaudeProcess[] = [];
 
     for (const session of this.sessions.values()) {
-      if (session.claudeProcess && session.claudeProcess.status === "running") {
-        processes.push(session.claudeProcess);
+      for (const workspace of Object.values(session.workspaces)) {
+        if (workspace.claudeProcess && workspace.claudeProcess.status === "running") {
+          processes.push(workspace.claudeProcess);
+        }
       }
     }
 
@@ -279,8 +635,7 @@ export class SessionManager {
    */
   getActiveSessionCount(projectName: string): number {
     return this.getChatsUsingProject(projectName).filter((chatId) => {
-      const session = this.sessions.get(chatId);
-      return session?.status === "processing" || session?.status === "awaiting_approval";
+      return this.sessions.get(chatId)?.workspaces[projectName]?.status === "processing";
     }).length;
   }
 
@@ -296,7 +651,8 @@ export class SessionManager {
       if (
         now - session.lastActivity > timeoutMs &&
         session.status === "idle" &&
-        !session.claudeProcess
+        session.promptQueue.length === 0 &&
+        !Object.values(session.workspaces).some((w) => w.claudeProcess)
       ) {
         removedChatIds.push(chatId);
         await this.removeSession(chatId);
@@ -351,9 +707,18 @@ export class SessionManager {
       firstName: session.firstName,
       lastName: session.lastName,
       currentProject: session.currentProject,
-      conversationHistory: session.conversationHistory,
+      activeWorkspace: session.activeWorkspace,
+      workspaces: Object.fromEntries(
+        Object.entries(session.workspaces).map(([name, workspace]) => [
+          name,
+          { ...workspace, claudeProcess: null, status: "idle" },
+        ])
+      ),
       status: session.status === "processing" ? "idle" : session.status, // Reset processing status on reload
       lastActivity: session.lastActivity,
+      claudeSessions: session.claudeSessions,
+      activeClaudeSessions: session.activeClaudeSessions,
+      promptQueue: session.promptQueue,
       savedAt: Date.now(),
     };
 
@@ -382,11 +747,38 @@ export class SessionManager {
         firstName?: string;
         lastName?: string;
         currentProject: Project | null;
-        conversationHistory: ConversationMessage[];
+        activeWorkspace?: string | null;
+        workspaces?: Record<string, Workspace>;
+        conversationHistory?: ConversationMessage[]; // Sessions saved before workspaces existed
         status: ChatSession["status"];
         lastActivity: number;
+        claudeSessions?: ClaudeSessionRef[];
+        activeClaudeSessions?: Record<string, ActiveClaudeSession>;
+        promptQueue?: QueuedPrompt[];
       };
 
+      // Reconstruct workspaces, migrating the single-project layout if needed
+      const workspaces: Record<string, Workspace> = {};
+      for (const [name, workspace] of Object.entries(data.workspaces ?? {})) {
+        workspaces[name] = {
+          ...workspace,
+          claudeProcess: null, // Never restore live processes
+          status: "idle",
+          messageIds: workspace.messageIds ?? [],
+        };
+      }
+      if (!data.workspaces && data.currentProject) {
+        workspaces[data.currentProject.name] = {
+          name: data.currentProject.name,
+          project: data.currentProject,
+          claudeProcess: null,
+          conversationHistory: data.conversationHistory ?? [],
+          status: "idle",
+          lastActivity: data.lastActivity,
+          messageIds: [],
+        };
+      }
+
       // Reconstruct the session
       const session: ChatSession = {
         chatId: data.chatId,
@@ -394,11 +786,14 @@ export class SessionManager {
         firstName: data.firstName,
         lastName: data.lastName,
         currentProject: data.currentProject,
-        claudeProcess: null, // Never restore live processes
-        conversationHistory: data.conversationHistory ?? [],
+        activeWorkspace: data.activeWorkspace ?? data.currentProject?.name ?? null,
+        workspaces,
         pendingApproval: null,
-        status: data.status === "processing" ? "idle" : data.status,
+        status: "idle", // Neither processes nor pending approvals survive a restart
         lastActivity: data.lastActivity,
+        claudeSessions: data.claudeSessions ?? [],
+        activeClaudeSessions: data.activeClaudeSessions ?? {},
+        promptQueue: (data.promptQueue ?? []).filter((item) => workspaces[item.workspaceName]),
       };
 
       return session;
@@ -443,13 +838,8 @@ export class SessionManager {
           this.sessions.set(chatId, session);
 
           // Restore project sessions mapping
-          if (session.currentProject) {
-            let projectSet = this.projectSessions.get(session.currentProject.name);
-            if (!projectSet) {
-              projectSet = new Set();
-              this.projectSessions.set(session.currentProject.name, projectSet);
-            }
-            projectSet.add(chatId);
+          for (const workspace of Object.values(session.workspaces)) {
+            this.trackProjectChat(workspace.project.name, chatId);
           }
 
           loaded++;
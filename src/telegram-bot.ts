@@ -7,16 +7,54 @@ import type { Message, CallbackQuery } from "node-telegram-bot-api";
 import { SessionManager } from "./session-manager.js";
 import { ProjectManager } from "./project-manager-class.js";
 import { ClaudeSpawner } from "./claude-spawner-class.js";
-import type { BridgeConfig } from "./types.js";
-import { escapeHtml, chunkMessage, formatRelativeTime, Logger, sanitizePath, generateId } from "./utils.js";
+import { PermissionBridge } from "./permission-bridge.js";
+import { AttachmentManager } from "./attachments.js";
+import {
+  artifactFileName,
+  extractDiff,
+  isLargeDiff,
+  resolveProjectFile,
+  shouldSendAsDocument,
+  textDocument,
+  type OutgoingDocument,
+} from "./documents.js";
+import { describeToolUse, getRunningProcessCount, isMissingSessionError, parseRemovedPaths } from "./claude-spawner.js";
+import type {
+  BridgeConfig,
+  ClaudeCliResult,
+  EditApprovalRequest,
+  FileEdit,
+  PermissionPromptRequest,
+  Project,
+  QueuedPrompt,
+  Workspace,
+} from "./types.js";
+import { escapeHtml, chunkMessage, formatInTimeZone, formatRelativeTime, Logger, sanitizePath, generateId, truncateText } from "./utils.js";
 import { readFile } from "node:fs/promises";
 import { basename, resolve } from "node:path";
 import {
   getBrain,
   getMemoryStore,
+  getVectorStore,
+  createEmbeddingProvider,
+  getRetrievalService,
+  RETRIEVAL_SOURCES,
+  type RetrievalResult,
+  type RetrievalSource,
+  getContextBuilder,
+  type ContextSection,
+  getMemoryConsolidator,
+  MEMORY_KINDS,
+  type MemoryKind,
+  type SummaryRequest,
   createSetupWizard,
   getIdentityManager,
   getContextIndexer,
+  getChangeDetector,
+  getEventBus,
+  describeEvent,
+  type ReferenceGraph,
+  type ResolvedReference,
   getOrchestrator,
   getTaskQueue,
   getCIMonitor,
@@ -28,16 +66,30 @@ import {
   startScheduledJobs,
   loadSelfReviewContext,
   getTestWatcher,
+  getFlakinessTracker,
+  formatCoverageDrop,
+  formatLineRanges,
   getNotificationRouter,
   getCodeAnalyzer,
   getPatternLearner,
   getIntentionEngine,
   getDecisionMaker,
   getGoalSystem,
+  getWorktreeManager,
+  getDiffReviewManager,
+  getUsageTracker,
+  formatUsd,
+  type ClaudeWorktree,
+  type DiffHunk,
+  type DiffReview,
+  type HunkActionResult,
+  type ReviewBaseline,
+  type WorktreeAction,
   type SetupWizard,
   type AgentType,
   type NotificationType,
   type Task,
+  type CatchUpPolicy,
 } from "./brain/index.js";
 
 // Worker imports for self-improvement system
@@ -50,6 +102,18 @@ let brainInitialized = false;
 // Per-chat setup wizard instances (not singleton - each chat gets its own)
 const setupWizards = new Map<number, SetupWizard>();
 
+// Diff review: hunk messages sent per review before /review pages in more
+const MAX_HUNK_MESSAGES = 10;
+
+/**
+ * Messages showing a diff review in a chat
+ */
+interface ReviewMessages {
+  chatId: number;
+  summaryMessageId?: number;
+  hunkMessages: Map<number, number>; // hunk index → message ID
+}
+
 async function ensureBrainInitialized() {
   if (!brainInitialized) {
     await getBrain().initialize();
@@ -117,6 +181,14 @@ export class TelegramBotHandler {
   private sessionManager: SessionManager;
   private projectManager: ProjectManager;
   private claudeSpawner: ClaudeSpawner;
+  private permissionBridge: PermissionBridge;
+  private attachments: AttachmentManager;
+  private permissionApprovals = new Map<string, EditApprovalRequest>(); // requestId → approval shown in chat
+  private permissionFallbackWarned = new Set<number>(); // Chats told that approvals are unavailable
+  private startingRuns = new Set<string>(); // "chatId:workspace" of runs not yet spawned
+  private pendingQueueEdits = new Map<number, string>(); // chatId → queued prompt awaiting new text
+  private pendingMemoryEdits = new Map<number, string>(); // chatId → memory entry awaiting new text
+  private reviewMessages = new Map<string, ReviewMessages>(); // reviewId → messages showing the review
   private config: BridgeConfig;
   private logger: Logger;
 
@@ -126,6 +198,10 @@ export class TelegramBotHandler {
   private static readonly CB_APPROVE_EDIT = "approve_edit:";
   private static readonly CB_REJECT_EDIT = "reject_edit:";
   private static readonly CB_CANCEL = "cancel";
+  private static readonly CB_WORKTREE = "worktree:"; // worktree:<action>:<id>
+  private static readonly CB_QUEUE = "queue:"; // queue:<edit|merge|drop>:<id>
+  private static readonly CB_MEMORY = "memory:"; // memory:<pin|edit|forget|src>:<id>:<filter>
+  private static readonly CB_HUNK = "hunk:"; // hunk:<keep|revert>:<reviewId>:<index>, hunk:<keepall|revertall>:<reviewId>
 
   constructor(token: string, config: BridgeConfig) {
     this.bot = new TelegramBot(token, { polling: true });
@@ -143,6 +219,9 @@ export class TelegramBotHandler {
 
     this.projectManager = new ProjectManager(config.projectsBase);
     this.claudeSpawner = new ClaudeSpawner(config);
+    this.permissionBridge = new PermissionBridge(config);
+    this.attachments = new AttachmentManager(config);
+    this.configureEmbeddings();
 
     this.setupHandlers();
     this.setupCommands();
@@ -161,6 +240,8 @@ export class TelegramBotHandler {
       { command: "rescan", description: "Rescan for projects" },
       { command: "status", description: "Show current session status" },
       { command: "cancel", description: "Cancel current operation" },
+      { command: "sessions", description: "List, resume, fork or reset Claude sessions" },
+      { command: "worktrees", description: "Review isolated Claude runs" },
       { command: "help", description: "Show help message" },
       // Brain commands
       { command: "remember", description: "Store something in memory" },
@@ -174,16 +255,28 @@ export class TelegramBotHandler {
       { command: "cicd", description: "CI/CD monitoring (add, remove, status, builds)" },
       { command: "history", description: "Search chat history" },
       { command: "metrics", description: "Show performance metrics" },
+      { command: "usage", description: "Token usage, spend and budgets" },
+      { command: "queue", description: "Show or manage queued prompts" },
+      { command: "get", description: "Fetch a project file as a document" },
+      { command: "review", description: "Continue reviewing the last run's changes" },
       { command: "profile", description: "View your profile" },
       { command: "schedule", description: "Schedule a task with cron" },
       { command: "schedules", description: "List scheduled tasks" },
       { command: "watch", description: "Watch project for test failures" },
+      { command: "tests", description: "Flaky tests and quarantine" },
       { command: "notifications", description: "Manage notification preferences" },
       { command: "analyze", description: "Analyze code quality" },
       { command: "learn", description: "Learn code patterns" },
+      { command: "refs", description: "Find definitions and references of a symbol" },
+      { command: "callers", description: "Find who calls a function" },
+      { command: "deps", description: "Show a file's imports and importers" },
+      { command: "impact", description: "Files affected if a file or symbol changes" },
       // Self-improvement commands
       { command: "heartbeat", description: "Run heartbeat check manually" },
-      { command: "semantic", description: "Semantic memory search" },
+      { command: "events", description: "Tail recent internal events" },
+      { command: "semantic", description: "Search chats, memory and code" },
+      { command: "embeddings", description: "Embedding provider, re-embedding and index benchmark" },
+      { command: "memories", description: "Review memories consolidated from chat history" },
       { command: "briefing", description: "Generate daily briefing" },
       { command: "checks", description: "Run proactive checks" },
       { command: "selfreview", description: "View learning log" },
@@ -219,7 +312,15 @@ export class TelegramBotHandler {
     );
     this.bot.onText(/\/rescan/, (msg) => this.handleRescan(msg));
     this.bot.onText(/\/status/, (msg) => this.handleStatus(msg));
-    this.bot.onText(/\/cancel/, (msg) => this.handleCancel(msg));
+    this.bot.onText(/\/cancel(?:\s+(.+))?/, (msg, match) =>
+      this.handleCancel(msg, match?.[1])
+    );
+    this.bot.onText(/^\/worktrees(?:\s+(.+))?$/, (msg, match) =>
+      this.handleWorktrees(msg, match?.[1])
+    );
+    this.bot.onText(/^\/sessions(?:\s+(.+))?$/, (msg, match) =>
+      this.handleSessions(msg, match?.[1])
+    );
 
     // Brain command handlers
     this.bot.onText(/\/remember(?:\s+(.+))?/, (msg, match) =>
@@ -228,7 +329,7 @@ export class TelegramBotHandler {
     this.bot.onText(/\/recall(?:\s+(.+))?/, (msg, match) =>
       this.handleRecall(msg, match?.[1])
     );
-    this.bot.onText(/\/context/, (msg) => this.handleContext(msg));
+    this.bot.onText(/\/context(?:\s+(.+))?$/, (msg, match) => this.handleContext(msg, match?.[1]));
     this.bot.onText(/\/task(?:\s+(.+))?/, (msg, match) =>
       this.handleTask(msg, match?.[1])
     );
@@ -259,16 +360,23 @@ export class TelegramBotHandler {
       this.handleRefactor(msg, match?.[1])
     );
     this.bot.onText(/\/metrics/, (msg) => this.handleMetrics(msg));
+    this.bot.onText(/^\/usage(?:\s+(.+))?$/, (msg, match) => this.handleUsage(msg, match?.[1]));
+    this.bot.onText(/^\/queue(?:\s+(.+))?$/, (msg, match) => this.handleQueue(msg, match?.[1]));
+    this.bot.onText(/^\/get(?:\s+(.+))?$/, (msg, match) => this.handleGet(msg, match?.[1]));
+    this.bot.onText(/^\/review$/, (msg) => this.handleReview(msg));
     this.bot.onText(/\/logs(?:\s+(.+))?/, (msg, match) =>
       this.handleLogs(msg, match?.[1])
     );
+    this.bot.onText(/^\/events(?:\s+(.+))?$/, (msg, match) =>
+      this.handleEvents(msg, match?.[1])
+    );
     this.bot.onText(/\/profile(?:\s+(.+))?/, (msg, match) =>
       this.handleProfile(msg, match?.[1])
     );
-    this.bot.onText(/\/schedule(?:\s+(.+))?/, (msg) =>
+    this.bot.onText(/^\/schedule(?:\s+(.+))?$/, (msg) =>
       this.handleSchedule(msg)
     );
-    this.bot.onText(/\/schedules/, (msg) => this.handleSchedules(msg));
+    this.bot.onText(/^\/schedules(?:\s+(.+))?$/, (msg, match) => this.handleSchedules(msg, match?.[1]));
 
     // State management commands
     this.bot.onText(/\/state/, (msg) => this.handleState(msg));
@@ -280,6 +388,10 @@ export class TelegramBotHandler {
       this.handleWatch(msg, match?.[1])
     );
 
+    this.bot.onText(/\/tests(?:\s+(.+))?/, (msg, match) =>
+      this.handleTests(msg, match?.[1])
+    );
+
     // Notification settings command
     this.bot.onText(/\/notifications(?:\s+(.+))?/, (msg, match) =>
       this.handleNotifications(msg, match?.[1])
@@ -328,6 +440,12 @@ export class TelegramBotHandler {
     this.bot.onText(/\/semantic(?:\s+(.+))?$/, (msg, match) =>
       this.handleSemanticSearch(msg, match?.[1])
     );
+    this.bot.onText(/^\/embeddings(?:\s+(.+))?$/, (msg, match) =>
+      this.handleEmbeddings(msg, match?.[1])
+    );
+    this.bot.onText(/^\/memories(?:\s+(.+))?$/, (msg, match) =>
+      this.handleMemories(msg, match?.[1])
+    );
 
     // Context indexer commands
     this.bot.onText(/^\/index(?:\s+(.+))?$/, (msg, match) =>
@@ -339,6 +457,18 @@ export class TelegramBotHandler {
     this.bot.onText(/^\/file(?:\s+(.+))?$/, (msg, match) =>
       this.handleFileInfo(msg, match?.[1])
     );
+    this.bot.onText(/^\/refs(?:\s+(.+))?$/, (msg, match) =>
+      this.handleRefs(msg, match?.[1])
+    );
+    this.bot.onText(/^\/callers(?:\s+(.+))?$/, (msg, match) =>
+      this.handleCallers(msg, match?.[1])
+    );
+    this.bot.onText(/^\/deps(?:\s+(.+))?$/, (msg, match) =>
+      this.handleDeps(msg, match?.[1])
+    );
+    this.bot.onText(/^\/impact(?:\s+(.+))?$/, (msg, match) =>
+      this.handleImpact(msg, match?.[1])
+    );
 
     // Callback query handlers (inline buttons)
     this.bot.on("callback_query", (query) => this.handleCallbackQuery(query));
@@ -466,16 +596,22 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 <b>Brain Commands 🧠</b>
 /remember &lt;key&gt; &lt;value&gt; - Store in memory
 /recall &lt;query&gt; - Search memory
-/context - View project context
+/memories [run] - Review memories consolidated from chat history
+/context [why] - View project context, or what the last prompt was given
 /index &lt;path&gt; - Index project for context awareness
 /search &lt;query&gt; - Search indexed code
 /file &lt;path&gt; - Get file details from index
+/refs &lt;symbol&gt; - Definitions and references
+/callers &lt;fn&gt; - Who calls a function
+/deps &lt;path&gt; - A file's imports and importers
+/impact &lt;path|symbol&gt; - Files affected by a change
 /task &lt;desc&gt; [--bg] - Create background task
 /tasks - List active tasks
 /agent &lt;type&gt; &lt;task&gt; - Run specialized agent
 /git &lt;command&gt; - Git operations (commit, status, log)
 /metrics - Show daily metrics
 /logs [type] [lines] - View logs
+/events [type] [count] - Tail internal events
 
 <b>Getting started:</b>
 1. Use /projects to see available projects
@@ -510,16 +646,29 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 /rmproject &lt;name&gt; - Remove a project
 /rescan - Rescan the projects directory
 /status - Show current session and project info
-/cancel - Cancel the current Claude operation
+/cancel [@name|all] - Cancel a running Claude operation
+/queue [clear|merge] - Prompts waiting for a busy workspace
+/get &lt;path&gt; - Fetch a project file as a document
+/review - Continue reviewing the last run's changes hunk by hunk
+/sessions [reset|resume &lt;n&gt;|fork [n]] - Manage native Claude sessions
+/worktrees [merge|pick|pr|discard &lt;id&gt;] - Review isolated runs
 
 <b>Brain Commands 🧠</b>
 /remember &lt;key&gt; &lt;value&gt; - Store something in memory
 /recall &lt;query&gt; - Search stored memories
-/semantic &lt;query&gt; - Semantic memory search
+/semantic &lt;query&gt; [--in sources] - Search chats, facts, decisions and code
+/embeddings [migrate|bench] - Embedding provider, re-embedding, ANN benchmark
+/memories [decisions|facts|todos|pinned] - Review, edit, pin or forget consolidated memories
+/memories run - Summarize this chat's history into memories now
 /context - View project context and decisions
-/index &lt;path&gt; - Index project for context awareness
+/context why - What memory was added to the last prompt
+/index &lt;path&gt; [--full] - Index project; later runs only re-parse changed files
 /search &lt;query&gt; - Search indexed code
 /file &lt;path&gt; - Get file details from index
+/refs &lt;symbol&gt; - Where a symbol is defined, called and imported
+/callers &lt;fn&gt; - Call sites of a function or Class.method
+/deps &lt;path&gt; - Project files a file imports and is imported by
+/impact &lt;path|symbol&gt; - Files affected if it changes
 /task &lt;description&gt; [--bg] - Create a new task
 /tasks - List all your active tasks
 /agent &lt;type&gt; &lt;task&gt; - Run a specialized agent
@@ -534,13 +683,16 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 /refactor &lt;cmd&gt; - Code refactoring automation
 /cicd &lt;cmd&gt; - CI/CD monitoring
 /metrics - Show today's performance metrics
+/usage [budget] - Token usage, spend and budgets
 /logs [type] [lines] - View logs (app/error/audit, default 20 lines)
+/events [type] [count] - Recent internal events, e.g. /events test 10 (test.failed, build.broken, ...)
+/tests [flaky|quarantine|release] - Flaky tests, and skipping them instead of healing
 /state - View system state and checkpoints
 /recovery - View crash recovery status
 /export - Export state data to file
 /profile - View your profile
-/schedule &lt;cron&gt; &lt;task&gt; - Schedule a task
-/schedules - List scheduled tasks
+/schedule "&lt;cron&gt;" [--catchup skip|once|all] [--tz zone] &lt;task&gt; - Schedule a task
+/schedules [n] - List scheduled tasks with their next n runs
 
 <b>Code Intelligence 🧠</b>
 /analyze - Analyze code quality
@@ -567,6 +719,13 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 3. Claude will process and respond
 4. Use /remember to store important info for later
 
+<b>Workspaces:</b>
+• Each project gets its own workspace with separate history, and workspaces run in parallel
+• Prefix a message with @project to send it to that project without switching
+• Reply to a workspace's output to continue in that workspace
+• /status lists workspaces; /cancel @project stops one
+• Messages sent while a workspace is busy are queued; edit, merge or drop them with the buttons or /queue
+
 <b>File Edit Approval:</b>
 • Read operations: Auto-approved
 • Single file edits: Auto-approved (configurable)
@@ -790,29 +949,43 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
         status += `Branch: ${escapeHtml(session.currentProject.branch || "main")}\n`;
         status += `Status: ${session.currentProject.status || "unknown"}\n`;
       }
+
+      const activeClaudeSession = this.sessionManager.getActiveClaudeSession(chatId, session.currentProject.name);
+      status += activeClaudeSession
+        ? `Claude Session: <code>${activeClaudeSession.sessionId.slice(0, 8)}</code>${activeClaudeSession.fork ? " (fork)" : ""}\n`
+        : `Claude Session: new\n`;
     } else {
       status += `<b>Current Project:</b> None selected\n`;
     }
 
-    if (session.claudeProcess) {
-      status += `\n<b>Claude Process:</b>\n`;
-      status += `PID: ${session.claudeProcess.pid}\n`;
-      status += `Status: ${session.claudeProcess.status}\n`;
-      status += `Duration: ${formatRelativeTime(session.claudeProcess.startTime)}\n`;
+    const workspaces = this.sessionManager.getWorkspaces(chatId);
+    if (workspaces.length > 0) {
+      status += `\n<b>Workspaces (${workspaces.length}):</b>\n`;
+      for (const workspace of workspaces) {
+        const marker = workspace.name === session.activeWorkspace ? "▶️" : "•";
+        status += `${marker} <b>${escapeHtml(workspace.name)}</b> - ${this.formatStatus(workspace.status)}`;
+        if (workspace.claudeProcess) {
+          status += ` (PID ${workspace.claudeProcess.pid}, started ${formatRelativeTime(workspace.claudeProcess.startTime)})`;
+        }
+        status += `, ${workspace.conversationHistory.length} messages`;
+        const queued = this.sessionManager.getPromptQueue(chatId, workspace.name).length;
+        status += queued > 0 ? `, ${queued} queued\n` : `\n`;
+      }
+      if (workspaces.length > 1) {
+        status += `\nPrefix a message with @name or reply to a workspace's message to route it.\n`;
+      }
     }
 
-    const conversationLength = session.conversationHistory.length;
-    if (conversationLength > 0) {
-      status += `\n<b>Conversation:</b> ${conversationLength} messages\n`;
-    }
+    status += `\n<b>Running Claude jobs (all chats):</b> ${this.claudeSpawner.getActiveCount()}/${this.config.maxConcurrentSessions}\n`;
 
     await this.bot.sendMessage(chatId, status, { parse_mode: "HTML" });
   }
 
   /**
    * Handle /cancel command
+   * Usage: /cancel [@workspace|all] - defaults to the active workspace, or the only running one
    */
-  private async handleCancel(msg: Message): Promise<void> {
+  private async handleCancel(msg: Message, target?: string): Promise<void> {
     if (!this.isAuthorized(msg)) {
       return this.sendNotAuthorized(msg);
     }
@@ -825,20 +998,156 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       return;
     }
 
-    if (session.claudeProcess && session.claudeProcess.status === "running") {
-      this.claudeSpawner.killProcess(session.claudeProcess);
-      this.sessionManager.setClaudeProcess(chatId, null);
-      this.sessionManager.setSessionStatus(chatId, "idle");
-      await this.bot.sendMessage(chatId, "Claude process cancelled.");
+    if (!target && this.pendingQueueEdits.delete(chatId)) {
+      await this.bot.sendMessage(chatId, "Edit cancelled, the queued prompt is unchanged.");
+      return;
+    }
+    if (!target && this.pendingMemoryEdits.delete(chatId)) {
+      await this.bot.sendMessage(chatId, "Edit cancelled, the memory is unchanged.");
+      return;
+    }
+
+    // "/cancel all" also empties the queue, so nothing starts in place of the cancelled jobs
+    const dropped = target?.trim().toLowerCase() === "all"
+      ? this.sessionManager.clearPromptQueue(chatId)
+      : [];
+    for (const item of dropped) {
+      await this.markQueueMessage(chatId, item, "🗑 Dropped");
+      await this.cleanupAttachments(item.attachmentDirs);
+    }
+
+    const running = this.sessionManager
+      .getWorkspaces(chatId)
+      .filter((w) => w.claudeProcess?.status === "running");
+    const name = target?.trim().replace(/^@/, "");
+
+    let toCancel = running;
+    if (name && name.toLowerCase() !== "all") {
+      toCancel = running.filter((w) => w.name.toLowerCase() === name.toLowerCase());
+    } else if (!name && running.length > 1) {
+      const active = running.filter((w) => w.name === session.activeWorkspace);
+      if (active.length === 0) {
+        await this.bot.sendMessage(
+          chatId,
+          `Several Claude jobs are running: ${running.map((w) => `@${w.name}`).join(", ")}\n\nUse /cancel @name or /cancel all.`
+        );
+        return;
+      }
+      toCancel = active;
+    }
+
+    if (toCancel.length > 0) {
+      for (const workspace of toCancel) {
+        this.claudeSpawner.killProcess(workspace.claudeProcess!);
+        this.sessionManager.setClaudeProcess(chatId, null, workspace.name);
+      }
+      await this.bot.sendMessage(
+        chatId,
+        (toCancel.length === 1
+          ? `Claude process cancelled (${toCancel[0].name}).`
+          : `Cancelled ${toCancel.length} Claude processes.`) +
+          (dropped.length > 0 ? ` Dropped ${dropped.length} queued prompt(s).` : "")
+      );
+    } else if (dropped.length > 0) {
+      await this.bot.sendMessage(chatId, `Dropped ${dropped.length} queued prompt(s).`);
+    } else if (name && name.toLowerCase() !== "all" && running.length > 0) {
+      await this.bot.sendMessage(chatId, `No running Claude job in workspace "${name}".`);
     } else if (session.pendingApproval) {
+      this.permissionBridge.denyAllForChat(chatId, "Cancelled by the user.");
       this.sessionManager.setPendingApproval(chatId, null);
-      this.sessionManager.setSessionStatus(chatId, "idle");
       await this.bot.sendMessage(chatId, "Pending approval cancelled.");
     } else {
       await this.bot.sendMessage(chatId, "Nothing to cancel.");
     }
   }
 
+  /**
+   * Handle /sessions command - Manage native Claude CLI sessions for the current project
+   * Usage: /sessions [list|reset|resume <n>|fork [n]]
+   */
+  private async handleSessions(msg: Message, args?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    const chatId = msg.chat.id;
+    const session = this.sessionManager.getSession(chatId);
+
+    if (!session?.currentProject) {
+      await this.bot.sendMessage(chatId, "No project selected. Use /select first.");
+      return;
+    }
+
+    const projectName = session.currentProject.name;
+    const parts = (args ?? "list").trim().split(/\s+/);
+    const action = parts[0].toLowerCase();
+    const known = this.sessionManager.getClaudeSessions(chatId, projectName);
+    const active = this.sessionManager.getActiveClaudeSession(chatId, projectName);
+
+    // Accept a list position (1-based) or a session id prefix
+    const findSession = (ref?: string) => {
+      if (!ref) return undefined;
+      const index = Number.parseInt(ref, 10);
+      if (!Number.isNaN(index) && String(index) === ref) return known[index - 1];
+      return known.find((s) => s.sessionId.startsWith(ref));
+    };
+
+    if (action === "list") {
+      if (known.length === 0) {
+        await this.bot.sendMessage(
+          chatId,
+          `No Claude sessions yet for <b>${escapeHtml(projectName)}</b>. Send a prompt to start one.`,
+          { parse_mode: "HTML" }
+        );
+        return;
+      }
+
+      let response = `🧵 <b>Claude Sessions: ${escapeHtml(projectName)}</b>\n\n`;
+      known.slice(0, 10).forEach((s, i) => {
+        const marker = active?.sessionId === s.sessionId ? (active.fork ? "🍴 " : "▶️ ") : "";
+        response += `${i + 1}. ${marker}<code>${s.sessionId.slice(0, 8)}</code> ${escapeHtml(truncateText(s.title, 50))}\n`;
+        response += `   ${s.runCount} run(s), last used ${formatRelativeTime(s.lastUsedAt)}`;
+        response += s.forkedFrom ? `, forked from <code>${s.forkedFrom.slice(0, 8)}</code>\n` : "\n";
+      });
+      response += active
+        ? `\n${active.fork ? "Next message forks" : "Next message continues"} <code>${active.sessionId.slice(0, 8)}</code>.`
+        : "\nNext message starts a new session.";
+      response += "\n\nUse /sessions resume &lt;n&gt;, /sessions fork [n] or /sessions reset.";
+
+      await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+    } else if (action === "reset") {
+      this.sessionManager.resetClaudeSession(chatId, projectName);
+      await this.bot.sendMessage(chatId, "🆕 The next message will start a fresh Claude session.");
+    } else if (action === "resume" || action === "fork") {
+      const target = action === "fork" && !parts[1]
+        ? known.find((s) => s.sessionId === active?.sessionId)
+        : findSession(parts[1]);
+
+      if (!target) {
+        await this.bot.sendMessage(
+          chatId,
+          `Session not found. Use /sessions to list sessions${action === "resume" ? " and pick one by number" : ""}.`
+        );
+        return;
+      }
+
+      this.sessionManager.setActiveClaudeSession(chatId, projectName, target.sessionId, action === "fork");
+      await this.bot.sendMessage(
+        chatId,
+        action === "fork"
+          ? `🍴 The next message will branch a new session from <code>${target.sessionId.slice(0, 8)}</code>.`
+          : `▶️ The next message will continue <code>${target.sessionId.slice(0, 8)}</code>.`,
+        { parse_mode: "HTML" }
+      );
+    } else {
+      await this.bot.sendMessage(
+        chatId,
+        `Unknown action: <b>${escapeHtml(action)}</b>\n\nUse: list, reset, resume &lt;n&gt;, or fork [n]`,
+        { parse_mode: "HTML" }
+      );
+    }
+  }
+
   // ===========================================
   // Brain Command Handlers
   // ===========================================
@@ -911,8 +1220,13 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       return;
     }
 
-    // Search memory
-    const results = await getBrain().searchFacts(query);
+    // Search facts and decisions
+    const results = await getRetrievalService().search({
+      query,
+      sources: ["fact", "decision"],
+      chatId,
+      limit: 5,
+    });
 
     if (results.length === 0) {
       await this.bot.sendMessage(
@@ -924,8 +1238,8 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
     }
 
     let response = `${getBrain().getEmoji()} Found <b>${results.length}</b> memories:\n\n`;
-    for (const mem of results.slice(0, 5)) {
-      response += `• <b>${escapeHtml(mem.key)}</b>: ${escapeHtml(String(mem.value))}\n`;
+    for (const result of results) {
+      response += this.formatRetrievalResult(result);
     }
 
     await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
@@ -933,14 +1247,23 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 
   /**
    * Handle /context command - View project context
+   * Usage:
+   *   /context - Project description, stack, decisions and patterns
+   *   /context why - What was injected into the last prompt and why
    */
-  private async handleContext(msg: Message): Promise<void> {
+  private async handleContext(msg: Message, args?: string): Promise<void> {
     if (!this.isAuthorized(msg)) {
       return this.sendNotAuthorized(msg);
     }
 
     await ensureBrainInitialized();
     const chatId = msg.chat.id;
+
+    if (args?.trim() === "why") {
+      await this.sendContextWhy(chatId);
+      return;
+    }
+
     const session = this.sessionManager.getSession(chatId);
 
     if (!session?.currentProject) {
@@ -983,6 +1306,45 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
     await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
   }
 
+  /**
+   * Show the retrieved context injected into the chat's last prompt
+   */
+  private async sendContextWhy(chatId: number): Promise<void> {
+    if (this.config.contextBudgetTokens <= 0) {
+      await this.bot.sendMessage(chatId, "Context injection is off (CONTEXT_BUDGET_TOKENS=0).");
+      return;
+    }
+
+    const context = getContextBuilder().getLastContext(chatId);
+    if (!context) {
+      await this.bot.sendMessage(chatId, "No prompt has been sent in this chat yet.");
+      return;
+    }
+
+    const preview = context.prompt.length > 80 ? `${context.prompt.substring(0, 80)}...` : context.prompt;
+    let response = `🧩 <b>Context for:</b> <i>${escapeHtml(preview)}</i>\n`;
+    response += `~${context.tokens} of ${context.budgetTokens} tokens, ${context.items.length} items\n\n`;
+
+    if (context.items.length === 0) {
+      response += "Nothing relevant was found in memory, so no context was added.\n";
+    }
+
+    const icons: Record<ContextSection, string> = { convention: "📐", fact: "🧠", decision: "📌", code: "📄" };
+    for (const item of context.items) {
+      const line = item.line.replace(/^- /, "");
+      response += `${icons[item.section]} ${escapeHtml(line.length > 120 ? `${line.substring(0, 120)}...` : line)}\n`;
+      response += `   <i>${escapeHtml(item.reason)} · ~${item.tokens} tokens</i>\n`;
+    }
+
+    if (context.skipped.length > 0) {
+      response += `\n<b>Over budget (${context.skipped.length}):</b> `;
+      response += context.skipped.slice(0, 5).map((item) => escapeHtml(item.id)).join(", ");
+      response += context.skipped.length > 5 ? ", ..." : "";
+    }
+
+    await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+  }
+
   /**
    * Handle /task command - Create a background task
    */
@@ -1685,8 +2047,9 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       await this.bot.sendMessage(chatId, message, { parse_mode: "HTML" });
     } else {
       // Search messages
-      const results = convIndexer.search({
+      const results = await getRetrievalService().search({
         query: searchQuery,
+        sources: ["conversation"],
         chatId,
         limit,
       });
@@ -1702,22 +2065,8 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 
       let message = `${getBrain().getEmoji()} <b>Search Results</b> (${results.length} found):\n\n`;
 
-      for (const { message: msg, score } of results) {
-        const typeEmoji = msg.messageType === 'user' ? '👤' : msg.messageType === 'bot' ? '🤖' : '⚙️';
-        const date = new Date(msg.timestamp).toLocaleString();
-        const relevance = Math.round(score * 100);
-
-        message += `${typeEmoji} <code>${date.split(',')[0]}</code> [${relevance}%]\n`;
-
-        // Highlight matching text
-        const text = msg.text.length > 150 ? msg.text.substring(0, 150) + '...' : msg.text;
-        message += `${escapeHtml(text)}\n`;
-
-        if (msg.command) {
-          message += `   Command: <code>${escapeHtml(msg.command)}</code>\n`;
-        }
-
-        message += `\n`;
+      for (const result of results) {
+        message += this.formatRetrievalResult(result);
       }
 
       await this.bot.sendMessage(chatId, message, { parse_mode: "HTML" });
@@ -1807,6 +2156,7 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
             `⏱ ${new Date(result.metadata.generatedAt).toLocaleString()}`,
             { parse_mode: "HTML" }
           );
+          await this.sendGeneratedFiles(chatId, projectPath, result.files);
           break;
         }
 
@@ -1828,6 +2178,7 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
             `📊 ${result.metadata.sourceFiles.length} source files analyzed`,
             { parse_mode: "HTML" }
           );
+          await this.sendGeneratedFiles(chatId, projectPath, result.files);
           break;
         }
 
@@ -1968,8 +2319,8 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
    * Usage:
    *   /dependencies - Show help
    *   /dependencies check - Check for outdated dependencies
-   *   /dependencies audit - Run security audit (npm audit)
-   *   /dependencies update <package> - Update a specific package
+   *   /dependencies audit - Run security audit
+   *   /dependencies update <package>[@version] - Update a specific package
    *   /dependencies update --fix - Fix all security vulnerabilities
    */
   private async handleDependencies(msg: Message, args?: string): Promise<void> {
@@ -1995,8 +2346,9 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       help += `<code>/dependencies</code> - Show this help\n`;
       help += `<code>/dependencies check</code> - Check for outdated dependencies\n`;
       help += `<code>/dependencies audit</code> - Run security audit\n`;
-      help += `<code>/dependencies update [pkg]</code> - Update specific package\n`;
+      help += `<code>/dependencies update [pkg][@version]</code> - Update specific package\n`;
       help += `<code>/dependencies update --fix</code> - Fix all vulnerabilities\n\n`;
+      help += `<i>Supports npm, pnpm, Yarn, pip, Poetry, uv, Cargo and Go modules, updating with the project's own package manager.</i>\n\n`;
 
       if (session?.currentProject) {
         help += `<b>Current project:</b> ${escapeHtml(session.currentProject.name)}\n`;
@@ -2030,10 +2382,13 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
           );
 
           const health = await depManager.checkProject(projectPath);
-          const outdated = await depManager.checkOutdated(projectPath);
-          const vulnerabilities = await depManager.checkVulnerabilities(projectPath);
+          const outdated = health.updatesAvailable;
+          const vulnerabilities = health.vulnerabilities;
+          // Name the package manager when the project has more than one
+          const tag = (ecosystem: string) => health.ecosystems.length > 1 ? ` <i>${ecosystem}</i>` : "";
 
           let report = `${getBrain().getEmoji()} <b>Dependency Health</b>\n\n`;
+          report += `🧰 Package Managers: ${health.ecosystems.length > 0 ? health.ecosystems.join(", ") : "none found"}\n`;
           report += `📦 Total Dependencies: ${health.totalDependencies}\n`;
           report += `📊 Health Score: ${health.healthScore}/100\n`;
           report += `⬆️ Outdated: ${outdated.length}\n`;
@@ -2044,8 +2399,8 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
             report += `<b>Updates Available:</b>\n\n`;
             for (const update of outdated.slice(0, 10)) {
               const typeIcon = update.updateType === 'patch' ? '🔹' : update.updateType === 'minor' ? '🔸' : '🔶';
-              report += `${typeIcon} <code>${update.name}</code>\n`;
-              report += `   ${update.current} → ${update.latest}\n`;
+              report += `${typeIcon} <code>${escapeHtml(update.name)}</code>${tag(update.ecosystem)}\n`;
+              report += `   ${escapeHtml(update.current)} → ${escapeHtml(update.latest)}\n`;
             }
             if (outdated.length > 10) {
               report += `\n... and ${outdated.length - 10} more\n`;
@@ -2057,7 +2412,7 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
             report += `<b>⚠️ Security Vulnerabilities:</b>\n\n`;
             for (const vuln of vulnerabilities.slice(0, 5)) {
               const severityIcon = vuln.severity === 'critical' ? '🔴' : vuln.severity === 'high' ? '🟠' : vuln.severity === 'moderate' ? '🟡' : '🟢';
-              report += `${severityIcon} <code>${vuln.name}</code> - ${vuln.severity}\n`;
+              report += `${severityIcon} <code>${escapeHtml(vuln.name)}</code>${tag(vuln.ecosystem)} - ${vuln.severity}\n`;
             }
             if (vulnerabilities.length > 5) {
               report += `\n... and ${vulnerabilities.length - 5} more\n`;
@@ -2095,7 +2450,7 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
               report += '\n';
             }
 
-            report += `Use <code>/dependencies update --patch</code> to patch vulnerabilities.\n`;
+            report += `Use <code>/dependencies update --fix</code> to patch vulnerabilities.\n`;
             await this.bot.sendMessage(chatId, report, { parse_mode: "HTML" });
           }
           break;
@@ -2105,7 +2460,7 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
           if (!target) {
             await this.bot.sendMessage(
               chatId,
-              `${getBrain().getEmoji()} Usage: <code>/dependencies update [package|--fix]</code>\n\n• package: Update specific package\n• --fix: Fix all security vulnerabilities`,
+              `${getBrain().getEmoji()} Usage: <code>/dependencies update [package[@version]|--fix]</code>\n\n• package: Update specific package, to the latest version unless one is given\n• --fix: Fix all security vulnerabilities`,
               { parse_mode: "HTML" }
             );
             return;
@@ -2121,15 +2476,20 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
             await this.bot.sendMessage(
               chatId,
               fixed
-                ? `${getBrain().getEmoji()} ✅ Vulnerabilities fixed!\n\nRun <code>npm install</code> to apply changes.`
+                ? `${getBrain().getEmoji()} ✅ Vulnerabilities fixed!\n\nManifests and lockfiles were updated; run the tests before committing.`
                 : `${getBrain().getEmoji()} No fixable vulnerabilities found.\n\nSome vulnerabilities may require manual intervention.`,
               { parse_mode: "HTML" }
             );
           } else {
-            await depManager.updateDependency(projectPath, target);
+            // "name@version", where a scoped name starts with its own "@"
+            const at = target.lastIndexOf("@");
+            const [name, version] = at > 0 ? [target.slice(0, at), target.slice(at + 1)] : [target, undefined];
+            const updated = await depManager.updateDependency(projectPath, name, version);
             await this.bot.sendMessage(
               chatId,
-              `${getBrain().getEmoji()} ✅ Updated <code>${escapeHtml(target)}</code>\n\nRun <code>npm install</code> to apply changes.`,
+              updated
+                ? `${getBrain().getEmoji()} ✅ Updated <code>${escapeHtml(target)}</code>`
+                : `${getBrain().getEmoji()} ❌ Failed to update <code>${escapeHtml(target)}</code>. Check the logs for the package manager's output.`,
               { parse_mode: "HTML" }
             );
           }
@@ -2761,6 +3121,8 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
     response += `Claude Queries: ${metrics.claudeQueries}\n`;
     response += `Files Modified: ${metrics.filesModified}\n`;
     response += `Lines Changed: ${metrics.linesOfCodeChanged}\n`;
+    response += `Tokens: ${this.formatTokens(metrics.inputTokens + metrics.cacheCreationTokens + metrics.cacheReadTokens)} in / ${this.formatTokens(metrics.outputTokens)} out\n`;
+    response += `Cost: ${formatUsd(metrics.costUsd)}\n`;
     response += `Active Projects: ${metrics.activeProjects.length || 0}\n`;
     response += `Uptime: ${Math.floor(metrics.uptimeMs / 60000)}m\n`;
 
@@ -2850,6 +3212,69 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
     }
   }
 
+  /**
+   * Handle /events command - Tail the internal event bus
+   * Usage: /events [type|prefix ...] [count]
+   * "test" matches every test.* event; "test.failed" only that type
+   */
+  private async handleEvents(msg: Message, args?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    await ensureBrainInitialized();
+    const chatId = msg.chat.id;
+
+    const types: string[] = [];
+    let count = 20;
+    for (const part of (args ?? '').trim().split(/\s+/).filter(Boolean)) {
+      if (/^\d+$/.test(part)) {
+        count = Math.min(Math.max(parseInt(part, 10), 1), 50);
+      } else {
+        types.push(part.includes('.') ? part : `${part}.`);
+      }
+    }
+
+    try {
+      const events = getEventBus().recent({ types, limit: count });
+
+      if (events.length === 0) {
+        await this.bot.sendMessage(
+          chatId,
+          types.length > 0 ? `📡 No recent events matching ${types.join(', ')}` : `📡 No events recorded yet.`
+        );
+        return;
+      }
+
+      let response = `📡 <b>Recent Events</b> (${events.length}${types.length > 0 ? `, ${escapeHtml(types.join(', '))}` : ''}):
+
+`;
+
+      // Most recent first
+      for (const event of [...events].reverse()) {
+        const time = new Date(event.timestamp).toISOString().replace('T', ' ').substring(5, 19);
+        const projectPath = (event.payload as { projectPath?: string }).projectPath;
+        const summary = describeEvent(event);
+        const truncated = summary.length > 150 ? summary.slice(0, 150) + '...' : summary;
+
+        response += `<code>${time}</code> <b>${escapeHtml(event.type)}</b>`;
+        response += projectPath ? ` <i>${escapeHtml(basename(projectPath))}</i>` : '';
+        response += `
+${escapeHtml(truncated)}
+`;
+      }
+
+      for (const chunk of this.chunkLogResponse(response)) {
+        await this.bot.sendMessage(chatId, chunk, { parse_mode: "HTML" });
+      }
+    } catch (error) {
+      await this.bot.sendMessage(
+        chatId,
+        `❌ Failed to read events: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   /**
    * Split a response into chunks to avoid Telegram message size limits
    */
@@ -3015,9 +3440,10 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 
       await writeFile(exportPath, jsonData, 'utf-8');
 
-      await this.bot.sendMessage(
+      await this.sendDocument(
         chatId,
-        `📤 State exported to:\n${escapeHtml(exportPath)}\n\nSize: ${(jsonData.length / 1024).toFixed(1)} KB`
+        textDocument(artifactFileName('claude-bridge-export', 'json'), jsonData, `Size: ${(jsonData.length / 1024).toFixed(1)} KB`),
+        `📤 State exported to ${escapeHtml(sanitizePath(exportPath))}`
       );
     } catch (error) {
       this.logger.error('Error exporting state', { error });
@@ -3116,6 +3542,7 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 
   /**
    * Handle /schedule command - Schedule a task with cron
+   * Usage: /schedule "<cron>"|@macro [--catchup skip|once|all] [--tz <zone>] <task>
    */
   private async handleSchedule(msg: Message): Promise<void> {
     if (!this.isAuthorized(msg)) {
@@ -3126,26 +3553,53 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
     const chatId = msg.chat.id;
     const text = msg.text?.trim();
 
-    // Extract cron pattern and task description
-    const match = text?.match(/\/schedule\s+"([^"]+)"\s+(.+)/);
+    // Extract cron pattern (quoted, or a bare @macro), options and task description
+    const match = text?.match(/^\/schedule\s+(?:"([^"]+)"|(@\w+))\s+(.+)$/s);
 
     if (!match) {
       await this.bot.sendMessage(
         chatId,
-        "Usage: /schedule \"<cron>\" <task>\n" +
+        "Usage: /schedule \"<cron>\" [--catchup skip|once|all] [--tz <zone>] <task>\n" +
         "Example: /schedule \"0 2 * * *\" Run nightly backup\n" +
-        "Cron format: minute hour day month weekday"
+        "Example: /schedule \"*/30 9-17 * * MON-FRI\" Check the build\n" +
+        "Example: /schedule @daily --catchup skip Summarize yesterday\n" +
+        "Cron format: [second] minute hour day month weekday, or @hourly/@daily/@weekly/@monthly/@yearly\n" +
+        "Catch-up: what to do with runs missed while the bot was down (default: once)"
       );
       return;
     }
 
-    const [, cron, taskDesc] = match;
+    const cron = match[1] ?? match[2];
+    let rest = match[3].trim();
+    let catchUp: CatchUpPolicy | undefined;
+    let timezone: string | undefined;
+
+    for (let option = rest.match(/^--(catchup|tz)\s+(\S+)\s*/); option; option = rest.match(/^--(catchup|tz)\s+(\S+)\s*/)) {
+      if (option[1] === "catchup") {
+        if (!["skip", "once", "all"].includes(option[2])) {
+          await this.bot.sendMessage(chatId, `❌ Unknown catch-up policy "${option[2]}" (use skip, once or all)`);
+          return;
+        }
+        catchUp = option[2] as CatchUpPolicy;
+      } else {
+        timezone = option[2];
+      }
+      rest = rest.slice(option[0].length);
+    }
+
+    const taskDesc = rest.trim();
+    if (!taskDesc) {
+      await this.bot.sendMessage(chatId, "❌ Missing task description");
+      return;
+    }
 
     try {
       const taskQueue = getTaskQueue();
-      await taskQueue.addSchedule({
+      const schedule = await taskQueue.addSchedule({
         cronExpression: cron,
         enabled: true,
+        timezone,
+        catchUp,
         task: {
           type: "custom",
           title: taskDesc.split(" ").slice(0, 5).join(" "),
@@ -3156,7 +3610,15 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
         },
       });
 
-      await this.bot.sendMessage(chatId, `✅ Scheduled:\n${taskDesc}\nCron: ${cron}`);
+      const zone = taskQueue.getScheduleTimeZone(schedule);
+      const nextRuns = taskQueue.getNextRuns(schedule, 3)
+        .map((time) => `• ${formatInTimeZone(time, zone)}`)
+        .join("\n");
+
+      await this.bot.sendMessage(
+        chatId,
+        `✅ Scheduled:\n${taskDesc}\nCron: ${cron} (${zone}, catch-up: ${schedule.catchUp})\n\nNext runs:\n${nextRuns}`
+      );
     } catch (error) {
       await this.bot.sendMessage(
         chatId,
@@ -3166,15 +3628,19 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
   }
 
   /**
-   * Handle /schedules command - List scheduled tasks
+   * Handle /schedules command - List scheduled tasks with upcoming runs
+   * Usage: /schedules [n]
    */
-  private async handleSchedules(msg: Message): Promise<void> {
+  private async handleSchedules(msg: Message, args?: string): Promise<void> {
     if (!this.isAuthorized(msg)) {
       return this.sendNotAuthorized(msg);
     }
 
     await ensureBrainInitialized();
     const chatId = msg.chat.id;
+    const previewCount = args && /^\d+$/.test(args.trim())
+      ? Math.min(Math.max(parseInt(args.trim(), 10), 1), 10)
+      : 3;
 
     try {
       const taskQueue = getTaskQueue();
@@ -3186,7 +3652,21 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       }
 
       const response = schedules
-        .map((s: any) => `<b>${escapeHtml(s.id)}</b>\n${escapeHtml(s.cronExpression)}\n${escapeHtml(s.task.description)}`)
+        .map((s) => {
+          const zone = taskQueue.getScheduleTimeZone(s);
+          let entry = `<b>${escapeHtml(s.id)}</b>${s.enabled ? "" : " <i>(disabled)</i>"}\n`;
+          entry += `<code>${escapeHtml(s.cronExpression)}</code> · ${escapeHtml(zone)} · catch-up: ${s.catchUp ?? "once"}\n`;
+          entry += `${escapeHtml(s.task.description)}\n`;
+          entry += `Runs: ${s.runCount ?? 0}${s.missedRuns ? `, missed: ${s.missedRuns}` : ""}`;
+          entry += s.lastRun ? `, last: ${escapeHtml(formatInTimeZone(s.lastRun, zone))}` : "";
+          if (s.enabled) {
+            const nextRuns = taskQueue.getNextRuns(s, previewCount);
+            entry += nextRuns.length > 0
+              ? `\nNext:\n${nextRuns.map((time) => `• ${escapeHtml(formatInTimeZone(time, zone))}`).join("\n")}`
+              : `\nNext: never`;
+          }
+          return entry;
+        })
         .join("\n\n");
 
       await this.bot.sendMessage(chatId, `<b>Scheduled Tasks:</b>\n\n${response}`, { parse_mode: "HTML" });
@@ -3200,7 +3680,7 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 
   /**
    * Handle /watch command - Watch project for test failures
-   * Usage: /watch <start|stop|status> [project]
+   * Usage: /watch <start|stop|status|coverage> [project]
    */
   private async handleWatch(msg: Message, args?: string): Promise<void> {
     if (!this.isAuthorized(msg)) {
@@ -3214,7 +3694,7 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
     if (!args) {
       await this.bot.sendMessage(
         chatId,
-        `Usage: /watch <start|stop|status>\n\n• <b>start</b> - Start watching current project\n• <b>stop</b> - Stop watching\n• <b>status</b> - Show watch status`,
+        `Usage: /watch <start|stop|status|coverage>\n\n• <b>start</b> - Start watching current project\n• <b>stop</b> - Stop watching\n• <b>status</b> - Show watch status\n• <b>coverage</b> - Coverage of the last watched run`,
         { parse_mode: "HTML" }
       );
       return;
@@ -3233,15 +3713,18 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       }
 
       try {
-        await testWatcher.startWatcher(
+        const watcherId = await testWatcher.startWatcher(
           session.currentProject.path,
           session.currentProject.name,
           chatId
         );
+        const testCommand = testWatcher.getWatcher(watcherId)?.testCommand;
 
         await this.bot.sendMessage(
           chatId,
-          `👀 Now watching <b>${escapeHtml(session.currentProject.name)}</b> for test failures.\n\nTests will run automatically when files change.`,
+          `👀 Now watching <b>${escapeHtml(session.currentProject.name)}</b> for test failures.\n\n` +
+            (testCommand ? `Runner: <code>${escapeHtml(testCommand)}</code>\n` : "") +
+            `Tests will run automatically when files change, limited to the affected tests when the project index allows.`,
           { parse_mode: "HTML" }
         );
       } catch (error) {
@@ -3285,72 +3768,232 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
         let resultInfo = "";
         if (watcher.lastResult) {
           const r = watcher.lastResult;
-          resultInfo = `\nResult: ✅ ${r.passed} passed, ❌ ${r.failed} failed (${Math.round(r.duration / 1000)}s)`;
+          const scope = r.selectedTests ? `, ${r.selectedTests.length} affected target(s)` : "";
+          resultInfo = `\nResult: ✅ ${r.passed} passed, ❌ ${r.failed} failed (${Math.round(r.duration / 1000)}s${scope})`;
+          if (r.quarantined?.length) {
+            resultInfo += `\n  🔒 ${r.quarantined.length} quarantined failure(s) ignored`;
+          }
+          if (r.coverage) {
+            const changed = r.coverage.changedLines?.total
+              ? `, changed lines ${r.coverage.changedLines.covered}/${r.coverage.changedLines.total}`
+              : "";
+            resultInfo += `\n  Coverage: ${r.coverage.lines}% lines${changed}`;
+            for (const drop of (r.coverage.drops ?? []).slice(0, 3)) {
+              resultInfo += `\n  📉 ${escapeHtml(formatCoverageDrop(drop))}`;
+            }
+          }
         }
 
         response += `• <b>${escapeHtml(watcher.projectName)}</b>\n`;
         response += `  Status: ${watcher.status}\n`;
+        if (watcher.testCommand) {
+          response += `  Runner: <code>${escapeHtml(watcher.testCommand)}</code>\n`;
+        }
         response += `  ${lastRun}${resultInfo}\n\n`;
       }
 
       await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+    } else if (action === "coverage") {
+      if (!session?.currentProject) {
+        await this.bot.sendMessage(chatId, "No project selected.");
+        return;
+      }
+
+      const [latest] = await testWatcher.getCoverageHistory(session.currentProject.path, 1);
+      if (!latest) {
+        await this.bot.sendMessage(
+          chatId,
+          "No coverage collected yet. Watched runs collect it when the test runner can write a coverage report."
+        );
+        return;
+      }
+
+      let response = `📊 <b>Coverage: ${escapeHtml(session.currentProject.name)}</b>\n`;
+      response += `<i>${formatRelativeTime(Date.now() - latest.timestamp)} ago${latest.partial ? ", affected tests only" : ""}</i>\n\n`;
+      response += `Lines: ${latest.lines}%  Statements: ${latest.statements}%\n`;
+      response += `Functions: ${latest.functions}%  Branches: ${latest.branches}%\n`;
+
+      const changed = latest.changedLines;
+      if (changed && changed.total > 0) {
+        response += `\n<b>Changed since ${escapeHtml(changed.base)}:</b> ${changed.covered}/${changed.total} lines covered (${changed.pct}%)\n`;
+        for (const file of changed.files.filter(f => f.uncoveredLines.length > 0).slice(0, 8)) {
+          response += `  • <code>${escapeHtml(file.file)}</code>: ${escapeHtml(formatLineRanges(file.uncoveredLines.slice(0, 6)))}\n`;
+        }
+      }
+
+      if (latest.drops?.length) {
+        response += `\n<b>Dropped since the last full run:</b>\n`;
+        for (const drop of latest.drops) {
+          response += `  📉 ${escapeHtml(formatCoverageDrop(drop))}\n`;
+        }
+      }
+
+      const lowest = (latest.files ?? [])
+        .filter(f => f.lines.total > 0 && f.lines.pct < 100)
+        .sort((a, b) => a.lines.pct - b.lines.pct)
+        .slice(0, 5);
+      if (lowest.length > 0) {
+        response += `\n<b>Least covered:</b>\n`;
+        for (const file of lowest) {
+          response += `  • <code>${escapeHtml(file.file)}</code> ${file.lines.pct}% (${file.lines.covered}/${file.lines.total})\n`;
+        }
+      }
+
+      for (const chunk of chunkMessage(response)) {
+        await this.bot.sendMessage(chatId, chunk, { parse_mode: "HTML" });
+      }
     } else {
       await this.bot.sendMessage(
         chatId,
-        `Unknown action: <b>${escapeHtml(action)}</b>\n\nUse: start, stop, or status`,
+        `Unknown action: <b>${escapeHtml(action)}</b>\n\nUse: start, stop, status, or coverage`,
         { parse_mode: "HTML" }
       );
     }
   }
 
   /**
-   * Handle /notifications command - Manage notification preferences
-   * Usage: /notifications <status|enable|disable|digest|types|quiet>
+   * Handle /tests command - Flaky tests and quarantine
+   * Usage: /tests [flaky|quarantine <id|name>|release <id|name>]
    */
-  private async handleNotifications(msg: Message, args?: string): Promise<void> {
+  private async handleTests(msg: Message, args?: string): Promise<void> {
     if (!this.isAuthorized(msg)) {
       return this.sendNotAuthorized(msg);
     }
 
     await ensureBrainInitialized();
     const chatId = msg.chat.id;
-    const router = getNotificationRouter();
-    await router.initialize();
+    const session = this.sessionManager.getSession(chatId);
 
-    if (!args) {
-      const prefs = router.getPreferences(chatId);
-      const types = prefs.types;
+    if (!session?.currentProject) {
+      await this.bot.sendMessage(chatId, "No project selected. Use /select first.");
+      return;
+    }
 
-      let response = `🔔 <b>Notification Settings</b>\n\n`;
-      response += `Status: ${prefs.enabled ? '✅ Enabled' : '❌ Disabled'}\n\n`;
+    const projectPath = session.currentProject.path;
+    const [action = "flaky", ...rest] = (args ?? "").trim().split(/\s+/).filter(Boolean);
+    const target = rest.join(" ");
+    const tracker = getFlakinessTracker();
 
-      response += `<b>Notification Types:</b>\n`;
-      for (const [type, enabled] of Object.entries(types)) {
-        response += `  ${enabled ? '✅' : '❌'} ${type}\n`;
-      }
+    if (action.toLowerCase() === "flaky") {
+      const flaky = await tracker.getFlakyTests(projectPath);
 
-      if (prefs.quietHoursStart !== undefined) {
-        response += `\n<b>Quiet Hours:</b> ${prefs.quietHoursStart}:00 - ${prefs.quietHoursEnd}:00\n`;
+      if (flaky.length === 0) {
+        await this.bot.sendMessage(
+          chatId,
+          "No flaky tests detected. Tests that fail and then pass without code changes show up here."
+        );
+        return;
       }
 
-      if (prefs.minimumImmediatePriority) {
-        response += `<b>Min Priority:</b> ${prefs.minimumImmediatePriority}\n`;
+      let response = `🎲 <b>Flaky Tests: ${escapeHtml(session.currentProject.name)}</b>\n\n`;
+      for (const test of flaky) {
+        response += `${test.quarantined ? "🔒" : "•"} <code>${test.id}</code> ${escapeHtml(test.file)} › ${escapeHtml(test.test)}\n`;
+        response += `  Score ${Math.round(test.score * 100)}%, failed ${test.failures}/${test.runs} runs (${Math.round(test.failureRate * 100)}%)`;
+        if (test.retryPasses > 0) response += `, passed on ${test.retryPasses} rerun(s)`;
+        response += `\n  Last seen ${formatRelativeTime(Date.now() - test.lastSeenAt)} ago`;
+        if (test.lastFailedAt) response += `, last failed ${formatRelativeTime(Date.now() - test.lastFailedAt)} ago`;
+        response += "\n";
+        if (test.lastError) {
+          response += `  <code>${escapeHtml(truncateText(test.lastError.split("\n")[0], 200))}</code>\n`;
+        }
+        response += "\n";
       }
+      response += `Skip one with /tests quarantine &lt;id&gt;, restore it with /tests release &lt;id&gt;`;
 
-      response += `\n<b>Digest:</b> ${prefs.digestEnabled ? '✅ Every ' + prefs.digestInterval + ' min' : '❌ Disabled'}\n`;
+      for (const chunk of chunkMessage(response)) {
+        await this.bot.sendMessage(chatId, chunk, { parse_mode: "HTML" });
+      }
+    } else if (action.toLowerCase() === "quarantine") {
+      if (!target) {
+        await this.bot.sendMessage(chatId, "Usage: /tests quarantine <id|test name>");
+        return;
+      }
 
-      response += `\n<b>Actions:</b>\n`;
-      response += `/notifications enable|disable - Toggle notifications\n`;
-      response += `/notifications types - Toggle specific types\n`;
-      response += `/notifications digest <min> - Set digest interval\n`;
-      response += `/notifications quiet <start> <end> - Set quiet hours`;
+      const test = await tracker.quarantine(projectPath, target, chatId, "Quarantined from chat");
+      if (!test) {
+        await this.bot.sendMessage(chatId, `No test history for "${target}". See /tests flaky for ids.`);
+        return;
+      }
 
-      await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
-      return;
-    }
+      await this.bot.sendMessage(
+        chatId,
+        `🔒 Quarantined <b>${escapeHtml(test.test)}</b>\n\nIts failures no longer count as test failures or trigger healing. Use /tests release ${test.id} to restore it.`,
+        { parse_mode: "HTML" }
+      );
+    } else if (action.toLowerCase() === "release") {
+      if (!target) {
+        await this.bot.sendMessage(chatId, "Usage: /tests release <id|test name>");
+        return;
+      }
 
-    const parts = args.trim().split(/\s+/);
-    const action = parts[0].toLowerCase();
+      const test = await tracker.release(projectPath, target);
+      if (!test) {
+        await this.bot.sendMessage(chatId, `No quarantined test "${target}".`);
+        return;
+      }
+
+      await this.bot.sendMessage(
+        chatId,
+        `🔓 Released <b>${escapeHtml(test.test)}</b>; its failures count again.`,
+        { parse_mode: "HTML" }
+      );
+    } else {
+      await this.bot.sendMessage(
+        chatId,
+        `Unknown action: <b>${escapeHtml(action)}</b>\n\nUse: flaky, quarantine, or release`,
+        { parse_mode: "HTML" }
+      );
+    }
+  }
+
+  /**
+   * Handle /notifications command - Manage notification preferences
+   * Usage: /notifications <status|enable|disable|digest|types|quiet>
+   */
+  private async handleNotifications(msg: Message, args?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    await ensureBrainInitialized();
+    const chatId = msg.chat.id;
+    const router = getNotificationRouter();
+    await router.initialize();
+
+    if (!args) {
+      const prefs = router.getPreferences(chatId);
+      const types = prefs.types;
+
+      let response = `🔔 <b>Notification Settings</b>\n\n`;
+      response += `Status: ${prefs.enabled ? '✅ Enabled' : '❌ Disabled'}\n\n`;
+
+      response += `<b>Notification Types:</b>\n`;
+      for (const [type, enabled] of Object.entries(types)) {
+        response += `  ${enabled ? '✅' : '❌'} ${type}\n`;
+      }
+
+      if (prefs.quietHoursStart !== undefined) {
+        response += `\n<b>Quiet Hours:</b> ${prefs.quietHoursStart}:00 - ${prefs.quietHoursEnd}:00\n`;
+      }
+
+      if (prefs.minimumImmediatePriority) {
+        response += `<b>Min Priority:</b> ${prefs.minimumImmediatePriority}\n`;
+      }
+
+      response += `\n<b>Digest:</b> ${prefs.digestEnabled ? '✅ Every ' + prefs.digestInterval + ' min' : '❌ Disabled'}\n`;
+
+      response += `\n<b>Actions:</b>\n`;
+      response += `/notifications enable|disable - Toggle notifications\n`;
+      response += `/notifications types - Toggle specific types\n`;
+      response += `/notifications digest <min> - Set digest interval\n`;
+      response += `/notifications quiet <start> <end> - Set quiet hours`;
+
+      await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+      return;
+    }
+
+    const parts = args.trim().split(/\s+/);
+    const action = parts[0].toLowerCase();
 
     if (action === "enable") {
       const prefs = router.getPreferences(chatId);
@@ -3838,57 +4481,401 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
   }
 
   /**
-   * Handle /semantic command - Semantic memory search
+   * Handle /semantic command - Hybrid search across conversations, memory and code
+   * Usage: /semantic <query> [--in conversation,fact,decision,code]
    */
-  private async handleSemanticSearch(msg: Message, query?: string): Promise<void> {
+  private async handleSemanticSearch(msg: Message, args?: string): Promise<void> {
     if (!this.isAuthorized(msg)) {
       return this.sendNotAuthorized(msg);
     }
 
     await ensureBrainInitialized();
     const chatId = msg.chat.id;
-    const memory = getMemoryStore();
+    const sourceMatch = args?.match(/--in\s+([\w,]+)/);
+    const query = args?.replace(/--in\s+[\w,]+/, "").trim();
 
     if (!query) {
       await this.bot.sendMessage(
         chatId,
-        `Usage: /semantic <query>\n\nExample: /semantic how do I handle authentication?\n\nThis searches your memory using semantic similarity, finding related content even without exact keyword matches.`
+        `Usage: /semantic <query> [--in ${RETRIEVAL_SOURCES.join(",")}]\n\nExample: /semantic how do I handle authentication?\n\nThis searches chat history, facts, decisions and indexed code by keywords and meaning, finding related content even without exact keyword matches.`
       );
       return;
     }
 
+    let sources: RetrievalSource[] | undefined;
+    if (sourceMatch) {
+      const requested = sourceMatch[1].split(",").map((s) => s.trim().replace(/s$/, "")).filter(Boolean);
+      const unknown = requested.filter((s) => !RETRIEVAL_SOURCES.includes(s as RetrievalSource));
+      if (unknown.length > 0) {
+        await this.bot.sendMessage(chatId, `Unknown source: ${unknown.join(", ")}. Use ${RETRIEVAL_SOURCES.join(", ")}.`);
+        return;
+      }
+      sources = requested as RetrievalSource[];
+    }
+
     try {
-      const results = await memory.semanticSearch(query, 5);
+      const results = await getRetrievalService().search({ query, sources, chatId, limit: 8 });
 
       if (results.length === 0) {
         await this.bot.sendMessage(
           chatId,
-          `🔍 No semantic matches found for "<b>${escapeHtml(query)}</b>"\n\nTip: Use /remember to store more information in memory.`
+          `🔍 No matches found for "<b>${escapeHtml(query)}</b>"\n\nTip: Use /remember to store more information in memory.`,
+          { parse_mode: "HTML" }
         );
         return;
       }
 
-      let response = `🔍 <b>Semantic Search: "${escapeHtml(query)}"</b>\n\n`;
-      response += `Found <b>${results.length}</b> similar memories:\n\n`;
-
+      let response = `🔍 <b>Search: "${escapeHtml(query)}"</b>\n\n`;
       for (const result of results) {
-        const percent = Math.round(result.similarity * 100);
-        response += `<b>[${percent}%]</b> ${escapeHtml(result.text.substring(0, 100))}${result.text.length > 100 ? '...' : ''}\n`;
-        if (result.metadata?.source) {
-          response += `   📁 Source: ${escapeHtml(String(result.metadata.source))}\n`;
-        }
-        response += `\n`;
+        response += this.formatRetrievalResult(result);
+      }
+
+      const stale = getVectorStore().countStale();
+      if (stale > 0) {
+        response += `<i>${stale} memories from another embedding model were skipped - /embeddings migrate</i>`;
       }
 
       await this.bot.sendMessage(chatId, response, { parse_mode: 'HTML' });
     } catch (error) {
       await this.bot.sendMessage(
         chatId,
-        `❌ Semantic search failed: ${error instanceof Error ? error.message : String(error)}`
+        `❌ Search failed: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
+  /**
+   * One search hit with where its rank came from
+   */
+  private formatRetrievalResult(result: RetrievalResult): string {
+    const { document: doc, explanation } = result;
+    const icons: Record<RetrievalSource, string> = { conversation: "💬", fact: "🧠", decision: "📌", code: "📄" };
+    const snippet = doc.text.length > 150 ? `${doc.text.substring(0, 150)}...` : doc.text;
+
+    let line = `${icons[doc.source]} <b>${escapeHtml(doc.title)}</b> [${Math.round(result.score * 100)}%]`;
+    if (doc.location && doc.location !== doc.title) {
+      line += ` <code>${escapeHtml(doc.location)}</code>`;
+    }
+    if (doc.timestamp) {
+      line += ` <i>${new Date(doc.timestamp).toLocaleDateString()}</i>`;
+    }
+    line += "\n";
+    if (doc.source !== "code") {
+      line += `${escapeHtml(snippet)}\n`;
+    }
+
+    const why: string[] = [];
+    if (explanation.lexical) {
+      why.push(`keywords #${explanation.lexical.rank} (${explanation.lexical.terms.join(", ")})`);
+    }
+    if (explanation.semantic) {
+      why.push(`meaning #${explanation.semantic.rank} (${Math.round(explanation.semantic.similarity * 100)}%)`);
+    }
+    line += `<i>${escapeHtml(why.join(" · "))}</i>\n\n`;
+    return line;
+  }
+
+  /**
+   * Handle /embeddings [migrate|bench [queries] [@project]] - Show the embedding provider,
+   * re-embed old memories, compare the ANN index with an exact scan
+   */
+  private async handleEmbeddings(msg: Message, args?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    await ensureBrainInitialized();
+    const chatId = msg.chat.id;
+    const store = getVectorStore();
+    const provider = store.getProvider();
+    const action = args?.trim().toLowerCase();
+
+    if (action === "migrate") {
+      const stale = store.countStale();
+      if (stale === 0) {
+        await this.bot.sendMessage(chatId, `✅ All memories already use ${provider.id}.`);
+        return;
+      }
+
+      const status = await this.bot.sendMessage(chatId, `🔄 Re-embedding ${stale} memories with ${provider.id}...`);
+      let lastEdit = Date.now();
+      try {
+        const migrated = await store.reembed((done, total) => {
+          // Telegram rate-limits edits; progress every few seconds is plenty
+          if (Date.now() - lastEdit < 3000) return;
+          lastEdit = Date.now();
+          this.bot.editMessageText(`🔄 Re-embedding with ${provider.id}: ${done}/${total}`, {
+            chat_id: chatId,
+            message_id: status.message_id,
+          }).catch(() => {});
+        });
+        await this.bot.editMessageText(`✅ Re-embedded ${migrated} memories with ${provider.id}.`, {
+          chat_id: chatId,
+          message_id: status.message_id,
+        });
+      } catch (error) {
+        await this.bot.editMessageText(
+          `❌ Re-embedding stopped: ${error instanceof Error ? error.message : String(error)}\n\nProgress is saved; run /embeddings migrate again to continue.`,
+          { chat_id: chatId, message_id: status.message_id }
+        );
+      }
+      return;
+    }
+
+    if (action?.startsWith("bench")) {
+      const queries = Number.parseInt(action.match(/\b(\d+)\b/)?.[1] ?? "50", 10);
+      const project = args?.match(/@([\w.-]+)/)?.[1];
+      try {
+        const result = await store.benchmark(Math.min(Math.max(queries, 1), 1000), 10, project ? { project } : undefined);
+        let response = `⏱ <b>Vector Index Benchmark</b>${project ? ` (@${escapeHtml(project)})` : ""}\n\n`;
+        response += `${result.records} vectors · ${result.queries} queries · top ${result.k}\n\n`;
+        response += `Recall@${result.k}: <b>${(result.recall * 100).toFixed(1)}%</b>\n`;
+        response += `ANN: ${result.annMeanMs.toFixed(2)} ms mean, ${result.annP95Ms.toFixed(2)} ms p95\n`;
+        response += `Exact scan: ${result.exactMeanMs.toFixed(2)} ms mean, ${result.exactP95Ms.toFixed(2)} ms p95`;
+        await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+      } catch (error) {
+        await this.bot.sendMessage(chatId, `❌ Benchmark failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return;
+    }
+
+    if (action) {
+      await this.bot.sendMessage(chatId, "Usage: /embeddings [migrate|bench [queries] [@project]]");
+      return;
+    }
+
+    const stats = Object.entries(store.getModelStats()).sort((a, b) => b[1] - a[1]);
+    let response = `🧬 <b>Embeddings</b>\n\n`;
+    response += `Provider: <code>${escapeHtml(provider.id)}</code>\n`;
+    response += `Dimensions: ${provider.dimensions || "known after first use"}\n`;
+    const indexStats = store.getIndexStats();
+    if (indexStats) {
+      response += `Index: HNSW, ${indexStats.nodes} vectors, ${indexStats.maxLevel + 1} layers`;
+      response += indexStats.deleted > 0 ? `, ${indexStats.deleted} pending compaction\n\n` : `\n\n`;
+    } else {
+      response += `\n`;
+    }
+
+    if (stats.length === 0) {
+      response += `No memories stored yet.`;
+    } else {
+      response += `<b>Stored vectors</b>\n`;
+      for (const [model, count] of stats) {
+        const marker = model === provider.id ? "✅" : "⏳";
+        response += `${marker} <code>${escapeHtml(model)}</code>: ${count}\n`;
+      }
+      const stale = store.countStale();
+      if (stale > 0) {
+        response += `\n${stale} memories are not searchable with the current provider. Run /embeddings migrate to re-embed them.`;
+      }
+    }
+
+    await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+  }
+
+  /**
+   * Handle /memories command - Review memories consolidated from chat history
+   * Usage:
+   *   /memories [decisions|facts|todos|pinned] - List with pin/edit/forget buttons
+   *   /memories run - Summarize this chat's history now
+   */
+  private async handleMemories(msg: Message, args?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    await ensureBrainInitialized();
+    const chatId = msg.chat.id;
+    const consolidator = getMemoryConsolidator();
+    await consolidator.initialize();
+    const subcommand = args?.trim().toLowerCase() ?? "";
+
+    if (subcommand === "run") {
+      if (consolidator.isRunning()) {
+        await this.bot.sendMessage(chatId, "⏳ Consolidation is already running.");
+        return;
+      }
+
+      await this.bot.sendMessage(chatId, "🧠 Summarizing this chat's history...");
+      try {
+        // Include recent messages too, the user asked for it
+        const report = await consolidator.consolidate({ chatId, settleMs: 0 });
+        let response = report.windows === 0 && report.errors.length === 0
+          ? "Nothing new to summarize."
+          : `✅ Summarized ${report.windows} conversation windows: ${report.created} new memories, ${report.merged} merged into existing ones.`;
+        if (report.errors.length > 0) {
+          response += `\n\n⚠️ ${escapeHtml(report.errors[0])}`;
+        }
+        await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+      } catch (error) {
+        await this.bot.sendMessage(
+          chatId,
+          `❌ Consolidation failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+        return;
+      }
+      await this.sendMemoryList(chatId, "");
+      return;
+    }
+
+    const filter = subcommand.replace(/s$/, "");
+    if (filter && filter !== "pinned" && !MEMORY_KINDS.includes(filter as MemoryKind)) {
+      await this.bot.sendMessage(chatId, "Usage: /memories [decisions|facts|todos|pinned|run]");
+      return;
+    }
+    await this.sendMemoryList(chatId, filter);
+  }
+
+  /**
+   * Post the memory list with its buttons, or refresh it in place
+   */
+  private async sendMemoryList(chatId: number, filter: string, messageId?: number): Promise<void> {
+    const MAX_LISTED = 10;
+    const consolidator = getMemoryConsolidator();
+    const entries = consolidator.list(chatId, {
+      kind: MEMORY_KINDS.includes(filter as MemoryKind) ? filter as MemoryKind : undefined,
+      pinned: filter === "pinned" ? true : undefined,
+    });
+
+    const icons: Record<MemoryKind, string> = { decision: "📌", fact: "🧠", todo: "☑️" };
+    let text = `${getBrain().getEmoji()} <b>Memories${filter ? ` (${filter})` : ""}</b>\n\n`;
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+
+    if (entries.length === 0) {
+      const watermark = consolidator.getWatermark(chatId);
+      text += watermark
+        ? `Nothing here yet. History is summarized up to ${new Date(watermark).toLocaleString()}.`
+        : "No memories yet. Older chat history is summarized automatically, or run /memories run.";
+    }
+
+    entries.slice(0, MAX_LISTED).forEach((entry, i) => {
+      const n = i + 1;
+      const tags = [
+        entry.project,
+        new Date(entry.windowEnd).toLocaleDateString(),
+        `${entry.sourceMessageIds.length} msgs`,
+        entry.edited ? "edited" : undefined,
+      ].filter(Boolean).join(" · ");
+      text += `<b>${n}.</b> ${entry.pinned ? "⭐ " : ""}${icons[entry.kind]} ${escapeHtml(entry.text)}\n<i>${escapeHtml(tags)}</i>\n\n`;
+
+      const data = (action: string) => `${TelegramBotHandler.CB_MEMORY}${action}:${entry.id}:${filter}`;
+      keyboard.push([
+        { text: `${n} ${entry.pinned ? "Unpin" : "⭐ Pin"}`, callback_data: data("pin") },
+        { text: `${n} ✏️`, callback_data: data("edit") },
+        { text: `${n} 🗑`, callback_data: data("forget") },
+        { text: `${n} 💬`, callback_data: data("src") },
+      ]);
+    });
+
+    if (entries.length > MAX_LISTED) {
+      text += `<i>...and ${entries.length - MAX_LISTED} more. Filter with /memories decisions|facts|todos|pinned.</i>`;
+    }
+
+    const options = { parse_mode: "HTML" as const, reply_markup: { inline_keyboard: keyboard } };
+    if (messageId) {
+      await this.bot.editMessageText(text, { chat_id: chatId, message_id: messageId, ...options }).catch(() => undefined);
+    } else {
+      await this.bot.sendMessage(chatId, text, options);
+    }
+  }
+
+  /**
+   * Handle the pin/edit/forget/sources buttons on /memories
+   * Returns a short notice for the callback answer, if any.
+   */
+  private async handleMemoryAction(
+    chatId: number,
+    action: string,
+    id: string,
+    filter: string,
+    messageId?: number
+  ): Promise<string | undefined> {
+    const consolidator = getMemoryConsolidator();
+    const entry = consolidator.get(id);
+    if (!entry || entry.chatId !== chatId) {
+      return "That memory has been forgotten.";
+    }
+
+    switch (action) {
+      case "pin":
+        await consolidator.setPinned(id, !entry.pinned);
+        await this.sendMemoryList(chatId, filter, messageId);
+        return entry.pinned ? "Pinned, it will be added to every prompt." : "Unpinned.";
+      case "forget":
+        await consolidator.forget(id);
+        if (this.pendingMemoryEdits.get(chatId) === id) {
+          this.pendingMemoryEdits.delete(chatId);
+        }
+        await this.sendMemoryList(chatId, filter, messageId);
+        return "Forgotten.";
+      case "edit":
+        this.pendingMemoryEdits.set(chatId, id);
+        await this.bot.sendMessage(
+          chatId,
+          `✏️ Send the new text for this memory (or /cancel):\n\n<pre>${escapeHtml(entry.text)}</pre>`,
+          { parse_mode: "HTML", reply_markup: { force_reply: true } }
+        );
+        return undefined;
+      case "src": {
+        const sources = consolidator.getSourceMessages(id);
+        if (sources.length === 0) {
+          return "The source messages have been pruned.";
+        }
+        let text = `💬 <b>Sources for:</b> ${escapeHtml(truncateText(entry.text, 100))}\n\n`;
+        for (const message of sources.slice(0, 10)) {
+          const speaker = message.messageType === "user" ? (message.username ?? "user") : "bot";
+          text += `<i>${new Date(message.timestamp).toLocaleString()} · ${escapeHtml(speaker)}</i>\n${escapeHtml(truncateText(message.text, 300))}\n\n`;
+        }
+        await this.bot.sendMessage(chatId, text, { parse_mode: "HTML" });
+        return undefined;
+      }
+      default:
+        return "Unknown action.";
+    }
+  }
+
+  /**
+   * Summarize a chat history window for the memory consolidator
+   */
+  private async runMemorySummary(request: SummaryRequest): Promise<string> {
+    if (!this.hasRunCapacity()) {
+      throw new Error("Concurrent Claude process limit reached");
+    }
+
+    // Run outside any project: the transcript is all the summary needs. It is untrusted
+    // chat text, so plan mode keeps it from editing files or running commands.
+    const claudeProcess = this.claudeSpawner.spawnProcess({
+      project: { name: "memory", path: getBrain().getBrainDir(), isGit: false, lastModified: Date.now(), sessionCount: 0 },
+      prompt: request.prompt,
+      model: this.config.claudeDefaultModel,
+      output: "stream-json",
+      permissionMode: "plan",
+    });
+    const result = await this.claudeSpawner.waitForProcess(claudeProcess);
+    this.recordRunUsage(result, request.chatId, request.project ?? "memory", "memory");
+
+    if (result.exitCode !== 0) {
+      throw new Error(result.errors[0] ?? `Claude exited with code ${result.exitCode}`);
+    }
+    return result.output;
+  }
+
+  /**
+   * Point the vector store at the configured embedding provider
+   */
+  private configureEmbeddings(): void {
+    try {
+      getVectorStore().setProvider(createEmbeddingProvider({
+        provider: this.config.embeddingProvider,
+        model: this.config.embeddingModel,
+        url: this.config.embeddingUrl,
+        apiKey: this.config.embeddingApiKey,
+      }));
+    } catch (error) {
+      this.logger.warn(`Embedding provider not available, using hash embeddings: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Handle /index command - Index project for context awareness
    */
@@ -3901,14 +4888,18 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
     const chatId = msg.chat.id;
     const memory = getMemoryStore();
 
+    // "--full" re-parses every file instead of only the changed ones
+    const full = /(^|\s)--full\b/.test(args ?? "");
+    const pathArg = args?.replace(/(^|\s)--full\b/, "").trim();
+
     // Get project path from args or memory
-    let projectPath = args || memory.getFactTyped<string>('current-project');
+    let projectPath = pathArg || memory.getFactTyped<string>('current-project');
 
     if (!projectPath) {
       await this.bot.sendMessage(
         chatId,
         `No project path specified.\n\n` +
-        `Usage: /index <project-path>\n` +
+        `Usage: /index <project-path> [--full]\n` +
         `Or first set: /remember current-project <path>`,
         { parse_mode: "HTML" }
       );
@@ -3919,7 +4910,8 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       const indexer = getContextIndexer();
       await this.bot.sendMessage(chatId, `🔍 Indexing project: ${projectPath}...`);
 
-      const fingerprint = await indexer.indexProject(projectPath);
+      const fingerprint = await indexer.indexProject(projectPath, { full });
+      const update = fingerprint.lastUpdate;
 
       const languageList = Object.entries(fingerprint.languages)
         .map(([lang, count]) => `${lang}: ${count}`)
@@ -3934,6 +4926,10 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
         `<b>Entry Points:</b> ${fingerprint.structure.entryPoints.length}\n` +
         `<b>Test Files:</b> ${fingerprint.structure.testFiles.length}\n` +
         `<b>Config Files:</b> ${fingerprint.structure.configFiles.length}\n\n` +
+        (update
+          ? `<i>${update.mode === "incremental" ? "Incremental" : "Full"} update: ${update.parsed} file(s) parsed, ` +
+            `${update.removed} removed in ${(update.duration / 1000).toFixed(1)}s</i>\n\n`
+          : "") +
         `Now use /search <query> to find code!`;
 
       await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
@@ -3976,36 +4972,31 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
         return;
       }
 
-      const indexer = getContextIndexer();
-      const result = indexer.getContext(projectPath, query);
+      const fingerprint = getContextIndexer().getFingerprint(projectPath);
+      if (!fingerprint) {
+        await this.bot.sendMessage(chatId, `Project not indexed yet. Run /index first!`);
+        return;
+      }
+
+      const results = await getRetrievalService().search({
+        query,
+        sources: ["code"],
+        project: projectPath,
+        limit: 10,
+      });
 
-      if (result.files.length === 0) {
+      if (results.length === 0) {
         await this.bot.sendMessage(
           chatId,
-          `No results found for "<b>${escapeHtml(query)}</b>"\n\nMake sure to run /index first!`,
+          `No results found for "<b>${escapeHtml(query)}</b>" in ${escapeHtml(fingerprint.projectName)}`,
           { parse_mode: "HTML" }
         );
         return;
       }
 
-      let response = `🔍 <b>Search: "${escapeHtml(query)}"</b>\n\n`;
-      response += `${result.summary}\n\n`;
-
-      // Show matching files (limit to 10)
-      response += `<b>Files:</b>\n`;
-      for (const file of result.files.slice(0, 10)) {
-        response += `• <code>${escapeHtml(file.relativePath)}</code>\n`;
-        if (file.exports && file.exports.length > 0) {
-          response += `  exports: ${escapeHtml(file.exports.slice(0, 3).join(', '))}\n`;
-        }
-        if (file.classes && file.classes.length > 0) {
-          response += `  classes: ${escapeHtml(file.classes.join(', '))}\n`;
-        }
-      }
-
-      if (result.symbols.length > 0) {
-        response += `\n<b>Symbols:</b>\n`;
-        response += escapeHtml(result.symbols.slice(0, 10).join(', '));
+      let response = `🔍 <b>Search: "${escapeHtml(query)}"</b> in ${escapeHtml(fingerprint.projectName)}\n\n`;
+      for (const result of results) {
+        response += this.formatRetrievalResult(result);
       }
 
       await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
@@ -4082,6 +5073,19 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
         response += `<b>Types:</b> ${escapeHtml(fileInfo.types.slice(0, 10).join(', '))}\n`;
       }
 
+      // Outline with line ranges, when the file was parsed into a syntax tree
+      const outline = (fileInfo.symbols ?? []).filter((s) => s.kind !== "variable");
+      if (outline.length > 0) {
+        response += `\n<b>Outline:</b>\n`;
+        for (const symbol of outline.slice(0, 25)) {
+          const name = symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name;
+          response += `<code>${symbol.startLine}-${symbol.endLine}</code> ${symbol.kind} ${escapeHtml(name)}${symbol.exported ? " ⬆" : ""}\n`;
+        }
+        if (outline.length > 25) {
+          response += `<i>...and ${outline.length - 25} more</i>\n`;
+        }
+      }
+
       await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
     } catch (error) {
       await this.bot.sendMessage(
@@ -4092,44 +5096,337 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
   }
 
   /**
-   * Handle callback queries from inline keyboards
+   * Reference graph of the current project, or null after telling the user why not
    */
-  private async handleCallbackQuery(query: CallbackQuery): Promise<void> {
-    const chatId = query.message?.chat.id;
-    const data = query.data;
-
-    if (!chatId || !data) return;
-
-    // Check authorization using proper callback authorization check
-    if (query.from && !this.isCallbackAuthorized(query.from)) {
-      await this.bot.answerCallbackQuery(query.id, { text: "Not authorized" });
-      return;
+  private async getProjectGraph(chatId: number): Promise<{ graph: ReferenceGraph; projectName: string } | null> {
+    const projectPath = getMemoryStore().getFactTyped<string>('current-project');
+    if (!projectPath) {
+      await this.bot.sendMessage(chatId, `No project set.\n\nUse: /remember current-project <path>\nThen run: /index`);
+      return null;
     }
 
-    // Handle project selection
-    if (data.startsWith(TelegramBotHandler.CB_SELECT_PROJECT)) {
-      const projectName = data.slice(TelegramBotHandler.CB_SELECT_PROJECT.length);
-      await this.handleProjectSelection(chatId, projectName, query.message?.message_id);
-    }
-    // Handle remove project
-    else if (data.startsWith(TelegramBotHandler.CB_RM_PROJECT)) {
-      const projectName = data.slice(TelegramBotHandler.CB_RM_PROJECT.length);
-      await this.handleRemoveProjectByCallback(chatId, projectName, query.message?.message_id);
-    }
-    // Handle approve edit
-    else if (data.startsWith(TelegramBotHandler.CB_APPROVE_EDIT)) {
-      await this.handleEditApproval(chatId, data, true, query);
-    }
-    // Handle reject edit
-    else if (data.startsWith(TelegramBotHandler.CB_REJECT_EDIT)) {
-      await this.handleEditApproval(chatId, data, false, query);
-    }
-    // Handle cancel
-    else if (data === TelegramBotHandler.CB_CANCEL) {
-      await this.handleCancel({ chat: { id: chatId } } as Message);
+    const graph = await getContextIndexer().getGraph(projectPath);
+    if (!graph) {
+      await this.bot.sendMessage(chatId, `Project not indexed yet. Run /index first!`);
+      return null;
     }
 
-    await this.bot.answerCallbackQuery(query.id);
+    return { graph, projectName: basename(projectPath) };
+  }
+
+  /**
+   * Render references as "file:line" lines, resolved ones first
+   */
+  private formatReferences(refs: ResolvedReference[], limit = 25): string {
+    let text = "";
+    for (const ref of refs.slice(0, limit)) {
+      const where = ref.kind === "import" ? "import" : ref.caller ? `in ${escapeHtml(ref.caller)}` : "top level";
+      text += `${ref.resolved ? "✓" : "?"} <code>${escapeHtml(ref.file)}:${ref.line}</code> ${where}\n`;
+    }
+    if (refs.length > limit) {
+      text += `<i>...and ${refs.length - limit} more</i>\n`;
+    }
+    if (refs.some((ref) => !ref.resolved)) {
+      text += `\n<i>? = same name, but the file doesn't import where it's defined</i>\n`;
+    }
+    return text;
+  }
+
+  /**
+   * Handle /refs command - Definitions and references of a symbol
+   */
+  private async handleRefs(msg: Message, symbol?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    await ensureBrainInitialized();
+    const chatId = msg.chat.id;
+
+    if (!symbol) {
+      await this.bot.sendMessage(chatId, `Usage: /refs <symbol>\n\nExamples:\n/refs getUser\n/refs UserService.login`);
+      return;
+    }
+
+    try {
+      const project = await this.getProjectGraph(chatId);
+      if (!project) return;
+
+      const name = symbol.trim();
+      const definitions = project.graph.findDefinitions(name);
+      const refs = project.graph.findReferences(name);
+
+      if (definitions.length === 0 && refs.length === 0) {
+        await this.bot.sendMessage(
+          chatId,
+          `No definitions or references of <b>${escapeHtml(name)}</b> in ${escapeHtml(project.projectName)}`,
+          { parse_mode: "HTML" }
+        );
+        return;
+      }
+
+      let response = `🔗 <b>${escapeHtml(name)}</b> in ${escapeHtml(project.projectName)}\n\n`;
+      if (definitions.length > 0) {
+        response += `<b>Defined in:</b>\n`;
+        for (const def of definitions.slice(0, 10)) {
+          const qualified = def.container ? `${def.container}.${def.name}` : def.name;
+          response += `<code>${escapeHtml(def.file)}${def.line ? `:${def.line}` : ""}</code> ${def.kind} ${escapeHtml(qualified)}${def.exported ? " ⬆" : ""}\n`;
+        }
+        response += `\n`;
+      }
+      response += `<b>References (${refs.length}):</b>\n`;
+      response += refs.length > 0 ? this.formatReferences(refs) : `<i>None found</i>\n`;
+
+      await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+    } catch (error) {
+      await this.bot.sendMessage(
+        chatId,
+        `❌ Failed to find references: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Handle /callers command - Call sites of a function
+   */
+  private async handleCallers(msg: Message, symbol?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    await ensureBrainInitialized();
+    const chatId = msg.chat.id;
+
+    if (!symbol) {
+      await this.bot.sendMessage(chatId, `Usage: /callers <function>\n\nExamples:\n/callers parseConfig\n/callers UserService.login`);
+      return;
+    }
+
+    try {
+      const project = await this.getProjectGraph(chatId);
+      if (!project) return;
+
+      const name = symbol.trim();
+      const callers = project.graph.findCallers(name);
+
+      if (callers.length === 0) {
+        await this.bot.sendMessage(
+          chatId,
+          `No calls to <b>${escapeHtml(name)}</b> found in ${escapeHtml(project.projectName)}`,
+          { parse_mode: "HTML" }
+        );
+        return;
+      }
+
+      const files = new Set(callers.map((ref) => ref.file));
+      let response = `📞 <b>Callers of ${escapeHtml(name)}</b> in ${escapeHtml(project.projectName)}\n`;
+      response += `${callers.length} call(s) in ${files.size} file(s)\n\n`;
+      response += this.formatReferences(callers);
+
+      await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+    } catch (error) {
+      await this.bot.sendMessage(
+        chatId,
+        `❌ Failed to find callers: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Handle /deps command - A file's imports and importers
+   */
+  private async handleDeps(msg: Message, relativePath?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    await ensureBrainInitialized();
+    const chatId = msg.chat.id;
+
+    if (!relativePath) {
+      await this.bot.sendMessage(chatId, `Usage: /deps <relative-path>\n\nExample: /deps src/auth/login.ts`);
+      return;
+    }
+
+    try {
+      const project = await this.getProjectGraph(chatId);
+      if (!project) return;
+
+      const file = relativePath.trim();
+      if (!project.graph.hasFile(file)) {
+        await this.bot.sendMessage(
+          chatId,
+          `File not found: <b>${escapeHtml(file)}</b>\n\nMake sure to run /index first!`,
+          { parse_mode: "HTML" }
+        );
+        return;
+      }
+
+      const imports = project.graph.getDependencies(file);
+      const external = project.graph.getExternalDependencies(file);
+      const importedBy = project.graph.getDependents(file);
+      const list = (files: string[]) =>
+        files.slice(0, 20).map((f) => `<code>${escapeHtml(f)}</code>`).join("\n") +
+        (files.length > 20 ? `\n<i>...and ${files.length - 20} more</i>` : "");
+
+      let response = `🧩 <b>${escapeHtml(file)}</b>\n\n`;
+      response += `<b>Imports (${imports.length}):</b>\n${imports.length > 0 ? list(imports) : "<i>none</i>"}\n\n`;
+      if (external.length > 0) {
+        response += `<b>External:</b> ${escapeHtml(external.slice(0, 15).join(", "))}${external.length > 15 ? ", ..." : ""}\n\n`;
+      }
+      response += `<b>Imported by (${importedBy.length}):</b>\n${importedBy.length > 0 ? list(importedBy) : "<i>none</i>"}\n`;
+
+      const cycle = project.graph.findCircularImports().find((files) => files.includes(file));
+      if (cycle) {
+        response += `\n⚠️ Part of an import cycle of ${cycle.length} files\n`;
+      }
+
+      await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+    } catch (error) {
+      await this.bot.sendMessage(
+        chatId,
+        `❌ Failed to get dependencies: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Handle /impact command - Files affected if a file or symbol changes
+   */
+  private async handleImpact(msg: Message, target?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    await ensureBrainInitialized();
+    const chatId = msg.chat.id;
+
+    if (!target) {
+      await this.bot.sendMessage(chatId, `Usage: /impact <relative-path|symbol>\n\nExamples:\n/impact src/db/client.ts\n/impact parseConfig`);
+      return;
+    }
+
+    try {
+      const project = await this.getProjectGraph(chatId);
+      if (!project) return;
+
+      const name = target.trim();
+      const isFile = project.graph.hasFile(name);
+      if (!isFile && project.graph.findDefinitions(name).length === 0) {
+        await this.bot.sendMessage(
+          chatId,
+          `<b>${escapeHtml(name)}</b> is neither an indexed file nor a known symbol in ${escapeHtml(project.projectName)}`,
+          { parse_mode: "HTML" }
+        );
+        return;
+      }
+
+      const impacted = project.graph.impactOf(name);
+      let response = `💥 <b>Impact of ${escapeHtml(name)}</b>\n`;
+
+      if (impacted.length === 0) {
+        response += `\nNo other files depend on it.`;
+        await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+        return;
+      }
+
+      response += `${impacted.length} file(s) affected\n`;
+      const byDepth = new Map<number, typeof impacted>();
+      for (const entry of impacted) {
+        if (!byDepth.has(entry.depth)) byDepth.set(entry.depth, []);
+        byDepth.get(entry.depth)!.push(entry);
+      }
+
+      let shown = 0;
+      for (const [depth, entries] of byDepth) {
+        if (shown >= 30) break;
+        const label = depth === 1 ? (isFile ? "Direct importers" : "Direct references") : `Depth ${depth}`;
+        response += `\n<b>${label} (${entries.length}):</b>\n`;
+        for (const entry of entries.slice(0, 30 - shown)) {
+          response += `<code>${escapeHtml(entry.file)}</code>${entry.via ? ` <i>via ${escapeHtml(basename(entry.via))}</i>` : ""}\n`;
+          shown++;
+        }
+      }
+      if (impacted.length > shown) {
+        response += `<i>...and ${impacted.length - shown} more</i>\n`;
+      }
+
+      await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+    } catch (error) {
+      await this.bot.sendMessage(
+        chatId,
+        `❌ Failed to analyze impact: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Handle callback queries from inline keyboards
+   */
+  private async handleCallbackQuery(query: CallbackQuery): Promise<void> {
+    const chatId = query.message?.chat.id;
+    const data = query.data;
+
+    if (!chatId || !data) return;
+
+    // Check authorization using proper callback authorization check
+    if (query.from && !this.isCallbackAuthorized(query.from)) {
+      await this.bot.answerCallbackQuery(query.id, { text: "Not authorized" });
+      return;
+    }
+
+    // Handle project selection
+    if (data.startsWith(TelegramBotHandler.CB_SELECT_PROJECT)) {
+      const projectName = data.slice(TelegramBotHandler.CB_SELECT_PROJECT.length);
+      await this.handleProjectSelection(chatId, projectName, query.message?.message_id);
+    }
+    // Handle remove project
+    else if (data.startsWith(TelegramBotHandler.CB_RM_PROJECT)) {
+      const projectName = data.slice(TelegramBotHandler.CB_RM_PROJECT.length);
+      await this.handleRemoveProjectByCallback(chatId, projectName, query.message?.message_id);
+    }
+    // Handle approve edit
+    else if (data.startsWith(TelegramBotHandler.CB_APPROVE_EDIT)) {
+      await this.handleEditApproval(chatId, data, true, query);
+    }
+    // Handle reject edit
+    else if (data.startsWith(TelegramBotHandler.CB_REJECT_EDIT)) {
+      await this.handleEditApproval(chatId, data, false, query);
+    }
+    // Handle cancel
+    else if (data === TelegramBotHandler.CB_CANCEL) {
+      await this.handleCancel({ chat: { id: chatId } } as Message);
+    }
+    // Handle post-run worktree actions
+    else if (data.startsWith(TelegramBotHandler.CB_WORKTREE)) {
+      const [action, id] = data.slice(TelegramBotHandler.CB_WORKTREE.length).split(":");
+      await this.handleWorktreeAction(chatId, action as WorktreeAction, id, query.message?.message_id);
+    }
+    // Handle diff review buttons
+    else if (data.startsWith(TelegramBotHandler.CB_HUNK)) {
+      const [action, reviewId, index] = data.slice(TelegramBotHandler.CB_HUNK.length).split(":");
+      const notice = await this.handleHunkAction(chatId, action, reviewId, index ? Number.parseInt(index, 10) : undefined);
+      await this.bot.answerCallbackQuery(query.id, { text: notice });
+      return;
+    }
+    // Handle /memories buttons
+    else if (data.startsWith(TelegramBotHandler.CB_MEMORY)) {
+      const [action, id, filter] = data.slice(TelegramBotHandler.CB_MEMORY.length).split(":");
+      const notice = await this.handleMemoryAction(chatId, action, id, filter ?? "", query.message?.message_id);
+      await this.bot.answerCallbackQuery(query.id, notice ? { text: notice } : undefined);
+      return;
+    }
+    // Handle queued prompt buttons
+    else if (data.startsWith(TelegramBotHandler.CB_QUEUE)) {
+      const [action, id] = data.slice(TelegramBotHandler.CB_QUEUE.length).split(":");
+      const notice = await this.handleQueueAction(chatId, action, id);
+      if (notice) {
+        await this.bot.answerCallbackQuery(query.id, { text: notice });
+        return;
+      }
+    }
+
+    await this.bot.answerCallbackQuery(query.id);
   }
 
   /**
@@ -4206,49 +5503,161 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 
   /**
    * Handle edit approval/rejection
+   * Answers the matching permission request of a running Claude process
    */
   private async handleEditApproval(
     chatId: number,
-    _data: string,
+    data: string,
     approved: boolean,
     query: CallbackQuery
   ): Promise<void> {
+    const prefix = approved ? TelegramBotHandler.CB_APPROVE_EDIT : TelegramBotHandler.CB_REJECT_EDIT;
+    const requestId = data.slice(prefix.length);
+    const messageId = query.message?.message_id;
+
+    // Only the chat whose run asked can answer; anything else reads as not pending
+    const approval = this.permissionApprovals.get(requestId);
+    const resolved = this.permissionBridge.resolve(requestId, chatId, approved);
+    if (resolved) {
+      this.permissionApprovals.delete(requestId);
+    }
+
+    const text = resolved
+      ? `${approved ? "✅ Allowed" : "❌ Denied"}: ${escapeHtml(approval?.summary ?? resolved.toolName)}`
+      : "⌛ This request is no longer pending.";
+
+    if (messageId) {
+      try {
+        await this.bot.editMessageText(text, {
+          chat_id: chatId,
+          message_id: messageId,
+          parse_mode: "HTML",
+        });
+      } catch {
+        await this.bot.sendMessage(chatId, text, { parse_mode: "HTML" });
+      }
+    } else {
+      await this.bot.sendMessage(chatId, text, { parse_mode: "HTML" });
+    }
+
+    // Move the session on to the next outstanding request, if any
     const session = this.sessionManager.getSession(chatId);
+    if (session?.pendingApproval && session.pendingApproval.id === requestId) {
+      const next = this.permissionBridge
+        .getPendingForChat(chatId)
+        .map((request) => this.permissionApprovals.get(request.id))
+        .find((pending) => pending !== undefined);
+      this.sessionManager.setPendingApproval(chatId, next ?? null);
+    }
+  }
 
-    if (!session?.pendingApproval) {
-      await this.bot.sendMessage(chatId, "No pending approval to process.");
-      return;
+  /**
+   * Tell a chat, once, that approvals are unavailable because the bridge failed to start
+   */
+  private async warnPermissionFallback(chatId: number): Promise<void> {
+    const startError = this.permissionBridge.getStartError();
+    if (!startError || this.permissionFallbackWarned.has(chatId)) return;
+    this.permissionFallbackWarned.add(chatId);
+
+    await this.bot.sendMessage(
+      chatId,
+      `⚠️ <b>Telegram approvals are unavailable</b>\n\n` +
+        `The permission bridge failed to start: ${escapeHtml(startError)}\n` +
+        `Claude runs use the CLI's own <code>${this.config.claudePermissionMode}</code> permission mode, ` +
+        `so tool calls that need approval are denied instead of asked here.`,
+      { parse_mode: "HTML" }
+    );
+  }
+
+  /**
+   * Ask the user to approve a tool use requested by a running Claude process
+   */
+  private async sendPermissionPrompt(
+    chatId: number,
+    project: Project,
+    request: PermissionPromptRequest
+  ): Promise<void> {
+    const summary = describeToolUse(request.toolName, request.input, project.path);
+    const files = this.getPermissionFiles(request);
+
+    const approval: EditApprovalRequest = {
+      id: request.id,
+      project,
+      files,
+      type: files.some((f) => f.action === "delete")
+        ? "delete"
+        : files.some((f) => f.action === "create") ? "create" : "edit",
+      timestamp: request.timestamp,
+      toolName: request.toolName,
+      summary,
+    };
+
+    let message = `🔐 <b>Permission needed</b> (${escapeHtml(request.reason)})\n\n`;
+    message += `${escapeHtml(summary)}\n`;
+
+    const preview = this.getPermissionPreview(request);
+    if (preview) {
+      message += `\n<pre>${escapeHtml(truncateText(preview, 1500))}</pre>`;
     }
 
-    const messageId = query.message?.message_id;
-    if (!messageId) {
-      await this.bot.sendMessage(chatId, "Cannot edit message: message ID not found.");
-      return;
+    this.permissionApprovals.set(request.id, approval);
+    if (!this.sessionManager.getPendingApproval(chatId)) {
+      this.sessionManager.setPendingApproval(chatId, approval);
     }
 
-    if (approved) {
-      // Note: File edit application is not yet implemented
-      // Claude Code CLI handles file edits directly during execution
-      // This approval system is reserved for future multi-step edit workflows
-      await this.bot.editMessageText("⚠️ Edit approval acknowledged.", {
-        chat_id: chatId,
-        message_id: messageId,
-      });
+    await this.bot.sendMessage(chatId, message, {
+      parse_mode: "HTML",
+      reply_markup: {
+        inline_keyboard: [[
+          { text: "✅ Allow", callback_data: `${TelegramBotHandler.CB_APPROVE_EDIT}${request.id}` },
+          { text: "❌ Deny", callback_data: `${TelegramBotHandler.CB_REJECT_EDIT}${request.id}` },
+        ]],
+      },
+    });
+  }
 
-      await this.bot.sendMessage(
-        chatId,
-        "Note: File edits are applied directly by Claude CLI during execution. " +
-        "This approval flow is reserved for future multi-step edit workflows."
-      );
-    } else {
-      await this.bot.editMessageText("❌ Edits rejected.", {
-        chat_id: chatId,
-        message_id: messageId,
-      });
+  /**
+   * Files a permission request would touch
+   */
+  private getPermissionFiles(request: PermissionPromptRequest): FileEdit[] {
+    const input = request.input;
+
+    switch (request.toolName) {
+      case "Write":
+        return [{ path: String(input.file_path ?? ""), action: "create", newContent: String(input.content ?? "") }];
+      case "Edit":
+      case "MultiEdit":
+        return [{ path: String(input.file_path ?? ""), action: "modify" }];
+      case "NotebookEdit":
+        return [{ path: String(input.notebook_path ?? ""), action: "modify" }];
+      case "Bash":
+        return typeof input.command === "string"
+          ? parseRemovedPaths(input.command).map((path) => ({ path, action: "delete" as const }))
+          : [];
+      default:
+        return [];
     }
+  }
 
-    this.sessionManager.setPendingApproval(chatId, null);
-    this.sessionManager.setSessionStatus(chatId, "idle");
+  /**
+   * Short preview of what a permission request would do
+   */
+  private getPermissionPreview(request: PermissionPromptRequest): string {
+    const input = request.input;
+
+    switch (request.toolName) {
+      case "Bash":
+        return String(input.command ?? "");
+      case "Edit": {
+        const prefixLines = (text: unknown, sign: string) =>
+          String(text ?? "").split("\n").map((line) => `${sign} ${line}`).join("\n");
+        return `${prefixLines(input.old_string, "-")}\n${prefixLines(input.new_string, "+")}`;
+      }
+      case "Write":
+        return String(input.content ?? "");
+      default:
+        return "";
+    }
   }
 
   /**
@@ -4256,12 +5665,13 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
    */
   private async handleTextMessage(msg: Message): Promise<void> {
     const chatId = msg.chat.id;
-    const text = msg.text;
+    const text = msg.text ?? msg.caption ?? "";
+    const hasAttachments = this.attachments.hasAttachments(msg);
     const userInfo = `${msg.from?.username || msg.from?.first_name || "unknown"} (${chatId})`;
 
     // Skip if it's a command
-    if (text?.startsWith("/")) return;
-    if (!text) return;
+    if (text.startsWith("/")) return;
+    if (!text && !hasAttachments) return;
 
     // Log incoming message
     this.logger.info(`📨 Message from ${userInfo}`);
@@ -4279,16 +5689,56 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       return;
     }
 
-    const session = this.sessionManager.getOrCreateSession(chatId, {
-      username: msg.from?.username,
+    // Replacement text for a queued prompt
+    const editingId = this.pendingQueueEdits.get(chatId);
+    if (editingId && msg.text) {
+      this.pendingQueueEdits.delete(chatId);
+      const item = this.sessionManager.updateQueuedPrompt(chatId, editingId, msg.text);
+      if (item) {
+        await this.refreshQueueMessages(chatId, item.workspaceName);
+        await this.bot.sendMessage(chatId, "✏️ Queued prompt updated.");
+      } else {
+        await this.bot.sendMessage(chatId, "That prompt has already run or been dropped.");
+      }
+      return;
+    }
+
+    // Replacement text for a consolidated memory
+    const memoryId = this.pendingMemoryEdits.get(chatId);
+    if (memoryId && msg.text) {
+      this.pendingMemoryEdits.delete(chatId);
+      const entry = await getMemoryConsolidator().update(memoryId, msg.text);
+      await this.bot.sendMessage(chatId, entry ? "✏️ Memory updated." : "That memory has been forgotten.");
+      return;
+    }
+
+    const session = this.sessionManager.getOrCreateSession(chatId, {
+      username: msg.from?.username,
       firstName: msg.from?.first_name,
       lastName: msg.from?.last_name,
     });
 
     this.logger.debug(`  Session: ${session.currentProject?.name || "no project"} (${session.status})`);
 
+    // Route to a workspace: "@project ..." prefix, then reply-to, then the active workspace
+    let prompt = text;
+    let workspace: Workspace | undefined;
+    // A caption may be just "@project" when the attachment is the prompt
+    const prefixMatch = text.match(/^@([\w.-]+)(?:\s+([\s\S]+))?$/);
+    if (prefixMatch && (prefixMatch[2] || hasAttachments)) {
+      const targetProject = this.sessionManager.getWorkspace(chatId, prefixMatch[1])?.project ??
+        this.projectManager.getProject(prefixMatch[1]);
+      if (targetProject) {
+        workspace = this.sessionManager.getOrCreateWorkspace(chatId, targetProject);
+        prompt = prefixMatch[2] ?? "";
+      }
+    }
+    if (!workspace && msg.reply_to_message) {
+      workspace = this.sessionManager.findWorkspaceByMessage(chatId, msg.reply_to_message.message_id);
+    }
+
     // Check if user has a project selected
-    if (!session.currentProject) {
+    if (!workspace && !session.currentProject) {
       // Offer project selection
       const projects = this.projectManager.getProjects();
 
@@ -4332,174 +5782,1310 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       }
     }
 
-    // Ensure we have a project at this point
-    if (!session.currentProject) {
-      await this.bot.sendMessage(chatId, "No project selected. Please use /select first.");
-      return;
-    }
+    workspace ??= this.sessionManager.getWorkspace(chatId);
+
+    // Ensure we have a project at this point
+    if (!workspace) {
+      await this.bot.sendMessage(chatId, "No project selected. Please use /select first.");
+      return;
+    }
+
+    // Download attachments into the workspace's project; voice notes become prompt text
+    const attachmentDirs: string[] = [];
+    if (hasAttachments) {
+      try {
+        await this.bot.sendChatAction(chatId, msg.voice || msg.audio ? "record_voice" : "upload_document");
+        const collected = await this.attachments.collect(this.bot, msg, workspace.project.path);
+
+        if (collected.rejected.length > 0) {
+          await this.bot.sendMessage(
+            chatId,
+            `⚠️ Skipped: ${collected.rejected.map((reason) => escapeHtml(reason)).join("; ")}`,
+            { parse_mode: "HTML" }
+          );
+        }
+        if (collected.transcript) {
+          await this.bot.sendMessage(chatId, `🎙 <i>${escapeHtml(truncateText(collected.transcript, 1000))}</i>`, {
+            parse_mode: "HTML",
+          });
+          prompt = prompt ? `${prompt}\n\n${collected.transcript}` : collected.transcript;
+        }
+        if (collected.dir) {
+          attachmentDirs.push(collected.dir);
+          prompt = `${prompt || "Take a look at the attached files."}\n\n${this.attachments.formatForPrompt(collected.files)}`;
+        }
+      } catch (error) {
+        this.logger.error(`❌ Failed to download attachments for ${userInfo}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await this.bot.sendMessage(
+          chatId,
+          `Couldn't download the attachment: ${error instanceof Error ? escapeHtml(error.message) : "Unknown error"}`,
+          { parse_mode: "HTML" }
+        );
+        return;
+      }
+
+      if (!prompt.trim()) return;
+    }
+
+    // Queue behind a busy workspace (or a full process pool) instead of rejecting.
+    // Anything already queued for the workspace goes first.
+    if (
+      this.isWorkspaceBusy(chatId, workspace) ||
+      this.sessionManager.getPromptQueue(chatId, workspace.name).length > 0 ||
+      !this.hasRunCapacity()
+    ) {
+      await this.queuePrompt(chatId, workspace.name, prompt, attachmentDirs);
+      await this.processPromptQueues();
+      return;
+    }
+
+    await this.runPrompt(chatId, workspace, prompt, userInfo, attachmentDirs);
+  }
+
+  /**
+   * Run a prompt in a workspace, streaming progress to the chat
+   * Callers check that the workspace is idle and a process slot is free.
+   */
+  private async runPrompt(
+    chatId: number,
+    workspace: Workspace,
+    prompt: string,
+    userInfo: string,
+    attachmentDirs: string[] = []
+  ): Promise<void> {
+    // Hold the workspace and a process slot until the process is spawned (the spawner counts it from then on)
+    const runKey = `${chatId}:${workspace.name}`;
+    this.startingRuns.add(runKey);
+    try {
+      await this.executePrompt(chatId, workspace, prompt, userInfo, attachmentDirs);
+    } finally {
+      this.startingRuns.delete(runKey);
+      await this.cleanupAttachments(attachmentDirs);
+      void this.processPromptQueues();
+    }
+  }
+
+  private async executePrompt(
+    chatId: number,
+    workspace: Workspace,
+    prompt: string,
+    userInfo: string,
+    attachmentDirs: string[]
+  ): Promise<void> {
+    const workspaceName = workspace.name;
+    const project = workspace.project;
+    // Label output with its workspace once the chat juggles more than one
+    const label = this.sessionManager.getWorkspaces(chatId).length > 1
+      ? `📁 <b>${escapeHtml(workspaceName)}</b>\n`
+      : "";
+
+    // Enforce the chat's spend budget
+    await ensureBrainInitialized();
+    if (!(await this.checkBudget(chatId))) return;
+
+    // Add user message to conversation history
+    this.sessionManager.addToConversation(chatId, {
+      role: "user",
+      content: prompt,
+      timestamp: Date.now(),
+    }, workspaceName);
+
+    // Load self-review context for better responses
+    let enhancedPrompt = prompt;
+    try {
+      const selfReviewContext = await loadSelfReviewContext();
+      if (selfReviewContext) {
+        enhancedPrompt = `${prompt}\n\n${selfReviewContext}`;
+        this.logger.debug("Loaded self-review context for response");
+      }
+    } catch (error) {
+      this.logger.warn("Failed to load self-review context", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // Prepend the most relevant facts, decisions, conventions and files
+    if (this.config.contextBudgetTokens > 0) {
+      try {
+        const context = await getContextBuilder().build({
+          prompt,
+          chatId,
+          projectPath: project.path,
+          projectName: project.name,
+          budgetTokens: this.config.contextBudgetTokens,
+        });
+        enhancedPrompt = getContextBuilder().apply(enhancedPrompt, context);
+        this.logger.debug(`Injected ${context.items.length} context items (~${context.tokens} tokens)`);
+      } catch (error) {
+        this.logger.warn("Failed to build retrieved context", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // Optionally run in a throwaway worktree instead of the project's working tree
+    const worktree = await this.createRunWorktree(chatId, project, false, workspaceName);
+    const runProject = worktree ? { ...project, path: worktree.path } : project;
+
+    // Snapshot the working tree so the run's changes can be reviewed hunk by hunk
+    let reviewBaseline: ReviewBaseline | null = null;
+    if (this.config.diffReview && !worktree && project.isGit) {
+      reviewBaseline = await getDiffReviewManager().captureBaseline(project.path).catch(() => null);
+    }
+
+    // Continue the native Claude session for this project, or fall back to stitching
+    // recent history into the prompt (excluding the message just added).
+    // Native sessions are tied to their working directory, so isolated runs start fresh.
+    const activeClaudeSession = worktree ? null : this.sessionManager.getActiveClaudeSession(chatId, project.name);
+    if (!activeClaudeSession) {
+      const history = this.sessionManager.getConversationHistory(chatId, workspaceName).slice(0, -1);
+      enhancedPrompt = this.claudeSpawner.buildPrompt(enhancedPrompt, history);
+    }
+
+    // Send typing indicator
+    await this.bot.sendChatAction(chatId, "typing");
+
+    // Spawn Claude process
+    let permissionRunId: string | null = null;
+    try {
+      // Result message will be edited with streaming output
+      const resultMessage = await this.bot.sendMessage(
+        chatId,
+        `${label}🤖 Starting...`,
+        { parse_mode: "HTML" }
+      );
+      this.sessionManager.trackWorkspaceMessage(chatId, workspaceName, resultMessage.message_id);
+
+      this.logger.info(`🚀 Spawning Claude process for ${userInfo}`);
+      this.logger.debug(`  Project: ${project.name} (workspace ${workspaceName})`);
+      this.logger.debug(`  Path: ${project.path}`);
+      this.logger.debug(`  Model: ${this.config.claudeDefaultModel}`);
+
+      // Streaming state
+      let fullOutput = "";
+      let streamBuffer = "";
+      let lastStreamTime = Date.now();
+      let streamMessageId = resultMessage.message_id;
+      const toolActivity: string[] = []; // Most recent tool calls ("Editing src/foo.ts")
+      const KEEP_ALIVE_INTERVAL = 60_000; // Send keep-alive every 60 seconds
+      const MAX_TOOL_ACTIVITY_LINES = 5;
+
+      // Update the result message with "still working" indicator
+      const updateStatusMessage = async (output: string) => {
+        try {
+          const elapsed = Math.floor((Date.now() - lastStreamTime) / 1000);
+          const preview = output.slice(-300);
+          const activity = toolActivity.length > 0
+            ? `\n\n${toolActivity.map((line) => `🔧 ${escapeHtml(line)}`).join("\n")}`
+            : "";
+          const previewBlock = preview
+            ? `\n\n<pre>${escapeHtml(preview)}${output.length > 300 ? "..." : ""}</pre>`
+            : "";
+          const statusMsg = `${label}🤖 Claude working... (${elapsed}s since last output)${activity}${previewBlock}`;
+          await this.bot.editMessageText(statusMsg, {
+            chat_id: chatId,
+            message_id: streamMessageId,
+            parse_mode: "HTML",
+          });
+        } catch {
+          // Message might be too old or deleted - ignore
+        }
+      };
+
+      // Route tool permission requests to this chat
+      await this.warnPermissionFallback(chatId);
+      const permissionRun = this.permissionBridge.isEnabled()
+        ? this.permissionBridge.registerRun({
+            chatId,
+            projectPath: runProject.path,
+            addDirs: attachmentDirs,
+            onPrompt: (request) => this.sendPermissionPrompt(chatId, runProject, request),
+          })
+        : null;
+      permissionRunId = permissionRun?.runId ?? null;
+
+      // Spawn with streaming callback
+      const claudeProcess = this.claudeSpawner.spawnProcess({
+        project: runProject,
+        prompt: enhancedPrompt,
+        model: this.config.claudeDefaultModel,
+        output: "stream-json",
+        permissionPrompt: permissionRun?.permissionPrompt,
+        resumeSessionId: activeClaudeSession?.sessionId,
+        forkSession: activeClaudeSession?.fork,
+        addDirs: attachmentDirs,
+        onOutput: (data, event) => {
+          lastStreamTime = Date.now();
+
+          // Surface tool calls as they happen
+          if (event?.type === "tool_use") {
+            toolActivity.push(truncateText(data, 80));
+            if (toolActivity.length > MAX_TOOL_ACTIVITY_LINES) toolActivity.shift();
+            updateStatusMessage(fullOutput);
+            return;
+          }
+          if (event && event.type !== "text") return;
+
+          streamBuffer += data;
+          fullOutput += data;
+
+          // Send chunked update if buffer is large enough
+          if (streamBuffer.length >= 100) {
+            updateStatusMessage(fullOutput);
+            streamBuffer = "";
+          }
+        },
+      });
+
+      this.sessionManager.setClaudeProcess(chatId, claudeProcess, workspaceName);
+      this.startingRuns.delete(`${chatId}:${workspaceName}`);
+      this.logger.info(`⏳ Claude PID ${claudeProcess.pid} started for ${userInfo} (no timeout, streaming enabled)`);
+
+      // Keep-alive updater - sends updates if no output for a while
+      const keepAliveInterval = setInterval(() => {
+        if (claudeProcess.status !== "running") {
+          clearInterval(keepAliveInterval);
+          return;
+        }
+
+        const timeSinceOutput = Date.now() - lastStreamTime;
+        if (timeSinceOutput >= KEEP_ALIVE_INTERVAL) {
+          updateStatusMessage(fullOutput);
+        }
+      }, 30_000); // Check every 30 seconds
+
+      // Wait for result (no timeout - runs indefinitely)
+      const result = await this.claudeSpawner.waitForProcess(claudeProcess);
+
+      clearInterval(keepAliveInterval);
+
+      this.logger.info(`✅ Claude PID ${claudeProcess.pid} completed for ${userInfo}`);
+      this.logger.debug(`  Duration: ${result.duration}ms`);
+      this.logger.debug(`  Exit code: ${result.exitCode}`);
+      this.logger.debug(`  Output size: ${result.output.length} chars`);
+      if (result.edits.length > 0) {
+        this.logger.debug(`  Edits: ${result.edits.map((e) => `${e.action} ${e.path}`).join(", ")}`);
+      }
+
+      // Track metrics
+      try {
+        const { getBrain } = await import('./brain/brain-manager.js');
+        getBrain().trackMetrics({
+          claudeQueries: 1,
+          filesModified: result.edits.length,
+          activeProject: project.name
+        });
+      } catch {
+        // Metrics tracking is optional
+      }
+      const usageFooter = this.recordRunUsage(result, chatId, project.name, "chat");
+
+      // Delete the status message
+      try {
+        await this.bot.deleteMessage(resultMessage.chat.id, streamMessageId);
+      } catch {
+        // Message might be too old - ignore
+      }
+
+      // Send the final response: long output as a document, otherwise in chunks
+      const footer = usageFooter ? `\n<i>${usageFooter}</i>` : "";
+      if (shouldSendAsDocument(result.output, this.config.outputDocumentThreshold)) {
+        this.logger.debug(`  Sending output as a document (${result.output.length} chars)`);
+        const sent = await this.sendDocument(
+          chatId,
+          textDocument(artifactFileName(`${project.name}-claude`, "md"), result.output),
+          `${label}📄 Full response attached`,
+          footer
+        );
+        this.sessionManager.trackWorkspaceMessage(chatId, workspaceName, sent.message_id);
+      } else {
+        const chunks = chunkMessage(result.output);
+        this.logger.debug(`  Sending ${chunks.length} chunk(s) to Telegram`);
+        for (const [index, chunk] of chunks.entries()) {
+          const chunkFooter = index === chunks.length - 1 ? footer : "";
+          const sent = await this.bot.sendMessage(chatId, `${index === 0 ? label : ""}<pre>${escapeHtml(chunk)}</pre>${chunkFooter}`, {
+            parse_mode: "HTML",
+          });
+          this.sessionManager.trackWorkspaceMessage(chatId, workspaceName, sent.message_id);
+        }
+      }
+
+      // Large diffs are easier to review as a patch file
+      const diff = extractDiff(result.output);
+      if (diff && isLargeDiff(diff)) {
+        const sent = await this.sendDocument(
+          chatId,
+          textDocument(artifactFileName(`${project.name}-changes`, "patch"), diff),
+          `${label}🩹 Diff as a patch`
+        );
+        this.sessionManager.trackWorkspaceMessage(chatId, workspaceName, sent.message_id);
+      }
+
+      if (reviewBaseline) {
+        await this.sendDiffReview(chatId, reviewBaseline, project.name, result.edits.map((edit) => edit.path), workspaceName);
+      }
+
+      // Remember the native session so the next message continues it
+      if (worktree) {
+        // Isolated runs don't continue sessions (see above)
+      } else if (result.sessionId) {
+        this.sessionManager.recordClaudeSession(chatId, project.name, result.sessionId, prompt);
+      } else if (activeClaudeSession && result.exitCode !== 0 && isMissingSessionError(result.output)) {
+        this.sessionManager.resetClaudeSession(chatId, project.name);
+        await this.bot.sendMessage(
+          chatId,
+          "⚠️ The previous Claude session no longer exists. The next message will start a new one."
+        );
+      }
+
+      // Add assistant response to history
+      this.sessionManager.addToConversation(chatId, {
+        role: "assistant",
+        content: result.output,
+        timestamp: Date.now(),
+      }, workspaceName);
+
+      // Update workspace status
+      this.sessionManager.setClaudeProcess(chatId, null, workspaceName);
+
+    } catch (error) {
+      this.logger.error(`❌ Error processing request for ${userInfo}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await this.bot.sendMessage(
+        chatId,
+        `${label}Error: ${error instanceof Error ? escapeHtml(error.message) : "Unknown error"}\n\nUse /cancel if needed, then try again.`,
+        { parse_mode: "HTML" }
+      );
+      this.sessionManager.setClaudeProcess(chatId, null, workspaceName);
+    } finally {
+      if (permissionRunId) {
+        this.permissionBridge.unregisterRun(permissionRunId);
+      }
+      if (worktree) {
+        await this.offerWorktreeActions(chatId, worktree, prompt, workspaceName);
+      }
+    }
+  }
+
+  // ===========================================
+  // Diff Review
+  // ===========================================
+
+  /**
+   * Send a run's changes to the files it edited hunk by hunk with Keep/Revert buttons
+   */
+  private async sendDiffReview(
+    chatId: number,
+    baseline: ReviewBaseline,
+    projectName: string,
+    files: string[],
+    workspaceName?: string
+  ): Promise<void> {
+    let review: DiffReview | null;
+    try {
+      review = await getDiffReviewManager().createReview(baseline, projectName, files);
+    } catch (error) {
+      this.logger.warn("Failed to compute diff review", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    if (!review) return;
+
+    const messages: ReviewMessages = { chatId, hunkMessages: new Map() };
+    this.reviewMessages.set(review.id, messages);
+    if (this.reviewMessages.size > 50) {
+      const oldest = this.reviewMessages.keys().next().value;
+      if (oldest) this.reviewMessages.delete(oldest);
+    }
+
+    const summary = await this.bot.sendMessage(chatId, this.formatReviewSummary(review), {
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: this.reviewSummaryKeyboard(review) },
+    });
+    messages.summaryMessageId = summary.message_id;
+    if (workspaceName) {
+      this.sessionManager.trackWorkspaceMessage(chatId, workspaceName, summary.message_id);
+    }
+
+    await this.sendPendingHunks(review, messages);
+  }
+
+  /**
+   * Send the next batch of pending hunks that haven't been shown yet
+   */
+  private async sendPendingHunks(review: DiffReview, messages: ReviewMessages): Promise<number> {
+    const unsent = review.hunks.filter((h) => h.status === "pending" && !messages.hunkMessages.has(h.index));
+
+    for (const hunk of unsent.slice(0, MAX_HUNK_MESSAGES)) {
+      const sent = await this.bot.sendMessage(messages.chatId, this.formatHunk(review, hunk), {
+        parse_mode: "HTML",
+        reply_markup: { inline_keyboard: this.hunkKeyboard(review.id, hunk) },
+      });
+      messages.hunkMessages.set(hunk.index, sent.message_id);
+    }
+
+    return Math.max(0, unsent.length - MAX_HUNK_MESSAGES);
+  }
+
+  /**
+   * Handle Keep/Revert buttons on hunks and on the review summary
+   * Returns the notice shown in the callback answer.
+   */
+  private async handleHunkAction(chatId: number, action: string, reviewId: string, index?: number): Promise<string> {
+    const manager = getDiffReviewManager();
+    const review = manager.get(reviewId);
+    const messages = this.reviewMessages.get(reviewId);
+    if (!review || !messages) {
+      return "This review has expired.";
+    }
+    if (messages.chatId !== chatId) {
+      return "This review belongs to another chat.";
+    }
+
+    let result: HunkActionResult;
+    switch (action) {
+      case "keep":
+        result = manager.keep(reviewId, index ?? -1);
+        break;
+      case "revert":
+        result = await manager.revert(reviewId, index ?? -1);
+        break;
+      case "keepall":
+        result = manager.keepAll(reviewId);
+        break;
+      case "revertall":
+        result = await manager.revertAll(reviewId);
+        break;
+      default:
+        return "Unknown action.";
+    }
+
+    // Refresh the hunk messages the action touched, then the summary
+    for (const [hunkIndex, messageId] of messages.hunkMessages) {
+      if (index !== undefined && hunkIndex !== index) continue;
+      const hunk = review.hunks[hunkIndex];
+      await this.bot.editMessageText(this.formatHunk(review, hunk), {
+        chat_id: chatId,
+        message_id: messageId,
+        parse_mode: "HTML",
+        reply_markup: { inline_keyboard: this.hunkKeyboard(review.id, hunk) },
+      }).catch(() => undefined); // Unchanged or deleted
+    }
+    if (messages.summaryMessageId) {
+      await this.bot.editMessageText(this.formatReviewSummary(review), {
+        chat_id: chatId,
+        message_id: messages.summaryMessageId,
+        parse_mode: "HTML",
+        reply_markup: { inline_keyboard: this.reviewSummaryKeyboard(review) },
+      }).catch(() => undefined);
+    }
+
+    if (!result.success) {
+      await this.bot.sendMessage(chatId, `❌ ${escapeHtml(result.message)}`, { parse_mode: "HTML" });
+    }
+    return result.message;
+  }
+
+  /**
+   * Handle /review command - Show the rest of the chat's latest diff review
+   */
+  private async handleReview(msg: Message): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    const chatId = msg.chat.id;
+    const latest = [...this.reviewMessages.entries()].reverse().find(([, messages]) => messages.chatId === chatId);
+    const review = latest ? getDiffReviewManager().get(latest[0]) : undefined;
+
+    if (!latest || !review) {
+      await this.bot.sendMessage(
+        chatId,
+        this.config.diffReview
+          ? "No diff review yet. Changes are sent for review after each run in a git project."
+          : "Diff review is off (set DIFF_REVIEW=true)."
+      );
+      return;
+    }
+
+    const counts = getDiffReviewManager().summarize(review.id);
+    if (counts.pending === 0) {
+      await this.bot.sendMessage(chatId, `✅ Review of ${escapeHtml(review.projectName)} is done.`, { parse_mode: "HTML" });
+      return;
+    }
+
+    // Re-send the summary, then any hunks not shown yet
+    const summary = await this.bot.sendMessage(chatId, this.formatReviewSummary(review), {
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: this.reviewSummaryKeyboard(review) },
+    });
+    latest[1].summaryMessageId = summary.message_id;
+    await this.sendPendingHunks(review, latest[1]);
+  }
+
+  private formatReviewSummary(review: DiffReview): string {
+    const counts = getDiffReviewManager().summarize(review.id);
+    const files = new Set(review.hunks.map((h) => h.file));
+    const added = review.hunks.reduce((sum, h) => sum + h.added, 0);
+    const removed = review.hunks.reduce((sum, h) => sum + h.removed, 0);
+    const shown = this.reviewMessages.get(review.id)?.hunkMessages.size ?? 0;
+
+    let text = `🔍 <b>Review changes in ${escapeHtml(review.projectName)}</b>\n`;
+    text += `${review.hunks.length} hunk(s) in ${files.size} file(s) · +${added} −${removed}\n`;
+    text += `⏳ ${counts.pending} pending · ✅ ${counts.kept} kept · ↩️ ${counts.reverted} reverted`;
+    if (review.binaryFiles.length > 0) {
+      text += `\n\nBinary files (not reviewable here): ${review.binaryFiles.map((f) => escapeHtml(f)).join(", ")}`;
+    }
+    if (shown < review.hunks.length && counts.pending > 0) {
+      text += `\n\nShowing ${shown} of ${review.hunks.length} hunks - /review for more.`;
+    }
+    return text;
+  }
+
+  private formatHunk(review: DiffReview, hunk: DiffHunk): string {
+    const status = hunk.status === "kept" ? "✅ Kept · " : hunk.status === "reverted" ? "↩️ Reverted · " : "";
+    const position = `${hunk.index + 1}/${review.hunks.length}`;
+    const header = `${status}<b>${escapeHtml(truncateText(hunk.file, 200))}</b>${hunk.newFile ? " (new)" : ""} · +${hunk.added} −${hunk.removed} · ${position}\n`;
+
+    // Measure after escaping, since entities like &lt; make the body longer
+    let body = escapeHtml(hunk.body);
+    const room = 4000 - header.length - 50; // Leaves room for the <pre><code> wrapper
+    if (body.length > room) {
+      body = body.slice(0, room - 3).replace(/&[a-z]*$/, "") + "...";
+    }
+    return `${header}<pre><code class="language-diff">${body}</code></pre>`;
+  }
+
+  private hunkKeyboard(reviewId: string, hunk: DiffHunk): TelegramBot.InlineKeyboardButton[][] {
+    if (hunk.status === "reverted") return [];
+
+    const prefix = TelegramBotHandler.CB_HUNK;
+    const revert = { text: "↩️ Revert", callback_data: `${prefix}revert:${reviewId}:${hunk.index}` };
+    return hunk.status === "kept"
+      ? [[revert]]
+      : [[{ text: "✅ Keep", callback_data: `${prefix}keep:${reviewId}:${hunk.index}` }, revert]];
+  }
+
+  private reviewSummaryKeyboard(review: DiffReview): TelegramBot.InlineKeyboardButton[][] {
+    if (!review.hunks.some((h) => h.status === "pending")) return [];
+
+    const prefix = TelegramBotHandler.CB_HUNK;
+    return [[
+      { text: "✅ Keep all", callback_data: `${prefix}keepall:${review.id}` },
+      { text: "↩️ Revert all", callback_data: `${prefix}revertall:${review.id}` },
+    ]];
+  }
+
+  // ===========================================
+  // Documents
+  // ===========================================
+
+  /**
+   * Upload a document with a short summary as its caption
+   * Captions are HTML: `title` and `footer` are trusted markup, the summary is escaped.
+   */
+  private async sendDocument(
+    chatId: number,
+    document: OutgoingDocument,
+    title: string,
+    footer = ""
+  ): Promise<TelegramBot.Message> {
+    // Telegram captions are limited to 1024 characters
+    const room = 1000 - title.length - footer.length;
+    const summary = room > 40 ? `\n<pre>${escapeHtml(truncateText(document.summary, room - 20))}</pre>` : "";
+
+    return this.bot.sendDocument(
+      chatId,
+      document.content,
+      { caption: `${title}${summary}${footer}`, parse_mode: "HTML" },
+      { filename: document.fileName, contentType: document.contentType }
+    );
+  }
+
+  /**
+   * Send files a generator wrote into the project (README, API docs, reports)
+   */
+  private async sendGeneratedFiles(chatId: number, projectPath: string, files: string[]): Promise<void> {
+    for (const file of files) {
+      const resolved = resolveProjectFile(projectPath, file);
+      if ("error" in resolved) continue;
+
+      try {
+        const content = await readFile(resolved.path, "utf-8");
+        await this.sendDocument(
+          chatId,
+          textDocument(basename(resolved.path), content),
+          `📄 <code>${escapeHtml(resolved.relativePath)}</code>`
+        );
+      } catch (error) {
+        this.logger.warn(`Failed to send generated file ${resolved.relativePath}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Handle /get command - Send a project file as a document
+   * Usage: /get [@workspace] <path>
+   */
+  private async handleGet(msg: Message, args?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    const chatId = msg.chat.id;
+    const match = (args ?? "").trim().match(/^(?:@([\w.-]+)\s+)?(.+)$/);
+    if (!match) {
+      await this.bot.sendMessage(chatId, "Usage: /get [@project] <path>\n\nPaths are relative to the project root.");
+      return;
+    }
+
+    const workspace = this.sessionManager.getWorkspace(chatId, match[1]);
+    const project = workspace?.project ?? (match[1] ? this.projectManager.getProject(match[1]) : undefined);
+    if (!project) {
+      await this.bot.sendMessage(
+        chatId,
+        match[1] ? `Project "${match[1]}" not found.` : "No project selected. Use /select first."
+      );
+      return;
+    }
+
+    const resolved = resolveProjectFile(project.path, match[2]);
+    if ("error" in resolved) {
+      await this.bot.sendMessage(chatId, `❌ ${resolved.error}`);
+      return;
+    }
+
+    try {
+      await this.bot.sendChatAction(chatId, "upload_document");
+      await this.bot.sendDocument(
+        chatId,
+        resolved.path,
+        { caption: `📄 ${project.name}/${resolved.relativePath}` },
+        { filename: basename(resolved.path) }
+      );
+    } catch (error) {
+      await this.bot.sendMessage(
+        chatId,
+        `❌ Couldn't send ${escapeHtml(sanitizePath(resolved.relativePath))}: ${error instanceof Error ? escapeHtml(error.message) : "Unknown error"}`,
+        { parse_mode: "HTML" }
+      );
+    }
+  }
+
+  // ===========================================
+  // Prompt Queue
+  // ===========================================
+
+  /**
+   * Whether a workspace has a Claude run in progress (or about to start)
+   */
+  private isWorkspaceBusy(chatId: number, workspace: Workspace): boolean {
+    return this.startingRuns.has(`${chatId}:${workspace.name}`) ||
+      (workspace.status === "processing" && workspace.claudeProcess !== null);
+  }
+
+  /**
+   * Whether another Claude process fits under the global limit (chat workspaces, background
+   * tasks and autonomous agents, which run on their own spawner)
+   */
+  private hasRunCapacity(): boolean {
+    return getRunningProcessCount() + this.startingRuns.size < this.config.maxConcurrentSessions;
+  }
+
+  /**
+   * Queue a prompt and post its position indicator
+   */
+  private async queuePrompt(chatId: number, workspaceName: string, prompt: string, attachmentDirs: string[] = []): Promise<void> {
+    const item = this.sessionManager.enqueuePrompt(chatId, workspaceName, prompt, attachmentDirs);
+    if (!item) {
+      await this.cleanupAttachments(attachmentDirs);
+      await this.bot.sendMessage(
+        chatId,
+        "The queue is full. Wait for a run to finish, or drop queued prompts with /queue clear."
+      );
+      return;
+    }
+
+    const sent = await this.bot.sendMessage(chatId, this.formatQueuedPrompt(chatId, item), {
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: this.queueKeyboard(item.id) },
+    });
+    this.sessionManager.setQueuedMessageId(chatId, item.id, sent.message_id);
+    this.sessionManager.trackWorkspaceMessage(chatId, workspaceName, sent.message_id);
+  }
+
+  /**
+   * Start queued prompts whose workspace is idle, oldest first, while process slots are free
+   */
+  private async processPromptQueues(): Promise<void> {
+    for (const session of this.sessionManager.getAllSessions()) {
+      const chatId = session.chatId;
+
+      for (const item of this.sessionManager.getPromptQueue(chatId)) {
+        if (!this.hasRunCapacity()) return;
+
+        const workspace = this.sessionManager.getWorkspace(chatId, item.workspaceName);
+        if (!workspace) {
+          this.sessionManager.removeQueuedPrompt(chatId, item.id);
+          await this.cleanupAttachments(item.attachmentDirs);
+          continue;
+        }
+        // Earlier items were checked first, so this is the head of an idle workspace's queue
+        if (this.isWorkspaceBusy(chatId, workspace)) continue;
+        if (this.pendingQueueEdits.get(chatId) === item.id) continue;
+
+        // Start before awaiting anything so the workspace counts as busy right away
+        this.sessionManager.removeQueuedPrompt(chatId, item.id);
+        const userInfo = `${session.username || session.firstName || "unknown"} (${chatId})`;
+        this.logger.info(`📤 Running queued prompt for ${userInfo} in ${item.workspaceName}`);
+        this.runPrompt(chatId, workspace, item.prompt, userInfo, item.attachmentDirs).catch((error) => {
+          this.logger.error("Queued prompt failed", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+
+        await this.markQueueMessage(chatId, item, "▶️ Running");
+        await this.refreshQueueMessages(chatId, item.workspaceName);
+      }
+    }
+  }
+
+  /**
+   * Handle the edit/merge/drop buttons on a queued prompt
+   * Returns a short notice for the callback answer, if any.
+   */
+  private async handleQueueAction(chatId: number, action: string, id: string): Promise<string | undefined> {
+    const item = this.sessionManager.getQueuedPrompt(chatId, id);
+    if (!item) {
+      return "That prompt has already run or been dropped.";
+    }
+
+    switch (action) {
+      case "edit": {
+        this.pendingQueueEdits.set(chatId, id);
+        await this.bot.sendMessage(
+          chatId,
+          `✏️ Send the new text for this queued prompt (or /cancel):\n\n<pre>${escapeHtml(truncateText(item.prompt, 500))}</pre>`,
+          { parse_mode: "HTML", reply_markup: { force_reply: true } }
+        );
+        return undefined;
+      }
+      case "merge": {
+        const target = this.sessionManager.mergeQueuedPrompt(chatId, id);
+        if (!target) {
+          return "Nothing queued ahead of this prompt to merge into.";
+        }
+        await this.markQueueMessage(chatId, item, "🔗 Merged into the prompt ahead");
+        await this.refreshQueueMessages(chatId, item.workspaceName);
+        return undefined;
+      }
+      case "drop": {
+        this.sessionManager.removeQueuedPrompt(chatId, id);
+        if (this.pendingQueueEdits.get(chatId) === id) {
+          this.pendingQueueEdits.delete(chatId);
+        }
+        await this.markQueueMessage(chatId, item, "🗑 Dropped");
+        await this.cleanupAttachments(item.attachmentDirs);
+        await this.refreshQueueMessages(chatId, item.workspaceName);
+        return undefined;
+      }
+      default:
+        return "Unknown action.";
+    }
+  }
+
+  /**
+   * Handle /queue command - Show or manage prompts waiting for a busy workspace
+   * Usage: /queue [clear|merge] [@workspace]
+   */
+  private async handleQueue(msg: Message, args?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    const chatId = msg.chat.id;
+    const parts = (args ?? "").trim().split(/\s+/).filter(Boolean);
+    const action = parts.find((p) => !p.startsWith("@"))?.toLowerCase();
+    const target = parts.find((p) => p.startsWith("@"))?.slice(1);
+    const workspaceName = target ? this.sessionManager.getWorkspace(chatId, target)?.name : undefined;
+
+    if (target && !workspaceName) {
+      await this.bot.sendMessage(chatId, `No workspace named "${target}".`);
+      return;
+    }
+
+    if (action === "clear") {
+      const dropped = this.sessionManager.clearPromptQueue(chatId, workspaceName);
+      for (const item of dropped) {
+        await this.markQueueMessage(chatId, item, "🗑 Dropped");
+        await this.cleanupAttachments(item.attachmentDirs);
+      }
+      await this.bot.sendMessage(chatId, `Dropped ${dropped.length} queued prompt(s).`);
+      return;
+    }
+
+    if (action === "merge") {
+      // Fold each workspace's queue into its first prompt, last to first
+      let merged = 0;
+      for (const item of this.sessionManager.getPromptQueue(chatId, workspaceName).reverse()) {
+        if (this.sessionManager.mergeQueuedPrompt(chatId, item.id)) {
+          await this.markQueueMessage(chatId, item, "🔗 Merged into the prompt ahead");
+          merged++;
+        }
+      }
+      for (const workspace of this.sessionManager.getWorkspaces(chatId)) {
+        await this.refreshQueueMessages(chatId, workspace.name);
+      }
+      await this.bot.sendMessage(
+        chatId,
+        merged > 0 ? `Merged ${merged} queued prompt(s) into the next run.` : "Nothing to merge."
+      );
+      return;
+    }
+
+    if (action) {
+      await this.bot.sendMessage(chatId, "Usage: /queue [clear|merge] [@workspace]");
+      return;
+    }
+
+    const queue = this.sessionManager.getPromptQueue(chatId, workspaceName);
+    if (queue.length === 0) {
+      await this.bot.sendMessage(
+        chatId,
+        "No queued prompts. Messages sent while Claude is busy wait here until the workspace is free."
+      );
+      return;
+    }
+
+    let response = `📥 <b>Queued prompts (${queue.length}):</b>\n\n`;
+    for (const item of queue) {
+      const position = this.sessionManager.getQueuePosition(chatId, item.id);
+      response += `${position}. <b>${escapeHtml(item.workspaceName)}</b> - ${escapeHtml(truncateText(item.prompt, 80))}\n`;
+      response += `   queued ${formatRelativeTime(item.queuedAt)}\n`;
+    }
+    response += `\nUse the buttons on each queued message to edit, merge or drop it, or /queue merge | clear.`;
+
+    await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+  }
+
+  /**
+   * Update the position indicators of a workspace's queued prompts
+   */
+  private async refreshQueueMessages(chatId: number, workspaceName: string): Promise<void> {
+    for (const item of this.sessionManager.getPromptQueue(chatId, workspaceName)) {
+      if (!item.messageId) continue;
+      await this.bot.editMessageText(this.formatQueuedPrompt(chatId, item), {
+        chat_id: chatId,
+        message_id: item.messageId,
+        parse_mode: "HTML",
+        reply_markup: { inline_keyboard: this.queueKeyboard(item.id) },
+      }).catch(() => undefined); // Unchanged text or deleted message
+    }
+  }
+
+  /**
+   * Remove the scratch dirs of a finished or dropped prompt
+   */
+  private async cleanupAttachments(dirs: string[] = []): Promise<void> {
+    for (const dir of dirs) {
+      await this.attachments.cleanup(dir);
+    }
+  }
+
+  /**
+   * Replace a queued prompt's indicator with its final state (buttons removed)
+   */
+  private async markQueueMessage(chatId: number, item: QueuedPrompt, state: string): Promise<void> {
+    if (!item.messageId) return;
+    await this.bot.editMessageText(
+      `${state}: <i>${escapeHtml(truncateText(item.prompt, 200))}</i>`,
+      { chat_id: chatId, message_id: item.messageId, parse_mode: "HTML" }
+    ).catch(() => undefined);
+  }
+
+  private formatQueuedPrompt(chatId: number, item: QueuedPrompt): string {
+    const position = this.sessionManager.getQueuePosition(chatId, item.id);
+    const workspace = this.sessionManager.getWorkspace(chatId, item.workspaceName);
+    const reason = workspace && this.isWorkspaceBusy(chatId, workspace)
+      ? "Claude is busy"
+      : "waiting for a free Claude slot";
+
+    return `📥 <b>Queued</b> for ${escapeHtml(item.workspaceName)} - position ${position} (${reason})\n\n` +
+      `<i>${escapeHtml(truncateText(item.prompt, 300))}</i>`;
+  }
+
+  private queueKeyboard(id: string): TelegramBot.InlineKeyboardButton[][] {
+    const prefix = TelegramBotHandler.CB_QUEUE;
+    return [[
+      { text: "✏️ Edit", callback_data: `${prefix}edit:${id}` },
+      { text: "🔗 Merge into next", callback_data: `${prefix}merge:${id}` },
+      { text: "🗑 Drop", callback_data: `${prefix}drop:${id}` },
+    ]];
+  }
 
-    // Check if there's already a running process
-    if (session.status === "processing" && session.claudeProcess) {
+  // ===========================================
+  // Usage & Budgets
+  // ===========================================
+
+  /**
+   * Check the chat's budget before a run; warns or refuses as configured
+   * Returns false when the run must not start.
+   */
+  private async checkBudget(chatId: number): Promise<boolean> {
+    const check = getUsageTracker().checkBudget(chatId);
+
+    if (!check.allowed) {
       await this.bot.sendMessage(
         chatId,
-        "A Claude process is already running. Use /cancel to stop it first."
-      );
-      return;
+        `🚫 <b>Budget exceeded</b> - ${escapeHtml(check.warning ?? "")}\n\nRaise or clear the limit with /usage budget.`,
+        { parse_mode: "HTML" }
+      ).catch(() => undefined);
+      return false;
     }
 
-    // Add user message to conversation history
-    this.sessionManager.addToConversation(chatId, {
-      role: "user",
-      content: text,
-      timestamp: Date.now(),
-    });
+    if (check.warning) {
+      await this.bot.sendMessage(chatId, `⚠️ ${escapeHtml(check.warning)}`, { parse_mode: "HTML" }).catch(() => undefined);
+    }
+    return true;
+  }
+
+  /**
+   * Record a run's tokens and cost; returns a one-line summary (or null when the CLI reported nothing)
+   */
+  private recordRunUsage(
+    result: ClaudeCliResult,
+    chatId: number | undefined,
+    projectName: string,
+    source: "chat" | "task" | "memory"
+  ): string | null {
+    if (!result.usage && result.costUsd === undefined) return null;
+
+    const usage = result.usage ?? {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    };
 
-    // Load self-review context for better responses
-    let enhancedPrompt = text;
     try {
-      const selfReviewContext = await loadSelfReviewContext();
-      if (selfReviewContext) {
-        enhancedPrompt = `${text}\n\n${selfReviewContext}`;
-        this.logger.debug("Loaded self-review context for response");
-      }
+      const cost = getUsageTracker().recordRun({
+        chatId,
+        project: projectName,
+        model: result.model ?? this.config.claudeDefaultModel,
+        sessionId: result.sessionId,
+        source,
+        ...usage,
+        costUsd: result.costUsd,
+      });
+      const tokensIn = usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+      return `💰 ${formatUsd(cost)} · ${this.formatTokens(tokensIn)} in / ${this.formatTokens(usage.outputTokens)} out`;
     } catch (error) {
-      this.logger.warn("Failed to load self-review context", {
+      this.logger.warn("Failed to record usage", {
         error: error instanceof Error ? error.message : String(error),
       });
+      return null;
     }
+  }
 
-    // Send typing indicator
-    await this.bot.sendChatAction(chatId, "typing");
+  private formatTokens(count: number): string {
+    if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+    if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+    return String(count);
+  }
 
-    // Spawn Claude process
-    try {
-      // Result message will be edited with streaming output
-      const resultMessage = await this.bot.sendMessage(
-        chatId,
-        "🤖 Starting..."
-      );
+  /**
+   * Handle /usage command - Token usage, spend and budgets
+   * Usage: /usage [budget [daily|monthly <usd|off>] [mode warn|block]]
+   */
+  private async handleUsage(msg: Message, args?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
 
-      this.logger.info(`🚀 Spawning Claude process for ${userInfo}`);
-      this.logger.debug(`  Project: ${session.currentProject.name}`);
-      this.logger.debug(`  Path: ${session.currentProject.path}`);
-      this.logger.debug(`  Model: ${this.config.claudeDefaultModel}`);
+    await ensureBrainInitialized();
+    const chatId = msg.chat.id;
+    const usageTracker = getUsageTracker();
+    const parts = (args ?? "").trim().split(/\s+/).filter(Boolean);
 
-      // Streaming state
-      let fullOutput = "";
-      let streamBuffer = "";
-      let lastStreamTime = Date.now();
-      let streamMessageId = resultMessage.message_id;
-      const KEEP_ALIVE_INTERVAL = 60_000; // Send keep-alive every 60 seconds
+    try {
+      if (parts[0] === "budget") {
+        const [, key, value] = parts;
 
-      // Update the result message with "still working" indicator
-      const updateStatusMessage = async (output: string) => {
-        try {
-          const elapsed = Math.floor((Date.now() - lastStreamTime) / 1000);
-          const preview = output.slice(-300);
-          const statusMsg = `🤖 Claude working... (${elapsed}s since last output)\n\n<pre>${escapeHtml(preview)}${output.length > 300 ? "..." : ""}</pre>`;
-          await this.bot.editMessageText(statusMsg, {
-            chat_id: chatId,
-            message_id: streamMessageId,
-            parse_mode: "HTML",
-          });
-        } catch {
-          // Message might be too old or deleted - ignore
+        if (key === "daily" || key === "monthly") {
+          const amount = value === "off" ? null : Number.parseFloat(value ?? "");
+          if (amount !== null && (!Number.isFinite(amount) || amount <= 0)) {
+            await this.bot.sendMessage(chatId, `Usage: /usage budget ${key} <usd|off>`);
+            return;
+          }
+          usageTracker.setBudget(chatId, key === "daily" ? { dailyUsd: amount } : { monthlyUsd: amount });
+        } else if (key === "mode") {
+          if (value !== "warn" && value !== "block") {
+            await this.bot.sendMessage(chatId, "Usage: /usage budget mode <warn|block>");
+            return;
+          }
+          usageTracker.setBudget(chatId, { mode: value });
+        } else if (key) {
+          await this.bot.sendMessage(
+            chatId,
+            "Usage: /usage budget [daily <usd|off>] [monthly <usd|off>] [mode <warn|block>]"
+          );
+          return;
         }
-      };
 
-      // Spawn with streaming callback
-      const claudeProcess = this.claudeSpawner.spawnProcess({
-        project: session.currentProject,
-        prompt: enhancedPrompt,
-        model: this.config.claudeDefaultModel,
-        onOutput: (data: string) => {
-          streamBuffer += data;
-          fullOutput += data;
-          lastStreamTime = Date.now();
+        const check = usageTracker.checkBudget(chatId);
+        const budget = check.budget;
+        let response = `💰 <b>Budget</b>\n\n`;
+        response += `Daily: ${budget?.dailyUsd ? `${formatUsd(check.spentTodayUsd)} of ${formatUsd(budget.dailyUsd)}` : `${formatUsd(check.spentTodayUsd)} (no limit)`}\n`;
+        response += `Monthly: ${budget?.monthlyUsd ? `${formatUsd(check.spentMonthUsd)} of ${formatUsd(budget.monthlyUsd)}` : `${formatUsd(check.spentMonthUsd)} (no limit)`}\n`;
+        response += `Mode: ${budget?.mode === "block" ? "block runs over budget" : "warn only"}\n`;
+        if (check.warning) {
+          response += `\n⚠️ ${escapeHtml(check.warning)}\n`;
+        }
+        response += `\nSet with /usage budget daily 5, /usage budget monthly 50, /usage budget mode block`;
+        await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+        return;
+      }
 
-          // Send chunked update if buffer is large enough
-          if (streamBuffer.length >= 100) {
-            updateStatusMessage(fullOutput);
-            streamBuffer = "";
-          }
-        },
-      });
+      const { startOfDay, startOfMonth } = await import("./brain/usage/index.js");
+      const today = usageTracker.getTotals(chatId, startOfDay());
+      const month = usageTracker.getTotals(chatId, startOfMonth());
 
-      this.sessionManager.setClaudeProcess(chatId, claudeProcess);
-      this.logger.info(`⏳ Claude PID ${claudeProcess.pid} started for ${userInfo} (no timeout, streaming enabled)`);
+      let response = `💰 <b>Claude Usage</b>\n\n`;
+      response += `<b>Today:</b> ${formatUsd(today.cost_usd)} · ${today.runs} runs · ${this.formatTokens(today.input_tokens + today.cache_creation_tokens + today.cache_read_tokens)} in / ${this.formatTokens(today.output_tokens)} out\n`;
+      response += `<b>This month:</b> ${formatUsd(month.cost_usd)} · ${month.runs} runs · ${this.formatTokens(month.input_tokens + month.cache_creation_tokens + month.cache_read_tokens)} in / ${this.formatTokens(month.output_tokens)} out\n`;
+      if (month.cache_read_tokens > 0) {
+        response += `Cache reads this month: ${this.formatTokens(month.cache_read_tokens)} tokens\n`;
+      }
 
-      // Keep-alive updater - sends updates if no output for a while
-      const keepAliveInterval = setInterval(() => {
-        if (claudeProcess.status !== "running") {
-          clearInterval(keepAliveInterval);
-          return;
+      const byProject = usageTracker.getBreakdown(chatId, startOfMonth(), "project");
+      if (byProject.length > 0) {
+        response += `\n<b>By project (month):</b>\n`;
+        for (const row of byProject.slice(0, 5)) {
+          response += `• ${escapeHtml(row.key ?? "unknown")}: ${formatUsd(row.cost_usd)} (${row.runs} runs)\n`;
         }
+      }
 
-        const timeSinceOutput = Date.now() - lastStreamTime;
-        if (timeSinceOutput >= KEEP_ALIVE_INTERVAL) {
-          updateStatusMessage(fullOutput);
+      const byModel = usageTracker.getBreakdown(chatId, startOfMonth(), "model");
+      if (byModel.length > 0) {
+        response += `\n<b>By model (month):</b>\n`;
+        for (const row of byModel.slice(0, 5)) {
+          response += `• ${escapeHtml(row.key ?? "unknown")}: ${formatUsd(row.cost_usd)} (${row.runs} runs)\n`;
         }
-      }, 30_000); // Check every 30 seconds
+      }
 
-      // Wait for result (no timeout - runs indefinitely)
-      const result = await this.claudeSpawner.waitForProcess(claudeProcess);
+      // 7-day trend across all chats, from the daily metrics files
+      const { getMetricsTracker } = await import("./brain/metrics/index.js");
+      const end = new Date();
+      const start = new Date(end.getTime() - 6 * 24 * 60 * 60 * 1000);
+      const days = await getMetricsTracker().getMetricsRange(
+        start.toISOString().split("T")[0],
+        end.toISOString().split("T")[0]
+      );
+      const todayMetrics = getMetricsTracker().getMetrics();
+      const trend = [...days.filter((d) => d.date !== todayMetrics.date), todayMetrics];
+      const maxCost = Math.max(...trend.map((d) => d.costUsd), 0);
+      if (maxCost > 0) {
+        response += `\n<b>Last 7 days (all chats):</b>\n<pre>`;
+        for (const day of trend) {
+          const bar = "█".repeat(Math.round((day.costUsd / maxCost) * 12));
+          response += `${day.date.slice(5)} ${bar.padEnd(12)} ${formatUsd(day.costUsd)}\n`;
+        }
+        response += `</pre>`;
+      }
 
-      clearInterval(keepAliveInterval);
+      const budget = usageTracker.getBudget(chatId);
+      response += budget
+        ? `\nBudget: ${budget.dailyUsd ? `${formatUsd(budget.dailyUsd)}/day ` : ""}${budget.monthlyUsd ? `${formatUsd(budget.monthlyUsd)}/month ` : ""}(${budget.mode}) - /usage budget`
+        : `\nNo budget set - /usage budget to add one`;
 
-      this.logger.info(`✅ Claude PID ${claudeProcess.pid} completed for ${userInfo}`);
-      this.logger.debug(`  Duration: ${result.duration}ms`);
-      this.logger.debug(`  Exit code: ${result.exitCode}`);
-      this.logger.debug(`  Output size: ${result.output.length} chars`);
+      await this.bot.sendMessage(chatId, response, { parse_mode: "HTML" });
+    } catch (error) {
+      await this.bot.sendMessage(
+        chatId,
+        `Error: ${error instanceof Error ? escapeHtml(error.message) : "Unknown error"}`,
+        { parse_mode: "HTML" }
+      );
+    }
+  }
 
-      // Track metrics
-      try {
-        const { getBrain } = await import('./brain/brain-manager.js');
-        getBrain().trackMetrics({
-          claudeQueries: 1,
-          activeProject: session.currentProject?.name
-        });
-      } catch {
-        // Metrics tracking is optional
-      }
+  // ===========================================
+  // Worktree Isolation
+  // ===========================================
 
-      // Delete the status message
-      try {
-        await this.bot.deleteMessage(resultMessage.chat.id, streamMessageId);
-      } catch {
-        // Message might be too old - ignore
-      }
+  /**
+   * Create a worktree for a run if WORKTREE_ISOLATION covers it
+   * Falls back to the working tree (with a warning) when the project can't be isolated.
+   */
+  private async createRunWorktree(
+    chatId: number,
+    project: Project,
+    background: boolean,
+    workspaceName?: string
+  ): Promise<ClaudeWorktree | null> {
+    const mode = this.config.worktreeIsolation;
+    if (mode === "off" || (mode === "background" && !background)) return null;
 
-      // Send final response in chunks
-      const chunks = chunkMessage(result.output);
-      this.logger.debug(`  Sending ${chunks.length} chunk(s) to Telegram`);
-      for (const chunk of chunks) {
-        await this.bot.sendMessage(chatId, `<pre>${escapeHtml(chunk)}</pre>`, {
-          parse_mode: "HTML",
-        });
-      }
+    const worktreeManager = getWorktreeManager();
+    if (!(await worktreeManager.isGitRepo(project.path))) return null;
 
-      // Add assistant response to history
-      this.sessionManager.addToConversation(chatId, {
-        role: "assistant",
-        content: result.output,
-        timestamp: Date.now(),
+    try {
+      return await worktreeManager.create(project.path, project.name, workspaceName ?? "task", chatId);
+    } catch (error) {
+      this.logger.warn(`Failed to create worktree for ${project.name}`, {
+        error: error instanceof Error ? error.message : String(error),
       });
+      await this.bot.sendMessage(
+        chatId,
+        `⚠️ Couldn't create an isolated worktree for ${escapeHtml(project.name)} - running in the project directory.`,
+        { parse_mode: "HTML" }
+      ).catch(() => undefined);
+      return null;
+    }
+  }
+
+  /**
+   * Commit a finished isolated run and ask what to do with its branch
+   */
+  private async offerWorktreeActions(
+    chatId: number,
+    worktree: ClaudeWorktree,
+    summary: string,
+    workspaceName?: string
+  ): Promise<void> {
+    try {
+      const changes = await getWorktreeManager().finish(worktree.id, `Claude: ${truncateText(summary.split("\n")[0], 72)}`);
+      if (!changes || changes.commits.length === 0) {
+        return; // Nothing changed - the worktree is already gone
+      }
 
-      // Update session status
-      this.sessionManager.setClaudeProcess(chatId, null);
-      this.sessionManager.setSessionStatus(chatId, "idle");
+      const message = await this.bot.sendMessage(
+        chatId,
+        this.formatWorktree(worktree, changes.files.length, changes.diffStat),
+        {
+          parse_mode: "HTML",
+          reply_markup: { inline_keyboard: this.worktreeKeyboard(worktree.id) },
+        }
+      );
+      if (workspaceName) {
+        this.sessionManager.trackWorkspaceMessage(chatId, workspaceName, message.message_id);
+      }
 
+      // The full diff rides along as a patch file for review
+      const diff = await getWorktreeManager().getDiff(worktree.id);
+      if (diff?.trim()) {
+        await this.sendDocument(
+          chatId,
+          textDocument(artifactFileName(worktree.branch.replace(/\//g, "-"), "patch"), diff, changes.diffStat),
+          `🩹 Full diff of <code>${escapeHtml(worktree.branch)}</code>`
+        );
+      }
     } catch (error) {
-      this.logger.error(`❌ Error processing request for ${userInfo}`, {
+      this.logger.error(`Failed to finish worktree ${worktree.id}`, {
         error: error instanceof Error ? error.message : String(error),
       });
+    }
+  }
+
+  /**
+   * Merge, cherry-pick, open a PR for, or discard an isolated run
+   */
+  private async handleWorktreeAction(
+    chatId: number,
+    action: WorktreeAction,
+    id: string,
+    messageId?: number
+  ): Promise<void> {
+    const result = await getWorktreeManager().apply(id, action);
+    const text = `${result.success ? "✅" : "❌"} ${escapeHtml(result.message)}${result.url ? `\n${escapeHtml(result.url)}` : ""}`;
+
+    if (messageId && result.success) {
+      await this.bot.editMessageText(text, {
+        chat_id: chatId,
+        message_id: messageId,
+        parse_mode: "HTML",
+      }).catch(() => this.bot.sendMessage(chatId, text, { parse_mode: "HTML" }));
+    } else {
+      await this.bot.sendMessage(chatId, text, { parse_mode: "HTML" });
+    }
+  }
+
+  /**
+   * Handle /worktrees command - Review isolated runs waiting for a decision
+   * Usage: /worktrees [merge|pick|pr|discard <id>]
+   */
+  private async handleWorktrees(msg: Message, args?: string): Promise<void> {
+    if (!this.isAuthorized(msg)) {
+      return this.sendNotAuthorized(msg);
+    }
+
+    const chatId = msg.chat.id;
+    const [action, id] = (args ?? "").trim().split(/\s+/);
+    const actions: Record<string, WorktreeAction> = {
+      merge: "merge",
+      pick: "cherry-pick",
+      "cherry-pick": "cherry-pick",
+      pr: "pr",
+      discard: "discard",
+    };
+
+    if (action && action !== "list") {
+      if (!actions[action] || !id) {
+        await this.bot.sendMessage(chatId, "Usage: /worktrees [merge|pick|pr|discard <id>]");
+        return;
+      }
+      await this.handleWorktreeAction(chatId, actions[action], id);
+      return;
+    }
+
+    const worktrees = (await getWorktreeManager().list()).filter((w) => w.status === "ready");
+    if (worktrees.length === 0) {
+      const mode = this.config.worktreeIsolation;
       await this.bot.sendMessage(
         chatId,
-        `Error: ${error instanceof Error ? escapeHtml(error.message) : "Unknown error"}\n\nUse /cancel if needed, then try again.`
+        `No isolated runs are waiting for review.${mode === "off" ? "\n\nWorktree isolation is off (set WORKTREE_ISOLATION=background or all)." : ""}`
       );
-      this.sessionManager.setClaudeProcess(chatId, null);
-      this.sessionManager.setSessionStatus(chatId, "idle");
+      return;
+    }
+
+    for (const worktree of worktrees.slice(0, 10)) {
+      await this.bot.sendMessage(chatId, this.formatWorktree(worktree), {
+        parse_mode: "HTML",
+        reply_markup: { inline_keyboard: this.worktreeKeyboard(worktree.id) },
+      });
+    }
+  }
+
+  private formatWorktree(worktree: ClaudeWorktree, fileCount?: number, diffStat?: string): string {
+    let text = `🌿 <b>${escapeHtml(worktree.projectName)}</b>: changes on <code>${escapeHtml(worktree.branch)}</code>\n`;
+    text += `Based on ${escapeHtml(worktree.baseBranch)} · ${formatRelativeTime(worktree.finishedAt ?? worktree.createdAt)}`;
+    if (fileCount !== undefined) {
+      text += ` · ${fileCount} file${fileCount === 1 ? "" : "s"}`;
+    }
+    text += `\nID: <code>${worktree.id}</code>`;
+    if (diffStat) {
+      text += `\n\n<pre>${escapeHtml(truncateText(diffStat, 1500))}</pre>`;
     }
+    return text;
+  }
+
+  private worktreeKeyboard(id: string): TelegramBot.InlineKeyboardButton[][] {
+    const cb = (action: WorktreeAction) => `${TelegramBotHandler.CB_WORKTREE}${action}:${id}`;
+    return [
+      [
+        { text: "🔀 Merge", callback_data: cb("merge") },
+        { text: "🍒 Cherry-pick", callback_data: cb("cherry-pick") },
+      ],
+      [
+        { text: "📬 Open PR", callback_data: cb("pr") },
+        { text: "🗑 Discard", callback_data: cb("discard") },
+      ],
+    ];
   }
 
   /**
@@ -4925,11 +7511,24 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
   public async start(): Promise<void> {
     console.log("Bot started successfully!");
 
+    // Start the permission bridge (no-op in bypassPermissions mode)
+    // If it fails, the bridge disables itself and runs use the CLI's own permission mode
+    try {
+      await this.permissionBridge.start();
+    } catch (error) {
+      this.logger.error("Failed to start permission bridge - Telegram approvals are disabled", {
+        error: error instanceof Error ? error.message : String(error),
+        permissionMode: this.config.claudePermissionMode,
+      });
+    }
+
     // Load persisted sessions
     try {
       const loadedCount = await this.sessionManager.loadSessions();
       if (loadedCount > 0) {
         console.log(`Restored ${loadedCount} session(s) from disk.`);
+        // Pick up prompts that were queued before the restart
+        void this.processPromptQueues();
       }
     } catch (error) {
       this.logger.error("Failed to load sessions", {
@@ -4965,7 +7564,8 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       this.bot.on('message', async (msg) => {
         // Index user messages
         if (msg.text && msg.text.trim()) {
-          await convIndexer.indexMessage(msg, 'user', msg.text);
+          const project = this.sessionManager.getSession(msg.chat.id)?.currentProject?.name;
+          await convIndexer.indexMessage(msg, 'user', msg.text, project);
         }
       });
 
@@ -4984,7 +7584,8 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
               from: { id: 0, username: 'bot' }, // Bot messages
               date: Math.floor(Date.now() / 1000),
             };
-            await convIndexer.indexMessage(mockMsg as any, 'bot', text);
+            const project = this.sessionManager.getSession(mockMsg.chat.id)?.currentProject?.name;
+            await convIndexer.indexMessage(mockMsg as any, 'bot', text, project);
           } catch {
             // Silently fail on indexing errors
           }
@@ -5000,6 +7601,18 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       });
     }
 
+    // Summarize settled chat history into durable memories in the background
+    try {
+      const consolidator = getMemoryConsolidator();
+      await consolidator.initialize();
+      consolidator.setSummarizer((request) => this.runMemorySummary(request));
+      consolidator.start(this.config.memoryConsolidationIntervalMs);
+    } catch (error) {
+      this.logger.error("Failed to start memory consolidation", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
     // Start self-improvement scheduled jobs
     try {
       startScheduledJobs();
@@ -5014,6 +7627,8 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
    * Execute a claude_query task - runs Claude with the task description
    */
   private async executeClaudeQueryTask(task: Task): Promise<{ success: boolean; result?: unknown; error?: string }> {
+    let permissionRunId: string | null = null;
+    let worktree: ClaudeWorktree | null = null;
     try {
       const chatId = task.chatId;
 
@@ -5033,6 +7648,16 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
         return { success: false, error: "No project selected" };
       }
 
+      // Background tasks count towards the same global limit as chat workspaces
+      if (!this.hasRunCapacity()) {
+        return { success: false, error: "Concurrent Claude process limit reached" };
+      }
+
+      // ...and the chat's spend budget
+      if (!(await this.checkBudget(chatId))) {
+        return { success: false, error: "Budget exceeded" };
+      }
+
       // Notify user that task is starting
       try {
         await this.bot.sendMessage(
@@ -5044,12 +7669,30 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
         // Ignore send errors
       }
 
+      // Keep background edits off the working tree when isolation is enabled
+      worktree = await this.createRunWorktree(chatId, session.currentProject, true);
+      const project = worktree ? { ...session.currentProject, path: worktree.path } : session.currentProject;
+
+      // Route tool permission requests to the task's chat
+      await this.warnPermissionFallback(chatId);
+      const permissionRun = this.permissionBridge.isEnabled()
+        ? this.permissionBridge.registerRun({
+            chatId,
+            projectPath: project.path,
+            onPrompt: (request) => this.sendPermissionPrompt(chatId, project, request),
+          })
+        : null;
+      permissionRunId = permissionRun?.runId ?? null;
+
       // Execute Claude with the task description
       const claudeProcess = this.claudeSpawner.spawnProcess({
-        project: session.currentProject,
+        project,
         prompt: task.description,
         model: this.config.claudeDefaultModel,
-        onOutput: async (data: string) => {
+        output: "stream-json",
+        permissionPrompt: permissionRun?.permissionPrompt,
+        onOutput: async (data, event) => {
+          if (event && event.type !== "text") return;
           try {
             await this.bot.sendMessage(chatId, data);
           } catch {
@@ -5065,6 +7708,7 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
 
       // Wait for process to complete
       const result = await this.claudeSpawner.waitForProcess(claudeProcess);
+      const usageFooter = this.recordRunUsage(result, chatId, project.name, "task");
 
       // Notify user of completion
       const success = result.exitCode === 0;
@@ -5072,7 +7716,7 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
         if (success) {
           await this.bot.sendMessage(
             chatId,
-            `✅ Task completed: <b>${task.title}</b>`,
+            `✅ Task completed: <b>${task.title}</b>${usageFooter ? `\n<i>${usageFooter}</i>` : ""}`,
             { parse_mode: "HTML" }
           );
         } else {
@@ -5099,6 +7743,14 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       }
 
       return { success: false, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      if (permissionRunId) {
+        this.permissionBridge.unregisterRun(permissionRunId);
+      }
+      if (worktree) {
+        await this.offerWorktreeActions(task.chatId, worktree, task.title);
+      }
+      void this.processPromptQueues();
     }
   }
 
@@ -5116,6 +7768,18 @@ Now with <b>agentic brain</b> capabilities for persistent memory and autonomous
       });
     }
 
+    await this.permissionBridge.stop();
+    getMemoryConsolidator().stop();
+    getChangeDetector().stop();
+
+    try {
+      await getVectorStore().close();
+    } catch (error) {
+      this.logger.error("Failed to write vector index", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
     this.bot.stopPolling();
     console.log("Bot stopped.");
   }
@@ -31,12 +31,63 @@ export interface ChatSession {
   username?: string;
   firstName?: string;
   lastName?: string;
-  currentProject: Project | null;
+  currentProject: Project | null;  // Project of the active workspace
+  activeWorkspace: string | null;  // Workspace unprefixed messages go to
+  workspaces: Record<string, Workspace>;
+  pendingApproval: EditApprovalRequest | null;
+  status: 'idle' | 'processing' | 'awaiting_approval';  // Aggregate over workspaces
+  lastActivity: number;
+  claudeSessions: ClaudeSessionRef[];  // Known native CLI sessions, newest first
+  activeClaudeSessions: Record<string, ActiveClaudeSession>;  // projectName → session to resume
+  promptQueue: QueuedPrompt[];  // Prompts waiting for a busy workspace, oldest first
+}
+
+/**
+ * A prompt received while its workspace was busy
+ * Runs when the workspace frees up; shown in chat with edit/merge/drop buttons.
+ */
+export interface QueuedPrompt {
+  id: string;
+  workspaceName: string;
+  prompt: string;
+  queuedAt: number;
+  messageId?: number;  // Position indicator message
+  attachmentDirs?: string[];  // Scratch dirs holding the prompt's attachments, removed after the run
+}
+
+/**
+ * One project a chat works on, with its own Claude process and history
+ * Named after the project; messages route to it by `@name` prefix or reply-to.
+ */
+export interface Workspace {
+  name: string;
+  project: Project;
   claudeProcess: ClaudeProcess | null;
   conversationHistory: ConversationMessage[];
-  pendingApproval: EditApprovalRequest | null;
-  status: 'idle' | 'processing' | 'awaiting_approval';
+  status: 'idle' | 'processing';
   lastActivity: number;
+  messageIds: number[];  // Bot messages posted for this workspace (reply-to routing)
+}
+
+/**
+ * A native Claude CLI session created by a run in this chat
+ */
+export interface ClaudeSessionRef {
+  sessionId: string;
+  projectName: string;
+  title: string;  // First prompt of the session, for listing
+  createdAt: number;
+  lastUsedAt: number;
+  runCount: number;
+  forkedFrom?: string;
+}
+
+/**
+ * Session the next run for a project should continue
+ */
+export interface ActiveClaudeSession {
+  sessionId: string;
+  fork: boolean;  // Branch into a new session (--fork-session) instead of continuing
 }
 
 export interface ClaudeProcess {
@@ -46,7 +97,9 @@ export interface ClaudeProcess {
   startTime: number;
   status: 'starting' | 'running' | 'completed' | 'error' | 'cancelled';
   outputBuffer: string[];
-  onOutput?: (data: string) => void;  // Streaming callback
+  outputFormat?: 'text' | 'json' | 'stream-json';
+  events?: ClaudeStreamEvent[];  // Parsed events (stream-json only)
+  onOutput?: (data: string, event?: ClaudeStreamEvent) => void;  // Streaming callback
 }
 
 export interface ConversationMessage {
@@ -65,8 +118,27 @@ export interface EditApprovalRequest {
   files: FileEdit[];
   type: 'edit' | 'delete' | 'create';
   timestamp: number;
+  toolName?: string;  // Claude tool waiting on this approval (permission bridge)
+  summary?: string;
 }
 
+/**
+ * A tool permission request forwarded from a running Claude process
+ */
+export interface PermissionPromptRequest {
+  id: string;
+  runId: string;
+  toolName: string;
+  toolUseId?: string;
+  input: Record<string, unknown>;
+  reason: string;  // Why the user is being asked
+  timestamp: number;
+}
+
+export type PermissionDecision =
+  | { behavior: 'allow'; updatedInput: Record<string, unknown> }
+  | { behavior: 'deny'; message: string };
+
 export interface FileEdit {
   path: string;
   action: 'modify' | 'create' | 'delete';
@@ -90,14 +162,58 @@ export interface ClaudeCliOptions {
   maxTokens?: number;
 }
 
+/**
+ * Extra CLI wiring for routing tool permission prompts to the bot
+ */
+export interface PermissionPromptConfig {
+  permissionMode: BridgeConfig['claudePermissionMode'];  // Mode to pass with --permission-mode
+  mcpConfigPath: string;  // File for --mcp-config (owner-only, holds the bridge token)
+  toolName: string;  // Value for --permission-prompt-tool
+  env: Record<string, string>;  // Extra environment for the claude process
+}
+
 export interface ClaudeCliResult {
   exitCode: number;
   output: string;
   edits: FileEdit[];
   errors: string[];
   duration: number;
+  sessionId?: string;
+  model?: string;  // Model the CLI actually used (stream-json init event)
+  usage?: ClaudeUsage;
+  costUsd?: number;
+}
+
+/**
+ * Token usage reported by the CLI (json / stream-json output)
+ */
+export interface ClaudeUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
 }
 
+/**
+ * Typed events parsed from `--output-format stream-json`
+ */
+export type ClaudeStreamEvent =
+  | { type: 'init'; sessionId: string; model?: string; tools?: string[] }
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError: boolean }
+  | { type: 'usage'; usage: ClaudeUsage; messageId?: string } // Repeated for each content block of a message
+  | {
+      type: 'result';
+      isError: boolean;
+      result: string;
+      sessionId?: string;
+      durationMs?: number;
+      numTurns?: number;
+      costUsd?: number;
+      usage?: ClaudeUsage;
+    };
+
 // ===========================================
 // Telegram Bot Types
 // ===========================================
@@ -134,6 +250,8 @@ export interface BridgeConfig {
   claudeDefaultModel: string;
   claudeTimeoutMs: number;
   claudePermissionMode: 'acceptEdits' | 'bypassPermissions' | 'default' | 'delegate' | 'dontAsk' | 'plan';
+  agentPermissionMode: 'acceptEdits' | 'bypassPermissions' | 'default' | 'delegate' | 'dontAsk' | 'plan'; // Autonomous agent runs, which have no chat to prompt
+  worktreeIsolation: 'off' | 'background' | 'all'; // background = tasks and autonomous agents only
 
   // Sessions
   sessionTimeoutMs: number;
@@ -145,6 +263,23 @@ export interface BridgeConfig {
   requireApprovalForDeletes: boolean;
   requireApprovalForMassChanges: boolean;
   massChangeThreshold: number;
+  diffReview: boolean; // Send each run's working tree changes hunk by hunk with Keep/Revert buttons
+
+  // Attachments
+  attachmentMaxBytes: number;
+  attachmentLocation: 'project' | 'temp'; // Scratch dir inside the project (.claude-bridge/) or the OS temp dir
+  transcriberCommand?: string; // Local speech-to-text command for voice notes, `{file}` is the audio path
+
+  // Output
+  outputDocumentThreshold: number; // Characters above which output is sent as a file (0 = always chunk)
+
+  // Semantic Memory
+  embeddingProvider: 'hash' | 'local' | 'http';
+  embeddingModel?: string; // Model name for the local or http provider
+  embeddingUrl?: string; // OpenAI-compatible embeddings endpoint for the http provider
+  embeddingApiKey?: string;
+  contextBudgetTokens: number; // Retrieved memory prepended to each prompt (0 = off)
+  memoryConsolidationIntervalMs: number; // How often old chat history is summarized into memories (0 = off)
 
   // Logging
   logLevel: 'debug' | 'info' | 'warn' | 'error';
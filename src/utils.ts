@@ -70,6 +70,21 @@ export function formatRelativeTime(timestamp: number): string {
   return `${days}d ago`;
 }
 
+/**
+ * Format a timestamp as a short date and time in a time zone, e.g. "Mon, Mar 9, 14:30"
+ */
+export function formatInTimeZone(timestamp: number, timeZone: string): string {
+  return new Date(timestamp).toLocaleString("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+}
+
 /**
  * Truncate text to a maximum length with ellipsis
  */